@@ -0,0 +1 @@
+ALTER TABLE team_oplog ADD COLUMN IF NOT EXISTS hlc TEXT;
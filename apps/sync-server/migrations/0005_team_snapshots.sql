@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS team_snapshots (
+  team_id TEXT NOT NULL REFERENCES teams(team_id) ON DELETE CASCADE,
+  server_seq BIGINT NOT NULL,
+  format_version INTEGER NOT NULL,
+  payload_json JSONB NOT NULL,
+  created_by TEXT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (team_id, server_seq)
+);
+
+ALTER TABLE team_seq
+  ADD COLUMN IF NOT EXISTS compacted_through_seq BIGINT NOT NULL DEFAULT 0;
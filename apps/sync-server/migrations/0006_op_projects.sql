@@ -0,0 +1,5 @@
+ALTER TABLE team_oplog
+  ADD COLUMN IF NOT EXISTS project_ids TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_team_oplog_project_ids
+  ON team_oplog USING GIN (project_ids);
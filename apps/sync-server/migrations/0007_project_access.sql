@@ -0,0 +1,53 @@
+CREATE TABLE IF NOT EXISTS project_members (
+  team_id TEXT NOT NULL REFERENCES teams(team_id) ON DELETE CASCADE,
+  project_id TEXT NOT NULL,
+  user_id TEXT NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (team_id, project_id, user_id)
+);
+
+-- Parent index of every item the team's ops have placed, used to resolve
+-- which root project an op writes to.
+CREATE TABLE IF NOT EXISTS team_items (
+  team_id TEXT NOT NULL REFERENCES teams(team_id) ON DELETE CASCADE,
+  item_id TEXT NOT NULL,
+  parent_id TEXT,
+  item_type TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (team_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_items_parent
+  ON team_items(team_id, parent_id);
+
+INSERT INTO team_items (team_id, item_id, parent_id, item_type)
+SELECT team_id, payload_json->>'id', payload_json->>'parent_id', payload_json->>'type'
+FROM team_oplog
+WHERE op_name = 'create_item'
+  AND COALESCE(payload_json->>'id', '') <> ''
+ON CONFLICT (team_id, item_id) DO NOTHING;
+
+-- Later moves win over the parent an item was created under.
+WITH latest_moves AS (
+  SELECT DISTINCT ON (team_id, item_id) team_id, item_id, parent_id
+  FROM (
+    SELECT team_id, server_seq, payload_json->>'item_id' AS item_id,
+      payload_json->>'parent_id' AS parent_id
+    FROM team_oplog
+    WHERE op_name = 'move_item' AND payload_json ? 'parent_id'
+    UNION ALL
+    SELECT team_id, server_seq, payload_json->>'id' AS item_id,
+      payload_json->'fields'->>'parent_id' AS parent_id
+    FROM team_oplog
+    WHERE op_name = 'update_item_fields' AND payload_json->'fields' ? 'parent_id'
+  ) moves
+  WHERE item_id IS NOT NULL
+  ORDER BY team_id, item_id, server_seq DESC
+)
+UPDATE team_items ti
+SET parent_id = latest_moves.parent_id
+FROM latest_moves
+WHERE ti.team_id = latest_moves.team_id
+  AND ti.item_id = latest_moves.item_id;
@@ -0,0 +1,59 @@
+-- Item each scheduled block, blocker and time entry belongs to. Ops on those
+-- rows may name only the row (delete_block, clear_blocker...), so the server
+-- looks the item up here to tell which project the op writes to.
+CREATE TABLE IF NOT EXISTS team_item_rows (
+  team_id TEXT NOT NULL REFERENCES teams(team_id) ON DELETE CASCADE,
+  row_kind TEXT NOT NULL CHECK (row_kind IN ('block', 'blocker', 'time_entry')),
+  row_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (team_id, row_kind, row_id)
+);
+
+-- Backfill from snapshots and the log; the newest placement of a row wins.
+WITH placements AS (
+  SELECT s.team_id, s.server_seq, 'block' AS row_kind,
+    e->>'block_id' AS row_id, e->>'item_id' AS item_id
+  FROM team_snapshots s, jsonb_array_elements(COALESCE(s.payload_json->'scheduled_blocks', '[]'::jsonb)) e
+  UNION ALL
+  SELECT s.team_id, s.server_seq, 'blocker', e->>'blocker_id', e->>'item_id'
+  FROM team_snapshots s, jsonb_array_elements(COALESCE(s.payload_json->'blockers', '[]'::jsonb)) e
+  UNION ALL
+  SELECT s.team_id, s.server_seq, 'time_entry', e->>'entry_id', e->>'item_id'
+  FROM team_snapshots s, jsonb_array_elements(COALESCE(s.payload_json->'time_entries', '[]'::jsonb)) e
+  UNION ALL
+  SELECT team_id, server_seq, 'block', payload_json->>'block_id', payload_json->>'item_id'
+  FROM team_oplog
+  WHERE op_name IN ('scheduled_block.create', 'create_block')
+  UNION ALL
+  SELECT team_id, server_seq, 'block', payload_json->>'next_block_id',
+    payload_json->>'next_occurrence_id'
+  FROM team_oplog
+  WHERE op_name = 'set_status'
+  UNION ALL
+  SELECT o.team_id, o.server_seq, 'block', e->>'block_id', e->>'item_id'
+  FROM team_oplog o, jsonb_array_elements(
+    CASE WHEN jsonb_typeof(o.payload_json->'plan') = 'array'
+      THEN o.payload_json->'plan' ELSE '[]'::jsonb END
+  ) e
+  WHERE o.op_name = 'schedule.auto_plan'
+  UNION ALL
+  SELECT team_id, server_seq, 'blocker', payload_json->>'blocker_id', payload_json->>'item_id'
+  FROM team_oplog
+  WHERE op_name = 'add_blocker'
+  UNION ALL
+  SELECT team_id, server_seq, 'time_entry', payload_json->>'entry_id', payload_json->>'item_id'
+  FROM team_oplog
+  WHERE op_name IN ('add_time_entry', 'stop_timer')
+  UNION ALL
+  SELECT team_id, server_seq, 'time_entry', payload_json->>'new_entry_id',
+    payload_json->>'item_id'
+  FROM team_oplog
+  WHERE op_name = 'time_entry.split'
+)
+INSERT INTO team_item_rows (team_id, row_kind, row_id, item_id)
+SELECT DISTINCT ON (team_id, row_kind, row_id) team_id, row_kind, row_id, item_id
+FROM placements
+WHERE COALESCE(row_id, '') <> '' AND COALESCE(item_id, '') <> ''
+ORDER BY team_id, row_kind, row_id, server_seq DESC
+ON CONFLICT (team_id, row_kind, row_id) DO NOTHING;
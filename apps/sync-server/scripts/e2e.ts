@@ -2,6 +2,13 @@ import type { IncomingMessage } from "node:http";
 import { buildHandler } from "../src/app.ts";
 import { ApiError } from "../src/auth/errors.ts";
 import type { SyncRouteDependencies } from "../src/routes/sync.ts";
+import {
+  collectItemPlacements,
+  collectRowPlacements,
+  projectMemberChange,
+  type ItemRowRef,
+  type ProjectMember,
+} from "../src/sync/projectAccess.ts";
 import type { OpEnvelope } from "../../../src/rpc/types.ts";
 
 type Result = {
@@ -18,16 +25,29 @@ type RemoteLogEntry = {
   client_id: string;
 };
 
+type StoredSnapshot = Parameters<SyncRouteDependencies["saveSnapshot"]>[0] & {
+  created_at: string;
+};
+
 type TeamLog = {
   latestSeq: number;
   byOpId: Map<string, number>;
   entries: RemoteLogEntry[];
+  items: Map<string, { parent_id: string | null; item_type: string | null }>;
+  /** Item of each block, blocker and time entry, keyed `${row_kind}:${row_id}`. */
+  rows: Map<string, string>;
+  members: ProjectMember[];
+  snapshots: StoredSnapshot[];
 };
 
 const TEAM_ID = "team_e2e";
 const USER_ID = "user_sync";
+const OWNER_ID = "user_owner";
+const VIEWER_ID = "user_viewer";
 const TOKEN_A = "token_a";
 const TOKEN_B = "token_b";
+const TOKEN_OWNER = "token_owner";
+const TOKEN_VIEWER = "token_viewer";
 
 const deepClone = <T>(value: T): T => {
   return JSON.parse(JSON.stringify(value)) as T;
@@ -45,6 +65,10 @@ class InMemoryRemoteLog {
       latestSeq: 0,
       byOpId: new Map<string, number>(),
       entries: [],
+      items: new Map(),
+      rows: new Map(),
+      members: [],
+      snapshots: [],
     };
     this.teams.set(teamId, created);
     return created;
@@ -54,9 +78,25 @@ class InMemoryRemoteLog {
     return this.ensureTeam(teamId).latestSeq;
   }
 
-  listOpsSince(teamId: string, sinceSeq: number, limit: number) {
+  listOpsSince(
+    teamId: string,
+    sinceSeq: number,
+    limit: number,
+    projectIds: string[] | null,
+    hiddenProjectIds: string[]
+  ) {
     return this.ensureTeam(teamId).entries
       .filter((entry) => entry.server_seq > sinceSeq)
+      .filter(
+        (entry) =>
+          !entry.op.project_ids?.some((projectId) => hiddenProjectIds.includes(projectId))
+      )
+      .filter(
+        (entry) =>
+          projectIds === null ||
+          !entry.op.project_ids?.length ||
+          entry.op.project_ids.some((projectId) => projectIds.includes(projectId))
+      )
       .sort((a, b) => a.server_seq - b.server_seq)
       .slice(0, limit)
       .map((entry) => deepClone({ server_seq: entry.server_seq, op: entry.op }));
@@ -87,21 +127,110 @@ class InMemoryRemoteLog {
       op: storedOp,
       client_id: clientId,
     });
+    for (const placement of collectItemPlacements(op.op_name, op.payload)) {
+      team.items.set(placement.item_id, {
+        parent_id: placement.parent_id,
+        item_type: placement.item_type ?? team.items.get(placement.item_id)?.item_type ?? null,
+      });
+    }
+    for (const placement of collectRowPlacements(op.op_name, op.payload)) {
+      team.rows.set(`${placement.row_kind}:${placement.row_id}`, placement.item_id);
+    }
+    const change = projectMemberChange(op.op_name, op.payload);
+    if (change) {
+      team.members = team.members.filter(
+        (member) =>
+          member.project_id !== change.project_id || member.user_id !== change.user_id
+      );
+      if (change.role) {
+        team.members.push({
+          project_id: change.project_id,
+          user_id: change.user_id,
+          role: change.role,
+        });
+      }
+    }
     return nextSeq;
   }
 
+  listProjectMembers(teamId: string) {
+    return deepClone(this.ensureTeam(teamId).members);
+  }
+
+  resolveItemProjects(teamId: string, itemIds: string[]) {
+    const { items } = this.ensureTeam(teamId);
+    const roots = new Map<string, string>();
+    for (const itemId of itemIds) {
+      let currentId: string | null = itemId;
+      for (let depth = 0; currentId && depth < 64; depth += 1) {
+        const item = items.get(currentId);
+        if (!item) {
+          break;
+        }
+        if (item.parent_id === null) {
+          if (item.item_type === "project") {
+            roots.set(itemId, currentId);
+          }
+          break;
+        }
+        currentId = item.parent_id;
+      }
+    }
+    return roots;
+  }
+
+  resolveRowItems(teamId: string, rowRefs: ItemRowRef[]) {
+    const { rows } = this.ensureTeam(teamId);
+    return [
+      ...new Set(
+        rowRefs.flatMap((ref) => rows.get(`${ref.row_kind}:${ref.row_id}`) ?? [])
+      ),
+    ];
+  }
+
+  getLatestSnapshot(teamId: string) {
+    const { snapshots } = this.ensureTeam(teamId);
+    const latest = snapshots[snapshots.length - 1];
+    return latest ? deepClone(latest) : null;
+  }
+
+  saveSnapshot(snapshot: Parameters<SyncRouteDependencies["saveSnapshot"]>[0]) {
+    this.ensureTeam(snapshot.team_id).snapshots.push({
+      ...deepClone(snapshot),
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  /** The parent index as snapshot item rows. */
+  listItems(teamId: string) {
+    return [...this.ensureTeam(teamId).items].map(([id, item]) => ({
+      id,
+      parent_id: item.parent_id,
+      type: item.item_type,
+    }));
+  }
+
   getCount(teamId: string) {
     return this.ensureTeam(teamId).entries.length;
   }
 }
 
 const membership = new Map<string, Map<string, Role>>([
-  [TEAM_ID, new Map([[USER_ID, "editor"]])],
+  [
+    TEAM_ID,
+    new Map<string, Role>([
+      [USER_ID, "editor"],
+      [OWNER_ID, "owner"],
+      [VIEWER_ID, "viewer"],
+    ]),
+  ],
 ]);
 
 const sessions = new Map<string, string>([
   [TOKEN_A, USER_ID],
   [TOKEN_B, USER_ID],
+  [TOKEN_OWNER, OWNER_ID],
+  [TOKEN_VIEWER, VIEWER_ID],
 ]);
 
 const roleRank: Record<Role, number> = {
@@ -156,10 +285,16 @@ const syncDeps: Partial<SyncRouteDependencies> = {
     );
   },
   getLatestSeq: async (teamId) => remote.getLatestSeq(teamId),
-  listOpsSince: async (teamId, sinceSeq, limit) =>
-    remote.listOpsSince(teamId, sinceSeq, limit),
+  getCompactedThroughSeq: async () => 0,
+  listOpsSince: async (teamId, sinceSeq, limit, projectIds, hiddenProjectIds) =>
+    remote.listOpsSince(teamId, sinceSeq, limit, projectIds, hiddenProjectIds),
   appendOrGetServerSeq: async (teamId, clientId, actorUserId, op) =>
     remote.appendOrGetServerSeq(teamId, clientId, actorUserId, op),
+  listProjectMembers: async (teamId) => remote.listProjectMembers(teamId),
+  resolveItemProjects: async (teamId, itemIds) => remote.resolveItemProjects(teamId, itemIds),
+  resolveRowItems: async (teamId, rows) => remote.resolveRowItems(teamId, rows),
+  getLatestSnapshot: async (teamId) => remote.getLatestSnapshot(teamId),
+  saveSnapshot: async (snapshot) => remote.saveSnapshot(snapshot),
 };
 
 const handler = buildHandler("*", syncDeps);
@@ -209,6 +344,50 @@ const invoke = async (
   };
 };
 
+const openStream = async (url: string, token: string) => {
+  const chunks: string[] = [];
+  const closeListeners: Array<() => void> = [];
+  const request = {
+    method: "GET",
+    url,
+    headers: {
+      authorization: `Bearer ${token}`,
+    },
+    once: (event: string, listener: () => void) => {
+      if (event === "close") {
+        closeListeners.push(listener);
+      }
+    },
+  } as unknown as Parameters<typeof handler>[0];
+
+  const response = {
+    statusCode: 200,
+    setHeader: () => {},
+    flushHeaders: () => {},
+    write: (chunk: string) => {
+      chunks.push(chunk);
+      return true;
+    },
+    end: (payload?: string) => {
+      chunks.push(payload ?? "");
+    },
+  } as unknown as Parameters<typeof handler>[1];
+
+  await handler(request, response);
+  return {
+    statusCode: () => response.statusCode,
+    seqEvents: () =>
+      chunks
+        .filter((chunk) => chunk.startsWith("event: seq\n"))
+        .map((chunk) => JSON.parse(chunk.split("data: ")[1]) as { latest_seq: number }),
+    close: () => {
+      for (const listener of closeListeners) {
+        listener();
+      }
+    },
+  };
+};
+
 type DeviceStateItem = {
   id: string;
   type: string;
@@ -254,7 +433,7 @@ class SimDevice {
     op_name: string,
     payload: Record<string, unknown>,
     opId?: string,
-    options?: { applyLocal?: boolean }
+    options?: { applyLocal?: boolean; projectIds?: string[] }
   ) {
     const op: OpEnvelope = {
       op_id: opId ?? `${this.clientId}_op_${this.opCounter++}`,
@@ -263,6 +442,7 @@ class SimDevice {
       created_at: this.clock++,
       op_name,
       payload,
+      ...(options?.projectIds ? { project_ids: options.projectIds } : {}),
     };
     if (options?.applyLocal !== false) {
       this.applyOp(op);
@@ -637,6 +817,177 @@ const run = async () => {
     finalTitle === "Replay stable title",
     `Unexpected final title after replay: '${finalTitle}'`
   );
+
+  const seqBeforeStream = remote.getLatestSeq(TEAM_ID);
+  const stream = await openStream(`/sync/stream?team_id=${TEAM_ID}`, TOKEN_B);
+  try {
+    deviceA.enqueue("update_item_fields", {
+      item_id: taskBId,
+      title: "Announced over stream",
+    });
+    const streamedPush = await deviceA.push();
+    const events = stream.seqEvents();
+    const pushedSeq = streamedPush.acked[0]?.server_seq ?? -1;
+    check(
+      "Stream announces new server_seq after push",
+      stream.statusCode() === 200 &&
+        events.length === 2 &&
+        events[0].latest_seq === seqBeforeStream &&
+        events[1].latest_seq === pushedSeq,
+      `Unexpected stream events: ${JSON.stringify(events)}`
+    );
+  } finally {
+    stream.close();
+  }
+
+  const seqBeforeProjects = remote.getLatestSeq(TEAM_ID);
+  deviceA.enqueue("create_item", {
+    id: "project_gamma",
+    project_id: "project_gamma",
+    type: "project",
+    title: "Project Gamma",
+  });
+  deviceA.enqueue(
+    "create_item",
+    { id: "task_gamma", project_id: "project_gamma", type: "task", title: "Task Gamma" },
+    undefined,
+    { projectIds: ["project_gamma"] }
+  );
+  deviceA.enqueue(
+    "update_item_fields",
+    { item_id: taskAId, title: "Alpha after gamma" },
+    undefined,
+    { projectIds: [projectId] }
+  );
+  await deviceA.push();
+  const filtered = await invoke(
+    "GET",
+    `/sync/pull?team_id=${TEAM_ID}&since_seq=${seqBeforeProjects}&project_ids=${projectId}`,
+    TOKEN_B
+  );
+  const filteredIds = (filtered.json.ops as Array<{ op: OpEnvelope }>).map(
+    (entry) => (entry.op.payload as Record<string, unknown>).id ?? entry.op.op_name
+  );
+  check(
+    "Project-filtered pull skips other projects but keeps team-wide ops",
+    filtered.statusCode === 200 &&
+      JSON.stringify(filteredIds) === JSON.stringify(["project_gamma", "update_item_fields"]) &&
+      filtered.json.through_seq === remote.getLatestSeq(TEAM_ID),
+    `Unexpected filtered pull: ${JSON.stringify(filtered.json)}`
+  );
+
+  // Restricting a project: only its members (and team owners) may write to
+  // it, and other team members stop receiving its ops.
+  const seqBeforeRestricted = remote.getLatestSeq(TEAM_ID);
+  const ownerDevice = new SimDevice("Owner", "device_owner", OWNER_ID, TOKEN_OWNER);
+  const viewerDevice = new SimDevice("Viewer", "device_viewer", VIEWER_ID, TOKEN_VIEWER);
+  ownerDevice.enqueue("create_item", {
+    id: "project_secret",
+    project_id: "project_secret",
+    type: "project",
+    title: "Secret",
+  });
+  ownerDevice.enqueue("create_item", {
+    id: "task_secret",
+    project_id: "project_secret",
+    parent_id: "project_secret",
+    type: "task",
+    title: "Secret task",
+  });
+  ownerDevice.enqueue("project.member.set_role", {
+    project_id: "project_secret",
+    user_id: VIEWER_ID,
+    role: "editor",
+  });
+  const ownerPush = await ownerDevice.push();
+  deviceA.enqueue("update_item_fields", { id: "task_secret", title: "Outsider edit" });
+  const outsiderPush = await deviceA.push();
+  viewerDevice.enqueue("update_item_fields", { id: "task_secret", title: "Member edit" });
+  const memberPush = await viewerDevice.push();
+  const outsiderPull = await invoke(
+    "GET",
+    `/sync/pull?team_id=${TEAM_ID}&since_seq=${seqBeforeRestricted}`,
+    TOKEN_B
+  );
+  const outsiderOps = (outsiderPull.json.ops as Array<{ op: OpEnvelope }>).map(
+    (entry) => (entry.op.payload as Record<string, unknown>).id ?? entry.op.op_name
+  );
+  const outsiderReason = outsiderPush.rejected[0]?.reason as { code?: string } | undefined;
+  check(
+    "Project members gate pushes and pulls by project role",
+    ownerPush.acked.length === 3 &&
+      outsiderReason?.code === "insufficient_role" &&
+      memberPush.acked.length === 1 &&
+      JSON.stringify(outsiderOps) ===
+        JSON.stringify(["project_secret", "project.member.set_role"]),
+    `owner=${JSON.stringify(ownerPush)} outsider=${JSON.stringify(outsiderPush)} member=${JSON.stringify(memberPush)} pull=${JSON.stringify(outsiderOps)}`
+  );
+
+  // Ops that name only a block still write to the block's project.
+  ownerDevice.enqueue("scheduled_block.create", {
+    block_id: "block_secret",
+    item_id: "task_secret",
+    start_at: Date.UTC(2026, 2, 3, 9),
+    duration_minutes: 60,
+  });
+  const secretBlockPush = await ownerDevice.push();
+  deviceA.enqueue("delete_block", { block_id: "block_secret" });
+  const blockDeletePush = await deviceA.push();
+  const blockDeleteReason = blockDeletePush.rejected[0]?.reason as { code?: string } | undefined;
+  check(
+    "Block ops are authorized against the block's project",
+    secretBlockPush.acked.length === 1 &&
+      blockDeletePush.acked.length === 0 &&
+      blockDeleteReason?.code === "insufficient_role",
+    `owner=${JSON.stringify(secretBlockPush)} outsider=${JSON.stringify(blockDeletePush)}`
+  );
+
+  // Time zones move a member's days, so only they or an owner may set one.
+  deviceA.enqueue("user.set_time_zone", { user_id: OWNER_ID, time_zone: "Asia/Tokyo" });
+  const foreignZonePush = await deviceA.push();
+  deviceA.enqueue("user.set_time_zone", { user_id: USER_ID, time_zone: "Europe/Berlin" });
+  const ownZonePush = await deviceA.push();
+  ownerDevice.enqueue("user.set_time_zone", { user_id: USER_ID, time_zone: null });
+  const ownerZonePush = await ownerDevice.push();
+  const foreignZoneReason = foreignZonePush.rejected[0]?.reason as { code?: string } | undefined;
+  check(
+    "Only the user or a team owner changes a time zone",
+    foreignZonePush.acked.length === 0 &&
+      foreignZoneReason?.code === "insufficient_role" &&
+      ownZonePush.acked.length === 1 &&
+      ownerZonePush.acked.length === 1,
+    `foreign=${JSON.stringify(foreignZonePush)} own=${JSON.stringify(ownZonePush)} owner=${JSON.stringify(ownerZonePush)}`
+  );
+
+  // New devices import the newest snapshot instead of the ops it covers, so
+  // an upload that lost live items must not replace the log.
+  ownerDevice.enqueue("delete_item", { item_id: "project_secret" });
+  await ownerDevice.push();
+  const snapshotSeq = remote.getLatestSeq(TEAM_ID);
+  const liveItems = remote
+    .listItems(TEAM_ID)
+    .filter((item) => item.id !== "project_secret" && item.id !== "task_secret");
+  const uploadSnapshot = (items: unknown[]) =>
+    invoke("POST", "/sync/snapshot", TOKEN_OWNER, {
+      team_id: TEAM_ID,
+      server_seq: snapshotSeq,
+      format_version: 1,
+      snapshot: { items },
+    });
+  const partialUpload = await uploadSnapshot(liveItems.filter((item) => item.id !== taskBId));
+  const afterPartial = await invoke("GET", `/sync/snapshot?team_id=${TEAM_ID}`, TOKEN_OWNER);
+  const fullPull = await invoke("GET", `/sync/pull?team_id=${TEAM_ID}&since_seq=0`, TOKEN_OWNER);
+  const fullUpload = await uploadSnapshot(liveItems);
+  check(
+    "Snapshots missing live items are refused and the log stays whole",
+    partialUpload.statusCode === 409 &&
+      partialUpload.json.error === "SNAPSHOT_INCOMPLETE" &&
+      afterPartial.json.snapshot === null &&
+      (fullPull.json.ops as unknown[]).length === remote.getCount(TEAM_ID) &&
+      fullUpload.statusCode === 200 &&
+      remote.getLatestSnapshot(TEAM_ID)?.server_seq === snapshotSeq,
+    `partial=${JSON.stringify(partialUpload)} after=${JSON.stringify(afterPartial.json)} full=${JSON.stringify(fullUpload)}`
+  );
 };
 
 run()
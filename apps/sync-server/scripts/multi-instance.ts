@@ -0,0 +1,354 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { loadConfig } from "../src/config.ts";
+import { closePool, querySql } from "../src/db/client.ts";
+import { runMigrations } from "../src/db/migrations.ts";
+
+// Starts two sync-server processes against the same Postgres, pushes to both
+// concurrently and checks the team log comes out gap-free, that NOTIFY
+// reaches a stream on the other instance, and that rate-limit buckets are
+// shared. Needs DATABASE_URL; every row it creates is removed afterwards.
+
+type Result = {
+  name: string;
+  ok: boolean;
+  detail?: string;
+};
+
+type Instance = {
+  port: number;
+  child: ChildProcess;
+  stderr: string[];
+};
+
+type PushResult = {
+  acked: Array<{ op_id: string; server_seq: number }>;
+  rejected: unknown[];
+};
+
+const CLIENTS = 4;
+const OPS_PER_CLIENT = 30;
+const BATCH_SIZE = 3;
+const READY_TIMEOUT_MS = 20_000;
+const STREAM_TIMEOUT_MS = 5_000;
+
+const currentDir = path.dirname(fileURLToPath(import.meta.url));
+const serverRoot = path.resolve(currentDir, "..");
+const basePort = Number(process.env.MULTI_INSTANCE_BASE_PORT ?? "8791");
+
+const runId = randomUUID().slice(0, 8);
+const TEAM_ID = `team_multi_${runId}`;
+const USER_ID = `user_multi_${runId}`;
+const SESSION_TOKEN = `session_multi_${runId}`;
+
+const results: Result[] = [];
+const instances: Instance[] = [];
+
+const check = (name: string, ok: boolean, detail?: string) => {
+  results.push({ name, ok, detail });
+  if (!ok) {
+    throw new Error(detail ? `${name}: ${detail}` : name);
+  }
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const baseUrl = (instance: Instance) => `http://127.0.0.1:${instance.port}`;
+
+const authHeaders = {
+  authorization: `Bearer ${SESSION_TOKEN}`,
+  "content-type": "application/json",
+};
+
+const startInstance = (port: number): Instance => {
+  const child = spawn(
+    path.join(serverRoot, "node_modules/.bin/tsx"),
+    ["src/server.ts"],
+    {
+      cwd: serverRoot,
+      env: {
+        ...process.env,
+        PORT: String(port),
+        AUTH_MODE: "local",
+        SYNC_RATE_LIMIT_WINDOW_MS: "600000",
+        SYNC_RATE_LIMIT_IP: "100000",
+        SYNC_RATE_LIMIT_USER: "100000",
+        SYNC_RATE_LIMIT_TEAM: "100000",
+      },
+      stdio: ["ignore", "ignore", "pipe"],
+    }
+  );
+  const stderr: string[] = [];
+  child.stderr?.setEncoding("utf8");
+  child.stderr?.on("data", (chunk: string) => {
+    stderr.push(chunk);
+    if (stderr.length > 20) {
+      stderr.shift();
+    }
+  });
+  return { port, child, stderr };
+};
+
+const waitForReady = async (instance: Instance) => {
+  const deadline = Date.now() + READY_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (instance.child.exitCode !== null) {
+      return false;
+    }
+    try {
+      const response = await fetch(`${baseUrl(instance)}/health/ready`);
+      if (response.ok) {
+        return true;
+      }
+    } catch {
+      // Not listening yet.
+    }
+    await sleep(200);
+  }
+  return false;
+};
+
+const stopInstance = async (instance: Instance) => {
+  if (instance.child.exitCode !== null) {
+    return;
+  }
+  const exited = new Promise((resolve) => instance.child.once("exit", resolve));
+  instance.child.kill("SIGTERM");
+  await Promise.race([exited, sleep(5_000)]);
+  if (instance.child.exitCode === null) {
+    instance.child.kill("SIGKILL");
+  }
+};
+
+const push = async (instance: Instance, clientId: string, ops: unknown[]) => {
+  const response = await fetch(`${baseUrl(instance)}/sync/push`, {
+    method: "POST",
+    headers: authHeaders,
+    body: JSON.stringify({ team_id: TEAM_ID, client_id: clientId, ops }),
+  });
+  if (response.status !== 200) {
+    throw new Error(`push to :${instance.port} failed (${response.status}): ${await response.text()}`);
+  }
+  return (await response.json()) as PushResult;
+};
+
+const buildOp = (opId: string, index: number) => ({
+  op_id: opId,
+  team_id: TEAM_ID,
+  actor_user_id: USER_ID,
+  created_at: Date.now(),
+  op_name: "update_item_fields",
+  payload: { item_id: `item_${index % 7}`, title: `Title ${index}` },
+});
+
+// Collects the highest latest_seq announced on a stream until aborted.
+const watchStream = (instance: Instance, controller: AbortController) => {
+  const state = { latestSeq: -1, error: null as string | null };
+  void (async () => {
+    try {
+      const response = await fetch(`${baseUrl(instance)}/sync/stream?team_id=${TEAM_ID}`, {
+        headers: authHeaders,
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        state.error = `stream returned ${response.status}`;
+        return;
+      }
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const frames = buffer.split("\n\n");
+        buffer = frames.pop() ?? "";
+        for (const frame of frames) {
+          const data = frame.split("\n").find((line) => line.startsWith("data: "));
+          if (frame.startsWith("event: seq") && data) {
+            const payload = JSON.parse(data.slice(6)) as { latest_seq: number };
+            state.latestSeq = Math.max(state.latestSeq, payload.latest_seq);
+          }
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        state.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+  })();
+  return state;
+};
+
+const seed = async () => {
+  await runMigrations();
+  await querySql("INSERT INTO teams (team_id, name) VALUES ($1, $2);", [
+    TEAM_ID,
+    "Multi-instance harness",
+  ]);
+  await querySql("INSERT INTO users (user_id, display_name) VALUES ($1, $2);", [
+    USER_ID,
+    "Harness user",
+  ]);
+  await querySql(
+    "INSERT INTO team_members (team_id, user_id, role) VALUES ($1, $2, 'editor');",
+    [TEAM_ID, USER_ID]
+  );
+  await querySql("INSERT INTO sessions (session_id, user_id) VALUES ($1, $2);", [
+    SESSION_TOKEN,
+    USER_ID,
+  ]);
+};
+
+const cleanup = async () => {
+  await Promise.all(instances.map((instance) => stopInstance(instance)));
+  await querySql("DELETE FROM teams WHERE team_id = $1;", [TEAM_ID]).catch(() => {});
+  await querySql("DELETE FROM users WHERE user_id = $1;", [USER_ID]).catch(() => {});
+  await querySql("DELETE FROM rate_limit_buckets WHERE bucket_key LIKE $1;", [
+    `%${runId}%`,
+  ]).catch(() => {});
+  await closePool();
+};
+
+const run = async () => {
+  await seed();
+
+  const first = startInstance(basePort);
+  const second = startInstance(basePort + 1);
+  instances.push(first, second);
+  const ready = await Promise.all(instances.map((instance) => waitForReady(instance)));
+  check(
+    "Both instances become ready",
+    ready.every(Boolean),
+    instances.map((instance) => instance.stderr.join("")).join("\n")
+  );
+
+  const streamController = new AbortController();
+  const stream = watchStream(second, streamController);
+  const connectDeadline = Date.now() + STREAM_TIMEOUT_MS;
+  while (stream.latestSeq < 0 && !stream.error && Date.now() < connectDeadline) {
+    await sleep(50);
+  }
+  check("Stream connects to the second instance", stream.latestSeq === 0, stream.error ?? undefined);
+
+  let pushRequests = 0;
+  const pushClient = async (clientIndex: number) => {
+    const clientId = `client_${clientIndex}_${runId}`;
+    const acked: PushResult["acked"] = [];
+    for (let start = 0; start < OPS_PER_CLIENT; start += BATCH_SIZE) {
+      const ops = [];
+      for (let offset = start; offset < Math.min(OPS_PER_CLIENT, start + BATCH_SIZE); offset += 1) {
+        ops.push(buildOp(`op_${clientIndex}_${offset}_${runId}`, clientIndex * OPS_PER_CLIENT + offset));
+      }
+      const target = (clientIndex + start / BATCH_SIZE) % 2 === 0 ? first : second;
+      pushRequests += 1;
+      const result = await push(target, clientId, ops);
+      if (result.rejected.length > 0) {
+        throw new Error(`push rejected ops: ${JSON.stringify(result.rejected)}`);
+      }
+      acked.push(...result.acked);
+    }
+    return acked;
+  };
+
+  const duplicateOp = buildOp(`op_duplicate_${runId}`, -1);
+  pushRequests += 2;
+  const [clientAcks, duplicateFirst, duplicateSecond] = await Promise.all([
+    Promise.all(Array.from({ length: CLIENTS }, (_, index) => pushClient(index))),
+    push(first, `client_dup_a_${runId}`, [duplicateOp]),
+    push(second, `client_dup_b_${runId}`, [duplicateOp]),
+  ]);
+
+  // Sent last and only to the first instance, so the second can only learn
+  // about it through NOTIFY.
+  pushRequests += 1;
+  await push(first, `client_last_${runId}`, [buildOp(`op_last_${runId}`, -2)]);
+
+  const expectedCount = CLIENTS * OPS_PER_CLIENT + 2;
+  check(
+    "Every pushed op is acked",
+    clientAcks.flat().length === CLIENTS * OPS_PER_CLIENT,
+    `acked ${clientAcks.flat().length} of ${CLIENTS * OPS_PER_CLIENT}`
+  );
+
+  const firstSeq = duplicateFirst.acked[0]?.server_seq;
+  check(
+    "Same op_id pushed to both instances gets one server_seq",
+    firstSeq !== undefined && firstSeq === duplicateSecond.acked[0]?.server_seq,
+    `got ${JSON.stringify(duplicateFirst.acked)} and ${JSON.stringify(duplicateSecond.acked)}`
+  );
+
+  const seqRows = await querySql<{ server_seq: string }>(
+    "SELECT server_seq FROM team_oplog WHERE team_id = $1 ORDER BY server_seq;",
+    [TEAM_ID]
+  );
+  const sequences = seqRows.rows.map((row) => Number(row.server_seq));
+  const gapFree = sequences.every((value, index) => value === index + 1);
+  check(
+    "server_seq has no gaps or duplicates across instances",
+    gapFree && sequences.length === expectedCount,
+    `expected 1..${expectedCount}, got ${sequences.length} rows (gap-free=${gapFree})`
+  );
+
+  const latestRows = await querySql<{ latest_seq: string }>(
+    "SELECT latest_seq FROM team_seq WHERE team_id = $1;",
+    [TEAM_ID]
+  );
+  check(
+    "team_seq matches the log",
+    Number(latestRows.rows[0]?.latest_seq) === expectedCount,
+    `team_seq.latest_seq=${latestRows.rows[0]?.latest_seq}`
+  );
+
+  const streamDeadline = Date.now() + STREAM_TIMEOUT_MS;
+  while (stream.latestSeq < expectedCount && !stream.error && Date.now() < streamDeadline) {
+    await sleep(100);
+  }
+  streamController.abort();
+  check(
+    "Stream on one instance hears pushes sent to the other",
+    stream.latestSeq === expectedCount,
+    stream.error ?? `last announced seq ${stream.latestSeq}, expected ${expectedCount}`
+  );
+
+  const bucketRows = await querySql<{ hit_count: number }>(
+    "SELECT hit_count FROM rate_limit_buckets WHERE bucket_key = $1;",
+    [`user:sync.push:${USER_ID}`]
+  );
+  check(
+    "Rate-limit buckets are shared between instances",
+    Number(bucketRows.rows[0]?.hit_count) === pushRequests,
+    `bucket hit_count=${bucketRows.rows[0]?.hit_count}, push requests=${pushRequests}`
+  );
+};
+
+const report = () => {
+  const passed = results.filter((entry) => entry.ok).length;
+  console.log("Multi-instance Sync Report");
+  for (const result of results) {
+    console.log(`- ${result.ok ? "PASS" : "FAIL"}: ${result.name}`);
+    if (!result.ok && result.detail) {
+      console.log(`  ${result.detail}`);
+    }
+  }
+  console.log(`Summary: ${passed}/${results.length} checks passed.`);
+};
+
+if (!loadConfig().databaseUrl) {
+  console.error("multi-instance needs DATABASE_URL pointing at a disposable local Postgres.");
+  process.exitCode = 1;
+} else {
+  run()
+    .catch((error) => {
+      console.error(`Failure: ${error instanceof Error ? error.message : String(error)}`);
+      process.exitCode = 1;
+    })
+    .finally(async () => {
+      await cleanup();
+      report();
+    });
+}
@@ -234,7 +234,9 @@ const run = async () => {
         return session;
       },
       requireTeamMember: async () => "viewer",
+      listProjectMembers: async () => [],
       getLatestSeq: async () => 9,
+      getCompactedThroughSeq: async () => 0,
       listOpsSince: async () => [
         {
           server_seq: 4,
@@ -275,6 +277,43 @@ const run = async () => {
     pullOps.length === 2 && pullOps[0]?.server_seq === 3 && pullOps[1]?.server_seq === 4
   );
 
+  const pullBelowCompaction = await invoke("GET", "/sync/pull?team_id=team_default&since_seq=2", {
+    syncDeps: {
+      authenticateRequest: async (request) => {
+        const session = { user_id: "user_viewer", session_id: "session_viewer" };
+        request.auth = session;
+        return session;
+      },
+      requireTeamMember: async () => "viewer",
+      listProjectMembers: async () => [],
+      getCompactedThroughSeq: async () => 5,
+    },
+  });
+  addCheck(
+    "sync pull below compaction returns 409 SNAPSHOT_REQUIRED",
+    pullBelowCompaction.statusCode === 409 &&
+      pullBelowCompaction.json.error === "SNAPSHOT_REQUIRED",
+    `Expected 409 SNAPSHOT_REQUIRED, got ${pullBelowCompaction.statusCode}`
+  );
+
+  const snapshotByEditor = await invoke("POST", "/sync/snapshot", {
+    headers: { authorization: "Bearer session_editor" },
+    body: { team_id: "team_default", server_seq: 3, format_version: 1, snapshot: {} },
+    syncDeps: {
+      authenticateRequest: async (request) => {
+        const session = { user_id: "user_editor", session_id: "session_editor" };
+        request.auth = session;
+        return session;
+      },
+      requireTeamMember: async () => "editor",
+    },
+  });
+  addCheck(
+    "sync snapshot publish requires owner",
+    snapshotByEditor.statusCode === 403,
+    `Expected 403, got ${snapshotByEditor.statusCode}`
+  );
+
   const teamMembersUnauthorized = await invoke("GET", "/teams/team_default/members");
   addCheck(
     "team members unauthenticated returns 401",
@@ -290,6 +329,7 @@ const run = async () => {
         return session;
       },
       requireTeamMember: async () => "viewer",
+      listProjectMembers: async () => [],
     },
   });
 
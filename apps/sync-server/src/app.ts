@@ -48,6 +48,17 @@ const writeJson = (
   response.end(JSON.stringify(body));
 };
 
+const openEventStream = (response: ServerResponse, corsOrigin: string) => {
+  response.statusCode = 200;
+  response.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  response.setHeader("Cache-Control", "no-cache, no-transform");
+  response.setHeader("Connection", "keep-alive");
+  response.setHeader("X-Accel-Buffering", "no");
+  response.setHeader("Access-Control-Allow-Origin", corsOrigin);
+  response.setHeader("Access-Control-Allow-Credentials", "true");
+  response.flushHeaders();
+};
+
 export const buildHandler = (
   corsOrigin: string,
   syncDeps: Partial<SyncRouteDependencies> = {},
@@ -197,7 +208,7 @@ export const buildHandler = (
 
     if (parsedUrl.pathname.startsWith("/sync/")) {
       try {
-        applyIpRateLimit(ip, `sync:${method}`);
+        await applyIpRateLimit(ip, `sync:${method}`);
         await handleSyncRoute(
           request,
           response,
@@ -205,6 +216,9 @@ export const buildHandler = (
           (res, status, body) => {
             writeJson(res, status, body, corsOrigin);
           },
+          (res) => {
+            openEventStream(res, corsOrigin);
+          },
           syncDeps
         );
       } catch (error) {
@@ -215,7 +229,7 @@ export const buildHandler = (
 
     if (parsedUrl.pathname.startsWith("/admin/")) {
       try {
-        applyIpRateLimit(ip, `admin:${method}`);
+        await applyIpRateLimit(ip, `admin:${method}`);
         await handleAdminRoute(
           request,
           response,
@@ -233,7 +247,7 @@ export const buildHandler = (
 
     if (parsedUrl.pathname.startsWith("/auth/")) {
       try {
-        applyIpRateLimit(ip, `auth:${method}`);
+        await applyIpRateLimit(ip, `auth:${method}`);
         await handleAuthRoute(
           request,
           response,
@@ -254,7 +268,7 @@ export const buildHandler = (
       parsedUrl.pathname.startsWith("/invites/")
     ) {
       try {
-        applyIpRateLimit(ip, `teams:${method}`);
+        await applyIpRateLimit(ip, `teams:${method}`);
         await handleTeamRoute(
           request,
           response,
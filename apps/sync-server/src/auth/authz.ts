@@ -9,11 +9,14 @@ const ROLE_ORDER: Record<TeamRole, number> = {
   owner: 3,
 };
 
+export const hasRoleAtLeast = (role: TeamRole, requiredRole: TeamRole) =>
+  ROLE_ORDER[role] >= ROLE_ORDER[requiredRole];
+
 export const requireRoleAtLeast = (
   role: TeamRole,
   requiredRole: TeamRole
 ): TeamRole => {
-  if (ROLE_ORDER[role] >= ROLE_ORDER[requiredRole]) {
+  if (hasRoleAtLeast(role, requiredRole)) {
     return role;
   }
   throw new ApiError(
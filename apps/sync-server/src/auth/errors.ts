@@ -5,7 +5,10 @@ export type ApiErrorCode =
   | "NOT_TEAM_MEMBER"
   | "INSUFFICIENT_ROLE"
   | "RATE_LIMITED"
-  | "CSRF_INVALID";
+  | "CSRF_INVALID"
+  | "SNAPSHOT_REQUIRED"
+  | "SNAPSHOT_STALE"
+  | "SNAPSHOT_INCOMPLETE";
 
 export class ApiError extends Error {
   statusCode: number;
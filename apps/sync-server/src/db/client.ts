@@ -1,4 +1,10 @@
-import { Pool, type QueryResult, type QueryResultRow } from "pg";
+import {
+  Client,
+  Pool,
+  type PoolClient,
+  type QueryResult,
+  type QueryResultRow,
+} from "pg";
 import { loadConfig } from "../config.ts";
 
 export type DbRow<TColumns extends string = string> = Record<
@@ -54,6 +60,37 @@ export const queryRows = async <TColumns extends string>(
   });
 };
 
+/**
+ * Runs `work` on one pooled connection inside BEGIN/COMMIT, rolling back on
+ * any error so the connection never returns to the pool mid-transaction.
+ */
+export const withTransaction = async <T>(
+  work: (client: PoolClient) => Promise<T>
+): Promise<T> => {
+  const client = await getPool().connect();
+  try {
+    await client.query("BEGIN;");
+    const result = await work(client);
+    await client.query("COMMIT;");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK;").catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+// LISTEN needs a session that stays open, so listeners get their own client
+// instead of borrowing one from the pool.
+export const connectDedicatedClient = async () => {
+  const client = new Client({
+    connectionString: getDatabaseUrl(),
+  });
+  await client.connect();
+  return client;
+};
+
 export const sqlLiteral = (value: string) => {
   return `'${value.replace(/'/g, "''")}'`;
 };
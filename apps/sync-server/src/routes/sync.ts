@@ -1,15 +1,17 @@
 import type { IncomingMessage, ServerResponse } from "node:http";
+import type { PoolClient } from "pg";
 import {
   authenticateRequest,
   type AuthenticatedRequest,
   type AuthContext,
 } from "../auth/middleware.ts";
 import {
+  hasRoleAtLeast,
   requireRoleAtLeast,
   requireTeamMember,
   type TeamRole,
 } from "../auth/authz.ts";
-import { queryRows, sqlLiteral } from "../db/client.ts";
+import { queryRows, querySql, sqlLiteral, withTransaction } from "../db/client.ts";
 import { ApiError } from "../auth/errors.ts";
 import { logOperationalEvent, logSecurityEvent } from "../security/logging.ts";
 import {
@@ -22,6 +24,23 @@ import {
   validateRegisteredOpPayload,
   type JsonObject,
 } from "../sync/opValidation.ts";
+import {
+  collectItemPlacements,
+  collectOpItemIds,
+  collectOpRowRefs,
+  collectRowPlacements,
+  collectSnapshotPlacements,
+  collectSnapshotRowPlacements,
+  filterSnapshotPayload,
+  hiddenProjectIds,
+  projectMemberChange,
+  projectRoleFor,
+  type ItemPlacement,
+  type ItemRowPlacement,
+  type ItemRowRef,
+  type ProjectMember,
+} from "../sync/projectAccess.ts";
+import { findMissingSnapshotItems } from "../sync/snapshotCheck.ts";
 import { loadConfig } from "../config.ts";
 import {
   recordQueueLagProxy,
@@ -29,6 +48,11 @@ import {
   recordSyncEndpointResult,
 } from "../observability/metrics.ts";
 import { getRequestId } from "../observability/requestContext.ts";
+import {
+  publishTeamSeq,
+  subscribeTeamSeq,
+  TEAM_SEQ_CHANNEL,
+} from "../sync/streamHub.ts";
 
 type WriteJson = (
   response: ServerResponse,
@@ -36,15 +60,23 @@ type WriteJson = (
   body: Record<string, unknown>
 ) => void;
 
+type OpenEventStream = (response: ServerResponse) => void;
+
 export type SyncRouteDependencies = {
   authenticateRequest: (request: AuthenticatedRequest) => Promise<AuthContext>;
   requireTeamMember: (user_id: string, team_id: string) => Promise<TeamRole>;
   requireRoleAtLeast: (role: TeamRole, requiredRole: TeamRole) => TeamRole;
   getLatestSeq: (team_id: string) => Promise<number>;
+  /**
+   * `project_ids` null returns every op; otherwise team-wide ops plus those
+   * projects'. Ops touching any of `hidden_project_ids` are always left out.
+   */
   listOpsSince: (
     team_id: string,
     since_seq: number,
-    limit: number
+    limit: number,
+    project_ids: string[] | null,
+    hidden_project_ids: string[]
   ) => Promise<Array<{ server_seq: number; op: OpEnvelope }>>;
   appendOrGetServerSeq: (
     team_id: string,
@@ -52,6 +84,33 @@ export type SyncRouteDependencies = {
     actor_user_id: string,
     op: OpEnvelope
   ) => Promise<number>;
+  subscribeTeamSeq: (
+    team_id: string,
+    listener: (latest_seq: number) => void
+  ) => () => void;
+  publishTeamSeq: (team_id: string, latest_seq: number) => void;
+  getCompactedThroughSeq: (team_id: string) => Promise<number>;
+  getLatestSnapshot: (team_id: string) => Promise<TeamSnapshot | null>;
+  saveSnapshot: (snapshot: NewTeamSnapshot) => Promise<void>;
+  listProjectMembers: (team_id: string) => Promise<ProjectMember[]>;
+  /** Root project above each known item; a root project maps to itself. */
+  resolveItemProjects: (team_id: string, item_ids: string[]) => Promise<Map<string, string>>;
+  /** Items the given blocks, blockers and time entries belong to, where known. */
+  resolveRowItems: (team_id: string, rows: ItemRowRef[]) => Promise<string[]>;
+  /** Every known item under the given root projects, the roots excluded. */
+  listProjectItemIds: (team_id: string, project_ids: string[]) => Promise<string[]>;
+};
+
+type TeamSnapshot = {
+  team_id: string;
+  server_seq: number;
+  format_version: number;
+  created_at: string;
+  payload: JsonObject;
+};
+
+type NewTeamSnapshot = Omit<TeamSnapshot, "created_at"> & {
+  created_by: string;
 };
 
 type OpEnvelope = {
@@ -61,6 +120,8 @@ type OpEnvelope = {
   created_at: number;
   op_name: string;
   payload: JsonObject;
+  hlc?: string;
+  project_ids?: string[];
 };
 
 type PushRequestBody = {
@@ -73,12 +134,14 @@ type PullQuery = {
   team_id: string;
   since_seq: number;
   limit: number;
+  project_ids: string[] | null;
 };
 
 type OpRejectReasonCode =
   | "validation_failed"
   | "cross_team_access"
-  | "unknown_op";
+  | "unknown_op"
+  | "insufficient_role";
 
 type RejectedOp = {
   op_id: string;
@@ -103,6 +166,16 @@ const MAX_PUSH_BODY_BYTES = parseNumber(process.env.SYNC_MAX_BODY_BYTES, 256 * 1
 const MAX_PUSH_BATCH = parseNumber(process.env.SYNC_MAX_BATCH_OPS, 500);
 const MAX_ID_LENGTH = parseNumber(process.env.SYNC_MAX_ID_LENGTH, 128);
 const MAX_OP_NAME_LENGTH = parseNumber(process.env.SYNC_MAX_OP_NAME_LENGTH, 96);
+const MAX_OP_PROJECTS = parseNumber(process.env.SYNC_MAX_OP_PROJECTS, 64);
+const MAX_PULL_PROJECTS = parseNumber(process.env.SYNC_MAX_PULL_PROJECTS, 100);
+const MAX_SNAPSHOT_BODY_BYTES = parseNumber(
+  process.env.SYNC_MAX_SNAPSHOT_BYTES,
+  8 * 1024 * 1024
+);
+// Pull's own page cap, used while reading the ops a new snapshot covers.
+const SNAPSHOT_CHECK_PAGE_SIZE = 5000;
+const STREAM_HEARTBEAT_MS = parseNumber(process.env.SYNC_STREAM_HEARTBEAT_MS, 25_000);
+const STREAM_RETRY_MS = parseNumber(process.env.SYNC_STREAM_RETRY_MS, 3_000);
 
 const isRecord = (value: unknown): value is JsonObject => {
   return Boolean(value) && typeof value === "object" && !Array.isArray(value);
@@ -165,7 +238,7 @@ const parseNonNegativeInt = (
 };
 
 const parsePullQuery = (requestUrl: URL): PullQuery => {
-  const allowedQueryKeys = new Set(["team_id", "since_seq", "limit"]);
+  const allowedQueryKeys = new Set(["team_id", "since_seq", "limit", "project_ids"]);
   for (const key of requestUrl.searchParams.keys()) {
     if (!allowedQueryKeys.has(key)) {
       throw new ApiError(400, "BAD_REQUEST", `Unknown query parameter: ${key}.`);
@@ -183,13 +256,67 @@ const parsePullQuery = (requestUrl: URL): PullQuery => {
     throw new ApiError(400, "BAD_REQUEST", "limit must be greater than zero.");
   }
 
+  const rawProjects = requestUrl.searchParams.get("project_ids");
+  let project_ids: string[] | null = null;
+  if (rawProjects !== null) {
+    project_ids = Array.from(
+      new Set(
+        rawProjects
+          .split(",")
+          .filter((entry) => entry.trim().length > 0)
+          .map((entry) => parseBoundedString(entry, "project_ids entry"))
+      )
+    );
+    if (project_ids.length === 0) {
+      throw new ApiError(400, "BAD_REQUEST", "project_ids must list at least one project.");
+    }
+    if (project_ids.length > MAX_PULL_PROJECTS) {
+      throw new ApiError(
+        400,
+        "BAD_REQUEST",
+        `project_ids must list at most ${MAX_PULL_PROJECTS} projects.`
+      );
+    }
+  }
+
   return {
     team_id,
     since_seq,
     limit: Math.min(rawLimit, 5000),
+    project_ids,
   };
 };
 
+// Stream and snapshot reads only take the team.
+const parseTeamQuery = (requestUrl: URL) => {
+  for (const key of requestUrl.searchParams.keys()) {
+    if (key !== "team_id") {
+      throw new ApiError(400, "BAD_REQUEST", `Unknown query parameter: ${key}.`);
+    }
+  }
+  return parseBoundedString(requestUrl.searchParams.get("team_id"), "team_id");
+};
+
+const parseSnapshotRequestBody = (value: unknown): Omit<NewTeamSnapshot, "created_by"> => {
+  if (!isRecord(value)) {
+    throw new ApiError(400, "BAD_REQUEST", "Request body must be an object.");
+  }
+  ensureOnlyKeys(value, ["team_id", "server_seq", "format_version", "snapshot"], "body");
+  const team_id = parseBoundedString(value.team_id, "team_id");
+  const server_seq = Number(value.server_seq);
+  if (!Number.isSafeInteger(server_seq) || server_seq <= 0) {
+    throw new ApiError(400, "BAD_REQUEST", "server_seq must be a positive integer.");
+  }
+  const format_version = Number(value.format_version);
+  if (!Number.isSafeInteger(format_version) || format_version <= 0) {
+    throw new ApiError(400, "BAD_REQUEST", "format_version must be a positive integer.");
+  }
+  if (!isRecord(value.snapshot)) {
+    throw new ApiError(400, "BAD_REQUEST", "snapshot must be an object.");
+  }
+  return { team_id, server_seq, format_version, payload: value.snapshot };
+};
+
 const parsePushRequestBody = (value: unknown): PushRequestBody => {
   if (!isRecord(value)) {
     throw new ApiError(400, "BAD_REQUEST", "Request body must be a JSON object.");
@@ -271,6 +398,8 @@ const parseOpEnvelope = (raw: unknown): { ok: true; op: OpEnvelope } | RejectedO
     "created_at",
     "op_name",
     "payload",
+    "hlc",
+    "project_ids",
   ] as const;
 
   const unknownFields = Object.keys(raw).filter((key) => !allowedFields.includes(key as never));
@@ -299,6 +428,8 @@ const parseOpEnvelope = (raw: unknown): { ok: true; op: OpEnvelope } | RejectedO
   const created_at = Number(raw.created_at);
   const op_name = typeof raw.op_name === "string" ? raw.op_name.trim() : "";
   const payload = raw.payload;
+  const hlc = raw.hlc === undefined ? undefined : raw.hlc;
+  const project_ids = raw.project_ids === undefined ? [] : raw.project_ids;
 
   if (
     !team_id ||
@@ -309,14 +440,32 @@ const parseOpEnvelope = (raw: unknown): { ok: true; op: OpEnvelope } | RejectedO
     !Number.isSafeInteger(created_at) ||
     !op_name ||
     op_name.length > MAX_OP_NAME_LENGTH ||
-    !isRecord(payload)
+    !isRecord(payload) ||
+    (hlc !== undefined && (typeof hlc !== "string" || !hlc || hlc.length > MAX_ID_LENGTH))
   ) {
     return {
       op_id,
       reason: {
         code: "validation_failed",
         message:
-          "Op envelope requires bounded op_id/team_id/actor_user_id/op_name, integer created_at, and payload object.",
+          "Op envelope requires bounded op_id/team_id/actor_user_id/op_name, integer created_at, payload object, and an optional bounded hlc.",
+      },
+    };
+  }
+
+  if (
+    !Array.isArray(project_ids) ||
+    project_ids.length > MAX_OP_PROJECTS ||
+    !project_ids.every(
+      (entry) =>
+        typeof entry === "string" && entry.trim().length > 0 && entry.length <= MAX_ID_LENGTH
+    )
+  ) {
+    return {
+      op_id,
+      reason: {
+        code: "validation_failed",
+        message: `project_ids must be an array of at most ${MAX_OP_PROJECTS} bounded ids.`,
       },
     };
   }
@@ -340,10 +489,79 @@ const parseOpEnvelope = (raw: unknown): { ok: true; op: OpEnvelope } | RejectedO
       created_at,
       op_name,
       payload,
+      ...(typeof hlc === "string" ? { hlc } : {}),
+      ...(project_ids.length > 0
+        ? { project_ids: Array.from(new Set(project_ids as string[])) }
+        : {}),
     },
   };
 };
 
+const upsertItemPlacements = async (
+  client: PoolClient,
+  team_id: string,
+  placements: ItemPlacement[]
+) => {
+  for (const placement of placements) {
+    await client.query(
+      `INSERT INTO team_items (team_id, item_id, parent_id, item_type, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (team_id, item_id)
+       DO UPDATE SET
+         parent_id = EXCLUDED.parent_id,
+         item_type = COALESCE(EXCLUDED.item_type, team_items.item_type),
+         updated_at = NOW();`,
+      [team_id, placement.item_id, placement.parent_id, placement.item_type]
+    );
+  }
+};
+
+const upsertRowPlacements = async (
+  client: PoolClient,
+  team_id: string,
+  placements: ItemRowPlacement[]
+) => {
+  for (const placement of placements) {
+    await client.query(
+      `INSERT INTO team_item_rows (team_id, row_kind, row_id, item_id, updated_at)
+       VALUES ($1, $2, $3, $4, NOW())
+       ON CONFLICT (team_id, row_kind, row_id)
+       DO UPDATE SET item_id = EXCLUDED.item_id, updated_at = NOW();`,
+      [team_id, placement.row_kind, placement.row_id, placement.item_id]
+    );
+  }
+};
+
+// Keeps the item indexes and project membership in step with the log. Runs
+// in the oplog insert's transaction, so a rolled-back op changes none.
+const applyProjectAccessEffects = async (
+  client: PoolClient,
+  team_id: string,
+  op: OpEnvelope
+) => {
+  await upsertItemPlacements(client, team_id, collectItemPlacements(op.op_name, op.payload));
+  await upsertRowPlacements(client, team_id, collectRowPlacements(op.op_name, op.payload));
+  const change = projectMemberChange(op.op_name, op.payload);
+  if (!change) {
+    return;
+  }
+  if (change.role === null) {
+    await client.query(
+      `DELETE FROM project_members
+       WHERE team_id = $1 AND project_id = $2 AND user_id = $3;`,
+      [team_id, change.project_id, change.user_id]
+    );
+    return;
+  }
+  await client.query(
+    `INSERT INTO project_members (team_id, project_id, user_id, role)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (team_id, project_id, user_id)
+     DO UPDATE SET role = EXCLUDED.role, updated_at = NOW();`,
+    [team_id, change.project_id, change.user_id, change.role]
+  );
+};
+
 const defaultDependencies: SyncRouteDependencies = {
   authenticateRequest: authenticateRequest(),
   requireTeamMember,
@@ -359,7 +577,24 @@ const defaultDependencies: SyncRouteDependencies = {
     const value = Number(rows[0]?.latest_seq ?? "0");
     return Number.isFinite(value) ? value : 0;
   },
-  listOpsSince: async (team_id: string, since_seq: number, limit: number) => {
+  listOpsSince: async (
+    team_id: string,
+    since_seq: number,
+    limit: number,
+    project_ids: string[] | null,
+    hidden_project_ids: string[]
+  ) => {
+    const toArray = (ids: string[]) =>
+      `ARRAY[${ids.map((projectId) => sqlLiteral(projectId)).join(", ")}]::text[]`;
+    // Ops with no projects are team-wide and reach every subscriber.
+    const projectFilter =
+      project_ids === null
+        ? ""
+        : `AND (project_ids = '{}' OR project_ids && ${toArray(project_ids)})`;
+    const hiddenFilter =
+      hidden_project_ids.length === 0
+        ? ""
+        : `AND NOT (project_ids && ${toArray(hidden_project_ids)})`;
     const rows = await queryRows(
       `SELECT
          server_seq,
@@ -368,10 +603,14 @@ const defaultDependencies: SyncRouteDependencies = {
          actor_user_id,
          created_at,
          op_name,
-         payload_json::text AS payload_json
+         payload_json::text AS payload_json,
+         hlc,
+         array_to_json(project_ids)::text AS project_ids_json
        FROM team_oplog
        WHERE team_id = ${sqlLiteral(team_id)}
          AND server_seq > ${since_seq}
+         ${projectFilter}
+         ${hiddenFilter}
        ORDER BY server_seq ASC
        LIMIT ${limit};`,
       [
@@ -382,6 +621,8 @@ const defaultDependencies: SyncRouteDependencies = {
         "created_at",
         "op_name",
         "payload_json",
+        "hlc",
+        "project_ids_json",
       ] as const
     );
 
@@ -408,6 +649,15 @@ const defaultDependencies: SyncRouteDependencies = {
         } catch {
           payload = {};
         }
+        let projectIds: string[] = [];
+        try {
+          const parsed = JSON.parse(row.project_ids_json ?? "[]") as unknown;
+          if (Array.isArray(parsed)) {
+            projectIds = parsed.filter((entry): entry is string => typeof entry === "string");
+          }
+        } catch {
+          projectIds = [];
+        }
         return {
           server_seq,
           op: {
@@ -417,6 +667,8 @@ const defaultDependencies: SyncRouteDependencies = {
             created_at,
             op_name: row.op_name,
             payload,
+            ...(row.hlc ? { hlc: row.hlc } : {}),
+            ...(projectIds.length > 0 ? { project_ids: projectIds } : {}),
           },
         };
       })
@@ -441,26 +693,38 @@ const defaultDependencies: SyncRouteDependencies = {
       return existing;
     }
 
-    const seqRows = await queryRows(
-      `BEGIN;
-       SELECT pg_advisory_xact_lock(hashtext(${sqlLiteral(team_id)}));
-       WITH existing AS (
-         SELECT server_seq
+    // Instances serialize on a per-team advisory lock before bumping
+    // team_seq. The bump, the oplog row and the notification commit or roll
+    // back together, so a failed insert never leaves a gap in server_seq.
+    const seq = await withTransaction(async (client) => {
+      await client.query("SELECT pg_advisory_xact_lock(hashtext($1));", [team_id]);
+      const duplicate = await client.query<{ server_seq: string }>(
+        `SELECT server_seq
          FROM team_oplog
-         WHERE team_id = ${sqlLiteral(team_id)}
-           AND op_id = ${sqlLiteral(op.op_id)}
-         LIMIT 1
-       ),
-       next_seq AS (
-         INSERT INTO team_seq (team_id, latest_seq, updated_at)
-         SELECT ${sqlLiteral(team_id)}, 1, NOW()
-         WHERE NOT EXISTS (SELECT 1 FROM existing)
+         WHERE team_id = $1
+           AND op_id = $2
+         LIMIT 1;`,
+        [team_id, op.op_id]
+      );
+      if (duplicate.rows[0]) {
+        return Number(duplicate.rows[0].server_seq);
+      }
+
+      const next = await client.query<{ latest_seq: string }>(
+        `INSERT INTO team_seq (team_id, latest_seq, updated_at)
+         VALUES ($1, 1, NOW())
          ON CONFLICT (team_id)
          DO UPDATE SET latest_seq = team_seq.latest_seq + 1, updated_at = NOW()
-         RETURNING latest_seq
-       ),
-       inserted AS (
-         INSERT INTO team_oplog (
+         RETURNING latest_seq;`,
+        [team_id]
+      );
+      const nextSeq = Number(next.rows[0]?.latest_seq ?? NaN);
+      if (!Number.isFinite(nextSeq)) {
+        throw new Error(`Unable to allocate server_seq for team ${team_id}`);
+      }
+
+      await client.query(
+        `INSERT INTO team_oplog (
            team_id,
            server_seq,
            op_id,
@@ -469,33 +733,166 @@ const defaultDependencies: SyncRouteDependencies = {
            created_at,
            op_name,
            payload_json,
+           hlc,
+           project_ids,
            received_at
          )
-         SELECT
-           ${sqlLiteral(team_id)},
-           (SELECT latest_seq FROM next_seq),
-           ${sqlLiteral(op.op_id)},
-           ${sqlLiteral(actor_user_id)},
-           ${sqlLiteral(client_id)},
-           ${Number(op.created_at)},
-           ${sqlLiteral(op.op_name)},
-           ${sqlLiteral(JSON.stringify(op.payload))}::jsonb,
-           NOW()
-         WHERE NOT EXISTS (SELECT 1 FROM existing)
-         RETURNING server_seq
-       )
-       SELECT server_seq FROM existing
-       UNION ALL
-       SELECT server_seq FROM inserted;
-       COMMIT;`,
-      ["server_seq"] as const
-    );
-    const seq = Number(seqRows[0]?.server_seq ?? NaN);
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9, $10::text[], NOW());`,
+        [
+          team_id,
+          nextSeq,
+          op.op_id,
+          actor_user_id,
+          client_id,
+          Number(op.created_at),
+          op.op_name,
+          JSON.stringify(op.payload),
+          op.hlc ?? null,
+          op.project_ids ?? [],
+        ]
+      );
+      await applyProjectAccessEffects(client, team_id, op);
+      // NOTIFY is only delivered on commit, so listeners never hear about a
+      // sequence that was rolled back.
+      await client.query("SELECT pg_notify($1, $2);", [
+        TEAM_SEQ_CHANNEL,
+        JSON.stringify({ team_id, latest_seq: nextSeq }),
+      ]);
+      return nextSeq;
+    });
     if (!Number.isFinite(seq)) {
       throw new Error(`Unable to resolve server_seq for op ${op.op_id}`);
     }
     return seq;
   },
+  subscribeTeamSeq,
+  publishTeamSeq,
+  getCompactedThroughSeq: async (team_id: string) => {
+    const rows = await queryRows(
+      `SELECT compacted_through_seq
+       FROM team_seq
+       WHERE team_id = ${sqlLiteral(team_id)}
+       LIMIT 1;`,
+      ["compacted_through_seq"] as const
+    );
+    const value = Number(rows[0]?.compacted_through_seq ?? "0");
+    return Number.isFinite(value) ? value : 0;
+  },
+  getLatestSnapshot: async (team_id: string) => {
+    const result = await querySql<{
+      server_seq: string;
+      format_version: number;
+      created_at: Date;
+      payload_json: JsonObject;
+    }>(
+      `SELECT server_seq, format_version, created_at, payload_json
+       FROM team_snapshots
+       WHERE team_id = $1
+       ORDER BY server_seq DESC
+       LIMIT 1;`,
+      [team_id]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+    return {
+      team_id,
+      server_seq: Number(row.server_seq),
+      format_version: row.format_version,
+      created_at: new Date(row.created_at).toISOString(),
+      payload: row.payload_json,
+    };
+  },
+  saveSnapshot: async (snapshot: NewTeamSnapshot) => {
+    await withTransaction(async (client) => {
+      await client.query(
+        `INSERT INTO team_snapshots (team_id, server_seq, format_version, payload_json, created_by)
+         VALUES ($1, $2, $3, $4::jsonb, $5)
+         ON CONFLICT (team_id, server_seq) DO NOTHING;`,
+        [
+          snapshot.team_id,
+          snapshot.server_seq,
+          snapshot.format_version,
+          JSON.stringify(snapshot.payload),
+          snapshot.created_by,
+        ]
+      );
+      // Teams bootstrapped from a snapshot have no create ops to index.
+      await upsertItemPlacements(
+        client,
+        snapshot.team_id,
+        collectSnapshotPlacements(snapshot.payload.items)
+      );
+      await upsertRowPlacements(
+        client,
+        snapshot.team_id,
+        collectSnapshotRowPlacements(snapshot.payload)
+      );
+    });
+  },
+  listProjectMembers: async (team_id: string) => {
+    const result = await querySql<ProjectMember>(
+      `SELECT project_id, user_id, role
+       FROM project_members
+       WHERE team_id = $1;`,
+      [team_id]
+    );
+    return result.rows;
+  },
+  resolveItemProjects: async (team_id: string, item_ids: string[]) => {
+    if (item_ids.length === 0) {
+      return new Map<string, string>();
+    }
+    const result = await querySql<{ item_id: string; root_id: string }>(
+      `WITH RECURSIVE chain(item_id, root_id, parent_id, item_type, depth) AS (
+         SELECT item_id, item_id, parent_id, item_type, 0
+         FROM team_items
+         WHERE team_id = $1 AND item_id = ANY($2::text[])
+         UNION ALL
+         SELECT c.item_id, t.item_id, t.parent_id, t.item_type, c.depth + 1
+         FROM team_items t
+         JOIN chain c ON t.team_id = $1 AND t.item_id = c.parent_id
+         WHERE c.depth < 64
+       )
+       SELECT item_id, root_id
+       FROM chain
+       WHERE parent_id IS NULL AND item_type = 'project';`,
+      [team_id, item_ids]
+    );
+    return new Map(result.rows.map((row) => [row.item_id, row.root_id]));
+  },
+  resolveRowItems: async (team_id: string, rows: ItemRowRef[]) => {
+    if (rows.length === 0) {
+      return [];
+    }
+    const result = await querySql<{ item_id: string }>(
+      `SELECT DISTINCT r.item_id
+       FROM team_item_rows r
+       JOIN unnest($2::text[], $3::text[]) AS wanted(row_kind, row_id)
+         ON r.row_kind = wanted.row_kind AND r.row_id = wanted.row_id
+       WHERE r.team_id = $1;`,
+      [team_id, rows.map((row) => row.row_kind), rows.map((row) => row.row_id)]
+    );
+    return result.rows.map((row) => row.item_id);
+  },
+  listProjectItemIds: async (team_id: string, project_ids: string[]) => {
+    if (project_ids.length === 0) {
+      return [];
+    }
+    const result = await querySql<{ item_id: string }>(
+      `WITH RECURSIVE subtree(item_id) AS (
+         SELECT item_id FROM team_items WHERE team_id = $1 AND parent_id = ANY($2::text[])
+         UNION
+         SELECT t.item_id
+         FROM team_items t
+         JOIN subtree s ON t.team_id = $1 AND t.parent_id = s.item_id
+       )
+       SELECT item_id FROM subtree;`,
+      [team_id, project_ids]
+    );
+    return result.rows.map((row) => row.item_id);
+  },
 };
 
 const logRejectedOp = (
@@ -523,11 +920,78 @@ const logRejectedOp = (
   });
 };
 
+type OpAccess =
+  | { ok: true; project_ids: string[] }
+  | { ok: false; reason: RejectedOp["reason"] };
+
+/**
+ * Checks an op against the pusher's project roles and works out which
+ * projects to file it under. The server's item index decides where the op's
+ * items sit, including the items of any block, blocker or time entry it
+ * names; declared project_ids still count for items it has not seen. As on
+ * the client, an op on a root project row stays team-wide for pulls, but
+ * writing it still takes a role in that project.
+ */
+const authorizeOpProjects = async (
+  deps: SyncRouteDependencies,
+  team_id: string,
+  user_id: string,
+  teamRole: TeamRole,
+  members: ProjectMember[],
+  op: OpEnvelope
+): Promise<OpAccess> => {
+  // A row's indexed item counts alongside any item_id the op sends, so an op
+  // can't reach a hidden row by naming an item elsewhere.
+  const rowItemIds = await deps.resolveRowItems(team_id, collectOpRowRefs(op.payload));
+  const roots = await deps.resolveItemProjects(team_id, [
+    ...new Set([...collectOpItemIds(op.payload), ...rowItemIds]),
+  ]);
+  const declared = op.project_ids ?? [];
+  const touchesRootRow = [...roots].some(
+    ([itemId, projectId]) => itemId === projectId && itemId !== op.payload.parent_id
+  );
+  const written = new Set([...declared, ...roots.values()]);
+  const memberChange = projectMemberChange(op.op_name, op.payload);
+  if (memberChange) {
+    written.add(memberChange.project_id);
+  }
+
+  const deny = (message: string): OpAccess => ({
+    ok: false,
+    reason: { code: "insufficient_role", message },
+  });
+  // A member's time zone moves their days, so only they or an owner set it.
+  if (
+    op.op_name === "user.set_time_zone" &&
+    op.payload.user_id !== user_id &&
+    teamRole !== "owner"
+  ) {
+    return deny("Only the user or a team owner can change a time zone.");
+  }
+  if (written.size === 0 && !hasRoleAtLeast(teamRole, "editor")) {
+    return deny(`Role ${teamRole} cannot write team-wide data.`);
+  }
+  for (const projectId of written) {
+    const required: TeamRole = memberChange?.project_id === projectId ? "owner" : "editor";
+    const role = projectRoleFor(teamRole, user_id, projectId, members);
+    if (!role || !hasRoleAtLeast(role, required)) {
+      return deny(`Writing to project ${projectId} requires ${required} access.`);
+    }
+  }
+  return {
+    ok: true,
+    project_ids: touchesRootRow
+      ? declared
+      : Array.from(new Set([...declared, ...roots.values()])).sort(),
+  };
+};
+
 export const handleSyncRoute = async (
   request: IncomingMessage,
   response: ServerResponse,
   requestUrl: URL,
   writeJson: WriteJson,
+  openEventStream: OpenEventStream,
   depsOverride: Partial<SyncRouteDependencies> = {}
 ) => {
   const deps = {
@@ -539,18 +1003,33 @@ export const handleSyncRoute = async (
   const auth = await deps.authenticateRequest(request as AuthenticatedRequest);
 
   if (method === "GET" && requestUrl.pathname === "/sync/pull") {
-    const { team_id, since_seq, limit } = parsePullQuery(requestUrl);
+    const { team_id, since_seq, limit, project_ids } = parsePullQuery(requestUrl);
 
-    applyUserRateLimit(auth.user_id, "sync.pull");
-    applyTeamRateLimit(team_id, "sync.pull");
+    await applyUserRateLimit(auth.user_id, "sync.pull");
+    await applyTeamRateLimit(team_id, "sync.pull");
 
     const role = await deps.requireTeamMember(auth.user_id, team_id);
     deps.requireRoleAtLeast(role, "viewer");
+    const hidden = hiddenProjectIds(role, auth.user_id, await deps.listProjectMembers(team_id));
+
+    const compactedThroughSeq = await deps.getCompactedThroughSeq(team_id);
+    if (since_seq < compactedThroughSeq) {
+      throw new ApiError(
+        409,
+        "SNAPSHOT_REQUIRED",
+        `Ops through server_seq ${compactedThroughSeq} were compacted; import /sync/snapshot first.`
+      );
+    }
 
     const latest_seq = await deps.getLatestSeq(team_id);
-    const ops = (await deps.listOpsSince(team_id, since_seq, limit))
+    const ops = (await deps.listOpsSince(team_id, since_seq, limit, project_ids, hidden))
       .filter((entry) => entry.server_seq > since_seq)
       .sort((a, b) => a.server_seq - b.server_seq);
+    // A short page means nothing else up to latest_seq matched the filter; a
+    // full page only vouches for the ops it returned.
+    const lastReturnedSeq = ops[ops.length - 1]?.server_seq ?? since_seq;
+    const through_seq =
+      ops.length >= limit ? lastReturnedSeq : Math.max(latest_seq, lastReturnedSeq);
 
     recordQueueLagProxy(team_id, latest_seq, since_seq);
     recordSyncEndpointResult("pull", "success");
@@ -564,12 +1043,178 @@ export const handleSyncRoute = async (
       session_id: auth.session_id,
       user_id: auth.user_id,
       team_id,
-      detail: `ops_returned=${ops.length};latest_seq=${latest_seq};since_seq=${since_seq}`,
+      detail: `ops_returned=${ops.length};latest_seq=${latest_seq};since_seq=${since_seq};projects=${project_ids?.length ?? "all"}`,
     });
 
     writeJson(response, 200, {
       ops,
       latest_seq,
+      through_seq,
+    });
+    return;
+  }
+
+  if (method === "GET" && requestUrl.pathname === "/sync/snapshot") {
+    const team_id = parseTeamQuery(requestUrl);
+
+    await applyUserRateLimit(auth.user_id, "sync.snapshot");
+    await applyTeamRateLimit(team_id, "sync.snapshot");
+
+    const role = await deps.requireTeamMember(auth.user_id, team_id);
+    deps.requireRoleAtLeast(role, "viewer");
+    const hidden = hiddenProjectIds(role, auth.user_id, await deps.listProjectMembers(team_id));
+
+    const latestSnapshot = await deps.getLatestSnapshot(team_id);
+    const snapshot =
+      latestSnapshot && hidden.length > 0
+        ? {
+            ...latestSnapshot,
+            payload: filterSnapshotPayload(
+              latestSnapshot.payload,
+              new Set(await deps.listProjectItemIds(team_id, hidden))
+            ),
+          }
+        : latestSnapshot;
+    logOperationalEvent({
+      event: "sync_snapshot_served",
+      request_id: getRequestId(request),
+      method,
+      path: requestUrl.pathname,
+      endpoint: "sync.snapshot",
+      ip: getRequestIp(request),
+      session_id: auth.session_id,
+      user_id: auth.user_id,
+      team_id,
+      detail: `server_seq=${snapshot?.server_seq ?? "none"}`,
+    });
+    writeJson(response, 200, { snapshot });
+    return;
+  }
+
+  if (method === "POST" && requestUrl.pathname === "/sync/snapshot") {
+    const rawBody = await readJsonBody(request, MAX_SNAPSHOT_BODY_BYTES);
+    const body = parseSnapshotRequestBody(rawBody);
+
+    requireCsrfForCookieAuth(request, auth.auth_method);
+
+    await applyUserRateLimit(auth.user_id, "sync.snapshot");
+    await applyTeamRateLimit(body.team_id, "sync.snapshot");
+
+    // Every new device trusts this state, so only owners may publish it.
+    const role = await deps.requireTeamMember(auth.user_id, body.team_id);
+    deps.requireRoleAtLeast(role, "owner");
+
+    const latest_seq = await deps.getLatestSeq(body.team_id);
+    if (body.server_seq > latest_seq) {
+      throw new ApiError(
+        400,
+        "BAD_REQUEST",
+        `server_seq ${body.server_seq} is ahead of the team log (${latest_seq}).`
+      );
+    }
+    const previous = await deps.getLatestSnapshot(body.team_id);
+    if (previous && previous.server_seq >= body.server_seq) {
+      throw new ApiError(
+        409,
+        "SNAPSHOT_STALE",
+        `A snapshot at server_seq ${previous.server_seq} already exists.`
+      );
+    }
+    // Compaction trusts the newest snapshot, so it must hold every item the
+    // previous snapshot and the ops since left alive.
+    const coveredOps: OpEnvelope[] = [];
+    let cursor = previous?.server_seq ?? 0;
+    while (cursor < body.server_seq) {
+      const page = (
+        await deps.listOpsSince(body.team_id, cursor, SNAPSHOT_CHECK_PAGE_SIZE, null, [])
+      )
+        .filter((entry) => entry.server_seq > cursor)
+        .sort((a, b) => a.server_seq - b.server_seq);
+      for (const entry of page) {
+        if (entry.server_seq <= body.server_seq) {
+          coveredOps.push(entry.op);
+        }
+      }
+      const last = page[page.length - 1]?.server_seq;
+      if (last === undefined || page.length < SNAPSHOT_CHECK_PAGE_SIZE) {
+        break;
+      }
+      cursor = last;
+    }
+    const missing = findMissingSnapshotItems(
+      body.payload.items,
+      previous?.payload.items ?? null,
+      coveredOps
+    );
+    if (missing.length > 0) {
+      throw new ApiError(
+        409,
+        "SNAPSHOT_INCOMPLETE",
+        `The snapshot is missing ${missing.length} item(s) the log still has at server_seq ${body.server_seq} (first: ${missing[0]}).`
+      );
+    }
+
+    await deps.saveSnapshot({ ...body, created_by: auth.user_id });
+    logOperationalEvent({
+      event: "sync_snapshot_saved",
+      request_id: getRequestId(request),
+      method,
+      path: requestUrl.pathname,
+      endpoint: "sync.snapshot",
+      ip: getRequestIp(request),
+      session_id: auth.session_id,
+      user_id: auth.user_id,
+      team_id: body.team_id,
+      detail: `server_seq=${body.server_seq};format_version=${body.format_version}`,
+    });
+    writeJson(response, 200, { team_id: body.team_id, server_seq: body.server_seq });
+    return;
+  }
+
+  if (method === "GET" && requestUrl.pathname === "/sync/stream") {
+    const team_id = parseTeamQuery(requestUrl);
+
+    requireCsrfForCookieAuth(request, auth.auth_method);
+
+    await applyUserRateLimit(auth.user_id, "sync.stream");
+    await applyTeamRateLimit(team_id, "sync.stream");
+
+    const role = await deps.requireTeamMember(auth.user_id, team_id);
+    deps.requireRoleAtLeast(role, "viewer");
+
+    const latest_seq = await deps.getLatestSeq(team_id);
+
+    // The stream only announces that the team log moved; clients still read
+    // ops through /sync/pull so ordering and paging stay in one place.
+    openEventStream(response);
+    const writeSeq = (seq: number) => {
+      response.write(
+        `event: seq\ndata: ${JSON.stringify({ team_id, latest_seq: seq })}\n\n`
+      );
+    };
+    response.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+    writeSeq(latest_seq);
+
+    const unsubscribe = deps.subscribeTeamSeq(team_id, writeSeq);
+    const heartbeat = setInterval(() => {
+      response.write(": keep-alive\n\n");
+    }, STREAM_HEARTBEAT_MS);
+    request.once("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    logOperationalEvent({
+      event: "sync_stream_opened",
+      request_id: getRequestId(request),
+      method,
+      path: requestUrl.pathname,
+      endpoint: "sync.stream",
+      ip: getRequestIp(request),
+      session_id: auth.session_id,
+      user_id: auth.user_id,
+      team_id,
+      detail: `latest_seq=${latest_seq}`,
     });
     return;
   }
@@ -580,11 +1225,14 @@ export const handleSyncRoute = async (
 
     requireCsrfForCookieAuth(request, auth.auth_method);
 
-    applyUserRateLimit(auth.user_id, "sync.push");
-    applyTeamRateLimit(body.team_id, "sync.push");
+    await applyUserRateLimit(auth.user_id, "sync.push");
+    await applyTeamRateLimit(body.team_id, "sync.push");
 
+    // Viewers may hold editor on single projects, so write access is
+    // checked per op below.
     const role = await deps.requireTeamMember(auth.user_id, body.team_id);
-    deps.requireRoleAtLeast(role, "editor");
+    deps.requireRoleAtLeast(role, "viewer");
+    let members = await deps.listProjectMembers(body.team_id);
 
     const acked: Array<{ op_id: string; server_seq: number }> = [];
     const rejected: RejectedOp[] = [];
@@ -646,12 +1294,40 @@ export const handleSyncRoute = async (
         continue;
       }
 
+      const access = await authorizeOpProjects(
+        deps,
+        body.team_id,
+        auth.user_id,
+        role,
+        members,
+        parsed.op
+      );
+      if (!access.ok) {
+        rejected.push({ op_id: parsed.op.op_id, reason: access.reason });
+        recordRejectedOpReason(access.reason.code);
+        logRejectedOp(
+          request,
+          auth,
+          body.team_id,
+          parsed.op.op_id,
+          parsed.op.op_name,
+          access.reason
+        );
+        continue;
+      }
+
+      const { project_ids: _declared, ...opFields } = parsed.op;
       const server_seq = await deps.appendOrGetServerSeq(
         body.team_id,
         body.client_id,
         auth.user_id,
-        parsed.op
+        access.project_ids.length > 0
+          ? { ...opFields, project_ids: access.project_ids }
+          : opFields
       );
+      if (projectMemberChange(parsed.op.op_name, parsed.op.payload)) {
+        members = await deps.listProjectMembers(body.team_id);
+      }
 
       acked.push({
         op_id: parsed.op.op_id,
@@ -659,6 +1335,13 @@ export const handleSyncRoute = async (
       });
     }
 
+    if (acked.length > 0) {
+      deps.publishTeamSeq(
+        body.team_id,
+        Math.max(...acked.map((entry) => entry.server_seq))
+      );
+    }
+
     recordSyncEndpointResult("push", "success");
     logOperationalEvent({
       event: "sync_push_succeeded",
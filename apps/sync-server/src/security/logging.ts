@@ -8,6 +8,9 @@ export type SecurityEventType =
 export type OperationalEventType =
   | "sync_push_succeeded"
   | "sync_pull_succeeded"
+  | "sync_stream_opened"
+  | "sync_snapshot_served"
+  | "sync_snapshot_saved"
   | "admin_metrics_viewed";
 
 export type SecurityEventPayload = {
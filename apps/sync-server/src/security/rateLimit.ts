@@ -1,5 +1,6 @@
 import { ApiError } from "../auth/errors.ts";
 import { loadConfig } from "../config.ts";
+import { querySql } from "../db/client.ts";
 
 type RateLimitBucket = {
   windowStartMs: number;
@@ -55,20 +56,117 @@ const parseNumber = (value: string | undefined, fallback: number) => {
 };
 
 // Ensure .env values are loaded before reading SYNC_* env vars.
-loadConfig();
+const config = loadConfig();
 
 const RATE_LIMIT_WINDOW_MS = parseNumber(process.env.SYNC_RATE_LIMIT_WINDOW_MS, 60_000);
 const IP_RATE_LIMIT = parseNumber(process.env.SYNC_RATE_LIMIT_IP, 180);
 const USER_RATE_LIMIT = parseNumber(process.env.SYNC_RATE_LIMIT_USER, 240);
 const TEAM_RATE_LIMIT = parseNumber(process.env.SYNC_RATE_LIMIT_TEAM, 320);
 
-const ipLimiter = new FixedWindowRateLimiter(IP_RATE_LIMIT, RATE_LIMIT_WINDOW_MS);
-const userLimiter = new FixedWindowRateLimiter(USER_RATE_LIMIT, RATE_LIMIT_WINDOW_MS);
-const teamLimiter = new FixedWindowRateLimiter(TEAM_RATE_LIMIT, RATE_LIMIT_WINDOW_MS);
+type RateLimitScope = "ip" | "user" | "team";
+
+type RateLimitVerdict = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+};
+
+const limits: Record<RateLimitScope, number> = {
+  ip: IP_RATE_LIMIT,
+  user: USER_RATE_LIMIT,
+  team: TEAM_RATE_LIMIT,
+};
+
+// Process-local buckets: the only store without a database, and the fallback
+// when the shared store cannot be reached.
+const localLimiters: Record<RateLimitScope, FixedWindowRateLimiter> = {
+  ip: new FixedWindowRateLimiter(IP_RATE_LIMIT, RATE_LIMIT_WINDOW_MS),
+  user: new FixedWindowRateLimiter(USER_RATE_LIMIT, RATE_LIMIT_WINDOW_MS),
+  team: new FixedWindowRateLimiter(TEAM_RATE_LIMIT, RATE_LIMIT_WINDOW_MS),
+};
+
+const useSharedStore = Boolean(config.databaseUrl);
+let lastSweepMs = 0;
+let lastStoreWarningMs = 0;
+
+const sweepExpiredBuckets = (nowMs: number) => {
+  if (nowMs - lastSweepMs < RATE_LIMIT_WINDOW_MS) {
+    return;
+  }
+  lastSweepMs = nowMs;
+  void querySql(
+    `DELETE FROM rate_limit_buckets
+     WHERE window_started_at < NOW() - $1 * INTERVAL '1 millisecond';`,
+    [RATE_LIMIT_WINDOW_MS]
+  ).catch(() => {});
+};
+
+// One upsert per hit keeps the count shared by every instance; window
+// boundaries use the database clock so instances with drifting clocks agree.
+const consumeSharedBucket = async (
+  scope: RateLimitScope,
+  key: string
+): Promise<RateLimitVerdict> => {
+  const result = await querySql<{ hit_count: number; retry_after_ms: string }>(
+    `INSERT INTO rate_limit_buckets AS bucket (bucket_key, window_started_at, hit_count)
+     VALUES ($1, NOW(), 1)
+     ON CONFLICT (bucket_key) DO UPDATE SET
+       window_started_at = CASE
+         WHEN bucket.window_started_at <= NOW() - $2 * INTERVAL '1 millisecond' THEN NOW()
+         ELSE bucket.window_started_at
+       END,
+       hit_count = CASE
+         WHEN bucket.window_started_at <= NOW() - $2 * INTERVAL '1 millisecond' THEN 1
+         ELSE bucket.hit_count + 1
+       END
+     RETURNING
+       hit_count,
+       EXTRACT(EPOCH FROM (window_started_at + $2 * INTERVAL '1 millisecond' - NOW())) * 1000
+         AS retry_after_ms;`,
+    [`${scope}:${key}`, RATE_LIMIT_WINDOW_MS]
+  );
+  const row = result.rows[0];
+  const hitCount = Number(row?.hit_count ?? 1);
+  const limit = limits[scope];
+  if (hitCount <= limit) {
+    return {
+      allowed: true,
+      remaining: Math.max(0, limit - hitCount),
+      retryAfterSeconds: 0,
+    };
+  }
+  return {
+    allowed: false,
+    remaining: 0,
+    retryAfterSeconds: Math.max(1, Math.ceil(Number(row?.retry_after_ms ?? 0) / 1000)),
+  };
+};
+
+const consume = async (scope: RateLimitScope, key: string) => {
+  const nowMs = Date.now();
+  if (!useSharedStore) {
+    return localLimiters[scope].consume(key, nowMs);
+  }
+  try {
+    const verdict = await consumeSharedBucket(scope, key);
+    sweepExpiredBuckets(nowMs);
+    return verdict;
+  } catch (error) {
+    if (nowMs - lastStoreWarningMs >= RATE_LIMIT_WINDOW_MS) {
+      lastStoreWarningMs = nowMs;
+      console.warn(
+        `[rate-limit] shared store unavailable, using process-local buckets: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    return localLimiters[scope].consume(key, nowMs);
+  }
+};
 
 const assertAllowed = (
-  allowed: { allowed: boolean; retryAfterSeconds: number },
-  scope: "ip" | "user" | "team",
+  allowed: RateLimitVerdict,
+  scope: RateLimitScope,
   key: string
 ) => {
   if (allowed.allowed) {
@@ -81,22 +179,19 @@ const assertAllowed = (
   );
 };
 
-export const applyIpRateLimit = (ip: string, route: string) => {
+export const applyIpRateLimit = async (ip: string, route: string) => {
   const key = `${route}:${ip}`;
-  const verdict = ipLimiter.consume(key, Date.now());
-  assertAllowed(verdict, "ip", key);
+  assertAllowed(await consume("ip", key), "ip", key);
 };
 
-export const applyUserRateLimit = (userId: string, route: string) => {
+export const applyUserRateLimit = async (userId: string, route: string) => {
   const key = `${route}:${userId}`;
-  const verdict = userLimiter.consume(key, Date.now());
-  assertAllowed(verdict, "user", key);
+  assertAllowed(await consume("user", key), "user", key);
 };
 
-export const applyTeamRateLimit = (teamId: string, route: string) => {
+export const applyTeamRateLimit = async (teamId: string, route: string) => {
   const key = `${route}:${teamId}`;
-  const verdict = teamLimiter.consume(key, Date.now());
-  assertAllowed(verdict, "team", key);
+  assertAllowed(await consume("team", key), "team", key);
 };
 
 export const getRateLimitConfig = () => {
@@ -105,5 +200,6 @@ export const getRateLimitConfig = () => {
     ip_limit: IP_RATE_LIMIT,
     user_limit: USER_RATE_LIMIT,
     team_limit: TEAM_RATE_LIMIT,
+    store: useSharedStore ? "postgres" : "memory",
   };
 };
@@ -1,14 +1,19 @@
 import http from "node:http";
 import { loadConfig } from "./config.ts";
 import { buildHandler } from "./app.ts";
+import { closePool } from "./db/client.ts";
 import { runMigrations } from "./db/migrations.ts";
+import { startTeamSeqListener } from "./sync/streamHub.ts";
 
 const start = async () => {
   const config = loadConfig();
   const handler = buildHandler(config.corsOrigin);
 
+  let stopTeamSeqListener: (() => Promise<void>) | null = null;
   if (config.databaseUrl) {
     await runMigrations();
+    // Pushes to other instances reach this instance's streams via NOTIFY.
+    stopTeamSeqListener = startTeamSeqListener();
   } else {
     console.warn("DATABASE_URL is not configured; /health/ready will return 503.");
   }
@@ -43,7 +48,16 @@ const start = async () => {
 
   const shutdown = (signal: string) => {
     console.log(`Received ${signal}. Shutting down.`);
-    server.close(() => process.exit(0));
+    server.close(() => {
+      void (async () => {
+        await stopTeamSeqListener?.();
+        await closePool().catch(() => {});
+        process.exit(0);
+      })();
+    });
+    // Open /sync/stream responses never finish on their own; clients
+    // reconnect to another instance.
+    server.closeAllConnections();
   };
 
   process.on("SIGINT", () => shutdown("SIGINT"));
@@ -0,0 +1,126 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { closePool, querySql, withTransaction } from "../db/client.ts";
+
+const thisFile = fileURLToPath(import.meta.url);
+
+const parseNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value ?? "");
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    return fallback;
+  }
+  return parsed;
+};
+
+// Pushes are deduplicated by looking up op_id in team_oplog, so ops younger
+// than this stay even when a snapshot covers them: a client retrying an
+// unacknowledged push must still find its op.
+const MIN_AGE_HOURS = parseNumber(process.env.SYNC_COMPACT_MIN_AGE_HOURS, 24);
+
+export type CompactionResult = {
+  team_id: string;
+  snapshot_seq: number | null;
+  compacted_through_seq: number;
+  deleted_ops: number;
+  deleted_snapshots: number;
+};
+
+/**
+ * Deletes a team's oplog entries covered by its newest snapshot and older
+ * than the dedupe window, then raises `team_seq.compacted_through_seq` so
+ * pulls from before that point are told to import the snapshot instead.
+ * POST /sync/snapshot only stores snapshots holding every item the log
+ * leaves alive at their seq, so the ops dropped here are covered.
+ */
+export const compactTeamOplog = async (teamId: string): Promise<CompactionResult> =>
+  withTransaction(async (client) => {
+    // Same lock as sequence allocation, so no push interleaves.
+    await client.query("SELECT pg_advisory_xact_lock(hashtext($1));", [teamId]);
+
+    const state = await client.query<{ snapshot_seq: string | null; compacted: string | null }>(
+      `SELECT
+         (SELECT MAX(server_seq) FROM team_snapshots WHERE team_id = $1) AS snapshot_seq,
+         (SELECT compacted_through_seq FROM team_seq WHERE team_id = $1) AS compacted;`,
+      [teamId]
+    );
+    const snapshotSeq =
+      state.rows[0]?.snapshot_seq === null || state.rows[0]?.snapshot_seq === undefined
+        ? null
+        : Number(state.rows[0].snapshot_seq);
+    const previous = Number(state.rows[0]?.compacted ?? 0);
+    if (snapshotSeq === null) {
+      return {
+        team_id: teamId,
+        snapshot_seq: null,
+        compacted_through_seq: previous,
+        deleted_ops: 0,
+        deleted_snapshots: 0,
+      };
+    }
+
+    const oldEnough = await client.query<{ server_seq: string | null }>(
+      `SELECT MAX(server_seq) AS server_seq
+       FROM team_oplog
+       WHERE team_id = $1
+         AND server_seq <= $2
+         AND received_at < NOW() - $3 * INTERVAL '1 hour';`,
+      [teamId, snapshotSeq, MIN_AGE_HOURS]
+    );
+    const through = Math.max(previous, Number(oldEnough.rows[0]?.server_seq ?? 0));
+
+    const deletedOps = await client.query(
+      "DELETE FROM team_oplog WHERE team_id = $1 AND server_seq <= $2;",
+      [teamId, through]
+    );
+    await client.query(
+      `UPDATE team_seq
+       SET compacted_through_seq = $2, updated_at = NOW()
+       WHERE team_id = $1;`,
+      [teamId, through]
+    );
+    // Older snapshots can no longer be completed from the log.
+    const deletedSnapshots = await client.query(
+      "DELETE FROM team_snapshots WHERE team_id = $1 AND server_seq < $2;",
+      [teamId, through]
+    );
+
+    return {
+      team_id: teamId,
+      snapshot_seq: snapshotSeq,
+      compacted_through_seq: through,
+      deleted_ops: deletedOps.rowCount ?? 0,
+      deleted_snapshots: deletedSnapshots.rowCount ?? 0,
+    };
+  });
+
+const listTeamsWithSnapshots = async () => {
+  const result = await querySql<{ team_id: string }>(
+    "SELECT DISTINCT team_id FROM team_snapshots ORDER BY team_id;"
+  );
+  return result.rows.map((row) => row.team_id);
+};
+
+const isMain = process.argv[1]
+  ? path.resolve(process.argv[1]) === thisFile
+  : false;
+
+if (isMain) {
+  const teamFlag = process.argv.indexOf("--team");
+  const teamArg = teamFlag === -1 ? null : process.argv[teamFlag + 1] ?? null;
+
+  (async () => {
+    const teamIds = teamArg ? [teamArg] : await listTeamsWithSnapshots();
+    for (const teamId of teamIds) {
+      const result = await compactTeamOplog(teamId);
+      console.log(JSON.stringify(result));
+    }
+    if (teamIds.length === 0) {
+      console.log("No team has a snapshot yet; nothing to compact.");
+    }
+  })()
+    .catch((error) => {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    })
+    .finally(() => closePool());
+}
@@ -1,3 +1,5 @@
+import { isSharedSettingKey } from "./sharedSettings.ts";
+
 export type JsonObject = Record<string, unknown>;
 
 export type OpValidationFailure = {
@@ -27,6 +29,19 @@ const hasStringArray = (payload: JsonObject, key: string) => {
   );
 };
 
+// A real YYYY-MM-DD date; comparing two of them as strings orders them.
+const isDayString = (value: unknown): value is string => {
+  const match = typeof value === "string" ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!match) {
+    return false;
+  }
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  return check.getUTCMonth() === month - 1 && check.getUTCDate() === day;
+};
+
 const ok = (): OpValidationResult => ({ ok: true });
 
 const fail = (message: string): OpValidationFailure => ({
@@ -67,6 +82,24 @@ const blockIdValidator: OpPayloadValidator = (payload) => {
   return fail("payload requires block_id.");
 };
 
+// The client sends `ids`; `item_ids` is accepted from older clients.
+const itemIdListValidator = (opName: string): OpPayloadValidator => (payload) => {
+  for (const key of ["ids", "item_ids"]) {
+    if (hasStringArray(payload, key) && (payload[key] as unknown[]).length > 0) {
+      return ok();
+    }
+  }
+  return fail(`${opName} payload requires ids as a non-empty string array.`);
+};
+
+// Entry ops carry the entry's item so the op can be placed in its project.
+const timeEntryValidator = (opName: string): OpPayloadValidator => (payload) => {
+  if (hasString(payload, "entry_id") && hasString(payload, "item_id")) {
+    return ok();
+  }
+  return fail(`${opName} payload requires entry_id and item_id.`);
+};
+
 const opValidatorEntries: Array<[string, OpPayloadValidator]> = [
   ["create_item", (payload) => {
     if (hasString(payload, "id") && hasString(payload, "project_id") && hasString(payload, "type")) {
@@ -95,29 +128,63 @@ const opValidatorEntries: Array<[string, OpPayloadValidator]> = [
     }
     return fail("create_block payload requires block_id, item_id, and start_at.");
   }],
-  ["move_block", blockIdValidator],
-  ["resize_block", blockIdValidator],
-  ["delete_block", blockIdValidator],
-  ["item.archive", itemIdValidator],
-  ["items.archive_many", (payload) => {
-    if (hasStringArray(payload, "item_ids") && (payload.item_ids as unknown[]).length > 0) {
+  ["schedule.auto_plan", (payload) => {
+    if (payload.commit === true && Array.isArray(payload.plan)) {
       return ok();
     }
-    return fail("items.archive_many payload requires item_ids as a non-empty string array.");
+    return fail("schedule.auto_plan payload requires commit and a plan array.");
   }],
-  ["item.restore", itemIdValidator],
-  ["items.restore_many", (payload) => {
-    if (hasStringArray(payload, "item_ids") && (payload.item_ids as unknown[]).length > 0) {
+  ["import_ics", (payload) => {
+    if (hasString(payload, "calendar") && hasString(payload, "user_id") && Array.isArray(payload.events)) {
       return ok();
     }
-    return fail("items.restore_many payload requires item_ids as a non-empty string array.");
+    return fail("import_ics payload requires calendar, user_id, and an events array.");
   }],
+  ["set_setting", (payload) => {
+    if (isSharedSettingKey(payload.key)) {
+      return ok();
+    }
+    return fail("set_setting payload requires a shared settings key.");
+  }],
+  ["saved_view.create", (payload) => {
+    if (
+      hasString(payload, "view_id") &&
+      hasString(payload, "name") &&
+      hasString(payload, "view_type") &&
+      !!payload.scope &&
+      typeof payload.scope === "object"
+    ) {
+      return ok();
+    }
+    return fail("saved_view.create payload requires view_id, name, view_type, and scope.");
+  }],
+  ["saved_view.update", (payload) => {
+    if (hasString(payload, "view_id")) {
+      return ok();
+    }
+    return fail("saved_view.update payload requires view_id.");
+  }],
+  ["saved_view.delete", (payload) => {
+    if (hasString(payload, "view_id")) {
+      return ok();
+    }
+    return fail("saved_view.delete payload requires view_id.");
+  }],
+  ["move_block", blockIdValidator],
+  ["resize_block", blockIdValidator],
+  ["delete_block", blockIdValidator],
+  ["item.archive", itemIdValidator],
+  ["items.archive_many", itemIdListValidator("items.archive_many")],
+  ["item.restore", itemIdValidator],
+  ["items.restore_many", itemIdListValidator("items.restore_many")],
   ["delete_item", itemIdValidator],
-  ["items.delete_many", (payload) => {
-    if (hasStringArray(payload, "item_ids") && (payload.item_ids as unknown[]).length > 0) {
+  ["items.delete_many", itemIdListValidator("items.delete_many")],
+  ["items.reinsert", (payload) => {
+    const snapshot = payload.snapshot as JsonObject | undefined;
+    if (snapshot && typeof snapshot === "object" && Array.isArray(snapshot.items) && snapshot.items.length > 0) {
       return ok();
     }
-    return fail("items.delete_many payload requires item_ids as a non-empty string array.");
+    return fail("items.reinsert payload requires snapshot.items as a non-empty array.");
   }],
   ["reorder_item", itemIdValidator],
   ["move_item", itemIdValidator],
@@ -133,17 +200,28 @@ const opValidatorEntries: Array<[string, OpPayloadValidator]> = [
   ["stop_timer", (payload) => {
     return requireAny(payload, ["entry_id", "item_id"], "stop_timer payload requires entry_id or item_id.");
   }],
+  ["time_entry.update", timeEntryValidator("time_entry.update")],
+  ["time_entry.delete", timeEntryValidator("time_entry.delete")],
+  ["time_entry.split", (payload) => {
+    if (hasString(payload, "entry_id") && hasString(payload, "new_entry_id") && hasString(payload, "item_id") && hasNumber(payload, "split_at")) {
+      return ok();
+    }
+    return fail("time_entry.split payload requires entry_id, new_entry_id, item_id, and split_at.");
+  }],
   ["dependency.create", (payload) => {
+    if (hasString(payload, "predecessor_id") && hasString(payload, "successor_id")) {
+      return ok();
+    }
     if (hasString(payload, "item_id") && hasString(payload, "depends_on_id")) {
       return ok();
     }
-    return fail("dependency.create payload requires item_id and depends_on_id.");
+    return fail("dependency.create payload requires predecessor_id and successor_id.");
   }],
   ["dependency.update", (payload) => {
-    return requireAny(payload, ["dependency_id", "id"], "dependency.update payload requires dependency_id or id.");
+    return requireAny(payload, ["edge_id", "dependency_id", "id"], "dependency.update payload requires edge_id.");
   }],
   ["dependency.delete", (payload) => {
-    return requireAny(payload, ["dependency_id", "id"], "dependency.delete payload requires dependency_id or id.");
+    return requireAny(payload, ["edge_id", "dependency_id", "id"], "dependency.delete payload requires edge_id.");
   }],
   ["add_dependency", (payload) => {
     if (hasString(payload, "item_id") && hasString(payload, "depends_on_id")) {
@@ -187,6 +265,76 @@ const opValidatorEntries: Array<[string, OpPayloadValidator]> = [
     }
     return fail("user.update payload requires user_id.");
   }],
+  ["user.set_capacity", (payload) => {
+    const hours = payload.hours_by_weekday;
+    if (
+      hasString(payload, "user_id") &&
+      Array.isArray(hours) &&
+      hours.length === 7 &&
+      hours.every((value) => typeof value === "number" && value >= 0 && value <= 24)
+    ) {
+      return ok();
+    }
+    return fail("user.set_capacity payload requires user_id and seven hours_by_weekday values from 0 to 24.");
+  }],
+  ["user.set_time_zone", (payload) => {
+    const timeZone = payload.time_zone;
+    if (
+      hasString(payload, "user_id") &&
+      (timeZone === null || (typeof timeZone === "string" && timeZone.trim() !== ""))
+    ) {
+      return ok();
+    }
+    return fail("user.set_time_zone payload requires user_id and a time_zone string or null.");
+  }],
+  ["team.set_working_days", (payload) => {
+    const weekdays = payload.working_weekdays;
+    if (
+      Array.isArray(weekdays) &&
+      weekdays.length === 7 &&
+      weekdays.every((value) => typeof value === "boolean")
+    ) {
+      return ok();
+    }
+    return fail("team.set_working_days payload requires seven working_weekdays booleans.");
+  }],
+  ["team.holiday.add", (payload) => {
+    if (
+      hasString(payload, "holiday_id") &&
+      isDayString(payload.day) &&
+      hasString(payload, "name")
+    ) {
+      return ok();
+    }
+    return fail("team.holiday.add payload requires holiday_id, a YYYY-MM-DD day and name.");
+  }],
+  ["team.holiday.remove", (payload) => {
+    if (hasString(payload, "holiday_id")) {
+      return ok();
+    }
+    return fail("team.holiday.remove payload requires holiday_id.");
+  }],
+  ["user.time_off.add", (payload) => {
+    const endDay = payload.end_day ?? payload.start_day;
+    if (
+      hasString(payload, "time_off_id") &&
+      hasString(payload, "user_id") &&
+      isDayString(payload.start_day) &&
+      isDayString(endDay) &&
+      endDay >= payload.start_day
+    ) {
+      return ok();
+    }
+    return fail(
+      "user.time_off.add payload requires time_off_id, user_id and YYYY-MM-DD start_day and end_day in order."
+    );
+  }],
+  ["user.time_off.remove", (payload) => {
+    if (hasString(payload, "time_off_id")) {
+      return ok();
+    }
+    return fail("user.time_off.remove payload requires time_off_id.");
+  }],
   ["team.member.set_role", (payload) => {
     if (hasString(payload, "user_id") && hasString(payload, "role")) {
       return ok();
@@ -199,6 +347,22 @@ const opValidatorEntries: Array<[string, OpPayloadValidator]> = [
     }
     return fail("team.member.add payload requires user_id.");
   }],
+  ["project.member.set_role", (payload) => {
+    if (
+      hasString(payload, "project_id") &&
+      hasString(payload, "user_id") &&
+      ["owner", "editor", "viewer"].includes(String(payload.role))
+    ) {
+      return ok();
+    }
+    return fail("project.member.set_role payload requires project_id, user_id, and an owner, editor, or viewer role.");
+  }],
+  ["project.member.remove", (payload) => {
+    if (hasString(payload, "project_id") && hasString(payload, "user_id")) {
+      return ok();
+    }
+    return fail("project.member.remove payload requires project_id and user_id.");
+  }],
   ["item.set_assignee", itemIdValidator],
   ["set_item_assignees", (payload) => {
     if (hasString(payload, "item_id") && Array.isArray(payload.assignee_ids)) {
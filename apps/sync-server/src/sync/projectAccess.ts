@@ -0,0 +1,316 @@
+import type { TeamRole } from "../auth/authz.ts";
+import type { JsonObject } from "./opValidation.ts";
+
+// Per-project access control. Ops only carry item ids, so the server keeps
+// its own parent index of the team's items (team_items), fed from the ops it
+// accepts, to tell which root project an op writes to. Ops on blocks,
+// blockers and time entries may name only the row, so a second index
+// (team_item_rows) maps those rows to their items.
+
+export type ProjectMember = {
+  project_id: string;
+  user_id: string;
+  role: TeamRole;
+};
+
+export type ItemPlacement = {
+  item_id: string;
+  parent_id: string | null;
+  /** Null keeps the type already on record (moves don't resend it). */
+  item_type: string | null;
+};
+
+export type ItemRowKind = "block" | "blocker" | "time_entry";
+
+export type ItemRowRef = {
+  row_kind: ItemRowKind;
+  row_id: string;
+};
+
+export type ItemRowPlacement = ItemRowRef & {
+  item_id: string;
+};
+
+export type ProjectMemberChange = {
+  project_id: string;
+  user_id: string;
+  /** Null removes the member. */
+  role: TeamRole | null;
+};
+
+const ITEM_ID_KEYS = [
+  "item_id",
+  "id",
+  "parent_id",
+  "predecessor_id",
+  "successor_id",
+  "depends_on_id",
+];
+const ITEM_ID_LIST_KEYS = ["ids", "item_ids"];
+const ROW_ID_KEYS: Array<[string, ItemRowKind]> = [
+  ["block_id", "block"],
+  ["blocker_id", "blocker"],
+  ["entry_id", "time_entry"],
+];
+// Export and items.reinsert snapshots keep the rows under these keys.
+const SNAPSHOT_ROW_TABLES: Array<[string, string, ItemRowKind]> = [
+  ["scheduled_blocks", "block_id", "block"],
+  ["blockers", "blocker_id", "blocker"],
+  ["time_entries", "entry_id", "time_entry"],
+];
+
+const isRecord = (value: unknown): value is JsonObject =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const asId = (value: unknown) =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+
+const asRole = (value: unknown): TeamRole | null => {
+  const role = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (role === "member") {
+    return "editor";
+  }
+  return role === "owner" || role === "editor" || role === "viewer" ? role : null;
+};
+
+/**
+ * A user's role in a root project. Projects without members are open to the
+ * whole team at the team role; listing members restricts the project to
+ * them. Team owners keep owner access everywhere.
+ */
+export const projectRoleFor = (
+  teamRole: TeamRole,
+  userId: string,
+  projectId: string,
+  members: ProjectMember[]
+): TeamRole | null => {
+  if (teamRole === "owner") {
+    return "owner";
+  }
+  const listed = members.filter((member) => member.project_id === projectId);
+  if (listed.length === 0) {
+    return teamRole;
+  }
+  return listed.find((member) => member.user_id === userId)?.role ?? null;
+};
+
+export const hiddenProjectIds = (
+  teamRole: TeamRole,
+  userId: string,
+  members: ProjectMember[]
+): string[] => {
+  const projectIds = new Set(members.map((member) => member.project_id));
+  return [...projectIds]
+    .filter((projectId) => projectRoleFor(teamRole, userId, projectId, members) === null)
+    .sort();
+};
+
+/** Item ids an op payload names directly, the same keys the client scopes by. */
+export const collectOpItemIds = (payload: JsonObject): string[] => {
+  const ids = new Set<string>();
+  const add = (value: unknown) => {
+    const id = asId(value);
+    if (id) {
+      ids.add(id);
+    }
+  };
+  for (const key of ITEM_ID_KEYS) {
+    add(payload[key]);
+  }
+  for (const key of ITEM_ID_LIST_KEYS) {
+    const list = payload[key];
+    if (Array.isArray(list)) {
+      list.forEach(add);
+    }
+  }
+  if (typeof payload.edge_id === "string") {
+    payload.edge_id.split("->").forEach(add);
+  }
+  if (Array.isArray(payload.plan)) {
+    for (const entry of payload.plan) {
+      add(isRecord(entry) ? entry.item_id : null);
+    }
+  }
+  const snapshot = isRecord(payload.snapshot) ? payload.snapshot : null;
+  if (snapshot && Array.isArray(snapshot.items)) {
+    for (const entry of snapshot.items) {
+      add(isRecord(entry) ? entry.id : null);
+    }
+  }
+  return [...ids];
+};
+
+/** Blocks, blockers and time entries an op names, to resolve to their items. */
+export const collectOpRowRefs = (payload: JsonObject): ItemRowRef[] => {
+  const refs: ItemRowRef[] = [];
+  const add = (row_kind: ItemRowKind, value: unknown) => {
+    const rowId = asId(value);
+    if (rowId && !refs.some((ref) => ref.row_kind === row_kind && ref.row_id === rowId)) {
+      refs.push({ row_kind, row_id: rowId });
+    }
+  };
+  for (const [key, rowKind] of ROW_ID_KEYS) {
+    add(rowKind, payload[key]);
+  }
+  if (Array.isArray(payload.plan)) {
+    for (const entry of payload.plan) {
+      add("block", isRecord(entry) ? entry.block_id : null);
+    }
+  }
+  return refs;
+};
+
+/** Row placements from an exported payload (snapshots, items.reinsert). */
+export const collectSnapshotRowPlacements = (payload: unknown): ItemRowPlacement[] => {
+  if (!isRecord(payload)) {
+    return [];
+  }
+  return SNAPSHOT_ROW_TABLES.flatMap(([table, idKey, rowKind]) => {
+    const rows = payload[table];
+    if (!Array.isArray(rows)) {
+      return [];
+    }
+    return rows.flatMap((entry): ItemRowPlacement[] => {
+      const rowId = isRecord(entry) ? asId(entry[idKey]) : null;
+      const itemId = isRecord(entry) ? asId(entry.item_id) : null;
+      return rowId && itemId ? [{ row_kind: rowKind, row_id: rowId, item_id: itemId }] : [];
+    });
+  });
+};
+
+/** Rows an accepted op creates, and the items they belong to. */
+export const collectRowPlacements = (
+  opName: string,
+  payload: JsonObject
+): ItemRowPlacement[] => {
+  const placed = (rowKind: ItemRowKind, rowId: unknown, itemId: unknown) => {
+    const row = asId(rowId);
+    const item = asId(itemId);
+    return row && item ? [{ row_kind: rowKind, row_id: row, item_id: item }] : [];
+  };
+  switch (opName) {
+    case "scheduled_block.create":
+    case "create_block":
+      return placed("block", payload.block_id, payload.item_id);
+    case "set_status":
+      // Completing a recurring task schedules its next occurrence.
+      return placed("block", payload.next_block_id, payload.next_occurrence_id);
+    case "schedule.auto_plan":
+      return Array.isArray(payload.plan)
+        ? payload.plan.flatMap((entry) =>
+            isRecord(entry) ? placed("block", entry.block_id, entry.item_id) : []
+          )
+        : [];
+    case "add_blocker":
+      return placed("blocker", payload.blocker_id, payload.item_id);
+    case "add_time_entry":
+    case "stop_timer":
+      return placed("time_entry", payload.entry_id, payload.item_id);
+    case "time_entry.split":
+      return placed("time_entry", payload.new_entry_id, payload.item_id);
+    case "items.reinsert":
+      return collectSnapshotRowPlacements(payload.snapshot);
+    default:
+      return [];
+  }
+};
+
+/** Placements from an exported item list (snapshots, items.reinsert). */
+export const collectSnapshotPlacements = (items: unknown): ItemPlacement[] => {
+  if (!Array.isArray(items)) {
+    return [];
+  }
+  return items.flatMap((entry): ItemPlacement[] => {
+    const itemId = isRecord(entry) ? asId(entry.id) : null;
+    if (!isRecord(entry) || !itemId) {
+      return [];
+    }
+    return [
+      {
+        item_id: itemId,
+        parent_id: asId(entry.parent_id),
+        item_type: asId(entry.type),
+      },
+    ];
+  });
+};
+
+/** How an accepted op moves items in the parent index. */
+export const collectItemPlacements = (
+  opName: string,
+  payload: JsonObject
+): ItemPlacement[] => {
+  switch (opName) {
+    case "create_item": {
+      const itemId = asId(payload.id);
+      return itemId
+        ? [{ item_id: itemId, parent_id: asId(payload.parent_id), item_type: asId(payload.type) }]
+        : [];
+    }
+    case "move_item": {
+      const itemId = asId(payload.item_id);
+      return itemId && "parent_id" in payload
+        ? [{ item_id: itemId, parent_id: asId(payload.parent_id), item_type: null }]
+        : [];
+    }
+    case "update_item_fields": {
+      const itemId = asId(payload.id) ?? asId(payload.item_id);
+      const fields = isRecord(payload.fields) ? payload.fields : null;
+      return itemId && fields && "parent_id" in fields
+        ? [{ item_id: itemId, parent_id: asId(fields.parent_id), item_type: null }]
+        : [];
+    }
+    case "items.reinsert":
+      return collectSnapshotPlacements(
+        isRecord(payload.snapshot) ? payload.snapshot.items : null
+      );
+    default:
+      return [];
+  }
+};
+
+export const projectMemberChange = (
+  opName: string,
+  payload: JsonObject
+): ProjectMemberChange | null => {
+  const projectId = asId(payload.project_id);
+  const userId = asId(payload.user_id);
+  if (!projectId || !userId) {
+    return null;
+  }
+  if (opName === "project.member.set_role") {
+    const role = asRole(payload.role);
+    return role ? { project_id: projectId, user_id: userId, role } : null;
+  }
+  if (opName === "project.member.remove") {
+    return { project_id: projectId, user_id: userId, role: null };
+  }
+  return null;
+};
+
+/**
+ * Drops rows under hidden projects from a snapshot payload: the items
+ * themselves and every row keyed to one (dependencies, blocks, time...).
+ */
+export const filterSnapshotPayload = (
+  payload: JsonObject,
+  hiddenItemIds: ReadonlySet<string>
+): JsonObject => {
+  if (hiddenItemIds.size === 0) {
+    return payload;
+  }
+  const isHidden = (entry: unknown) =>
+    isRecord(entry) &&
+    ["id", "item_id", "depends_on_id"].some((key) => {
+      const id = asId(entry[key]);
+      return id !== null && hiddenItemIds.has(id);
+    });
+  const filtered: JsonObject = {};
+  for (const [key, value] of Object.entries(payload)) {
+    filtered[key] =
+      Array.isArray(value) && key !== "settings"
+        ? value.filter((entry) => !isHidden(entry))
+        : value;
+  }
+  return filtered;
+};
@@ -0,0 +1,6 @@
+// The setting keys a team shares; every other key is device-local and
+// `set_setting` rejects it. Mirrors the client's src/sync/sharedSettings.ts.
+export const SHARED_SETTING_KEYS: ReadonlySet<string> = new Set(["list.saved_filters"]);
+
+export const isSharedSettingKey = (key: unknown): key is string =>
+  typeof key === "string" && SHARED_SETTING_KEYS.has(key);
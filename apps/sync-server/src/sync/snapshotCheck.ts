@@ -0,0 +1,79 @@
+import type { JsonObject } from "./opValidation.ts";
+import { collectItemPlacements, collectSnapshotPlacements } from "./projectAccess.ts";
+
+// A published snapshot stands in for the log: new devices import it instead
+// of pulling, and compaction drops the ops it covers. The server can't replay
+// ops into rows, but it can tell which items the log leaves alive at a seq,
+// so an upload missing any of them (a partial or stale device) is refused.
+
+type LoggedOp = {
+  op_name: string;
+  payload: JsonObject;
+};
+
+const asId = (value: unknown) =>
+  typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
+
+/** Ids an op deletes along with their subtrees. */
+const deletedRootIds = (op: LoggedOp): string[] => {
+  if (op.op_name === "delete_item") {
+    const itemId = asId(op.payload.item_id) ?? asId(op.payload.id);
+    return itemId ? [itemId] : [];
+  }
+  if (op.op_name === "items.delete_many" && Array.isArray(op.payload.ids)) {
+    return op.payload.ids.map(asId).filter((id): id is string => id !== null);
+  }
+  return [];
+};
+
+/**
+ * Items alive after `ops`, starting from a snapshot's item list (or none).
+ * Maps each to its parent so deleting an item also drops its descendants.
+ */
+export const collectLiveItems = (
+  baseItems: unknown,
+  ops: LoggedOp[]
+): Map<string, string | null> => {
+  const live = new Map<string, string | null>();
+  for (const placement of collectSnapshotPlacements(baseItems)) {
+    live.set(placement.item_id, placement.parent_id);
+  }
+  for (const op of ops) {
+    for (const placement of collectItemPlacements(op.op_name, op.payload)) {
+      live.set(placement.item_id, placement.parent_id);
+    }
+    // Completing a recurring task creates its next occurrence beside it.
+    const nextId = op.op_name === "set_status" ? asId(op.payload.next_occurrence_id) : null;
+    const itemId = asId(op.payload.item_id) ?? asId(op.payload.id);
+    if (nextId && itemId) {
+      live.set(nextId, live.get(itemId) ?? null);
+    }
+    const doomed = new Set(deletedRootIds(op).filter((id) => live.has(id)));
+    let grew = doomed.size > 0;
+    while (grew) {
+      grew = false;
+      for (const [id, parentId] of live) {
+        if (!doomed.has(id) && parentId !== null && doomed.has(parentId)) {
+          doomed.add(id);
+          grew = true;
+        }
+      }
+    }
+    doomed.forEach((id) => live.delete(id));
+  }
+  return live;
+};
+
+/** Live item ids the uploaded snapshot leaves out, sorted. */
+export const findMissingSnapshotItems = (
+  snapshotItems: unknown,
+  baseItems: unknown,
+  ops: LoggedOp[]
+): string[] => {
+  const uploaded = new Set(
+    collectSnapshotPlacements(snapshotItems).map((placement) => placement.item_id)
+  );
+  return [...collectLiveItems(baseItems, ops).keys()]
+    .filter((id) => !uploaded.has(id))
+    .sort();
+};
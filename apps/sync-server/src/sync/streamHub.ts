@@ -0,0 +1,160 @@
+import { connectDedicatedClient } from "../db/client.ts";
+
+export type TeamSeqListener = (latestSeq: number) => void;
+
+export const TEAM_SEQ_CHANNEL = "team_seq_changed";
+
+// Open /sync/stream connections in this process, keyed by team. New
+// sequences arrive both from pushes handled here and, with a database, from
+// Postgres NOTIFY for pushes handled by any instance; only increases are
+// forwarded so a seq announced both ways reaches each stream once.
+const listenersByTeam = new Map<string, Set<TeamSeqListener>>();
+const lastPublishedByTeam = new Map<string, number>();
+
+export const subscribeTeamSeq = (teamId: string, listener: TeamSeqListener) => {
+  const listeners = listenersByTeam.get(teamId) ?? new Set<TeamSeqListener>();
+  listeners.add(listener);
+  listenersByTeam.set(teamId, listeners);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && listenersByTeam.get(teamId) === listeners) {
+      listenersByTeam.delete(teamId);
+      lastPublishedByTeam.delete(teamId);
+    }
+  };
+};
+
+export const publishTeamSeq = (teamId: string, latestSeq: number) => {
+  const listeners = listenersByTeam.get(teamId);
+  if (!listeners) {
+    return;
+  }
+  if (latestSeq <= (lastPublishedByTeam.get(teamId) ?? 0)) {
+    return;
+  }
+  lastPublishedByTeam.set(teamId, latestSeq);
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(latestSeq);
+    } catch (error) {
+      console.warn(
+        `[sync-stream] listener failed for team ${teamId}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+};
+
+export const countStreamSubscribers = () => {
+  let total = 0;
+  for (const listeners of listenersByTeam.values()) {
+    total += listeners.size;
+  }
+  return total;
+};
+
+const parseNotification = (payload: string | undefined) => {
+  try {
+    const parsed = JSON.parse(payload ?? "") as unknown;
+    if (!parsed || typeof parsed !== "object") {
+      return null;
+    }
+    const record = parsed as Record<string, unknown>;
+    const latestSeq = Number(record.latest_seq);
+    if (typeof record.team_id !== "string" || !Number.isSafeInteger(latestSeq)) {
+      return null;
+    }
+    return { teamId: record.team_id, latestSeq };
+  } catch {
+    return null;
+  }
+};
+
+const LISTEN_RETRY_MAX_MS = 30_000;
+
+/**
+ * Holds a LISTEN connection for TEAM_SEQ_CHANNEL and republishes every
+ * notification locally, reconnecting with backoff when the connection drops.
+ * Returns a stop function for shutdown.
+ */
+export const startTeamSeqListener = () => {
+  let stopped = false;
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let activeClient: Awaited<ReturnType<typeof connectDedicatedClient>> | null = null;
+
+  const scheduleReconnect = (reason: string) => {
+    if (stopped || retryTimer !== null) {
+      return;
+    }
+    const delay = Math.min(LISTEN_RETRY_MAX_MS, 1_000 * 2 ** attempt);
+    attempt += 1;
+    console.warn(`[sync-stream] LISTEN connection lost (${reason}); retrying in ${delay}ms`);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void connect();
+    }, delay);
+  };
+
+  const connect = async () => {
+    try {
+      const client = await connectDedicatedClient();
+      if (stopped) {
+        await client.end();
+        return;
+      }
+      activeClient = client;
+      client.on("notification", (message) => {
+        if (message.channel !== TEAM_SEQ_CHANNEL) {
+          return;
+        }
+        const parsed = parseNotification(message.payload);
+        if (parsed) {
+          publishTeamSeq(parsed.teamId, parsed.latestSeq);
+        }
+      });
+      client.on("error", (error) => {
+        activeClient = null;
+        void client.end().catch(() => {});
+        scheduleReconnect(error.message);
+      });
+      client.on("end", () => {
+        if (activeClient === client) {
+          activeClient = null;
+          scheduleReconnect("connection ended");
+        }
+      });
+      await client.query(`LISTEN ${TEAM_SEQ_CHANNEL};`);
+      attempt = 0;
+      // Anything pushed while the connection was down was never announced.
+      const teamIds = Array.from(listenersByTeam.keys());
+      if (teamIds.length > 0) {
+        const current = await client.query<{ team_id: string; latest_seq: string }>(
+          "SELECT team_id, latest_seq FROM team_seq WHERE team_id = ANY($1);",
+          [teamIds]
+        );
+        for (const row of current.rows) {
+          publishTeamSeq(row.team_id, Number(row.latest_seq));
+        }
+      }
+    } catch (error) {
+      const failedClient = activeClient;
+      activeClient = null;
+      void failedClient?.end().catch(() => {});
+      scheduleReconnect(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  void connect();
+
+  return async () => {
+    stopped = true;
+    if (retryTimer !== null) {
+      clearTimeout(retryTimer);
+    }
+    const client = activeClient;
+    activeClient = null;
+    await client?.end().catch(() => {});
+  };
+};
@@ -0,0 +1,157 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+import * as scheduleMath from "../src/db-worker/scheduleMath.js";
+
+const source = readFileSync(
+  new URL("../src/db-worker/autoPlan.ts", import.meta.url),
+  "utf8"
+);
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, {
+  module: moduleShim,
+  exports: moduleShim.exports,
+  require: (specifier) => {
+    if (specifier === "./scheduleMath") {
+      return scheduleMath;
+    }
+    throw new Error(`unexpected import: ${specifier}`);
+  },
+  Date,
+});
+
+const { planAutoSchedule } = moduleShim.exports;
+
+const at = (day, hour, minute = 0) =>
+  new Date(2030, 0, day, hour, minute, 0, 0).getTime();
+
+const baseInput = (overrides) => ({
+  windowStart: at(7, 0),
+  windowEnd: at(12, 0),
+  workday: { startHour: 9, endHour: 17 },
+  candidates: [],
+  fixedBlocks: [],
+  dependencies: [],
+  ...overrides,
+});
+
+const candidate = (id, overrides = {}) => ({
+  id,
+  priority: 0,
+  due_at: null,
+  remaining_minutes: 60,
+  lane: "u1",
+  block_id: null,
+  ...overrides,
+});
+
+test("orders by priority then due date inside workday hours", () => {
+  const { placements } = planAutoSchedule(
+    baseInput({
+      candidates: [
+        candidate("low", { priority: 1 }),
+        candidate("late", { priority: 3, due_at: at(11, 0) }),
+        candidate("soon", { priority: 3, due_at: at(8, 0) }),
+      ],
+    })
+  );
+  assert.deepEqual(
+    Array.from(placements, (entry) => [entry.item_id, entry.start_at]),
+    [
+      ["soon", at(7, 9)],
+      ["late", at(7, 10)],
+      ["low", at(7, 11)],
+    ]
+  );
+});
+
+test("fixed blocks stay put and are skipped around", () => {
+  const { placements } = planAutoSchedule(
+    baseInput({
+      candidates: [candidate("a", { remaining_minutes: 120 })],
+      fixedBlocks: [
+        { item_id: "locked", lane: "u1", start_at: at(7, 10), duration_minutes: 60 },
+      ],
+    })
+  );
+  assert.equal(placements[0].start_at, at(7, 11));
+});
+
+test("respects FS lag and caps blocks at the workday length", () => {
+  const { placements, skipped } = planAutoSchedule(
+    baseInput({
+      candidates: [
+        candidate("pred", { remaining_minutes: 600 }),
+        candidate("succ", { priority: 5 }),
+      ],
+      dependencies: [
+        { item_id: "succ", depends_on_id: "pred", type: "FS", lag_minutes: 30 },
+      ],
+    })
+  );
+  assert.equal(skipped.length, 0);
+  const pred = placements.find((entry) => entry.item_id === "pred");
+  const succ = placements.find((entry) => entry.item_id === "succ");
+  assert.equal(pred.duration_minutes, 480);
+  assert.equal(pred.truncated, true);
+  assert.equal(succ.start_at, at(8, 9));
+});
+
+test("reports the minutes of a multi-day estimate its block leaves out", () => {
+  const { placements } = planAutoSchedule(
+    baseInput({
+      candidates: [
+        candidate("long", { remaining_minutes: 1200 }),
+        candidate("short", { remaining_minutes: 45 }),
+      ],
+    })
+  );
+  const long = placements.find((entry) => entry.item_id === "long");
+  const short = placements.find((entry) => entry.item_id === "short");
+  assert.equal(long.duration_minutes, 480);
+  assert.equal(long.unplaced_minutes, 720);
+  assert.equal(long.duration_minutes + long.unplaced_minutes, 1200);
+  assert.equal(short.unplaced_minutes, 0);
+  assert.equal(short.truncated, false);
+});
+
+test("reports dependency cycles and unplaceable successors", () => {
+  const { placements, skipped } = planAutoSchedule(
+    baseInput({
+      windowEnd: at(8, 0),
+      candidates: [
+        candidate("x"),
+        candidate("y"),
+        candidate("big", { remaining_minutes: 480 }),
+        candidate("after-big"),
+      ],
+      fixedBlocks: [
+        { item_id: "busy", lane: "u1", start_at: at(7, 12), duration_minutes: 30 },
+      ],
+      dependencies: [
+        { item_id: "x", depends_on_id: "y", type: "FS", lag_minutes: 0 },
+        { item_id: "y", depends_on_id: "x", type: "FS", lag_minutes: 0 },
+        { item_id: "after-big", depends_on_id: "big", type: "FS", lag_minutes: 0 },
+      ],
+    })
+  );
+  assert.equal(placements.length, 0);
+  assert.deepEqual(
+    Object.fromEntries(skipped.map((entry) => [entry.item_id, entry.reason])),
+    {
+      big: "no_slot",
+      "after-big": "predecessor_unplaced",
+      x: "dependency_cycle",
+      y: "dependency_cycle",
+    }
+  );
+});
@@ -0,0 +1,113 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(new URL("../src/db-worker/capacity.ts", import.meta.url), "utf8");
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, { module: moduleShim, exports: moduleShim.exports });
+
+const { buildCapacityRange, normalizeWeekdayMinutes } = moduleShim.exports;
+
+const plain = (value) => JSON.parse(JSON.stringify(value));
+
+const at = (month, day, hour = 0) => new Date(2026, month - 1, day, hour).getTime();
+const days = (month, first, count) =>
+  Array.from({ length: count + 1 }, (_, index) => at(month, first + index));
+
+const user = (minutes = normalizeWeekdayMinutes([])) => ({
+  user_id: "u1",
+  display_name: "Ada",
+  minutes_by_weekday: minutes,
+});
+
+test("splits blocks across midnight and spreads estimates up to the due day", () => {
+  // Monday 2 March to Wednesday 4 March 2026.
+  const [range] = buildCapacityRange({
+    dayStarts: days(3, 2, 3),
+    now: at(3, 2, 9),
+    users: [user()],
+    blocks: [
+      { user_id: "u1", item_id: "a", title: "Deploy", start_at: at(3, 2, 22), duration_minutes: 180 },
+      { user_id: "u2", item_id: "b", title: "Other", start_at: at(3, 2, 10), duration_minutes: 60 },
+    ],
+    tasks: [
+      { user_id: "u1", item_id: "c", title: "Build", unscheduled_minutes: 1200, due_at: at(3, 4, 15) },
+    ],
+  });
+  assert.deepEqual(
+    plain(range.days.map((day) => [day.scheduled_minutes, day.estimated_minutes, day.over_minutes])),
+    [
+      [120, 400, 40],
+      [60, 400, 0],
+      [0, 400, 0],
+    ]
+  );
+  assert.equal(range.over_day_count, 1);
+  assert.deepEqual(plain(range.days[0].items.map((item) => item.item_id)), ["a", "c"]);
+  assert.equal(range.weeks.length, 1);
+  assert.equal(range.weeks[0].capacity_minutes, 1440);
+  assert.equal(range.weeks[0].load_minutes, 1380);
+});
+
+test("skips days off, puts overdue work on today and keeps undated work apart", () => {
+  // Friday 6 March to Monday 9 March 2026, seen on the Friday.
+  const [range] = buildCapacityRange({
+    dayStarts: days(3, 6, 4),
+    now: at(3, 6, 8),
+    users: [user(normalizeWeekdayMinutes([[5, 240]]))],
+    blocks: [],
+    tasks: [
+      { user_id: "u1", item_id: "a", title: "Weekend", unscheduled_minutes: 300, due_at: at(3, 8, 12) },
+      { user_id: "u1", item_id: "b", title: "Late", unscheduled_minutes: 60, due_at: at(3, 1, 12) },
+      { user_id: "u1", item_id: "c", title: "Someday", unscheduled_minutes: 90, due_at: null },
+    ],
+  });
+  assert.deepEqual(
+    plain(range.days.map((day) => [day.capacity_minutes, day.estimated_minutes])),
+    [
+      [240, 360],
+      [0, 0],
+      [0, 0],
+      [480, 0],
+    ]
+  );
+  assert.equal(range.undated_minutes, 90);
+  assert.deepEqual(
+    plain(range.weeks.map((week) => [week.week_start, week.over_minutes])),
+    [
+      [at(3, 2), 120],
+      [at(3, 9), 0],
+    ]
+  );
+});
+
+test("a day off has no capacity and takes no spread estimates", () => {
+  // Monday 2 March to Wednesday 4 March 2026, with the Tuesday off.
+  const [range] = buildCapacityRange({
+    dayStarts: days(3, 2, 3),
+    now: at(3, 2, 9),
+    users: [user()],
+    blocks: [],
+    tasks: [
+      { user_id: "u1", item_id: "a", title: "Build", unscheduled_minutes: 600, due_at: at(3, 4, 15) },
+    ],
+    isDayOff: (userId, dayStart) => userId === "u1" && dayStart === at(3, 3),
+  });
+  assert.deepEqual(
+    plain(range.days.map((day) => [day.capacity_minutes, day.estimated_minutes])),
+    [
+      [480, 300],
+      [0, 0],
+      [480, 300],
+    ]
+  );
+});
@@ -0,0 +1,54 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(new URL("../src/sync/hlc.ts", import.meta.url), "utf8");
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, {
+  module: moduleShim,
+  exports: moduleShim.exports,
+});
+
+const { compareHlc, formatHlc, parseHlc, receiveHlc, tickHlc } = moduleShim.exports;
+
+test("tickHlc moves with the wall clock and counts within a milli", () => {
+  const first = tickHlc(null, 1000, "a");
+  assert.deepEqual({ ...parseHlc(first) }, { wall: 1000, counter: 0, node: "a" });
+  const second = tickHlc(first, 1000, "a");
+  assert.equal(parseHlc(second).counter, 1);
+  // A clock that stepped backwards keeps the previous wall time.
+  const third = tickHlc(second, 900, "a");
+  assert.deepEqual({ ...parseHlc(third) }, { wall: 1000, counter: 2, node: "a" });
+  assert.equal(compareHlc(first, second), -1);
+  assert.equal(compareHlc(second, third), -1);
+  assert.equal(tickHlc(third, 1001, "a"), formatHlc({ wall: 1001, counter: 0, node: "a" }));
+});
+
+test("receiveHlc orders the next stamp after the remote one", () => {
+  const remote = formatHlc({ wall: 5000, counter: 3, node: "b" });
+  const merged = receiveHlc(tickHlc(null, 1000, "a"), remote, 1200, "a");
+  assert.deepEqual({ ...parseHlc(merged) }, { wall: 5000, counter: 4, node: "a" });
+  assert.equal(compareHlc(remote, merged), -1);
+
+  const same = receiveHlc(formatHlc({ wall: 5000, counter: 7, node: "a" }), remote, 10, "a");
+  assert.equal(parseHlc(same).counter, 8);
+  assert.equal(parseHlc(receiveHlc(null, remote, 9000, "a")).counter, 0);
+  assert.equal(parseHlc(receiveHlc(null, "garbage", 9000, "a")).wall, 9000);
+});
+
+test("equal wall and counter fall back to the node id", () => {
+  const a = formatHlc({ wall: 1, counter: 0, node: "a" });
+  const b = formatHlc({ wall: 1, counter: 0, node: "b" });
+  assert.equal(compareHlc(a, b), -1);
+  assert.equal(compareHlc(b, b), 0);
+  assert.equal(parseHlc("1-2-x"), null);
+});
@@ -0,0 +1,131 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(new URL("../src/db-worker/ics.ts", import.meta.url), "utf8");
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, {
+  module: moduleShim,
+  exports: moduleShim.exports,
+  Date,
+});
+
+const { buildIcsCalendar, escapeIcsText, foldIcsLine, parseIcsEvents } =
+  moduleShim.exports;
+
+test("escapeIcsText escapes separators and newlines", () => {
+  assert.equal(escapeIcsText("a,b;c\\d\nnext"), "a\\,b\\;c\\\\d\\nnext");
+});
+
+test("foldIcsLine keeps lines within 75 octets", () => {
+  const folded = foldIcsLine(`SUMMARY:${"é".repeat(60)}`);
+  const lines = folded.split("\r\n");
+  assert.ok(lines.length > 1);
+  for (const line of lines) {
+    assert.ok(Buffer.byteLength(line, "utf8") <= 75);
+  }
+  const unfolded = lines
+    .map((line, index) => (index === 0 ? line : line.slice(1)))
+    .join("");
+  assert.equal(unfolded, `SUMMARY:${"é".repeat(60)}`);
+});
+
+test("buildIcsCalendar serializes timed and all-day events", () => {
+  const start = Date.UTC(2030, 0, 7, 9, 0, 0);
+  const content = buildIcsCalendar(
+    [
+      {
+        uid: "block-b1@makewhen",
+        start_at: start,
+        end_at: start + 90 * 60000,
+        all_day: false,
+        summary: "Weekly review",
+        description: "Agenda, notes",
+        url: "https://example.test/item/i1",
+        rrule: "FREQ=WEEKLY;BYDAY=MO",
+        updated_at: start,
+      },
+      {
+        uid: "due-i1@makewhen",
+        start_at: new Date(2030, 0, 8).getTime(),
+        end_at: new Date(2030, 0, 9).getTime(),
+        all_day: true,
+        summary: "Due: Weekly review",
+        description: null,
+        url: null,
+        rrule: null,
+        updated_at: start,
+      },
+    ],
+    { name: "MakeWhen", now: start }
+  );
+  const lines = content.split("\r\n");
+  assert.equal(lines[0], "BEGIN:VCALENDAR");
+  assert.ok(content.endsWith("END:VCALENDAR\r\n"));
+  assert.ok(lines.includes("DTSTART:20300107T090000Z"));
+  assert.ok(lines.includes("DTEND:20300107T103000Z"));
+  assert.ok(lines.includes("RRULE:FREQ=WEEKLY;BYDAY=MO"));
+  assert.ok(lines.includes("DESCRIPTION:Agenda\\, notes"));
+  assert.ok(lines.includes("DTSTART;VALUE=DATE:20300108"));
+  assert.ok(lines.includes("DTEND;VALUE=DATE:20300109"));
+  assert.equal(lines.filter((line) => line === "BEGIN:VEVENT").length, 2);
+});
+
+test("parseIcsEvents reads UTC, zoned, all-day and duration events", () => {
+  const content = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "UID:standup@example",
+    "DTSTART:20300107T090000Z",
+    "DTEND:20300107T091500Z",
+    "RRULE:FREQ=WEEKLY;BYDAY=MO,TU",
+    "SUMMARY:Stand-up\\, daily",
+    "BEGIN:VALARM",
+    "TRIGGER:-PT5M",
+    "END:VALARM",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:zoned@example",
+    "DTSTART;TZID=America/New_York:20300107T090000",
+    "DURATION:PT1H30M",
+    "SUMMARY:Long meeting title that is folded across two",
+    "  content lines",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:offsite@example",
+    "DTSTART;VALUE=DATE:20300110",
+    "STATUS:CANCELLED",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "SUMMARY:No uid",
+    "DTSTART:20300107T090000Z",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+  const { events, errors } = parseIcsEvents(content);
+  assert.equal(events.length, 3);
+  assert.equal(errors.length, 1);
+
+  const [standup, zoned, offsite] = events;
+  assert.equal(standup.start_at, Date.UTC(2030, 0, 7, 9, 0, 0));
+  assert.equal(standup.end_at - standup.start_at, 15 * 60000);
+  assert.equal(standup.rrule, "FREQ=WEEKLY;BYDAY=MO,TU");
+  assert.equal(standup.summary, "Stand-up, daily");
+
+  assert.equal(zoned.start_at, Date.UTC(2030, 0, 7, 14, 0, 0));
+  assert.equal(zoned.end_at - zoned.start_at, 90 * 60000);
+  assert.equal(zoned.summary, "Long meeting title that is folded across two content lines");
+
+  assert.equal(offsite.all_day, true);
+  assert.equal(offsite.cancelled, true);
+  assert.equal(offsite.start_at, new Date(2030, 0, 10).getTime());
+});
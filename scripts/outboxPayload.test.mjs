@@ -0,0 +1,81 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+// Loads a TypeScript module and the relative modules it imports.
+const load = (url) => {
+  const source = readFileSync(url, "utf8");
+  const output = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+  }).outputText;
+  const moduleShim = { exports: {} };
+  runInNewContext(output, {
+    module: moduleShim,
+    exports: moduleShim.exports,
+    require: (specifier) => load(new URL(specifier, url)),
+  });
+  return moduleShim.exports;
+};
+
+const { deriveOutboxPayload, setStatusArgs } = load(new URL("../src/sync/outboxPayload.ts", import.meta.url));
+const { isConflictRejectCode } = load(new URL("../src/sync/syncTypes.ts", import.meta.url));
+const { validateRegisteredOpPayload } = load(
+  new URL("../apps/sync-server/src/sync/opValidation.ts", import.meta.url)
+);
+
+const pushed = (opName, args, result) => {
+  const payload = deriveOutboxPayload(opName, args, { ok: true, result });
+  return { payload, validation: validateRegisteredOpPayload(opName, payload) };
+};
+
+test("item creation and status changes from the UI pass the server validators", () => {
+  // AddItemForm's create_item args; the worker answers with the id and root.
+  const created = pushed(
+    "create_item",
+    { type: "task", title: "Draft", parent_id: "p1", due_at: null, estimate_minutes: 30 },
+    { id: "t1", project_id: "p1" }
+  );
+  assert.equal(created.validation.ok, true);
+  assert.equal(created.payload.id, "t1");
+  assert.equal(created.payload.project_id, "p1");
+
+  // itemActions.setStatus and AddItemForm send `{ id, status }`.
+  const status = pushed("set_status", { id: "t1", status: "done" }, { id: "t1" });
+  assert.equal(status.validation.ok, true);
+  assert.equal(status.payload.id, "t1");
+  assert.equal(status.payload.item_id, "t1");
+
+  const bare = deriveOutboxPayload("create_item", { type: "task", title: "x" }, { ok: false });
+  assert.equal(validateRegisteredOpPayload("create_item", bare).ok, false);
+});
+
+test("only conflict rejects roll a change back", () => {
+  assert.equal(isConflictRejectCode("insufficient_role"), true);
+  assert.equal(isConflictRejectCode("cross_team_access"), true);
+  assert.equal(isConflictRejectCode("validation_failed"), false);
+  assert.equal(isConflictRejectCode("unknown_op"), false);
+  assert.equal(isConflictRejectCode(null), false);
+});
+
+test("undoing a status change pushes a set_status the server accepts", () => {
+  const inverse = setStatusArgs("t1", "todo", { override: true });
+  assert.equal(inverse.id, "t1");
+  assert.equal(inverse.item_id, "t1");
+  assert.equal(validateRegisteredOpPayload("set_status", inverse).ok, true);
+  const payload = deriveOutboxPayload("set_status", inverse, { ok: true, result: { id: "t1" } });
+  assert.equal(validateRegisteredOpPayload("set_status", payload).ok, true);
+  assert.equal(payload.override, true);
+});
+
+test("the client and the server share the same setting keys", () => {
+  const client = load(new URL("../src/sync/sharedSettings.ts", import.meta.url));
+  const server = load(new URL("../apps/sync-server/src/sync/sharedSettings.ts", import.meta.url));
+  assert.deepEqual([...client.SHARED_SETTING_KEYS].sort(), [...server.SHARED_SETTING_KEYS].sort());
+  assert.equal(client.isSharedSettingKey("list.saved_filters"), true);
+  assert.equal(client.isSharedSettingKey("ui.theme"), false);
+});
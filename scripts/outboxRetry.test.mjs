@@ -0,0 +1,41 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(new URL("../src/sync/outboxRetry.ts", import.meta.url), "utf8");
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, {
+  module: moduleShim,
+  exports: moduleShim.exports,
+});
+
+const { nextOutboxFailure, outboxRetryDelayMs } = moduleShim.exports;
+
+test("outboxRetryDelayMs doubles per attempt with jitter up to the cap", () => {
+  assert.equal(outboxRetryDelayMs(1, () => 0), 1000);
+  assert.equal(outboxRetryDelayMs(1, () => 1), 2000);
+  assert.equal(outboxRetryDelayMs(4, () => 0.5), 12000);
+  assert.equal(outboxRetryDelayMs(30, () => 1), 900000);
+});
+
+test("nextOutboxFailure dead-letters only permanent errors", () => {
+  assert.equal(
+    JSON.stringify(nextOutboxFailure(0, false, 10_000, () => 1)),
+    JSON.stringify({ status: "failed", attempt_count: 1, next_retry_at: 12_000 })
+  );
+  assert.equal(nextOutboxFailure(0, true, 10_000).status, "dead");
+  // Hours offline: every attempt still comes back for another try.
+  const longOffline = nextOutboxFailure(200, false, 0, () => 1);
+  assert.equal(longOffline.status, "failed");
+  assert.equal(longOffline.attempt_count, 201);
+  assert.equal(longOffline.next_retry_at, 900000);
+});
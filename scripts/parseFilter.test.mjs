@@ -0,0 +1,72 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(new URL("../src/cli/parseFilter.ts", import.meta.url), "utf8");
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, {
+  module: moduleShim,
+  exports: moduleShim.exports,
+  Date,
+});
+
+const { parseFilter } = moduleShim.exports;
+
+const clausesOf = (input) => {
+  const result = parseFilter(input);
+  assert.equal(result.ok, true, result.error?.message);
+  return JSON.parse(JSON.stringify(result.value.clauses));
+};
+
+test("parseFilter reads the documented example", () => {
+  assert.deepEqual(
+    clausesOf("status:ready,in_progress assignee:me due:<7d tag:design is:blocked -tag:later"),
+    [
+      { kind: "status", values: ["ready", "in_progress"], negated: false },
+      { kind: "assignee", values: ["me"], negated: false },
+      { kind: "due", op: "<", value: { kind: "days", offset: 7 }, negated: false },
+      { kind: "tag", values: ["design"], negated: false },
+      { kind: "is", value: "blocked", negated: false },
+      { kind: "tag", values: ["later"], negated: true },
+    ]
+  );
+});
+
+test("parseFilter handles dates, priorities and quoted text", () => {
+  assert.deepEqual(
+    clausesOf('due:>=2030-01-07 pri:>2 due:none "launch plan" -due:12h'),
+    [
+      {
+        kind: "due",
+        op: ">=",
+        value: { kind: "date", at: new Date(2030, 0, 7).getTime() },
+        negated: false,
+      },
+      { kind: "priority", op: ">", value: 2, negated: false },
+      { kind: "due_none", negated: false },
+      { kind: "text", value: "launch plan", negated: false },
+      { kind: "due", op: "=", value: { kind: "hours", offset: 12 }, negated: true },
+    ]
+  );
+  assert.deepEqual(clausesOf("due:tomorrow due:2w"), [
+    { kind: "due", op: "=", value: { kind: "days", offset: 1 }, negated: false },
+    { kind: "due", op: "=", value: { kind: "days", offset: 14 }, negated: false },
+  ]);
+});
+
+test("parseFilter rejects unknown keys and values", () => {
+  assert.equal(parseFilter("owner:me").error.message, "Unknown filter key: owner");
+  assert.equal(parseFilter("status:later").error.message, "Invalid status value: later");
+  assert.equal(parseFilter("is:urgent").ok, false);
+  assert.equal(parseFilter("due:soon").ok, false);
+  assert.equal(parseFilter('"unclosed').error.message, "Unclosed quote");
+});
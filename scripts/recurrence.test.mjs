@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(
+  new URL("../src/db-worker/recurrence.ts", import.meta.url),
+  "utf8"
+);
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, {
+  module: moduleShim,
+  exports: moduleShim.exports,
+  Date,
+});
+
+const {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  expandOccurrences,
+  nextOccurrenceAfter,
+  advanceRecurrenceRule,
+} = moduleShim.exports;
+
+const at = (month, day, hour = 9) =>
+  new Date(2030, month, day, hour, 0, 0, 0).getTime();
+
+test("weekly BYDAY expands Monday/Wednesday occurrences", () => {
+  // 2030-01-07 is a Monday.
+  const rule = parseRecurrenceRule("FREQ=WEEKLY;BYDAY=MO,WE");
+  const occurrences = expandOccurrences(rule, at(0, 7), at(0, 1), at(0, 21));
+  assert.deepEqual(Array.from(occurrences), [
+    at(0, 7),
+    at(0, 9),
+    at(0, 14),
+    at(0, 16),
+  ]);
+});
+
+test("COUNT includes the anchor and stops the series", () => {
+  const rule = parseRecurrenceRule("FREQ=DAILY;INTERVAL=2;COUNT=3");
+  const occurrences = expandOccurrences(rule, at(0, 1), at(0, 1), at(1, 1));
+  assert.deepEqual(Array.from(occurrences), [at(0, 1), at(0, 3), at(0, 5)]);
+  assert.equal(advanceRecurrenceRule(rule).count, 2);
+  assert.equal(
+    nextOccurrenceAfter(parseRecurrenceRule("FREQ=DAILY;COUNT=1"), at(0, 1)),
+    null
+  );
+});
+
+test("monthly ordinal BYDAY picks the last Friday", () => {
+  const rule = parseRecurrenceRule("FREQ=MONTHLY;BYDAY=-1FR");
+  // 2030-01-25 is the last Friday of January.
+  assert.equal(nextOccurrenceAfter(rule, at(0, 25)), at(1, 22));
+});
+
+test("UNTIL bounds the series and rules round-trip", () => {
+  const rule = parseRecurrenceRule("FREQ=WEEKLY;UNTIL=20300115");
+  const occurrences = expandOccurrences(rule, at(0, 1), at(0, 1), at(2, 1));
+  assert.deepEqual(Array.from(occurrences), [at(0, 1), at(0, 8), at(0, 15)]);
+  assert.equal(
+    formatRecurrenceRule(parseRecurrenceRule("rrule:freq=monthly;interval=2")),
+    "FREQ=MONTHLY;INTERVAL=2"
+  );
+  assert.throws(() => parseRecurrenceRule("FREQ=WEEKLY;BYDAY=2MO"));
+  assert.throws(() => parseRecurrenceRule("FREQ=DAILY;COUNT=2;UNTIL=20300101"));
+});
@@ -1,6 +1,7 @@
 import assert from "node:assert/strict";
 import { describe, it } from "node:test";
 import {
+  computeCriticalPath,
   computeSlackMinutes,
   deriveDurationMinutesFromEnd,
   deriveEndAtFromDuration,
@@ -63,4 +64,48 @@ describe("schedule math", () => {
     });
     assert.equal(status, "unknown");
   });
+
+  it("computes early/late dates and float along a dependency chain", () => {
+    const hour = 60 * 60000;
+    const result = computeCriticalPath(
+      [
+        { id: "a", start: 0, end: 2 * hour },
+        { id: "b", start: 2 * hour, end: 5 * hour },
+        { id: "c", start: 2 * hour, end: 3 * hour },
+        { id: "unplanned", start: null, end: null },
+      ],
+      [
+        { predecessorId: "a", successorId: "b", type: "FS", lagMinutes: 0 },
+        { predecessorId: "a", successorId: "c", type: "FS", lagMinutes: 60 },
+      ]
+    );
+    assert.equal(result.get("a").isCritical, true);
+    assert.equal(result.get("b").isCritical, true);
+    assert.equal(result.get("b").earlyFinish, 5 * hour);
+    assert.equal(result.get("c").earlyStart, 3 * hour);
+    assert.equal(result.get("c").lateStart, 4 * hour);
+    assert.equal(result.get("c").totalFloatMinutes, 60);
+    assert.equal(result.get("c").freeFloatMinutes, 60);
+    assert.equal(result.get("c").isCritical, false);
+    assert.equal(result.has("unplanned"), false);
+  });
+
+  it("measures float against each project's own finish", () => {
+    const hour = 60 * 60000;
+    const result = computeCriticalPath(
+      [
+        { id: "short", start: 0, end: 2 * hour, projectId: "p1" },
+        { id: "long_a", start: 0, end: 4 * hour, projectId: "p2" },
+        { id: "long_b", start: 4 * hour, end: 8 * hour, projectId: "p2" },
+        { id: "side", start: 0, end: 1 * hour, projectId: "p2" },
+      ],
+      [{ predecessorId: "long_a", successorId: "long_b", type: "FS", lagMinutes: 0 }]
+    );
+    // p2 ending later does not give p1's only task float.
+    assert.equal(result.get("short").isCritical, true);
+    assert.equal(result.get("short").lateFinish, 2 * hour);
+    assert.equal(result.get("long_a").isCritical, true);
+    assert.equal(result.get("long_b").isCritical, true);
+    assert.equal(result.get("side").totalFloatMinutes, 7 * 60);
+  });
 });
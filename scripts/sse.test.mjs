@@ -0,0 +1,45 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(new URL("../src/sync/sse.ts", import.meta.url), "utf8");
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, {
+  module: moduleShim,
+  exports: moduleShim.exports,
+});
+
+const { createSseParser, reconnectDelayMs } = moduleShim.exports;
+
+test("createSseParser dispatches events split across chunks", () => {
+  const messages = [];
+  const retries = [];
+  const parser = createSseParser(
+    (message) => messages.push({ ...message }),
+    (retryMs) => retries.push(retryMs)
+  );
+  parser.push("retry: 3000\n\n: keep-alive\n\nevent: seq\nda");
+  parser.push('ta: {"latest_seq":4}\r');
+  parser.push("\n\r\ndata: a\ndata:b\nid: 9\n\n");
+  assert.deepEqual(retries, [3000]);
+  assert.deepEqual(messages, [
+    { event: "seq", data: '{"latest_seq":4}', id: null },
+    { event: "message", data: "a\nb", id: "9" },
+  ]);
+});
+
+test("reconnectDelayMs grows exponentially up to the cap", () => {
+  assert.equal(reconnectDelayMs(0, () => 0), 500);
+  assert.equal(reconnectDelayMs(0, () => 1), 1000);
+  assert.equal(reconnectDelayMs(3, () => 0.5), 6000);
+  assert.equal(reconnectDelayMs(20, () => 1), 30000);
+});
@@ -0,0 +1,158 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(new URL("../src/rpc/tabCoordinator.ts", import.meta.url), "utf8");
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, {
+  module: moduleShim,
+  exports: moduleShim.exports,
+  crypto,
+  setTimeout,
+  clearTimeout,
+  setInterval,
+  clearInterval,
+});
+
+const { createTabCoordinator, TAB_INVALIDATE_EVENT } = moduleShim.exports;
+
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Delivers to every other channel asynchronously, like BroadcastChannel.
+const createBus = () => {
+  const channels = new Set();
+  return () => {
+    const listeners = [];
+    const channel = {
+      postMessage: (message) => {
+        const data = structuredClone(message);
+        for (const other of channels) {
+          if (other !== channel) {
+            setTimeout(() => other.listeners.forEach((listener) => listener({ data })), 0);
+          }
+        }
+      },
+      addEventListener: (_type, listener) => listeners.push(listener),
+      listeners,
+      detach: () => channels.delete(channel),
+    };
+    channels.add(channel);
+    return channel;
+  };
+};
+
+const createLocks = () => {
+  const queue = [];
+  let holder = null;
+  const grant = () => {
+    if (holder === null && queue.length > 0) {
+      holder = queue.shift();
+      void holder.callback();
+    }
+  };
+  return {
+    forTab: (tabId) => ({
+      request: (_name, callback) => {
+        queue.push({ tabId, callback });
+        grant();
+        return new Promise(() => {});
+      },
+    }),
+    release: (tabId) => {
+      if (holder?.tabId === tabId) {
+        holder = null;
+        grant();
+      }
+    },
+  };
+};
+
+const createFakeWorker = (label, log) => () => ({
+  request: async (method, params) => {
+    log.push({ worker: label, method, params });
+    if (method === "mutate") {
+      return { ok: true, result: { id: "x" }, invalidate: ["items"] };
+    }
+    return { ok: true, result: { worker: label } };
+  },
+  onEvent: () => () => {},
+  terminate: () => {},
+});
+
+test("followers proxy RPCs to the lock holder and receive its invalidations", async () => {
+  const openChannel = createBus();
+  const locks = createLocks();
+  const log = [];
+  const leader = createTabCoordinator({
+    connectWorker: createFakeWorker("a", log),
+    channel: openChannel(),
+    locks: locks.forTab("a"),
+    tabId: "a",
+  });
+  const follower = createTabCoordinator({
+    connectWorker: createFakeWorker("b", log),
+    channel: openChannel(),
+    locks: locks.forTab("b"),
+    tabId: "b",
+  });
+  await wait(20);
+  assert.equal(leader.getRole(), "leader");
+  assert.equal(follower.getRole(), "follower");
+
+  const leaderEvents = [];
+  const followerEvents = [];
+  leader.onEvent((event) => leaderEvents.push(event.name));
+  follower.onEvent((event) => followerEvents.push(event.name));
+
+  const queried = await follower.request("query", { name: "listItems" });
+  assert.deepEqual(queried, { ok: true, result: { worker: "a" } });
+  await follower.request("mutate", { op_name: "create_item" });
+  await wait(20);
+  assert.deepEqual(
+    log.map((entry) => entry.worker),
+    ["a", "a"]
+  );
+  assert.deepEqual(leaderEvents, [TAB_INVALIDATE_EVENT]);
+  assert.deepEqual(followerEvents, []);
+});
+
+test("the next tab takes over when the leader releases the lock", async () => {
+  const openChannel = createBus();
+  const locks = createLocks();
+  const log = [];
+  const firstChannel = openChannel();
+  const first = createTabCoordinator({
+    connectWorker: createFakeWorker("a", log),
+    channel: firstChannel,
+    locks: locks.forTab("a"),
+    tabId: "a",
+  });
+  const second = createTabCoordinator({
+    connectWorker: createFakeWorker("b", log),
+    channel: openChannel(),
+    locks: locks.forTab("b"),
+    tabId: "b",
+  });
+  await wait(20);
+  assert.equal(first.getRole(), "leader");
+
+  // The first tab goes away mid-request.
+  firstChannel.detach();
+  const pendingQuery = second.request("query", { name: "listItems" });
+  const pendingMutate = second.request("mutate", { op_name: "create_item" });
+  await wait(20);
+  locks.release("a");
+
+  assert.deepEqual(await pendingQuery, { ok: true, result: { worker: "b" } });
+  await assert.rejects(pendingMutate, /closed/);
+  assert.equal(second.getRole(), "leader");
+});
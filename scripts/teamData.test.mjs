@@ -0,0 +1,301 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+// Runs the real worker against an in-memory database: sqlite-wasm's browser
+// build fetches its .wasm by file URL, and OPFS is swapped for `:memory:`.
+const sqliteUrl = new URL("../node_modules/@sqlite.org/sqlite-wasm/index.mjs", import.meta.url);
+const nodeFetch = globalThis.fetch;
+globalThis.fetch = async (input, init) =>
+  String(input).startsWith("file:")
+    ? new Response(readFileSync(new URL(String(input))), {
+        headers: { "content-type": "application/wasm" },
+      })
+    : nodeFetch(input, init);
+const sqlite3 = await (await import(sqliteUrl)).default({ print: () => {}, printErr: () => {} });
+globalThis.fetch = nodeFetch;
+
+const sqliteModule = {
+  __esModule: true,
+  default: async () => ({
+    ...sqlite3,
+    installOpfsSAHPoolVfs: async () => ({
+      OpfsSAHPoolDb: function OpfsSAHPoolDb() {
+        return new sqlite3.oo1.DB(":memory:");
+      },
+    }),
+  }),
+};
+
+// The sync server the worker talks to in remote mode. It acks every push and
+// hands out one snapshot; pulls never return ops, so a rebuild's rows come
+// from the snapshot alone.
+const server = { seq: 0, snapshot: null };
+const serverFetch = async (input, init) => {
+  const url = new URL(String(input));
+  const json = (body) =>
+    new Response(JSON.stringify(body), { headers: { "content-type": "application/json" } });
+  if (url.pathname === "/sync/push") {
+    const { ops } = JSON.parse(init.body);
+    return json({
+      acked: ops.map((op) => ({ op_id: op.op_id, server_seq: (server.seq += 1) })),
+      rejected: [],
+    });
+  }
+  if (url.pathname === "/sync/pull") {
+    return json({ ops: [], latest_seq: server.seq, through_seq: server.seq });
+  }
+  if (url.pathname === "/sync/snapshot") {
+    return json({ snapshot: server.snapshot });
+  }
+  return new Response("{}", { status: 404 });
+};
+
+let onMessage = null;
+const replies = new Map();
+const self = {
+  addEventListener: (_type, listener) => {
+    onMessage = listener;
+  },
+  postMessage: (message) => {
+    if (message.kind === "response") {
+      replies.get(message.id)?.(message);
+    }
+  },
+};
+
+// Loads a TypeScript module and the modules it imports, like the other tests,
+// plus `?raw` SQL and extensionless paths as Vite resolves them.
+const loaded = new Map();
+const load = (url) => {
+  const href = String(url);
+  if (href.endsWith("?raw")) {
+    return { __esModule: true, default: readFileSync(new URL(href.slice(0, -4)), "utf8") };
+  }
+  const file = ["", ".ts", ".tsx", ".js"]
+    .map((ext) => new URL(href + ext))
+    .find((candidate) => existsSync(candidate) && !candidate.pathname.endsWith("/"));
+  if (loaded.has(file.href)) {
+    return loaded.get(file.href).exports;
+  }
+  const output = ts
+    .transpileModule(readFileSync(file, "utf8"), {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+      },
+    })
+    .outputText.replace(/\bimport\.meta\b/g, "importMeta");
+  const moduleShim = { exports: {} };
+  loaded.set(file.href, moduleShim);
+  runInNewContext(output, {
+    module: moduleShim,
+    exports: moduleShim.exports,
+    importMeta: {
+      env: { VITE_SYNC_MODE: "remote", VITE_SYNC_REMOTE_BASE_URL: "http://sync.test" },
+    },
+    self,
+    console,
+    crypto,
+    fetch: serverFetch,
+    setTimeout,
+    clearTimeout,
+    URL,
+    URLSearchParams,
+    TextEncoder,
+    TextDecoder,
+    structuredClone,
+    require: (specifier) =>
+      specifier === "@sqlite.org/sqlite-wasm" ? sqliteModule : load(new URL(specifier, file)),
+  });
+  return moduleShim.exports;
+};
+
+load(new URL("../src/db-worker/worker.ts", import.meta.url));
+
+let requestCount = 0;
+const request = (method, params) =>
+  new Promise((resolve) => {
+    const id = String((requestCount += 1));
+    replies.set(id, resolve);
+    onMessage({ data: { kind: "request", id, method, params } });
+  });
+
+const query = async (name, args) => {
+  const response = await request("query", { name, args });
+  assert.equal(response.ok, true, response.error);
+  assert.equal(response.result.ok, true, JSON.stringify(response.result.error));
+  return response.result.result;
+};
+
+const mutate = async (opName, args) => {
+  const response = await request("mutate", {
+    op_id: crypto.randomUUID(),
+    op_name: opName,
+    actor_type: "user",
+    ts: Date.now(),
+    args,
+  });
+  assert.equal(response.ok, true, response.error);
+  assert.equal(response.result.ok, true, JSON.stringify(response.result.error));
+  return response.result.result;
+};
+
+// Plain, order-independent copies: rows come back in table order, and from
+// the worker's realm.
+const normalize = (rows) =>
+  JSON.parse(JSON.stringify(rows))
+    .map((row) => JSON.stringify(row))
+    .sort();
+
+const emptyTables = (payload) =>
+  Object.fromEntries(
+    Object.entries(payload)
+      .filter(([, rows]) => Array.isArray(rows))
+      .map(([table]) => [table, []])
+  );
+
+const DAY = 24 * 60 * 60 * 1000;
+const T0 = Date.UTC(2026, 2, 2, 9);
+
+const teamFixture = (me) => ({
+  items: [
+    {
+      id: "p1", type: "project", title: "Launch", parent_id: null, status: "in_progress",
+      priority: 1, due_at: T0 + 20 * DAY, estimate_mode: "rollup", estimate_minutes: 0,
+      health: "on_track", health_mode: "auto", notes: "Q2", created_at: T0, updated_at: T0,
+      archived_at: null, recurrence_rule: null, recurrence_series_id: null,
+      completed_at: null, sort_order: 0,
+    },
+    {
+      id: "t1", type: "task", title: "Draft", parent_id: "p1", status: "done",
+      priority: 2, due_at: T0 + 2 * DAY, estimate_mode: "manual", estimate_minutes: 90,
+      health: "unknown", health_mode: "auto", notes: null, created_at: T0, updated_at: T0 + DAY,
+      archived_at: null, recurrence_rule: null, recurrence_series_id: null,
+      completed_at: T0 + DAY, sort_order: 2,
+    },
+    {
+      id: "t2", type: "task", title: "Review", parent_id: "p1", status: "ready",
+      priority: 0, due_at: null, estimate_mode: "manual", estimate_minutes: 30,
+      health: "unknown", health_mode: "auto", notes: null, created_at: T0, updated_at: T0,
+      archived_at: null, recurrence_rule: "FREQ=WEEKLY;BYDAY=MO", recurrence_series_id: "t2",
+      completed_at: null, sort_order: 1,
+    },
+  ],
+  dependencies: [{ item_id: "t2", depends_on_id: "t1", type: "FS", lag_minutes: 60 }],
+  blockers: [
+    { blocker_id: "b1", item_id: "t2", kind: "general", text: "Waiting on legal", created_at: T0, cleared_at: null },
+  ],
+  scheduled_blocks: [
+    { block_id: "s1", item_id: "t1", start_at: T0, duration_minutes: 90, locked: 1, source: "manual", recurrence_rule: null },
+  ],
+  time_entries: [
+    { entry_id: "e1", item_id: "t1", start_at: T0, end_at: T0 + 45 * 60000, duration_minutes: 45, note: "first pass", source: "timer", user_id: me },
+  ],
+  running_timers: [{ item_id: "t2", start_at: T0 + DAY, note: null }],
+  item_tags: [{ item_id: "t1", tag: "writing" }],
+  item_assignees: [{ item_id: "t1", assignee_id: "user_sam" }],
+  project_members: [{ project_id: "p1", user_id: "user_sam", role: "editor" }],
+  user_capacity: [{ user_id: "user_sam", weekday: 1, capacity_minutes: 240 }],
+  working_calendar: {
+    working_weekdays: [false, true, true, true, true, true, false],
+    holidays: [{ holiday_id: "h1", day: "2026-12-25", name: "Christmas" }],
+    time_off: [{ time_off_id: "o1", user_id: "user_sam", start_day: "2026-03-09", end_day: "2026-03-10", note: null }],
+  },
+  saved_views: [
+    {
+      view_id: "v1", name: "Sam's week", view_type: "calendar",
+      scope: { kind: "user", userId: "user_sam" }, state: {},
+      created_by: me, created_at: T0, updated_at: T0,
+    },
+  ],
+  busy_blocks: [
+    { user_id: "user_sam", source_calendar: "work.ics", uid: "evt-1", title: "Standup", start_at: T0, duration_minutes: 15, all_day: 0, recurrence_rule: "FREQ=DAILY", imported_at: T0 },
+  ],
+  user_time_zones: [
+    { user_id: me, time_zone: null },
+    { user_id: "user_sam", time_zone: "Europe/Berlin" },
+  ],
+  settings: [{ key: "list.saved_filters", value: [{ name: "Mine", query: "assignee:me" }] }],
+});
+
+const seedTeam = async () => {
+  const { session } = await query("auth.session.current", {});
+  await mutate("user.create", { user_id: "user_sam", display_name: "Sam" });
+  const fixture = teamFixture(session.user_id);
+  await mutate("import_data", { payload: fixture });
+  return fixture;
+};
+
+test("export_data and import_data round-trip every synced table", async () => {
+  const fixture = await seedTeam();
+
+
+  await mutate("import_data", { payload: fixture });
+  const exported = await mutate("export_data", {});
+  // Wiping the team in between proves the second import restores the rows
+  // rather than leaving the first import's behind.
+  await mutate("import_data", { payload: { ...fixture, ...emptyTables(fixture) } });
+  assert.equal((await mutate("export_data", {})).items.length, 0);
+  await mutate("import_data", { payload: exported });
+  const reexported = await mutate("export_data", {});
+
+  for (const [table, rows] of Object.entries(fixture)) {
+    if (table === "settings") {
+      continue;
+    }
+    if (table === "saved_views") {
+      // The worker fills in state defaults; the rest comes back as given.
+      const view = JSON.parse(JSON.stringify(exported.saved_views[0]));
+      const { state: _state, ...rest } = view;
+      const { state: _given, ...expected } = rows[0];
+      assert.deepEqual(rest, expected);
+    } else if (table === "working_calendar") {
+      assert.deepEqual(JSON.parse(JSON.stringify(exported[table])), rows, table);
+    } else {
+      assert.deepEqual(normalize(exported[table]), normalize(rows), table);
+    }
+    assert.deepEqual(
+      JSON.parse(JSON.stringify(reexported[table])),
+      JSON.parse(JSON.stringify(exported[table])),
+      `${table} after re-import`
+    );
+  }
+  const savedFilters = (rows) =>
+    JSON.stringify(rows.find((setting) => setting.key === "list.saved_filters")?.value);
+  assert.equal(savedFilters(exported.settings), savedFilters(fixture.settings));
+  assert.equal(savedFilters(reexported.settings), savedFilters(fixture.settings));
+});
+
+test("rebuilding from a snapshot keeps the saved views and busy blocks it carries", async () => {
+  const fixture = await seedTeam();
+  const { exported_at: _exportedAt, ...payload } = await mutate("export_data", {});
+  // Acked ops the snapshot covers are not replayed over it.
+  await query("sync.runOnce", {});
+  const snapshot = (snapshotPayload) => ({
+    team_id: "team_default",
+    server_seq: server.seq,
+    format_version: 1,
+    created_at: "",
+    payload: snapshotPayload,
+  });
+
+  server.snapshot = snapshot(payload);
+  await query("sync.rebuild", {});
+  let rebuilt = await mutate("export_data", {});
+  assert.deepEqual(normalize(rebuilt.busy_blocks), normalize(fixture.busy_blocks));
+  assert.deepEqual(
+    rebuilt.saved_views.map((view) => view.view_id),
+    fixture.saved_views.map((view) => view.view_id)
+  );
+
+  // A snapshot from before they were exported leaves the local rows alone.
+  const { saved_views: _views, busy_blocks: _busy, ...legacy } = payload;
+  server.snapshot = snapshot(legacy);
+  await query("sync.rebuild", {});
+  rebuilt = await mutate("export_data", {});
+  assert.equal(rebuilt.busy_blocks.length, fixture.busy_blocks.length);
+  assert.equal(rebuilt.saved_views.length, fixture.saved_views.length);
+});
@@ -0,0 +1,170 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(
+  new URL("../src/db-worker/timeReport.ts", import.meta.url),
+  "utf8"
+);
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, { module: moduleShim, exports: moduleShim.exports });
+
+const { buildTimeReport, buildTimeReportCsv, escapeCsvField, periodKey } = moduleShim.exports;
+
+// Arrays built inside the vm context have their own prototypes.
+const plain = (value) => JSON.parse(JSON.stringify(value));
+
+const at = (year, month, day, hour = 10) => new Date(year, month - 1, day, hour).getTime();
+
+const tasks = [
+  {
+    item_id: "a",
+    title: "Spec",
+    completed_at: at(2026, 3, 4),
+    estimate_minutes: 60,
+    actual_minutes: 90,
+  },
+  {
+    item_id: "b",
+    title: "Build",
+    completed_at: at(2026, 3, 12),
+    estimate_minutes: 120,
+    actual_minutes: 60,
+  },
+];
+
+test("groups logged time and completed estimates by item keys", () => {
+  const report = buildTimeReport({
+    groupBy: "tag",
+    entries: [
+      { item_id: "a", start_at: at(2026, 3, 3), duration_minutes: 30 },
+      { item_id: "b", start_at: at(2026, 3, 10), duration_minutes: 45 },
+    ],
+    tasks,
+    keysByItem: new Map([
+      ["a", [{ key: "design", label: "design" }, { key: "docs", label: "docs" }]],
+    ]),
+  });
+  const byKey = Object.fromEntries(report.groups.map((group) => [group.key, group]));
+  assert.equal(byKey.design.logged_minutes, 30);
+  assert.equal(byKey.docs.accuracy_ratio, 1.5);
+  assert.equal(byKey.docs.over_count, 1);
+  assert.equal(byKey.none.label, "Untagged");
+  assert.equal(byKey.none.under_count, 1);
+  assert.equal(report.totals.logged_minutes, 75);
+  assert.equal(report.totals.estimate_minutes, 180);
+  assert.equal(report.totals.accuracy_ratio, 0.83);
+  assert.deepEqual(
+    plain(report.tasks.map((task) => [task.item_id, task.error_minutes])),
+    [
+      ["b", -60],
+      ["a", 30],
+    ]
+  );
+});
+
+test("period groupings use local Mondays and months in order", () => {
+  assert.equal(periodKey(at(2026, 3, 8), "week").key, "2026-03-02");
+  assert.equal(periodKey(at(2026, 3, 9), "week").key, "2026-03-09");
+  assert.equal(periodKey(at(2026, 3, 31, 23), "month").key, "2026-03");
+
+  const report = buildTimeReport({
+    groupBy: "week",
+    entries: [{ item_id: "b", start_at: at(2026, 3, 10), duration_minutes: 45 }],
+    tasks,
+    keysByItem: new Map(),
+  });
+  assert.deepEqual(
+    plain(report.groups.map((group) => [group.key, group.logged_minutes, group.completed_count])),
+    [
+      ["2026-03-02", 0, 1],
+      ["2026-03-09", 45, 1],
+    ]
+  );
+});
+
+test("csv export quotes fields and leaves missing ratios empty", () => {
+  const report = buildTimeReport({
+    groupBy: "project",
+    entries: [],
+    tasks: [
+      {
+        item_id: "c",
+        title: 'Fix "login", again',
+        completed_at: at(2026, 3, 4),
+        estimate_minutes: 0,
+        actual_minutes: 15,
+      },
+    ],
+    keysByItem: new Map([["c", [{ key: "p1", label: "Web, v2" }]]]),
+  });
+  const [groups, taskTable, unestimatedTable] = buildTimeReportCsv(report).split("\r\n\r\n");
+  assert.equal(groups.split("\r\n")[1], '"Web, v2",0,1,0,0,,0,0,1');
+  assert.equal(taskTable.split("\r\n").length, 1);
+  assert.equal(unestimatedTable.split("\r\n")[1], '"Fix ""login"", again",2026-03-04,"Web, v2",15');
+});
+
+test("tasks without an estimate stay out of the accuracy figures", () => {
+  const report = buildTimeReport({
+    groupBy: "project",
+    entries: [],
+    tasks: [
+      ...tasks,
+      {
+        item_id: "u",
+        title: "Hotfix",
+        completed_at: at(2026, 3, 5),
+        estimate_minutes: 0,
+        actual_minutes: 240,
+      },
+    ],
+    keysByItem: new Map([
+      ["a", [{ key: "p1", label: "Web" }]],
+      ["u", [{ key: "p1", label: "Web" }]],
+    ]),
+  });
+  const web = report.groups.find((group) => group.key === "p1");
+  assert.equal(web.completed_count, 2);
+  assert.equal(web.unestimated_count, 1);
+  assert.equal(web.actual_minutes, 90);
+  assert.equal(web.accuracy_ratio, 1.5);
+  assert.equal(web.over_count, 1);
+  assert.equal(report.totals.completed_count, 3);
+  assert.equal(report.totals.estimate_minutes, 180);
+  assert.equal(report.totals.actual_minutes, 150);
+  assert.equal(report.totals.accuracy_ratio, 0.83);
+  assert.equal(report.totals.over_count + report.totals.under_count, 2);
+  assert.deepEqual(plain(report.tasks.map((task) => task.item_id)), ["b", "a"]);
+  assert.deepEqual(
+    plain(report.unestimated.map((task) => [task.item_id, task.actual_minutes, task.groups])),
+    [["u", 240, ["Web"]]]
+  );
+});
+
+test("csv export defuses text a spreadsheet would run as a formula", () => {
+  assert.equal(escapeCsvField("=HYPERLINK(\"http://x\")"), '"\'=HYPERLINK(""http://x"")"');
+  assert.equal(escapeCsvField("+1"), "'+1");
+  assert.equal(escapeCsvField("-rm"), "'-rm");
+  assert.equal(escapeCsvField("@SUM(A1)"), "'@SUM(A1)");
+  assert.equal(escapeCsvField(-60), "-60");
+  assert.equal(escapeCsvField("Plain"), "Plain");
+
+  const report = buildTimeReport({
+    groupBy: "project",
+    entries: [],
+    tasks: [{ ...tasks[0], title: "=1+1" }],
+    keysByItem: new Map([["a", [{ key: "p1", label: "@team" }]]]),
+  });
+  const [groups, taskTable] = buildTimeReportCsv(report).split("\r\n\r\n");
+  assert.equal(groups.split("\r\n")[1].split(",")[0], "'@team");
+  assert.equal(taskTable.split("\r\n")[1], "'=1+1,2026-03-04,'@team,60,90,30,1.5");
+});
@@ -0,0 +1,60 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+
+const source = readFileSync(new URL("../src/domain/timeZone.ts", import.meta.url), "utf8");
+const output = ts.transpileModule(source, {
+  compilerOptions: {
+    module: ts.ModuleKind.CommonJS,
+    target: ts.ScriptTarget.ES2020,
+  },
+}).outputText;
+
+const moduleShim = { exports: {} };
+runInNewContext(output, { module: moduleShim, exports: moduleShim.exports });
+
+const {
+  addZonedDays,
+  formatZonedDay,
+  isValidTimeZone,
+  parseZonedDay,
+  startOfZonedWeek,
+  zonedCalendar,
+  zonedDayDifference,
+  zonedTimeToMs,
+} = moduleShim.exports;
+
+const iso = (value) => new Date(value).toISOString();
+
+test("resolves wall-clock times around DST changes", () => {
+  // Berlin skips 02:00-03:00 on 29 March 2026 and repeats it on 25 October.
+  assert.equal(iso(zonedTimeToMs(2026, 3, 29, 1, 30, "Europe/Berlin")), "2026-03-29T00:30:00.000Z");
+  assert.equal(iso(zonedTimeToMs(2026, 3, 29, 2, 30, "Europe/Berlin")), "2026-03-29T01:30:00.000Z");
+  assert.equal(iso(zonedTimeToMs(2026, 10, 25, 2, 30, "Europe/Berlin")), "2026-10-25T00:30:00.000Z");
+  assert.equal(iso(zonedTimeToMs(2026, 7, 1, 9, 0, "America/New_York")), "2026-07-01T13:00:00.000Z");
+});
+
+test("steps days by calendar date so they stay on midnight", () => {
+  const zone = "America/New_York";
+  const saturday = parseZonedDay("2026-03-07", zone);
+  const monday = addZonedDays(saturday, 2, zone);
+  assert.equal(iso(monday), "2026-03-09T04:00:00.000Z");
+  assert.equal(monday - saturday, 47 * 3600000);
+  assert.equal(formatZonedDay(monday, "Asia/Tokyo"), "2026-03-09");
+  assert.equal(formatZonedDay(monday - 1, zone), "2026-03-08");
+  assert.equal(iso(startOfZonedWeek(saturday, zone)), "2026-03-02T05:00:00.000Z");
+  assert.equal(parseZonedDay("2026-02-30", zone), null);
+});
+
+test("the same instant falls on different days per zone", () => {
+  const instant = Date.UTC(2026, 5, 1, 23, 30);
+  assert.equal(zonedCalendar("UTC").formatDay(instant), "2026-06-01");
+  assert.equal(zonedCalendar("Pacific/Auckland").formatDay(instant), "2026-06-02");
+  assert.equal(zonedCalendar("Pacific/Auckland").weekday(instant), 2);
+  assert.equal(zonedDayDifference(instant, instant + 3600000, "UTC"), 1);
+  assert.equal(zonedDayDifference(instant, instant + 3600000, "America/Los_Angeles"), 0);
+  assert.equal(isValidTimeZone("Mars/Olympus"), false);
+  assert.equal(isValidTimeZone("Asia/Kolkata"), true);
+});
@@ -0,0 +1,85 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { runInNewContext } from "node:vm";
+import ts from "typescript";
+import { computeCriticalPath, computeSlackMinutes } from "../src/db-worker/scheduleMath.js";
+
+const load = (path) => {
+  const source = readFileSync(new URL(path, import.meta.url), "utf8");
+  const output = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+    },
+  }).outputText;
+  const moduleShim = { exports: {} };
+  runInNewContext(output, { module: moduleShim, exports: moduleShim.exports });
+  return moduleShim.exports;
+};
+
+const { zonedCalendar } = load("../src/domain/timeZone.ts");
+const { buildWorkingTime, dayOffReason, DEFAULT_WORKING_WEEKDAYS } = load(
+  "../src/domain/workingCalendar.ts"
+);
+
+const hour = 3600000;
+const at = (day, hours) => Date.parse(`${day}T00:00:00Z`) + hours * hour;
+const iso = (value) => new Date(value).toISOString();
+
+// Friday 16 October 2026, then a weekend and a Monday holiday.
+const rules = {
+  working_weekdays: [...DEFAULT_WORKING_WEEKDAYS],
+  holidays: [{ holiday_id: "h1", day: "2026-10-19", name: "Founders' Day" }],
+  time_off: [
+    { time_off_id: "t1", user_id: "u1", start_day: "2026-10-20", end_day: "2026-10-20", note: null },
+  ],
+};
+const calendar = zonedCalendar("UTC");
+const workday = { startHour: 9, endHour: 17 };
+
+test("names why a day is off, counting time off only for the users asked about", () => {
+  assert.equal(dayOffReason(rules, calendar, at("2026-10-16", 0)), null);
+  assert.equal(dayOffReason(rules, calendar, at("2026-10-17", 0)), "weekend");
+  assert.equal(dayOffReason(rules, calendar, at("2026-10-19", 0)), "holiday");
+  assert.equal(dayOffReason(rules, calendar, at("2026-10-20", 0)), null);
+  assert.equal(dayOffReason(rules, calendar, at("2026-10-20", 0), ["u1"]), "time_off");
+  assert.equal(dayOffReason(rules, calendar, at("2026-10-20", 0), ["u2", "u1"]), "time_off");
+});
+
+test("measures and adds working time across a weekend and a holiday", () => {
+  const team = buildWorkingTime({ rules, calendar, workday });
+  assert.equal(team.between(at("2026-10-16", 15), at("2026-10-20", 10)), 3 * hour);
+  assert.equal(team.between(at("2026-10-20", 10), at("2026-10-16", 15)), -3 * hour);
+  assert.equal(iso(team.add(at("2026-10-16", 15), 3 * hour)), "2026-10-20T10:00:00.000Z");
+  assert.equal(iso(team.add(at("2026-10-20", 10), -3 * hour)), "2026-10-16T15:00:00.000Z");
+  assert.equal(iso(team.nextWorkingStart(at("2026-10-17", 12))), "2026-10-20T09:00:00.000Z");
+  assert.equal(iso(team.nextWorkingStart(at("2026-10-16", 11))), "2026-10-16T11:00:00.000Z");
+
+  const member = buildWorkingTime({ rules, calendar, workday, userIds: ["u1"] });
+  assert.equal(iso(member.add(at("2026-10-16", 15), 3 * hour)), "2026-10-21T10:00:00.000Z");
+
+  const never = buildWorkingTime({
+    rules: { ...rules, working_weekdays: Array(7).fill(false) },
+    calendar,
+    workday,
+  });
+  assert.equal(never.between(at("2026-10-16", 0), at("2026-10-17", 0)), 24 * hour);
+});
+
+test("slack and floats count only working minutes", () => {
+  const team = buildWorkingTime({ rules, calendar, workday });
+  const fridayEnd = at("2026-10-16", 17);
+  const tuesdayNoon = at("2026-10-20", 12);
+  assert.equal(computeSlackMinutes(tuesdayNoon, fridayEnd), 91 * 60);
+  assert.equal(computeSlackMinutes(tuesdayNoon, fridayEnd, team), 3 * 60);
+
+  const nodes = [
+    { id: "a", start: at("2026-10-16", 15), end: fridayEnd },
+    { id: "b", start: at("2026-10-20", 9), end: tuesdayNoon },
+  ];
+  const edges = [{ predecessorId: "a", successorId: "b", type: "FS", lagMinutes: 0 }];
+  const working = computeCriticalPath(nodes, edges, team);
+  assert.equal(working.get("a").totalFloatMinutes, 0);
+  assert.equal(working.get("a").isCritical, true);
+});
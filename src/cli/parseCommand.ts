@@ -14,7 +14,14 @@ export type ParsedCommand = {
   target?: string;
   id?: string;
   openProject?: string;
-  openView?: "list" | "calendar" | "kanban" | "gantt" | "dashboard";
+  openView?:
+    | "list"
+    | "calendar"
+    | "kanban"
+    | "gantt"
+    | "dashboard"
+    | "timesheet"
+    | "reports";
   parentId?: string;
   inProject?: string;
   dueAt?: number;
@@ -54,7 +61,15 @@ const VERBS = new Set([
   "open",
 ]);
 const TYPES = new Set(["project", "milestone", "task", "subtask"]);
-const VIEW_NAMES = new Set(["list", "calendar", "kanban", "gantt", "dashboard"]);
+const VIEW_NAMES = new Set([
+  "list",
+  "calendar",
+  "kanban",
+  "gantt",
+  "dashboard",
+  "timesheet",
+  "reports",
+]);
 const KEYS = new Set([
   "title",
   "parent",
@@ -137,7 +152,7 @@ export const parseCommand = (input: string): ParseResult => {
           ok: false,
           error: {
             message:
-              "open accepts a project name and optional view (list/calendar/kanban/gantt/dashboard)",
+              "open accepts a project name and optional view (list/calendar/kanban/gantt/dashboard/timesheet/reports)",
           },
         };
       }
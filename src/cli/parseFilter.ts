@@ -0,0 +1,277 @@
+export type FilterComparison = "<" | "<=" | ">" | ">=" | "=";
+
+// `days` and `date` name a local calendar day; `hours` names an instant.
+export type FilterDateValue =
+  | { kind: "days"; offset: number }
+  | { kind: "hours"; offset: number }
+  | { kind: "date"; at: number };
+
+export type FilterIsValue =
+  | "blocked"
+  | "overdue"
+  | "scheduled"
+  | "unscheduled"
+  | "open"
+  | "closed";
+
+export type FilterClause = { negated: boolean } & (
+  | { kind: "status"; values: string[] }
+  | { kind: "type"; values: string[] }
+  | { kind: "health"; values: string[] }
+  | { kind: "assignee"; values: string[] }
+  | { kind: "tag"; values: string[] }
+  | { kind: "priority"; op: FilterComparison; value: number }
+  | { kind: "due"; op: FilterComparison; value: FilterDateValue }
+  | { kind: "due_none" }
+  | { kind: "is"; value: FilterIsValue }
+  | { kind: "text"; value: string }
+);
+
+export type ParsedFilter = {
+  clauses: FilterClause[];
+};
+
+type ParseError = {
+  message: string;
+};
+
+type ParseResult =
+  | { ok: true; value: ParsedFilter }
+  | { ok: false; error: ParseError };
+
+const STATUSES = new Set([
+  "backlog",
+  "ready",
+  "in_progress",
+  "blocked",
+  "review",
+  "done",
+  "canceled",
+]);
+const TYPES = new Set(["project", "milestone", "task"]);
+const HEALTH_VALUES = new Set(["on_track", "at_risk", "behind", "ahead", "unknown"]);
+const IS_VALUES = new Set<FilterIsValue>([
+  "blocked",
+  "overdue",
+  "scheduled",
+  "unscheduled",
+  "open",
+  "closed",
+]);
+const KEY_ALIASES: Record<
+  string,
+  "status" | "type" | "health" | "assignee" | "tag" | "priority" | "due" | "is"
+> = {
+  status: "status",
+  type: "type",
+  health: "health",
+  assignee: "assignee",
+  assignees: "assignee",
+  tag: "tag",
+  tags: "tag",
+  priority: "priority",
+  pri: "priority",
+  due: "due",
+  due_at: "due",
+  is: "is",
+};
+const RELATIVE_DAYS = new Map([
+  ["yesterday", -1],
+  ["today", 0],
+  ["tomorrow", 1],
+]);
+
+/**
+ * Parses a List view filter expression such as
+ * `status:ready,in_progress assignee:me due:<7d tag:design is:blocked -tag:later`.
+ * Clauses are ANDed; comma-separated values within a clause are ORed and a
+ * leading `-` negates the clause. Bare words match title and notes.
+ */
+export const parseFilter = (input: string): ParseResult => {
+  const tokensResult = tokenize(input);
+  if (!tokensResult.ok) {
+    return tokensResult;
+  }
+  const clauses: FilterClause[] = [];
+  for (const rawToken of tokensResult.value) {
+    const negated = rawToken.startsWith("-") && rawToken.length > 1;
+    const token = negated ? rawToken.slice(1) : rawToken;
+    const kv = parseKeyValue(token);
+    if (!kv) {
+      clauses.push({ kind: "text", value: token, negated });
+      continue;
+    }
+    const key = Object.prototype.hasOwnProperty.call(KEY_ALIASES, kv.key)
+      ? KEY_ALIASES[kv.key]
+      : null;
+    if (!key) {
+      return { ok: false, error: { message: `Unknown filter key: ${kv.key}` } };
+    }
+    if (kv.value === "") {
+      return { ok: false, error: { message: `Missing value for ${kv.key}:` } };
+    }
+    switch (key) {
+      case "status":
+      case "type":
+      case "health": {
+        const allowed =
+          key === "status" ? STATUSES : key === "type" ? TYPES : HEALTH_VALUES;
+        const values = splitList(kv.value.toLowerCase());
+        const invalid = values.find((value) => !allowed.has(value));
+        if (invalid) {
+          return {
+            ok: false,
+            error: { message: `Invalid ${key} value: ${invalid}` },
+          };
+        }
+        clauses.push({ kind: key, values, negated });
+        break;
+      }
+      case "assignee":
+      case "tag": {
+        clauses.push({ kind: key, values: splitList(kv.value), negated });
+        break;
+      }
+      case "priority": {
+        const { op, rest } = splitComparison(kv.value);
+        const value = Number(rest);
+        if (!rest || !Number.isInteger(value)) {
+          return {
+            ok: false,
+            error: { message: "priority must be an integer, optionally with <, <=, >, >=" },
+          };
+        }
+        clauses.push({ kind: "priority", op, value, negated });
+        break;
+      }
+      case "due": {
+        const lowered = kv.value.toLowerCase();
+        if (lowered === "none") {
+          clauses.push({ kind: "due_none", negated });
+          break;
+        }
+        if (lowered === "overdue") {
+          clauses.push({ kind: "is", value: "overdue", negated });
+          break;
+        }
+        const { op, rest } = splitComparison(lowered);
+        const value = parseDateValue(rest);
+        if (!value) {
+          return {
+            ok: false,
+            error: {
+              message:
+                "due accepts none, overdue, today, tomorrow, a date, or an offset like <7d",
+            },
+          };
+        }
+        clauses.push({ kind: "due", op, value, negated });
+        break;
+      }
+      case "is": {
+        const value = kv.value.toLowerCase() as FilterIsValue;
+        if (!IS_VALUES.has(value)) {
+          return {
+            ok: false,
+            error: {
+              message:
+                "is accepts blocked, overdue, scheduled, unscheduled, open, or closed",
+            },
+          };
+        }
+        clauses.push({ kind: "is", value, negated });
+        break;
+      }
+    }
+  }
+  return { ok: true, value: { clauses } };
+};
+
+const tokenize = (
+  input: string
+): { ok: true; value: string[] } | { ok: false; error: ParseError } => {
+  const tokens: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  let escaped = false;
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (escaped) {
+      current += char;
+      escaped = false;
+      continue;
+    }
+    if (char === "\\" && inQuotes) {
+      escaped = true;
+      continue;
+    }
+    if (char === "\"") {
+      inQuotes = !inQuotes;
+      continue;
+    }
+    if (!inQuotes && /\s/.test(char)) {
+      if (current.length > 0) {
+        tokens.push(current);
+        current = "";
+      }
+      continue;
+    }
+    current += char;
+  }
+
+  if (inQuotes) {
+    return { ok: false, error: { message: "Unclosed quote" } };
+  }
+  if (current.length > 0) {
+    tokens.push(current);
+  }
+  return { ok: true, value: tokens };
+};
+
+const parseKeyValue = (token: string): { key: string; value: string } | null => {
+  const colonIndex = token.indexOf(":");
+  if (colonIndex <= 0) {
+    return null;
+  }
+  return {
+    key: token.slice(0, colonIndex).toLowerCase(),
+    value: token.slice(colonIndex + 1),
+  };
+};
+
+const splitComparison = (value: string): { op: FilterComparison; rest: string } => {
+  const match = value.match(/^(<=|>=|<|>|=)?(.*)$/)!;
+  return { op: (match[1] as FilterComparison | undefined) ?? "=", rest: match[2].trim() };
+};
+
+// Offsets stay relative so saved filters like `due:<7d` move with the clock;
+// they are resolved when the worker compiles the filter.
+const parseDateValue = (value: string): FilterDateValue | null => {
+  const namedDay = RELATIVE_DAYS.get(value);
+  if (namedDay !== undefined) {
+    return { kind: "days", offset: namedDay };
+  }
+  const offsetMatch = value.match(/^([+-]?\d+)([hdw])$/);
+  if (offsetMatch) {
+    const amount = Number(offsetMatch[1]);
+    return offsetMatch[2] === "h"
+      ? { kind: "hours", offset: amount }
+      : { kind: "days", offset: offsetMatch[2] === "w" ? amount * 7 : amount };
+  }
+  const dateMatch = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (dateMatch) {
+    const [, year, month, day] = dateMatch;
+    const at = new Date(Number(year), Number(month) - 1, Number(day)).getTime();
+    return Number.isNaN(at) ? null : { kind: "date", at };
+  }
+  return null;
+};
+
+const splitList = (value: string): string[] => {
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return Array.from(new Set(items));
+};
@@ -0,0 +1,313 @@
+import { evaluateDependencyStatus } from "./scheduleMath";
+import type { DayCalendar } from "../domain/timeZone";
+
+export type AutoPlanDependencyType = "FS" | "SS" | "FF" | "SF";
+
+export type AutoPlanCandidate = {
+  id: string;
+  priority: number;
+  due_at: number | null;
+  remaining_minutes: number;
+  lane: string;
+  block_id: string | null;
+};
+
+export type AutoPlanFixedBlock = {
+  item_id: string;
+  lane: string;
+  start_at: number;
+  duration_minutes: number;
+};
+
+export type AutoPlanDependency = {
+  item_id: string;
+  depends_on_id: string;
+  type: AutoPlanDependencyType;
+  lag_minutes: number;
+};
+
+export type AutoPlanInput = {
+  windowStart: number;
+  windowEnd: number;
+  workday: { startHour: number; endHour: number };
+  /** Zone the workday hours are read in; the runtime's own when omitted. */
+  calendar?: Pick<DayCalendar, "startOfDay" | "addDays" | "atHour">;
+  /** Days a lane cannot be planned on, such as weekends, holidays or time off. */
+  isDayOff?: (lane: string, dayStart: number) => boolean;
+  candidates: AutoPlanCandidate[];
+  fixedBlocks: AutoPlanFixedBlock[];
+  dependencies: AutoPlanDependency[];
+};
+
+export type AutoPlanPlacement = {
+  item_id: string;
+  block_id: string | null;
+  start_at: number;
+  duration_minutes: number;
+  truncated: boolean;
+  /**
+   * Remaining minutes past the workday cap. An item holds one block, so
+   * these are left for the caller to report rather than planned.
+   */
+  unplaced_minutes: number;
+};
+
+export type AutoPlanSkipReason =
+  | "no_slot"
+  | "dependency_cycle"
+  | "predecessor_unplaced";
+
+export type AutoPlanSkip = {
+  item_id: string;
+  reason: AutoPlanSkipReason;
+};
+
+type Interval = { start: number; end: number };
+
+const MINUTE_MS = 60000;
+
+const comparePlanOrder = (a: AutoPlanCandidate, b: AutoPlanCandidate) => {
+  if (a.priority !== b.priority) {
+    return b.priority - a.priority;
+  }
+  const aDue = a.due_at ?? Number.MAX_SAFE_INTEGER;
+  const bDue = b.due_at ?? Number.MAX_SAFE_INTEGER;
+  if (aDue !== bDue) {
+    return aDue - bDue;
+  }
+  return a.id.localeCompare(b.id);
+};
+
+const LOCAL_CALENDAR: NonNullable<AutoPlanInput["calendar"]> = {
+  startOfDay: (value) => {
+    const date = new Date(value);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+  },
+  addDays: (dayStart, days) => {
+    const date = new Date(dayStart);
+    date.setDate(date.getDate() + days);
+    return date.getTime();
+  },
+  atHour: (dayStart, hour) => {
+    const date = new Date(dayStart);
+    date.setHours(hour, 0, 0, 0);
+    return date.getTime();
+  },
+};
+
+const ceilToMinute = (value: number) =>
+  Math.ceil(value / MINUTE_MS) * MINUTE_MS;
+
+// Earliest start that satisfies a single edge for a successor of the given
+// duration; null when the predecessor has no placement to anchor on.
+const earliestStartForEdge = (
+  edge: AutoPlanDependency,
+  predecessor: Interval | null,
+  durationMs: number
+) => {
+  if (!predecessor) {
+    return null;
+  }
+  const lagMs = edge.lag_minutes * MINUTE_MS;
+  switch (edge.type) {
+    case "FS":
+      return predecessor.end + lagMs;
+    case "SS":
+      return predecessor.start + lagMs;
+    case "FF":
+      return predecessor.end + lagMs - durationMs;
+    case "SF":
+      return predecessor.start + lagMs - durationMs;
+    default:
+      return null;
+  }
+};
+
+const findSlot = (
+  earliest: number,
+  durationMs: number,
+  lane: string,
+  busy: Interval[],
+  input: AutoPlanInput
+) => {
+  const { startHour, endHour } = input.workday;
+  const calendar = input.calendar ?? LOCAL_CALENDAR;
+  let cursorDay = calendar.startOfDay(earliest);
+  let candidate = ceilToMinute(earliest);
+  while (cursorDay < input.windowEnd) {
+    if (input.isDayOff?.(lane, cursorDay)) {
+      cursorDay = calendar.addDays(cursorDay, 1);
+      candidate = cursorDay;
+      continue;
+    }
+    let start = Math.max(candidate, calendar.atHour(cursorDay, startHour));
+    const limit = Math.min(calendar.atHour(cursorDay, endHour), input.windowEnd);
+    let moved = true;
+    while (moved && start + durationMs <= limit) {
+      moved = false;
+      for (const interval of busy) {
+        if (interval.start < start + durationMs && interval.end > start) {
+          start = ceilToMinute(interval.end);
+          moved = true;
+        }
+      }
+    }
+    if (start + durationMs <= limit) {
+      return start;
+    }
+    cursorDay = calendar.addDays(cursorDay, 1);
+    candidate = cursorDay;
+  }
+  return null;
+};
+
+/**
+ * Greedy list scheduler used by `schedule.auto_plan`. Candidates are placed
+ * once all of their in-plan predecessors are placed, highest priority first
+ * and then earliest due date, into the first gap of their lane that fits
+ * inside workday hours on a working day and the planning window. Fixed blocks (locked or
+ * manual) are never moved and act as both busy time and dependency anchors.
+ */
+export const planAutoSchedule = (input: AutoPlanInput) => {
+  const workdayMinutes =
+    (input.workday.endHour - input.workday.startHour) * 60;
+  const candidateMap = new Map(input.candidates.map((row) => [row.id, row]));
+  const anchors = new Map<string, Interval>();
+  const busyByLane = new Map<string, Interval[]>();
+  const addBusy = (lane: string, interval: Interval) => {
+    const list = busyByLane.get(lane) ?? [];
+    list.push(interval);
+    list.sort((a, b) => a.start - b.start);
+    busyByLane.set(lane, list);
+  };
+
+  for (const block of input.fixedBlocks) {
+    const interval = {
+      start: block.start_at,
+      end: block.start_at + block.duration_minutes * MINUTE_MS,
+    };
+    addBusy(block.lane, interval);
+    const existing = anchors.get(block.item_id);
+    anchors.set(
+      block.item_id,
+      existing
+        ? {
+            start: Math.min(existing.start, interval.start),
+            end: Math.max(existing.end, interval.end),
+          }
+        : interval
+    );
+  }
+
+  const incoming = new Map<string, AutoPlanDependency[]>();
+  const pendingPredecessors = new Map<string, Set<string>>();
+  for (const candidate of input.candidates) {
+    pendingPredecessors.set(candidate.id, new Set());
+  }
+  for (const edge of input.dependencies) {
+    if (!candidateMap.has(edge.item_id)) {
+      continue;
+    }
+    const list = incoming.get(edge.item_id) ?? [];
+    list.push(edge);
+    incoming.set(edge.item_id, list);
+    if (candidateMap.has(edge.depends_on_id) && edge.depends_on_id !== edge.item_id) {
+      pendingPredecessors.get(edge.item_id)!.add(edge.depends_on_id);
+    }
+  }
+
+  const placements: AutoPlanPlacement[] = [];
+  const skipped: AutoPlanSkip[] = [];
+  const settled = new Set<string>();
+  const failed = new Set<string>();
+
+  const ready: AutoPlanCandidate[] = input.candidates.filter(
+    (row) => pendingPredecessors.get(row.id)!.size === 0
+  );
+
+  const settle = (id: string) => {
+    settled.add(id);
+    for (const [otherId, pending] of pendingPredecessors) {
+      if (pending.delete(id) && pending.size === 0 && !settled.has(otherId)) {
+        ready.push(candidateMap.get(otherId)!);
+      }
+    }
+  };
+
+  while (ready.length > 0) {
+    ready.sort(comparePlanOrder);
+    const next = ready.shift()!;
+    const edges = incoming.get(next.id) ?? [];
+    if (edges.some((edge) => failed.has(edge.depends_on_id))) {
+      failed.add(next.id);
+      skipped.push({ item_id: next.id, reason: "predecessor_unplaced" });
+      settle(next.id);
+      continue;
+    }
+    const durationMinutes = Math.max(
+      1,
+      Math.min(next.remaining_minutes, workdayMinutes)
+    );
+    const durationMs = durationMinutes * MINUTE_MS;
+    let earliest = input.windowStart;
+    for (const edge of edges) {
+      const bound = earliestStartForEdge(
+        edge,
+        anchors.get(edge.depends_on_id) ?? null,
+        durationMs
+      );
+      if (bound !== null && bound > earliest) {
+        earliest = bound;
+      }
+    }
+    const startAt = findSlot(
+      earliest,
+      durationMs,
+      next.lane,
+      busyByLane.get(next.lane) ?? [],
+      input
+    );
+    const violates =
+      startAt !== null &&
+      edges.some((edge) => {
+        const predecessor = anchors.get(edge.depends_on_id);
+        return (
+          evaluateDependencyStatus({
+            predecessorStart: predecessor?.start ?? null,
+            predecessorEnd: predecessor?.end ?? null,
+            successorStart: startAt,
+            successorEnd: startAt + durationMs,
+            type: edge.type,
+            lagMinutes: edge.lag_minutes,
+          }) === "violated"
+        );
+      });
+    if (startAt === null || violates) {
+      failed.add(next.id);
+      skipped.push({ item_id: next.id, reason: "no_slot" });
+      settle(next.id);
+      continue;
+    }
+    const interval = { start: startAt, end: startAt + durationMs };
+    anchors.set(next.id, interval);
+    addBusy(next.lane, interval);
+    placements.push({
+      item_id: next.id,
+      block_id: next.block_id,
+      start_at: startAt,
+      duration_minutes: durationMinutes,
+      truncated: durationMinutes < next.remaining_minutes,
+      unplaced_minutes: Math.max(0, next.remaining_minutes - durationMinutes),
+    });
+    settle(next.id);
+  }
+
+  for (const candidate of input.candidates) {
+    if (!settled.has(candidate.id)) {
+      skipped.push({ item_id: candidate.id, reason: "dependency_cycle" });
+    }
+  }
+
+  return { placements, skipped };
+};
@@ -0,0 +1,242 @@
+import type { DayCalendar } from "../domain/timeZone";
+
+/** Minutes per weekday, Sunday first like Date#getDay. */
+export type WeekdayMinutes = number[];
+
+// Eight-hour weekdays until someone sets their own.
+export const DEFAULT_CAPACITY_MINUTES: WeekdayMinutes = [0, 480, 480, 480, 480, 480, 0];
+
+export type CapacityUser = {
+  user_id: string;
+  display_name: string;
+  minutes_by_weekday: WeekdayMinutes;
+};
+
+export type CapacityBlock = {
+  user_id: string;
+  item_id: string;
+  title: string;
+  start_at: number;
+  duration_minutes: number;
+};
+
+/** Open estimated work assigned to a user that no future block covers yet. */
+export type CapacityTask = {
+  user_id: string;
+  item_id: string;
+  title: string;
+  unscheduled_minutes: number;
+  due_at: number | null;
+};
+
+export type CapacityCellItem = {
+  item_id: string;
+  title: string;
+  scheduled_minutes: number;
+  estimated_minutes: number;
+};
+
+export type CapacityTotals = {
+  capacity_minutes: number;
+  scheduled_minutes: number;
+  estimated_minutes: number;
+  load_minutes: number;
+  over_minutes: number;
+};
+
+export type CapacityDay = CapacityTotals & {
+  day_start: number;
+  items: CapacityCellItem[];
+};
+
+export type CapacityWeek = CapacityTotals & { week_start: number };
+
+export type CapacityUserRange = {
+  user_id: string;
+  display_name: string;
+  days: CapacityDay[];
+  weeks: CapacityWeek[];
+  /** Unscheduled work with no due date, which cannot be placed on a day. */
+  undated_minutes: number;
+  over_day_count: number;
+};
+
+export type CapacityCalendar = Pick<DayCalendar, "startOfDay" | "addDays" | "weekday">;
+
+// The runtime's own zone, for callers that do not pass one.
+const LOCAL_CALENDAR: CapacityCalendar = {
+  startOfDay: (value) => {
+    const date = new Date(value);
+    date.setHours(0, 0, 0, 0);
+    return date.getTime();
+  },
+  addDays: (dayStart, days) => {
+    const date = new Date(dayStart);
+    date.setDate(date.getDate() + days);
+    return date.getTime();
+  },
+  weekday: (value) => new Date(value).getDay(),
+};
+
+export const capacityForDay = (
+  user: CapacityUser,
+  dayStart: number,
+  calendar: CapacityCalendar = LOCAL_CALENDAR
+) => user.minutes_by_weekday[calendar.weekday(dayStart)] ?? 0;
+
+/** Reads stored weekday rows, falling back to the default for missing days. */
+export const normalizeWeekdayMinutes = (
+  rows: Array<[weekday: number, minutes: number]>
+): WeekdayMinutes => {
+  const minutes = [...DEFAULT_CAPACITY_MINUTES];
+  for (const [weekday, value] of rows) {
+    if (Number.isInteger(weekday) && weekday >= 0 && weekday < 7 && value >= 0) {
+      minutes[weekday] = value;
+    }
+  }
+  return minutes;
+};
+
+const finishTotals = <T extends CapacityTotals>(totals: T) => {
+  totals.load_minutes = totals.scheduled_minutes + totals.estimated_minutes;
+  totals.over_minutes = Math.max(0, totals.load_minutes - totals.capacity_minutes);
+  return totals;
+};
+
+/**
+ * Compares each user's capacity with their booked work, day by day.
+ *
+ * `dayStarts` holds the local midnights of the range plus the end of its last
+ * day. Blocks count on the days they cover. Unscheduled estimates are spread
+ * evenly over the user's working days from today through the due day;
+ * overdue work lands on today. Days and weekdays follow `calendar`, the
+ * runtime's zone by default, and a day `isDayOff` names has no capacity.
+ */
+export const buildCapacityRange = (input: {
+  dayStarts: number[];
+  now: number;
+  users: CapacityUser[];
+  blocks: CapacityBlock[];
+  tasks: CapacityTask[];
+  calendar?: CapacityCalendar;
+  isDayOff?: (userId: string, dayStart: number) => boolean;
+}): CapacityUserRange[] => {
+  const { dayStarts, now, users, blocks, tasks, calendar = LOCAL_CALENDAR, isDayOff } = input;
+  const dayCount = dayStarts.length - 1;
+  const dayIndexOf = (dayStart: number) => {
+    const index = dayStarts.indexOf(dayStart);
+    return index >= 0 && index < dayCount ? index : -1;
+  };
+  const today = calendar.startOfDay(now);
+  const startOfWeek = (dayStart: number) => {
+    const weekday = calendar.weekday(dayStart);
+    return calendar.addDays(dayStart, weekday === 0 ? -6 : 1 - weekday);
+  };
+
+  return users.map((user) => {
+    const capacityOn = (dayStart: number) =>
+      isDayOff?.(user.user_id, dayStart) ? 0 : capacityForDay(user, dayStart, calendar);
+    const days: CapacityDay[] = dayStarts.slice(0, dayCount).map((dayStart) => ({
+      day_start: dayStart,
+      capacity_minutes: capacityOn(dayStart),
+      scheduled_minutes: 0,
+      estimated_minutes: 0,
+      load_minutes: 0,
+      over_minutes: 0,
+      items: [],
+    }));
+    const addToDay = (
+      index: number,
+      item: { item_id: string; title: string },
+      kind: "scheduled_minutes" | "estimated_minutes",
+      minutes: number
+    ) => {
+      const day = days[index];
+      day[kind] += minutes;
+      let cellItem = day.items.find((entry) => entry.item_id === item.item_id);
+      if (!cellItem) {
+        cellItem = {
+          item_id: item.item_id,
+          title: item.title,
+          scheduled_minutes: 0,
+          estimated_minutes: 0,
+        };
+        day.items.push(cellItem);
+      }
+      cellItem[kind] += minutes;
+    };
+
+    for (const block of blocks) {
+      if (block.user_id !== user.user_id) {
+        continue;
+      }
+      const endAt = block.start_at + block.duration_minutes * 60000;
+      for (let index = 0; index < dayCount; index += 1) {
+        const overlap =
+          Math.min(endAt, dayStarts[index + 1]) - Math.max(block.start_at, dayStarts[index]);
+        if (overlap > 0) {
+          addToDay(index, block, "scheduled_minutes", Math.round(overlap / 60000));
+        }
+      }
+    }
+
+    let undatedMinutes = 0;
+    for (const task of tasks) {
+      if (task.user_id !== user.user_id || task.unscheduled_minutes <= 0) {
+        continue;
+      }
+      if (task.due_at === null) {
+        undatedMinutes += task.unscheduled_minutes;
+        continue;
+      }
+      const dueDay = calendar.startOfDay(task.due_at);
+      const spreadDays: number[] = [];
+      for (let day = today; day <= dueDay; day = calendar.addDays(day, 1)) {
+        if (capacityOn(day) > 0) {
+          spreadDays.push(day);
+        }
+      }
+      if (spreadDays.length === 0) {
+        spreadDays.push(Math.max(today, dueDay));
+      }
+      const share = task.unscheduled_minutes / spreadDays.length;
+      for (const day of spreadDays) {
+        const index = dayIndexOf(day);
+        if (index >= 0) {
+          addToDay(index, task, "estimated_minutes", share);
+        }
+      }
+    }
+
+    const weeks = new Map<number, CapacityWeek>();
+    for (const day of days) {
+      day.estimated_minutes = Math.round(day.estimated_minutes);
+      for (const cellItem of day.items) {
+        cellItem.estimated_minutes = Math.round(cellItem.estimated_minutes);
+      }
+      finishTotals(day);
+      const weekStart = startOfWeek(day.day_start);
+      const week = weeks.get(weekStart) ?? {
+        week_start: weekStart,
+        capacity_minutes: 0,
+        scheduled_minutes: 0,
+        estimated_minutes: 0,
+        load_minutes: 0,
+        over_minutes: 0,
+      };
+      week.capacity_minutes += day.capacity_minutes;
+      week.scheduled_minutes += day.scheduled_minutes;
+      week.estimated_minutes += day.estimated_minutes;
+      weeks.set(weekStart, week);
+    }
+
+    return {
+      user_id: user.user_id,
+      display_name: user.display_name,
+      days,
+      weeks: Array.from(weeks.values()).map(finishTotals),
+      undated_minutes: Math.round(undatedMinutes),
+      over_day_count: days.filter((day) => day.over_minutes > 0).length,
+    };
+  });
+};
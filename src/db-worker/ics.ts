@@ -0,0 +1,353 @@
+export type IcsEvent = {
+  uid: string;
+  start_at: number;
+  end_at: number;
+  all_day: boolean;
+  summary: string;
+  description: string | null;
+  url: string | null;
+  rrule: string | null;
+  updated_at: number;
+};
+
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+export const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const utf8Length = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) {
+    return 1;
+  }
+  if (code < 0x800) {
+    return 2;
+  }
+  return code < 0x10000 ? 3 : 4;
+};
+
+// RFC 5545 3.1: lines longer than 75 octets are folded with CRLF followed by
+// a single space. Folding never splits a multi-byte character.
+export const foldIcsLine = (line: string) => {
+  const segments: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = segments.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      segments.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  segments.push(current);
+  return segments.join(`${CRLF} `);
+};
+
+export const formatIcsDateTime = (value: number) => {
+  const date = new Date(value);
+  return `${pad(date.getUTCFullYear(), 4)}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+    date.getUTCSeconds()
+  )}Z`;
+};
+
+// All-day values are calendar dates in the exporter's zone, or the
+// runtime's when none is given.
+export const formatIcsDate = (value: number, timeZone?: string) => {
+  if (timeZone) {
+    // en-CA formats as YYYY-MM-DD.
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    })
+      .format(new Date(value))
+      .replace(/-/g, "");
+  }
+  const date = new Date(value);
+  return `${pad(date.getFullYear(), 4)}${pad(date.getMonth() + 1)}${pad(
+    date.getDate()
+  )}`;
+};
+
+const eventLines = (event: IcsEvent, stamp: number, timeZone?: string) => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDateTime(stamp)}`,
+    `LAST-MODIFIED:${formatIcsDateTime(event.updated_at)}`,
+  ];
+  if (event.all_day) {
+    lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.start_at, timeZone)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatIcsDate(event.end_at, timeZone)}`);
+    lines.push("TRANSP:TRANSPARENT");
+  } else {
+    lines.push(`DTSTART:${formatIcsDateTime(event.start_at)}`);
+    lines.push(`DTEND:${formatIcsDateTime(event.end_at)}`);
+  }
+  if (event.rrule) {
+    lines.push(`RRULE:${event.rrule}`);
+  }
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+/**
+ * Serializes events into a VCALENDAR document with CRLF line endings and
+ * folded content lines.
+ */
+export const buildIcsCalendar = (
+  events: IcsEvent[],
+  options: { name: string; now: number; timeZone?: string }
+) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//MakeWhen//Calendar Export//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(options.name)}`,
+    ...(options.timeZone ? [`X-WR-TIMEZONE:${options.timeZone}`] : []),
+    ...events.flatMap((event) => eventLines(event, options.now, options.timeZone)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+};
+
+export type IcsParsedEvent = {
+  uid: string;
+  summary: string;
+  start_at: number;
+  end_at: number;
+  all_day: boolean;
+  rrule: string | null;
+  cancelled: boolean;
+  transparent: boolean;
+  is_override: boolean;
+};
+
+type IcsContentLine = {
+  name: string;
+  params: Map<string, string>;
+  value: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const unescapeIcsText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+const unfoldIcsLines = (content: string) =>
+  content.replace(/\r\n[ \t]|\n[ \t]/g, "").split(/\r?\n/);
+
+const parseContentLine = (line: string): IcsContentLine | null => {
+  let inQuotes = false;
+  let separator = -1;
+  for (let index = 0; index < line.length; index += 1) {
+    const char = line[index];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ":" && !inQuotes) {
+      separator = index;
+      break;
+    }
+  }
+  if (separator <= 0) {
+    return null;
+  }
+  const [name, ...rawParams] = line.slice(0, separator).split(";");
+  const params = new Map<string, string>();
+  for (const raw of rawParams) {
+    const [key, ...rest] = raw.split("=");
+    params.set(key.toUpperCase(), rest.join("=").replace(/^"|"$/g, ""));
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+const timeZoneOffset = (timeZone: string, utcMs: number) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(utcMs);
+  const field = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return (
+    Date.UTC(
+      field("year"),
+      field("month") - 1,
+      field("day"),
+      field("hour"),
+      field("minute"),
+      field("second")
+    ) - utcMs
+  );
+};
+
+// Wall-clock time in an IANA zone to epoch ms. Unknown zone names (e.g.
+// Windows zone ids) fall back to the importer's local time.
+const zonedTimeToUtc = (
+  parts: [number, number, number, number, number, number],
+  timeZone: string
+) => {
+  const wallClock = Date.UTC(...parts);
+  try {
+    const first = wallClock - timeZoneOffset(timeZone, wallClock);
+    return wallClock - timeZoneOffset(timeZone, first);
+  } catch {
+    return new Date(...parts).getTime();
+  }
+};
+
+const parseIcsDateValue = (line: IcsContentLine) => {
+  const match =
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(line.value.trim());
+  if (!match) {
+    throw new Error(`${line.name} value ${line.value} is invalid`);
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined || line.params.get("VALUE") === "DATE") {
+    return {
+      time: new Date(Number(year), Number(month) - 1, Number(day)).getTime(),
+      allDay: true,
+    };
+  }
+  const parts: [number, number, number, number, number, number] = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  ];
+  const timeZone = line.params.get("TZID");
+  if (utc) {
+    return { time: Date.UTC(...parts), allDay: false };
+  }
+  return {
+    time: timeZone ? zonedTimeToUtc(parts, timeZone) : new Date(...parts).getTime(),
+    allDay: false,
+  };
+};
+
+const parseIcsDuration = (value: string) => {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim()
+    );
+  if (!match) {
+    throw new Error(`DURATION value ${value} is invalid`);
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    Number(weeks ?? 0) * 7 * DAY_MS +
+    Number(days ?? 0) * DAY_MS +
+    Number(hours ?? 0) * 3600000 +
+    Number(minutes ?? 0) * 60000 +
+    Number(seconds ?? 0) * 1000;
+  return sign === "-" ? -total : total;
+};
+
+/**
+ * Reads the VEVENTs of an iCalendar document. Events that cannot be read
+ * are reported in `errors` instead of failing the whole file.
+ */
+export const parseIcsEvents = (content: string) => {
+  const events: IcsParsedEvent[] = [];
+  const errors: string[] = [];
+  let current: IcsContentLine[] | null = null;
+  let nestedDepth = 0;
+  for (const rawLine of unfoldIcsLines(content)) {
+    const line = parseContentLine(rawLine);
+    if (!line) {
+      continue;
+    }
+    if (line.name === "BEGIN" && line.value.toUpperCase() === "VEVENT") {
+      current = [];
+      nestedDepth = 0;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    // Skip nested components such as VALARM.
+    if (line.name === "BEGIN") {
+      nestedDepth += 1;
+      continue;
+    }
+    if (line.name === "END" && nestedDepth > 0) {
+      nestedDepth -= 1;
+      continue;
+    }
+    if (nestedDepth > 0) {
+      continue;
+    }
+    if (line.name !== "END" || line.value.toUpperCase() !== "VEVENT") {
+      current.push(line);
+      continue;
+    }
+    const props = current;
+    current = null;
+    const prop = (name: string) => props.find((entry) => entry.name === name);
+    const uid = prop("UID")?.value.trim();
+    try {
+      if (!uid) {
+        throw new Error("UID is required");
+      }
+      const dtstart = prop("DTSTART");
+      if (!dtstart) {
+        throw new Error("DTSTART is required");
+      }
+      const start = parseIcsDateValue(dtstart);
+      const dtend = prop("DTEND");
+      const duration = prop("DURATION");
+      const end = dtend
+        ? parseIcsDateValue(dtend).time
+        : duration
+          ? start.time + parseIcsDuration(duration.value)
+          : start.time + (start.allDay ? DAY_MS : 0);
+      events.push({
+        uid,
+        summary: unescapeIcsText(prop("SUMMARY")?.value ?? "").trim(),
+        start_at: start.time,
+        end_at: Math.max(end, start.time),
+        all_day: start.allDay,
+        rrule: prop("RRULE")?.value.trim() || null,
+        cancelled: prop("STATUS")?.value.trim().toUpperCase() === "CANCELLED",
+        transparent: prop("TRANSP")?.value.trim().toUpperCase() === "TRANSPARENT",
+        is_override: Boolean(prop("RECURRENCE-ID")),
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "unreadable event";
+      errors.push(`${uid ?? "event"}: ${message}`);
+    }
+  }
+  return { events, errors };
+};
@@ -0,0 +1,4 @@
+ALTER TABLE items ADD COLUMN recurrence_rule TEXT NULL;
+ALTER TABLE items ADD COLUMN recurrence_series_id TEXT NULL;
+ALTER TABLE scheduled_blocks ADD COLUMN recurrence_rule TEXT NULL;
+CREATE INDEX IF NOT EXISTS idx_items_recurrence_series_id ON items(recurrence_series_id);
@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS busy_blocks (
+  team_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  source_calendar TEXT NOT NULL,
+  uid TEXT NOT NULL,
+  title TEXT NOT NULL,
+  start_at INTEGER NOT NULL,
+  duration_minutes INTEGER NOT NULL,
+  all_day INTEGER NOT NULL DEFAULT 0,
+  recurrence_rule TEXT NULL,
+  imported_at INTEGER NOT NULL,
+  PRIMARY KEY(team_id, user_id, source_calendar, uid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_busy_blocks_user_start
+  ON busy_blocks(team_id, user_id, start_at);
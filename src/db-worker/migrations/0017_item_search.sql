@@ -0,0 +1,24 @@
+CREATE VIRTUAL TABLE IF NOT EXISTS item_search USING fts5(
+  item_id UNINDEXED,
+  team_id UNINDEXED,
+  title,
+  notes,
+  tags,
+  blockers,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+INSERT INTO item_search (item_id, team_id, title, notes, tags, blockers)
+SELECT
+  i.id,
+  i.team_id,
+  i.title,
+  COALESCE(i.notes, ''),
+  COALESCE((SELECT group_concat(t.tag, ' ') FROM item_tags t WHERE t.item_id = i.id), ''),
+  COALESCE(
+    (SELECT group_concat(COALESCE(NULLIF(b.text, ''), b.reason, ''), ' ')
+      FROM blockers b
+      WHERE b.item_id = i.id AND b.cleared_at IS NULL),
+    ''
+  )
+FROM items i;
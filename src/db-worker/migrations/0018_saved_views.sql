@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS saved_views (
+  view_id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  view_type TEXT NOT NULL,
+  scope_json TEXT NOT NULL,
+  state_json TEXT NOT NULL,
+  created_by TEXT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_team_name
+  ON saved_views(team_id, name COLLATE NOCASE);
@@ -0,0 +1,9 @@
+ALTER TABLE audit_log ADD COLUMN team_id TEXT NULL;
+ALTER TABLE audit_log ADD COLUMN user_id TEXT NULL;
+ALTER TABLE audit_log ADD COLUMN inverse_json TEXT NULL;
+ALTER TABLE audit_log ADD COLUMN redo_json TEXT NULL;
+ALTER TABLE audit_log ADD COLUMN undo_state TEXT NULL;
+ALTER TABLE audit_log ADD COLUMN undone_at INTEGER NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_undo
+  ON audit_log(team_id, user_id, undo_state, ts);
@@ -0,0 +1,10 @@
+ALTER TABLE audit_log ADD COLUMN changes_json TEXT NULL;
+
+ALTER TABLE op_applied ADD COLUMN op_id TEXT NULL;
+ALTER TABLE op_applied ADD COLUMN op_name TEXT NULL;
+ALTER TABLE op_applied ADD COLUMN actor_user_id TEXT NULL;
+ALTER TABLE op_applied ADD COLUMN ts INTEGER NULL;
+ALTER TABLE op_applied ADD COLUMN changes_json TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_team_ts ON audit_log(team_id, ts);
+CREATE INDEX IF NOT EXISTS idx_op_applied_team_ts ON op_applied(team_id, ts);
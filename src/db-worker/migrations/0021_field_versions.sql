@@ -0,0 +1,37 @@
+ALTER TABLE op_outbox ADD COLUMN hlc TEXT NULL;
+
+CREATE TABLE IF NOT EXISTS hlc_clock (
+  clock_id INTEGER PRIMARY KEY CHECK (clock_id = 1),
+  last_hlc TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS item_field_versions (
+  item_id TEXT NOT NULL,
+  field TEXT NOT NULL,
+  hlc TEXT NOT NULL,
+  op_id TEXT NOT NULL,
+  actor_user_id TEXT NULL,
+  PRIMARY KEY (item_id, field)
+);
+
+CREATE TABLE IF NOT EXISTS item_conflicts (
+  conflict_id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  field TEXT NOT NULL,
+  local_value_json TEXT NULL,
+  local_hlc TEXT NOT NULL,
+  local_op_id TEXT NOT NULL,
+  local_actor_user_id TEXT NULL,
+  remote_value_json TEXT NULL,
+  remote_hlc TEXT NOT NULL,
+  remote_op_id TEXT NOT NULL,
+  remote_actor_user_id TEXT NULL,
+  winner TEXT NOT NULL CHECK (winner IN ('local', 'remote')),
+  created_at INTEGER NOT NULL,
+  resolution TEXT NULL CHECK (resolution IN ('local', 'remote')),
+  resolved_by TEXT NULL,
+  resolved_at INTEGER NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_item_conflicts_item_open ON item_conflicts(item_id, resolved_at);
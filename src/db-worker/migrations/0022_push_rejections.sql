@@ -0,0 +1,10 @@
+ALTER TABLE op_outbox ADD COLUMN reject_code TEXT NULL;
+ALTER TABLE op_outbox ADD COLUMN rejected_root_op_id TEXT NULL;
+ALTER TABLE op_outbox ADD COLUMN rolled_back INTEGER NULL;
+ALTER TABLE op_outbox ADD COLUMN discarded_at INTEGER NULL;
+ALTER TABLE op_outbox ADD COLUMN dismissed_at INTEGER NULL;
+
+ALTER TABLE op_applied ADD COLUMN payload_json TEXT NULL;
+ALTER TABLE op_applied ADD COLUMN inverse_json TEXT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_op_applied_team_applied_at ON op_applied(team_id, applied_at);
@@ -0,0 +1,5 @@
+CREATE TABLE IF NOT EXISTS sync_snapshot_state (
+  team_id TEXT PRIMARY KEY,
+  server_seq INTEGER NOT NULL,
+  imported_at INTEGER NOT NULL
+);
@@ -0,0 +1,5 @@
+ALTER TABLE op_outbox ADD COLUMN attempt_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE op_outbox ADD COLUMN next_retry_at INTEGER NULL;
+ALTER TABLE op_outbox ADD COLUMN dead_lettered_at INTEGER NULL;
+
+CREATE INDEX IF NOT EXISTS idx_op_outbox_team_status_retry ON op_outbox(team_id, status, next_retry_at);
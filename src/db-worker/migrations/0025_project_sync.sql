@@ -0,0 +1,14 @@
+ALTER TABLE op_outbox ADD COLUMN project_ids_json TEXT NULL;
+
+CREATE TABLE IF NOT EXISTS sync_project_subscriptions (
+  team_id TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (team_id, project_id)
+);
+
+CREATE TABLE IF NOT EXISTS sync_pull_cursor (
+  team_id TEXT PRIMARY KEY,
+  server_seq INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
@@ -0,0 +1,12 @@
+ALTER TABLE time_entries ADD COLUMN user_id TEXT NULL;
+
+-- Entries logged before this column have no author on record; credit them to
+-- the item's assignee where it has exactly one.
+UPDATE time_entries
+SET user_id = (
+  SELECT MIN(a.assignee_id) FROM item_assignees a WHERE a.item_id = time_entries.item_id
+)
+WHERE user_id IS NULL
+  AND (SELECT COUNT(*) FROM item_assignees a WHERE a.item_id = time_entries.item_id) = 1;
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_start ON time_entries(user_id, start_at);
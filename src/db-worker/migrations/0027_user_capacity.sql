@@ -0,0 +1,10 @@
+-- Working minutes per weekday (0 = Sunday, as Date#getDay). A user with no
+-- rows gets the default eight-hour weekdays.
+CREATE TABLE IF NOT EXISTS user_capacity (
+  team_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  weekday INTEGER NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  capacity_minutes INTEGER NOT NULL CHECK (capacity_minutes >= 0),
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (team_id, user_id, weekday)
+);
@@ -0,0 +1,3 @@
+-- IANA zone (e.g. Europe/Berlin) a user's days and workday hours are read in.
+-- NULL falls back to the device's own zone.
+ALTER TABLE users ADD COLUMN time_zone TEXT NULL;
@@ -0,0 +1,36 @@
+-- Which weekdays (0 = Sunday) the team works. Missing rows mean Monday to
+-- Friday.
+CREATE TABLE IF NOT EXISTS team_working_days (
+  team_id TEXT NOT NULL,
+  weekday INTEGER NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  is_working INTEGER NOT NULL CHECK (is_working IN (0, 1)),
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (team_id, weekday)
+);
+
+-- Days are YYYY-MM-DD calendar dates, read in whichever zone the day math
+-- runs in.
+CREATE TABLE IF NOT EXISTS team_holidays (
+  holiday_id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  day TEXT NOT NULL,
+  name TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_team_holidays_team_day ON team_holidays(team_id, day);
+
+-- Inclusive day ranges a user is away.
+CREATE TABLE IF NOT EXISTS user_time_off (
+  time_off_id TEXT PRIMARY KEY,
+  team_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  start_day TEXT NOT NULL,
+  end_day TEXT NOT NULL CHECK (end_day >= start_day),
+  note TEXT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_time_off_team_user ON user_time_off(team_id, user_id);
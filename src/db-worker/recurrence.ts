@@ -0,0 +1,279 @@
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export type RecurrenceWeekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+export type RecurrenceByDay = {
+  weekday: RecurrenceWeekday;
+  ordinal: number | null;
+};
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceByDay[];
+  count: number | null;
+  until: number | null;
+};
+
+const WEEKDAYS: RecurrenceWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MAX_PERIODS = 5000;
+
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) {
+    throw new Error("UNTIL must be YYYYMMDD or YYYYMMDDTHHMMSS[Z]");
+  }
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) {
+    // Date-only UNTIL includes the whole local day.
+    return new Date(Number(year), Number(month) - 1, Number(day), 23, 59, 59, 999).getTime();
+  }
+  const parts = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  ] as const;
+  return utc ? Date.UTC(...parts) : new Date(...parts).getTime();
+};
+
+const parseByDay = (value: string, freq: RecurrenceFrequency) =>
+  value.split(",").map((token) => {
+    const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(token.trim());
+    if (!match) {
+      throw new Error(`BYDAY value ${token} is invalid`);
+    }
+    const ordinal = match[1] ? Number(match[1]) : null;
+    if (ordinal !== null) {
+      if (freq !== "MONTHLY") {
+        throw new Error("BYDAY ordinals are only supported with FREQ=MONTHLY");
+      }
+      if (ordinal === 0 || Math.abs(ordinal) > 5) {
+        throw new Error(`BYDAY ordinal ${ordinal} is out of range`);
+      }
+    }
+    return { weekday: match[2] as RecurrenceWeekday, ordinal };
+  });
+
+/**
+ * Parses the supported RRULE subset: FREQ (DAILY/WEEKLY/MONTHLY), INTERVAL,
+ * BYDAY (with ordinals for MONTHLY) and either COUNT or UNTIL.
+ */
+export const parseRecurrenceRule = (value: string): RecurrenceRule => {
+  const source = value.trim().replace(/^RRULE:/i, "");
+  const parts = new Map<string, string>();
+  for (const segment of source.split(";")) {
+    if (!segment.trim()) {
+      continue;
+    }
+    const [key, raw] = segment.split("=");
+    if (!key || raw === undefined) {
+      throw new Error(`recurrence rule part ${segment} is invalid`);
+    }
+    parts.set(key.trim().toUpperCase(), raw.trim().toUpperCase());
+  }
+  for (const key of parts.keys()) {
+    if (!["FREQ", "INTERVAL", "BYDAY", "COUNT", "UNTIL"].includes(key)) {
+      throw new Error(`recurrence rule part ${key} is not supported`);
+    }
+  }
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new Error("FREQ must be DAILY, WEEKLY, or MONTHLY");
+  }
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1;
+  if (!Number.isInteger(interval) || interval <= 0) {
+    throw new Error("INTERVAL must be a positive integer");
+  }
+  const count = parts.has("COUNT") ? Number(parts.get("COUNT")) : null;
+  if (count !== null && (!Number.isInteger(count) || count <= 0)) {
+    throw new Error("COUNT must be a positive integer");
+  }
+  const until = parts.has("UNTIL") ? parseUntil(parts.get("UNTIL")!) : null;
+  if (count !== null && until !== null) {
+    throw new Error("COUNT and UNTIL cannot both be set");
+  }
+  return {
+    freq,
+    interval,
+    byDay: parts.has("BYDAY") ? parseByDay(parts.get("BYDAY")!, freq) : [],
+    count,
+    until,
+  };
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+export const formatRecurrenceRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((entry) => `${entry.ordinal ?? ""}${entry.weekday}`)
+        .join(",")}`
+    );
+  }
+  if (rule.count !== null) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== null) {
+    const until = new Date(rule.until);
+    parts.push(
+      `UNTIL=${pad(until.getUTCFullYear(), 4)}${pad(until.getUTCMonth() + 1)}${pad(
+        until.getUTCDate()
+      )}T${pad(until.getUTCHours())}${pad(until.getUTCMinutes())}${pad(
+        until.getUTCSeconds()
+      )}Z`
+    );
+  }
+  return parts.join(";");
+};
+
+const withTimeOf = (day: Date, anchor: Date) =>
+  new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    anchor.getHours(),
+    anchor.getMinutes(),
+    anchor.getSeconds(),
+    anchor.getMilliseconds()
+  );
+
+const weekdayIndex = (weekday: RecurrenceWeekday) => WEEKDAYS.indexOf(weekday);
+
+// Candidate dates for one period, in ascending order. Periods are counted
+// from the anchor: days for DAILY, Monday-based weeks for WEEKLY and
+// calendar months for MONTHLY.
+const periodCandidates = (rule: RecurrenceRule, anchor: Date, period: number) => {
+  if (rule.freq === "DAILY") {
+    const day = withTimeOf(
+      new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + period * rule.interval),
+      anchor
+    );
+    if (
+      rule.byDay.length > 0 &&
+      !rule.byDay.some((entry) => weekdayIndex(entry.weekday) === day.getDay())
+    ) {
+      return [];
+    }
+    return [day];
+  }
+  if (rule.freq === "WEEKLY") {
+    const mondayOffset = (anchor.getDay() + 6) % 7;
+    const weekStart = new Date(
+      anchor.getFullYear(),
+      anchor.getMonth(),
+      anchor.getDate() - mondayOffset + period * rule.interval * 7
+    );
+    const weekdays =
+      rule.byDay.length > 0
+        ? rule.byDay.map((entry) => weekdayIndex(entry.weekday))
+        : [anchor.getDay()];
+    return Array.from(new Set(weekdays))
+      .map((weekday) => (weekday + 6) % 7)
+      .sort((a, b) => a - b)
+      .map((offset) =>
+        withTimeOf(
+          new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + offset),
+          anchor
+        )
+      );
+  }
+  const monthStart = new Date(
+    anchor.getFullYear(),
+    anchor.getMonth() + period * rule.interval,
+    1
+  );
+  const year = monthStart.getFullYear();
+  const month = monthStart.getMonth();
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  if (rule.byDay.length === 0) {
+    if (anchor.getDate() > daysInMonth) {
+      return [];
+    }
+    return [withTimeOf(new Date(year, month, anchor.getDate()), anchor)];
+  }
+  const days = new Set<number>();
+  for (const entry of rule.byDay) {
+    const target = weekdayIndex(entry.weekday);
+    const matches: number[] = [];
+    for (let day = 1; day <= daysInMonth; day += 1) {
+      if (new Date(year, month, day).getDay() === target) {
+        matches.push(day);
+      }
+    }
+    if (entry.ordinal === null) {
+      matches.forEach((day) => days.add(day));
+    } else {
+      const day =
+        entry.ordinal > 0
+          ? matches[entry.ordinal - 1]
+          : matches[matches.length + entry.ordinal];
+      if (day !== undefined) {
+        days.add(day);
+      }
+    }
+  }
+  return Array.from(days)
+    .sort((a, b) => a - b)
+    .map((day) => withTimeOf(new Date(year, month, day), anchor));
+};
+
+/**
+ * Occurrence start times in [rangeStart, rangeEnd) for a series anchored at
+ * `dtstart`. The anchor itself is always the first occurrence and counts
+ * toward COUNT, matching RFC 5545.
+ */
+export const expandOccurrences = (
+  rule: RecurrenceRule,
+  dtstart: number,
+  rangeStart: number,
+  rangeEnd: number,
+  limit = 500
+) => {
+  const anchor = new Date(dtstart);
+  const occurrences: number[] = [];
+  let seen = 0;
+  const accept = (value: number) => {
+    seen += 1;
+    if (value >= rangeStart && value < rangeEnd) {
+      occurrences.push(value);
+    }
+  };
+  accept(dtstart);
+  for (let period = 0; period < MAX_PERIODS; period += 1) {
+    for (const candidate of periodCandidates(rule, anchor, period)) {
+      const value = candidate.getTime();
+      if (value <= dtstart) {
+        continue;
+      }
+      if (
+        value >= rangeEnd ||
+        (rule.until !== null && value > rule.until) ||
+        (rule.count !== null && seen >= rule.count) ||
+        occurrences.length >= limit
+      ) {
+        return occurrences;
+      }
+      accept(value);
+    }
+  }
+  return occurrences;
+};
+
+export const nextOccurrenceAfter = (rule: RecurrenceRule, dtstart: number) =>
+  expandOccurrences(rule, dtstart, dtstart + 1, Number.POSITIVE_INFINITY, 1)[0] ??
+  null;
+
+// Rule for the series that continues from the next occurrence: COUNT shrinks
+// by the occurrence that was just consumed.
+export const advanceRecurrenceRule = (rule: RecurrenceRule): RecurrenceRule => ({
+  ...rule,
+  count: rule.count === null ? null : rule.count - 1,
+});
@@ -19,11 +19,49 @@ export const deriveDurationMinutesFromEnd: (
   endAt: number
 ) => number | null;
 
+/** Elapsed-time arithmetic for schedule math, with spans in milliseconds. */
+export type ScheduleTime = {
+  between: (from: number, to: number) => number;
+  add: (from: number, span: number) => number;
+};
+
 export const computeSlackMinutes: (
   dueAt: number | null,
-  plannedEnd: number | null
+  plannedEnd: number | null,
+  time?: ScheduleTime
 ) => number | null;
 
 export const evaluateDependencyStatus: (
   input: DependencyStatusInput
 ) => DependencyStatus;
+
+export type CriticalPathNode = {
+  id: string;
+  start: number | null;
+  end: number | null;
+  /** Root project; items share a project finish only with their project. */
+  projectId?: string | null;
+};
+
+export type CriticalPathEdge = {
+  predecessorId: string;
+  successorId: string;
+  type: "FS" | "SS" | "FF" | "SF";
+  lagMinutes: number;
+};
+
+export type CriticalPathEntry = {
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  totalFloatMinutes: number;
+  freeFloatMinutes: number;
+  isCritical: boolean;
+};
+
+export const computeCriticalPath: (
+  nodes: CriticalPathNode[],
+  edges: CriticalPathEdge[],
+  time?: ScheduleTime
+) => Map<string, CriticalPathEntry>;
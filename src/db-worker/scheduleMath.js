@@ -16,11 +16,18 @@ export const deriveDurationMinutesFromEnd = (startAt, endAt) => {
   return minutes;
 };
 
-export const computeSlackMinutes = (dueAt, plannedEnd) => {
+// Spans and offsets in plain elapsed time; a working calendar swaps in one
+// that skips nights, weekends and days off.
+const ELAPSED_TIME = {
+  between: (from, to) => to - from,
+  add: (from, span) => from + span,
+};
+
+export const computeSlackMinutes = (dueAt, plannedEnd, time = ELAPSED_TIME) => {
   if (!Number.isFinite(dueAt) || !Number.isFinite(plannedEnd)) {
     return null;
   }
-  return Math.round((dueAt - plannedEnd) / 60000);
+  return Math.round(time.between(plannedEnd, dueAt) / 60000);
 };
 
 export const evaluateDependencyStatus = ({
@@ -56,3 +63,157 @@ export const evaluateDependencyStatus = ({
       return "unknown";
   }
 };
+
+const lagOf = (edge) => (Number.isFinite(edge.lagMinutes) ? edge.lagMinutes : 0) * 60000;
+
+const constrainSuccessorStart = (edge, predecessor, successorDuration, time) => {
+  const lagMs = lagOf(edge);
+  switch (edge.type) {
+    case "SS":
+      return time.add(predecessor.earlyStart, lagMs);
+    case "FF":
+      return time.add(time.add(predecessor.earlyFinish, lagMs), -successorDuration);
+    case "SF":
+      return time.add(time.add(predecessor.earlyStart, lagMs), -successorDuration);
+    default:
+      return time.add(predecessor.earlyFinish, lagMs);
+  }
+};
+
+const constrainPredecessorFinish = (edge, successor, predecessorDuration, time) => {
+  const lagMs = lagOf(edge);
+  switch (edge.type) {
+    case "SS":
+      return time.add(time.add(successor.lateStart, -lagMs), predecessorDuration);
+    case "FF":
+      return time.add(successor.lateFinish, -lagMs);
+    case "SF":
+      return time.add(time.add(successor.lateFinish, -lagMs), predecessorDuration);
+    default:
+      return time.add(successor.lateStart, -lagMs);
+  }
+};
+
+const edgeSlack = (edge, predecessor, successor, time) => {
+  const lagMs = lagOf(edge);
+  switch (edge.type) {
+    case "SS":
+      return time.between(time.add(predecessor.earlyStart, lagMs), successor.earlyStart);
+    case "FF":
+      return time.between(time.add(predecessor.earlyFinish, lagMs), successor.earlyFinish);
+    case "SF":
+      return time.between(time.add(predecessor.earlyStart, lagMs), successor.earlyFinish);
+    default:
+      return time.between(time.add(predecessor.earlyFinish, lagMs), successor.earlyStart);
+  }
+};
+
+// Forward/backward pass over planned bars. Items without predecessors keep
+// their planned start; items on a dependency cycle are left out. Each item's
+// late finish is bounded by the finish of its own project (`projectId`), so
+// one project's late end does not give another's items float. Durations,
+// lags and floats are measured in `time`, elapsed time unless given.
+export const computeCriticalPath = (nodes, edges, time = ELAPSED_TIME) => {
+  const result = new Map();
+  const durations = new Map();
+  const plannedStart = new Map();
+  const projectOf = new Map();
+  for (const node of nodes) {
+    if (
+      Number.isFinite(node.start) &&
+      Number.isFinite(node.end) &&
+      node.end >= node.start
+    ) {
+      durations.set(node.id, time.between(node.start, node.end));
+      plannedStart.set(node.id, node.start);
+      projectOf.set(node.id, node.projectId ?? null);
+    }
+  }
+  const incoming = new Map();
+  const outgoing = new Map();
+  const indegree = new Map();
+  for (const id of durations.keys()) {
+    incoming.set(id, []);
+    outgoing.set(id, []);
+    indegree.set(id, 0);
+  }
+  for (const edge of edges) {
+    if (
+      edge.predecessorId === edge.successorId ||
+      !durations.has(edge.predecessorId) ||
+      !durations.has(edge.successorId)
+    ) {
+      continue;
+    }
+    incoming.get(edge.successorId).push(edge);
+    outgoing.get(edge.predecessorId).push(edge);
+    indegree.set(edge.successorId, indegree.get(edge.successorId) + 1);
+  }
+
+  const order = [];
+  const queue = [...durations.keys()].filter((id) => indegree.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift();
+    order.push(id);
+    for (const edge of outgoing.get(id)) {
+      const next = indegree.get(edge.successorId) - 1;
+      indegree.set(edge.successorId, next);
+      if (next === 0) {
+        queue.push(edge.successorId);
+      }
+    }
+  }
+  const passes = new Map();
+  const projectFinishes = new Map();
+  for (const id of order) {
+    const duration = durations.get(id);
+    const predecessors = incoming.get(id);
+    let earlyStart =
+      predecessors.length === 0 ? plannedStart.get(id) : -Infinity;
+    for (const edge of predecessors) {
+      earlyStart = Math.max(
+        earlyStart,
+        constrainSuccessorStart(edge, passes.get(edge.predecessorId), duration, time)
+      );
+    }
+    const earlyFinish = time.add(earlyStart, duration);
+    passes.set(id, { earlyStart, earlyFinish });
+    const projectId = projectOf.get(id);
+    projectFinishes.set(
+      projectId,
+      Math.max(projectFinishes.get(projectId) ?? -Infinity, earlyFinish)
+    );
+  }
+
+  for (let index = order.length - 1; index >= 0; index -= 1) {
+    const id = order[index];
+    const duration = durations.get(id);
+    const pass = passes.get(id);
+    const projectFinish = projectFinishes.get(projectOf.get(id));
+    let lateFinish = projectFinish;
+    let freeFloat = time.between(pass.earlyFinish, projectFinish);
+    for (const edge of outgoing.get(id)) {
+      const successor = passes.get(edge.successorId);
+      lateFinish = Math.min(
+        lateFinish,
+        constrainPredecessorFinish(edge, successor, duration, time)
+      );
+      freeFloat = Math.min(freeFloat, edgeSlack(edge, pass, successor, time));
+    }
+    pass.lateFinish = lateFinish;
+    pass.lateStart = time.add(lateFinish, -duration);
+    const totalFloatMinutes = Math.round(
+      time.between(pass.earlyStart, pass.lateStart) / 60000
+    );
+    result.set(id, {
+      earlyStart: pass.earlyStart,
+      earlyFinish: pass.earlyFinish,
+      lateStart: pass.lateStart,
+      lateFinish: pass.lateFinish,
+      totalFloatMinutes,
+      freeFloatMinutes: Math.max(0, Math.round(freeFloat / 60000)),
+      isCritical: totalFloatMinutes <= 0,
+    });
+  }
+  return result;
+};
@@ -0,0 +1,314 @@
+import type { DayCalendar } from "../domain/timeZone";
+
+export type TimeReportGroupBy =
+  | "project"
+  | "milestone"
+  | "assignee"
+  | "tag"
+  | "week"
+  | "month";
+
+export const TIME_REPORT_GROUPS: TimeReportGroupBy[] = [
+  "project",
+  "milestone",
+  "assignee",
+  "tag",
+  "week",
+  "month",
+];
+
+export const isTimeReportGroupBy = (value: unknown): value is TimeReportGroupBy =>
+  typeof value === "string" && TIME_REPORT_GROUPS.includes(value as TimeReportGroupBy);
+
+export type TimeReportKey = { key: string; label: string };
+
+export type TimeReportEntry = {
+  item_id: string;
+  start_at: number;
+  duration_minutes: number;
+};
+
+/** A task finished in the range, with everything ever logged on it. */
+export type TimeReportTask = {
+  item_id: string;
+  title: string;
+  completed_at: number;
+  estimate_minutes: number;
+  actual_minutes: number;
+};
+
+export type TimeReportGroup = {
+  key: string;
+  label: string;
+  logged_minutes: number;
+  completed_count: number;
+  estimate_minutes: number;
+  actual_minutes: number;
+  /** Actual over estimate for the completed tasks; above 1 means underestimated. */
+  accuracy_ratio: number | null;
+  over_count: number;
+  under_count: number;
+  /** Completed tasks without an estimate, left out of the sums, ratio and counts. */
+  unestimated_count: number;
+};
+
+export type TimeReportTaskRow = TimeReportTask & {
+  accuracy_ratio: number | null;
+  error_minutes: number;
+  groups: string[];
+};
+
+export type TimeReportUnestimatedRow = TimeReportTask & {
+  groups: string[];
+};
+
+export type TimeReport = {
+  group_by: TimeReportGroupBy;
+  groups: TimeReportGroup[];
+  totals: Omit<TimeReportGroup, "key" | "label">;
+  tasks: TimeReportTaskRow[];
+  unestimated: TimeReportUnestimatedRow[];
+};
+
+const NO_GROUP_LABELS: Record<TimeReportGroupBy, string> = {
+  project: "No project",
+  milestone: "No milestone",
+  assignee: "Unassigned",
+  tag: "Untagged",
+  week: "",
+  month: "",
+};
+
+const NO_GROUP_KEY = "none";
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export type ReportCalendar = Pick<
+  DayCalendar,
+  "startOfDay" | "addDays" | "weekday" | "formatDay"
+>;
+
+const LOCAL_CALENDAR: ReportCalendar = {
+  startOfDay: (value) => new Date(value).setHours(0, 0, 0, 0),
+  addDays: (dayStart, days) => {
+    const date = new Date(dayStart);
+    date.setDate(date.getDate() + days);
+    return date.getTime();
+  },
+  weekday: (value) => new Date(value).getDay(),
+  formatDay: (value) => {
+    const date = new Date(value);
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  },
+};
+
+/** Calendar period a timestamp falls in: its Monday, or its month. */
+export const periodKey = (
+  value: number,
+  groupBy: "week" | "month",
+  calendar: ReportCalendar = LOCAL_CALENDAR
+): TimeReportKey => {
+  const dayStart = calendar.startOfDay(value);
+  if (groupBy === "month") {
+    const key = calendar.formatDay(dayStart).slice(0, 7);
+    return { key, label: key };
+  }
+  const weekday = calendar.weekday(dayStart);
+  const key = calendar.formatDay(
+    calendar.addDays(dayStart, weekday === 0 ? -6 : 1 - weekday)
+  );
+  return { key, label: `Week of ${key}` };
+};
+
+export const accuracyRatio = (estimateMinutes: number, actualMinutes: number) =>
+  estimateMinutes > 0 ? Math.round((actualMinutes / estimateMinutes) * 100) / 100 : null;
+
+const emptyTotals = () => ({
+  logged_minutes: 0,
+  completed_count: 0,
+  estimate_minutes: 0,
+  actual_minutes: 0,
+  accuracy_ratio: null as number | null,
+  over_count: 0,
+  under_count: 0,
+  unestimated_count: 0,
+});
+
+/**
+ * Groups time logged in a range, and the estimates of tasks finished in it.
+ * Attribute groupings (project, milestone, assignee, tag) come from
+ * `keysByItem`; an item with several assignees or tags counts in each, so
+ * those groups can add up to more than the totals. Tasks without an estimate
+ * have nothing to compare against, so they are listed apart.
+ */
+export const buildTimeReport = (input: {
+  groupBy: TimeReportGroupBy;
+  entries: TimeReportEntry[];
+  tasks: TimeReportTask[];
+  keysByItem: ReadonlyMap<string, TimeReportKey[]>;
+  calendar?: ReportCalendar;
+}): TimeReport => {
+  const { groupBy, entries, tasks, keysByItem, calendar = LOCAL_CALENDAR } = input;
+  const groups = new Map<string, TimeReportGroup>();
+  const keysFor = (itemId: string, at: number): TimeReportKey[] => {
+    if (groupBy === "week" || groupBy === "month") {
+      return [periodKey(at, groupBy, calendar)];
+    }
+    const keys = keysByItem.get(itemId) ?? [];
+    return keys.length > 0 ? keys : [{ key: NO_GROUP_KEY, label: NO_GROUP_LABELS[groupBy] }];
+  };
+  const groupFor = ({ key, label }: TimeReportKey) => {
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label, ...emptyTotals() };
+      groups.set(key, group);
+    }
+    return group;
+  };
+  const totals = emptyTotals();
+
+  for (const entry of entries) {
+    for (const key of keysFor(entry.item_id, entry.start_at)) {
+      groupFor(key).logged_minutes += entry.duration_minutes;
+    }
+    totals.logged_minutes += entry.duration_minutes;
+  }
+
+  const taskRows: TimeReportTaskRow[] = [];
+  const unestimatedRows: TimeReportUnestimatedRow[] = [];
+  for (const task of tasks) {
+    const keys = keysFor(task.item_id, task.completed_at);
+    if (task.estimate_minutes <= 0) {
+      for (const target of [...keys.map(groupFor), totals]) {
+        target.completed_count += 1;
+        target.unestimated_count += 1;
+      }
+      unestimatedRows.push({ ...task, groups: keys.map((key) => key.label) });
+      continue;
+    }
+    const over = task.actual_minutes > task.estimate_minutes;
+    const under = task.actual_minutes < task.estimate_minutes;
+    for (const target of [...keys.map(groupFor), totals]) {
+      target.completed_count += 1;
+      target.estimate_minutes += task.estimate_minutes;
+      target.actual_minutes += task.actual_minutes;
+      target.over_count += over ? 1 : 0;
+      target.under_count += under ? 1 : 0;
+    }
+    taskRows.push({
+      ...task,
+      accuracy_ratio: accuracyRatio(task.estimate_minutes, task.actual_minutes),
+      error_minutes: task.actual_minutes - task.estimate_minutes,
+      groups: keys.map((key) => key.label),
+    });
+  }
+
+  for (const target of [...groups.values(), totals]) {
+    target.accuracy_ratio = accuracyRatio(target.estimate_minutes, target.actual_minutes);
+  }
+
+  const isPeriod = groupBy === "week" || groupBy === "month";
+  return {
+    group_by: groupBy,
+    groups: Array.from(groups.values()).sort((a, b) =>
+      isPeriod
+        ? a.key.localeCompare(b.key)
+        : b.logged_minutes + b.actual_minutes - (a.logged_minutes + a.actual_minutes) ||
+          a.label.localeCompare(b.label)
+    ),
+    totals,
+    // Biggest misses first, in either direction.
+    tasks: taskRows.sort(
+      (a, b) =>
+        Math.abs(b.error_minutes) - Math.abs(a.error_minutes) || a.title.localeCompare(b.title)
+    ),
+    unestimated: unestimatedRows.sort(
+      (a, b) => b.actual_minutes - a.actual_minutes || a.title.localeCompare(b.title)
+    ),
+  };
+};
+
+// RFC 4180: quote fields holding a comma, quote or line break; double quotes.
+// Text that a spreadsheet would read as a formula gets a leading apostrophe;
+// numbers are written as they are, so negative minutes stay numeric.
+export const escapeCsvField = (value: string | number | null) => {
+  const raw = value === null ? "" : String(value);
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLines = (rows: Array<Array<string | number | null>>) =>
+  rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+
+export const buildTimeReportCsv = (
+  report: TimeReport,
+  calendar: ReportCalendar = LOCAL_CALENDAR
+) => {
+  const groupRows = csvLines([
+    [
+      report.group_by,
+      "logged_minutes",
+      "completed_count",
+      "estimate_minutes",
+      "actual_minutes",
+      "accuracy_ratio",
+      "over_count",
+      "under_count",
+      "unestimated_count",
+    ],
+    ...report.groups.map((group) => [
+      group.label,
+      group.logged_minutes,
+      group.completed_count,
+      group.estimate_minutes,
+      group.actual_minutes,
+      group.accuracy_ratio,
+      group.over_count,
+      group.under_count,
+      group.unestimated_count,
+    ]),
+    [
+      "Total",
+      report.totals.logged_minutes,
+      report.totals.completed_count,
+      report.totals.estimate_minutes,
+      report.totals.actual_minutes,
+      report.totals.accuracy_ratio,
+      report.totals.over_count,
+      report.totals.under_count,
+      report.totals.unestimated_count,
+    ],
+  ]);
+  const taskRows = csvLines([
+    [
+      "task",
+      "completed_on",
+      report.group_by,
+      "estimate_minutes",
+      "actual_minutes",
+      "error_minutes",
+      "accuracy_ratio",
+    ],
+    ...report.tasks.map((task) => [
+      task.title,
+      calendar.formatDay(task.completed_at),
+      task.groups.join("; "),
+      task.estimate_minutes,
+      task.actual_minutes,
+      task.error_minutes,
+      task.accuracy_ratio,
+    ]),
+  ]);
+  const unestimatedRows = csvLines([
+    ["unestimated_task", "completed_on", report.group_by, "actual_minutes"],
+    ...report.unestimated.map((task) => [
+      task.title,
+      calendar.formatDay(task.completed_at),
+      task.groups.join("; "),
+      task.actual_minutes,
+    ]),
+  ]);
+  // Three tables, groups, estimated tasks, then unestimated tasks, separated
+  // by blank lines.
+  return `${groupRows}\r\n\r\n${taskRows}\r\n\r\n${unestimatedRows}\r\n`;
+};
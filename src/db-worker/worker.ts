@@ -1,5 +1,5 @@
 import sqlite3InitModule from "@sqlite.org/sqlite-wasm";
-import type { RpcRequest, RpcResponse } from "../rpc/types";
+import type { RpcEvent, RpcRequest, RpcResponse } from "../rpc/types";
 import initSql from "./migrations/0001_init.sql?raw";
 import blockersKindTextSql from "./migrations/0002_blockers_kind_text.sql?raw";
 import runningTimersSql from "./migrations/0003_running_timers.sql?raw";
@@ -13,24 +13,121 @@ import teamPermissionsFoundationSql from "./migrations/0011_team_permissions_fou
 import sessionFoundationSql from "./migrations/0012_session_foundation.sql?raw";
 import opOutboxSql from "./migrations/0013_op_outbox.sql?raw";
 import mockRemoteSql from "./migrations/0014_mock_remote.sql?raw";
+import recurrenceSql from "./migrations/0015_recurrence.sql?raw";
+import busyBlocksSql from "./migrations/0016_busy_blocks.sql?raw";
+import itemSearchSql from "./migrations/0017_item_search.sql?raw";
+import savedViewsSql from "./migrations/0018_saved_views.sql?raw";
+import auditUndoSql from "./migrations/0019_audit_undo.sql?raw";
+import itemHistorySql from "./migrations/0020_item_history.sql?raw";
+import fieldVersionsSql from "./migrations/0021_field_versions.sql?raw";
+import pushRejectionsSql from "./migrations/0022_push_rejections.sql?raw";
+import syncSnapshotsSql from "./migrations/0023_sync_snapshots.sql?raw";
+import outboxRetrySql from "./migrations/0024_outbox_retry.sql?raw";
+import projectSyncSql from "./migrations/0025_project_sync.sql?raw";
+import timeEntryUsersSql from "./migrations/0026_time_entry_users.sql?raw";
+import userCapacitySql from "./migrations/0027_user_capacity.sql?raw";
+import userTimeZonesSql from "./migrations/0028_user_time_zones.sql?raw";
+import workingCalendarsSql from "./migrations/0029_working_calendars.sql?raw";
 import {
+  computeCriticalPath,
   computeSlackMinutes,
   deriveEndAtFromDuration,
   evaluateDependencyStatus,
 } from "./scheduleMath";
 import { computeRollupTotals } from "./rollup";
+import { planAutoSchedule, type AutoPlanCandidate } from "./autoPlan";
+import { normalizeWorkdayHours } from "../domain/workHours";
+import {
+  formatZonedDay,
+  getSystemTimeZone,
+  isValidTimeZone,
+  parseZonedDay,
+  zonedCalendar,
+  zonedDayDifference,
+  zonedTimeToMs,
+} from "../domain/timeZone";
+import {
+  buildWorkingTime,
+  dayOffReason,
+  EMPTY_WORKING_CALENDAR,
+  isDayString,
+  normalizeWorkingWeekdays,
+  type WorkingCalendarRules,
+  type WorkingTime,
+} from "../domain/workingCalendar";
+import {
+  isSavedViewType,
+  normalizeSavedViewScope,
+  normalizeSavedViewState,
+  type SavedView,
+} from "../domain/savedViews";
+import type {
+  ItemChangeRecord,
+  ItemFieldChange,
+  ItemHistoryEntry,
+} from "../domain/itemHistory";
+import {
+  isItemConflictSide,
+  type ItemConflict,
+  type ItemConflictSide,
+} from "../domain/itemConflicts";
+import {
+  advanceRecurrenceRule,
+  expandOccurrences,
+  formatRecurrenceRule,
+  nextOccurrenceAfter,
+  parseRecurrenceRule,
+} from "./recurrence";
+import { buildIcsCalendar, parseIcsEvents, type IcsEvent } from "./ics";
+import {
+  TIME_REPORT_GROUPS,
+  buildTimeReport,
+  buildTimeReportCsv,
+  isTimeReportGroupBy,
+  type TimeReportGroupBy,
+  type TimeReportKey,
+} from "./timeReport";
+import {
+  buildCapacityRange,
+  normalizeWeekdayMinutes,
+  type CapacityBlock,
+  type CapacityTask,
+  type CapacityUser,
+} from "./capacity";
+import {
+  parseFilter,
+  type FilterComparison,
+  type FilterDateValue,
+  type ParsedFilter,
+} from "../cli/parseFilter";
 import { runSyncOnce } from "../sync/syncEngine";
-import type { OpEnvelope } from "../rpc/types";
-import type { PullRequest, PullResponse, PushRequest, PushResponse } from "../sync/syncTypes";
+import { compareHlc, receiveHlc, tickHlc } from "../sync/hlc";
+import type { OpEnvelope, SyncDeadLetterOp, SyncDiscardedOp } from "../rpc/types";
+import {
+  isConflictRejectCode,
+  type PullRequest,
+  type PullResponse,
+  type PushRequest,
+  type PushResponse,
+  type SyncSnapshot,
+} from "../sync/syncTypes";
 import { SYNC_MODE, SYNC_REMOTE_BASE_URL } from "../sync/syncConfig";
-import { createSyncTransport } from "../sync/syncTransport";
+import {
+  createSyncTransport,
+  isPermanentSyncError,
+  type SyncStreamState,
+  type SyncSubscription,
+} from "../sync/syncTransport";
+import { nextOutboxFailure } from "../sync/outboxRetry";
+import { deriveOutboxPayload, setStatusArgs } from "../sync/outboxPayload";
+import { isSharedSettingKey } from "../sync/sharedSettings";
 
 const ctx = self as unknown as {
   addEventListener: (
     type: "message",
     listener: (event: MessageEvent<RpcRequest>) => void
   ) => void;
-  postMessage: (message: RpcResponse) => void;
+  postMessage: (message: RpcResponse | RpcEvent) => void;
 };
 
 const DB_FILENAME = "makewhen.sqlite3";
@@ -69,7 +166,8 @@ type PermissionErrorCode =
   | "NOT_SIGNED_IN"
   | "NOT_TEAM_MEMBER"
   | "INSUFFICIENT_ROLE"
-  | "CROSS_TEAM_ACCESS";
+  | "CROSS_TEAM_ACCESS"
+  | "NO_PROJECT_ACCESS";
 
 type RpcErrorPayload = { code: string; message: string };
 
@@ -84,6 +182,25 @@ type MutateResult = {
 type HandleMutateOptions = {
   skipOutbox?: boolean;
   skipAudit?: boolean;
+  // Collects item changes for callers that skip the audit log (remote ops
+  // record theirs in op_applied).
+  itemChanges?: ItemChangeRecord[];
+  // Collects the op's inverse for the same callers, so a rejected push can
+  // roll back remote ops applied on top of it.
+  inverseOps?: HistoryOp[];
+  // Set when history.undo/redo replays ops: undo replays are not undoable
+  // themselves and redo replays keep the rest of the redo stack.
+  history?: "undo" | "redo";
+};
+
+type HistoryOp = {
+  op_name: string;
+  args: Record<string, unknown>;
+};
+
+type UndoEntry = {
+  inverse: HistoryOp[];
+  redo: HistoryOp;
 };
 
 type QueryEnvelope = {
@@ -160,6 +277,66 @@ const migrations = [
     version: 13,
     sql: mockRemoteSql,
   },
+  {
+    version: 14,
+    sql: recurrenceSql,
+  },
+  {
+    version: 15,
+    sql: busyBlocksSql,
+  },
+  {
+    version: 16,
+    sql: itemSearchSql,
+  },
+  {
+    version: 17,
+    sql: savedViewsSql,
+  },
+  {
+    version: 18,
+    sql: auditUndoSql,
+  },
+  {
+    version: 19,
+    sql: itemHistorySql,
+  },
+  {
+    version: 20,
+    sql: fieldVersionsSql,
+  },
+  {
+    version: 21,
+    sql: pushRejectionsSql,
+  },
+  {
+    version: 22,
+    sql: syncSnapshotsSql,
+  },
+  {
+    version: 23,
+    sql: outboxRetrySql,
+  },
+  {
+    version: 24,
+    sql: projectSyncSql,
+  },
+  {
+    version: 25,
+    sql: timeEntryUsersSql,
+  },
+  {
+    version: 26,
+    sql: userCapacitySql,
+  },
+  {
+    version: 27,
+    sql: userTimeZonesSql,
+  },
+  {
+    version: 28,
+    sql: workingCalendarsSql,
+  },
 ];
 
 const ensureString = (value: unknown, name: string) => {
@@ -514,44 +691,21 @@ const ensureTimeMs = (value: unknown, name: string) => {
   return ensureNumber(value, name);
 };
 
-const DAY_MS = 24 * 60 * 60 * 1000;
-
-const parseLocalDayStart = (value: unknown, name: string) => {
-  if (typeof value !== "string") {
-    throw new Error(`${name} must be a YYYY-MM-DD string`);
-  }
-  const parts = value.split("-");
-  if (parts.length !== 3) {
+// "Local" is the zone the query resolved (see resolveTimeZone), not
+// necessarily the device's.
+const parseLocalDayStart = (value: unknown, name: string, timeZone: string) => {
+  if (typeof value !== "string" || value.split("-").length !== 3) {
     throw new Error(`${name} must be a YYYY-MM-DD string`);
   }
-  const year = Number(parts[0]);
-  const month = Number(parts[1]);
-  const day = Number(parts[2]);
-  if (
-    !Number.isInteger(year) ||
-    !Number.isInteger(month) ||
-    !Number.isInteger(day)
-  ) {
-    throw new Error(`${name} must be a valid date`);
-  }
-  const date = new Date(year, month - 1, day);
-  if (
-    date.getFullYear() !== year ||
-    date.getMonth() !== month - 1 ||
-    date.getDate() !== day
-  ) {
+  const dayStart = parseZonedDay(value, timeZone);
+  if (dayStart === null) {
     throw new Error(`${name} must be a valid date`);
   }
-  date.setHours(0, 0, 0, 0);
-  return date.getTime();
+  return dayStart;
 };
 
-const formatLocalDay = (value: Date) => {
-  const year = value.getFullYear();
-  const month = String(value.getMonth() + 1).padStart(2, "0");
-  const day = String(value.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-};
+const formatLocalDay = (value: number, timeZone: string) =>
+  formatZonedDay(value, timeZone);
 
 const ensurePositiveInteger = (value: unknown, name: string) => {
   const intValue = ensureInteger(value, name);
@@ -588,12 +742,362 @@ const ensureOptionalNumber = (value: unknown, name: string) => {
   return value;
 };
 
+const normalizeRecurrenceRuleArg = (value: unknown, name: string) => {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (typeof value !== "string") {
+    throw new Error(`${name} must be a string or null`);
+  }
+  try {
+    return formatRecurrenceRule(parseRecurrenceRule(value));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`${name} is invalid: ${message}`);
+  }
+};
+
+const parseStoredRecurrenceRule = (value: string | null) => {
+  if (!value) {
+    return null;
+  }
+  try {
+    return parseRecurrenceRule(value);
+  } catch {
+    return null;
+  }
+};
+
+type ExpandableBlock = {
+  block_id: string;
+  start_at: number;
+  duration_minutes: number;
+  recurrence_rule: string | null;
+};
+
+// Recurring blocks are stored once (the first occurrence). Later occurrences
+// are virtual: they carry a derived block_id plus the series_block_id that
+// block ops must target.
+const expandRecurringBlocks = <T extends ExpandableBlock>(
+  blocks: T[],
+  timeMin: number,
+  timeMax: number
+) => {
+  const expanded: Array<T & { series_block_id: string; is_occurrence: boolean }> =
+    [];
+  for (const block of blocks) {
+    const durationMs = block.duration_minutes * 60000;
+    const rule = parseStoredRecurrenceRule(block.recurrence_rule);
+    const starts = rule
+      ? expandOccurrences(rule, block.start_at, timeMin - durationMs + 1, timeMax)
+      : [block.start_at];
+    for (const startAt of starts) {
+      if (startAt >= timeMax || startAt + durationMs <= timeMin) {
+        continue;
+      }
+      const isOccurrence = startAt !== block.start_at;
+      expanded.push({
+        ...block,
+        block_id: isOccurrence ? `${block.block_id}:${startAt}` : block.block_id,
+        start_at: startAt,
+        series_block_id: block.block_id,
+        is_occurrence: isOccurrence,
+      });
+    }
+  }
+  return expanded.sort((a, b) => a.start_at - b.start_at);
+};
+
 const buildPlaceholders = (count: number) =>
   count > 0 ? Array.from({ length: count }, () => "?").join(", ") : "";
 
 const escapeLike = (value: string) =>
   value.replace(/[\\%_]/g, (match) => `\\${match}`);
 
+const ITEM_SEARCH_SOURCE_SQL = `SELECT
+    i.id,
+    i.team_id,
+    i.title,
+    COALESCE(i.notes, ''),
+    COALESCE((SELECT group_concat(t.tag, ' ') FROM item_tags t WHERE t.item_id = i.id), ''),
+    COALESCE(
+      (SELECT group_concat(COALESCE(NULLIF(b.text, ''), b.reason, ''), ' ')
+        FROM blockers b
+        WHERE b.item_id = i.id AND b.cleared_at IS NULL),
+      ''
+    )
+  FROM items i`;
+
+// item_search is a derived FTS5 index; every write path that changes an
+// item's title, notes, tags or open blockers re-indexes the affected rows.
+const refreshItemSearch = (db: any, itemIds: string[]) => {
+  if (itemIds.length === 0) {
+    return;
+  }
+  const placeholders = buildPlaceholders(itemIds.length);
+  db.exec(`DELETE FROM item_search WHERE item_id IN (${placeholders});`, {
+    bind: itemIds,
+  });
+  db.exec(
+    `INSERT INTO item_search (item_id, team_id, title, notes, tags, blockers)
+      ${ITEM_SEARCH_SOURCE_SQL}
+      WHERE i.id IN (${placeholders});`,
+    { bind: itemIds }
+  );
+};
+
+const rebuildItemSearchForTeam = (db: any, teamId: string) => {
+  db.exec("DELETE FROM item_search WHERE team_id = ?;", { bind: [teamId] });
+  db.exec(
+    `INSERT INTO item_search (item_id, team_id, title, notes, tags, blockers)
+      ${ITEM_SEARCH_SOURCE_SQL}
+      WHERE i.team_id = ?;`,
+    { bind: [teamId] }
+  );
+};
+
+// Builds an FTS5 MATCH expression where every word must match as a prefix.
+// Words are quoted so user input never reaches the FTS query syntax.
+const buildItemSearchMatch = (value: string) => {
+  const tokens = value.match(/[\p{L}\p{N}]+/gu) ?? [];
+  return tokens.map((token) => `"${token}"*`).join(" ");
+};
+
+const SEARCH_MARK_START = "\u0001";
+const SEARCH_MARK_END = "\u0002";
+
+const splitSearchHighlight = (value: string) => {
+  const segments: Array<{ text: string; match: boolean }> = [];
+  const pattern = new RegExp(`${SEARCH_MARK_START}([^${SEARCH_MARK_END}]*)${SEARCH_MARK_END}`, "g");
+  let cursor = 0;
+  for (const found of value.matchAll(pattern)) {
+    if (found.index > cursor) {
+      segments.push({ text: value.slice(cursor, found.index), match: false });
+    }
+    segments.push({ text: found[1], match: true });
+    cursor = found.index + found[0].length;
+  }
+  if (cursor < value.length) {
+    segments.push({ text: value.slice(cursor), match: false });
+  }
+  return segments;
+};
+
+const FILTER_BLOCKED_SQL = `(i.status = 'blocked'
+  OR EXISTS (SELECT 1 FROM blockers b WHERE b.item_id = i.id AND b.cleared_at IS NULL)
+  OR EXISTS (
+    SELECT 1 FROM dependencies d
+    LEFT JOIN items di ON di.id = d.depends_on_id AND di.team_id = i.team_id
+    WHERE d.item_id = i.id AND (di.id IS NULL OR di.status != 'done')
+  ))`;
+
+// Day values compare against the viewer's day bounds (`due:<7d` is "before
+// the day a week from today"); hour values compare against the exact instant.
+const compileDueClause = (
+  op: FilterComparison,
+  value: FilterDateValue,
+  now: number,
+  timeZone: string
+): { sql: string; bind: unknown[] } => {
+  if (value.kind === "hours") {
+    const at = now + value.offset * 60 * 60 * 1000;
+    const sqlOp = op === "=" ? "<=" : op;
+    return { sql: `i.due_at IS NOT NULL AND i.due_at ${sqlOp} ?`, bind: [at] };
+  }
+  const calendar = zonedCalendar(timeZone);
+  let dayStart: number;
+  if (value.kind === "date") {
+    // The parser dates YYYY-MM-DD at the device's midnight; take that
+    // calendar day in the viewer's zone instead.
+    const date = new Date(value.at);
+    dayStart = zonedTimeToMs(
+      date.getFullYear(),
+      date.getMonth() + 1,
+      date.getDate(),
+      0,
+      0,
+      timeZone
+    );
+  } else {
+    dayStart = calendar.addDays(calendar.startOfDay(now), value.offset);
+  }
+  const dayEnd = calendar.addDays(dayStart, 1);
+  switch (op) {
+    case "<":
+      return { sql: "i.due_at IS NOT NULL AND i.due_at < ?", bind: [dayStart] };
+    case "<=":
+      return { sql: "i.due_at IS NOT NULL AND i.due_at < ?", bind: [dayEnd] };
+    case ">":
+      return { sql: "i.due_at >= ?", bind: [dayEnd] };
+    case ">=":
+      return { sql: "i.due_at >= ?", bind: [dayStart] };
+    default:
+      return { sql: "i.due_at >= ? AND i.due_at < ?", bind: [dayStart, dayEnd] };
+  }
+};
+
+/**
+ * Compiles a parsed List view filter into a WHERE fragment over `items i`.
+ * `assignee:me` resolves to the session user and assignee names resolve
+ * through the team's user map, so saved filters stay portable between
+ * teammates.
+ */
+const compileItemFilter = (
+  filter: ParsedFilter,
+  context: {
+    now: number;
+    timeZone: string;
+    userId: string | null;
+    userMap: Map<string, string>;
+  }
+) => {
+  const conditions: string[] = [];
+  const bind: unknown[] = [];
+  const resolveAssignee = (value: string) => {
+    if (value.toLowerCase() === "me") {
+      if (!context.userId) {
+        throw new Error("assignee:me requires a signed-in user");
+      }
+      return [context.userId];
+    }
+    if (context.userMap.has(value)) {
+      return [value];
+    }
+    const lowered = value.toLowerCase();
+    const byName = Array.from(context.userMap.entries())
+      .filter(([, name]) => name.toLowerCase() === lowered)
+      .map(([userId]) => userId);
+    return byName.length > 0 ? byName : [value];
+  };
+  for (const clause of filter.clauses) {
+    let sql: string;
+    const clauseBind: unknown[] = [];
+    switch (clause.kind) {
+      case "status":
+      case "type":
+      case "health": {
+        sql = `i.${clause.kind} IN (${buildPlaceholders(clause.values.length)})`;
+        clauseBind.push(...clause.values);
+        break;
+      }
+      case "assignee": {
+        const parts: string[] = [];
+        const assigneeIds = clause.values
+          .filter((value) => value.toLowerCase() !== "unassigned")
+          .flatMap(resolveAssignee);
+        if (assigneeIds.length > 0) {
+          parts.push(
+            `EXISTS (SELECT 1 FROM item_assignees a WHERE a.item_id = i.id AND a.assignee_id IN (${buildPlaceholders(
+              assigneeIds.length
+            )}))`
+          );
+          clauseBind.push(...assigneeIds);
+        }
+        if (clause.values.some((value) => value.toLowerCase() === "unassigned")) {
+          parts.push(
+            "NOT EXISTS (SELECT 1 FROM item_assignees a WHERE a.item_id = i.id)"
+          );
+        }
+        sql = parts.join(" OR ");
+        break;
+      }
+      case "tag": {
+        sql = `EXISTS (SELECT 1 FROM item_tags t WHERE t.item_id = i.id AND lower(t.tag) IN (${buildPlaceholders(
+          clause.values.length
+        )}))`;
+        clauseBind.push(...clause.values.map((value) => value.toLowerCase()));
+        break;
+      }
+      case "priority": {
+        sql = `i.priority ${clause.op} ?`;
+        clauseBind.push(clause.value);
+        break;
+      }
+      case "due": {
+        const compiled = compileDueClause(
+          clause.op,
+          clause.value,
+          context.now,
+          context.timeZone
+        );
+        sql = compiled.sql;
+        clauseBind.push(...compiled.bind);
+        break;
+      }
+      case "due_none": {
+        sql = "i.due_at IS NULL";
+        break;
+      }
+      case "is": {
+        switch (clause.value) {
+          case "blocked":
+            sql = FILTER_BLOCKED_SQL;
+            break;
+          case "overdue":
+            sql =
+              "i.due_at IS NOT NULL AND i.due_at < ? AND i.status NOT IN ('done', 'canceled')";
+            clauseBind.push(context.now);
+            break;
+          case "scheduled":
+          case "unscheduled":
+            sql = `${clause.value === "unscheduled" ? "NOT " : ""}EXISTS (SELECT 1 FROM scheduled_blocks sb WHERE sb.item_id = i.id)`;
+            break;
+          case "open":
+            sql = "i.status NOT IN ('done', 'canceled')";
+            break;
+          default:
+            sql = "i.status IN ('done', 'canceled')";
+            break;
+        }
+        break;
+      }
+      case "text": {
+        const pattern = `%${escapeLike(clause.value)}%`;
+        sql = `(i.title LIKE ? ESCAPE '\\' OR COALESCE(i.notes, '') LIKE ? ESCAPE '\\')`;
+        clauseBind.push(pattern, pattern);
+        break;
+      }
+    }
+    // COALESCE keeps NULL comparisons (e.g. no due date) on the negated side.
+    conditions.push(clause.negated ? `NOT COALESCE((${sql}), 0)` : `(${sql})`);
+    bind.push(...clauseBind);
+  }
+  return {
+    sql: conditions.length > 0 ? conditions.join(" AND ") : "1 = 1",
+    bind,
+  };
+};
+
+// Ids of the team's items that match a filter expression; null when no
+// filter was given. Parse errors surface to the caller as query errors.
+const getItemIdsMatchingFilter = (
+  db: any,
+  teamId: string,
+  filterArg: unknown
+): Set<string> | null => {
+  if (typeof filterArg !== "string" || filterArg.trim() === "") {
+    return null;
+  }
+  const parsed = parseFilter(filterArg);
+  if (!parsed.ok) {
+    throw new Error(`filter: ${parsed.error.message}`);
+  }
+  const userId = getActiveSession(db)?.user_id ?? null;
+  const compiled = compileItemFilter(parsed.value, {
+    now: Date.now(),
+    timeZone: readUserTimeZone(db, userId) ?? getSystemTimeZone(),
+    userId,
+    userMap: getUserMap(db, teamId),
+  });
+  const rows = db.exec({
+    sql: `SELECT i.id FROM items i WHERE i.team_id = ? AND ${compiled.sql};`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, ...compiled.bind],
+  }) as Array<[string]>;
+  return new Set(rows.map((row) => row[0]));
+};
+
 const getScheduleSummaryMap = (db: any, ids: string[]) => {
   const map = new Map<
     string,
@@ -907,6 +1411,27 @@ const resolveScopeArgs = (args: Record<string, unknown>) => {
   return { scopeProjectId, scopeUserId };
 };
 
+const readUserTimeZone = (db: any, userId: string | null) => {
+  if (!userId) {
+    return null;
+  }
+  const rows = db.exec({
+    sql: "SELECT time_zone FROM users WHERE user_id = ? LIMIT 1;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [userId],
+  }) as Array<[string | null]>;
+  const timeZone = rows[0]?.[0] ?? null;
+  return isValidTimeZone(timeZone) ? timeZone : null;
+};
+
+// Days in a query are the scoped user's when it is scoped to one, else the
+// viewer's, else the device's.
+const resolveTimeZone = (db: any, args: Record<string, unknown>) =>
+  readUserTimeZone(db, resolveScopeArgs(args).scopeUserId) ??
+  readUserTimeZone(db, getActiveSession(db)?.user_id ?? null) ??
+  getSystemTimeZone();
+
 const getScopeItemIds = (
   db: any,
   scopeProjectId: string | null,
@@ -926,7 +1451,7 @@ const getScopeItemIds = (
       returnValue: "resultRows",
       bind: [scopeUserId, teamId],
     }) as Array<[string]>;
-    return rows.map((row) => row[0]);
+    return withoutHiddenItems(db, teamId, rows.map((row) => row[0]));
   }
   if (scopeProjectId === UNGROUPED_PROJECT_ID) {
     const rows = db.exec({
@@ -940,7 +1465,7 @@ const getScopeItemIds = (
       returnValue: "resultRows",
       bind: [teamId, teamId],
     }) as Array<[string]>;
-    return rows.map((row) => row[0]);
+    return withoutHiddenItems(db, teamId, rows.map((row) => row[0]));
   }
   if (scopeProjectId) {
     const rows = db.exec({
@@ -954,7 +1479,7 @@ const getScopeItemIds = (
       returnValue: "resultRows",
       bind: [scopeProjectId, teamId, teamId],
     }) as Array<[string]>;
-    return rows.map((row) => row[0]);
+    return withoutHiddenItems(db, teamId, rows.map((row) => row[0]));
   }
   const rows = db.exec({
     sql: `SELECT id FROM items WHERE archived_at IS NULL AND team_id = ?;`,
@@ -962,7 +1487,7 @@ const getScopeItemIds = (
     returnValue: "resultRows",
     bind: [teamId],
   }) as Array<[string]>;
-  return rows.map((row) => row[0]);
+  return withoutHiddenItems(db, teamId, rows.map((row) => row[0]));
 };
 
 const getSubtreeIds = (db: any, seedIds: string[], teamIdArg?: string | null) => {
@@ -985,6 +1510,18 @@ const getSubtreeIds = (db: any, seedIds: string[], teamIdArg?: string | null) =>
   return Array.from(new Set(rows.map((row) => row[0])));
 };
 
+// Items under projects the session user cannot see (see getProjectRole).
+const getHiddenItemIds = (db: any, teamId: string) => {
+  const projectIds = getHiddenProjectIds(db, teamId);
+  const roots = new Set(projectIds);
+  return new Set(getSubtreeIds(db, projectIds, teamId).filter((id) => !roots.has(id)));
+};
+
+const withoutHiddenItems = (db: any, teamId: string, ids: string[]) => {
+  const hidden = getHiddenItemIds(db, teamId);
+  return hidden.size === 0 ? ids : ids.filter((id) => !hidden.has(id));
+};
+
 const getHierarchyRows = (db: any, teamIdArg?: string | null) =>
   db.exec({
     sql: "SELECT id, type, parent_id, title FROM items WHERE team_id = ?;",
@@ -1108,7 +1645,7 @@ type SessionRecord = {
   team_id: string;
 };
 
-type OutboxStatus = "queued" | "sending" | "acked" | "failed";
+type OutboxStatus = "queued" | "sending" | "acked" | "failed" | "rejected" | "dead";
 type OutboxEnvelope = {
   op_id: string;
   team_id: string;
@@ -1116,15 +1653,37 @@ type OutboxEnvelope = {
   created_at: number;
   op_name: string;
   payload: unknown;
+  hlc: string;
 };
 
 // Local/session lifecycle mutations are intentionally excluded from team sync.
+// Undo/redo stacks and conflict records are local too; the ops they replay
+// are enqueued instead.
 const OUTBOX_SKIPPED_OPS = new Set<string>([
   "auth.session.set",
   "auth.session.bootstrap",
   "auth.logout",
+  "conflict.resolve",
+  "sync.dismiss_discarded",
+  "sync.dead_letter.retry",
+  "sync.dead_letter.edit",
+  "sync.dead_letter.discard",
+  "history.undo",
+  "history.redo",
 ]);
 
+// Preview-only invocations compute a diff without writing, so there is
+// nothing to replicate.
+const isPreviewOnlyMutation = (
+  opName: string,
+  args: Record<string, unknown>
+) => opName === "schedule.auto_plan" && args.commit !== true;
+
+// Per-device settings (column widths, view toggles) stay on this device; the
+// server would reject them anyway.
+const isDeviceLocalMutation = (opName: string, args: Record<string, unknown>) =>
+  opName === "set_setting" && !isSharedSettingKey(args.key);
+
 const normalizeUserList = (value: unknown): UserRecord[] => {
   if (!Array.isArray(value)) {
     return [];
@@ -1339,6 +1898,75 @@ const requireCanWriteTeam = (
   return requireRoleAtLeast(role, "editor");
 };
 
+/**
+ * The session user's role in a root project. A project without
+ * project_members rows is open to the team at each member's team role; once
+ * it lists members, only they get in, at the role on their row. Team owners
+ * keep owner access to every project.
+ */
+const getProjectRole = (
+  db: any,
+  session: SessionRecord,
+  teamRole: TeamRole,
+  projectId: string
+): TeamRole | null => {
+  if (teamRole === "owner") {
+    return "owner";
+  }
+  const rows = db.exec({
+    sql: "SELECT user_id, role FROM project_members WHERE project_id = ?;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [projectId],
+  }) as Array<[string, string]>;
+  if (rows.length === 0) {
+    return teamRole;
+  }
+  const own = rows.find(([userId]) => userId === session.user_id);
+  return own ? normalizeTeamRole(own[1]) : null;
+};
+
+const requireProjectRoleAtLeast = (
+  db: any,
+  session: SessionRecord,
+  teamRole: TeamRole,
+  projectId: string,
+  requiredRole: TeamRole
+): TeamRole => {
+  const role = getProjectRole(db, session, teamRole, projectId);
+  if (!role) {
+    throwRpcError("NO_PROJECT_ACCESS", "You do not have access to this project.");
+  }
+  return requireRoleAtLeast(role as TeamRole, requiredRole);
+};
+
+// Restricted root projects the session user is not listed on. Their rows
+// stay listed; everything under them is hidden from reads.
+const getHiddenProjectIds = (db: any, teamId: string): string[] => {
+  const session = getActiveSession(db);
+  if (!session || session.team_id !== teamId) {
+    return [];
+  }
+  if (getTeamMemberRole(session.user_id, teamId, db) === "owner") {
+    return [];
+  }
+  const rows = db.exec({
+    sql: `SELECT DISTINCT pm.project_id
+      FROM project_members pm
+      JOIN items i ON i.id = pm.project_id
+      WHERE i.team_id = ?
+        AND i.parent_id IS NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM project_members own
+          WHERE own.project_id = pm.project_id AND own.user_id = ?
+        );`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, session.user_id],
+  }) as Array<[string]>;
+  return rows.map((row) => row[0]);
+};
+
 const requireSession = (dbArg?: any): SessionRecord => {
   const session = getActiveSession(dbArg);
   if (!session) {
@@ -1563,6 +2191,97 @@ const readTeamMembers = (db: any, teamId: string): TeamMemberRecord[] => {
   }));
 };
 
+const readProjectMembers = (db: any, projectId: string) => {
+  const rows = db.exec({
+    sql: `SELECT pm.user_id, COALESCE(u.display_name, pm.user_id), pm.role
+          FROM project_members pm
+          LEFT JOIN users u ON u.user_id = pm.user_id
+          WHERE pm.project_id = ?
+          ORDER BY CASE pm.role WHEN 'owner' THEN 0 ELSE 1 END, lower(COALESCE(u.display_name, pm.user_id)) ASC;`,
+    bind: [projectId],
+    rowMode: "array",
+    returnValue: "resultRows",
+  }) as Array<[string, string, string]>;
+  return rows.map((row) => ({
+    user_id: row[0],
+    display_name: row[1],
+    role: normalizeTeamRole(row[2]) ?? "viewer",
+  }));
+};
+
+const isRootProject = (db: any, projectId: string, teamId: string) =>
+  (
+    db.exec({
+      sql: "SELECT 1 FROM items WHERE id = ? AND team_id = ? AND parent_id IS NULL AND type = 'project' LIMIT 1;",
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [projectId, teamId],
+    }) as Array<[number]>
+  ).length > 0;
+
+type TimeEntryRecord = {
+  entry_id: string;
+  item_id: string;
+  start_at: number;
+  end_at: number;
+  duration_minutes: number;
+  note: string | null;
+  source: string;
+  user_id: string | null;
+};
+
+const readTimeEntry = (db: any, entryId: string, teamId: string): TimeEntryRecord | null => {
+  const rows = db.exec({
+    sql: `SELECT t.entry_id, t.item_id, t.start_at, t.end_at, t.duration_minutes, t.note,
+        t.source, t.user_id
+      FROM time_entries t
+      JOIN items i ON i.id = t.item_id
+      WHERE t.entry_id = ? AND i.team_id = ?
+      LIMIT 1;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [entryId, teamId],
+  }) as Array<[string, string, number, number, number, string | null, string, string | null]>;
+  if (rows.length === 0) {
+    return null;
+  }
+  const [row] = rows;
+  return {
+    entry_id: row[0],
+    item_id: row[1],
+    start_at: row[2],
+    end_at: row[3],
+    duration_minutes: row[4],
+    note: row[5],
+    source: row[6],
+    user_id: row[7],
+  };
+};
+
+// The time_entries_overlap invariant from verifyIntegrity: entries on one
+// item may touch but not overlap.
+const findOverlappingTimeEntry = (
+  db: any,
+  itemId: string,
+  startAt: number,
+  endAt: number,
+  excludeEntryIds: string[]
+) => {
+  const excluded =
+    excludeEntryIds.length > 0
+      ? ` AND entry_id NOT IN (${buildPlaceholders(excludeEntryIds.length)})`
+      : "";
+  const rows = db.exec({
+    sql: `SELECT entry_id FROM time_entries
+      WHERE item_id = ? AND start_at < ? AND end_at > ?${excluded}
+      LIMIT 1;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [itemId, endAt, startAt, ...excludeEntryIds],
+  }) as Array<[string]>;
+  return rows[0]?.[0] ?? null;
+};
+
 const getUserMap = (db: any, teamIdArg?: string | null) => {
   const teamId = teamIdArg ?? getCurrentTeamId(db);
   const rows = db.exec({
@@ -1589,10 +2308,78 @@ const getUserDisplayName = (userId: string, nameMap: Map<string, string>) => {
   return nameMap.get(userId) ?? `User ${userId.slice(0, 6)}`;
 };
 
-const exportData = (db: any, teamIdArg?: string | null) => {
-  const teamId = teamIdArg ?? getCurrentTeamId(db);
+const parseJsonColumn = (value: string) => {
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return null;
+  }
+};
+
+const getSavedViews = (
+  db: any,
+  teamId: string,
+  viewId?: string
+): SavedView[] => {
+  const rows = db.exec({
+    sql: `SELECT view_id, name, view_type, scope_json, state_json, created_by, created_at, updated_at
+      FROM saved_views
+      WHERE team_id = ?${viewId ? " AND view_id = ?" : ""}
+      ORDER BY lower(name) ASC, created_at ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: viewId ? [teamId, viewId] : [teamId],
+  }) as Array<[string, string, string, string, string, string | null, number, number]>;
+  return rows.map((row) => ({
+    view_id: row[0],
+    name: row[1],
+    view_type: isSavedViewType(row[2]) ? row[2] : "list",
+    scope: normalizeSavedViewScope(parseJsonColumn(row[3])) ?? {
+      kind: "project",
+      projectId: null,
+    },
+    state: normalizeSavedViewState(parseJsonColumn(row[4])),
+    created_by: row[5],
+    created_at: row[6],
+    updated_at: row[7],
+  }));
+};
+
+const ensureSavedViewFields = (args: Record<string, unknown>) => {
+  const viewType = args.view_type;
+  if (!isSavedViewType(viewType)) {
+    throw new Error("view_type must be list, kanban, calendar, gantt, or dashboard");
+  }
+  const scope = normalizeSavedViewScope(args.scope);
+  if (!scope) {
+    throw new Error("scope must be a project or user scope");
+  }
+  return { viewType, scope };
+};
+
+// Names are not unique: concurrent creates on two devices must both replay.
+// Callers get a warning instead, and lookups by name report duplicates.
+const getSavedViewNameWarnings = (
+  db: any,
+  teamId: string,
+  name: string,
+  viewId: string
+) => {
+  const rows = db.exec({
+    sql: `SELECT 1 FROM saved_views
+      WHERE team_id = ? AND name = ? COLLATE NOCASE AND view_id != ?
+      LIMIT 1;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, name, viewId],
+  }) as Array<[number]>;
+  return rows.length > 0 ? [`Another saved view is already named "${name}"`] : [];
+};
+
+const exportData = (db: any, teamIdArg?: string | null) => {
+  const teamId = teamIdArg ?? getCurrentTeamId(db);
   const itemsRows = db.exec({
-    sql: "SELECT id, type, title, parent_id, status, priority, due_at, estimate_mode, estimate_minutes, health, health_mode, notes, created_at, updated_at, archived_at FROM items WHERE team_id = ?;",
+    sql: "SELECT id, type, title, parent_id, status, priority, due_at, estimate_mode, estimate_minutes, health, health_mode, notes, created_at, updated_at, archived_at, recurrence_rule, recurrence_series_id, completed_at, sort_order FROM items WHERE team_id = ?;",
     rowMode: "array",
     returnValue: "resultRows",
     bind: [teamId],
@@ -1612,7 +2399,11 @@ const exportData = (db: any, teamIdArg?: string | null) => {
       string | null,
       number,
       number,
-      number | null
+      number | null,
+      string | null,
+      string | null,
+      number | null,
+      number
     ]
   >;
 
@@ -1637,24 +2428,28 @@ const exportData = (db: any, teamIdArg?: string | null) => {
   }) as Array<[string, string, string, string, number, number | null]>;
 
   const blockRows = db.exec({
-    sql: `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes, b.locked, b.source
+    sql: `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes, b.locked, b.source,
+        b.recurrence_rule
       FROM scheduled_blocks b
       JOIN items i ON i.id = b.item_id
       WHERE i.team_id = ?;`,
     rowMode: "array",
     returnValue: "resultRows",
     bind: [teamId],
-  }) as Array<[string, string, number, number, number, string]>;
+  }) as Array<[string, string, number, number, number, string, string | null]>;
 
   const timeRows = db.exec({
-    sql: `SELECT t.entry_id, t.item_id, t.start_at, t.end_at, t.duration_minutes, t.note, t.source
+    sql: `SELECT t.entry_id, t.item_id, t.start_at, t.end_at, t.duration_minutes, t.note, t.source,
+        t.user_id
       FROM time_entries t
       JOIN items i ON i.id = t.item_id
       WHERE i.team_id = ?;`,
     rowMode: "array",
     returnValue: "resultRows",
     bind: [teamId],
-  }) as Array<[string, string, number, number, number, string | null, string]>;
+  }) as Array<
+    [string, string, number, number, number, string | null, string, string | null]
+  >;
 
   const runningTimerRows = db.exec({
     sql: `SELECT rt.item_id, rt.start_at, rt.note
@@ -1686,6 +2481,50 @@ const exportData = (db: any, teamIdArg?: string | null) => {
     bind: [teamId],
   }) as Array<[string, string]>;
 
+  const projectMemberRows = db.exec({
+    sql: `SELECT pm.project_id, pm.user_id, pm.role
+      FROM project_members pm
+      JOIN items i ON i.id = pm.project_id
+      WHERE i.team_id = ?;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, string, string]>;
+
+  const capacityRows = db.exec({
+    sql: `SELECT user_id, weekday, capacity_minutes
+      FROM user_capacity
+      WHERE team_id = ?
+      ORDER BY user_id, weekday;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, number, number]>;
+
+  const busyBlockRows = db.exec({
+    sql: `SELECT user_id, source_calendar, uid, title, start_at, duration_minutes, all_day,
+        recurrence_rule, imported_at
+      FROM busy_blocks
+      WHERE team_id = ?
+      ORDER BY user_id, source_calendar, uid;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<
+    [string, string, string, string, number, number, number, string | null, number]
+  >;
+
+  const timeZoneRows = db.exec({
+    sql: `SELECT u.user_id, u.time_zone
+      FROM users u
+      JOIN team_members tm ON tm.user_id = u.user_id
+      WHERE tm.team_id = ?
+      ORDER BY u.user_id;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, string | null]>;
+
   const settings = Array.from(getSettings(db).entries()).map(([key, value]) => ({
     key,
     value,
@@ -1709,6 +2548,10 @@ const exportData = (db: any, teamIdArg?: string | null) => {
       created_at: row[12],
       updated_at: row[13],
       archived_at: row[14],
+      recurrence_rule: row[15],
+      recurrence_series_id: row[16],
+      completed_at: row[17],
+      sort_order: row[18],
     })),
     dependencies: dependencyRows.map((row) => ({
       item_id: row[0],
@@ -1731,6 +2574,7 @@ const exportData = (db: any, teamIdArg?: string | null) => {
       duration_minutes: row[3],
       locked: row[4],
       source: row[5],
+      recurrence_rule: row[6],
     })),
     time_entries: timeRows.map((row) => ({
       entry_id: row[0],
@@ -1740,6 +2584,7 @@ const exportData = (db: any, teamIdArg?: string | null) => {
       duration_minutes: row[4],
       note: row[5],
       source: row[6],
+      user_id: row[7],
     })),
     running_timers: runningTimerRows.map((row) => ({
       item_id: row[0],
@@ -1754,14 +2599,712 @@ const exportData = (db: any, teamIdArg?: string | null) => {
       item_id: row[0],
       assignee_id: row[1],
     })),
+    project_members: projectMemberRows.map((row) => ({
+      project_id: row[0],
+      user_id: row[1],
+      role: row[2],
+    })),
+    user_capacity: capacityRows.map((row) => ({
+      user_id: row[0],
+      weekday: row[1],
+      capacity_minutes: row[2],
+    })),
+    working_calendar: readWorkingCalendar(db, teamId),
+    saved_views: getSavedViews(db, teamId),
+    busy_blocks: busyBlockRows.map((row) => ({
+      user_id: row[0],
+      source_calendar: row[1],
+      uid: row[2],
+      title: row[3],
+      start_at: row[4],
+      duration_minutes: row[5],
+      all_day: row[6],
+      recurrence_rule: row[7],
+      imported_at: row[8],
+    })),
+    user_time_zones: timeZoneRows.map((row) => ({
+      user_id: row[0],
+      time_zone: row[1],
+    })),
     settings,
   };
 };
 
+const buildItemDeepLink = (baseUrl: string | null, itemId: string) =>
+  baseUrl
+    ? `${baseUrl.replace(/\/+$/, "")}/item/${encodeURIComponent(itemId)}`
+    : null;
+
+// Calendar clients expect DATE values for UNTIL when DTSTART is all-day.
+const toAllDayRecurrenceRule = (rule: string) =>
+  rule.replace(/UNTIL=(\d{8})T\d{6}Z?/, "UNTIL=$1");
+
+const exportIcs = (db: any, args: Record<string, unknown>) => {
+  const teamId = getCurrentTeamId(db);
+  const timeMin = ensureTimeMs(args.time_min, "time_min");
+  const timeMax = ensureTimeMs(args.time_max, "time_max");
+  if (timeMax <= timeMin) {
+    throw new Error("time_max must be greater than time_min");
+  }
+  const baseUrl = ensureOptionalString(args.base_url ?? null, "base_url");
+  const { scopeProjectId, scopeUserId } = resolveScopeArgs(args);
+  const itemIds = getScopeItemIds(db, scopeProjectId, scopeUserId, teamId);
+  const calendar = zonedCalendar(resolveTimeZone(db, args));
+
+  let calendarName = "MakeWhen";
+  if (scopeUserId) {
+    calendarName = `MakeWhen: ${getUserDisplayName(scopeUserId, getUserMap(db))}`;
+  } else if (scopeProjectId === UNGROUPED_PROJECT_ID) {
+    calendarName = "MakeWhen: Ungrouped";
+  } else if (scopeProjectId) {
+    const titleRows = db.exec({
+      sql: "SELECT title FROM items WHERE id = ? AND team_id = ?;",
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [scopeProjectId, teamId],
+    }) as Array<[string]>;
+    if (titleRows[0]) {
+      calendarName = `MakeWhen: ${titleRows[0][0]}`;
+    }
+  }
+
+  const events: IcsEvent[] = [];
+  if (itemIds.length > 0) {
+    const placeholders = buildPlaceholders(itemIds.length);
+    const itemRows = db.exec({
+      sql: `SELECT id, title, notes, status, due_at, recurrence_rule, updated_at
+        FROM items
+        WHERE team_id = ?
+          AND id IN (${placeholders});`,
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [teamId, ...itemIds],
+    }) as Array<
+      [string, string, string | null, string, number | null, string | null, number]
+    >;
+    const itemMap = new Map(itemRows.map((row) => [row[0], row]));
+
+    const blockRows = db.exec({
+      sql: `SELECT block_id, item_id, start_at, duration_minutes, recurrence_rule
+        FROM scheduled_blocks
+        WHERE item_id IN (${placeholders})
+          AND start_at < ?
+          AND ((start_at + duration_minutes * 60000) > ?
+            OR recurrence_rule IS NOT NULL)
+        ORDER BY start_at ASC;`,
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [...itemIds, timeMax, timeMin],
+    }) as Array<[string, string, number, number, string | null]>;
+    for (const row of blockRows) {
+      const item = itemMap.get(row[1]);
+      if (!item) {
+        continue;
+      }
+      events.push({
+        uid: `block-${row[0]}@makewhen`,
+        start_at: row[2],
+        end_at: row[2] + row[3] * 60000,
+        all_day: false,
+        summary: item[1],
+        description: item[2],
+        url: buildItemDeepLink(baseUrl, item[0]),
+        rrule: row[4],
+        updated_at: item[6],
+      });
+    }
+
+    for (const item of itemRows) {
+      const dueAt = item[4];
+      if (dueAt === null || dueAt >= timeMax) {
+        continue;
+      }
+      const isOpen = item[3] !== "done" && item[3] !== "canceled";
+      const rule = isOpen ? item[5] : null;
+      if (dueAt < timeMin && !rule) {
+        continue;
+      }
+      const dueDay = calendar.startOfDay(dueAt);
+      events.push({
+        uid: `due-${item[0]}@makewhen`,
+        start_at: dueDay,
+        end_at: calendar.addDays(dueDay, 1),
+        all_day: true,
+        summary: `Due: ${item[1]}`,
+        description: item[2],
+        url: buildItemDeepLink(baseUrl, item[0]),
+        rrule: rule ? toAllDayRecurrenceRule(rule) : null,
+        updated_at: item[6],
+      });
+    }
+  }
+
+  events.sort((a, b) => a.start_at - b.start_at || a.uid.localeCompare(b.uid));
+  return {
+    filename: `${calendarName
+      .replace(/[^A-Za-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .toLowerCase()}.ics`,
+    content: buildIcsCalendar(events, {
+      name: calendarName,
+      now: Date.now(),
+      timeZone: calendar.timeZone,
+    }),
+    event_count: events.length,
+  };
+};
+
+const readTimeReportKeys = (
+  db: any,
+  teamId: string,
+  groupBy: TimeReportGroupBy,
+  itemIds: string[]
+) => {
+  const keys = new Map<string, TimeReportKey[]>();
+  if (itemIds.length === 0) {
+    return keys;
+  }
+  const placeholders = buildPlaceholders(itemIds.length);
+  let rows: Array<[string, string, string]> = [];
+  if (groupBy === "project") {
+    const roots = readProjectRoots(db, teamId, itemIds);
+    const rootIds = Array.from(new Set(roots.map(([, rootId]) => rootId)));
+    const titles =
+      rootIds.length > 0
+        ? new Map(
+            db.exec({
+              sql: `SELECT id, title FROM items
+                WHERE id IN (${buildPlaceholders(rootIds.length)}) AND team_id = ?;`,
+              rowMode: "array",
+              returnValue: "resultRows",
+              bind: [...rootIds, teamId],
+            }) as Array<[string, string]>
+          )
+        : new Map<string, string>();
+    rows = roots.map(([itemId, rootId]) => [itemId, rootId, titles.get(rootId) ?? rootId]);
+  } else if (groupBy === "milestone") {
+    rows = db.exec({
+      sql: `WITH RECURSIVE chain(item_id, id, parent_id, type, depth) AS (
+          SELECT id, id, parent_id, type, 0 FROM items
+          WHERE id IN (${placeholders}) AND team_id = ?
+          UNION ALL
+          SELECT c.item_id, i.id, i.parent_id, i.type, c.depth + 1
+          FROM items i JOIN chain c ON i.id = c.parent_id
+          WHERE c.depth < 64
+        )
+        SELECT c.item_id, c.id, i.title, MIN(c.depth)
+        FROM chain c JOIN items i ON i.id = c.id
+        WHERE c.type = 'milestone'
+        GROUP BY c.item_id;`,
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [...itemIds, teamId],
+    }) as Array<[string, string, string]>;
+  } else if (groupBy === "assignee") {
+    const users = getUserMap(db, teamId);
+    rows = (
+      db.exec({
+        sql: `SELECT item_id, assignee_id FROM item_assignees
+          WHERE item_id IN (${placeholders});`,
+        rowMode: "array",
+        returnValue: "resultRows",
+        bind: itemIds,
+      }) as Array<[string, string]>
+    ).map(([itemId, userId]) => [
+      itemId,
+      userId,
+      getUserDisplayName(userId, users) ?? userId,
+    ]);
+  } else if (groupBy === "tag") {
+    rows = (
+      db.exec({
+        sql: `SELECT DISTINCT item_id, tag FROM item_tags WHERE item_id IN (${placeholders});`,
+        rowMode: "array",
+        returnValue: "resultRows",
+        bind: itemIds,
+      }) as Array<[string, string]>
+    ).map(([itemId, tag]) => [itemId, tag, tag]);
+  }
+  for (const [itemId, key, label] of rows) {
+    keys.set(itemId, [...(keys.get(itemId) ?? []), { key, label }]);
+  }
+  return keys;
+};
+
+const readTimeReport = (db: any, args: Record<string, unknown>) => {
+  const teamId = getCurrentTeamId(db);
+  const timeMin = ensureTimeMs(args.time_min, "time_min");
+  const timeMax = ensureTimeMs(args.time_max, "time_max");
+  if (timeMax <= timeMin) {
+    throw new Error("time_max must be greater than time_min");
+  }
+  const groupBy = args.group_by ?? "project";
+  if (!isTimeReportGroupBy(groupBy)) {
+    throw new Error(`group_by must be one of ${TIME_REPORT_GROUPS.join(", ")}`);
+  }
+  const { scopeProjectId, scopeUserId } = resolveScopeArgs(args);
+  const scopeIds = new Set(getScopeItemIds(db, scopeProjectId, scopeUserId, teamId));
+
+  const entries = (
+    db.exec({
+      sql: `SELECT t.item_id, t.start_at, t.duration_minutes
+        FROM time_entries t
+        JOIN items i ON i.id = t.item_id
+        WHERE i.team_id = ? AND t.start_at >= ? AND t.start_at < ?;`,
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [teamId, timeMin, timeMax],
+    }) as Array<[string, number, number]>
+  )
+    .filter(([itemId]) => scopeIds.has(itemId))
+    .map(([itemId, startAt, minutes]) => ({
+      item_id: itemId,
+      start_at: startAt,
+      duration_minutes: minutes,
+    }));
+
+  // Rollup-estimated tasks would count their subtasks' estimates twice.
+  const tasks = (
+    db.exec({
+      sql: `SELECT i.id, i.title, i.completed_at, i.estimate_minutes,
+          COALESCE((SELECT SUM(t.duration_minutes) FROM time_entries t WHERE t.item_id = i.id), 0)
+        FROM items i
+        WHERE i.team_id = ?
+          AND i.type = 'task'
+          AND i.status = 'done'
+          AND i.estimate_mode != 'rollup'
+          AND i.completed_at >= ? AND i.completed_at < ?;`,
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [teamId, timeMin, timeMax],
+    }) as Array<[string, string, number, number, number]>
+  )
+    .filter(([itemId]) => scopeIds.has(itemId))
+    .map(([itemId, title, completedAt, estimate, actual]) => ({
+      item_id: itemId,
+      title,
+      completed_at: completedAt,
+      estimate_minutes: estimate,
+      actual_minutes: actual,
+    }));
+
+  const itemIds = Array.from(
+    new Set([...entries.map((entry) => entry.item_id), ...tasks.map((task) => task.item_id)])
+  );
+  return buildTimeReport({
+    groupBy,
+    entries,
+    tasks,
+    keysByItem: readTimeReportKeys(db, teamId, groupBy, itemIds),
+    calendar: zonedCalendar(resolveTimeZone(db, args)),
+  });
+};
+
+const readUserCapacity = (db: any, teamId: string) => {
+  const rows = db.exec({
+    sql: `SELECT user_id, weekday, capacity_minutes
+      FROM user_capacity
+      WHERE team_id = ?;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, number, number]>;
+  const byUser = new Map<string, Array<[number, number]>>();
+  for (const [userId, weekday, minutes] of rows) {
+    const list = byUser.get(userId) ?? [];
+    list.push([weekday, minutes]);
+    byUser.set(userId, list);
+  }
+  return new Map(
+    Array.from(byUser.entries()).map(([userId, list]) => [
+      userId,
+      normalizeWeekdayMinutes(list),
+    ])
+  );
+};
+
+const readWorkingCalendar = (db: any, teamId: string): WorkingCalendarRules => {
+  const weekdayRows = db.exec({
+    sql: "SELECT weekday, is_working FROM team_working_days WHERE team_id = ?;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[number, number]>;
+  const holidayRows = db.exec({
+    sql: `SELECT holiday_id, day, name FROM team_holidays
+      WHERE team_id = ?
+      ORDER BY day ASC, name ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, string, string]>;
+  const timeOffRows = db.exec({
+    sql: `SELECT time_off_id, user_id, start_day, end_day, note FROM user_time_off
+      WHERE team_id = ?
+      ORDER BY start_day ASC, user_id ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, string, string, string, string | null]>;
+  return {
+    working_weekdays: normalizeWorkingWeekdays(weekdayRows),
+    holidays: holidayRows.map(([holidayId, day, name]) => ({
+      holiday_id: holidayId,
+      day,
+      name,
+    })),
+    time_off: timeOffRows.map(([timeOffId, userId, startDay, endDay, note]) => ({
+      time_off_id: timeOffId,
+      user_id: userId,
+      start_day: startDay,
+      end_day: endDay,
+      note,
+    })),
+  };
+};
+
+// Working time for one request, in its zone and the configured workday
+// hours. Each lookup adds the given users' time off to the team's holidays;
+// the calendar is read on first use and results are kept per user set.
+const createWorkingTimeLookup = (db: any, timeZone: string) => {
+  let base: Omit<Parameters<typeof buildWorkingTime>[0], "userIds"> | null = null;
+  const cache = new Map<string, WorkingTime>();
+  return (userIds: string[] = []) => {
+    const key = [...userIds].sort().join("\n");
+    let workingTime = cache.get(key);
+    if (!workingTime) {
+      if (!base) {
+        const settings = getSettings(db);
+        base = {
+          rules: readWorkingCalendar(db, getCurrentTeamId(db)),
+          calendar: zonedCalendar(timeZone),
+          workday: normalizeWorkdayHours(
+            settings.get("ui.workday_start_hour"),
+            settings.get("ui.workday_end_hour")
+          ),
+        };
+      }
+      workingTime = buildWorkingTime({ ...base, userIds });
+      cache.set(key, workingTime);
+    }
+    return workingTime;
+  };
+};
+
+/**
+ * Per-user load for a run of local days. A person's load counts all of their
+ * work in the team, whatever project the view is scoped to, since that is
+ * what decides whether they are overbooked; a user scope narrows the rows.
+ */
+const readCapacityRange = (db: any, args: Record<string, unknown>) => {
+  const teamId = getCurrentTeamId(db);
+  const { scopeUserId } = resolveScopeArgs(args);
+  const calendar = zonedCalendar(resolveTimeZone(db, args));
+  const firstDay = parseLocalDayStart(
+    args.day_start_local,
+    "day_start_local",
+    calendar.timeZone
+  );
+  const dayCount = Math.min(ensurePositiveInteger(args.day_count, "day_count"), 366);
+  const dayStarts = Array.from({ length: dayCount + 1 }, (_, index) =>
+    calendar.addDays(firstDay, index)
+  );
+  const timeMin = dayStarts[0];
+  const timeMax = dayStarts[dayCount];
+  const now = Date.now();
+
+  const capacityByUser = readUserCapacity(db, teamId);
+  const nameMap = getUserMap(db, teamId);
+  const userIds = scopeUserId ? [scopeUserId] : Array.from(nameMap.keys());
+  const users: CapacityUser[] = userIds.map((userId) => ({
+    user_id: userId,
+    display_name: getUserDisplayName(userId, nameMap) ?? userId,
+    minutes_by_weekday: capacityByUser.get(userId) ?? normalizeWeekdayMinutes([]),
+  }));
+  const visibleIds = new Set(getScopeItemIds(db, null, scopeUserId, teamId));
+
+  const blockRows = db.exec({
+    sql: `SELECT b.block_id, b.item_id, i.title, b.start_at, b.duration_minutes,
+        a.assignee_id, b.recurrence_rule
+      FROM scheduled_blocks b
+      JOIN item_assignees a ON a.item_id = b.item_id
+      JOIN items i ON i.id = b.item_id
+      WHERE i.team_id = ?
+        AND b.start_at < ?
+        AND ((b.start_at + b.duration_minutes * 60000) > ?
+          OR b.recurrence_rule IS NOT NULL);`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, timeMax, timeMin],
+  }) as Array<[string, string, string, number, number, string, string | null]>;
+  const blocks: CapacityBlock[] = expandRecurringBlocks(
+    blockRows
+      .filter((row) => visibleIds.has(row[1]))
+      .map((row) => ({
+        block_id: row[0],
+        item_id: row[1],
+        title: row[2],
+        start_at: row[3],
+        duration_minutes: row[4],
+        user_id: row[5],
+        recurrence_rule: row[6],
+      })),
+    timeMin,
+    timeMax
+  );
+
+  // What is left of an estimate once logged time and blocks still ahead are
+  // taken off; that part is spread over the days up to the due date. Work on
+  // several people is shared between them.
+  const taskRows = db.exec({
+    sql: `SELECT i.id, i.title, i.due_at, i.estimate_minutes,
+        COALESCE((SELECT SUM(t.duration_minutes) FROM time_entries t WHERE t.item_id = i.id), 0),
+        COALESCE((
+          SELECT SUM(b.start_at + b.duration_minutes * 60000 - MAX(b.start_at, ?)) / 60000
+          FROM scheduled_blocks b
+          WHERE b.item_id = i.id
+            AND b.recurrence_rule IS NULL
+            AND b.start_at + b.duration_minutes * 60000 > ?
+        ), 0),
+        a.assignee_id,
+        (SELECT COUNT(*) FROM item_assignees c WHERE c.item_id = i.id)
+      FROM items i
+      JOIN item_assignees a ON a.item_id = i.id
+      WHERE i.team_id = ?
+        AND i.type = 'task'
+        AND i.status != 'done'
+        AND i.estimate_mode != 'rollup'
+        AND i.estimate_minutes > 0;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [now, now, teamId],
+  }) as Array<[string, string, number | null, number, number, number, string, number]>;
+  const tasks: CapacityTask[] = taskRows
+    .filter((row) => visibleIds.has(row[0]))
+    .map(([itemId, title, dueAt, estimate, logged, ahead, userId, assigneeCount]) => ({
+      user_id: userId,
+      item_id: itemId,
+      title,
+      due_at: dueAt,
+      unscheduled_minutes: Math.max(0, estimate - logged - ahead) / Math.max(1, assigneeCount),
+    }));
+
+  const workingCalendar = readWorkingCalendar(db, teamId);
+  return {
+    day_starts: dayStarts.slice(0, dayCount),
+    time_zone: calendar.timeZone,
+    users: buildCapacityRange({
+      dayStarts,
+      now,
+      users,
+      blocks,
+      tasks,
+      calendar,
+      isDayOff: (userId, dayStart) =>
+        dayOffReason(workingCalendar, calendar, dayStart, [userId]) !== null,
+    }),
+  };
+};
+
+type BusyEventInput = {
+  uid: string;
+  title: string;
+  start_at: number;
+  duration_minutes: number;
+  all_day: boolean;
+  recurrence_rule: string | null;
+};
+
+// Turns parsed VEVENTs into busy rows. Free (transparent) and cancelled
+// events are dropped, so a re-import removes them; per-instance overrides
+// are not supported and fall back to the series rule.
+const prepareBusyEvents = (content: string) => {
+  const { events, errors } = parseIcsEvents(content);
+  const warnings = [...errors];
+  const byUid = new Map<string, BusyEventInput>();
+  let overrides = 0;
+  for (const event of events) {
+    if (event.is_override) {
+      overrides += 1;
+      continue;
+    }
+    if (event.cancelled || event.transparent || byUid.has(event.uid)) {
+      continue;
+    }
+    let recurrenceRule: string | null = null;
+    if (event.rrule) {
+      try {
+        recurrenceRule = formatRecurrenceRule(parseRecurrenceRule(event.rrule));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "unsupported rule";
+        warnings.push(`${event.uid}: ${message}; only the first occurrence was imported`);
+      }
+    }
+    byUid.set(event.uid, {
+      uid: event.uid,
+      title: event.summary || "Busy",
+      start_at: event.start_at,
+      duration_minutes: Math.max(
+        1,
+        Math.round((event.end_at - event.start_at) / 60000)
+      ),
+      all_day: event.all_day,
+      recurrence_rule: recurrenceRule,
+    });
+  }
+  if (overrides > 0) {
+    warnings.push(`${overrides} modified occurrence(s) were skipped`);
+  }
+  return { events: Array.from(byUid.values()), warnings };
+};
+
+const parseBusyEventsArg = (value: unknown) =>
+  ensureArray(value, "events").map((entry, index) => {
+    if (!entry || typeof entry !== "object") {
+      throw new Error(`events[${index}] must be an object`);
+    }
+    const record = entry as Record<string, unknown>;
+    return {
+      uid: ensureString(record.uid, `events[${index}].uid`),
+      title: ensureString(record.title, `events[${index}].title`),
+      start_at: ensureInteger(record.start_at, `events[${index}].start_at`),
+      duration_minutes: ensurePositiveInteger(
+        record.duration_minutes,
+        `events[${index}].duration_minutes`
+      ),
+      all_day: record.all_day === true,
+      recurrence_rule: normalizeRecurrenceRuleArg(
+        record.recurrence_rule,
+        `events[${index}].recurrence_rule`
+      ),
+    };
+  });
+
+/**
+ * Replaces one source calendar's busy blocks for a user. Events are matched
+ * by UID, so re-importing the same feed updates rows in place and drops
+ * events that are no longer present.
+ */
+const importBusyBlocks = (
+  db: any,
+  teamId: string,
+  userId: string,
+  calendar: string,
+  events: BusyEventInput[],
+  now: number
+) => {
+  const existing = new Set(
+    (
+      db.exec({
+        sql: `SELECT uid FROM busy_blocks
+          WHERE team_id = ? AND user_id = ? AND source_calendar = ?;`,
+        rowMode: "array",
+        returnValue: "resultRows",
+        bind: [teamId, userId, calendar],
+      }) as Array<[string]>
+    ).map((row) => row[0])
+  );
+  let created = 0;
+  let updated = 0;
+  for (const event of events) {
+    db.exec(
+      `INSERT INTO busy_blocks (team_id, user_id, source_calendar, uid, title, start_at, duration_minutes, all_day, recurrence_rule, imported_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(team_id, user_id, source_calendar, uid) DO UPDATE SET
+          title = excluded.title,
+          start_at = excluded.start_at,
+          duration_minutes = excluded.duration_minutes,
+          all_day = excluded.all_day,
+          recurrence_rule = excluded.recurrence_rule,
+          imported_at = excluded.imported_at;`,
+      {
+        bind: [
+          teamId,
+          userId,
+          calendar,
+          event.uid,
+          event.title,
+          event.start_at,
+          event.duration_minutes,
+          event.all_day ? 1 : 0,
+          event.recurrence_rule,
+          now,
+        ],
+      }
+    );
+    if (existing.delete(event.uid)) {
+      updated += 1;
+    } else {
+      created += 1;
+    }
+  }
+  for (const uid of existing) {
+    db.exec(
+      `DELETE FROM busy_blocks
+        WHERE team_id = ? AND user_id = ? AND source_calendar = ? AND uid = ?;`,
+      { bind: [teamId, userId, calendar, uid] }
+    );
+  }
+  return { created, updated, removed: existing.size };
+};
+
+const getBusyBlocksInRange = (
+  db: any,
+  teamId: string,
+  userIds: string[],
+  timeMin: number,
+  timeMax: number
+) => {
+  if (userIds.length === 0) {
+    return [];
+  }
+  const rows = db.exec({
+    sql: `SELECT user_id, source_calendar, uid, title, start_at, duration_minutes,
+        all_day, recurrence_rule
+      FROM busy_blocks
+      WHERE team_id = ?
+        AND user_id IN (${buildPlaceholders(userIds.length)})
+        AND start_at < ?
+        AND ((start_at + duration_minutes * 60000) > ?
+          OR recurrence_rule IS NOT NULL);`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, ...userIds, timeMax, timeMin],
+  }) as Array<
+    [string, string, string, string, number, number, number, string | null]
+  >;
+  return expandRecurringBlocks(
+    rows.map((row) => ({
+      block_id: `${row[0]}:${row[1]}:${row[2]}`,
+      user_id: row[0],
+      source_calendar: row[1],
+      uid: row[2],
+      title: row[3],
+      start_at: row[4],
+      duration_minutes: row[5],
+      all_day: Boolean(row[6]),
+      recurrence_rule: row[7],
+    })),
+    timeMin,
+    timeMax
+  ).map((block) => ({
+    busy_id: block.block_id,
+    user_id: block.user_id,
+    source_calendar: block.source_calendar,
+    title: block.title,
+    start_at: block.start_at,
+    duration_minutes: block.duration_minutes,
+    all_day: block.all_day,
+  }));
+};
+
+// Day counts are calendar days in `timeZone`: due later today is 0 days
+// away, and anything past due counts as at least a day overdue.
 const computeDueMetrics = (
   dueAt: number | null,
   now: number,
-  status: string
+  status: string,
+  timeZone: string
 ) => {
   if (dueAt === null) {
     return {
@@ -1770,13 +3313,12 @@ const computeDueMetrics = (
       days_overdue: 0,
     };
   }
-  const dayMs = 24 * 60 * 60 * 1000;
-  const diffMs = dueAt - now;
-  const isOverdue = diffMs < 0 && status !== "done" && status !== "canceled";
+  const isOverdue = dueAt < now && status !== "done" && status !== "canceled";
+  const days = zonedDayDifference(now, dueAt, timeZone);
   return {
     is_overdue: isOverdue,
-    days_until_due: isOverdue ? 0 : Math.max(0, Math.ceil(diffMs / dayMs)),
-    days_overdue: isOverdue ? Math.ceil(Math.abs(diffMs) / dayMs) : 0,
+    days_until_due: isOverdue ? 0 : Math.max(0, days),
+    days_overdue: isOverdue ? Math.max(1, -days) : 0,
   };
 };
 
@@ -1835,14 +3377,17 @@ const hasDependencyCycle = (
 const insertAuditLog = (
   db: any,
   envelope: MutateEnvelope,
-  result: MutateResult
+  result: MutateResult,
+  session: SessionRecord | null,
+  undoEntry: UndoEntry | null,
+  itemChanges: ItemChangeRecord[]
 ) => {
   const logId = crypto.randomUUID();
   const payload = JSON.stringify(envelope);
   const output = JSON.stringify(result);
 
   db.exec(
-    "INSERT INTO audit_log (log_id, op_id, op_name, actor, ts, args_json, result_json) VALUES (?, ?, ?, ?, ?, ?, ?);",
+    "INSERT INTO audit_log (log_id, op_id, op_name, actor, ts, args_json, result_json, team_id, user_id, inverse_json, redo_json, undo_state, changes_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
     {
       bind: [
         logId,
@@ -1854,457 +3399,3365 @@ const insertAuditLog = (
         envelope.ts,
         payload,
         output,
+        session?.team_id ?? null,
+        session?.user_id ?? null,
+        undoEntry ? JSON.stringify(undoEntry.inverse) : null,
+        undoEntry ? JSON.stringify(undoEntry.redo) : null,
+        undoEntry ? "done" : null,
+        itemChanges.length > 0 ? JSON.stringify(itemChanges) : null,
       ],
     }
   );
 };
 
-const enqueueOutboxOp = (
-  db: any,
-  opName: string,
-  payload: unknown,
-  session: SessionRecord,
-  opId: string,
-  createdAt: number
-) => {
-  const outbox: OutboxEnvelope = {
-    op_id: opId,
-    team_id: session.team_id,
-    actor_user_id: session.user_id,
-    created_at: createdAt,
-    op_name: opName,
-    payload: payload ?? {},
-  };
+// Columns copied when a deleted subtree is captured for undo; items.reinsert
+// writes them back as-is. Items always return to the active team.
+const ITEM_SNAPSHOT_COLUMNS: Array<[string, string[]]> = [
+  [
+    "items",
+    [
+      "id",
+      "type",
+      "title",
+      "parent_id",
+      "status",
+      "priority",
+      "due_at",
+      "estimate_mode",
+      "estimate_minutes",
+      "health",
+      "health_mode",
+      "notes",
+      "created_at",
+      "updated_at",
+      "sort_order",
+      "completed_at",
+      "archived_at",
+      "recurrence_rule",
+      "recurrence_series_id",
+    ],
+  ],
+  ["dependencies", ["item_id", "depends_on_id", "type", "lag_minutes"]],
+  ["blockers", ["blocker_id", "item_id", "kind", "text", "reason", "created_at", "cleared_at"]],
+  [
+    "scheduled_blocks",
+    ["block_id", "item_id", "start_at", "duration_minutes", "locked", "source", "recurrence_rule"],
+  ],
+  [
+    "time_entries",
+    ["entry_id", "item_id", "start_at", "end_at", "duration_minutes", "note", "source", "user_id"],
+  ],
+  ["running_timers", ["item_id", "start_at", "note"]],
+  ["item_tags", ["item_id", "tag"]],
+  ["item_assignees", ["item_id", "assignee_id"]],
+];
 
-  db.exec(
-    "INSERT INTO op_outbox (op_id, team_id, actor_user_id, created_at, op_name, payload_json, status, last_error, server_seq) VALUES (?, ?, ?, ?, ?, ?, ?, NULL, NULL);",
-    {
-      bind: [
-        outbox.op_id,
-        outbox.team_id,
-        outbox.actor_user_id,
-        outbox.created_at,
+const readItemSnapshot = (db: any, itemIds: string[]) => {
+  const placeholders = buildPlaceholders(itemIds.length);
+  const snapshot: Record<string, Array<Record<string, unknown>>> = {};
+  for (const [table, columns] of ITEM_SNAPSHOT_COLUMNS) {
+    const where =
+      table === "items"
+        ? `id IN (${placeholders})`
+        : table === "dependencies"
+          ? `item_id IN (${placeholders}) OR depends_on_id IN (${placeholders})`
+          : `item_id IN (${placeholders})`;
+    const rows = db.exec({
+      sql: `SELECT ${columns.join(", ")} FROM ${table} WHERE ${where};`,
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: table === "dependencies" ? [...itemIds, ...itemIds] : itemIds,
+    }) as unknown[][];
+    snapshot[table] = rows.map((row) =>
+      Object.fromEntries(columns.map((column, index) => [column, row[index]]))
+    );
+  }
+  return snapshot;
+};
+
+const writeItemSnapshot = (db: any, snapshotArg: unknown, teamId: string) => {
+  if (!snapshotArg || typeof snapshotArg !== "object") {
+    throw new Error("snapshot must be an object");
+  }
+  const snapshot = snapshotArg as Record<string, unknown>;
+  const restoredIds = new Set<string>();
+  for (const [table, columns] of ITEM_SNAPSHOT_COLUMNS) {
+    const rows = ensureArray(snapshot[table] ?? [], table);
+    rows.forEach((value, index) => {
+      if (!value || typeof value !== "object") {
+        throw new Error(`${table}[${index}] must be an object`);
+      }
+      const row = value as Record<string, unknown>;
+      if (table === "items") {
+        const id = ensureString(row.id, `items[${index}].id`);
+        const existingTeamId = getItemTeamId(db, id);
+        if (existingTeamId && existingTeamId !== teamId) {
+          throwRpcError("CROSS_TEAM_ACCESS", "Item is outside the active team scope.");
+        }
+        restoredIds.add(id);
+      } else {
+        const itemId = ensureString(row.item_id, `${table}[${index}].item_id`);
+        if (table === "dependencies") {
+          const dependsOnId = ensureString(
+            row.depends_on_id,
+            `dependencies[${index}].depends_on_id`
+          );
+          // Edges to items outside the snapshot only return if both ends exist.
+          if (getItemTeamId(db, itemId) !== teamId || getItemTeamId(db, dependsOnId) !== teamId) {
+            return;
+          }
+        } else if (!restoredIds.has(itemId)) {
+          return;
+        }
+      }
+      const insertColumns = table === "items" ? [...columns, "team_id"] : columns;
+      const bind = columns.map((column) => row[column] ?? null);
+      if (table === "items") {
+        bind.push(teamId);
+      }
+      db.exec(
+        `INSERT OR REPLACE INTO ${table} (${insertColumns.join(", ")}) VALUES (${buildPlaceholders(insertColumns.length)});`,
+        { bind }
+      );
+    });
+  }
+  const ids = Array.from(restoredIds);
+  refreshItemSearch(db, ids);
+  return ids;
+};
+
+const UPDATABLE_ITEM_FIELDS = new Set([
+  "title",
+  "parent_id",
+  "due_at",
+  "estimate_minutes",
+  "estimate_mode",
+  "priority",
+  "health",
+  "health_mode",
+  "notes",
+  "sort_order",
+  "recurrence_rule",
+]);
+
+const readStringArg = (value: unknown) =>
+  typeof value === "string" && value.trim().length > 0 ? value : null;
+
+const readStringArrayArg = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0)
+    : [];
+
+const readResultString = (result: MutateResult, key: string) =>
+  result.result && typeof result.result === "object"
+    ? readStringArg((result.result as Record<string, unknown>)[key])
+    : null;
+
+const readArchivedAt = (db: any, itemIds: string[]) => {
+  if (itemIds.length === 0) {
+    return [];
+  }
+  return db.exec({
+    sql: `SELECT id, archived_at FROM items WHERE id IN (${buildPlaceholders(itemIds.length)});`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: itemIds,
+  }) as Array<[string, number | null]>;
+};
+
+// Archive and restore act on whole subtrees unless `subtree: false`, which
+// undo uses to touch exactly the rows it changed.
+const resolveArchiveTargetIds = (
+  db: any,
+  seedIds: string[],
+  args: Record<string, unknown>
+) => {
+  if (args.subtree !== false) {
+    return getSubtreeIds(db, seedIds);
+  }
+  const teamId = getCurrentTeamId(db);
+  return readArchivedAt(db, seedIds)
+    .map((row) => row[0])
+    .filter((id) => getItemTeamId(db, id) === teamId);
+};
+
+const readScheduledBlockForItem = (db: any, itemId: string) => {
+  const rows = db.exec({
+    sql: "SELECT block_id, start_at, duration_minutes, locked, source, recurrence_rule FROM scheduled_blocks WHERE item_id = ? LIMIT 1;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [itemId],
+  }) as Array<[string, number, number, number, string, string | null]>;
+  if (rows.length === 0) {
+    return null;
+  }
+  const [blockId, startAt, durationMinutes, locked, source, recurrenceRule] = rows[0];
+  return {
+    block_id: blockId,
+    item_id: itemId,
+    start_at: startAt,
+    duration_minutes: durationMinutes,
+    locked,
+    source,
+    recurrence_rule: recurrenceRule,
+  };
+};
+
+const readDependencyEdge = (db: any, itemId: string, dependsOnId: string) => {
+  const rows = db.exec({
+    sql: "SELECT type, lag_minutes FROM dependencies WHERE item_id = ? AND depends_on_id = ?;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [itemId, dependsOnId],
+  }) as Array<[string, number]>;
+  return rows.length > 0 ? { type: rows[0][0], lag_minutes: Number(rows[0][1]) } : null;
+};
+
+/**
+ * Reads the state an undoable op is about to overwrite and returns a finisher
+ * that turns it, together with the op's result, into inverse ops. Returns
+ * null for ops that cannot be undone; an empty inverse means nothing changed.
+ */
+const captureUndo = (
+  db: any,
+  opName: string,
+  args: Record<string, unknown>
+): ((result: MutateResult) => HistoryOp[]) | null => {
+  switch (opName) {
+    case "create_item":
+      return (result) => {
+        const id = readResultString(result, "id");
+        return id ? [{ op_name: "delete_item", args: { item_id: id } }] : [];
+      };
+    case "update_item_fields": {
+      const id = readStringArg(args.id);
+      const fields =
+        args.fields && typeof args.fields === "object"
+          ? Object.keys(args.fields).filter((key) => UPDATABLE_ITEM_FIELDS.has(key))
+          : [];
+      if (!id || fields.length === 0) {
+        return null;
+      }
+      const rows = db.exec({
+        sql: `SELECT ${fields.join(", ")} FROM items WHERE id = ?;`,
+        rowMode: "array",
+        returnValue: "resultRows",
+        bind: [id],
+      }) as unknown[][];
+      if (rows.length === 0) {
+        return null;
+      }
+      const previous = Object.fromEntries(
+        fields.map((field, index) => [field, rows[0][index]])
+      );
+      return () => [{ op_name: "update_item_fields", args: { id, fields: previous } }];
+    }
+    case "set_status": {
+      const id = readStringArg(args.id) ?? readStringArg(args.item_id);
+      if (!id) {
+        return null;
+      }
+      const rows = db.exec({
+        sql: "SELECT status FROM items WHERE id = ?;",
+        rowMode: "array",
+        returnValue: "resultRows",
+        bind: [id],
+      }) as Array<[string]>;
+      if (rows.length === 0) {
+        return null;
+      }
+      const previousStatus = rows[0][0];
+      // Completing an item may auto-archive its subtree.
+      const activeIds =
+        args.status === "done"
+          ? readArchivedAt(db, getSubtreeIds(db, [id]))
+              .filter((row) => row[1] === null)
+              .map((row) => row[0])
+          : [];
+      return (result) => {
+        const inverse: HistoryOp[] = [];
+        const nextOccurrenceId = readResultString(result, "next_occurrence_id");
+        if (nextOccurrenceId) {
+          inverse.push({ op_name: "delete_item", args: { item_id: nextOccurrenceId } });
+        }
+        inverse.push({
+          op_name: "set_status",
+          args: setStatusArgs(id, previousStatus, { override: true }),
+        });
+        const archivedIds = readArchivedAt(db, activeIds)
+          .filter((row) => row[1] !== null)
+          .map((row) => row[0]);
+        if (archivedIds.length > 0) {
+          inverse.push({
+            op_name: "items.restore_many",
+            args: { ids: archivedIds, subtree: false },
+          });
+        }
+        return inverse;
+      };
+    }
+    case "scheduled_block.create":
+    case "create_block":
+    case "scheduled_block.update":
+    case "move_block":
+    case "resize_block":
+    case "scheduled_block.delete":
+    case "delete_block": {
+      let itemId = readStringArg(args.item_id);
+      if (opName !== "scheduled_block.create" && opName !== "create_block") {
+        const blockId = readStringArg(args.block_id);
+        const rows = blockId
+          ? (db.exec({
+              sql: "SELECT item_id FROM scheduled_blocks WHERE block_id = ?;",
+              rowMode: "array",
+              returnValue: "resultRows",
+              bind: [blockId],
+            }) as Array<[string]>)
+          : [];
+        itemId = rows[0]?.[0] ?? null;
+      }
+      if (!itemId) {
+        return null;
+      }
+      const blockItemId = itemId;
+      // Items hold at most one block, so undo restores the item's block as it
+      // was: removed if there was none, moved back if it survived, recreated
+      // otherwise.
+      const previous = readScheduledBlockForItem(db, blockItemId);
+      return (result) => {
+        if (!previous) {
+          const blockId = readResultString(result, "block_id");
+          return blockId ? [{ op_name: "scheduled_block.delete", args: { block_id: blockId } }] : [];
+        }
+        if (readScheduledBlockForItem(db, blockItemId)?.block_id === previous.block_id) {
+          return [
+            {
+              op_name: "scheduled_block.update",
+              args: {
+                block_id: previous.block_id,
+                start_at: previous.start_at,
+                duration_minutes: previous.duration_minutes,
+                recurrence_rule: previous.recurrence_rule,
+              },
+            },
+          ];
+        }
+        return [{ op_name: "scheduled_block.create", args: { ...previous } }];
+      };
+    }
+    case "dependency.create":
+      return (result) => {
+        const edgeId = readResultString(result, "edge_id");
+        return edgeId ? [{ op_name: "dependency.delete", args: { edge_id: edgeId } }] : [];
+      };
+    case "dependency.update":
+    case "dependency.delete": {
+      const edgeId = readStringArg(args.edge_id);
+      if (!edgeId || edgeId.split("->").length !== 2) {
+        return null;
+      }
+      const { successorId, predecessorId } = parseEdgeId(edgeId);
+      const previous = readDependencyEdge(db, successorId, predecessorId);
+      if (!previous) {
+        return null;
+      }
+      return () => [
+        opName === "dependency.update"
+          ? { op_name: "dependency.update", args: { edge_id: edgeId, ...previous } }
+          : {
+              op_name: "dependency.create",
+              args: { predecessor_id: predecessorId, successor_id: successorId, ...previous },
+            },
+      ];
+    }
+    case "add_dependency":
+    case "remove_dependency": {
+      const itemId = readStringArg(args.item_id);
+      const dependsOnId = readStringArg(args.depends_on_id);
+      if (!itemId || !dependsOnId) {
+        return null;
+      }
+      const previous = readDependencyEdge(db, itemId, dependsOnId);
+      if (opName === "add_dependency") {
+        return previous
+          ? null
+          : () => [
+              {
+                op_name: "remove_dependency",
+                args: { item_id: itemId, depends_on_id: dependsOnId },
+              },
+            ];
+      }
+      return previous
+        ? () => [
+            {
+              op_name: "dependency.create",
+              args: { predecessor_id: dependsOnId, successor_id: itemId, ...previous },
+            },
+          ]
+        : null;
+    }
+    case "item.archive":
+    case "items.archive_many": {
+      const seedIds =
+        opName === "item.archive"
+          ? readStringArrayArg([args.item_id])
+          : readStringArrayArg(args.ids);
+      const activeIds = readArchivedAt(db, resolveArchiveTargetIds(db, seedIds, args))
+        .filter((row) => row[1] === null)
+        .map((row) => row[0]);
+      return activeIds.length > 0
+        ? () => [
+            { op_name: "items.restore_many", args: { ids: activeIds, subtree: false } },
+          ]
+        : null;
+    }
+    case "item.restore":
+    case "items.restore_many": {
+      const seedIds =
+        opName === "item.restore"
+          ? readStringArrayArg([args.item_id])
+          : readStringArrayArg(args.ids);
+      // Re-archive with the original timestamps, one op per timestamp.
+      const idsByArchivedAt = new Map<number, string[]>();
+      for (const [id, archivedAt] of readArchivedAt(
+        db,
+        resolveArchiveTargetIds(db, seedIds, args)
+      )) {
+        if (archivedAt !== null) {
+          idsByArchivedAt.set(archivedAt, [...(idsByArchivedAt.get(archivedAt) ?? []), id]);
+        }
+      }
+      return idsByArchivedAt.size > 0
+        ? () =>
+            Array.from(idsByArchivedAt, ([archivedAt, ids]) => ({
+              op_name: "items.archive_many",
+              args: { ids, now_at: archivedAt, subtree: false },
+            }))
+        : null;
+    }
+    case "delete_item":
+    case "items.delete_many": {
+      const seedIds =
+        opName === "delete_item"
+          ? readStringArrayArg([args.item_id])
+          : readStringArrayArg(args.ids);
+      const deletedIds = getSubtreeIds(db, seedIds, getCurrentTeamId(db));
+      if (deletedIds.length === 0) {
+        return null;
+      }
+      const snapshot = readItemSnapshot(db, deletedIds);
+      return () => [{ op_name: "items.reinsert", args: { snapshot } }];
+    }
+    default:
+      return null;
+  }
+};
+
+// Stacks are per user and team. Undo takes the newest applied entry; redo
+// takes the most recently undone one.
+const getHistoryEntry = (
+  db: any,
+  session: SessionRecord,
+  state: "done" | "undone"
+) => {
+  const rows = db.exec({
+    sql: `SELECT log_id, op_name, inverse_json, redo_json FROM audit_log
+      WHERE team_id = ? AND user_id = ? AND undo_state = ?
+      ORDER BY ${state === "done" ? "ts" : "undone_at"} DESC, rowid DESC
+      LIMIT 1;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [session.team_id, session.user_id, state],
+  }) as Array<[string, string, string, string]>;
+  if (rows.length === 0) {
+    return null;
+  }
+  const [logId, opName, inverseJson, redoJson] = rows[0];
+  return {
+    log_id: logId,
+    op_name: opName,
+    inverse: (parseJsonColumn(inverseJson) ?? []) as HistoryOp[],
+    redo: parseJsonColumn(redoJson) as HistoryOp,
+  };
+};
+
+// A new undoable change forks history, so anything waiting to be redone is
+// dropped.
+const discardRedoStack = (db: any, session: SessionRecord) => {
+  db.exec(
+    "UPDATE audit_log SET undo_state = 'discarded' WHERE team_id = ? AND user_id = ? AND undo_state = 'undone';",
+    { bind: [session.team_id, session.user_id] }
+  );
+};
+
+// Fields compared before and after each op to build item history. Related
+// rows (tags, assignees, dependencies, open blockers, the scheduled block)
+// are folded in so they read as fields of the item.
+const ITEM_HISTORY_COLUMNS = [
+  "title",
+  "status",
+  "priority",
+  "due_at",
+  "estimate_minutes",
+  "estimate_mode",
+  "health",
+  "health_mode",
+  "notes",
+  "parent_id",
+  "archived_at",
+  "completed_at",
+  "recurrence_rule",
+];
+
+// Bulk and session ops either touch nothing item-shaped or would snapshot
+// the whole team; history ops are recorded through the ops they replay.
+const ITEM_HISTORY_SKIPPED_OPS = new Set<string>([
+  "import_data",
+  "export_data",
+  "import_ics",
+  "set_setting",
+  "history.undo",
+  "history.redo",
+]);
+
+// Ops whose effect reaches the whole subtree of the items they name.
+const ITEM_HISTORY_SUBTREE_OPS = new Set<string>([
+  "set_status",
+  "item.archive",
+  "items.archive_many",
+  "item.restore",
+  "items.restore_many",
+  "delete_item",
+  "items.delete_many",
+  "gantt.shift_subtree",
+]);
+
+const ITEM_HISTORY_ID_KEYS = new Set<string>([
+  "id",
+  "item_id",
+  "ids",
+  "parent_id",
+  "predecessor_id",
+  "successor_id",
+  "depends_on_id",
+]);
+
+type ItemHistoryState = Record<string, unknown>;
+
+const collectItemHistoryIds = (
+  db: any,
+  opName: string,
+  args: Record<string, unknown>
+) => {
+  const ids = new Set<string>();
+  const visit = (value: unknown, depth: number) => {
+    if (!value || typeof value !== "object" || depth > 4) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((entry) => visit(entry, depth + 1));
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      if (ITEM_HISTORY_ID_KEYS.has(key)) {
+        readStringArrayArg(Array.isArray(entry) ? entry : [entry]).forEach((id) =>
+          ids.add(id)
+        );
+      } else if (key === "block_id" || key === "blocker_id") {
+        const blockOrBlockerId = readStringArg(entry);
+        if (blockOrBlockerId) {
+          const rows = db.exec({
+            sql:
+              key === "block_id"
+                ? "SELECT item_id FROM scheduled_blocks WHERE block_id = ?;"
+                : "SELECT item_id FROM blockers WHERE blocker_id = ?;",
+            rowMode: "array",
+            returnValue: "resultRows",
+            bind: [blockOrBlockerId],
+          }) as Array<[string]>;
+          rows.forEach((row) => ids.add(row[0]));
+        }
+      } else {
+        visit(entry, depth + 1);
+      }
+    }
+  };
+  visit(args, 0);
+  if (typeof args.edge_id === "string" && args.edge_id.includes("->")) {
+    args.edge_id.split("->").forEach((id) => id && ids.add(id));
+  }
+  const seedIds = Array.from(ids);
+  return ITEM_HISTORY_SUBTREE_OPS.has(opName)
+    ? Array.from(new Set([...seedIds, ...getSubtreeIds(db, seedIds)]))
+    : seedIds;
+};
+
+const readItemHistoryStates = (db: any, itemIds: string[]) => {
+  const states = new Map<string, ItemHistoryState>();
+  if (itemIds.length === 0) {
+    return states;
+  }
+  const placeholders = buildPlaceholders(itemIds.length);
+  const itemRows = db.exec({
+    sql: `SELECT id, ${ITEM_HISTORY_COLUMNS.join(", ")} FROM items WHERE id IN (${placeholders});`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: itemIds,
+  }) as unknown[][];
+  for (const row of itemRows) {
+    const state: ItemHistoryState = {
+      tags: [],
+      assignee_ids: [],
+      depends_on_ids: [],
+      open_blockers: [],
+      scheduled_start_at: null,
+      scheduled_duration_minutes: null,
+    };
+    ITEM_HISTORY_COLUMNS.forEach((column, index) => {
+      state[column] = row[index + 1] ?? null;
+    });
+    states.set(row[0] as string, state);
+  }
+  const appendList = (sql: string, field: string) => {
+    const rows = db.exec({
+      sql,
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: itemIds,
+    }) as Array<[string, string]>;
+    for (const [itemId, value] of rows) {
+      (states.get(itemId)?.[field] as string[] | undefined)?.push(value);
+    }
+  };
+  appendList(
+    `SELECT item_id, tag FROM item_tags WHERE item_id IN (${placeholders}) ORDER BY tag;`,
+    "tags"
+  );
+  appendList(
+    `SELECT item_id, assignee_id FROM item_assignees WHERE item_id IN (${placeholders}) ORDER BY assignee_id;`,
+    "assignee_ids"
+  );
+  appendList(
+    `SELECT item_id, depends_on_id FROM dependencies WHERE item_id IN (${placeholders}) ORDER BY depends_on_id;`,
+    "depends_on_ids"
+  );
+  appendList(
+    `SELECT item_id, COALESCE(NULLIF(text, ''), reason, '') FROM blockers
+      WHERE item_id IN (${placeholders}) AND cleared_at IS NULL
+      ORDER BY created_at, blocker_id;`,
+    "open_blockers"
+  );
+  const blockRows = db.exec({
+    sql: `SELECT item_id, start_at, duration_minutes FROM scheduled_blocks WHERE item_id IN (${placeholders});`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: itemIds,
+  }) as Array<[string, number, number]>;
+  for (const [itemId, startAt, durationMinutes] of blockRows) {
+    const state = states.get(itemId);
+    if (state) {
+      state.scheduled_start_at = startAt;
+      state.scheduled_duration_minutes = durationMinutes;
+    }
+  }
+  return states;
+};
+
+const diffItemHistoryStates = (
+  before: Map<string, ItemHistoryState>,
+  after: Map<string, ItemHistoryState>
+): ItemChangeRecord[] => {
+  const records: ItemChangeRecord[] = [];
+  const itemIds = new Set([...before.keys(), ...after.keys()]);
+  for (const itemId of itemIds) {
+    const previous = before.get(itemId) ?? null;
+    const next = after.get(itemId) ?? null;
+    const changes: ItemFieldChange[] = [];
+    for (const field of Object.keys(next ?? previous ?? {})) {
+      const oldValue = previous ? previous[field] : null;
+      const newValue = next ? next[field] : null;
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({ field, old_value: oldValue, new_value: newValue });
+      }
+    }
+    if (previous && next && changes.length === 0) {
+      continue;
+    }
+    records.push({
+      item_id: itemId,
+      title: String((next ?? previous)?.title ?? ""),
+      kind: !previous ? "created" : !next ? "deleted" : "updated",
+      changes,
+    });
+  }
+  return records;
+};
+
+/**
+ * Snapshots the items an op names (and, for subtree ops, their descendants)
+ * and returns a finisher that diffs them against the post-op state. Items
+ * the op creates are picked up from the `id`/`next_occurrence_id` results.
+ */
+const captureItemHistory = (
+  db: any,
+  opName: string,
+  args: Record<string, unknown>
+): ((result: MutateResult) => ItemChangeRecord[]) | null => {
+  if (ITEM_HISTORY_SKIPPED_OPS.has(opName)) {
+    return null;
+  }
+  const itemIds = collectItemHistoryIds(db, opName, args);
+  const before = readItemHistoryStates(db, itemIds);
+  return (result) => {
+    const createdIds = ["id", "next_occurrence_id"]
+      .map((key) => readResultString(result, key))
+      .filter((id): id is string => !!id && !itemIds.includes(id));
+    const after = readItemHistoryStates(db, [...itemIds, ...createdIds]);
+    return diffItemHistoryStates(before, after);
+  };
+};
+
+const parseItemChangeRecords = (value: string | null) => {
+  const parsed = value ? parseJsonColumn(value) : null;
+  return Array.isArray(parsed) ? (parsed as ItemChangeRecord[]) : [];
+};
+
+// Reads recorded item changes from local ops (audit_log) and pulled remote
+// ops (op_applied), newest first. Parent, assignee and dependency ids are
+// resolved to titles and display names for display.
+const readItemHistoryEntries = (
+  db: any,
+  teamId: string,
+  options: { itemId?: string; before?: number | null; limit: number }
+): ItemHistoryEntry[] => {
+  const itemFilter = options.itemId
+    ? "AND EXISTS (SELECT 1 FROM json_each(changes_json) c WHERE json_extract(c.value, '$.item_id') = ?)"
+    : "";
+  const beforeTs = options.before ?? Number.MAX_SAFE_INTEGER;
+  const filterBind = options.itemId ? [options.itemId] : [];
+  const rows = db.exec({
+    sql: `SELECT op_id, op_name, source, actor_user_id, ts, changes_json FROM (
+        SELECT op_id, op_name, 'local' AS source, user_id AS actor_user_id, ts, changes_json, rowid AS seq
+        FROM audit_log
+        WHERE team_id = ? AND changes_json IS NOT NULL AND ts < ? ${itemFilter}
+        UNION ALL
+        SELECT op_id, op_name, 'remote' AS source, actor_user_id, ts, changes_json, server_seq AS seq
+        FROM op_applied
+        WHERE team_id = ? AND changes_json IS NOT NULL AND ts < ? ${itemFilter}
+      )
+      ORDER BY ts DESC, seq DESC
+      LIMIT ?;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [
+      teamId,
+      beforeTs,
+      ...filterBind,
+      teamId,
+      beforeTs,
+      ...filterBind,
+      options.limit,
+    ],
+  }) as Array<[string, string, "local" | "remote", string | null, number, string]>;
+
+  const userMap = getUserMap(db, teamId);
+  const entries: ItemHistoryEntry[] = [];
+  for (const [opId, opName, source, actorUserId, ts, changesJson] of rows) {
+    for (const record of parseItemChangeRecords(changesJson)) {
+      if (options.itemId && record.item_id !== options.itemId) {
+        continue;
+      }
+      entries.push({
+        ...record,
+        op_id: opId,
+        op_name: opName,
+        source,
+        actor_user_id: actorUserId,
+        actor_name: actorUserId ? userMap.get(actorUserId) ?? null : null,
+        ts,
+      });
+    }
+  }
+
+  const referencedIds = new Set<string>();
+  for (const entry of entries) {
+    for (const change of entry.changes) {
+      if (change.field === "parent_id" || change.field === "depends_on_ids") {
+        for (const value of [change.old_value, change.new_value]) {
+          readStringArrayArg(Array.isArray(value) ? value : [value]).forEach((id) =>
+            referencedIds.add(id)
+          );
+        }
+      }
+    }
+  }
+  const titleRows =
+    referencedIds.size > 0
+      ? (db.exec({
+          sql: `SELECT id, title FROM items WHERE id IN (${buildPlaceholders(referencedIds.size)});`,
+          rowMode: "array",
+          returnValue: "resultRows",
+          bind: Array.from(referencedIds),
+        }) as Array<[string, string]>)
+      : [];
+  const titles = new Map(titleRows);
+  const resolve = (field: string, value: unknown): unknown => {
+    const lookup =
+      field === "assignee_ids"
+        ? (id: string) => userMap.get(id) ?? id
+        : field === "parent_id" || field === "depends_on_ids"
+          ? (id: string) => titles.get(id) ?? id
+          : null;
+    if (!lookup) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map((id) => (typeof id === "string" ? lookup(id) : id));
+    }
+    return typeof value === "string" ? lookup(value) : value;
+  };
+  return entries.map((entry) => ({
+    ...entry,
+    changes: entry.changes.map((change) => ({
+      field: change.field,
+      old_value: resolve(change.field, change.old_value),
+      new_value: resolve(change.field, change.new_value),
+    })),
+  }));
+};
+
+// Payload keys that name an item, directly or through a row owned by one.
+const OP_ITEM_ID_KEYS = [
+  "item_id",
+  "id",
+  "parent_id",
+  "predecessor_id",
+  "successor_id",
+  "depends_on_id",
+];
+const OP_ITEM_ID_LIST_KEYS = ["ids", "item_ids"];
+const OP_ITEM_ROW_KEYS: Array<[string, string]> = [
+  ["block_id", "scheduled_blocks"],
+  ["blocker_id", "blockers"],
+  ["entry_id", "time_entries"],
+];
+
+const collectOpItemIds = (db: any, payload: Record<string, unknown>) => {
+  const ids = new Set<string>();
+  const add = (value: unknown) => {
+    if (typeof value === "string" && value.trim().length > 0) {
+      ids.add(value.trim());
+    }
+  };
+  for (const key of OP_ITEM_ID_KEYS) {
+    add(payload[key]);
+  }
+  for (const key of OP_ITEM_ID_LIST_KEYS) {
+    if (Array.isArray(payload[key])) {
+      (payload[key] as unknown[]).forEach(add);
+    }
+  }
+  if (typeof payload.edge_id === "string") {
+    payload.edge_id.split("->").forEach(add);
+  }
+  const field = (value: unknown, key: string) =>
+    value && typeof value === "object" ? (value as Record<string, unknown>)[key] : null;
+  if (Array.isArray(payload.plan)) {
+    for (const entry of payload.plan) {
+      add(field(entry, "item_id"));
+    }
+  }
+  const snapshotItems = field(payload.snapshot, "items");
+  if (Array.isArray(snapshotItems)) {
+    for (const entry of snapshotItems) {
+      add(field(entry, "id"));
+    }
+  }
+  for (const [key, table] of OP_ITEM_ROW_KEYS) {
+    if (typeof payload[key] !== "string") {
+      continue;
+    }
+    const rows = db.exec({
+      sql: `SELECT item_id FROM ${table} WHERE ${key} = ? LIMIT 1;`,
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [payload[key]],
+    }) as Array<[string]>;
+    add(rows[0]?.[0]);
+  }
+  return Array.from(ids);
+};
+
+type OpProjectScope = { project_ids: string[]; team_wide: boolean };
+
+/**
+ * Which projects an op touches, for selective sync: the root projects above
+ * the items it names. Ops on a root project row itself are team-wide, so
+ * every device keeps the full project list and can subscribe to any of it.
+ * Ops naming no project item (users, settings, ungrouped tasks) are
+ * team-wide too.
+ */
+const resolveOpProjectScope = (
+  db: any,
+  teamId: string,
+  payload: Record<string, unknown>
+): OpProjectScope => {
+  const projectIds = new Set<string>();
+  let teamWide = false;
+  for (const [itemId, rootId] of readProjectRoots(db, teamId, collectOpItemIds(db, payload))) {
+    // Naming the root as a new parent puts the op inside the project.
+    if (itemId === rootId && itemId !== payload.parent_id) {
+      teamWide = true;
+    } else {
+      projectIds.add(rootId);
+    }
+  }
+  return { project_ids: Array.from(projectIds).sort(), team_wide: teamWide };
+};
+
+// [item id, root project id] for each of `itemIds` that sits in a project,
+// the root itself included.
+const readProjectRoots = (db: any, teamId: string, itemIds: string[]) => {
+  if (itemIds.length === 0) {
+    return [];
+  }
+  const rows = db.exec({
+    sql: `WITH RECURSIVE chain(item_id, id, parent_id, type, depth) AS (
+        SELECT id, id, parent_id, type, 0 FROM items
+        WHERE id IN (${buildPlaceholders(itemIds.length)}) AND team_id = ?
+        UNION ALL
+        SELECT c.item_id, i.id, i.parent_id, i.type, c.depth + 1
+        FROM items i JOIN chain c ON i.id = c.parent_id
+        WHERE c.depth < 64
+      )
+      SELECT item_id, id, type FROM chain WHERE parent_id IS NULL;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [...itemIds, teamId],
+  }) as Array<[string, string, string]>;
+  return rows
+    .filter(([, , rootType]) => rootType === "project")
+    .map(([itemId, rootId]): [string, string] => [itemId, rootId]);
+};
+
+/**
+ * Critical path over the leaf items of `items`. Rollup bars only span their
+ * children, so the path runs over leaf work, and each leaf is measured
+ * against its own project's finish. `edgeRows` are dependency rows
+ * (item_id, depends_on_id, type, lag_minutes).
+ */
+const computeLeafCriticalPath = (
+  db: any,
+  teamId: string,
+  items: Array<{ id: string; parent_id: string | null }>,
+  scheduleMap: Map<string, { start: number | null; end: number | null }>,
+  edgeRows: Array<[string, string, string, number]>,
+  time: WorkingTime
+) => {
+  const parentIds = new Set(items.map((item) => item.parent_id));
+  const leafIds = items.map((item) => item.id).filter((id) => !parentIds.has(id));
+  const leafProjects = new Map(readProjectRoots(db, teamId, leafIds));
+  return computeCriticalPath(
+    leafIds.map((id) => {
+      const schedule = scheduleMap.get(id);
+      return {
+        id,
+        start: schedule?.start ?? null,
+        end: schedule?.end ?? null,
+        projectId: leafProjects.get(id) ?? null,
+      };
+    }),
+    edgeRows.map((row) => ({
+      predecessorId: row[1],
+      successorId: row[0],
+      type: normalizeDependencyType(row[2]),
+      lagMinutes: Number(row[3] ?? 0),
+    })),
+    time
+  );
+};
+
+/**
+ * Checks the session user may run a local op. Ops inside projects need
+ * editor on each project they touch, which a project member can hold without
+ * being a team editor; everything else needs team editor. Membership ops
+ * name their project directly and check for owner themselves.
+ */
+const requireCanWriteOp = (
+  db: any,
+  session: SessionRecord,
+  opName: string,
+  payload: Record<string, unknown>
+) => {
+  const teamRole = requireCanReadTeam(session, session.team_id, db);
+  const projectIds = new Set(
+    readProjectRoots(db, session.team_id, collectOpItemIds(db, payload)).map(
+      ([, rootId]) => rootId
+    )
+  );
+  if (opName.startsWith("project.member.") && typeof payload.project_id === "string") {
+    projectIds.add(payload.project_id);
+  }
+  if (projectIds.size === 0) {
+    requireRoleAtLeast(teamRole, "editor");
+    return;
+  }
+  for (const projectId of projectIds) {
+    requireProjectRoleAtLeast(db, session, teamRole, projectId, "editor");
+  }
+};
+
+const mergeOpProjectScopes = (...scopes: OpProjectScope[]) => {
+  if (scopes.some((scope) => scope.team_wide)) {
+    return [];
+  }
+  return Array.from(new Set(scopes.flatMap((scope) => scope.project_ids))).sort();
+};
+
+const enqueueOutboxOp = (
+  db: any,
+  opName: string,
+  payload: unknown,
+  session: SessionRecord,
+  opId: string,
+  createdAt: number,
+  hlc: string,
+  projectIds: string[]
+) => {
+  const outbox: OutboxEnvelope = {
+    op_id: opId,
+    team_id: session.team_id,
+    actor_user_id: session.user_id,
+    created_at: createdAt,
+    op_name: opName,
+    payload: payload ?? {},
+    hlc,
+  };
+
+  db.exec(
+    "INSERT INTO op_outbox (op_id, team_id, actor_user_id, created_at, op_name, payload_json, status, last_error, server_seq, hlc, project_ids_json) VALUES (?, ?, ?, ?, ?, ?, ?, NULL, NULL, ?, ?);",
+    {
+      bind: [
+        outbox.op_id,
+        outbox.team_id,
+        outbox.actor_user_id,
+        outbox.created_at,
         outbox.op_name,
         JSON.stringify(outbox.payload),
         "queued" satisfies OutboxStatus,
+        outbox.hlc,
+        projectIds.length > 0 ? JSON.stringify(projectIds) : null,
       ],
     }
   );
 };
 
-const getOrCreateClientId = (db: any, requestedClientId?: string | null) => {
-  const requested =
-    typeof requestedClientId === "string" ? requestedClientId.trim() : "";
-  if (requested) {
+const getOrCreateClientId = (db: any, requestedClientId?: string | null) => {
+  const requested =
+    typeof requestedClientId === "string" ? requestedClientId.trim() : "";
+  if (requested) {
+    db.exec(
+      "INSERT OR IGNORE INTO client_info (client_id, created_at) VALUES (?, ?);",
+      {
+        bind: [requested, Date.now()],
+      }
+    );
+    return requested;
+  }
+  const existingRows = db.exec({
+    sql: "SELECT client_id FROM client_info ORDER BY created_at ASC LIMIT 1;",
+    rowMode: "array",
+    returnValue: "resultRows",
+  }) as Array<[string]>;
+  const existing = existingRows[0]?.[0] ?? null;
+  if (existing) {
+    return existing;
+  }
+  const clientId = crypto.randomUUID();
+  db.exec("INSERT INTO client_info (client_id, created_at) VALUES (?, ?);", {
+    bind: [clientId, Date.now()],
+  });
+  return clientId;
+};
+
+const parseJsonObject = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === "object") {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // fallthrough
+  }
+  return {};
+};
+
+const listPendingOutboxOps = (db: any, teamId: string): OpEnvelope[] => {
+  const rows = db.exec({
+    sql: `SELECT op_id, team_id, actor_user_id, created_at, op_name, payload_json, hlc,
+        project_ids_json
+      FROM op_outbox
+      WHERE team_id = ?
+        AND (status = 'queued' OR (status = 'failed' AND COALESCE(next_retry_at, 0) <= ?))
+      ORDER BY created_at ASC, op_id ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, Date.now()],
+  }) as Array<
+    [string, string, string, number, string, string, string | null, string | null]
+  >;
+  if (rows.length === 0) {
+    return [];
+  }
+  const ids = rows.map((row) => row[0]);
+  const placeholders = buildPlaceholders(ids.length);
+  db.exec({
+    sql: `UPDATE op_outbox
+      SET status = 'sending', last_error = NULL
+      WHERE op_id IN (${placeholders});`,
+    bind: ids,
+  });
+  return rows.map((row) => ({
+    op_id: row[0],
+    team_id: row[1],
+    actor_user_id: row[2],
+    created_at: row[3],
+    op_name: row[4],
+    payload: parseJsonObject(row[5]),
+    ...(row[6] ? { hlc: row[6] } : {}),
+    ...(row[7] ? { project_ids: readStringArrayArg(parseJsonColumn(row[7])) } : {}),
+  }));
+};
+
+const mockRemotePush = (db: any, request: PushRequest): PushResponse => {
+  const acked: Array<{ op_id: string; server_seq: number }> = [];
+  const rejected: PushResponse["rejected"] = [];
+
+  for (const op of request.ops) {
+    if (!op || typeof op !== "object") {
+      rejected.push({
+        op_id: "unknown",
+        reason: "invalid op envelope",
+        code: "validation_failed",
+      });
+      continue;
+    }
+    if (op.team_id !== request.team_id) {
+      rejected.push({
+        op_id: op.op_id,
+        reason: "team mismatch between request and op",
+        code: "cross_team_access",
+      });
+      continue;
+    }
+    const existingRows = db.exec({
+      sql: "SELECT server_seq FROM mock_remote_oplog WHERE team_id = ? AND op_id = ? LIMIT 1;",
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [request.team_id, op.op_id],
+    }) as Array<[number]>;
+    if (existingRows.length > 0) {
+      acked.push({ op_id: op.op_id, server_seq: Number(existingRows[0][0]) });
+      continue;
+    }
+
+    const nextRows = db.exec({
+      sql: "SELECT COALESCE(MAX(server_seq), 0) + 1 FROM mock_remote_oplog WHERE team_id = ?;",
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [request.team_id],
+    }) as Array<[number]>;
+    const nextSeq = Number(nextRows[0]?.[0] ?? 1);
+    db.exec(
+      "INSERT INTO mock_remote_oplog (team_id, server_seq, op_id, op_json, created_at) VALUES (?, ?, ?, ?, ?);",
+      {
+        bind: [
+          request.team_id,
+          nextSeq,
+          op.op_id,
+          JSON.stringify(op),
+          Date.now(),
+        ],
+      }
+    );
+    acked.push({ op_id: op.op_id, server_seq: nextSeq });
+  }
+
+  return { acked, rejected };
+};
+
+const applyOutboxPushResult = (
+  db: any,
+  teamId: string,
+  response: PushResponse
+) => {
+  const touchedOpIds = new Set<string>();
+  for (const ack of response.acked) {
+    touchedOpIds.add(ack.op_id);
+    db.exec(
+      "UPDATE op_outbox SET status = 'acked', server_seq = ?, last_error = NULL WHERE team_id = ? AND op_id = ?;",
+      {
+        bind: [ack.server_seq, teamId, ack.op_id],
+      }
+    );
+  }
+  for (const rejected of response.rejected) {
+    touchedOpIds.add(rejected.op_id);
+  }
+  rebaseRejectedOps(
+    db,
+    teamId,
+    response.rejected.filter((entry) => isConflictRejectCode(entry.code))
+  );
+  deadLetterSkewedOps(
+    db,
+    teamId,
+    response.rejected.filter((entry) => !isConflictRejectCode(entry.code))
+  );
+
+  if (touchedOpIds.size > 0) {
+    const ids = Array.from(touchedOpIds);
+    const placeholders = buildPlaceholders(ids.length);
+    db.exec({
+      sql: `UPDATE op_outbox
+        SET status = 'queued'
+        WHERE team_id = ?
+          AND status = 'sending'
+          AND op_id NOT IN (${placeholders});`,
+      bind: [teamId, ...ids],
+    });
+  } else {
+    db.exec(
+      "UPDATE op_outbox SET status = 'queued' WHERE team_id = ? AND status = 'sending';",
+      {
+        bind: [teamId],
+      }
+    );
+  }
+};
+
+type RebaseEntry = {
+  source: "local" | "remote";
+  op_id: string;
+  op_name: string;
+  payload: Record<string, unknown> | null;
+  inverse: HistoryOp[];
+  // An op that changed items but recorded no inverse cannot be rolled back.
+  reversible: boolean;
+  item_ids: string[];
+  at: number;
+  status: OutboxStatus | null;
+};
+
+// Local ops from the outbox and pulled ops from op_applied since `since`, in
+// the order they were applied here.
+const readRebaseTimeline = (db: any, teamId: string, since: number) => {
+  const toEntry = (
+    source: RebaseEntry["source"],
+    row: [string, string, string | null, string | null, string | null, number, OutboxStatus | null]
+  ): RebaseEntry => {
+    const [opId, opName, payloadJson, inverseJson, changesJson, at, status] = row;
+    const payload = payloadJson ? parseJsonObject(payloadJson) : null;
+    const inverse = inverseJson ? parseJsonColumn(inverseJson) : null;
+    const changes = parseItemChangeRecords(changesJson);
+    const inverseOps = Array.isArray(inverse) ? (inverse as HistoryOp[]) : [];
+    return {
+      source,
+      op_id: opId,
+      op_name: opName,
+      payload,
+      inverse: inverseOps,
+      reversible: inverseOps.length > 0 || changes.length === 0,
+      item_ids: Array.from(
+        new Set([
+          ...(payload ? collectItemHistoryIds(db, opName, payload) : []),
+          ...changes.map((change) => change.item_id),
+        ])
+      ),
+      at,
+      status,
+    };
+  };
+  const localRows = db.exec({
+    sql: `SELECT o.op_id, o.op_name, o.payload_json,
+        (SELECT a.inverse_json FROM audit_log a WHERE a.op_id = o.op_id LIMIT 1),
+        (SELECT a.changes_json FROM audit_log a WHERE a.op_id = o.op_id LIMIT 1),
+        o.created_at, o.status
+      FROM op_outbox o
+      WHERE o.team_id = ? AND o.created_at >= ? AND o.discarded_at IS NULL;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, since],
+  }) as Array<[string, string, string, string | null, string | null, number, OutboxStatus]>;
+  const remoteRows = db.exec({
+    sql: `SELECT op_id, op_name, payload_json, inverse_json, changes_json, applied_at, NULL
+      FROM op_applied
+      WHERE team_id = ? AND applied_at >= ? AND op_id IS NOT NULL
+      ORDER BY server_seq ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, since],
+  }) as Array<[string, string, string | null, string | null, string | null, number, null]>;
+  return [
+    ...localRows.map((row) => toEntry("local", row)),
+    ...remoteRows.map((row) => toEntry("remote", row)),
+  ].sort((a, b) => a.at - b.at);
+};
+
+// Ops the server could not validate stay applied here and wait in the
+// dead-letter list, where they can be edited or retried once the client and
+// server agree on the op's shape again.
+const deadLetterSkewedOps = (
+  db: any,
+  teamId: string,
+  rejected: PushResponse["rejected"]
+) => {
+  const now = Date.now();
+  for (const entry of rejected) {
+    db.exec(
+      `UPDATE op_outbox
+        SET status = 'dead', attempt_count = COALESCE(attempt_count, 0) + 1,
+          last_error = ?, next_retry_at = NULL, dead_lettered_at = ?
+        WHERE team_id = ? AND op_id = ? AND discarded_at IS NULL;`,
+      {
+        bind: [
+          `${entry.code ?? "rejected"}: ${entry.reason}`,
+          now,
+          teamId,
+          entry.op_id,
+        ],
+      }
+    );
+  }
+};
+
+/**
+ * Rolls local state back past ops the server rejected. Every op after the
+ * first rejection that touched the same items (directly or through another
+ * such op) is undone newest-first, then the rest are re-applied in order:
+ * remote and acked ops because the server has them, pending local ops
+ * because they may still stand on their own. Pending ops that no longer
+ * apply are discarded along with the rejected ones. If anything in the chain
+ * cannot be undone, local state is left as is and the rejected ops are only
+ * marked, with `rolled_back` off so the user knows the change is still here.
+ */
+const rebaseRejectedOps = (
+  db: any,
+  teamId: string,
+  rejected: PushResponse["rejected"]
+) => {
+  const rejectedById = new Map(rejected.map((entry) => [entry.op_id, entry]));
+  const rejectedRows = rejectedById.size
+    ? (db.exec({
+        sql: `SELECT op_id, op_name, created_at FROM op_outbox
+          WHERE team_id = ? AND discarded_at IS NULL AND op_id IN (${buildPlaceholders(
+            rejectedById.size
+          )})
+          ORDER BY created_at ASC;`,
+        rowMode: "array",
+        returnValue: "resultRows",
+        bind: [teamId, ...rejectedById.keys()],
+      }) as Array<[string, string, number]>)
+    : [];
+  if (rejectedRows.length === 0) {
+    return;
+  }
+
+  const tainted = new Set<string>();
+  const chain = readRebaseTimeline(db, teamId, rejectedRows[0][2]).filter((entry) => {
+    if (!rejectedById.has(entry.op_id) && !entry.item_ids.some((id) => tainted.has(id))) {
+      return false;
+    }
+    entry.item_ids.forEach((id) => tainted.add(id));
+    return true;
+  });
+
+  const dependents = new Map<string, string>();
+  let rolledBack = false;
+  if (chain.every((entry) => entry.reversible)) {
+    const runOp = (opId: string, opName: string, args: Record<string, unknown>) =>
+      handleMutate(
+        { op_id: opId, op_name: opName, actor_type: "system", ts: Date.now(), args },
+        { skipOutbox: true, skipAudit: true }
+      );
+    try {
+      withTransaction(db, () => {
+        for (const entry of [...chain].reverse()) {
+          for (const op of entry.inverse) {
+            const undone = runOp(crypto.randomUUID(), op.op_name, op.args);
+            if (!undone.ok) {
+              throw new Error(`Unable to roll back ${entry.op_name}`);
+            }
+          }
+        }
+        for (const entry of chain) {
+          if (rejectedById.has(entry.op_id) || !entry.payload) {
+            continue;
+          }
+          const reapplied = runOp(entry.op_id, entry.op_name, entry.payload);
+          if (reapplied.ok) {
+            continue;
+          }
+          const message =
+            typeof reapplied.error === "string"
+              ? reapplied.error
+              : reapplied.error?.message ?? "no longer applies";
+          if (entry.source === "local" && entry.status !== "acked") {
+            dependents.set(entry.op_id, message);
+          } else {
+            console.warn(
+              `[sync] ${entry.op_name} ${entry.op_id} did not re-apply after a rejected push: ${message}`
+            );
+          }
+        }
+        return { ok: true };
+      });
+      rolledBack = true;
+    } catch (error) {
+      dependents.clear();
+      console.warn(
+        `[sync] kept rejected ops applied locally: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  const now = Date.now();
+  const [rootOpId, rootOpName] = rejectedRows[0];
+  const root = rejectedById.get(rootOpId)!;
+  const discard = (
+    opId: string,
+    code: string | null,
+    reason: string,
+    rootId: string | null
+  ) => {
+    db.exec(
+      `UPDATE op_outbox
+        SET status = 'rejected', reject_code = ?, last_error = ?, rejected_root_op_id = ?,
+          rolled_back = ?, discarded_at = ?
+        WHERE team_id = ? AND op_id = ?;`,
+      { bind: [code, reason, rootId, rolledBack ? 1 : 0, now, teamId, opId] }
+    );
+    // The change is gone (or was never accepted), so it leaves the undo
+    // stack and no longer stamps the fields it set.
+    db.exec(
+      "UPDATE audit_log SET undo_state = 'discarded' WHERE op_id = ? AND undo_state IS NOT NULL;",
+      { bind: [opId] }
+    );
+    if (rolledBack) {
+      db.exec("DELETE FROM item_field_versions WHERE op_id = ?;", { bind: [opId] });
+    }
+  };
+  for (const [opId] of rejectedRows) {
+    const entry = rejectedById.get(opId)!;
+    discard(opId, entry.code, entry.reason, null);
+  }
+  for (const [opId, message] of dependents) {
+    discard(
+      opId,
+      root.code,
+      `Depends on a rejected ${rootOpName}: ${message}`,
+      rootOpId
+    );
+  }
+};
+
+const readDiscardedOps = (
+  db: any,
+  teamId: string,
+  options: { since?: number } = {}
+): SyncDiscardedOp[] => {
+  const rows = db.exec({
+    sql: `SELECT op_id, op_name, created_at, reject_code, last_error, rejected_root_op_id,
+        rolled_back, discarded_at
+      FROM op_outbox
+      WHERE team_id = ? AND status = 'rejected' AND dismissed_at IS NULL
+        AND discarded_at >= ?
+      ORDER BY discarded_at DESC, created_at DESC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, options.since ?? 0],
+  }) as Array<
+    [string, string, number, string | null, string | null, string | null, number | null, number]
+  >;
+  return rows.map((row) => ({
+    op_id: row[0],
+    op_name: row[1],
+    created_at: row[2],
+    reason_code: row[3],
+    reason: row[4] ?? "rejected by the sync server",
+    caused_by_op_id: row[5],
+    rolled_back: row[6] === 1,
+    discarded_at: row[7],
+  }));
+};
+
+// Each op in the failed batch gets its own retry time (the jitter keeps
+// devices from retrying in step) or, once out of attempts or on a permanent
+// error, moves to the dead-letter state until the user acts on it.
+const markSendingOutboxFailed = (
+  db: any,
+  teamId: string,
+  reason: string,
+  permanent = false
+) => {
+  const message =
+    typeof reason === "string" && reason.trim().length > 0
+      ? reason.trim()
+      : "sync transport error";
+  const now = Date.now();
+  const rows = db.exec({
+    sql: "SELECT op_id, attempt_count FROM op_outbox WHERE team_id = ? AND status = 'sending';",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, number | null]>;
+  for (const [opId, attempts] of rows) {
+    const outcome = nextOutboxFailure(Number(attempts ?? 0), permanent, now);
+    db.exec(
+      `UPDATE op_outbox
+        SET status = ?, attempt_count = ?, last_error = ?, next_retry_at = ?,
+          dead_lettered_at = ?
+        WHERE team_id = ? AND op_id = ?;`,
+      {
+        bind: [
+          outcome.status,
+          outcome.attempt_count,
+          message,
+          outcome.status === "failed" ? outcome.next_retry_at : null,
+          outcome.status === "dead" ? now : null,
+          teamId,
+          opId,
+        ],
+      }
+    );
+  }
+};
+
+const readDeadLetterOps = (db: any, teamId: string): SyncDeadLetterOp[] => {
+  const rows = db.exec({
+    sql: `SELECT op_id, op_name, created_at, payload_json, attempt_count, last_error,
+        dead_lettered_at
+      FROM op_outbox
+      WHERE team_id = ? AND status = 'dead'
+      ORDER BY created_at ASC, op_id ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, string, number, string, number, string | null, number | null]>;
+  return rows.map((row) => ({
+    op_id: row[0],
+    op_name: row[1],
+    created_at: row[2],
+    payload: parseJsonObject(row[3]),
+    attempt_count: Number(row[4] ?? 0),
+    last_error: row[5],
+    dead_lettered_at: row[6] ?? row[2],
+  }));
+};
+
+// A snapshot import stands in for every op up to its seq, and a pull the
+// server scanned past stands in for the ops it filtered out, so the cursor
+// is whichever reaches furthest.
+const getLastAppliedSeq = (db: any, teamId: string) => {
+  const rows = db.exec({
+    sql: `SELECT MAX(
+        (SELECT COALESCE(MAX(server_seq), 0) FROM op_applied WHERE team_id = ?),
+        (SELECT COALESCE(MAX(server_seq), 0) FROM sync_snapshot_state WHERE team_id = ?),
+        (SELECT COALESCE(MAX(server_seq), 0) FROM sync_pull_cursor WHERE team_id = ?)
+      );`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, teamId, teamId],
+  }) as Array<[number]>;
+  return Number(rows[0]?.[0] ?? 0);
+};
+
+const recordPulledThrough = (db: any, teamId: string, throughSeq: number) => {
+  db.exec(
+    `INSERT INTO sync_pull_cursor (team_id, server_seq, updated_at)
+     VALUES (?, ?, ?)
+     ON CONFLICT(team_id) DO UPDATE SET
+       server_seq = MAX(server_seq, excluded.server_seq),
+       updated_at = excluded.updated_at;`,
+    { bind: [teamId, throughSeq, Date.now()] }
+  );
+};
+
+// No subscriptions means the device syncs every project.
+const getSubscribedProjectIds = (db: any, teamId: string) => {
+  const rows = db.exec({
+    sql: `SELECT project_id FROM sync_project_subscriptions
+      WHERE team_id = ?
+      ORDER BY project_id ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string]>;
+  return rows.map((row) => row[0]);
+};
+
+const scopePullRequest = (db: any, request: PullRequest): PullRequest => {
+  const projectIds = getSubscribedProjectIds(db, request.team_id);
+  return projectIds.length > 0 ? { ...request, project_ids: projectIds } : request;
+};
+
+const mockRemotePull = (db: any, request: PullRequest): PullResponse => {
+  const rows = db.exec({
+    sql: `SELECT server_seq, op_json
+      FROM mock_remote_oplog
+      WHERE team_id = ?
+        AND server_seq > ?
+      ORDER BY server_seq ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [request.team_id, request.since_seq],
+  }) as Array<[number, string]>;
+  const latestRows = db.exec({
+    sql: "SELECT COALESCE(MAX(server_seq), 0) FROM mock_remote_oplog WHERE team_id = ?;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [request.team_id],
+  }) as Array<[number]>;
+  const latestSeq = Number(latestRows[0]?.[0] ?? request.since_seq);
+
+  const projectFilter = request.project_ids ? new Set(request.project_ids) : null;
+  const ops = rows
+    .map((row) => {
+      const parsed = parseJsonObject(row[1]) as unknown as OpEnvelope;
+      if (
+        !parsed ||
+        typeof parsed.op_id !== "string" ||
+        typeof parsed.op_name !== "string" ||
+        typeof parsed.team_id !== "string" ||
+        typeof parsed.actor_user_id !== "string" ||
+        typeof parsed.created_at !== "number"
+      ) {
+        return null;
+      }
+      if (
+        projectFilter &&
+        parsed.project_ids?.length &&
+        !parsed.project_ids.some((projectId) => projectFilter.has(projectId))
+      ) {
+        return null;
+      }
+      return { server_seq: Number(row[0]), op: parsed };
+    })
+    .filter((entry): entry is { server_seq: number; op: OpEnvelope } => !!entry);
+
+  return {
+    ops,
+    latest_seq: latestSeq,
+    through_seq: latestSeq,
+  };
+};
+
+const readHlcClock = (db: any) => {
+  const rows = db.exec({
+    sql: "SELECT last_hlc FROM hlc_clock WHERE clock_id = 1;",
+    rowMode: "array",
+    returnValue: "resultRows",
+  }) as Array<[string]>;
+  return rows[0]?.[0] ?? null;
+};
+
+const writeHlcClock = (db: any, hlc: string) => {
+  db.exec(
+    "INSERT INTO hlc_clock (clock_id, last_hlc) VALUES (1, ?) ON CONFLICT(clock_id) DO UPDATE SET last_hlc = excluded.last_hlc;",
+    { bind: [hlc] }
+  );
+};
+
+// The client id doubles as this replica's HLC node id.
+const nextLocalHlc = (db: any) => {
+  const hlc = tickHlc(readHlcClock(db), Date.now(), getOrCreateClientId(db));
+  writeHlcClock(db, hlc);
+  return hlc;
+};
+
+const observeRemoteHlc = (db: any, remoteHlc: string) => {
+  writeHlcClock(
+    db,
+    receiveHlc(readHlcClock(db), remoteHlc, Date.now(), getOrCreateClientId(db))
+  );
+};
+
+type ItemFieldVersion = {
+  hlc: string;
+  op_id: string;
+  actor_user_id: string | null;
+};
+
+const readItemFieldVersions = (db: any, itemId: string) => {
+  const rows = db.exec({
+    sql: "SELECT field, hlc, op_id, actor_user_id FROM item_field_versions WHERE item_id = ?;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [itemId],
+  }) as Array<[string, string, string, string | null]>;
+  return new Map<string, ItemFieldVersion>(
+    rows.map((row) => [row[0], { hlc: row[1], op_id: row[2], actor_user_id: row[3] }])
+  );
+};
+
+const writeItemFieldVersion = (
+  db: any,
+  itemId: string,
+  field: string,
+  version: ItemFieldVersion
+) => {
+  db.exec(
+    "INSERT OR REPLACE INTO item_field_versions (item_id, field, hlc, op_id, actor_user_id) VALUES (?, ?, ?, ?, ?);",
+    { bind: [itemId, field, version.hlc, version.op_id, version.actor_user_id] }
+  );
+};
+
+const stampItemFieldVersions = (
+  db: any,
+  args: Record<string, unknown>,
+  version: ItemFieldVersion
+) => {
+  const fields = args.fields;
+  if (typeof args.id !== "string" || !fields || typeof fields !== "object") {
+    return;
+  }
+  for (const field of Object.keys(fields)) {
+    if (UPDATABLE_ITEM_FIELDS.has(field)) {
+      writeItemFieldVersion(db, args.id, field, version);
+    }
+  }
+};
+
+/**
+ * Field-level last-writer-wins for a remote `update_item_fields`: a field
+ * applies only when its stamp beats the local one. If the local stamp came
+ * from this client and the remote author cannot have seen it, both sides
+ * edited the field concurrently and the losing value is kept as a conflict.
+ * Returns the payload to apply, or null when every field lost.
+ */
+const mergeRemoteItemFields = (
+  db: any,
+  serverSeq: number,
+  op: OpEnvelope,
+  remoteHlc: string
+): Record<string, unknown> | null => {
+  const payload = (op.payload ?? {}) as Record<string, unknown>;
+  const itemId = typeof payload.id === "string" ? payload.id : null;
+  const fields =
+    payload.fields && typeof payload.fields === "object"
+      ? (payload.fields as Record<string, unknown>)
+      : null;
+  const versioned = fields
+    ? Object.keys(fields).filter((key) => UPDATABLE_ITEM_FIELDS.has(key))
+    : [];
+  if (!itemId || !fields || versioned.length === 0) {
+    return payload;
+  }
+  const currentRows = db.exec({
+    sql: `SELECT ${versioned.join(", ")} FROM items WHERE id = ?;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [itemId],
+  }) as unknown[][];
+  if (currentRows.length === 0) {
+    return payload;
+  }
+  const versions = readItemFieldVersions(db, itemId);
+  const localOps = new Map<string, { server_seq: number | null } | null>();
+  const readLocalOp = (opId: string) => {
+    if (!localOps.has(opId)) {
+      const rows = db.exec({
+        sql: "SELECT server_seq FROM op_outbox WHERE op_id = ? LIMIT 1;",
+        rowMode: "array",
+        returnValue: "resultRows",
+        bind: [opId],
+      }) as Array<[number | null]>;
+      localOps.set(opId, rows.length > 0 ? { server_seq: rows[0][0] } : null);
+    }
+    return localOps.get(opId) ?? null;
+  };
+
+  const kept: Record<string, unknown> = {};
+  versioned.forEach((field, index) => {
+    const remoteValue = fields[field] ?? null;
+    const local = versions.get(field);
+    const remoteWins = !local || compareHlc(remoteHlc, local.hlc) > 0;
+    const localOp = local ? readLocalOp(local.op_id) : null;
+    const localValue = currentRows[0][index] ?? null;
+    // A lower remote stamp means its author never saw our edit; a higher one
+    // still raced it unless the server had already sequenced ours first.
+    const concurrent =
+      !!localOp &&
+      (!remoteWins || localOp.server_seq === null || localOp.server_seq > serverSeq);
+    if (local && concurrent && JSON.stringify(localValue) !== JSON.stringify(remoteValue)) {
+      db.exec(
+        `INSERT INTO item_conflicts (
+          conflict_id, team_id, item_id, field,
+          local_value_json, local_hlc, local_op_id, local_actor_user_id,
+          remote_value_json, remote_hlc, remote_op_id, remote_actor_user_id,
+          winner, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+        {
+          bind: [
+            crypto.randomUUID(),
+            op.team_id,
+            itemId,
+            field,
+            JSON.stringify(localValue),
+            local.hlc,
+            local.op_id,
+            local.actor_user_id,
+            JSON.stringify(remoteValue),
+            remoteHlc,
+            op.op_id,
+            op.actor_user_id,
+            remoteWins ? "remote" : "local",
+            Date.now(),
+          ],
+        }
+      );
+    }
+    if (remoteWins) {
+      kept[field] = fields[field];
+      writeItemFieldVersion(db, itemId, field, {
+        hlc: remoteHlc,
+        op_id: op.op_id,
+        actor_user_id: op.actor_user_id,
+      });
+    }
+  });
+  return Object.keys(kept).length > 0 ? { ...payload, fields: kept } : null;
+};
+
+const readItemConflicts = (
+  db: any,
+  teamId: string,
+  options: { itemId?: string | null; conflictId?: string | null }
+): ItemConflict[] => {
+  const clauses = ["c.team_id = ?", "c.resolved_at IS NULL"];
+  const bind: unknown[] = [teamId];
+  if (options.itemId) {
+    clauses.push("c.item_id = ?");
+    bind.push(options.itemId);
+  }
+  if (options.conflictId) {
+    clauses.push("c.conflict_id = ?");
+    bind.push(options.conflictId);
+  }
+  const rows = db.exec({
+    sql: `SELECT c.conflict_id, c.item_id, c.field,
+        c.local_value_json, c.local_actor_user_id,
+        c.remote_value_json, c.remote_actor_user_id,
+        c.winner, c.created_at
+      FROM item_conflicts c
+      JOIN items i ON i.id = c.item_id AND i.team_id = c.team_id
+      WHERE ${clauses.join(" AND ")}
+      ORDER BY c.created_at DESC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind,
+  }) as Array<
+    [string, string, string, string | null, string | null, string | null, string | null, ItemConflictSide, number]
+  >;
+  if (rows.length === 0) {
+    return [];
+  }
+  const userMap = getUserMap(db, teamId);
+  return rows.map((row) => ({
+    conflict_id: row[0],
+    item_id: row[1],
+    field: row[2],
+    local_value: row[3] === null ? null : parseJsonColumn(row[3]),
+    local_actor_user_id: row[4],
+    local_actor_name: row[4] ? userMap.get(row[4]) ?? null : null,
+    remote_value: row[5] === null ? null : parseJsonColumn(row[5]),
+    remote_actor_user_id: row[6],
+    remote_actor_name: row[6] ? userMap.get(row[6]) ?? null : null,
+    winner: row[7],
+    created_at: row[8],
+  }));
+};
+
+const hasAppliedRemoteSeq = (db: any, teamId: string, serverSeq: number) => {
+  const rows = db.exec({
+    sql: "SELECT 1 FROM op_applied WHERE team_id = ? AND server_seq = ? LIMIT 1;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, serverSeq],
+  }) as Array<[number]>;
+  return rows.length > 0;
+};
+
+const applyRemoteOp = (
+  db: any,
+  serverSeq: number,
+  op: OpEnvelope,
+  options: { includeOwn?: boolean } = {}
+): { applied: boolean } => {
+  if (hasAppliedRemoteSeq(db, op.team_id, serverSeq)) {
+    return { applied: false };
+  }
+  const localOpRows = options.includeOwn
+    ? []
+    : (db.exec({
+        sql: "SELECT 1 FROM op_outbox WHERE op_id = ? LIMIT 1;",
+        rowMode: "array",
+        returnValue: "resultRows",
+        bind: [op.op_id],
+      }) as Array<[number]>);
+  if (localOpRows.length > 0) {
     db.exec(
-      "INSERT OR IGNORE INTO client_info (client_id, created_at) VALUES (?, ?);",
+      "INSERT OR IGNORE INTO op_applied (team_id, server_seq, applied_at) VALUES (?, ?, ?);",
       {
-        bind: [requested, Date.now()],
+        bind: [op.team_id, serverSeq, Date.now()],
       }
     );
-    return requested;
+    db.exec(
+      "UPDATE op_outbox SET status = 'acked', server_seq = ?, last_error = NULL WHERE op_id = ?;",
+      {
+        bind: [serverSeq, op.op_id],
+      }
+    );
+    return { applied: false };
   }
-  const existingRows = db.exec({
-    sql: "SELECT client_id FROM client_info ORDER BY created_at ASC LIMIT 1;",
+
+  const itemChanges: ItemChangeRecord[] = [];
+  const inverseOps: HistoryOp[] = [];
+  let appliedPayload: unknown = null;
+  // The field merge commits with the op itself, so a failed apply leaves no
+  // stamps or conflicts behind and the op is retried on the next pull.
+  withTransaction(db, () => {
+    if (op.hlc) {
+      observeRemoteHlc(db, op.hlc);
+    }
+    const payload =
+      op.hlc && op.op_name === "update_item_fields"
+        ? mergeRemoteItemFields(db, serverSeq, op, op.hlc)
+        : op.payload;
+    if (payload === null) {
+      // Every field lost to a newer local edit; the op still counts as applied.
+      return { ok: true };
+    }
+    appliedPayload = payload;
+    const result = handleMutate(
+      {
+        op_id: op.op_id,
+        op_name: op.op_name,
+        actor_type: "user",
+        actor_id: op.actor_user_id,
+        ts: op.created_at,
+        args: payload,
+      },
+      {
+        skipOutbox: true,
+        skipAudit: true,
+        itemChanges,
+        inverseOps,
+      }
+    );
+    if (!result.ok) {
+      const reason =
+        typeof result.error === "string"
+          ? result.error
+          : result.error?.message ?? "unknown remote op apply error";
+      throw new Error(`Failed applying remote op ${op.op_id}: ${reason}`);
+    }
+    return result;
+  });
+
+  db.exec(
+    "INSERT OR IGNORE INTO op_applied (team_id, server_seq, applied_at, op_id, op_name, actor_user_id, ts, changes_json, payload_json, inverse_json) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
+    {
+      bind: [
+        op.team_id,
+        serverSeq,
+        Date.now(),
+        op.op_id,
+        op.op_name,
+        op.actor_user_id,
+        op.created_at,
+        itemChanges.length > 0 ? JSON.stringify(itemChanges) : null,
+        appliedPayload === null ? null : JSON.stringify(appliedPayload),
+        JSON.stringify(inverseOps),
+      ],
+    }
+  );
+  db.exec(
+    "UPDATE op_outbox SET status = 'acked', server_seq = ?, last_error = NULL WHERE op_id = ?;",
+    {
+      bind: [serverSeq, op.op_id],
+    }
+  );
+  return { applied: true };
+};
+
+const getOutboxCounts = (db: any, teamId: string) => {
+  const rows = db.exec({
+    sql: `SELECT
+        COALESCE(SUM(CASE WHEN status = 'queued' THEN 1 ELSE 0 END), 0) AS queued_count,
+        COALESCE(SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END), 0) AS failed_count,
+        COALESCE(SUM(CASE WHEN status = 'dead' THEN 1 ELSE 0 END), 0) AS dead_count,
+        COALESCE(SUM(CASE WHEN status = 'sending' THEN 1 ELSE 0 END), 0) AS sending_count
+      FROM op_outbox
+      WHERE team_id = ?;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[number, number, number, number]>;
+  return {
+    queued_count: Number(rows[0]?.[0] ?? 0),
+    failed_count: Number(rows[0]?.[1] ?? 0),
+    dead_count: Number(rows[0]?.[2] ?? 0),
+    sending_count: Number(rows[0]?.[3] ?? 0),
+  };
+};
+
+const getLastOutboxError = (db: any, teamId: string) => {
+  const rows = db.exec({
+    sql: `SELECT last_error
+      FROM op_outbox
+      WHERE team_id = ?
+        AND status IN ('failed', 'dead')
+        AND last_error IS NOT NULL
+        AND trim(last_error) != ''
+      ORDER BY created_at DESC
+      LIMIT 1;`,
     rowMode: "array",
     returnValue: "resultRows",
+    bind: [teamId],
   }) as Array<[string]>;
-  const existing = existingRows[0]?.[0] ?? null;
-  if (existing) {
-    return existing;
+  return rows[0]?.[0] ?? null;
+};
+
+const SYNC_DIAGNOSTIC_ERROR_LIMIT = 50;
+const SYNC_DIAGNOSTIC_GAP_LIMIT = 50;
+
+const readOutboxStatusCounts = (db: any, teamId: string) => {
+  const rows = db.exec({
+    sql: `SELECT status, COUNT(*)
+      FROM op_outbox
+      WHERE team_id = ?
+      GROUP BY status
+      ORDER BY status ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, number]>;
+  const counts: Record<string, number> = {};
+  for (const [status, count] of rows) {
+    counts[status] = Number(count);
   }
-  const clientId = crypto.randomUUID();
-  db.exec("INSERT INTO client_info (client_id, created_at) VALUES (?, ?);", {
-    bind: [clientId, Date.now()],
-  });
-  return clientId;
+  return counts;
 };
 
-const parseJsonObject = (raw: string): Record<string, unknown> => {
+const readOutboxErrors = (db: any, teamId: string) => {
+  const rows = db.exec({
+    sql: `SELECT op_id, op_name, status, attempt_count, last_error, created_at
+      FROM op_outbox
+      WHERE team_id = ?
+        AND status IN ('failed', 'dead', 'rejected')
+        AND last_error IS NOT NULL
+        AND trim(last_error) != ''
+      ORDER BY created_at DESC, op_id DESC
+      LIMIT ?;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, SYNC_DIAGNOSTIC_ERROR_LIMIT],
+  }) as Array<[string, string, OutboxStatus, number, string, number]>;
+  return rows.map((row) => ({
+    op_id: row[0],
+    op_name: row[1],
+    status: row[2],
+    attempt_count: Number(row[3] ?? 0),
+    last_error: row[4],
+    created_at: row[5],
+  }));
+};
+
+// Ranges of server seqs this device never recorded as applied. Seqs covered
+// by an imported snapshot count as applied.
+const readOpAppliedGaps = (db: any, teamId: string, snapshotSeq: number) => {
+  const rows = db.exec({
+    sql: `WITH seqs AS (
+        SELECT ? AS server_seq
+        UNION ALL
+        SELECT server_seq FROM op_applied WHERE team_id = ? AND server_seq > ?
+      ),
+      ordered AS (
+        SELECT server_seq, LEAD(server_seq) OVER (ORDER BY server_seq) AS next_seq
+        FROM seqs
+      )
+      SELECT server_seq + 1, next_seq - 1
+      FROM ordered
+      WHERE next_seq IS NOT NULL AND next_seq > server_seq + 1
+      ORDER BY server_seq ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [snapshotSeq, teamId, snapshotSeq],
+  }) as Array<[number, number]>;
+  const gaps = rows.map(([fromSeq, toSeq]) => ({
+    from_seq: Number(fromSeq),
+    to_seq: Number(toSeq),
+  }));
+  return {
+    gaps: gaps.slice(0, SYNC_DIAGNOSTIC_GAP_LIMIT),
+    missing_count: gaps.reduce((sum, gap) => sum + gap.to_seq - gap.from_seq + 1, 0),
+  };
+};
+
+const getSnapshotSeq = (db: any, teamId: string) => {
+  const rows = db.exec({
+    sql: "SELECT server_seq FROM sync_snapshot_state WHERE team_id = ? LIMIT 1;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[number]>;
+  return Number(rows[0]?.[0] ?? 0);
+};
+
+/**
+ * Everything needed to tell why a device disagrees with the server, in one
+ * read. The server's latest seq costs one pull; nothing pulled is applied.
+ * A device syncing selected projects skips other projects' seqs on purpose,
+ * so gaps are only reported when it syncs everything.
+ */
+const readSyncDiagnostics = async (db: any, session: SessionRecord) => {
+  const teamId = session.team_id;
+  const lastAppliedSeq = getLastAppliedSeq(db, teamId);
+  const snapshotSeq = getSnapshotSeq(db, teamId);
+  const subscribedProjectIds = getSubscribedProjectIds(db, teamId);
+  const server: {
+    latest_seq: number | null;
+    behind_by: number | null;
+    snapshot_required: boolean;
+    error: string | null;
+  } = { latest_seq: null, behind_by: null, snapshot_required: false, error: null };
   try {
-    const parsed = JSON.parse(raw);
-    if (parsed && typeof parsed === "object") {
-      return parsed as Record<string, unknown>;
-    }
-  } catch {
-    // fallthrough
+    const pulled = await createWorkerSyncTransport(db, session).pull(
+      scopePullRequest(db, { team_id: teamId, since_seq: lastAppliedSeq })
+    );
+    server.latest_seq = pulled.latest_seq;
+    server.behind_by = Math.max(0, pulled.latest_seq - lastAppliedSeq);
+    server.snapshot_required = pulled.snapshot_required === true;
+  } catch (error) {
+    server.error = error instanceof Error ? error.message : String(error);
   }
-  return {};
+  const integrity = verifyIntegrity();
+  return {
+    team_id: teamId,
+    sync_mode: SYNC_MODE,
+    stream_state: syncStream?.state ?? "closed",
+    outbox: { by_status: readOutboxStatusCounts(db, teamId) },
+    errors: readOutboxErrors(db, teamId),
+    applied: {
+      last_applied_seq: lastAppliedSeq,
+      snapshot_seq: snapshotSeq,
+      subscribed_project_ids: subscribedProjectIds,
+      ...(subscribedProjectIds.length > 0
+        ? { gaps: [], missing_count: 0 }
+        : readOpAppliedGaps(db, teamId, snapshotSeq)),
+    },
+    server,
+    integrity: {
+      ok: integrity.ok,
+      issues: integrity.issues.map((issue) => ({
+        code: issue.code,
+        message: issue.message,
+        count: issue.count ?? null,
+      })),
+    },
+  };
 };
 
-const listPendingOutboxOps = (db: any, teamId: string): OpEnvelope[] => {
-  const rows = db.exec({
-    sql: `SELECT op_id, team_id, actor_user_id, created_at, op_name, payload_json
+const createWorkerSyncTransport = (db: any, session: SessionRecord) =>
+  createSyncTransport({
+    mode: SYNC_MODE,
+    remoteBaseUrl: SYNC_REMOTE_BASE_URL,
+    sessionToken: session.session_id,
+    mockPush: (request) => mockRemotePush(db, request),
+    mockPull: (request) => mockRemotePull(db, request),
+    onError: (message) => {
+      console.warn(message);
+    },
+  });
+
+const SYNC_SNAPSHOT_FORMAT_VERSION = 1;
+
+// Snapshots carry the `export_data` payload, so importing one reuses the
+// `import_data` path. Local ops the snapshot does not cover yet are replayed
+// on top; the tail pull then only marks them acked.
+const runImportData = (payload: Record<string, unknown>) => {
+  const imported = handleMutate(
+    {
+      op_id: crypto.randomUUID(),
+      op_name: "import_data",
+      actor_type: "system",
+      ts: Date.now(),
+      args: { payload },
+    },
+    { skipOutbox: true, skipAudit: true }
+  );
+  if (!imported.ok) {
+    const reason =
+      typeof imported.error === "string"
+        ? imported.error
+        : imported.error?.message ?? "unknown import error";
+    throw new Error(`Failed importing team data: ${reason}`);
+  }
+};
+
+// Re-applies this device's own ops the server state at `coveredThroughSeq`
+// does not include yet: unpushed ones and ones acked after that seq.
+const replayLocalOps = (db: any, teamId: string, coveredThroughSeq: number) => {
+  const localRows = db.exec({
+    sql: `SELECT op_id, op_name, payload_json
       FROM op_outbox
       WHERE team_id = ?
-        AND status IN ('queued', 'failed')
+        AND status != 'rejected'
+        AND (server_seq IS NULL OR server_seq > ?)
       ORDER BY created_at ASC, op_id ASC;`,
     rowMode: "array",
     returnValue: "resultRows",
-    bind: [teamId],
-  }) as Array<[string, string, string, number, string, string]>;
-  if (rows.length === 0) {
-    return [];
+    bind: [teamId, coveredThroughSeq],
+  }) as Array<[string, string, string]>;
+  let failed = 0;
+  for (const [opId, opName, payloadJson] of localRows) {
+    const replayed = handleMutate(
+      {
+        op_id: opId,
+        op_name: opName,
+        actor_type: "system",
+        ts: Date.now(),
+        args: parseJsonObject(payloadJson),
+      },
+      { skipOutbox: true, skipAudit: true }
+    );
+    if (!replayed.ok) {
+      failed += 1;
+      console.warn(`[sync] could not replay local op ${opId} over server state`);
+    }
   }
-  const ids = rows.map((row) => row[0]);
-  const placeholders = buildPlaceholders(ids.length);
-  db.exec({
-    sql: `UPDATE op_outbox
-      SET status = 'sending', last_error = NULL
-      WHERE op_id IN (${placeholders});`,
-    bind: ids,
+  return { replayed: localRows.length - failed, failed };
+};
+
+const recordSnapshotImport = (db: any, teamId: string, serverSeq: number) => {
+  db.exec(
+    `INSERT INTO sync_snapshot_state (team_id, server_seq, imported_at)
+     VALUES (?, ?, ?)
+     ON CONFLICT(team_id) DO UPDATE SET
+       server_seq = excluded.server_seq,
+       imported_at = excluded.imported_at;`,
+    { bind: [teamId, serverSeq, Date.now()] }
+  );
+};
+
+const ensureSnapshotFormat = (snapshot: SyncSnapshot) => {
+  if (snapshot.format_version !== SYNC_SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(`Unsupported sync snapshot format_version ${snapshot.format_version}.`);
+  }
+};
+
+const importSyncSnapshot = (db: any, teamId: string, snapshot: SyncSnapshot) => {
+  ensureSnapshotFormat(snapshot);
+  withTransaction(db, () => {
+    runImportData(snapshot.payload);
+    recordSnapshotImport(db, teamId, snapshot.server_seq);
+    pruneUnsubscribedProjects(db, teamId);
+    replayLocalOps(db, teamId, snapshot.server_seq);
+    return { ok: true };
   });
-  return rows.map((row) => ({
-    op_id: row[0],
-    team_id: row[1],
-    actor_user_id: row[2],
-    created_at: row[3],
-    op_name: row[4],
-    payload: parseJsonObject(row[5]),
-  }));
 };
 
-const mockRemotePush = (db: any, request: PushRequest): PushResponse => {
-  const acked: Array<{ op_id: string; server_seq: number }> = [];
-  const rejected: Array<{ op_id: string; reason: string }> = [];
+const EMPTY_TEAM_DATA = {
+  items: [],
+  dependencies: [],
+  blockers: [],
+  scheduled_blocks: [],
+  time_entries: [],
+  running_timers: [],
+  item_tags: [],
+  item_assignees: [],
+  project_members: [],
+  user_capacity: [],
+  working_calendar: EMPTY_WORKING_CALENDAR,
+  saved_views: [],
+  busy_blocks: [],
+  settings: [],
+};
 
-  for (const op of request.ops) {
-    if (!op || typeof op !== "object") {
-      rejected.push({ op_id: "unknown", reason: "invalid op envelope" });
-      continue;
+type PulledRange = {
+  ops: PullResponse["ops"];
+  through_seq: number;
+  latest_seq: number;
+  snapshot_required: boolean;
+};
+
+// Pages through the server log from `sinceSeq` until the server has scanned
+// to its latest seq, or to `untilSeq` when given.
+const pullOpRange = async (
+  transport: ReturnType<typeof createWorkerSyncTransport>,
+  request: PullRequest,
+  untilSeq: number | null = null
+): Promise<PulledRange> => {
+  const ops: PullResponse["ops"] = [];
+  let sinceSeq = request.since_seq;
+  let latestSeq = sinceSeq;
+  for (;;) {
+    const page = await transport.pull({ ...request, since_seq: sinceSeq });
+    if (page.snapshot_required) {
+      return { ops, through_seq: sinceSeq, latest_seq: latestSeq, snapshot_required: true };
     }
-    if (op.team_id !== request.team_id) {
-      rejected.push({
-        op_id: op.op_id,
-        reason: "team mismatch between request and op",
-      });
-      continue;
+    latestSeq = Math.max(latestSeq, page.latest_seq);
+    const fresh = page.ops.filter(
+      (entry) => entry.server_seq > sinceSeq && (untilSeq === null || entry.server_seq <= untilSeq)
+    );
+    ops.push(...fresh);
+    const nextSeq = Math.max(
+      sinceSeq,
+      page.through_seq ?? 0,
+      ...fresh.map((entry) => entry.server_seq)
+    );
+    const targetSeq = untilSeq === null ? page.latest_seq : Math.min(untilSeq, page.latest_seq);
+    const done = nextSeq <= sinceSeq || nextSeq >= targetSeq;
+    sinceSeq = untilSeq === null ? nextSeq : Math.min(nextSeq, untilSeq);
+    if (done) {
+      break;
     }
-    const existingRows = db.exec({
-      sql: "SELECT server_seq FROM mock_remote_oplog WHERE team_id = ? AND op_id = ? LIMIT 1;",
-      rowMode: "array",
-      returnValue: "resultRows",
-      bind: [request.team_id, op.op_id],
-    }) as Array<[number]>;
-    if (existingRows.length > 0) {
-      acked.push({ op_id: op.op_id, server_seq: Number(existingRows[0][0]) });
-      continue;
+  }
+  ops.sort((a, b) => a.server_seq - b.server_seq);
+  return { ops, through_seq: sinceSeq, latest_seq: latestSeq, snapshot_required: false };
+};
+
+/**
+ * Removes a project's contents from this device. The root project row stays:
+ * ops on it are team-wide, so the project is still listed and can be
+ * subscribed to again.
+ */
+const pruneProjectData = (db: any, teamId: string, projectId: string) => {
+  const childRows = db.exec({
+    sql: "SELECT id FROM items WHERE parent_id = ? AND team_id = ?;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [projectId, teamId],
+  }) as Array<[string]>;
+  if (childRows.length === 0) {
+    return 0;
+  }
+  const deleted = handleMutate(
+    {
+      op_id: crypto.randomUUID(),
+      op_name: "items.delete_many",
+      actor_type: "system",
+      ts: Date.now(),
+      args: { ids: childRows.map((row) => row[0]) },
+    },
+    { skipOutbox: true, skipAudit: true }
+  );
+  if (!deleted.ok) {
+    const reason =
+      typeof deleted.error === "string"
+        ? deleted.error
+        : deleted.error?.message ?? "unknown error";
+    throw new Error(`Failed removing project ${projectId} from this device: ${reason}`);
+  }
+  db.exec("DELETE FROM item_field_versions WHERE item_id NOT IN (SELECT id FROM items);");
+  db.exec(
+    "DELETE FROM item_conflicts WHERE team_id = ? AND item_id NOT IN (SELECT id FROM items);",
+    { bind: [teamId] }
+  );
+  return readStringArrayArg(
+    (deleted.result as { deleted_ids?: unknown } | undefined)?.deleted_ids
+  ).length;
+};
+
+const listRootProjects = (db: any, teamId: string) =>
+  db.exec({
+    sql: `SELECT id, title FROM items
+      WHERE team_id = ? AND parent_id IS NULL AND type = 'project'
+      ORDER BY sort_order ASC, title ASC;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, string]>;
+
+const pruneUnsubscribedProjects = (db: any, teamId: string) => {
+  const subscribed = new Set(getSubscribedProjectIds(db, teamId));
+  if (subscribed.size === 0) {
+    return 0;
+  }
+  let pruned = 0;
+  for (const [projectId] of listRootProjects(db, teamId)) {
+    if (!subscribed.has(projectId)) {
+      pruned += pruneProjectData(db, teamId, projectId);
+    }
+  }
+  return pruned;
+};
+
+/**
+ * Throws away the team's local copy and rebuilds it from the server: the
+ * newest snapshot (if any), then every op after it, then this device's
+ * unpushed ops on top. Everything is downloaded before anything is deleted,
+ * so a network failure leaves the local copy as it was. `projectIds`
+ * replaces the project subscriptions in the same transaction (empty for all
+ * projects); by default they stay as they are.
+ */
+const rebuildTeamFromServer = async (
+  db: any,
+  session: SessionRecord,
+  projectIds: string[] = getSubscribedProjectIds(db, session.team_id)
+) => {
+  const teamId = session.team_id;
+  const transport = createWorkerSyncTransport(db, session);
+  const snapshot = await transport.fetchSnapshot(teamId);
+  if (snapshot) {
+    ensureSnapshotFormat(snapshot);
+  }
+  const sinceSeq = snapshot?.server_seq ?? 0;
+  const pulled = await pullOpRange(
+    transport,
+    projectIds.length > 0
+      ? { team_id: teamId, since_seq: sinceSeq, project_ids: projectIds }
+      : { team_id: teamId, since_seq: sinceSeq }
+  );
+  if (pulled.snapshot_required) {
+    throw new Error("The server compacted its log during the rebuild; try again.");
+  }
+  const coveredSeq = Math.max(pulled.latest_seq, pulled.through_seq);
+
+  let replay = { replayed: 0, failed: 0 };
+  withTransaction(db, () => {
+    // The import replaces saved views and busy blocks when the snapshot
+    // carries them; ones from before it did are kept as they are here.
+    runImportData(snapshot ? snapshot.payload : EMPTY_TEAM_DATA);
+    for (const table of ["item_conflicts", "op_applied"]) {
+      db.exec(`DELETE FROM ${table} WHERE team_id = ?;`, { bind: [teamId] });
+    }
+    db.exec(
+      "DELETE FROM item_field_versions WHERE item_id NOT IN (SELECT id FROM items);"
+    );
+    db.exec("DELETE FROM sync_snapshot_state WHERE team_id = ?;", { bind: [teamId] });
+    db.exec("DELETE FROM sync_pull_cursor WHERE team_id = ?;", { bind: [teamId] });
+    db.exec("DELETE FROM sync_project_subscriptions WHERE team_id = ?;", { bind: [teamId] });
+    insertProjectSubscriptions(db, teamId, projectIds);
+    if (snapshot) {
+      recordSnapshotImport(db, teamId, snapshot.server_seq);
     }
+    // The snapshot holds every project; filtered ops only cover subscribed ones.
+    pruneUnsubscribedProjects(db, teamId);
+    for (const entry of pulled.ops) {
+      applyRemoteOp(db, entry.server_seq, entry.op, { includeOwn: true });
+    }
+    recordPulledThrough(db, teamId, coveredSeq);
+    replay = replayLocalOps(db, teamId, coveredSeq);
+    return { ok: true };
+  });
+
+  return {
+    team_id: teamId,
+    sync_mode: transport.mode,
+    snapshot_seq: snapshot?.server_seq ?? null,
+    applied_count: pulled.ops.length,
+    latest_seq: coveredSeq,
+    replayed_local_count: replay.replayed,
+    failed_local_count: replay.failed,
+  };
+};
+
+// Unsent ops must reach the server before their project leaves this device;
+// pruning would otherwise hide changes that are still on their way.
+const countUnsentProjectOps = (db: any, teamId: string, projectId: string) => {
+  const rows = db.exec({
+    sql: `SELECT COUNT(*) FROM op_outbox
+      WHERE team_id = ?
+        AND status IN ('queued', 'sending', 'failed', 'dead')
+        AND project_ids_json IS NOT NULL
+        AND EXISTS (SELECT 1 FROM json_each(op_outbox.project_ids_json) WHERE value = ?);`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId, projectId],
+  }) as Array<[number]>;
+  return Number(rows[0]?.[0] ?? 0);
+};
+
+const readProjectSubscriptions = (db: any, teamId: string) => {
+  const subscribed = new Set(getSubscribedProjectIds(db, teamId));
+  return {
+    team_id: teamId,
+    mode: subscribed.size > 0 ? "selected" : "all",
+    projects: listRootProjects(db, teamId).map(([projectId, title]) => ({
+      project_id: projectId,
+      title,
+      subscribed: subscribed.size === 0 || subscribed.has(projectId),
+    })),
+  };
+};
 
-    const nextRows = db.exec({
-      sql: "SELECT COALESCE(MAX(server_seq), 0) + 1 FROM mock_remote_oplog WHERE team_id = ?;",
-      rowMode: "array",
-      returnValue: "resultRows",
-      bind: [request.team_id],
-    }) as Array<[number]>;
-    const nextSeq = Number(nextRows[0]?.[0] ?? 1);
+const insertProjectSubscriptions = (db: any, teamId: string, projectIds: string[]) => {
+  const now = Date.now();
+  for (const projectId of projectIds) {
     db.exec(
-      "INSERT INTO mock_remote_oplog (team_id, server_seq, op_id, op_json, created_at) VALUES (?, ?, ?, ?, ?);",
-      {
-        bind: [
-          request.team_id,
-          nextSeq,
-          op.op_id,
-          JSON.stringify(op),
-          Date.now(),
-        ],
-      }
+      "INSERT OR IGNORE INTO sync_project_subscriptions (team_id, project_id, created_at) VALUES (?, ?, ?);",
+      { bind: [teamId, projectId, now] }
     );
-    acked.push({ op_id: op.op_id, server_seq: nextSeq });
   }
+};
 
-  return { acked, rejected };
+/**
+ * Starts syncing a project. A device that syncs every project already has
+ * it and switches to syncing only this one. Otherwise the project's ops up
+ * to the current cursor are pulled and applied; when the server has
+ * compacted them, the device rebuilds from the snapshot instead.
+ */
+const subscribeToProject = async (db: any, session: SessionRecord, projectId: string) => {
+  const teamId = session.team_id;
+  if (!listRootProjects(db, teamId).some(([id]) => id === projectId)) {
+    throw new Error("project not found");
+  }
+  const current = getSubscribedProjectIds(db, teamId);
+  if (current.includes(projectId)) {
+    return { ...readProjectSubscriptions(db, teamId), backfilled_count: 0, pruned_count: 0 };
+  }
+  if (current.length === 0) {
+    let pruned = 0;
+    withTransaction(db, () => {
+      insertProjectSubscriptions(db, teamId, [projectId]);
+      pruned = pruneUnsubscribedProjects(db, teamId);
+      return { ok: true };
+    });
+    return { ...readProjectSubscriptions(db, teamId), backfilled_count: 0, pruned_count: pruned };
+  }
+
+  const backfilled = await backfillProject(db, session, projectId, [...current, projectId], () =>
+    insertProjectSubscriptions(db, teamId, [projectId])
+  );
+  return { ...readProjectSubscriptions(db, teamId), backfilled_count: backfilled, pruned_count: 0 };
 };
 
-const applyOutboxPushResult = (
+// Pulls a project's history up to this device's cursor and applies it. When
+// that range was compacted it rebuilds instead, syncing `rebuildProjectIds`.
+const backfillProject = async (
   db: any,
-  teamId: string,
-  response: PushResponse
+  session: SessionRecord,
+  projectId: string,
+  rebuildProjectIds: string[],
+  prepare: () => void = () => {}
 ) => {
-  const touchedOpIds = new Set<string>();
-  for (const ack of response.acked) {
-    touchedOpIds.add(ack.op_id);
-    db.exec(
-      "UPDATE op_outbox SET status = 'acked', server_seq = ?, last_error = NULL WHERE team_id = ? AND op_id = ?;",
-      {
-        bind: [ack.server_seq, teamId, ack.op_id],
+  const teamId = session.team_id;
+  const transport = createWorkerSyncTransport(db, session);
+  const cursor = getLastAppliedSeq(db, teamId);
+  const pulled = await pullOpRange(
+    transport,
+    { team_id: teamId, since_seq: 0, project_ids: [projectId] },
+    cursor
+  );
+  if (pulled.snapshot_required) {
+    return (await rebuildTeamFromServer(db, session, rebuildProjectIds)).applied_count;
+  }
+  let backfilled = 0;
+  withTransaction(db, () => {
+    prepare();
+    for (const entry of pulled.ops) {
+      // This device may have applied the project's ops before it dropped
+      // the project; those have to run again. Team-wide ops stay applied.
+      if (entry.op.project_ids?.includes(projectId)) {
+        db.exec("DELETE FROM op_applied WHERE team_id = ? AND server_seq = ?;", {
+          bind: [teamId, entry.server_seq],
+        });
+      }
+      if (applyRemoteOp(db, entry.server_seq, entry.op, { includeOwn: true }).applied) {
+        backfilled += 1;
       }
+    }
+    return { ok: true };
+  });
+  return backfilled;
+};
+
+/**
+ * Follows project membership changes a sync pulled in. Projects the user was
+ * dropped from are removed from this device; projects they were added to
+ * are backfilled, since the server withheld those ops until now.
+ */
+const reconcileProjectAccess = async (
+  db: any,
+  session: SessionRecord,
+  hiddenBefore: string[]
+) => {
+  const teamId = session.team_id;
+  const hiddenAfter = getHiddenProjectIds(db, teamId);
+  const subscribed = getSubscribedProjectIds(db, teamId);
+  for (const projectId of hiddenAfter) {
+    if (!hiddenBefore.includes(projectId)) {
+      withTransaction(db, () => {
+        pruneProjectData(db, teamId, projectId);
+        return { ok: true };
+      });
+    }
+  }
+  for (const projectId of hiddenBefore) {
+    if (
+      !hiddenAfter.includes(projectId) &&
+      (subscribed.length === 0 || subscribed.includes(projectId))
+    ) {
+      await backfillProject(db, session, projectId, subscribed);
+    }
+  }
+};
+
+/**
+ * Stops syncing a project and removes its contents from this device. Dropping
+ * the last subscription means syncing every project again, which takes a
+ * rebuild to fetch the projects this device skipped.
+ */
+const unsubscribeFromProject = async (
+  db: any,
+  session: SessionRecord,
+  projectId: string
+) => {
+  const teamId = session.team_id;
+  const current = getSubscribedProjectIds(db, teamId);
+  if (current.length > 0 && !current.includes(projectId)) {
+    return { ...readProjectSubscriptions(db, teamId), pruned_count: 0 };
+  }
+  if (current.length === 1) {
+    await rebuildTeamFromServer(db, session, []);
+    return { ...readProjectSubscriptions(db, teamId), pruned_count: 0 };
+  }
+  const unsent = countUnsentProjectOps(db, teamId, projectId);
+  if (unsent > 0) {
+    throw new Error(
+      `This project has ${unsent} unsent ${unsent === 1 ? "change" : "changes"}; sync them first.`
     );
   }
-  for (const rejected of response.rejected) {
-    touchedOpIds.add(rejected.op_id);
+  let pruned = 0;
+  withTransaction(db, () => {
+    if (current.length === 0) {
+      insertProjectSubscriptions(
+        db,
+        teamId,
+        listRootProjects(db, teamId)
+          .map(([id]) => id)
+          .filter((id) => id !== projectId)
+      );
+    }
     db.exec(
-      "UPDATE op_outbox SET status = 'failed', last_error = ? WHERE team_id = ? AND op_id = ?;",
-      {
-        bind: [rejected.reason, teamId, rejected.op_id],
-      }
+      "DELETE FROM sync_project_subscriptions WHERE team_id = ? AND project_id = ?;",
+      { bind: [teamId, projectId] }
     );
-  }
+    pruned = pruneProjectData(db, teamId, projectId);
+    return { ok: true };
+  });
+  return { ...readProjectSubscriptions(db, teamId), pruned_count: pruned };
+};
 
-  if (touchedOpIds.size > 0) {
-    const ids = Array.from(touchedOpIds);
-    const placeholders = buildPlaceholders(ids.length);
-    db.exec({
-      sql: `UPDATE op_outbox
-        SET status = 'queued'
-        WHERE team_id = ?
-          AND status = 'sending'
-          AND op_id NOT IN (${placeholders});`,
-      bind: [teamId, ...ids],
+const buildSyncSnapshotPayload = (db: any, teamId: string) => {
+  const { exported_at: _exportedAt, settings, ...payload } = exportData(db, teamId);
+  return {
+    ...payload,
+    settings: settings.filter((setting) => isSharedSettingKey(setting.key)),
+  };
+};
+
+const runTeamSync = async (db: any, session: SessionRecord, clientId: string) => {
+  const currentTeamId = session.team_id;
+  const startedAt = Date.now();
+  const syncTransport = createWorkerSyncTransport(db, session);
+  const hiddenBefore = getHiddenProjectIds(db, currentTeamId);
+  let runResult;
+  try {
+    runResult = await runSyncOnce({
+      teamId: currentTeamId,
+      clientId,
+      adapter: {
+        listPendingOps: (teamId) => listPendingOutboxOps(db, teamId),
+        push: (request) => syncTransport.push(request),
+        applyPushResult: (teamId, response) =>
+          applyOutboxPushResult(db, teamId, response),
+        getLastAppliedSeq: (teamId) => getLastAppliedSeq(db, teamId),
+        pull: (request) => syncTransport.pull(scopePullRequest(db, request)),
+        applyIncoming: (serverSeq, op) => {
+          const applied = applyRemoteOp(db, serverSeq, op);
+          return applied.applied;
+        },
+        bootstrapFromSnapshot: async (teamId) => {
+          const snapshot = await syncTransport.fetchSnapshot(teamId);
+          if (!snapshot) {
+            return null;
+          }
+          importSyncSnapshot(db, teamId, snapshot);
+          return snapshot.server_seq;
+        },
+        recordPulledThrough: (teamId, throughSeq) =>
+          recordPulledThrough(db, teamId, throughSeq),
+      },
     });
-  } else {
-    db.exec(
-      "UPDATE op_outbox SET status = 'queued' WHERE team_id = ? AND status = 'sending';",
-      {
-        bind: [teamId],
-      }
-    );
+  } catch (error) {
+    const messageText = error instanceof Error ? error.message : String(error);
+    markSendingOutboxFailed(db, currentTeamId, messageText, isPermanentSyncError(error));
+    if (syncStream?.team_id === currentTeamId) {
+      scheduleOutboxRetry(db, syncStream);
+    }
+    console.warn(`[sync] runOnce failed in ${syncTransport.mode} mode: ${messageText}`);
+    throw error;
   }
+  await reconcileProjectAccess(db, session, hiddenBefore);
+  return {
+    ...runResult,
+    sync_mode: syncTransport.mode,
+    discarded: readDiscardedOps(db, currentTeamId, { since: startedAt }),
+  };
 };
 
-const markSendingOutboxFailed = (db: any, teamId: string, reason: string) => {
-  const message =
-    typeof reason === "string" && reason.trim().length > 0
-      ? reason.trim()
-      : "sync transport error";
-  db.exec(
-    "UPDATE op_outbox SET status = 'failed', last_error = ? WHERE team_id = ? AND status = 'sending';",
-    {
-      bind: [message, teamId],
-    }
-  );
+type SyncStreamHandle = {
+  session_id: string;
+  team_id: string;
+  state: SyncStreamState;
+  subscription: SyncSubscription | null;
+  running: boolean;
+  rerun: boolean;
+  retry_timer: ReturnType<typeof setTimeout> | null;
 };
 
-const getLastAppliedSeq = (db: any, teamId: string) => {
-  const rows = db.exec({
-    sql: "SELECT COALESCE(MAX(server_seq), 0) FROM op_applied WHERE team_id = ?;",
-    rowMode: "array",
-    returnValue: "resultRows",
-    bind: [teamId],
-  }) as Array<[number]>;
-  return Number(rows[0]?.[0] ?? 0);
+// One live subscription per worker, owned by the signed-in session. Remote
+// change notices are coalesced: while a sync runs, further notices only
+// schedule one more run.
+let syncStream: SyncStreamHandle | null = null;
+
+const postWorkerEvent = (name: string, payload?: unknown) => {
+  ctx.postMessage({ kind: "event", name, payload });
 };
 
-const mockRemotePull = (db: any, request: PullRequest): PullResponse => {
+const stopSyncStream = () => {
+  const handle = syncStream;
+  syncStream = null;
+  handle?.subscription?.close();
+  if (handle?.retry_timer) {
+    clearTimeout(handle.retry_timer);
+  }
+};
+
+// Wakes the stream's sync loop when the earliest failed op is due again;
+// nothing else would push it while the server has no news.
+const scheduleOutboxRetry = (db: any, handle: SyncStreamHandle) => {
+  if (handle.retry_timer) {
+    clearTimeout(handle.retry_timer);
+    handle.retry_timer = null;
+  }
   const rows = db.exec({
-    sql: `SELECT server_seq, op_json
-      FROM mock_remote_oplog
-      WHERE team_id = ?
-        AND server_seq > ?
-      ORDER BY server_seq ASC;`,
-    rowMode: "array",
-    returnValue: "resultRows",
-    bind: [request.team_id, request.since_seq],
-  }) as Array<[number, string]>;
-  const latestRows = db.exec({
-    sql: "SELECT COALESCE(MAX(server_seq), 0) FROM mock_remote_oplog WHERE team_id = ?;",
+    sql: "SELECT MIN(next_retry_at) FROM op_outbox WHERE team_id = ? AND status = 'failed';",
     rowMode: "array",
     returnValue: "resultRows",
-    bind: [request.team_id],
-  }) as Array<[number]>;
-  const latestSeq = Number(latestRows[0]?.[0] ?? request.since_seq);
+    bind: [handle.team_id],
+  }) as Array<[number | null]>;
+  const dueAt = rows[0]?.[0];
+  if (dueAt === null || dueAt === undefined || syncStream !== handle) {
+    return;
+  }
+  handle.retry_timer = setTimeout(() => {
+    handle.retry_timer = null;
+    void runStreamSync(db, handle, null);
+  }, Math.max(0, Number(dueAt) - Date.now()));
+};
 
-  const ops = rows
-    .map((row) => {
-      const parsed = parseJsonObject(row[1]) as unknown as OpEnvelope;
+const runStreamSync = async (db: any, handle: SyncStreamHandle, latestSeq: number | null) => {
+  if (
+    latestSeq !== null &&
+    latestSeq <= getLastAppliedSeq(db, handle.team_id) &&
+    getOutboxCounts(db, handle.team_id).queued_count === 0
+  ) {
+    return;
+  }
+  if (handle.running) {
+    handle.rerun = true;
+    return;
+  }
+  handle.running = true;
+  try {
+    do {
+      handle.rerun = false;
+      const session = getActiveSession(db);
       if (
-        !parsed ||
-        typeof parsed.op_id !== "string" ||
-        typeof parsed.op_name !== "string" ||
-        typeof parsed.team_id !== "string" ||
-        typeof parsed.actor_user_id !== "string" ||
-        typeof parsed.created_at !== "number"
+        syncStream !== handle ||
+        !session ||
+        session.session_id !== handle.session_id ||
+        session.team_id !== handle.team_id
       ) {
-        return null;
+        return;
       }
-      return { server_seq: Number(row[0]), op: parsed };
-    })
-    .filter((entry): entry is { server_seq: number; op: OpEnvelope } => !!entry);
+      const result = await runTeamSync(db, session, getOrCreateClientId(db, null));
+      if (result.applied_count > 0 || result.acked_count > 0 || result.discarded.length > 0) {
+        postWorkerEvent("sync.applied", result);
+      }
+    } while (handle.rerun);
+  } catch (error) {
+    const messageText = error instanceof Error ? error.message : String(error);
+    console.warn(`[sync] stream-triggered sync failed: ${messageText}`);
+  } finally {
+    handle.running = false;
+  }
+};
 
-  return {
-    ops,
-    latest_seq: latestSeq,
+const startSyncStream = (db: any, session: SessionRecord) => {
+  if (
+    syncStream &&
+    syncStream.session_id === session.session_id &&
+    syncStream.team_id === session.team_id
+  ) {
+    return syncStream;
+  }
+  stopSyncStream();
+  const handle: SyncStreamHandle = {
+    session_id: session.session_id,
+    team_id: session.team_id,
+    // Mock mode has no stream to open, so it never reports a state change.
+    state: SYNC_MODE === "remote" ? "connecting" : "closed",
+    subscription: null,
+    running: false,
+    rerun: false,
+    retry_timer: null,
   };
+  syncStream = handle;
+  scheduleOutboxRetry(db, handle);
+  handle.subscription = createWorkerSyncTransport(db, session).subscribe({
+    teamId: session.team_id,
+    onRemoteChange: (latestSeq) => {
+      void runStreamSync(db, handle, latestSeq);
+    },
+    onStateChange: (state) => {
+      handle.state = state;
+      if (syncStream === handle) {
+        postWorkerEvent("sync.stream_state", { state });
+      }
+    },
+  });
+  return handle;
 };
 
-const hasAppliedRemoteSeq = (db: any, teamId: string, serverSeq: number) => {
-  const rows = db.exec({
-    sql: "SELECT 1 FROM op_applied WHERE team_id = ? AND server_seq = ? LIMIT 1;",
-    rowMode: "array",
-    returnValue: "resultRows",
-    bind: [teamId, serverSeq],
-  }) as Array<[number]>;
-  return rows.length > 0;
+let transactionDepth = 0;
+
+// Nested calls (history replays re-enter handleMutate) run in a savepoint so
+// a failure rolls back only the inner work.
+const withTransaction = (db: any, fn: () => MutateResult) => {
+  const nested = transactionDepth > 0;
+  db.exec(nested ? "SAVEPOINT nested_mutation;" : "BEGIN;");
+  transactionDepth += 1;
+  try {
+    const result = fn();
+    db.exec(nested ? "RELEASE nested_mutation;" : "COMMIT;");
+    return result;
+  } catch (err) {
+    db.exec(
+      nested
+        ? "ROLLBACK TO nested_mutation; RELEASE nested_mutation;"
+        : "ROLLBACK;"
+    );
+    throw err;
+  } finally {
+    transactionDepth -= 1;
+  }
 };
 
-const applyRemoteOp = (
+const enforceSingleScheduledBlock = (
   db: any,
-  serverSeq: number,
-  op: OpEnvelope
-): { applied: boolean } => {
-  if (hasAppliedRemoteSeq(db, op.team_id, serverSeq)) {
-    return { applied: false };
+  itemId: string,
+  keepBlockId?: string
+) => {
+  if (keepBlockId) {
+    db.exec(
+      "DELETE FROM scheduled_blocks WHERE item_id = ? AND block_id != ?;",
+      { bind: [itemId, keepBlockId] }
+    );
+  } else {
+    db.exec("DELETE FROM scheduled_blocks WHERE item_id = ?;", {
+      bind: [itemId],
+    });
+  }
+};
+
+// Materializes the next occurrence of a recurring item once the current one
+// is completed. Ids can be supplied so replayed ops create identical rows.
+const createNextRecurrence = (
+  db: any,
+  itemId: string,
+  ids: { itemId: string | null; blockId: string | null },
+  now: number
+) => {
+  const rows = db.exec({
+    sql: `SELECT type, title, parent_id, team_id, priority, due_at, estimate_mode,
+        estimate_minutes, health_mode, notes, recurrence_rule, recurrence_series_id
+      FROM items WHERE id = ?;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [itemId],
+  }) as Array<
+    [
+      string,
+      string,
+      string | null,
+      string,
+      number,
+      number | null,
+      string,
+      number,
+      string,
+      string | null,
+      string | null,
+      string | null
+    ]
+  >;
+  const row = rows[0];
+  const rule = row ? parseStoredRecurrenceRule(row[10]) : null;
+  if (!row || !rule) {
+    return null;
+  }
+  const blockRows = db.exec({
+    sql: `SELECT block_id, start_at, duration_minutes, locked, source, recurrence_rule
+      FROM scheduled_blocks WHERE item_id = ? ORDER BY start_at ASC LIMIT 1;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [itemId],
+  }) as Array<[string, number, number, number, string, string | null]>;
+  const block = blockRows[0] ?? null;
+  const anchor = row[5] ?? block?.[1] ?? null;
+  if (anchor === null) {
+    return null;
+  }
+  const nextAt = nextOccurrenceAfter(rule, anchor);
+  if (nextAt === null) {
+    return null;
   }
-  const localOpRows = db.exec({
-    sql: "SELECT 1 FROM op_outbox WHERE op_id = ? LIMIT 1;",
+  const seriesId = row[11] ?? itemId;
+  const openRows = db.exec({
+    sql: `SELECT 1 FROM items
+      WHERE recurrence_series_id = ? AND id != ? AND status NOT IN ('done', 'canceled')
+      LIMIT 1;`,
     rowMode: "array",
     returnValue: "resultRows",
-    bind: [op.op_id],
+    bind: [seriesId, itemId],
   }) as Array<[number]>;
-  if (localOpRows.length > 0) {
-    db.exec(
-      "INSERT OR IGNORE INTO op_applied (team_id, server_seq, applied_at) VALUES (?, ?, ?);",
-      {
-        bind: [op.team_id, serverSeq, Date.now()],
-      }
-    );
-    db.exec(
-      "UPDATE op_outbox SET status = 'acked', server_seq = ?, last_error = NULL WHERE op_id = ?;",
-      {
-        bind: [serverSeq, op.op_id],
-      }
-    );
-    return { applied: false };
+  if (openRows.length > 0) {
+    return null;
   }
-
-  const envelope: MutateEnvelope = {
-    op_id: op.op_id,
-    op_name: op.op_name,
-    actor_type: "user",
-    actor_id: op.actor_user_id,
-    ts: op.created_at,
-    args: op.payload,
-  };
-  const result = handleMutate(envelope, { skipOutbox: true, skipAudit: true });
-  if (!result.ok) {
-    const reason =
-      typeof result.error === "string"
-        ? result.error
-        : result.error?.message ?? "unknown remote op apply error";
-    throw new Error(`Failed applying remote op ${op.op_id}: ${reason}`);
+  if (row[11] === null) {
+    db.exec("UPDATE items SET recurrence_series_id = ? WHERE id = ?;", {
+      bind: [seriesId, itemId],
+    });
   }
 
+  const delta = nextAt - anchor;
+  const nextId = ids.itemId ?? crypto.randomUUID();
+  const sortOrderRows = db.exec({
+    sql: "SELECT MAX(sort_order) FROM items WHERE parent_id IS ? AND team_id = ?;",
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [row[2], row[3]],
+  }) as Array<[number | null]>;
+  const sortOrder = Number(sortOrderRows[0]?.[0] ?? 0) + 1;
   db.exec(
-    "INSERT OR IGNORE INTO op_applied (team_id, server_seq, applied_at) VALUES (?, ?, ?);",
+    `INSERT INTO items (id, type, title, parent_id, team_id, status, priority, due_at,
+      estimate_mode, estimate_minutes, health, health_mode, notes, created_at, updated_at,
+      sort_order, completed_at, archived_at, recurrence_rule, recurrence_series_id)
+      VALUES (?, ?, ?, ?, ?, 'backlog', ?, ?, ?, ?, 'unknown', ?, ?, ?, ?, ?, NULL, NULL, ?, ?);`,
     {
-      bind: [op.team_id, serverSeq, Date.now()],
+      bind: [
+        nextId,
+        row[0],
+        row[1],
+        row[2],
+        row[3],
+        row[4],
+        row[5] === null ? null : row[5] + delta,
+        row[6],
+        row[7],
+        row[8],
+        row[9],
+        now,
+        now,
+        sortOrder,
+        formatRecurrenceRule(advanceRecurrenceRule(rule)),
+        seriesId,
+      ],
     }
   );
   db.exec(
-    "UPDATE op_outbox SET status = 'acked', server_seq = ?, last_error = NULL WHERE op_id = ?;",
-    {
-      bind: [serverSeq, op.op_id],
-    }
+    "INSERT INTO item_tags (item_id, tag) SELECT ?, tag FROM item_tags WHERE item_id = ?;",
+    { bind: [nextId, itemId] }
   );
-  return { applied: true };
+  db.exec(
+    "INSERT INTO item_assignees (item_id, assignee_id) SELECT ?, assignee_id FROM item_assignees WHERE item_id = ?;",
+    { bind: [nextId, itemId] }
+  );
+  refreshItemSearch(db, [nextId]);
+
+  let nextBlockId: string | null = null;
+  if (block) {
+    nextBlockId = ids.blockId ?? crypto.randomUUID();
+    db.exec(
+      "INSERT INTO scheduled_blocks (block_id, item_id, start_at, duration_minutes, locked, source, recurrence_rule) VALUES (?, ?, ?, ?, ?, ?, ?);",
+      {
+        bind: [
+          nextBlockId,
+          nextId,
+          block[1] + delta,
+          block[2],
+          block[3],
+          block[4],
+          block[5],
+        ],
+      }
+    );
+    // The block series travels with the open occurrence.
+    if (block[5] !== null) {
+      db.exec(
+        "UPDATE scheduled_blocks SET recurrence_rule = NULL WHERE block_id = ?;",
+        { bind: [block[0]] }
+      );
+    }
+  }
+  return { id: nextId, block_id: nextBlockId };
 };
 
-const getOutboxCounts = (db: any, teamId: string) => {
-  const rows = db.exec({
-    sql: `SELECT
-        COALESCE(SUM(CASE WHEN status = 'queued' THEN 1 ELSE 0 END), 0) AS queued_count,
-        COALESCE(SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END), 0) AS failed_count
-      FROM op_outbox
-      WHERE team_id = ?;`,
+type AutoPlanEntry = {
+  item_id: string;
+  block_id: string | null;
+  start_at: number;
+  duration_minutes: number;
+};
+
+const buildAutoPlan = (
+  db: any,
+  teamId: string,
+  scopeProjectId: string | null,
+  scopeUserId: string | null,
+  timeMin: number,
+  timeMax: number,
+  timeZone: string
+) => {
+  const itemRows = db.exec({
+    sql: `SELECT id, type, title, parent_id, status, priority, due_at,
+        estimate_mode, estimate_minutes
+      FROM items
+      WHERE team_id = ? AND archived_at IS NULL;`,
     rowMode: "array",
     returnValue: "resultRows",
     bind: [teamId],
-  }) as Array<[number, number]>;
-  return {
-    queued_count: Number(rows[0]?.[0] ?? 0),
-    failed_count: Number(rows[0]?.[1] ?? 0),
-  };
-};
+  }) as Array<
+    [
+      string,
+      string,
+      string,
+      string | null,
+      string,
+      number,
+      number | null,
+      string,
+      number
+    ]
+  >;
+  const itemIds = itemRows.map((row) => row[0]);
+  const timeMap = new Map<string, number>();
+  if (itemIds.length > 0) {
+    const timeRows = db.exec({
+      sql: `SELECT t.item_id, SUM(t.duration_minutes) FROM time_entries t
+        JOIN items i ON i.id = t.item_id
+        WHERE i.team_id = ?
+        GROUP BY t.item_id;`,
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [teamId],
+    }) as Array<[string, number]>;
+    for (const row of timeRows) {
+      timeMap.set(row[0], Number(row[1]));
+    }
+  }
+  const now = Date.now();
+  const rollupMap = computeRollupTotals(
+    itemRows.map((row) => ({
+      id: row[0],
+      parent_id: row[3],
+      estimate_minutes: row[8],
+      estimate_mode: row[7],
+    })),
+    getScheduleSummaryMap(db, itemIds),
+    getBlockedStatusMap(db, itemIds),
+    new Map(
+      itemRows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4], timeZone)])
+    ),
+    timeMap
+  );
+  const assigneesMap = getAssigneesMap(db, itemIds);
+  const laneFor = (itemId: string) =>
+    (assigneesMap.get(itemId) ?? [])[0] ?? "unassigned";
 
-const getLastOutboxError = (db: any, teamId: string) => {
-  const rows = db.exec({
-    sql: `SELECT last_error
-      FROM op_outbox
-      WHERE team_id = ?
-        AND status = 'failed'
-        AND last_error IS NOT NULL
-        AND trim(last_error) != ''
-      ORDER BY created_at DESC
-      LIMIT 1;`,
+  const blockRows = db.exec({
+    sql: `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes, b.locked, b.source
+      FROM scheduled_blocks b
+      JOIN items i ON i.id = b.item_id
+      WHERE i.team_id = ? AND i.archived_at IS NULL
+      ORDER BY b.start_at ASC;`,
     rowMode: "array",
     returnValue: "resultRows",
     bind: [teamId],
-  }) as Array<[string]>;
-  return rows[0]?.[0] ?? null;
-};
-
-const deriveOutboxPayload = (
-  opName: string,
-  args: Record<string, unknown>,
-  result: MutateResult
-): Record<string, unknown> => {
-  const payload: Record<string, unknown> = { ...args };
-  if (!result.ok || !result.result || typeof result.result !== "object") {
-    return payload;
+  }) as Array<[string, string, number, number, number, string]>;
+  const blocksByItem = new Map<string, typeof blockRows>();
+  for (const row of blockRows) {
+    const list = blocksByItem.get(row[1]) ?? [];
+    list.push(row);
+    blocksByItem.set(row[1], list);
   }
-  const resultRecord = result.result as Record<string, unknown>;
-  const inject = (key: string) => {
+
+  const parentIds = new Set(
+    itemRows.filter((row) => row[1] === "task").map((row) => row[3])
+  );
+  const scopeIds = new Set(
+    getScopeItemIds(db, scopeProjectId, scopeUserId, teamId)
+  );
+  const titleMap = new Map(itemRows.map((row) => [row[0], row[2]]));
+  const remainingMap = new Map<string, number>();
+  const candidates: AutoPlanCandidate[] = [];
+  for (const row of itemRows) {
     if (
-      payload[key] === undefined &&
-      typeof resultRecord[key] === "string" &&
-      (resultRecord[key] as string).trim().length > 0
+      !scopeIds.has(row[0]) ||
+      row[1] !== "task" ||
+      row[4] === "done" ||
+      row[4] === "canceled" ||
+      parentIds.has(row[0])
     ) {
-      payload[key] = resultRecord[key];
+      continue;
     }
-  };
-
-  switch (opName) {
-    case "create_item":
-      inject("id");
-      break;
-    case "scheduled_block.create":
-    case "create_block":
-      inject("block_id");
-      break;
-    case "add_time_entry":
-    case "stop_timer":
-      inject("entry_id");
-      break;
-    case "add_blocker":
-      inject("blocker_id");
-      break;
-    case "user.create":
-      inject("user_id");
-      break;
-    default:
-      break;
+    const totals = rollupMap.get(row[0]);
+    const remaining = Math.max(
+      0,
+      (totals?.totalEstimate ?? row[8]) -
+        (totals?.totalActual ?? timeMap.get(row[0]) ?? 0)
+    );
+    if (remaining <= 0) {
+      continue;
+    }
+    // Only unscheduled items and earlier auto placements inside the window
+    // are (re)planned; locked and manual blocks stay exactly where they are.
+    const blocks = blocksByItem.get(row[0]) ?? [];
+    let replanBlockId: string | null = null;
+    if (blocks.length > 0) {
+      const block = blocks[0];
+      if (
+        blocks.length > 1 ||
+        Number(block[4]) !== 0 ||
+        block[5] !== "auto" ||
+        block[2] < timeMin ||
+        block[2] >= timeMax
+      ) {
+        continue;
+      }
+      replanBlockId = block[0];
+    }
+    remainingMap.set(row[0], remaining);
+    candidates.push({
+      id: row[0],
+      priority: Number(row[5]) || 0,
+      due_at: row[6],
+      remaining_minutes: remaining,
+      lane: laneFor(row[0]),
+      block_id: replanBlockId,
+    });
+  }
+  const candidateIds = new Set(candidates.map((row) => row.id));
+  const fixedBlocks = blockRows
+    .filter((row) => !candidateIds.has(row[1]))
+    .map((row) => ({
+      item_id: row[1],
+      lane: laneFor(row[1]),
+      start_at: Number(row[2]),
+      duration_minutes: Number(row[3]),
+    }));
+  // Imported external busy time blocks its owner's lane like a fixed block.
+  const busyBlocks = getBusyBlocksInRange(
+    db,
+    teamId,
+    Array.from(new Set(candidates.map((row) => row.lane))),
+    timeMin,
+    timeMax
+  );
+  for (const busy of busyBlocks) {
+    fixedBlocks.push({
+      item_id: `busy:${busy.busy_id}`,
+      lane: busy.user_id,
+      start_at: busy.start_at,
+      duration_minutes: busy.duration_minutes,
+    });
   }
-  return payload;
-};
 
-const withTransaction = (db: any, fn: () => MutateResult) => {
-  db.exec("BEGIN;");
-  try {
-    const result = fn();
-    db.exec("COMMIT;");
-    return result;
-  } catch (err) {
-    db.exec("ROLLBACK;");
-    throw err;
+  const dependencyRows = db.exec({
+    sql: `SELECT d.item_id, d.depends_on_id, d.type, d.lag_minutes
+      FROM dependencies d
+      JOIN items i ON i.id = d.item_id AND i.team_id = ?
+      JOIN items di ON di.id = d.depends_on_id AND di.team_id = i.team_id;`,
+    rowMode: "array",
+    returnValue: "resultRows",
+    bind: [teamId],
+  }) as Array<[string, string, string | null, number | null]>;
+
+  const settings = getSettings(db);
+  const workday = normalizeWorkdayHours(
+    settings.get("ui.workday_start_hour"),
+    settings.get("ui.workday_end_hour")
+  );
+  const calendar = zonedCalendar(timeZone);
+  const workingCalendar = readWorkingCalendar(db, teamId);
+  const { placements, skipped } = planAutoSchedule({
+    windowStart: timeMin,
+    windowEnd: timeMax,
+    workday,
+    calendar,
+    // Lanes are assignees, so their time off keeps work off those days.
+    isDayOff: (lane, dayStart) =>
+      dayOffReason(workingCalendar, calendar, dayStart, [lane]) !== null,
+    candidates,
+    fixedBlocks,
+    dependencies: dependencyRows.map((row) => ({
+      item_id: row[0],
+      depends_on_id: row[1],
+      type: normalizeDependencyType(row[2]),
+      lag_minutes: Number(row[3] ?? 0),
+    })),
+  });
+
+  const blockMap = new Map(blockRows.map((row) => [row[0], row]));
+  const created: Array<Record<string, unknown>> = [];
+  const moved: Array<Record<string, unknown>> = [];
+  const unchanged: string[] = [];
+  const warnings: string[] = [];
+  const unplaced: Array<Record<string, unknown>> = [];
+  const plan: AutoPlanEntry[] = [];
+  for (const placement of placements) {
+    const title = titleMap.get(placement.item_id) ?? placement.item_id;
+    if (placement.unplaced_minutes > 0) {
+      warnings.push(
+        `${title}: ${remainingMap.get(placement.item_id)}m remaining exceeds the workday; planned ${placement.duration_minutes}m, ${placement.unplaced_minutes}m left unplanned.`
+      );
+      unplaced.push({
+        item_id: placement.item_id,
+        title,
+        planned_minutes: placement.duration_minutes,
+        unplaced_minutes: placement.unplaced_minutes,
+      });
+    }
+    const existing = placement.block_id
+      ? blockMap.get(placement.block_id) ?? null
+      : null;
+    if (
+      existing &&
+      Number(existing[2]) === placement.start_at &&
+      Number(existing[3]) === placement.duration_minutes
+    ) {
+      unchanged.push(placement.item_id);
+      continue;
+    }
+    plan.push({
+      item_id: placement.item_id,
+      block_id: placement.block_id,
+      start_at: placement.start_at,
+      duration_minutes: placement.duration_minutes,
+    });
+    const entry = {
+      item_id: placement.item_id,
+      title,
+      block_id: placement.block_id,
+      start_at: placement.start_at,
+      end_at: placement.start_at + placement.duration_minutes * 60000,
+      duration_minutes: placement.duration_minutes,
+      truncated: placement.truncated,
+      unplaced_minutes: placement.unplaced_minutes,
+    };
+    if (existing) {
+      moved.push({
+        ...entry,
+        from_start_at: Number(existing[2]),
+        from_duration_minutes: Number(existing[3]),
+      });
+    } else {
+      created.push(entry);
+    }
   }
+
+  return {
+    diff: {
+      time_min: timeMin,
+      time_max: timeMax,
+      workday_start_hour: workday.startHour,
+      workday_end_hour: workday.endHour,
+      created,
+      moved,
+      unchanged,
+      unplaced,
+      skipped: skipped.map((entry) => ({
+        item_id: entry.item_id,
+        title: titleMap.get(entry.item_id) ?? entry.item_id,
+        reason: entry.reason,
+      })),
+    },
+    plan,
+    warnings,
+  };
 };
 
-const enforceSingleScheduledBlock = (
+const parseAutoPlanEntries = (value: unknown): AutoPlanEntry[] =>
+  ensureArray(value, "plan").map((entry, index) => {
+    if (!entry || typeof entry !== "object") {
+      throw new Error(`plan[${index}] must be an object`);
+    }
+    const record = entry as Record<string, unknown>;
+    const blockId = record.block_id;
+    return {
+      item_id: ensureString(record.item_id, `plan[${index}].item_id`),
+      block_id:
+        blockId === undefined || blockId === null
+          ? null
+          : ensureString(blockId, `plan[${index}].block_id`),
+      start_at: ensureInteger(record.start_at, `plan[${index}].start_at`),
+      duration_minutes: ensurePositiveInteger(
+        record.duration_minutes,
+        `plan[${index}].duration_minutes`
+      ),
+    };
+  });
+
+const applyAutoPlanEntries = (
   db: any,
-  itemId: string,
-  keepBlockId?: string
-) => {
-  if (keepBlockId) {
+  teamId: string,
+  entries: AutoPlanEntry[]
+) =>
+  entries.map((entry) => {
+    ensureItemInTeam(db, entry.item_id, teamId);
+    const lockedRows = db.exec({
+      sql: "SELECT block_id FROM scheduled_blocks WHERE item_id = ? AND locked != 0 LIMIT 1;",
+      rowMode: "array",
+      returnValue: "resultRows",
+      bind: [entry.item_id],
+    }) as Array<[string]>;
+    if (lockedRows.length > 0) {
+      throw new Error(`item ${entry.item_id} has a locked block`);
+    }
+    const blockId = entry.block_id ?? crypto.randomUUID();
+    enforceSingleScheduledBlock(db, entry.item_id, blockId);
     db.exec(
-      "DELETE FROM scheduled_blocks WHERE item_id = ? AND block_id != ?;",
-      { bind: [itemId, keepBlockId] }
+      `INSERT INTO scheduled_blocks (block_id, item_id, start_at, duration_minutes, locked, source)
+        VALUES (?, ?, ?, ?, 0, 'auto')
+        ON CONFLICT(block_id) DO UPDATE SET
+          item_id = excluded.item_id,
+          start_at = excluded.start_at,
+          duration_minutes = excluded.duration_minutes,
+          source = excluded.source;`,
+      {
+        bind: [blockId, entry.item_id, entry.start_at, entry.duration_minutes],
+      }
     );
-  } else {
-    db.exec("DELETE FROM scheduled_blocks WHERE item_id = ?;", {
-      bind: [itemId],
-    });
-  }
-};
+    return { ...entry, block_id: blockId };
+  });
 
 const runMigrations = (db: any) => {
   db.exec("CREATE TABLE IF NOT EXISTS schema_version (version INTEGER NOT NULL);");
@@ -2452,13 +6905,30 @@ const ensureAuthSyncFoundationSchema = (db: any) => {
       payload_json TEXT NOT NULL,
       status TEXT NOT NULL DEFAULT 'queued',
       last_error TEXT,
-      server_seq INTEGER
+      server_seq INTEGER,
+      hlc TEXT NULL,
+      reject_code TEXT NULL,
+      rejected_root_op_id TEXT NULL,
+      rolled_back INTEGER NULL,
+      discarded_at INTEGER NULL,
+      dismissed_at INTEGER NULL,
+      attempt_count INTEGER NOT NULL DEFAULT 0,
+      next_retry_at INTEGER NULL,
+      dead_lettered_at INTEGER NULL,
+      project_ids_json TEXT NULL
     );
 
     CREATE TABLE IF NOT EXISTS op_applied (
       team_id TEXT NOT NULL,
       server_seq INTEGER NOT NULL,
       applied_at INTEGER NOT NULL,
+      op_id TEXT NULL,
+      op_name TEXT NULL,
+      actor_user_id TEXT NULL,
+      ts INTEGER NULL,
+      changes_json TEXT NULL,
+      payload_json TEXT NULL,
+      inverse_json TEXT NULL,
       PRIMARY KEY(team_id, server_seq)
     );
 
@@ -2583,6 +7053,39 @@ const initDb = async () => {
   return initPromise;
 };
 
+// Runs undo/redo ops as ordinary mutations so each is audited and enqueued to
+// the outbox under its own op_id. Either all of them apply or none do.
+const replayHistoryOps = (
+  envelope: MutateEnvelope,
+  ops: HistoryOp[],
+  mode: "undo" | "redo"
+) =>
+  withTransaction(dbHandle, () => {
+    const invalidate = new Set<string>();
+    for (const op of ops) {
+      const opResult = handleMutate(
+        {
+          op_id: crypto.randomUUID(),
+          op_name: op.op_name,
+          actor_type: envelope.actor_type,
+          actor_id: envelope.actor_id,
+          ts: envelope.ts,
+          args: op.args,
+        },
+        { history: mode }
+      );
+      if (!opResult.ok) {
+        throw new Error(
+          typeof opResult.error === "string"
+            ? opResult.error
+            : opResult.error?.message ?? `${op.op_name} failed`
+        );
+      }
+      opResult.invalidate?.forEach((key) => invalidate.add(key));
+    }
+    return { ok: true, invalidate: Array.from(invalidate) };
+  });
+
 const handleMutate = (
   envelope: MutateEnvelope,
   options: HandleMutateOptions = {}
@@ -2600,13 +7103,38 @@ const handleMutate = (
     const args = (envelope.args ?? {}) as Record<string, unknown>;
     let sessionForOutbox: SessionRecord | null = getActiveSession(dbHandle);
     let result: MutateResult = { ok: false, error: "Unknown error" };
+    let undoEntry: UndoEntry | null = null;
+    let itemChanges: ItemChangeRecord[] = [];
+    const tracksOutbox =
+      !options.skipOutbox && !OUTBOX_SKIPPED_OPS.has(envelope.op_name);
+    // Items an op deletes are only resolvable before it runs, and items it
+    // creates only after, so the scope is resolved on both sides.
+    let projectScopeBefore: OpProjectScope = { project_ids: [], team_wide: false };
 
     try {
       if (!allowsNoSession) {
         const session = requireSession(dbHandle);
-        requireCanWriteTeam(session, session.team_id, dbHandle);
+        if (options.skipOutbox) {
+          // Remote, replayed and rolled-back ops were authorized where they
+          // started; applying them only takes team membership, so viewers
+          // still receive changes.
+          requireCanReadTeam(session, session.team_id, dbHandle);
+        } else {
+          requireCanWriteOp(dbHandle, session, envelope.op_name, args);
+        }
         sessionForOutbox = session;
       }
+      if (tracksOutbox) {
+        projectScopeBefore = resolveOpProjectScope(dbHandle, getCurrentTeamId(dbHandle), args);
+      }
+      const finishUndo =
+        (options.skipAudit && !options.inverseOps) || options.history === "undo"
+          ? null
+          : captureUndo(dbHandle, envelope.op_name, args);
+      const finishItemHistory =
+        options.skipAudit && !options.itemChanges
+          ? null
+          : captureItemHistory(dbHandle, envelope.op_name, args);
       switch (envelope.op_name) {
         case "create_item": {
           const currentTeamId = getCurrentTeamId(dbHandle);
@@ -2680,9 +7208,13 @@ const handleMutate = (
           const healthMode =
             typeof args.health_mode === "string" ? args.health_mode : "auto";
           const notes = typeof args.notes === "string" ? args.notes : null;
+          const recurrenceRule = normalizeRecurrenceRuleArg(
+            args.recurrence_rule,
+            "recurrence_rule"
+          );
 
           dbHandle.exec(
-            "INSERT INTO items (id, type, title, parent_id, team_id, status, priority, due_at, estimate_mode, estimate_minutes, health, health_mode, notes, created_at, updated_at, sort_order, completed_at, archived_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
+            "INSERT INTO items (id, type, title, parent_id, team_id, status, priority, due_at, estimate_mode, estimate_minutes, health, health_mode, notes, created_at, updated_at, sort_order, completed_at, archived_at, recurrence_rule) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
             {
               bind: [
                 id,
@@ -2703,13 +7235,29 @@ const handleMutate = (
                 sortOrder,
                 completedAt,
                 null,
+                recurrenceRule,
               ],
             }
           );
+          refreshItemSearch(dbHandle, [id]);
 
+          // A device syncing selected projects keeps following projects it
+          // creates itself.
+          if (
+            !options.skipOutbox &&
+            type === "project" &&
+            parentId === null &&
+            getSubscribedProjectIds(dbHandle, itemTeamId).length > 0
+          ) {
+            insertProjectSubscriptions(dbHandle, itemTeamId, [id]);
+          }
+          // The server files the op under its root project, so the pushed
+          // payload carries it.
+          const projectId =
+            readProjectRoots(dbHandle, itemTeamId, [id])[0]?.[1] ?? UNGROUPED_PROJECT_ID;
           result = {
             ok: true,
-            result: { id },
+            result: { id, project_id: projectId },
             invalidate: ["items", `item:${id}`],
           };
           break;
@@ -2723,18 +7271,6 @@ const handleMutate = (
             result = { ok: false, error: "fields must be an object" };
             break;
           }
-          const allowed = new Set([
-            "title",
-            "parent_id",
-            "due_at",
-            "estimate_minutes",
-            "estimate_mode",
-            "priority",
-            "health",
-            "health_mode",
-            "notes",
-            "sort_order",
-          ]);
           const numericFields = new Set([
             "due_at",
             "estimate_minutes",
@@ -2745,7 +7281,7 @@ const handleMutate = (
           const bind: unknown[] = [];
 
           for (const [key, value] of Object.entries(fields)) {
-            if (!allowed.has(key)) {
+            if (!UPDATABLE_ITEM_FIELDS.has(key)) {
               continue;
             }
             if (numericFields.has(key)) {
@@ -2756,7 +7292,11 @@ const handleMutate = (
               }
             }
             updates.push(`${key} = ?`);
-            bind.push(value ?? null);
+            bind.push(
+              key === "recurrence_rule"
+                ? normalizeRecurrenceRuleArg(value, key)
+                : value ?? null
+            );
           }
 
           if (Object.prototype.hasOwnProperty.call(fields, "parent_id")) {
@@ -2802,6 +7342,9 @@ const handleMutate = (
               bind,
             }
           );
+          if ("title" in fields || "notes" in fields) {
+            refreshItemSearch(dbHandle, [id]);
+          }
 
           result = {
             ok: true,
@@ -2812,7 +7355,7 @@ const handleMutate = (
         }
         case "set_status": {
           const currentTeamId = getCurrentTeamId(dbHandle);
-          const id = ensureString(args.id, "id");
+          const id = ensureString(args.id ?? args.item_id, "id");
           ensureItemInTeam(dbHandle, id, currentTeamId);
           const status = ensureString(args.status, "status");
           const override = args.override === true;
@@ -2868,6 +7411,24 @@ const handleMutate = (
               bind: [status, now, completedAt, id],
             }
           );
+          const nextOccurrence =
+            status === "done"
+              ? createNextRecurrence(
+                  dbHandle,
+                  id,
+                  {
+                    itemId:
+                      typeof args.next_occurrence_id === "string"
+                        ? args.next_occurrence_id
+                        : null,
+                    blockId:
+                      typeof args.next_block_id === "string"
+                        ? args.next_block_id
+                        : null,
+                  },
+                  now
+                )
+              : null;
           if (status === "done" && autoArchive) {
             const archiveIds = getSubtreeIds(dbHandle, [id]);
             if (archiveIds.length > 0) {
@@ -2882,8 +7443,16 @@ const handleMutate = (
           }
           result = {
             ok: true,
-            result: { id },
-            invalidate: ["items", `item:${id}`],
+            result: nextOccurrence
+              ? {
+                  id,
+                  next_occurrence_id: nextOccurrence.id,
+                  next_block_id: nextOccurrence.block_id,
+                }
+              : { id },
+            invalidate: nextOccurrence
+              ? ["items", "blocks", `item:${id}`, `item:${nextOccurrence.id}`]
+              : ["items", `item:${id}`],
           };
           break;
         }
@@ -2903,11 +7472,23 @@ const handleMutate = (
               : crypto.randomUUID();
           const locked = typeof args.locked === "number" ? args.locked : 0;
           const source = typeof args.source === "string" ? args.source : "manual";
+          const recurrenceRule = normalizeRecurrenceRuleArg(
+            args.recurrence_rule,
+            "recurrence_rule"
+          );
           enforceSingleScheduledBlock(dbHandle, itemId);
           dbHandle.exec(
-            "INSERT INTO scheduled_blocks (block_id, item_id, start_at, duration_minutes, locked, source) VALUES (?, ?, ?, ?, ?, ?);",
+            "INSERT INTO scheduled_blocks (block_id, item_id, start_at, duration_minutes, locked, source, recurrence_rule) VALUES (?, ?, ?, ?, ?, ?, ?);",
             {
-              bind: [blockId, itemId, startAt, durationMinutes, locked, source],
+              bind: [
+                blockId,
+                itemId,
+                startAt,
+                durationMinutes,
+                locked,
+                source,
+                recurrenceRule,
+              ],
             }
           );
           result = {
@@ -2964,6 +7545,17 @@ const handleMutate = (
             "UPDATE scheduled_blocks SET start_at = ?, duration_minutes = ? WHERE block_id = ?;",
             { bind: [nextStartAt, nextDuration, blockId] }
           );
+          if (args.recurrence_rule !== undefined) {
+            dbHandle.exec(
+              "UPDATE scheduled_blocks SET recurrence_rule = ? WHERE block_id = ?;",
+              {
+                bind: [
+                  normalizeRecurrenceRuleArg(args.recurrence_rule, "recurrence_rule"),
+                  blockId,
+                ],
+              }
+            );
+          }
           enforceSingleScheduledBlock(dbHandle, current[0], blockId);
           result = {
             ok: true,
@@ -2992,8 +7584,66 @@ const handleMutate = (
           });
           result = {
             ok: true,
-            result: { block_id: blockId },
-            invalidate: ["blocks", `item:${itemId}`],
+            result: { block_id: blockId },
+            invalidate: ["blocks", `item:${itemId}`],
+          };
+          break;
+        }
+        case "schedule.auto_plan": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const { scopeProjectId, scopeUserId } = resolveScopeArgs(args);
+          const timeMin = ensureTimeMs(args.time_min, "time_min");
+          const timeMax = ensureTimeMs(args.time_max, "time_max");
+          if (timeMax <= timeMin) {
+            throw new Error("time_max must be greater than time_min");
+          }
+          const commit = args.commit === true;
+          if (commit && args.plan !== undefined && args.plan !== null) {
+            // Committing a reviewed preview (or replaying a synced op) applies
+            // the exact placements instead of re-planning against newer data.
+            const applied = applyAutoPlanEntries(
+              dbHandle,
+              currentTeamId,
+              parseAutoPlanEntries(args.plan)
+            );
+            result = {
+              ok: true,
+              result: { committed: true, plan: applied },
+              invalidate: [
+                "blocks",
+                "items",
+                ...applied.map((entry) => `item:${entry.item_id}`),
+              ],
+            };
+            break;
+          }
+          const { diff, plan, warnings } = buildAutoPlan(
+            dbHandle,
+            currentTeamId,
+            scopeProjectId,
+            scopeUserId,
+            timeMin,
+            timeMax,
+            resolveTimeZone(dbHandle, args as Record<string, unknown>)
+          );
+          if (!commit) {
+            result = {
+              ok: true,
+              result: { committed: false, ...diff, plan },
+              warnings,
+            };
+            break;
+          }
+          const applied = applyAutoPlanEntries(dbHandle, currentTeamId, plan);
+          result = {
+            ok: true,
+            result: { committed: true, ...diff, plan: applied },
+            warnings,
+            invalidate: [
+              "blocks",
+              "items",
+              ...applied.map((entry) => `item:${entry.item_id}`),
+            ],
           };
           break;
         }
@@ -3013,11 +7663,23 @@ const handleMutate = (
               : crypto.randomUUID();
           const locked = typeof args.locked === "number" ? args.locked : 0;
           const source = typeof args.source === "string" ? args.source : "manual";
+          const recurrenceRule = normalizeRecurrenceRuleArg(
+            args.recurrence_rule,
+            "recurrence_rule"
+          );
           enforceSingleScheduledBlock(dbHandle, itemId);
           dbHandle.exec(
-            "INSERT INTO scheduled_blocks (block_id, item_id, start_at, duration_minutes, locked, source) VALUES (?, ?, ?, ?, ?, ?);",
+            "INSERT INTO scheduled_blocks (block_id, item_id, start_at, duration_minutes, locked, source, recurrence_rule) VALUES (?, ?, ?, ?, ?, ?, ?);",
             {
-              bind: [blockId, itemId, startAt, durationMinutes, locked, source],
+              bind: [
+                blockId,
+                itemId,
+                startAt,
+                durationMinutes,
+                locked,
+                source,
+                recurrenceRule,
+              ],
             }
           );
           result = {
@@ -3187,7 +7849,7 @@ const handleMutate = (
             typeof args.now_at === "number"
               ? ensureInteger(args.now_at, "now_at")
               : Date.now();
-          const archivedIds = getSubtreeIds(dbHandle, uniqueIds);
+          const archivedIds = resolveArchiveTargetIds(dbHandle, uniqueIds, args);
           if (archivedIds.length === 0) {
             result = { ok: false, error: "items not found" };
             break;
@@ -3237,7 +7899,7 @@ const handleMutate = (
             result = { ok: false, error: "ids must be a non-empty array" };
             break;
           }
-          const restoredIds = getSubtreeIds(dbHandle, uniqueIds);
+          const restoredIds = resolveArchiveTargetIds(dbHandle, uniqueIds, args);
           if (restoredIds.length === 0) {
             result = { ok: false, error: "items not found" };
             break;
@@ -3290,6 +7952,7 @@ const handleMutate = (
           dbHandle.exec(`DELETE FROM items WHERE id IN (${placeholders});`, {
             bind: deletedIds,
           });
+          refreshItemSearch(dbHandle, deletedIds);
           result = {
             ok: true,
             result: { deleted_ids: deletedIds },
@@ -3365,6 +8028,7 @@ const handleMutate = (
           dbHandle.exec(`DELETE FROM items WHERE id IN (${placeholders});`, {
             bind: deletedIds,
           });
+          refreshItemSearch(dbHandle, deletedIds);
           result = {
             ok: true,
             result: { deleted_ids: deletedIds },
@@ -3379,6 +8043,27 @@ const handleMutate = (
           };
           break;
         }
+        case "items.reinsert": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const restoredIds = writeItemSnapshot(dbHandle, args.snapshot, currentTeamId);
+          if (restoredIds.length === 0) {
+            result = { ok: false, error: "snapshot has no items" };
+            break;
+          }
+          result = {
+            ok: true,
+            result: { restored_ids: restoredIds },
+            invalidate: [
+              "items",
+              "dependencies",
+              "blockers",
+              "blocks",
+              "time_entries",
+              "running_timers",
+            ],
+          };
+          break;
+        }
         case "reorder_item": {
           const currentTeamId = getCurrentTeamId(dbHandle);
           const itemId = ensureString(args.item_id, "item_id");
@@ -3538,8 +8223,11 @@ const handleMutate = (
               : crypto.randomUUID();
           const note = typeof args.note === "string" ? args.note : null;
           const source = typeof args.source === "string" ? args.source : "manual";
+          // Ops from clients that predate per-user entries arrive without one.
+          const userId = readStringArg(args.user_id) ??
+            (options.skipOutbox ? null : (sessionForOutbox?.user_id ?? null));
           dbHandle.exec(
-            "INSERT INTO time_entries (entry_id, item_id, start_at, end_at, duration_minutes, note, source) VALUES (?, ?, ?, ?, ?, ?, ?);",
+            "INSERT INTO time_entries (entry_id, item_id, start_at, end_at, duration_minutes, note, source, user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?);",
             {
               bind: [
                 entryId,
@@ -3549,131 +8237,571 @@ const handleMutate = (
                 durationMinutes,
                 note,
                 source,
+                userId,
+              ],
+            }
+          );
+          result = {
+            ok: true,
+            result: { entry_id: entryId, user_id: userId },
+            invalidate: ["time_entries", `item:${itemId}`],
+          };
+          break;
+        }
+        case "start_timer": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const itemId = ensureString(args.item_id, "item_id");
+          ensureItemInTeam(dbHandle, itemId, currentTeamId);
+          const startAt =
+            typeof args.start_at === "number"
+              ? ensureInteger(args.start_at, "start_at")
+              : Date.now();
+          const note = typeof args.note === "string" ? args.note : null;
+          const runningRows = dbHandle.exec({
+            sql: `SELECT COUNT(*) FROM running_timers rt
+              JOIN items i ON i.id = rt.item_id
+              WHERE i.team_id = ?;`,
+            rowMode: "array",
+            returnValue: "resultRows",
+            bind: [currentTeamId],
+          }) as Array<[number]>;
+          const runningCount = Number(runningRows[0]?.[0] ?? 0);
+          if (runningCount > 0) {
+            result = {
+              ok: false,
+              error: {
+                code: "TIMER_ALREADY_RUNNING",
+                message: "Another timer is already running.",
+              },
+            };
+            break;
+          }
+          dbHandle.exec(
+            "INSERT INTO running_timers (item_id, start_at, note) VALUES (?, ?, ?);",
+            {
+              bind: [itemId, startAt, note],
+            }
+          );
+          result = {
+            ok: true,
+            result: { item_id: itemId, start_at: startAt },
+            invalidate: ["running_timers", `item:${itemId}`],
+          };
+          break;
+        }
+        case "stop_timer": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const itemId = ensureString(args.item_id, "item_id");
+          ensureItemInTeam(dbHandle, itemId, currentTeamId);
+          const endAt =
+            typeof args.end_at === "number"
+              ? ensureInteger(args.end_at, "end_at")
+              : Date.now();
+          const rows = dbHandle.exec({
+            sql: "SELECT item_id, start_at, note FROM running_timers WHERE item_id = ? LIMIT 1;",
+            rowMode: "array",
+            returnValue: "resultRows",
+            bind: [itemId],
+          }) as Array<[string, number, string | null]>;
+          if (rows.length === 0) {
+            result = {
+              ok: false,
+              error: {
+                code: "NO_RUNNING_TIMER",
+                message: "No running timer found for this item.",
+              },
+            };
+            break;
+          }
+          const startAt = rows[0][1];
+          const durationMinutes = Math.max(
+            0,
+            Math.ceil((endAt - startAt) / 60000)
+          );
+          const entryId =
+            typeof args.entry_id === "string" && args.entry_id.trim()
+              ? args.entry_id.trim()
+              : crypto.randomUUID();
+          const userId = readStringArg(args.user_id) ??
+            (options.skipOutbox ? null : (sessionForOutbox?.user_id ?? null));
+          dbHandle.exec(
+            "INSERT INTO time_entries (entry_id, item_id, start_at, end_at, duration_minutes, note, source, user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?);",
+            {
+              bind: [
+                entryId,
+                itemId,
+                startAt,
+                endAt,
+                durationMinutes,
+                rows[0][2],
+                "timer",
+                userId,
+              ],
+            }
+          );
+          dbHandle.exec("DELETE FROM running_timers WHERE item_id = ?;", {
+            bind: [itemId],
+          });
+          result = {
+            ok: true,
+            result: { entry_id: entryId, duration_minutes: durationMinutes, user_id: userId },
+            invalidate: ["time_entries", "running_timers", `item:${itemId}`],
+          };
+          break;
+        }
+        case "time_entry.update": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const entryId = ensureString(args.entry_id, "entry_id");
+          const entry = readTimeEntry(dbHandle, entryId, currentTeamId);
+          if (!entry) {
+            result = { ok: false, error: "time entry not found" };
+            break;
+          }
+          const startAt =
+            args.start_at === undefined
+              ? entry.start_at
+              : ensureInteger(args.start_at, "start_at");
+          const endAt =
+            args.end_at === undefined ? entry.end_at : ensureInteger(args.end_at, "end_at");
+          if (endAt < startAt) {
+            result = { ok: false, error: "end_at must not be before start_at" };
+            break;
+          }
+          // An explicit duration wins; otherwise a changed span sets it.
+          const durationMinutes =
+            args.duration_minutes !== undefined
+              ? ensureNonNegativeInteger(args.duration_minutes, "duration_minutes")
+              : startAt !== entry.start_at || endAt !== entry.end_at
+                ? Math.max(0, Math.ceil((endAt - startAt) / 60000))
+                : entry.duration_minutes;
+          const note =
+            args.note === undefined ? entry.note : ensureOptionalString(args.note, "note");
+          // Remote ops were checked on the device that made them; refusing one
+          // here would leave this copy behind the team's.
+          if (!options.skipOutbox) {
+            const overlapId = findOverlappingTimeEntry(
+              dbHandle,
+              entry.item_id,
+              startAt,
+              endAt,
+              [entryId]
+            );
+            if (overlapId) {
+              result = {
+                ok: false,
+                error: {
+                  code: "TIME_ENTRY_OVERLAP",
+                  message: "The entry would overlap another entry on this item.",
+                },
+              };
+              break;
+            }
+          }
+          dbHandle.exec(
+            "UPDATE time_entries SET start_at = ?, end_at = ?, duration_minutes = ?, note = ? WHERE entry_id = ?;",
+            { bind: [startAt, endAt, durationMinutes, note, entryId] }
+          );
+          result = {
+            ok: true,
+            result: { entry_id: entryId, item_id: entry.item_id, duration_minutes: durationMinutes },
+            invalidate: ["time_entries", `item:${entry.item_id}`],
+          };
+          break;
+        }
+        case "time_entry.split": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const entryId = ensureString(args.entry_id, "entry_id");
+          const entry = readTimeEntry(dbHandle, entryId, currentTeamId);
+          if (!entry) {
+            result = { ok: false, error: "time entry not found" };
+            break;
+          }
+          const splitAt = ensureInteger(args.split_at, "split_at");
+          if (splitAt <= entry.start_at || splitAt >= entry.end_at) {
+            result = { ok: false, error: "split_at must fall inside the entry" };
+            break;
+          }
+          const newEntryId =
+            typeof args.new_entry_id === "string" && args.new_entry_id.trim()
+              ? args.new_entry_id.trim()
+              : crypto.randomUUID();
+          // Manual entries need not match their span, so the logged minutes are
+          // shared out in proportion and the total is kept. Both halves stay
+          // inside the original span, so the overlap invariant still holds.
+          const firstMinutes = Math.round(
+            (entry.duration_minutes * (splitAt - entry.start_at)) /
+              (entry.end_at - entry.start_at)
+          );
+          dbHandle.exec(
+            "UPDATE time_entries SET end_at = ?, duration_minutes = ? WHERE entry_id = ?;",
+            { bind: [splitAt, firstMinutes, entryId] }
+          );
+          dbHandle.exec(
+            "INSERT INTO time_entries (entry_id, item_id, start_at, end_at, duration_minutes, note, source, user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?);",
+            {
+              bind: [
+                newEntryId,
+                entry.item_id,
+                splitAt,
+                entry.end_at,
+                entry.duration_minutes - firstMinutes,
+                entry.note,
+                entry.source,
+                entry.user_id,
+              ],
+            }
+          );
+          result = {
+            ok: true,
+            result: { entry_id: entryId, new_entry_id: newEntryId, item_id: entry.item_id },
+            invalidate: ["time_entries", `item:${entry.item_id}`],
+          };
+          break;
+        }
+        case "time_entry.delete": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const entryId = ensureString(args.entry_id, "entry_id");
+          const entry = readTimeEntry(dbHandle, entryId, currentTeamId);
+          if (!entry) {
+            result = { ok: false, error: "time entry not found" };
+            break;
+          }
+          dbHandle.exec("DELETE FROM time_entries WHERE entry_id = ?;", {
+            bind: [entryId],
+          });
+          result = {
+            ok: true,
+            result: { entry_id: entryId, item_id: entry.item_id },
+            invalidate: ["time_entries", `item:${entry.item_id}`],
+          };
+          break;
+        }
+        case "set_setting": {
+          const key = ensureString(args.key, "key");
+          const value = args.value as unknown;
+          const payload = JSON.stringify(value ?? null);
+          dbHandle.exec(
+            "INSERT INTO settings (key, value_json) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value_json = excluded.value_json;",
+            {
+              bind: [key, payload],
+            }
+          );
+          result = {
+            ok: true,
+            result: { key },
+            invalidate: ["settings"],
+          };
+          break;
+        }
+        case "saved_view.create": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const name = ensureString(args.name, "name").trim();
+          const { viewType, scope } = ensureSavedViewFields(args);
+          const state = normalizeSavedViewState(args.state);
+          const viewId =
+            typeof args.view_id === "string" && args.view_id.trim()
+              ? args.view_id.trim()
+              : crypto.randomUUID();
+          const createdBy =
+            typeof args.created_by === "string" && args.created_by.trim()
+              ? args.created_by.trim()
+              : getActiveSession(dbHandle)?.user_id ?? null;
+          const warnings = getSavedViewNameWarnings(
+            dbHandle,
+            currentTeamId,
+            name,
+            viewId
+          );
+          dbHandle.exec(
+            `INSERT INTO saved_views
+              (view_id, team_id, name, view_type, scope_json, state_json, created_by, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+            {
+              bind: [
+                viewId,
+                currentTeamId,
+                name,
+                viewType,
+                JSON.stringify(scope),
+                JSON.stringify(state),
+                createdBy,
+                envelope.ts,
+                envelope.ts,
+              ],
+            }
+          );
+          result = {
+            ok: true,
+            result: { view_id: viewId, created_by: createdBy },
+            invalidate: ["saved_views"],
+            warnings,
+          };
+          break;
+        }
+        case "saved_view.update": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const viewId = ensureString(args.view_id, "view_id");
+          const existing = getSavedViews(dbHandle, currentTeamId, viewId)[0];
+          if (!existing) {
+            result = { ok: false, error: "saved view not found" };
+            break;
+          }
+          const name =
+            args.name === undefined
+              ? existing.name
+              : ensureString(args.name, "name").trim();
+          const { viewType, scope } = ensureSavedViewFields({
+            view_type: args.view_type ?? existing.view_type,
+            scope: args.scope ?? existing.scope,
+          });
+          const state =
+            args.state === undefined
+              ? existing.state
+              : normalizeSavedViewState(args.state);
+          dbHandle.exec(
+            `UPDATE saved_views
+              SET name = ?, view_type = ?, scope_json = ?, state_json = ?, updated_at = ?
+              WHERE view_id = ? AND team_id = ?;`,
+            {
+              bind: [
+                name,
+                viewType,
+                JSON.stringify(scope),
+                JSON.stringify(state),
+                envelope.ts,
+                viewId,
+                currentTeamId,
               ],
             }
           );
           result = {
             ok: true,
-            result: { entry_id: entryId },
-            invalidate: ["time_entries", `item:${itemId}`],
+            result: { view_id: viewId },
+            invalidate: ["saved_views"],
+            warnings:
+              name === existing.name
+                ? []
+                : getSavedViewNameWarnings(dbHandle, currentTeamId, name, viewId),
+          };
+          break;
+        }
+        case "saved_view.delete": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const viewId = ensureString(args.view_id, "view_id");
+          dbHandle.exec(
+            "DELETE FROM saved_views WHERE view_id = ? AND team_id = ?;",
+            { bind: [viewId, currentTeamId] }
+          );
+          result = {
+            ok: true,
+            result: { view_id: viewId },
+            invalidate: ["saved_views"],
+          };
+          break;
+        }
+        case "sync.dismiss_discarded": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const opIds = readStringArrayArg(args.op_ids);
+          const opFilter =
+            opIds.length > 0 ? `AND op_id IN (${buildPlaceholders(opIds.length)})` : "";
+          dbHandle.exec(
+            `UPDATE op_outbox SET dismissed_at = ?
+              WHERE team_id = ? AND status = 'rejected' AND dismissed_at IS NULL ${opFilter};`,
+            { bind: [Date.now(), currentTeamId, ...opIds] }
+          );
+          result = {
+            ok: true,
+            result: { op_ids: opIds },
+            invalidate: ["sync_discarded"],
+          };
+          break;
+        }
+        case "sync.dead_letter.retry": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const opIds = readStringArrayArg(args.op_ids);
+          const opFilter =
+            opIds.length > 0 ? `AND op_id IN (${buildPlaceholders(opIds.length)})` : "";
+          dbHandle.exec(
+            `UPDATE op_outbox
+              SET status = 'queued', attempt_count = 0, next_retry_at = NULL,
+                dead_lettered_at = NULL, last_error = NULL
+              WHERE team_id = ? AND status = 'dead' ${opFilter};`,
+            { bind: [currentTeamId, ...opIds] }
+          );
+          result = {
+            ok: true,
+            result: { op_ids: opIds },
+            invalidate: ["sync_dead_letter"],
           };
           break;
         }
-        case "start_timer": {
+        case "sync.dead_letter.discard": {
           const currentTeamId = getCurrentTeamId(dbHandle);
-          const itemId = ensureString(args.item_id, "item_id");
-          ensureItemInTeam(dbHandle, itemId, currentTeamId);
-          const startAt =
-            typeof args.start_at === "number"
-              ? ensureInteger(args.start_at, "start_at")
-              : Date.now();
-          const note = typeof args.note === "string" ? args.note : null;
-          const runningRows = dbHandle.exec({
-            sql: `SELECT COUNT(*) FROM running_timers rt
-              JOIN items i ON i.id = rt.item_id
-              WHERE i.team_id = ?;`,
-            rowMode: "array",
-            returnValue: "resultRows",
-            bind: [currentTeamId],
-          }) as Array<[number]>;
-          const runningCount = Number(runningRows[0]?.[0] ?? 0);
-          if (runningCount > 0) {
-            result = {
-              ok: false,
-              error: {
-                code: "TIMER_ALREADY_RUNNING",
-                message: "Another timer is already running.",
-              },
-            };
-            break;
-          }
-          dbHandle.exec(
-            "INSERT INTO running_timers (item_id, start_at, note) VALUES (?, ?, ?);",
-            {
-              bind: [itemId, startAt, note],
-            }
+          const requested = new Set(readStringArrayArg(args.op_ids));
+          const deadOps = readDeadLetterOps(dbHandle, currentTeamId).filter(
+            (op) => requested.size === 0 || requested.has(op.op_id)
+          );
+          // Same path as a server reject: undo the ops locally (with anything
+          // built on them) and list them in the discarded notice.
+          rebaseRejectedOps(
+            dbHandle,
+            currentTeamId,
+            deadOps.map((op) => ({
+              op_id: op.op_id,
+              reason: "Discarded from the unsent changes queue",
+              code: null,
+            }))
           );
           result = {
             ok: true,
-            result: { item_id: itemId, start_at: startAt },
-            invalidate: ["running_timers", `item:${itemId}`],
+            result: { op_ids: deadOps.map((op) => op.op_id) },
+            invalidate: ["items", "blocks", "sync_dead_letter", "sync_discarded"],
           };
           break;
         }
-        case "stop_timer": {
+        case "sync.dead_letter.edit": {
           const currentTeamId = getCurrentTeamId(dbHandle);
-          const itemId = ensureString(args.item_id, "item_id");
-          ensureItemInTeam(dbHandle, itemId, currentTeamId);
-          const endAt =
-            typeof args.end_at === "number"
-              ? ensureInteger(args.end_at, "end_at")
-              : Date.now();
-          const rows = dbHandle.exec({
-            sql: "SELECT item_id, start_at, note FROM running_timers WHERE item_id = ? LIMIT 1;",
-            rowMode: "array",
-            returnValue: "resultRows",
-            bind: [itemId],
-          }) as Array<[string, number, string | null]>;
-          if (rows.length === 0) {
-            result = {
-              ok: false,
-              error: {
-                code: "NO_RUNNING_TIMER",
-                message: "No running timer found for this item.",
-              },
-            };
+          const opId = ensureString(args.op_id, "op_id");
+          if (!args.payload || typeof args.payload !== "object" || Array.isArray(args.payload)) {
+            result = { ok: false, error: "payload must be an object" };
             break;
           }
-          const startAt = rows[0][1];
-          const durationMinutes = Math.max(
-            0,
-            Math.ceil((endAt - startAt) / 60000)
+          const deadOp = readDeadLetterOps(dbHandle, currentTeamId).find(
+            (op) => op.op_id === opId
           );
-          const entryId =
-            typeof args.entry_id === "string" && args.entry_id.trim()
-              ? args.entry_id.trim()
-              : crypto.randomUUID();
-          dbHandle.exec(
-            "INSERT INTO time_entries (entry_id, item_id, start_at, end_at, duration_minutes, note, source) VALUES (?, ?, ?, ?, ?, ?, ?);",
-            {
-              bind: [
-                entryId,
-                itemId,
-                startAt,
-                endAt,
-                durationMinutes,
-                rows[0][2],
-                "timer",
-              ],
+          if (!deadOp) {
+            result = { ok: false, error: "unsent change not found" };
+            break;
+          }
+          // The original is rolled back and the edited copy applied as a new
+          // op, so this device ends up with what will be sent.
+          const resent = withTransaction(dbHandle, () => {
+            rebaseRejectedOps(dbHandle, currentTeamId, [
+              { op_id: opId, reason: "Replaced by an edited copy", code: null },
+            ]);
+            dbHandle.exec(
+              "UPDATE op_outbox SET dismissed_at = ? WHERE team_id = ? AND op_id = ?;",
+              { bind: [Date.now(), currentTeamId, opId] }
+            );
+            const applied = handleMutate({
+              op_id: crypto.randomUUID(),
+              op_name: deadOp.op_name,
+              actor_type: envelope.actor_type,
+              actor_id: envelope.actor_id,
+              ts: envelope.ts,
+              args: args.payload,
+            });
+            if (!applied.ok) {
+              throw new Error(
+                typeof applied.error === "string"
+                  ? applied.error
+                  : applied.error?.message ?? `${deadOp.op_name} failed`
+              );
             }
-          );
-          dbHandle.exec("DELETE FROM running_timers WHERE item_id = ?;", {
-            bind: [itemId],
+            return applied;
           });
           result = {
             ok: true,
-            result: { entry_id: entryId, duration_minutes: durationMinutes },
-            invalidate: ["time_entries", "running_timers", `item:${itemId}`],
+            result: { op_id: opId, resent: resent.result ?? null },
+            invalidate: [
+              ...(resent.invalidate ?? []),
+              "sync_dead_letter",
+              "sync_discarded",
+            ],
           };
           break;
         }
-        case "set_setting": {
-          const key = ensureString(args.key, "key");
-          const value = args.value as unknown;
-          const payload = JSON.stringify(value ?? null);
-          dbHandle.exec(
-            "INSERT INTO settings (key, value_json) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value_json = excluded.value_json;",
-            {
-              bind: [key, payload],
+        case "conflict.resolve": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const session = requireSession(dbHandle);
+          const conflictId = ensureString(args.conflict_id, "conflict_id");
+          if (!isItemConflictSide(args.keep)) {
+            result = { ok: false, error: "keep must be local or remote" };
+            break;
+          }
+          const conflict = readItemConflicts(dbHandle, currentTeamId, { conflictId })[0];
+          if (!conflict) {
+            result = { ok: false, error: "conflict not found" };
+            break;
+          }
+          const kept = args.keep === "local" ? conflict.local_value : conflict.remote_value;
+          const currentRows = dbHandle.exec({
+            sql: `SELECT ${conflict.field} FROM items WHERE id = ?;`,
+            rowMode: "array",
+            returnValue: "resultRows",
+            bind: [conflict.item_id],
+          }) as unknown[][];
+          let invalidate = ["item_conflicts", `item:${conflict.item_id}`];
+          // Keeping the value LWW dropped is a fresh edit: it gets a new stamp,
+          // syncs to teammates and can be undone like any other change.
+          if (JSON.stringify(currentRows[0]?.[0] ?? null) !== JSON.stringify(kept)) {
+            const applied = handleMutate({
+              op_id: crypto.randomUUID(),
+              op_name: "update_item_fields",
+              actor_type: envelope.actor_type,
+              actor_id: envelope.actor_id,
+              ts: envelope.ts,
+              args: { id: conflict.item_id, fields: { [conflict.field]: kept } },
+            });
+            if (!applied.ok) {
+              result = applied;
+              break;
             }
+            invalidate = [...invalidate, ...(applied.invalidate ?? [])];
+          }
+          dbHandle.exec(
+            "UPDATE item_conflicts SET resolution = ?, resolved_by = ?, resolved_at = ? WHERE conflict_id = ?;",
+            { bind: [args.keep, session.user_id, Date.now(), conflictId] }
           );
           result = {
             ok: true,
-            result: { key },
-            invalidate: ["settings"],
+            result: { conflict_id: conflictId, keep: args.keep },
+            invalidate: Array.from(new Set(invalidate)),
           };
           break;
         }
+        case "history.undo":
+        case "history.redo": {
+          const session = requireSession(dbHandle);
+          const isUndo = envelope.op_name === "history.undo";
+          const entry = getHistoryEntry(dbHandle, session, isUndo ? "done" : "undone");
+          if (!entry) {
+            result = { ok: true, result: { log_id: null, op_name: null } };
+            break;
+          }
+          try {
+            const replayed = replayHistoryOps(
+              envelope,
+              isUndo ? entry.inverse : [entry.redo],
+              isUndo ? "undo" : "redo"
+            );
+            // A redo is logged as a fresh entry, so the original one retires.
+            dbHandle.exec(
+              "UPDATE audit_log SET undo_state = ?, undone_at = ? WHERE log_id = ?;",
+              {
+                bind: [isUndo ? "undone" : "redone", isUndo ? envelope.ts : null, entry.log_id],
+              }
+            );
+            result = {
+              ok: true,
+              result: { log_id: entry.log_id, op_name: entry.op_name },
+              invalidate: replayed.invalidate,
+            };
+          } catch (err) {
+            // The rows may have changed since (a teammate's edit, say); drop
+            // the entry so the next undo/redo moves past it.
+            dbHandle.exec(
+              "UPDATE audit_log SET undo_state = 'discarded' WHERE log_id = ?;",
+              { bind: [entry.log_id] }
+            );
+            const message = err instanceof Error ? err.message : String(err);
+            result = {
+              ok: false,
+              error: `Unable to ${isUndo ? "undo" : "redo"} ${entry.op_name}: ${message}`,
+            };
+          }
+          break;
+        }
         case "export_data": {
           const currentTeamId = getCurrentTeamId(dbHandle);
           const data = exportData(dbHandle, currentTeamId);
@@ -3684,6 +8812,42 @@ const handleMutate = (
           };
           break;
         }
+        case "import_ics": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const calendar = ensureString(args.calendar, "calendar").trim();
+          const userId =
+            args.user_id === undefined || args.user_id === null
+              ? requireSession(dbHandle).user_id
+              : ensureString(args.user_id, "user_id");
+          requireTeamMember(userId, currentTeamId, dbHandle);
+          // Replayed ops carry the parsed events instead of the raw file.
+          const prepared =
+            args.events !== undefined
+              ? { events: parseBusyEventsArg(args.events), warnings: [] }
+              : prepareBusyEvents(ensureString(args.content, "content"));
+          const counts = importBusyBlocks(
+            dbHandle,
+            currentTeamId,
+            userId,
+            calendar,
+            prepared.events,
+            Date.now()
+          );
+          result = {
+            ok: true,
+            result: {
+              calendar,
+              user_id: userId,
+              ...counts,
+              events: prepared.events,
+            },
+            invalidate: ["blocks"],
+            ...(prepared.warnings.length > 0
+              ? { warnings: prepared.warnings }
+              : {}),
+          };
+          break;
+        }
         case "import_data": {
           const currentTeamId = getCurrentTeamId(dbHandle);
           const payload = args.payload as unknown;
@@ -3728,6 +8892,22 @@ const handleMutate = (
               notes: ensureOptionalString(item.notes ?? null, `items[${index}].notes`),
               created_at: ensureNumber(item.created_at, `items[${index}].created_at`),
               updated_at: ensureNumber(item.updated_at, `items[${index}].updated_at`),
+              recurrence_rule: normalizeRecurrenceRuleArg(
+                item.recurrence_rule,
+                `items[${index}].recurrence_rule`
+              ),
+              recurrence_series_id: ensureOptionalString(
+                item.recurrence_series_id ?? null,
+                `items[${index}].recurrence_series_id`
+              ),
+              completed_at: ensureOptionalNumber(
+                item.completed_at ?? null,
+                `items[${index}].completed_at`
+              ),
+              sort_order:
+                item.sort_order === undefined
+                  ? 0
+                  : ensureNumber(item.sort_order, `items[${index}].sort_order`),
             };
           });
 
@@ -3833,6 +9013,10 @@ const handleMutate = (
                 block.source,
                 `scheduled_blocks[${index}].source`
               ),
+              recurrence_rule: normalizeRecurrenceRuleArg(
+                block.recurrence_rule,
+                `scheduled_blocks[${index}].recurrence_rule`
+              ),
             };
           });
 
@@ -3871,6 +9055,10 @@ const handleMutate = (
                   entry.source,
                   `time_entries[${index}].source`
                 ),
+                user_id: ensureOptionalString(
+                  entry.user_id ?? null,
+                  `time_entries[${index}].user_id`
+                ),
               };
             }
           );
@@ -3929,6 +9117,199 @@ const handleMutate = (
             };
           });
 
+          // Exports from before project access control carry no members.
+          const projectMembers = ensureArray(
+            record.project_members ?? [],
+            "project_members"
+          ).map((value, index) => {
+            if (!value || typeof value !== "object") {
+              throw new Error(`project_members[${index}] must be an object`);
+            }
+            const member = value as Record<string, unknown>;
+            const role = normalizeTeamRole(member.role);
+            if (!role) {
+              throw new Error(`project_members[${index}].role must be owner, editor, or viewer`);
+            }
+            return {
+              project_id: ensureString(
+                member.project_id,
+                `project_members[${index}].project_id`
+              ),
+              user_id: ensureString(member.user_id, `project_members[${index}].user_id`),
+              role,
+            };
+          });
+
+          // Exports from before capacity planning leave capacity untouched.
+          const userCapacity =
+            record.user_capacity === undefined
+              ? null
+              : ensureArray(record.user_capacity, "user_capacity").map((value, index) => {
+                  if (!value || typeof value !== "object") {
+                    throw new Error(`user_capacity[${index}] must be an object`);
+                  }
+                  const row = value as Record<string, unknown>;
+                  const weekday = ensureNonNegativeInteger(
+                    row.weekday,
+                    `user_capacity[${index}].weekday`
+                  );
+                  if (weekday > 6) {
+                    throw new Error(`user_capacity[${index}].weekday must be 0-6`);
+                  }
+                  return {
+                    user_id: ensureString(row.user_id, `user_capacity[${index}].user_id`),
+                    weekday,
+                    capacity_minutes: ensureNonNegativeInteger(
+                      row.capacity_minutes,
+                      `user_capacity[${index}].capacity_minutes`
+                    ),
+                  };
+                });
+
+          // Likewise for working calendars, which came after capacity.
+          let workingCalendar: WorkingCalendarRules | null = null;
+          if (record.working_calendar !== undefined) {
+            const calendarRecord = record.working_calendar as Record<string, unknown> | null;
+            if (!calendarRecord || typeof calendarRecord !== "object") {
+              throw new Error("working_calendar must be an object");
+            }
+            const weekdays = ensureArray(
+              calendarRecord.working_weekdays,
+              "working_calendar.working_weekdays"
+            );
+            if (weekdays.length !== 7 || weekdays.some((value) => typeof value !== "boolean")) {
+              throw new Error("working_calendar.working_weekdays must list seven booleans");
+            }
+            const ensureDay = (value: unknown, label: string) => {
+              if (!isDayString(value)) {
+                throw new Error(`${label} must be a YYYY-MM-DD date`);
+              }
+              return value;
+            };
+            workingCalendar = {
+              working_weekdays: weekdays as boolean[],
+              holidays: ensureArray(calendarRecord.holidays, "working_calendar.holidays").map(
+                (value, index) => {
+                  const label = `working_calendar.holidays[${index}]`;
+                  if (!value || typeof value !== "object") {
+                    throw new Error(`${label} must be an object`);
+                  }
+                  const row = value as Record<string, unknown>;
+                  return {
+                    holiday_id: ensureString(row.holiday_id, `${label}.holiday_id`),
+                    day: ensureDay(row.day, `${label}.day`),
+                    name: ensureString(row.name, `${label}.name`),
+                  };
+                }
+              ),
+              time_off: ensureArray(calendarRecord.time_off, "working_calendar.time_off").map(
+                (value, index) => {
+                  const label = `working_calendar.time_off[${index}]`;
+                  if (!value || typeof value !== "object") {
+                    throw new Error(`${label} must be an object`);
+                  }
+                  const row = value as Record<string, unknown>;
+                  const startDay = ensureDay(row.start_day, `${label}.start_day`);
+                  const endDay = ensureDay(row.end_day, `${label}.end_day`);
+                  if (endDay < startDay) {
+                    throw new Error(`${label}.end_day must not be before start_day`);
+                  }
+                  return {
+                    time_off_id: ensureString(row.time_off_id, `${label}.time_off_id`),
+                    user_id: ensureString(row.user_id, `${label}.user_id`),
+                    start_day: startDay,
+                    end_day: endDay,
+                    note: ensureOptionalString(row.note ?? null, `${label}.note`),
+                  };
+                }
+              ),
+            };
+          }
+
+          // Saved views, busy blocks and time zones came later still; older
+          // exports leave them untouched.
+          const savedViews =
+            record.saved_views === undefined
+              ? null
+              : ensureArray(record.saved_views, "saved_views").map((value, index) => {
+                  if (!value || typeof value !== "object") {
+                    throw new Error(`saved_views[${index}] must be an object`);
+                  }
+                  const view = value as Record<string, unknown>;
+                  const { viewType, scope } = ensureSavedViewFields(view);
+                  return {
+                    view_id: ensureString(view.view_id, `saved_views[${index}].view_id`),
+                    name: ensureString(view.name, `saved_views[${index}].name`),
+                    view_type: viewType,
+                    scope,
+                    state: normalizeSavedViewState(view.state),
+                    created_by: ensureOptionalString(
+                      view.created_by ?? null,
+                      `saved_views[${index}].created_by`
+                    ),
+                    created_at: ensureNumber(
+                      view.created_at,
+                      `saved_views[${index}].created_at`
+                    ),
+                    updated_at: ensureNumber(
+                      view.updated_at,
+                      `saved_views[${index}].updated_at`
+                    ),
+                  };
+                });
+
+          const busyBlocks =
+            record.busy_blocks === undefined
+              ? null
+              : ensureArray(record.busy_blocks, "busy_blocks").map((value, index) => {
+                  const label = `busy_blocks[${index}]`;
+                  if (!value || typeof value !== "object") {
+                    throw new Error(`${label} must be an object`);
+                  }
+                  const block = value as Record<string, unknown>;
+                  return {
+                    user_id: ensureString(block.user_id, `${label}.user_id`),
+                    source_calendar: ensureString(
+                      block.source_calendar,
+                      `${label}.source_calendar`
+                    ),
+                    uid: ensureString(block.uid, `${label}.uid`),
+                    title: ensureString(block.title, `${label}.title`),
+                    start_at: ensureNumber(block.start_at, `${label}.start_at`),
+                    duration_minutes: ensureNonNegativeInteger(
+                      block.duration_minutes,
+                      `${label}.duration_minutes`
+                    ),
+                    all_day: block.all_day ? 1 : 0,
+                    recurrence_rule: normalizeRecurrenceRuleArg(
+                      block.recurrence_rule,
+                      `${label}.recurrence_rule`
+                    ),
+                    imported_at: ensureNumber(block.imported_at, `${label}.imported_at`),
+                  };
+                });
+
+          const userTimeZones =
+            record.user_time_zones === undefined
+              ? null
+              : ensureArray(record.user_time_zones, "user_time_zones").map(
+                  (value, index) => {
+                    const label = `user_time_zones[${index}]`;
+                    if (!value || typeof value !== "object") {
+                      throw new Error(`${label} must be an object`);
+                    }
+                    const row = value as Record<string, unknown>;
+                    const zone = row.time_zone ?? null;
+                    if (zone !== null && !isValidTimeZone(zone)) {
+                      throw new Error(`${label}.time_zone must be an IANA time zone or null`);
+                    }
+                    return {
+                      user_id: ensureString(row.user_id, `${label}.user_id`),
+                      time_zone: zone as string | null,
+                    };
+                  }
+                );
+
           const settings = ensureArray(record.settings, "settings").map(
             (value, index) => {
               if (!value || typeof value !== "object") {
@@ -3966,6 +9347,9 @@ const handleMutate = (
           const scopedItemAssignees = itemAssignees.filter((assignee) =>
             importedItemIds.has(assignee.item_id)
           );
+          const scopedProjectMembers = projectMembers.filter((member) =>
+            importedItemIds.has(member.project_id)
+          );
 
           const existingItemRows = dbHandle.exec({
             sql: "SELECT id FROM items WHERE team_id = ?;",
@@ -4004,6 +9388,10 @@ const handleMutate = (
               `DELETE FROM item_assignees WHERE item_id IN (${placeholders});`,
               { bind: existingItemIds }
             );
+            dbHandle.exec(
+              `DELETE FROM project_members WHERE project_id IN (${placeholders});`,
+              { bind: existingItemIds }
+            );
             dbHandle.exec(
               `DELETE FROM items WHERE id IN (${placeholders});`,
               { bind: existingItemIds }
@@ -4012,7 +9400,7 @@ const handleMutate = (
 
           for (const item of items) {
             dbHandle.exec(
-              "INSERT INTO items (id, type, title, parent_id, team_id, status, priority, due_at, estimate_mode, estimate_minutes, health, health_mode, notes, created_at, updated_at, archived_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
+              "INSERT INTO items (id, type, title, parent_id, team_id, status, priority, due_at, estimate_mode, estimate_minutes, health, health_mode, notes, created_at, updated_at, archived_at, recurrence_rule, recurrence_series_id, completed_at, sort_order) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);",
               {
                 bind: [
                   item.id,
@@ -4031,6 +9419,10 @@ const handleMutate = (
                   item.created_at,
                   item.updated_at,
                   (item as Record<string, unknown>).archived_at ?? null,
+                  item.recurrence_rule,
+                  item.recurrence_series_id,
+                  item.completed_at,
+                  item.sort_order,
                 ],
               }
             );
@@ -4063,7 +9455,7 @@ const handleMutate = (
 
           for (const block of scopedScheduledBlocks) {
             dbHandle.exec(
-              "INSERT INTO scheduled_blocks (block_id, item_id, start_at, duration_minutes, locked, source) VALUES (?, ?, ?, ?, ?, ?);",
+              "INSERT INTO scheduled_blocks (block_id, item_id, start_at, duration_minutes, locked, source, recurrence_rule) VALUES (?, ?, ?, ?, ?, ?, ?);",
               {
                 bind: [
                   block.block_id,
@@ -4072,6 +9464,7 @@ const handleMutate = (
                   block.duration_minutes,
                   block.locked,
                   block.source,
+                  block.recurrence_rule,
                 ],
               }
             );
@@ -4079,7 +9472,7 @@ const handleMutate = (
 
           for (const entry of scopedTimeEntries) {
             dbHandle.exec(
-              "INSERT INTO time_entries (entry_id, item_id, start_at, end_at, duration_minutes, note, source) VALUES (?, ?, ?, ?, ?, ?, ?);",
+              "INSERT INTO time_entries (entry_id, item_id, start_at, end_at, duration_minutes, note, source, user_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?);",
               {
                 bind: [
                   entry.entry_id,
@@ -4089,31 +9482,160 @@ const handleMutate = (
                   entry.duration_minutes,
                   entry.note,
                   entry.source,
+                  entry.user_id,
                 ],
               }
             );
           }
 
-          for (const timer of scopedRunningTimers) {
-            dbHandle.exec(
-              "INSERT INTO running_timers (item_id, start_at, note) VALUES (?, ?, ?);",
-              {
-                bind: [timer.item_id, timer.start_at, timer.note],
-              }
-            );
+          for (const timer of scopedRunningTimers) {
+            dbHandle.exec(
+              "INSERT INTO running_timers (item_id, start_at, note) VALUES (?, ?, ?);",
+              {
+                bind: [timer.item_id, timer.start_at, timer.note],
+              }
+            );
+          }
+
+          for (const tag of scopedItemTags) {
+            dbHandle.exec("INSERT INTO item_tags (item_id, tag) VALUES (?, ?);", {
+              bind: [tag.item_id, tag.tag],
+            });
+          }
+
+          for (const assignee of scopedItemAssignees) {
+            dbHandle.exec(
+              "INSERT INTO item_assignees (item_id, assignee_id) VALUES (?, ?);",
+              { bind: [assignee.item_id, assignee.assignee_id] }
+            );
+          }
+
+          for (const member of scopedProjectMembers) {
+            dbHandle.exec(
+              "INSERT OR REPLACE INTO project_members (project_id, user_id, role, created_at) VALUES (?, ?, ?, ?);",
+              { bind: [member.project_id, member.user_id, member.role, Date.now()] }
+            );
+          }
+
+          if (userCapacity) {
+            dbHandle.exec("DELETE FROM user_capacity WHERE team_id = ?;", {
+              bind: [currentTeamId],
+            });
+            const importedAt = Date.now();
+            for (const row of userCapacity) {
+              dbHandle.exec(
+                "INSERT OR REPLACE INTO user_capacity (team_id, user_id, weekday, capacity_minutes, updated_at) VALUES (?, ?, ?, ?, ?);",
+                {
+                  bind: [currentTeamId, row.user_id, row.weekday, row.capacity_minutes, importedAt],
+                }
+              );
+            }
+          }
+
+          if (workingCalendar) {
+            for (const table of ["team_working_days", "team_holidays", "user_time_off"]) {
+              dbHandle.exec(`DELETE FROM ${table} WHERE team_id = ?;`, {
+                bind: [currentTeamId],
+              });
+            }
+            const importedAt = Date.now();
+            workingCalendar.working_weekdays.forEach((isWorking, weekday) => {
+              dbHandle.exec(
+                "INSERT INTO team_working_days (team_id, weekday, is_working, updated_at) VALUES (?, ?, ?, ?);",
+                { bind: [currentTeamId, weekday, isWorking ? 1 : 0, importedAt] }
+              );
+            });
+            for (const holiday of workingCalendar.holidays) {
+              dbHandle.exec(
+                "INSERT OR REPLACE INTO team_holidays (holiday_id, team_id, day, name, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?);",
+                {
+                  bind: [
+                    holiday.holiday_id,
+                    currentTeamId,
+                    holiday.day,
+                    holiday.name,
+                    importedAt,
+                    importedAt,
+                  ],
+                }
+              );
+            }
+            for (const entry of workingCalendar.time_off) {
+              dbHandle.exec(
+                "INSERT OR REPLACE INTO user_time_off (time_off_id, team_id, user_id, start_day, end_day, note, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?);",
+                {
+                  bind: [
+                    entry.time_off_id,
+                    currentTeamId,
+                    entry.user_id,
+                    entry.start_day,
+                    entry.end_day,
+                    entry.note,
+                    importedAt,
+                    importedAt,
+                  ],
+                }
+              );
+            }
+          }
+
+          if (savedViews) {
+            dbHandle.exec("DELETE FROM saved_views WHERE team_id = ?;", {
+              bind: [currentTeamId],
+            });
+            for (const view of savedViews) {
+              dbHandle.exec(
+                `INSERT OR REPLACE INTO saved_views
+                  (view_id, team_id, name, view_type, scope_json, state_json, created_by, created_at, updated_at)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+                {
+                  bind: [
+                    view.view_id,
+                    currentTeamId,
+                    view.name,
+                    view.view_type,
+                    JSON.stringify(view.scope),
+                    JSON.stringify(view.state),
+                    view.created_by,
+                    view.created_at,
+                    view.updated_at,
+                  ],
+                }
+              );
+            }
           }
 
-          for (const tag of scopedItemTags) {
-            dbHandle.exec("INSERT INTO item_tags (item_id, tag) VALUES (?, ?);", {
-              bind: [tag.item_id, tag.tag],
+          if (busyBlocks) {
+            dbHandle.exec("DELETE FROM busy_blocks WHERE team_id = ?;", {
+              bind: [currentTeamId],
             });
+            for (const block of busyBlocks) {
+              dbHandle.exec(
+                `INSERT OR REPLACE INTO busy_blocks
+                  (team_id, user_id, source_calendar, uid, title, start_at, duration_minutes, all_day, recurrence_rule, imported_at)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+                {
+                  bind: [
+                    currentTeamId,
+                    block.user_id,
+                    block.source_calendar,
+                    block.uid,
+                    block.title,
+                    block.start_at,
+                    block.duration_minutes,
+                    block.all_day,
+                    block.recurrence_rule,
+                    block.imported_at,
+                  ],
+                }
+              );
+            }
           }
 
-          for (const assignee of scopedItemAssignees) {
-            dbHandle.exec(
-              "INSERT INTO item_assignees (item_id, assignee_id) VALUES (?, ?);",
-              { bind: [assignee.item_id, assignee.assignee_id] }
-            );
+          for (const row of userTimeZones ?? []) {
+            dbHandle.exec("UPDATE users SET time_zone = ?, updated_at = ? WHERE user_id = ?;", {
+              bind: [row.time_zone, Date.now(), row.user_id],
+            });
           }
 
           for (const setting of settings) {
@@ -4122,6 +9644,7 @@ const handleMutate = (
               { bind: [setting.key, JSON.stringify(setting.value ?? null)] }
             );
           }
+          rebuildItemSearchForTeam(dbHandle, currentTeamId);
 
           result = {
             ok: true,
@@ -4135,6 +9658,12 @@ const handleMutate = (
                 running_timers: scopedRunningTimers.length,
                 item_tags: scopedItemTags.length,
                 item_assignees: scopedItemAssignees.length,
+                user_capacity: userCapacity?.length ?? 0,
+                holidays: workingCalendar?.holidays.length ?? 0,
+                time_off: workingCalendar?.time_off.length ?? 0,
+                saved_views: savedViews?.length ?? 0,
+                busy_blocks: busyBlocks?.length ?? 0,
+                user_time_zones: userTimeZones?.length ?? 0,
                 settings: settings.length,
               },
             },
@@ -4145,6 +9674,10 @@ const handleMutate = (
               "blocks",
               "time_entries",
               "running_timers",
+              "capacity",
+              "working_calendar",
+              "saved_views",
+              "users",
               "settings",
             ],
           };
@@ -4374,6 +9907,7 @@ const handleMutate = (
               bind: [blockerId, itemId, kind, text, envelope.ts, null],
             }
           );
+          refreshItemSearch(dbHandle, [itemId]);
           result = {
             ok: true,
             result: { blocker_id: blockerId },
@@ -4399,6 +9933,7 @@ const handleMutate = (
           dbHandle.exec("UPDATE blockers SET cleared_at = ? WHERE blocker_id = ?;", {
             bind: [envelope.ts, blockerId],
           });
+          refreshItemSearch(dbHandle, [blockerItemId]);
           result = {
             ok: true,
             result: { blocker_id: blockerId },
@@ -4426,6 +9961,7 @@ const handleMutate = (
               bind: [itemId, tag],
             });
           }
+          refreshItemSearch(dbHandle, [itemId]);
           result = {
             ok: true,
             result: { item_id: itemId, tags },
@@ -4507,6 +10043,190 @@ const handleMutate = (
           };
           break;
         }
+        case "user.set_capacity": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const userId = ensureString(args.user_id, "user_id");
+          const hours = ensureArray(args.hours_by_weekday, "hours_by_weekday");
+          if (hours.length !== 7) {
+            result = {
+              ok: false,
+              error: "hours_by_weekday must list seven days, Sunday first",
+            };
+            break;
+          }
+          const minutes = hours.map((value, weekday) => {
+            const hoursValue = ensureNumber(value, `hours_by_weekday[${weekday}]`);
+            if (hoursValue < 0 || hoursValue > 24) {
+              throw new Error(`hours_by_weekday[${weekday}] must be between 0 and 24`);
+            }
+            return Math.round(hoursValue * 60);
+          });
+          const updatedAt = Date.now();
+          minutes.forEach((capacityMinutes, weekday) => {
+            dbHandle.exec(
+              `INSERT INTO user_capacity (team_id, user_id, weekday, capacity_minutes, updated_at)
+                VALUES (?, ?, ?, ?, ?)
+                ON CONFLICT(team_id, user_id, weekday) DO UPDATE SET
+                  capacity_minutes = excluded.capacity_minutes,
+                  updated_at = excluded.updated_at;`,
+              { bind: [currentTeamId, userId, weekday, capacityMinutes, updatedAt] }
+            );
+          });
+          result = {
+            ok: true,
+            result: { user_id: userId, minutes_by_weekday: minutes },
+            invalidate: ["capacity"],
+          };
+          break;
+        }
+        case "user.set_time_zone": {
+          const userId = ensureString(args.user_id, "user_id");
+          const timeZone = args.time_zone ?? null;
+          if (timeZone !== null && !isValidTimeZone(timeZone)) {
+            result = { ok: false, error: "time_zone must be an IANA time zone or null" };
+            break;
+          }
+          if (!options.skipOutbox) {
+            const session = requireSession(dbHandle);
+            const role = requireCanReadTeam(session, getCurrentTeamId(dbHandle), dbHandle);
+            if (userId !== session.user_id) {
+              requireRoleAtLeast(role, "owner");
+            }
+          }
+          dbHandle.exec("UPDATE users SET time_zone = ?, updated_at = ? WHERE user_id = ?;", {
+            bind: [timeZone, Date.now(), userId],
+          });
+          result = {
+            ok: true,
+            result: { user_id: userId, time_zone: timeZone },
+            invalidate: ["users", "team", "session"],
+          };
+          break;
+        }
+        case "team.set_working_days": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const weekdays = ensureArray(args.working_weekdays, "working_weekdays");
+          if (weekdays.length !== 7 || weekdays.some((value) => typeof value !== "boolean")) {
+            result = {
+              ok: false,
+              error: "working_weekdays must list seven booleans, Sunday first",
+            };
+            break;
+          }
+          const updatedAt = Date.now();
+          weekdays.forEach((isWorking, weekday) => {
+            dbHandle.exec(
+              `INSERT INTO team_working_days (team_id, weekday, is_working, updated_at)
+                VALUES (?, ?, ?, ?)
+                ON CONFLICT(team_id, weekday) DO UPDATE SET
+                  is_working = excluded.is_working,
+                  updated_at = excluded.updated_at;`,
+              { bind: [currentTeamId, weekday, isWorking ? 1 : 0, updatedAt] }
+            );
+          });
+          result = {
+            ok: true,
+            result: { working_weekdays: weekdays },
+            invalidate: ["working_calendar", "capacity"],
+          };
+          break;
+        }
+        case "team.holiday.add": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const day = args.day;
+          if (!isDayString(day)) {
+            result = { ok: false, error: "day must be a YYYY-MM-DD date" };
+            break;
+          }
+          const name = ensureString(args.name, "name").trim();
+          if (!name) {
+            result = { ok: false, error: "name must be non-empty" };
+            break;
+          }
+          const holidayId =
+            typeof args.holiday_id === "string" && args.holiday_id.trim()
+              ? args.holiday_id.trim()
+              : crypto.randomUUID();
+          const now = Date.now();
+          dbHandle.exec(
+            `INSERT INTO team_holidays (holiday_id, team_id, day, name, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?)
+              ON CONFLICT(holiday_id) DO UPDATE SET
+                day = excluded.day,
+                name = excluded.name,
+                updated_at = excluded.updated_at;`,
+            { bind: [holidayId, currentTeamId, day, name, now, now] }
+          );
+          result = {
+            ok: true,
+            result: { holiday_id: holidayId },
+            invalidate: ["working_calendar", "capacity"],
+          };
+          break;
+        }
+        case "team.holiday.remove": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const holidayId = ensureString(args.holiday_id, "holiday_id");
+          dbHandle.exec("DELETE FROM team_holidays WHERE holiday_id = ? AND team_id = ?;", {
+            bind: [holidayId, currentTeamId],
+          });
+          result = {
+            ok: true,
+            result: { holiday_id: holidayId },
+            invalidate: ["working_calendar", "capacity"],
+          };
+          break;
+        }
+        case "user.time_off.add": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const userId = ensureString(args.user_id, "user_id");
+          const startDay = args.start_day;
+          const endDay = args.end_day ?? startDay;
+          if (!isDayString(startDay) || !isDayString(endDay) || endDay < startDay) {
+            result = {
+              ok: false,
+              error: "start_day and end_day must be YYYY-MM-DD dates, end_day not before start_day",
+            };
+            break;
+          }
+          const note = ensureOptionalString(args.note ?? null, "note")?.trim() || null;
+          const timeOffId =
+            typeof args.time_off_id === "string" && args.time_off_id.trim()
+              ? args.time_off_id.trim()
+              : crypto.randomUUID();
+          const now = Date.now();
+          dbHandle.exec(
+            `INSERT INTO user_time_off
+                (time_off_id, team_id, user_id, start_day, end_day, note, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT(time_off_id) DO UPDATE SET
+                user_id = excluded.user_id,
+                start_day = excluded.start_day,
+                end_day = excluded.end_day,
+                note = excluded.note,
+                updated_at = excluded.updated_at;`,
+            { bind: [timeOffId, currentTeamId, userId, startDay, endDay, note, now, now] }
+          );
+          result = {
+            ok: true,
+            result: { time_off_id: timeOffId },
+            invalidate: ["working_calendar", "capacity"],
+          };
+          break;
+        }
+        case "user.time_off.remove": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const timeOffId = ensureString(args.time_off_id, "time_off_id");
+          dbHandle.exec("DELETE FROM user_time_off WHERE time_off_id = ? AND team_id = ?;", {
+            bind: [timeOffId, currentTeamId],
+          });
+          result = {
+            ok: true,
+            result: { time_off_id: timeOffId },
+            invalidate: ["working_calendar", "capacity"],
+          };
+          break;
+        }
         case "auth.session.bootstrap": {
           const userId = ensureString(args.user_id, "user_id");
           const displayName = ensureString(args.display_name, "display_name").trim();
@@ -4607,6 +10327,7 @@ const handleMutate = (
               bind: [Date.now(), activeSession.session_id],
             }
           );
+          stopSyncStream();
           result = {
             ok: true,
             result: { logged_out: true, session_id: activeSession.session_id },
@@ -4654,6 +10375,74 @@ const handleMutate = (
           };
           break;
         }
+        case "project.member.set_role": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const projectId = ensureString(args.project_id, "project_id");
+          const userId = ensureString(args.user_id, "user_id");
+          const roleValue = normalizeTeamRole(ensureString(args.role, "role"));
+          if (!roleValue) {
+            result = { ok: false, error: "role must be owner, editor, or viewer" };
+            break;
+          }
+          if (!isRootProject(dbHandle, projectId, currentTeamId)) {
+            result = { ok: false, error: "project not found" };
+            break;
+          }
+          if (!options.skipOutbox) {
+            const session = requireSession(dbHandle);
+            requireProjectRoleAtLeast(
+              dbHandle,
+              session,
+              requireCanReadTeam(session, currentTeamId, dbHandle),
+              projectId,
+              "owner"
+            );
+            if (!getTeamMemberRole(userId, currentTeamId, dbHandle)) {
+              result = { ok: false, error: "user is not a member of this team" };
+              break;
+            }
+          }
+          dbHandle.exec(
+            "INSERT INTO project_members (project_id, user_id, role, created_at) VALUES (?, ?, ?, ?) ON CONFLICT(project_id, user_id) DO UPDATE SET role = excluded.role;",
+            {
+              bind: [projectId, userId, roleValue, Date.now()],
+            }
+          );
+          result = {
+            ok: true,
+            result: { project_id: projectId, user_id: userId, role: roleValue },
+            invalidate: ["project_members", "items"],
+          };
+          break;
+        }
+        case "project.member.remove": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const projectId = ensureString(args.project_id, "project_id");
+          const userId = ensureString(args.user_id, "user_id");
+          if (!isRootProject(dbHandle, projectId, currentTeamId)) {
+            result = { ok: false, error: "project not found" };
+            break;
+          }
+          if (!options.skipOutbox) {
+            const session = requireSession(dbHandle);
+            requireProjectRoleAtLeast(
+              dbHandle,
+              session,
+              requireCanReadTeam(session, currentTeamId, dbHandle),
+              projectId,
+              "owner"
+            );
+          }
+          dbHandle.exec("DELETE FROM project_members WHERE project_id = ? AND user_id = ?;", {
+            bind: [projectId, userId],
+          });
+          result = {
+            ok: true,
+            result: { project_id: projectId, user_id: userId },
+            invalidate: ["project_members", "items"],
+          };
+          break;
+        }
         case "item.set_assignee": {
           const currentTeamId = getCurrentTeamId(dbHandle);
           const itemId = ensureString(args.item_id, "item_id");
@@ -4721,6 +10510,23 @@ const handleMutate = (
         result = { ok: false, error: `Unknown operation: ${envelope.op_name}` };
           break;
       }
+      if (result.ok && finishItemHistory) {
+        itemChanges = finishItemHistory(result);
+        options.itemChanges?.push(...itemChanges);
+      }
+      if (result.ok && finishUndo) {
+        const inverse = finishUndo(result);
+        options.inverseOps?.push(...inverse);
+        if (inverse.length > 0) {
+          undoEntry = {
+            inverse,
+            redo: {
+              op_name: envelope.op_name,
+              args: deriveOutboxPayload(envelope.op_name, args, result),
+            },
+          };
+        }
+      }
     } catch (err) {
       const codedError = asRpcErrorPayload(err);
       if (codedError) {
@@ -4733,8 +10539,9 @@ const handleMutate = (
 
     if (
       result.ok &&
-      !options.skipOutbox &&
-      !OUTBOX_SKIPPED_OPS.has(envelope.op_name)
+      tracksOutbox &&
+      !isPreviewOnlyMutation(envelope.op_name, args) &&
+      !isDeviceLocalMutation(envelope.op_name, args)
     ) {
       const activeSession = sessionForOutbox ?? getActiveSession(dbHandle);
       if (!activeSession) {
@@ -4742,18 +10549,47 @@ const handleMutate = (
           `Unable to resolve active session for outbox op: ${envelope.op_name}`
         );
       }
+      const hlc = nextLocalHlc(dbHandle);
+      if (envelope.op_name === "update_item_fields") {
+        stampItemFieldVersions(dbHandle, args, {
+          hlc,
+          op_id: envelope.op_id,
+          actor_user_id: activeSession.user_id,
+        });
+      }
+      const outboxPayload = deriveOutboxPayload(envelope.op_name, args, result);
       enqueueOutboxOp(
         dbHandle,
         envelope.op_name,
-        deriveOutboxPayload(envelope.op_name, args, result),
+        outboxPayload,
         activeSession,
         envelope.op_id,
-        envelope.ts
+        envelope.ts,
+        hlc,
+        mergeOpProjectScopes(
+          projectScopeBefore,
+          resolveOpProjectScope(
+            dbHandle,
+            activeSession.team_id,
+            (outboxPayload ?? {}) as Record<string, unknown>
+          )
+        )
       );
     }
 
     if (!options.skipAudit) {
-      insertAuditLog(dbHandle, envelope, result);
+      const auditSession = sessionForOutbox ?? getActiveSession(dbHandle);
+      if (undoEntry && auditSession && options.history !== "redo") {
+        discardRedoStack(dbHandle, auditSession);
+      }
+      insertAuditLog(
+        dbHandle,
+        envelope,
+        result,
+        auditSession,
+        undoEntry,
+        itemChanges
+      );
     }
     return result;
   });
@@ -4922,6 +10758,8 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
         const session = requireSession(dbHandle);
         requireCanReadTeam(session, session.team_id, dbHandle);
       }
+      const timeZone = resolveTimeZone(dbHandle, args);
+      const workingTimeFor = createWorkingTimeLookup(dbHandle, timeZone);
 
       switch (envelope.name) {
         case "getItemDetails": {
@@ -4996,7 +10834,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               ? (settings.get("capacity_minutes_per_day") as number)
               : null;
           const now = Date.now();
-          const dueMetrics = computeDueMetrics(rows[0][6], now, rows[0][4]);
+          const dueMetrics = computeDueMetrics(rows[0][6], now, rows[0][4], timeZone);
           const actualRows = dbHandle.exec({
             sql: "SELECT SUM(duration_minutes) FROM time_entries WHERE item_id = ?;",
             rowMode: "array",
@@ -5038,7 +10876,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           const treeDueMetricsMap = new Map(
             treeRows.map((row) => [
               row[0],
-              computeDueMetrics(row[5], now, row[4]),
+              computeDueMetrics(row[5], now, row[4], timeZone),
             ])
           );
           const rollupMap = computeRollupTotals(
@@ -5201,6 +11039,140 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           };
           break;
         }
+        case "timesheet": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const session = requireSession(dbHandle);
+          const { scopeProjectId, scopeUserId } = resolveScopeArgs(
+            args as Record<string, unknown>
+          );
+          const userId = readStringArg(args.user_id) ?? scopeUserId ?? session.user_id;
+          // The sheet's days are the user's own, so it reads the same for
+          // whoever opens it.
+          const calendar = zonedCalendar(
+            readUserTimeZone(dbHandle, userId) ?? timeZone
+          );
+          const weekStart =
+            typeof args.week_start_local === "string"
+              ? parseLocalDayStart(args.week_start_local, "week_start_local", calendar.timeZone)
+              : calendar.startOfDay(ensureInteger(args.week_start, "week_start"));
+          // Days step by calendar date so a DST change keeps them on midnight.
+          const dayStarts = Array.from({ length: 8 }, (_, index) =>
+            calendar.addDays(weekStart, index)
+          );
+          const weekEnd = dayStarts[7];
+          // A user's timesheet covers whatever they logged on; a project's only
+          // that project.
+          const allowedIds = scopeUserId
+            ? null
+            : new Set(getScopeItemIds(dbHandle, scopeProjectId, null, currentTeamId));
+          const hiddenIds = getHiddenItemIds(dbHandle, currentTeamId);
+          const isShown = (itemId: string) =>
+            !hiddenIds.has(itemId) && (!allowedIds || allowedIds.has(itemId));
+          const entryRows = (
+            dbHandle.exec({
+              sql: `SELECT t.entry_id, t.item_id, t.start_at, t.end_at, t.duration_minutes, t.note,
+                  t.source
+                FROM time_entries t
+                JOIN items i ON i.id = t.item_id
+                WHERE i.team_id = ? AND t.user_id = ? AND t.start_at >= ? AND t.start_at < ?
+                ORDER BY t.start_at ASC;`,
+              rowMode: "array",
+              returnValue: "resultRows",
+              bind: [currentTeamId, userId, weekStart, weekEnd],
+            }) as Array<[string, string, number, number, number, string | null, string]>
+          ).filter((row) => isShown(row[1]));
+          const extraIds = Array.isArray(args.item_ids)
+            ? args.item_ids.filter(
+                (value): value is string => typeof value === "string" && isShown(value)
+              )
+            : [];
+          const itemIds = Array.from(new Set([...entryRows.map((row) => row[1]), ...extraIds]));
+          const titleRows =
+            itemIds.length > 0
+              ? (dbHandle.exec({
+                  sql: `SELECT id, title FROM items
+                    WHERE id IN (${buildPlaceholders(itemIds.length)}) AND team_id = ?;`,
+                  rowMode: "array",
+                  returnValue: "resultRows",
+                  bind: [...itemIds, currentTeamId],
+                }) as Array<[string, string]>)
+              : [];
+          const titles = new Map(titleRows);
+          const roots = new Map(readProjectRoots(dbHandle, currentTeamId, itemIds));
+          const rootTitleRows =
+            roots.size > 0
+              ? (dbHandle.exec({
+                  sql: `SELECT id, title FROM items
+                    WHERE id IN (${buildPlaceholders(roots.size)}) AND team_id = ?;`,
+                  rowMode: "array",
+                  returnValue: "resultRows",
+                  bind: [...new Set(roots.values()), currentTeamId],
+                }) as Array<[string, string]>)
+              : [];
+          const rootTitles = new Map(rootTitleRows);
+          const rowsById = new Map(
+            itemIds
+              .filter((itemId) => titles.has(itemId))
+              .map((itemId) => {
+                const rootId = roots.get(itemId);
+                return [
+                  itemId,
+                  {
+                    item_id: itemId,
+                    title: titles.get(itemId) ?? itemId,
+                    project_title:
+                      rootId && rootId !== itemId ? (rootTitles.get(rootId) ?? null) : null,
+                    minutes: new Array<number>(7).fill(0),
+                    total_minutes: 0,
+                    entries: [] as Array<Record<string, unknown>>,
+                  },
+                ];
+              })
+          );
+          const dayTotals = new Array<number>(7).fill(0);
+          for (const [entryId, itemId, startAt, endAt, minutes, note, source] of entryRows) {
+            const row = rowsById.get(itemId);
+            if (!row) {
+              continue;
+            }
+            let dayIndex = 0;
+            while (dayIndex < 6 && startAt >= dayStarts[dayIndex + 1]) {
+              dayIndex += 1;
+            }
+            row.minutes[dayIndex] += minutes;
+            row.total_minutes += minutes;
+            dayTotals[dayIndex] += minutes;
+            row.entries.push({
+              entry_id: entryId,
+              item_id: itemId,
+              start_at: startAt,
+              end_at: endAt,
+              duration_minutes: minutes,
+              note,
+              source,
+              day_index: dayIndex,
+            });
+          }
+          const rows = Array.from(rowsById.values()).sort(
+            (a, b) =>
+              (a.project_title ?? "").localeCompare(b.project_title ?? "") ||
+              a.title.localeCompare(b.title)
+          );
+          result = {
+            ok: true,
+            result: {
+              user_id: userId,
+              time_zone: calendar.timeZone,
+              week_start: weekStart,
+              week_end: weekEnd,
+              day_starts: dayStarts.slice(0, 7),
+              rows,
+              day_totals: dayTotals,
+              total_minutes: dayTotals.reduce((sum, value) => sum + value, 0),
+            },
+          };
+          break;
+        }
         case "getProjectTree": {
           const currentTeamId = getCurrentTeamId(dbHandle);
           const projectId = ensureString(args.projectId, "projectId");
@@ -5226,7 +11198,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               : null;
           const now = Date.now();
           const dueMetricsMap = new Map(
-            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4])])
+            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4], timeZone)])
           );
 
           const timeMap = new Map<string, number>();
@@ -5582,7 +11554,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               : null;
           const now = Date.now();
           const dueMetricsMap = new Map(
-            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4])])
+            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4], timeZone)])
           );
           const rollupMap = computeRollupTotals(
             rows.map((row) => ({
@@ -5602,7 +11574,15 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             typeof args.includeDone === "boolean" ? args.includeDone : false;
           const searchText =
             typeof args.searchText === "string" ? args.searchText.trim() : "";
+          const filterIds = getItemIdsMatchingFilter(
+            dbHandle,
+            currentTeamId,
+            args.filter
+          );
           const filtered = rows.filter((row) => {
+            if (filterIds && !filterIds.has(row[0])) {
+              return false;
+            }
             if (statusFilter && !statusFilter.includes(row[4])) {
               return false;
             }
@@ -6079,6 +12059,18 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           if (!includeCompleted) {
             rows = rows.filter((row) => row[4] !== "done" && row[4] !== "canceled");
           }
+          const filterIds = getItemIdsMatchingFilter(
+            dbHandle,
+            currentTeamId,
+            args.filter
+          );
+          if (filterIds) {
+            rows = rows.filter((row) => filterIds.has(row[0]));
+          }
+          const hiddenIds = getHiddenItemIds(dbHandle, currentTeamId);
+          if (hiddenIds.size > 0) {
+            rows = rows.filter((row) => !hiddenIds.has(row[0]));
+          }
 
           const baseIds = rows.map((row) => row[0]);
           const uniqueBaseIds = Array.from(new Set(baseIds));
@@ -6179,7 +12171,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           );
           const now = Date.now();
           const dueMetricsMap = new Map(
-            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4])])
+            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4], timeZone)])
           );
           const rollupMap = computeRollupTotals(
             rows.map((row) => ({
@@ -6202,6 +12194,14 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             returnValue: "resultRows",
             bind: [...uniqueBaseIds, ...uniqueBaseIds],
           }) as Array<[string, string, string, number]>;
+          const criticalPathMap = computeLeafCriticalPath(
+            dbHandle,
+            currentTeamId,
+            rows.map((row) => ({ id: row[0], parent_id: row[3] })),
+            scheduleSummaryMap,
+            depRows,
+            workingTimeFor(scopeUserId ? [scopeUserId] : [])
+          );
 
           const allEdgeIds = new Set<string>();
           for (const row of depRows) {
@@ -6332,7 +12332,8 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             };
             const slackMinutes = computeSlackMinutes(
               row[6],
-              scheduleSummary.end
+              scheduleSummary.end,
+              workingTimeFor(assigneesMap.get(id) ?? [])
             );
             const rollupTotals = rollupMap.get(id);
             const depsIn = depsInMap.get(id) ?? [];
@@ -6342,6 +12343,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             const assigneeName = assigneeId
               ? getUserDisplayName(assigneeId, userNameMap)
               : null;
+            const criticalPath = criticalPathMap.get(id) ?? null;
             const blockedBy = depsIn.map((dep) => {
               const meta = metaMap.get(dep.predecessor_id);
               const predecessorSummary = scheduleSummaryMap.get(
@@ -6409,6 +12411,13 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               blocked_by: blockedBy,
               blocking,
               slack_minutes: slackMinutes,
+              early_start_at: criticalPath?.earlyStart ?? null,
+              early_finish_at: criticalPath?.earlyFinish ?? null,
+              late_start_at: criticalPath?.lateStart ?? null,
+              late_finish_at: criticalPath?.lateFinish ?? null,
+              total_float_minutes: criticalPath?.totalFloatMinutes ?? null,
+              free_float_minutes: criticalPath?.freeFloatMinutes ?? null,
+              is_critical: criticalPath?.isCritical ?? false,
               assignee_id: assigneeId,
               assignee_name: assigneeName,
             };
@@ -6519,16 +12528,28 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           const nextUpEnd = nowAt + nextUpHours * 60 * 60 * 1000;
 
           const blockRows = dbHandle.exec({
-            sql: `SELECT block_id, item_id, start_at, duration_minutes
+            sql: `SELECT block_id, item_id, start_at, duration_minutes, recurrence_rule
               FROM scheduled_blocks
               WHERE item_id IN (${placeholders})
                 AND start_at < ?
-                AND (start_at + duration_minutes * 60000) > ?
+                AND ((start_at + duration_minutes * 60000) > ?
+                  OR recurrence_rule IS NOT NULL)
               ORDER BY start_at ASC;`,
             rowMode: "array",
             returnValue: "resultRows",
             bind: [...itemIds, timeMax, timeMin],
-          }) as Array<[string, string, number, number]>;
+          }) as Array<[string, string, number, number, string | null]>;
+          const blocks = expandRecurringBlocks(
+            blockRows.map((row) => ({
+              block_id: row[0],
+              item_id: row[1],
+              start_at: row[2],
+              duration_minutes: row[3],
+              recurrence_rule: row[4],
+            })),
+            timeMin,
+            timeMax
+          );
 
           const blocksInWindow = new Set<string>();
           const blockInfoByItem = new Map<
@@ -6536,12 +12557,13 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             { hasActive: boolean; hasUpcoming: boolean }
           >();
 
-          const scheduledCandidates = blockRows.map((row) => {
+          const scheduledCandidates = blocks.map((block) => {
             const endAt =
-              deriveEndAtFromDuration(row[2], row[3]) ?? row[2];
-            const active = row[2] <= nowAt && endAt > nowAt;
-            const upcoming = row[2] >= nowAt && row[2] < nextUpEnd;
-            const info = blockInfoByItem.get(row[1]) ?? {
+              deriveEndAtFromDuration(block.start_at, block.duration_minutes) ??
+              block.start_at;
+            const active = block.start_at <= nowAt && endAt > nowAt;
+            const upcoming = block.start_at >= nowAt && block.start_at < nextUpEnd;
+            const info = blockInfoByItem.get(block.item_id) ?? {
               hasActive: false,
               hasUpcoming: false,
             };
@@ -6551,18 +12573,18 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             if (upcoming) {
               info.hasUpcoming = true;
             }
-            blockInfoByItem.set(row[1], info);
-            blocksInWindow.add(row[1]);
-            const item = itemMap.get(row[1]);
-            const assigneeId = (assigneesMap.get(row[1]) ?? [])[0] ?? null;
-            const projectId = projectMap.get(row[1]) ?? row[1];
+            blockInfoByItem.set(block.item_id, info);
+            blocksInWindow.add(block.item_id);
+            const item = itemMap.get(block.item_id);
+            const assigneeId = (assigneesMap.get(block.item_id) ?? [])[0] ?? null;
+            const projectId = projectMap.get(block.item_id) ?? block.item_id;
             const bucket = active ? 0 : upcoming ? 1 : 2;
             return {
-              block_id: row[0],
-              item_id: row[1],
-              title: item?.[1] ?? row[1],
-              start_at: row[2],
-              duration_minutes: row[3],
+              block_id: block.block_id,
+              item_id: block.item_id,
+              title: item?.[1] ?? block.item_id,
+              start_at: block.start_at,
+              duration_minutes: block.duration_minutes,
               end_at: endAt,
               due_at: item?.[4] ?? null,
               status: item?.[2] ?? "unknown",
@@ -6573,6 +12595,8 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               assignee_name: assigneeId
                 ? getUserDisplayName(assigneeId, userNameMap)
                 : null,
+              series_block_id: block.series_block_id,
+              is_occurrence: block.is_occurrence,
               _bucket: bucket,
             };
           });
@@ -6592,7 +12616,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           );
 
           const dueMetricsMap = new Map(
-            itemRows.map((row) => [row[0], computeDueMetrics(row[4], nowAt, row[2])])
+            itemRows.map((row) => [row[0], computeDueMetrics(row[4], nowAt, row[2], timeZone)])
           );
           const readyStatuses = new Set(["ready", "in_progress", "review"]);
           const actionableCandidates = itemRows
@@ -6617,7 +12641,8 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               const schedule = scheduleMap.get(row[0]);
               const slackMinutes = computeSlackMinutes(
                 row[4],
-                schedule?.end ?? null
+                schedule?.end ?? null,
+                workingTimeFor(assigneesMap.get(row[0]) ?? [])
               );
               const projectId = projectMap.get(row[0]) ?? row[0];
               const assigneeId = (assigneesMap.get(row[0]) ?? [])[0] ?? null;
@@ -6834,7 +12859,11 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               start: null,
               end: null,
             };
-            const slackMinutes = computeSlackMinutes(row[4], schedule.end ?? null);
+            const slackMinutes = computeSlackMinutes(
+              row[4],
+              schedule.end ?? null,
+              workingTimeFor(assigneesMap.get(row[0]) ?? [])
+            );
             const projectId = projectMap.get(row[0]) ?? row[0];
             const assigneeId = (assigneesMap.get(row[0]) ?? [])[0] ?? null;
             const assigneeName = assigneeId
@@ -6977,7 +13006,11 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               start: null,
               end: null,
             };
-            const slackMinutes = computeSlackMinutes(dueAt, schedule.end ?? null);
+            const slackMinutes = computeSlackMinutes(
+              dueAt,
+              schedule.end ?? null,
+              workingTimeFor(assigneesMap.get(row[0]) ?? [])
+            );
             const projectId = projectMap.get(row[0]) ?? row[0];
             const assigneeId = (assigneesMap.get(row[0]) ?? [])[0] ?? null;
             const assigneeName = assigneeId
@@ -6986,7 +13019,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
 
             if (row[5] === "project") {
               if (dueAt !== null) {
-                const metrics = computeDueMetrics(dueAt, nowAt, row[2]);
+                const metrics = computeDueMetrics(dueAt, nowAt, row[2], timeZone);
                 projects.push({
                   project_id: row[0],
                   title: row[1],
@@ -7003,7 +13036,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               continue;
             }
 
-            const metrics = computeDueMetrics(dueAt, nowAt, row[2]);
+            const metrics = computeDueMetrics(dueAt, nowAt, row[2], timeZone);
             const entry = {
               item_id: row[0],
               title: row[1],
@@ -7051,11 +13084,23 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           );
           const dayStart = parseLocalDayStart(
             args.day_start_local,
-            "day_start_local"
+            "day_start_local",
+            timeZone
           );
           const dayCountRaw = ensurePositiveInteger(args.day_count, "day_count");
           const dayCount = Math.min(dayCountRaw, 730);
-          const endMs = dayStart + dayCount * DAY_MS;
+          const endMs = zonedCalendar(timeZone).addDays(dayStart, dayCount);
+          // Buckets are calendar days, so one that gains or loses an hour to
+          // DST still collects exactly its own completions.
+          const [startYear, startMonth, startDay] = formatLocalDay(dayStart, timeZone)
+            .split("-")
+            .map(Number);
+          const dayKeys = Array.from({ length: dayCount }, (_, index) =>
+            new Date(Date.UTC(startYear, startMonth - 1, startDay + index))
+              .toISOString()
+              .slice(0, 10)
+          );
+          const dayIndexByKey = new Map(dayKeys.map((key, index) => [key, index]));
           const includeSubtasks = args.includeSubtasks !== false;
           const includeMilestones = args.includeMilestones === true;
           const includeProjects = args.includeProjects === true;
@@ -7101,9 +13146,8 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                   continue;
                 }
               }
-              const completedAt = row[3];
-              const dayIndex = Math.floor((completedAt - dayStart) / DAY_MS);
-              if (dayIndex < 0 || dayIndex >= dayCount) {
+              const dayIndex = dayIndexByKey.get(formatLocalDay(row[3], timeZone));
+              if (dayIndex === undefined) {
                 continue;
               }
               dayCounts[dayIndex] += 1;
@@ -7113,12 +13157,11 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           let maxCount = 0;
           const days = [];
           for (let i = 0; i < dayCount; i += 1) {
-            const date = new Date(dayStart + i * DAY_MS);
             const count = dayCounts[i] ?? 0;
             if (count > maxCount) {
               maxCount = count;
             }
-            days.push({ day: formatLocalDay(date), completed_count: count });
+            days.push({ day: dayKeys[i], completed_count: count });
           }
 
           result = {
@@ -7509,21 +13552,54 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           const limit = Math.min(Math.max(requestedLimit, 1), 50);
           const fetchLimit = Math.min(limit * 4, 200);
           const scopeId = typeof args.scopeId === "string" ? args.scopeId : null;
-          const escaped = escapeLike(normalized);
-          const likePattern = `%${escaped}%`;
-          const prefixPattern = `${escaped}%`;
-          const prefixRows = dbHandle.exec({
-            sql: `SELECT id, title, type, parent_id, status, due_at, completed_at, updated_at
-              FROM items
-              WHERE team_id = ?
-                AND type != 'project'
-                AND title LIKE ? ESCAPE '\\' COLLATE NOCASE
-              ORDER BY LENGTH(title) ASC, updated_at DESC
-              LIMIT ?;`,
-            rowMode: "array",
-            returnValue: "resultRows",
-            bind: [currentTeamId, prefixPattern, fetchLimit],
-          }) as Array<
+          const matchExpression = buildItemSearchMatch(normalized);
+          // bm25 weights follow the column order: item_id and team_id are
+          // unindexed, then title, notes, tags and blockers.
+          const ftsRows = matchExpression
+            ? (dbHandle.exec({
+                sql: `SELECT i.id, i.title, i.type, i.parent_id, i.status, i.due_at,
+                    i.completed_at, i.updated_at,
+                    bm25(item_search, 0, 0, 10.0, 2.0, 4.0, 3.0) AS rank,
+                    highlight(item_search, 2, ?, ?),
+                    snippet(item_search, -1, ?, ?, '…', 12)
+                  FROM item_search
+                  JOIN items i ON i.id = item_search.item_id
+                  WHERE item_search MATCH ?
+                    AND item_search.team_id = ?
+                    AND i.type != 'project'
+                  ORDER BY rank ASC
+                  LIMIT ?;`,
+                rowMode: "array",
+                returnValue: "resultRows",
+                bind: [
+                  SEARCH_MARK_START,
+                  SEARCH_MARK_END,
+                  SEARCH_MARK_START,
+                  SEARCH_MARK_END,
+                  matchExpression,
+                  currentTeamId,
+                  fetchLimit,
+                ],
+              }) as Array<
+                [
+                  string,
+                  string,
+                  string,
+                  string | null,
+                  string,
+                  number | null,
+                  number | null,
+                  number,
+                  number,
+                  string,
+                  string
+                ]
+              >)
+            : [];
+
+          // Token-prefix matching misses mid-word title hits ("port" in
+          // "report"), so fill the remaining slots with a title substring scan.
+          let substringRows: Array<
             [
               string,
               string,
@@ -7534,17 +13610,16 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               number | null,
               number
             ]
-          >;
-
-          let rows = prefixRows;
-          if (rows.length < fetchLimit) {
-            const remaining = fetchLimit - rows.length;
-            const excludeIds = rows.map((row) => row[0]);
+          > = [];
+          if (ftsRows.length < fetchLimit) {
+            const excludeIds = ftsRows.map((row) => row[0]);
             const excludeClause =
               excludeIds.length > 0
                 ? `AND id NOT IN (${buildPlaceholders(excludeIds.length)})`
                 : "";
-            const substringRows = dbHandle.exec({
+            const likePattern = `%${escapeLike(normalized)}%`;
+            const remaining = fetchLimit - ftsRows.length;
+            substringRows = dbHandle.exec({
               sql: `SELECT id, title, type, parent_id, status, due_at, completed_at, updated_at
                 FROM items
                 WHERE team_id = ?
@@ -7559,22 +13634,10 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                 excludeIds.length > 0
                   ? [currentTeamId, likePattern, ...excludeIds, remaining]
                   : [currentTeamId, likePattern, remaining],
-            }) as Array<
-              [
-                string,
-                string,
-                string,
-                string | null,
-                string,
-                number | null,
-                number | null,
-                number
-              ]
-            >;
-            rows = rows.concat(substringRows);
+            }) as typeof substringRows;
           }
 
-          if (rows.length === 0) {
+          if (ftsRows.length === 0 && substringRows.length === 0) {
             result = { ok: true, result: { items: [] } };
             break;
           }
@@ -7596,7 +13659,21 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             }
           }
 
-          const mapped = rows.map((row) => {
+          const candidates = [
+            ...ftsRows.map((row) => ({
+              row,
+              rank: row[8],
+              titleHighlight: splitSearchHighlight(row[9]),
+              snippet: splitSearchHighlight(row[10]),
+            })),
+            ...substringRows.map((row) => ({
+              row,
+              rank: Number.POSITIVE_INFINITY,
+              titleHighlight: null,
+              snippet: null,
+            })),
+          ];
+          const mapped = candidates.map(({ row, rank, titleHighlight, snippet }) => {
             const projectId = projectMap.get(row[0]) ?? row[0];
             const sameProject = scopeUngrouped
               ? row[3] === null
@@ -7612,9 +13689,11 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               parent_id: row[3],
               due_at: row[5],
               completed_at: row[4] === "done" ? row[6] : null,
+              title_highlight: titleHighlight ?? [{ text: row[1], match: false }],
+              snippet,
               _matchRank: matchRank,
               _sameProject: sameProject,
-              _titleLength: row[1].length,
+              _rank: rank,
               _updatedAt: row[7],
             };
           });
@@ -7626,8 +13705,8 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             if ((scopeProjectId || scopeUngrouped) && a._sameProject !== b._sameProject) {
               return a._sameProject ? -1 : 1;
             }
-            if (a._titleLength !== b._titleLength) {
-              return a._titleLength - b._titleLength;
+            if (a._rank !== b._rank) {
+              return a._rank < b._rank ? -1 : 1;
             }
             if (a._updatedAt !== b._updatedAt) {
               return b._updatedAt - a._updatedAt;
@@ -7645,6 +13724,12 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                 parent_id: item.parent_id,
                 due_at: item.due_at,
                 completed_at: item.completed_at,
+                title_highlight: item.title_highlight,
+                // Only set when the best match is outside the title.
+                snippet:
+                  item.snippet && !item.title_highlight.some((part) => part.match)
+                    ? item.snippet
+                    : null,
               })),
             },
           };
@@ -7702,7 +13787,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           );
           const now = Date.now();
           const dueMetricsMap = new Map(
-            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4])])
+            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4], timeZone)])
           );
           const timeMap = new Map<string, number>();
           if (ids.length > 0) {
@@ -7731,6 +13816,26 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             dueMetricsMap,
             timeMap
           );
+          const edgeRows =
+            ids.length > 0
+              ? (dbHandle.exec({
+                  sql: `SELECT item_id, depends_on_id, type, lag_minutes
+                    FROM dependencies
+                    WHERE item_id IN (${buildPlaceholders(ids.length)})
+                      AND depends_on_id IN (${buildPlaceholders(ids.length)});`,
+                  rowMode: "array",
+                  returnValue: "resultRows",
+                  bind: [...ids, ...ids],
+                }) as Array<[string, string, string, number]>)
+              : [];
+          const criticalPathMap = computeLeafCriticalPath(
+            dbHandle,
+            currentTeamId,
+            rows.map((row) => ({ id: row[0], parent_id: row[3] })),
+            scheduleMap,
+            edgeRows,
+            workingTimeFor()
+          );
           result = {
             ok: true,
             result: {
@@ -7755,6 +13860,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                 const rollupRemaining = Math.max(0, rollupEstimate - rollupActual);
                 const rollupBlockedCount = rollupTotals?.rollupBlockedCount ?? 0;
                 const rollupOverdueCount = rollupTotals?.rollupOverdueCount ?? 0;
+                const criticalPath = criticalPathMap.get(row[0]) ?? null;
                 return {
                   id: row[0],
                   type: row[1],
@@ -7795,6 +13901,13 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                           schedule_end_at: schedule.end,
                         }
                       : undefined,
+                  early_start_at: criticalPath?.earlyStart ?? null,
+                  early_finish_at: criticalPath?.earlyFinish ?? null,
+                  late_start_at: criticalPath?.lateStart ?? null,
+                  late_finish_at: criticalPath?.lateFinish ?? null,
+                  total_float_minutes: criticalPath?.totalFloatMinutes ?? null,
+                  free_float_minutes: criticalPath?.freeFloatMinutes ?? null,
+                  is_critical: criticalPath?.isCritical ?? false,
                 };
               })
                 .filter((row) => {
@@ -7910,7 +14023,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               : null;
           const now = Date.now();
           const dueMetricsMap = new Map(
-            itemsRows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4])])
+            itemsRows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4], timeZone)])
           );
           const rollupMap = computeRollupTotals(
             itemsRows.map((row) => ({
@@ -8148,7 +14261,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           }
           const now = Date.now();
           const dueMetricsMap = new Map(
-            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4])])
+            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4], timeZone)])
           );
           const rollupMap = computeRollupTotals(
             rows.map((row) => ({
@@ -8342,7 +14455,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           }
           const now = Date.now();
           const dueMetricsMap = new Map(
-            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4])])
+            rows.map((row) => [row[0], computeDueMetrics(row[6], now, row[4], timeZone)])
           );
           const rollupMap = computeRollupTotals(
             rows.map((row) => ({
@@ -8473,7 +14586,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           result = {
             ok: true,
             result: rows.map((row) => {
-              const dueMetrics = computeDueMetrics(row[6], now, row[4]);
+              const dueMetrics = computeDueMetrics(row[6], now, row[4], timeZone);
               return {
                 id: row[0],
                 type: row[1],
@@ -8503,7 +14616,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           result = {
             ok: true,
             result: rows.map((row) => {
-              const dueMetrics = computeDueMetrics(row[6], now, row[4]);
+              const dueMetrics = computeDueMetrics(row[6], now, row[4], timeZone);
               return {
                 id: row[0],
                 type: row[1],
@@ -8565,6 +14678,14 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           }
           const scopeProjectId =
             typeof args.scopeProjectId === "string" ? args.scopeProjectId : null;
+          // Project calendars overlay the viewer's own external busy time.
+          const busyBlocks = getBusyBlocksInRange(
+            dbHandle,
+            currentTeamId,
+            [requireSession(dbHandle).user_id],
+            timeMin,
+            timeMax
+          );
 
           let scopedIds: string[] | null = null;
           if (scopeProjectId) {
@@ -8583,81 +14704,129 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           }
 
           if (scopedIds && scopedIds.length === 0) {
-            result = { ok: true, result: { blocks: [], items: [] } };
+            result = {
+              ok: true,
+              result: { blocks: [], items: [], busy_blocks: busyBlocks },
+            };
             break;
           }
 
           const blockSql = scopedIds
-            ? `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes
+            ? `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes, b.recurrence_rule
                 FROM scheduled_blocks b
                 JOIN items i ON i.id = b.item_id
                 WHERE i.team_id = ?
                   AND i.archived_at IS NULL
                   AND b.start_at < ?
-                  AND (b.start_at + b.duration_minutes * 60000) > ?
+                  AND ((b.start_at + b.duration_minutes * 60000) > ?
+                    OR b.recurrence_rule IS NOT NULL)
                   AND b.item_id IN (${buildPlaceholders(scopedIds.length)})
                 ORDER BY b.start_at ASC;`
-            : `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes
+            : `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes, b.recurrence_rule
                 FROM scheduled_blocks b
                 JOIN items i ON i.id = b.item_id
                 WHERE i.team_id = ?
                   AND i.archived_at IS NULL
                   AND b.start_at < ?
-                  AND (b.start_at + b.duration_minutes * 60000) > ?
+                  AND ((b.start_at + b.duration_minutes * 60000) > ?
+                    OR b.recurrence_rule IS NOT NULL)
                 ORDER BY b.start_at ASC;`;
 
-          const blockRows = dbHandle.exec({
-            sql: blockSql,
-            rowMode: "array",
-            returnValue: "resultRows",
-            bind: scopedIds
-              ? [currentTeamId, timeMax, timeMin, ...scopedIds]
-              : [currentTeamId, timeMax, timeMin],
-          }) as Array<[string, string, number, number]>;
+          const hiddenIds = getHiddenItemIds(dbHandle, currentTeamId);
+          const blockRows = (
+            dbHandle.exec({
+              sql: blockSql,
+              rowMode: "array",
+              returnValue: "resultRows",
+              bind: scopedIds
+                ? [currentTeamId, timeMax, timeMin, ...scopedIds]
+                : [currentTeamId, timeMax, timeMin],
+            }) as Array<[string, string, number, number, string | null]>
+          ).filter((row) => !hiddenIds.has(row[1]));
+          const blocks = expandRecurringBlocks(
+            blockRows.map((row) => ({
+              block_id: row[0],
+              item_id: row[1],
+              start_at: row[2],
+              duration_minutes: row[3],
+              recurrence_rule: row[4],
+            })),
+            timeMin,
+            timeMax
+          );
 
           const itemSql = scopedIds
-            ? `SELECT id, title, status, due_at, parent_id, type, priority
+            ? `SELECT id, title, status, due_at, parent_id, type, priority, recurrence_rule
                 FROM items
                 WHERE team_id = ?
                   AND archived_at IS NULL
                   AND due_at IS NOT NULL
-                  AND due_at >= ?
+                  AND (due_at >= ? OR recurrence_rule IS NOT NULL)
                   AND due_at < ?
                   AND id IN (${buildPlaceholders(scopedIds.length)})
                 ORDER BY due_at ASC;`
-            : `SELECT id, title, status, due_at, parent_id, type, priority
+            : `SELECT id, title, status, due_at, parent_id, type, priority, recurrence_rule
                 FROM items
                 WHERE team_id = ?
                   AND archived_at IS NULL
                   AND due_at IS NOT NULL
-                  AND due_at >= ?
+                  AND (due_at >= ? OR recurrence_rule IS NOT NULL)
                   AND due_at < ?
                 ORDER BY due_at ASC;`;
 
-          const itemRows = dbHandle.exec({
-            sql: itemSql,
-            rowMode: "array",
-            returnValue: "resultRows",
-            bind: scopedIds
-              ? [currentTeamId, timeMin, timeMax, ...scopedIds]
-              : [currentTeamId, timeMin, timeMax],
-          }) as Array<
-            [string, string, string, number, string | null, string, number]
-          >;
+          const itemRows = (
+            dbHandle.exec({
+              sql: itemSql,
+              rowMode: "array",
+              returnValue: "resultRows",
+              bind: scopedIds
+                ? [currentTeamId, timeMin, timeMax, ...scopedIds]
+                : [currentTeamId, timeMin, timeMax],
+            }) as Array<
+              [
+                string,
+                string,
+                string,
+                number,
+                string | null,
+                string,
+                number,
+                string | null
+              ]
+            >
+          ).filter((row) => !hiddenIds.has(row[0]));
           const itemIds = itemRows.map((row) => row[0]);
           const assigneesMap = getAssigneesMap(dbHandle, itemIds);
           const userNameMap = getUserMap(dbHandle);
 
+          // Open recurring items project their upcoming due dates; completing
+          // the current occurrence materializes the next one (see set_status).
+          const dueEntries = itemRows.flatMap((row) => {
+            const rule =
+              row[2] === "done" || row[2] === "canceled"
+                ? null
+                : parseStoredRecurrenceRule(row[7]);
+            const dueDates = rule
+              ? expandOccurrences(rule, row[3], timeMin, timeMax)
+              : row[3] >= timeMin
+                ? [row[3]]
+                : [];
+            return dueDates.map((dueAt) => ({ row, dueAt }));
+          }).sort((a, b) => a.dueAt - b.dueAt);
+
           result = {
             ok: true,
             result: {
-              blocks: blockRows.map((row) => ({
-                block_id: row[0],
-                item_id: row[1],
-                start_at: row[2],
-                duration_minutes: row[3],
+              blocks: blocks.map((block) => ({
+                block_id: block.block_id,
+                item_id: block.item_id,
+                start_at: block.start_at,
+                duration_minutes: block.duration_minutes,
+                recurrence_rule: block.recurrence_rule,
+                series_block_id: block.series_block_id,
+                is_occurrence: block.is_occurrence,
               })),
-              items: itemRows.map((row) => ({
+              items: dueEntries.map(({ row, dueAt }) => ({
                 assignee_id: (assigneesMap.get(row[0]) ?? [])[0] ?? null,
                 assignee_name: getUserDisplayName(
                   (assigneesMap.get(row[0]) ?? [])[0] ?? "",
@@ -8666,11 +14835,14 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                 id: row[0],
                 title: row[1],
                 status: row[2],
-                due_at: row[3],
+                due_at: dueAt,
                 parent_id: row[4],
                 item_type: row[5],
                 priority: row[6],
+                recurrence_rule: row[7],
+                is_occurrence: dueAt !== row[3],
               })),
+              busy_blocks: busyBlocks,
             },
           };
           break;
@@ -8859,7 +15031,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           );
           const now = Date.now();
           const dueMetricsMap = new Map(
-            rows.map((row) => [row[0], computeDueMetrics(row[5], now, row[4])])
+            rows.map((row) => [row[0], computeDueMetrics(row[5], now, row[4], timeZone)])
           );
           const rollupMap = computeRollupTotals(
             rows.map((row) => ({
@@ -8899,6 +15071,15 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
 
           const assigneesMap = getAssigneesMap(dbHandle, ids);
           const userNameMap = getUserMap(dbHandle);
+          const criticalPathMap = computeLeafCriticalPath(
+            dbHandle,
+            currentTeamId,
+            rows.map((row) => ({ id: row[0], parent_id: row[3] })),
+            scheduleMap,
+            edgeRows,
+            // Floats and lags count working time only.
+            workingTimeFor(scopeUserId ? [scopeUserId] : [])
+          );
 
           result = {
             ok: true,
@@ -8910,6 +15091,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                 };
                 const rollupTotals = rollupMap.get(row[0]);
                 const assigneeId = (assigneesMap.get(row[0]) ?? [])[0] ?? null;
+                const criticalPath = criticalPathMap.get(row[0]) ?? null;
                 return {
                   id: row[0],
                   item_type: row[1],
@@ -8923,6 +15105,13 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                   rollup_end_at: rollupTotals?.rollupEndAt ?? null,
                   assignee_id: assigneeId,
                   assignee_name: getUserDisplayName(assigneeId ?? "", userNameMap),
+                  early_start_at: criticalPath?.earlyStart ?? null,
+                  early_finish_at: criticalPath?.earlyFinish ?? null,
+                  late_start_at: criticalPath?.lateStart ?? null,
+                  late_finish_at: criticalPath?.lateFinish ?? null,
+                  total_float_minutes: criticalPath?.totalFloatMinutes ?? null,
+                  free_float_minutes: criticalPath?.freeFloatMinutes ?? null,
+                  is_critical: criticalPath?.isCritical ?? false,
                 };
               }),
               blocks: blockRows.map((row) => ({
@@ -8952,19 +15141,31 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           }
 
           const blockRows = dbHandle.exec({
-            sql: `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes
+            sql: `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes, b.recurrence_rule
               FROM scheduled_blocks b
               JOIN item_assignees a ON a.item_id = b.item_id
               JOIN items i ON i.id = b.item_id
               WHERE a.assignee_id = ?
                 AND i.team_id = ?
                 AND b.start_at < ?
-                AND (b.start_at + b.duration_minutes * 60000) > ?
+                AND ((b.start_at + b.duration_minutes * 60000) > ?
+                  OR b.recurrence_rule IS NOT NULL)
               ORDER BY b.start_at ASC;`,
             rowMode: "array",
             returnValue: "resultRows",
             bind: [userId, currentTeamId, timeMax, timeMin],
-          }) as Array<[string, string, number, number]>;
+          }) as Array<[string, string, number, number, string | null]>;
+          const blocks = expandRecurringBlocks(
+            blockRows.map((row) => ({
+              block_id: row[0],
+              item_id: row[1],
+              start_at: row[2],
+              duration_minutes: row[3],
+              recurrence_rule: row[4],
+            })),
+            timeMin,
+            timeMax
+          );
 
           const dueRows = dbHandle.exec({
             sql: `SELECT i.id, i.title, i.status, i.due_at, i.parent_id, i.type, i.priority
@@ -8984,8 +15185,8 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           >;
 
           const itemIds = new Set<string>();
-          for (const row of blockRows) {
-            itemIds.add(row[1]);
+          for (const block of blocks) {
+            itemIds.add(block.item_id);
           }
           for (const row of dueRows) {
             itemIds.add(row[0]);
@@ -9016,11 +15217,14 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           result = {
             ok: true,
             result: {
-              blocks: blockRows.map((row) => ({
-                block_id: row[0],
-                item_id: row[1],
-                start_at: row[2],
-                duration_minutes: row[3],
+              blocks: blocks.map((block) => ({
+                block_id: block.block_id,
+                item_id: block.item_id,
+                start_at: block.start_at,
+                duration_minutes: block.duration_minutes,
+                recurrence_rule: block.recurrence_rule,
+                series_block_id: block.series_block_id,
+                is_occurrence: block.is_occurrence,
               })),
               items: itemRows.map((row) => ({
                 id: row[0],
@@ -9033,10 +15237,49 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                 assignee_id: userId,
                 assignee_name: assigneeName,
               })),
+              busy_blocks: getBusyBlocksInRange(
+                dbHandle,
+                currentTeamId,
+                [userId],
+                timeMin,
+                timeMax
+              ),
             },
           };
           break;
         }
+        case "time_report": {
+          result = {
+            ok: true,
+            result: readTimeReport(dbHandle, args as Record<string, unknown>),
+          };
+          break;
+        }
+        case "export_time_report": {
+          const report = readTimeReport(dbHandle, args as Record<string, unknown>);
+          result = {
+            ok: true,
+            result: {
+              filename: `time-report-by-${report.group_by}.csv`,
+              content: buildTimeReportCsv(report, zonedCalendar(timeZone)),
+            },
+          };
+          break;
+        }
+        case "capacity_range": {
+          result = {
+            ok: true,
+            result: readCapacityRange(dbHandle, args as Record<string, unknown>),
+          };
+          break;
+        }
+        case "export_ics": {
+          result = {
+            ok: true,
+            result: exportIcs(dbHandle, args as Record<string, unknown>),
+          };
+          break;
+        }
         case "calendar_range_users": {
           const currentTeamId = getCurrentTeamId(dbHandle);
           const userIdsRaw = ensureArray(args.user_ids, "user_ids") as unknown[];
@@ -9061,7 +15304,8 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
 
           const userPlaceholders = buildPlaceholders(userIds.length);
           const blockRows = dbHandle.exec({
-            sql: `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes, a.assignee_id
+            sql: `SELECT b.block_id, b.item_id, b.start_at, b.duration_minutes, a.assignee_id,
+                b.recurrence_rule
               FROM scheduled_blocks b
               JOIN item_assignees a ON a.item_id = b.item_id
               JOIN items i ON i.id = b.item_id
@@ -9069,15 +15313,28 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                 AND i.archived_at IS NULL
                 AND a.assignee_id IN (${userPlaceholders})
                 AND b.start_at < ?
-                AND (b.start_at + b.duration_minutes * 60000) > ?
+                AND ((b.start_at + b.duration_minutes * 60000) > ?
+                  OR b.recurrence_rule IS NOT NULL)
               ORDER BY b.start_at ASC;`,
             rowMode: "array",
             returnValue: "resultRows",
             bind: [currentTeamId, ...userIds, timeMax, timeMin],
-          }) as Array<[string, string, number, number, string]>;
+          }) as Array<[string, string, number, number, string, string | null]>;
+          const blocks = expandRecurringBlocks(
+            blockRows.map((row) => ({
+              block_id: row[0],
+              item_id: row[1],
+              start_at: row[2],
+              duration_minutes: row[3],
+              assignee_id: row[4],
+              recurrence_rule: row[5],
+            })),
+            timeMin,
+            timeMax
+          );
 
           const itemIds = Array.from(
-            new Set(blockRows.map((row) => row[1]).filter(Boolean))
+            new Set(blocks.map((block) => block.item_id).filter(Boolean))
           );
           let itemRows: Array<
             [string, string, string, number | null, string | null, string, number]
@@ -9105,13 +15362,16 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           result = {
             ok: true,
             result: {
-              blocks: blockRows.map((row) => ({
-                block_id: row[0],
-                item_id: row[1],
-                start_at: row[2],
-                duration_minutes: row[3],
-                assignee_id: row[4],
-                assignee_name: getUserDisplayName(row[4], userNameMap),
+              blocks: blocks.map((block) => ({
+                block_id: block.block_id,
+                item_id: block.item_id,
+                start_at: block.start_at,
+                duration_minutes: block.duration_minutes,
+                assignee_id: block.assignee_id,
+                assignee_name: getUserDisplayName(block.assignee_id, userNameMap),
+                recurrence_rule: block.recurrence_rule,
+                series_block_id: block.series_block_id,
+                is_occurrence: block.is_occurrence,
               })),
               items: itemRows.map((row) => {
                 const assigneeId = (assigneesMap.get(row[0]) ?? [])[0] ?? null;
@@ -9147,11 +15407,11 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           }
 
           const userRows = dbHandle.exec({
-            sql: "SELECT user_id, display_name, avatar_url FROM users WHERE user_id = ? LIMIT 1;",
+            sql: "SELECT user_id, display_name, avatar_url, time_zone FROM users WHERE user_id = ? LIMIT 1;",
             rowMode: "array",
             returnValue: "resultRows",
             bind: [session.user_id],
-          }) as Array<[string, string, string | null]>;
+          }) as Array<[string, string, string | null, string | null]>;
           const teamRows = dbHandle.exec({
             sql: "SELECT team_id, name FROM teams WHERE team_id = ? LIMIT 1;",
             rowMode: "array",
@@ -9175,6 +15435,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
                       user_id: userRows[0][0],
                       display_name: userRows[0][1],
                       avatar_url: userRows[0][2] ?? null,
+                      time_zone: userRows[0][3] ?? null,
                     }
                   : null,
               team:
@@ -9247,6 +15508,7 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
             result: {
               queued_count: counts.queued_count,
               failed_count: counts.failed_count,
+              dead_count: counts.dead_count,
               last_error: lastError,
             },
           };
@@ -9264,9 +15526,11 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
               team_id: currentTeamId,
               queued_count: counts.queued_count,
               failed_count: counts.failed_count,
+              dead_count: counts.dead_count,
               last_error: lastError,
               last_applied_seq: lastAppliedSeq,
               sync_mode: SYNC_MODE,
+              stream_state: syncStream?.state ?? "closed",
               sync_remote_base_url:
                 SYNC_REMOTE_BASE_URL.trim().length > 0
                   ? SYNC_REMOTE_BASE_URL
@@ -9277,57 +15541,139 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
         }
         case "sync.runOnce": {
           const session = requireSession(dbHandle);
-          requireCanWriteTeam(session, session.team_id, dbHandle);
+          // Viewers pull too, and may hold editor on individual projects.
+          requireCanReadTeam(session, session.team_id, dbHandle);
           const requestedClientId =
             typeof args.client_id === "string" ? args.client_id : null;
           const clientId = getOrCreateClientId(dbHandle, requestedClientId);
-          const currentTeamId = session.team_id;
-          const syncTransport = createSyncTransport({
-            mode: SYNC_MODE,
-            remoteBaseUrl: SYNC_REMOTE_BASE_URL,
-            sessionToken: session.session_id,
-            mockPush: (request) => mockRemotePush(dbHandle, request),
-            mockPull: (request) => mockRemotePull(dbHandle, request),
-            onError: (message) => {
-              console.warn(message);
-            },
-          });
-          let runResult;
-          try {
-            runResult = await runSyncOnce({
-              teamId: currentTeamId,
-              clientId,
-              adapter: {
-                listPendingOps: (teamId) => listPendingOutboxOps(dbHandle, teamId),
-                push: (request) => syncTransport.push(request),
-                applyPushResult: (teamId, response) =>
-                  applyOutboxPushResult(dbHandle, teamId, response),
-                getLastAppliedSeq: (teamId) => getLastAppliedSeq(dbHandle, teamId),
-                pull: (request) => syncTransport.pull(request),
-                applyIncoming: (serverSeq, op) => {
-                  const applied = applyRemoteOp(dbHandle, serverSeq, op);
-                  return applied.applied;
-                },
-              },
-            });
-          } catch (error) {
-            const messageText =
-              error instanceof Error ? error.message : String(error);
-            markSendingOutboxFailed(dbHandle, currentTeamId, messageText);
-            console.warn(
-              `[sync] runOnce failed in ${syncTransport.mode} mode: ${messageText}`
+          result = {
+            ok: true,
+            result: await runTeamSync(dbHandle, session, clientId),
+          };
+          break;
+        }
+        case "sync.snapshot.publish": {
+          const session = requireSession(dbHandle);
+          requireRoleAtLeast(
+            requireCanReadTeam(session, session.team_id, dbHandle),
+            "owner"
+          );
+          const requestedClientId =
+            typeof args.client_id === "string" ? args.client_id : null;
+          const clientId = getOrCreateClientId(dbHandle, requestedClientId);
+          // The snapshot must equal the server state at its seq, so catch up
+          // first and refuse while local ops are still unacknowledged.
+          // A device that syncs only some projects holds only their rows.
+          if (getSubscribedProjectIds(dbHandle, session.team_id).length > 0) {
+            throw new Error("Sync every project on this device before publishing a snapshot.");
+          }
+          await runTeamSync(dbHandle, session, clientId);
+          const counts = getOutboxCounts(dbHandle, session.team_id);
+          if (
+            counts.queued_count > 0 ||
+            counts.failed_count > 0 ||
+            counts.sending_count > 0
+          ) {
+            throw new Error("Sync pending changes before publishing a snapshot.");
+          }
+          // Dead-lettered ops are still applied locally but never reached the
+          // server, so the snapshot would carry rows no op produced.
+          if (counts.dead_count > 0) {
+            throw new Error(
+              "Retry or discard the changes the server rejected before publishing a snapshot."
             );
-            throw error;
           }
+          const serverSeq = getLastAppliedSeq(dbHandle, session.team_id);
+          if (serverSeq === 0) {
+            throw new Error("Nothing has been synced for this team yet.");
+          }
+          const published = await createWorkerSyncTransport(
+            dbHandle,
+            session
+          ).publishSnapshot({
+            team_id: session.team_id,
+            server_seq: serverSeq,
+            format_version: SYNC_SNAPSHOT_FORMAT_VERSION,
+            snapshot: buildSyncSnapshotPayload(dbHandle, session.team_id),
+          });
+          result = {
+            ok: true,
+            result: { team_id: session.team_id, server_seq: published.server_seq },
+          };
+          break;
+        }
+        case "sync.stream.start": {
+          const session = requireSession(dbHandle);
+          requireCanReadTeam(session, session.team_id, dbHandle);
+          const handle = startSyncStream(dbHandle, session);
           result = {
             ok: true,
             result: {
-              ...runResult,
-              sync_mode: syncTransport.mode,
+              team_id: handle.team_id,
+              state: handle.state,
+              sync_mode: SYNC_MODE,
             },
           };
           break;
         }
+        case "sync.stream.stop": {
+          stopSyncStream();
+          result = { ok: true, result: { state: "closed" } };
+          break;
+        }
+        case "sync.diagnostics": {
+          const session = requireSession(dbHandle);
+          requireCanReadTeam(session, session.team_id, dbHandle);
+          result = { ok: true, result: await readSyncDiagnostics(dbHandle, session) };
+          break;
+        }
+        case "sync.rebuild": {
+          const session = requireSession(dbHandle);
+          requireCanReadTeam(session, session.team_id, dbHandle);
+          const rebuilt = await rebuildTeamFromServer(dbHandle, session);
+          postWorkerEvent("sync.applied", rebuilt);
+          result = { ok: true, result: rebuilt };
+          break;
+        }
+        case "sync.projects": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          result = { ok: true, result: readProjectSubscriptions(dbHandle, currentTeamId) };
+          break;
+        }
+        case "sync.projects.subscribe": {
+          const session = requireSession(dbHandle);
+          requireCanReadTeam(session, session.team_id, dbHandle);
+          const projectId = ensureString(args.project_id, "project_id");
+          const subscribed = await subscribeToProject(dbHandle, session, projectId);
+          postWorkerEvent("sync.applied", subscribed);
+          result = { ok: true, result: subscribed };
+          break;
+        }
+        case "sync.projects.unsubscribe": {
+          const session = requireSession(dbHandle);
+          requireCanReadTeam(session, session.team_id, dbHandle);
+          const projectId = ensureString(args.project_id, "project_id");
+          const unsubscribed = await unsubscribeFromProject(dbHandle, session, projectId);
+          postWorkerEvent("sync.applied", unsubscribed);
+          result = { ok: true, result: unsubscribed };
+          break;
+        }
+        case "sync.dead_letter_ops": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          result = {
+            ok: true,
+            result: { ops: readDeadLetterOps(dbHandle, currentTeamId) },
+          };
+          break;
+        }
+        case "sync.discarded_ops": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          result = {
+            ok: true,
+            result: { ops: readDiscardedOps(dbHandle, currentTeamId) },
+          };
+          break;
+        }
         case "team.current": {
           ensureDefaultTeamMembershipFromRegistry(dbHandle);
           const currentTeamId = getCurrentTeamId(dbHandle);
@@ -9350,6 +15696,120 @@ const handleRequest = async (message: RpcRequest): Promise<RpcResponse> => {
           };
           break;
         }
+        case "capacity.list": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const capacityByUser = readUserCapacity(dbHandle, currentTeamId);
+          result = {
+            ok: true,
+            result: {
+              users: readTeamMembers(dbHandle, currentTeamId).map((member) => ({
+                user_id: member.user_id,
+                display_name: member.display_name,
+                minutes_by_weekday:
+                  capacityByUser.get(member.user_id) ?? normalizeWeekdayMinutes([]),
+                is_default: !capacityByUser.has(member.user_id),
+              })),
+            },
+          };
+          break;
+        }
+        case "working_calendar": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const rules = readWorkingCalendar(dbHandle, currentTeamId);
+          const nameMap = getUserMap(dbHandle, currentTeamId);
+          result = {
+            ok: true,
+            result: {
+              ...rules,
+              time_off: rules.time_off.map((entry) => ({
+                ...entry,
+                display_name: getUserDisplayName(entry.user_id, nameMap) ?? entry.user_id,
+              })),
+            },
+          };
+          break;
+        }
+        case "project.members": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const projectId = ensureString(args.project_id, "project_id");
+          if (!isRootProject(dbHandle, projectId, currentTeamId)) {
+            throw new Error("project not found");
+          }
+          const session = requireSession(dbHandle);
+          const role = getProjectRole(
+            dbHandle,
+            session,
+            requireCanReadTeam(session, currentTeamId, dbHandle),
+            projectId
+          );
+          const members = readProjectMembers(dbHandle, projectId);
+          result = {
+            ok: true,
+            result: {
+              project_id: projectId,
+              restricted: members.length > 0,
+              role,
+              members,
+            },
+          };
+          break;
+        }
+        case "item_history": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const itemId = ensureString(args.item_id, "item_id");
+          const limit =
+            typeof args.limit === "number" ? Math.max(1, Math.floor(args.limit)) : 100;
+          result = {
+            ok: true,
+            result: {
+              entries: readItemHistoryEntries(dbHandle, currentTeamId, {
+                itemId,
+                limit,
+              }),
+            },
+          };
+          break;
+        }
+        case "item_conflicts": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const itemId =
+            args.item_id === undefined || args.item_id === null
+              ? null
+              : ensureString(args.item_id, "item_id");
+          result = {
+            ok: true,
+            result: { conflicts: readItemConflicts(dbHandle, currentTeamId, { itemId }) },
+          };
+          break;
+        }
+        case "activity_feed": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          const limit =
+            typeof args.limit === "number" ? Math.max(1, Math.floor(args.limit)) : 30;
+          const before =
+            typeof args.before === "number" ? ensureInteger(args.before, "before") : null;
+          const entries = readItemHistoryEntries(dbHandle, currentTeamId, {
+            before,
+            limit,
+          });
+          result = {
+            ok: true,
+            result: {
+              entries,
+              // Pass as `before` to page back; ops, not entries, are paged.
+              next_before: entries.length > 0 ? entries[entries.length - 1].ts : null,
+            },
+          };
+          break;
+        }
+        case "saved_views_list": {
+          const currentTeamId = getCurrentTeamId(dbHandle);
+          result = {
+            ok: true,
+            result: { views: getSavedViews(dbHandle, currentTeamId) },
+          };
+          break;
+        }
         case "users_list": {
           ensureDefaultTeamMembershipFromRegistry(dbHandle);
           const currentTeamId = getCurrentTeamId(dbHandle);
@@ -11,6 +11,13 @@ export type GanttItem = {
   rollup_end_at: number | null;
   assignee_id?: string | null;
   assignee_name?: string | null;
+  early_start_at?: number | null;
+  early_finish_at?: number | null;
+  late_start_at?: number | null;
+  late_finish_at?: number | null;
+  total_float_minutes?: number | null;
+  free_float_minutes?: number | null;
+  is_critical?: boolean;
 };
 
 export type GanttBlock = {
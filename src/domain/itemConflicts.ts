@@ -0,0 +1,21 @@
+// "local" is the value this client had, "remote" the one pulled via sync.
+export type ItemConflictSide = "local" | "remote";
+
+// Both sides edited one field of an item concurrently. The winner is what
+// field-level last-writer-wins kept; resolving can pick either value.
+export type ItemConflict = {
+  conflict_id: string;
+  item_id: string;
+  field: string;
+  local_value: unknown;
+  local_actor_user_id: string | null;
+  local_actor_name: string | null;
+  remote_value: unknown;
+  remote_actor_user_id: string | null;
+  remote_actor_name: string | null;
+  winner: ItemConflictSide;
+  created_at: number;
+};
+
+export const isItemConflictSide = (value: unknown): value is ItemConflictSide =>
+  value === "local" || value === "remote";
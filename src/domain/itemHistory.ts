@@ -0,0 +1,95 @@
+import { formatEstimateMinutes } from "./formatters";
+
+export type ItemFieldChange = {
+  field: string;
+  old_value: unknown;
+  new_value: unknown;
+};
+
+export type ItemChangeKind = "created" | "updated" | "deleted";
+
+// One item's changes within a single op, as stored alongside the op.
+export type ItemChangeRecord = {
+  item_id: string;
+  title: string;
+  kind: ItemChangeKind;
+  changes: ItemFieldChange[];
+};
+
+export type ItemHistoryEntry = ItemChangeRecord & {
+  op_id: string;
+  op_name: string;
+  // "local" ops come from audit_log, "remote" ones from ops pulled via sync.
+  source: "local" | "remote";
+  actor_user_id: string | null;
+  actor_name: string | null;
+  ts: number;
+};
+
+export const ITEM_HISTORY_FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  status: "Status",
+  priority: "Priority",
+  due_at: "Due",
+  estimate_minutes: "Estimate",
+  estimate_mode: "Estimate mode",
+  health: "Health",
+  health_mode: "Health mode",
+  notes: "Notes",
+  parent_id: "Parent",
+  archived_at: "Archived",
+  completed_at: "Completed",
+  recurrence_rule: "Repeats",
+  tags: "Tags",
+  assignee_ids: "Assignees",
+  depends_on_ids: "Depends on",
+  open_blockers: "Open blockers",
+  scheduled_start_at: "Scheduled",
+  scheduled_duration_minutes: "Scheduled duration",
+};
+
+const TIMESTAMP_FIELDS = new Set([
+  "due_at",
+  "archived_at",
+  "completed_at",
+  "scheduled_start_at",
+]);
+
+const MINUTE_FIELDS = new Set(["estimate_minutes", "scheduled_duration_minutes"]);
+
+export const formatItemHistoryValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(", ") : "—";
+  }
+  if (typeof value === "number" && TIMESTAMP_FIELDS.has(field)) {
+    return new Date(value).toLocaleString();
+  }
+  if (typeof value === "number" && MINUTE_FIELDS.has(field)) {
+    return formatEstimateMinutes(value);
+  }
+  return String(value);
+};
+
+export const getItemHistoryFieldLabel = (field: string) =>
+  ITEM_HISTORY_FIELD_LABELS[field] ?? field;
+
+// One-line summary used by the activity feed.
+export const summarizeItemChange = (record: ItemChangeRecord, maxFields = 2) => {
+  if (record.kind !== "updated") {
+    return record.kind === "created" ? "Created" : "Deleted";
+  }
+  const parts = record.changes
+    .slice(0, maxFields)
+    .map(
+      (change) =>
+        `${getItemHistoryFieldLabel(change.field)}: ${formatItemHistoryValue(
+          change.field,
+          change.old_value
+        )} → ${formatItemHistoryValue(change.field, change.new_value)}`
+    );
+  const remaining = record.changes.length - parts.length;
+  return remaining > 0 ? `${parts.join("; ")} (+${remaining} more)` : parts.join("; ");
+};
@@ -93,6 +93,13 @@ export type ItemGanttModel = {
   blocked_by: DependencyProjectionLite[];
   blocking: DependencyProjectionLite[];
   slack_minutes: number | null;
+  early_start_at?: number | null;
+  early_finish_at?: number | null;
+  late_start_at?: number | null;
+  late_finish_at?: number | null;
+  total_float_minutes?: number | null;
+  free_float_minutes?: number | null;
+  is_critical?: boolean;
   assignee_id?: string | null;
   assignee_name?: string | null;
 };
@@ -0,0 +1,102 @@
+import type { Scope } from "./scope";
+
+export type SavedViewType =
+  | "list"
+  | "kanban"
+  | "calendar"
+  | "gantt"
+  | "dashboard"
+  | "timesheet"
+  | "reports";
+
+export type SavedViewSort = {
+  key: string;
+  dir: "asc" | "desc";
+};
+
+export type SavedViewState = {
+  filter: string;
+  sort: SavedViewSort[];
+  group_by: string | null;
+  // Visible column keys in display order; null keeps the view's defaults.
+  columns: string[] | null;
+};
+
+export type SavedView = {
+  view_id: string;
+  name: string;
+  view_type: SavedViewType;
+  scope: Scope;
+  state: SavedViewState;
+  created_by: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+export const SAVED_VIEW_TYPES: SavedViewType[] = [
+  "list",
+  "kanban",
+  "calendar",
+  "gantt",
+  "dashboard",
+  "timesheet",
+  "reports",
+];
+
+export const DEFAULT_SAVED_VIEW_STATE: SavedViewState = {
+  filter: "",
+  sort: [],
+  group_by: null,
+  columns: null,
+};
+
+export const isSavedViewType = (value: unknown): value is SavedViewType =>
+  typeof value === "string" && SAVED_VIEW_TYPES.includes(value as SavedViewType);
+
+export const normalizeSavedViewScope = (value: unknown): Scope | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  if (raw.kind === "user" && typeof raw.userId === "string" && raw.userId) {
+    return { kind: "user", userId: raw.userId };
+  }
+  if (raw.kind === "project") {
+    return {
+      kind: "project",
+      projectId: typeof raw.projectId === "string" ? raw.projectId : null,
+    };
+  }
+  return null;
+};
+
+export const normalizeSavedViewState = (value: unknown): SavedViewState => {
+  if (!value || typeof value !== "object") {
+    return { ...DEFAULT_SAVED_VIEW_STATE };
+  }
+  const raw = value as Record<string, unknown>;
+  const sort = Array.isArray(raw.sort)
+    ? raw.sort
+        .filter(
+          (entry): entry is Record<string, unknown> =>
+            !!entry &&
+            typeof entry === "object" &&
+            typeof (entry as Record<string, unknown>).key === "string"
+        )
+        .map((entry) => ({
+          key: entry.key as string,
+          dir: entry.dir === "desc" ? ("desc" as const) : ("asc" as const),
+        }))
+    : [];
+  const columns = Array.isArray(raw.columns)
+    ? Array.from(
+        new Set(raw.columns.filter((entry): entry is string => typeof entry === "string"))
+      )
+    : null;
+  return {
+    filter: typeof raw.filter === "string" ? raw.filter.trim() : "",
+    sort,
+    group_by: typeof raw.group_by === "string" && raw.group_by ? raw.group_by : null,
+    columns,
+  };
+};
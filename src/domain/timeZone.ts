@@ -0,0 +1,205 @@
+export type ZonedParts = {
+  year: number;
+  /** 1-12. */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 = Sunday, as Date#getDay. */
+  weekday: number;
+};
+
+/** Day arithmetic in one time zone, for code that buckets instants by day. */
+export type DayCalendar = {
+  timeZone: string;
+  startOfDay: (value: number) => number;
+  addDays: (dayStart: number, days: number) => number;
+  weekday: (value: number) => number;
+  /** The instant a whole wall-clock hour falls on, on the day of `dayStart`. */
+  atHour: (dayStart: number, hour: number) => number;
+  formatDay: (value: number) => string;
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== "string" || value.trim() === "") {
+    return false;
+  }
+  try {
+    formatterFor(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const getSystemTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+/** Zones the runtime knows, for pickers; older engines only offer the current one. */
+export const listTimeZones = (): string[] => {
+  const supported = (
+    Intl as { supportedValuesOf?: (key: "timeZone") => string[] }
+  ).supportedValuesOf?.("timeZone");
+  return supported && supported.length > 0 ? supported : [getSystemTimeZone(), "UTC"];
+};
+
+export const getZonedParts = (value: number, timeZone: string): ZonedParts => {
+  const fields: Record<string, string> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(value))) {
+    fields[part.type] = part.value;
+  }
+  return {
+    year: Number(fields.year),
+    month: Number(fields.month),
+    day: Number(fields.day),
+    // Some engines still print midnight as 24 under h23.
+    hour: Number(fields.hour) % 24,
+    minute: Number(fields.minute),
+    second: Number(fields.second),
+    weekday: WEEKDAYS.indexOf(fields.weekday),
+  };
+};
+
+/** Minutes the zone is ahead of UTC at an instant. */
+export const getZoneOffsetMinutes = (value: number, timeZone: string) => {
+  const parts = getZonedParts(value, timeZone);
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((wall - Math.floor(value / 1000) * 1000) / 60000);
+};
+
+/**
+ * The instant a wall-clock time in a zone falls on. A time repeated when
+ * clocks go back resolves to its first occurrence; one skipped when they go
+ * forward lands the same distance past the jump (02:30 becomes 03:30).
+ */
+export const zonedTimeToMs = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+) => {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  // Zones change offset at most once around any given day.
+  const offsets = Array.from(
+    new Set([
+      getZoneOffsetMinutes(wall - 86400000, timeZone),
+      getZoneOffsetMinutes(wall + 86400000, timeZone),
+    ])
+  ).sort((a, b) => b - a);
+  for (const offset of offsets) {
+    const candidate = wall - offset * 60000;
+    if (getZoneOffsetMinutes(candidate, timeZone) === offset) {
+      return candidate;
+    }
+  }
+  return wall - offsets[offsets.length - 1] * 60000;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+export const formatZonedDay = (value: number, timeZone: string) => {
+  const parts = getZonedParts(value, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+/** Midnight of a YYYY-MM-DD day in the zone, or null for a malformed day. */
+export const parseZonedDay = (value: string, timeZone: string) => {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null;
+  }
+  return zonedTimeToMs(year, month, day, 0, 0, timeZone);
+};
+
+export const startOfZonedDay = (value: number, timeZone: string) => {
+  const parts = getZonedParts(value, timeZone);
+  return zonedTimeToMs(parts.year, parts.month, parts.day, 0, 0, timeZone);
+};
+
+// Steps by calendar date rather than 24h, so days stay on midnight across DST.
+export const addZonedDays = (value: number, days: number, timeZone: string) => {
+  const parts = getZonedParts(value, timeZone);
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return zonedTimeToMs(
+    date.getUTCFullYear(),
+    date.getUTCMonth() + 1,
+    date.getUTCDate(),
+    0,
+    0,
+    timeZone
+  );
+};
+
+/** Monday on or before the instant's day. */
+export const startOfZonedWeek = (value: number, timeZone: string) => {
+  const weekday = getZonedParts(value, timeZone).weekday;
+  return addZonedDays(value, weekday === 0 ? -6 : 1 - weekday, timeZone);
+};
+
+/** Whole calendar days from one instant's day to another's. */
+export const zonedDayDifference = (from: number, to: number, timeZone: string) => {
+  const a = getZonedParts(from, timeZone);
+  const b = getZonedParts(to, timeZone);
+  return Math.round(
+    (Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / 86400000
+  );
+};
+
+export const zonedCalendar = (timeZone: string): DayCalendar => ({
+  timeZone,
+  startOfDay: (value) => startOfZonedDay(value, timeZone),
+  addDays: (dayStart, days) => addZonedDays(dayStart, days, timeZone),
+  weekday: (value) => getZonedParts(value, timeZone).weekday,
+  atHour: (dayStart, hour) => {
+    const parts = getZonedParts(dayStart, timeZone);
+    if (hour >= 24) {
+      return addZonedDays(dayStart, 1, timeZone);
+    }
+    return zonedTimeToMs(parts.year, parts.month, parts.day, hour, 0, timeZone);
+  },
+  formatDay: (value) => formatZonedDay(value, timeZone),
+});
+
+/** Short label such as "GMT+2" or "EST" for the zone at an instant. */
+export const formatZoneLabel = (value: number, timeZone: string) =>
+  new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(new Date(value))
+    .find((part) => part.type === "timeZoneName")?.value ?? timeZone;
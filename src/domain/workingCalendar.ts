@@ -0,0 +1,194 @@
+import type { DayCalendar } from "./timeZone";
+
+export type Holiday = {
+  holiday_id: string;
+  /** YYYY-MM-DD, a calendar date wherever the day math runs. */
+  day: string;
+  name: string;
+};
+
+export type TimeOff = {
+  time_off_id: string;
+  user_id: string;
+  /** First and last day off, both inclusive, as YYYY-MM-DD. */
+  start_day: string;
+  end_day: string;
+  note: string | null;
+};
+
+export type WorkingCalendarRules = {
+  /** Sunday first, like Date#getDay. */
+  working_weekdays: boolean[];
+  holidays: Holiday[];
+  time_off: TimeOff[];
+};
+
+export const DEFAULT_WORKING_WEEKDAYS = [false, true, true, true, true, true, false];
+
+export const EMPTY_WORKING_CALENDAR: WorkingCalendarRules = {
+  working_weekdays: DEFAULT_WORKING_WEEKDAYS,
+  holidays: [],
+  time_off: [],
+};
+
+export const isDayString = (value: unknown): value is string => {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const [year, month, day] = value.split("-").map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  return check.getUTCMonth() === month - 1 && check.getUTCDate() === day;
+};
+
+/** Stored weekday rows over the Monday-to-Friday default. */
+export const normalizeWorkingWeekdays = (
+  rows: Array<[weekday: number, isWorking: number | boolean]>
+) => {
+  const weekdays = [...DEFAULT_WORKING_WEEKDAYS];
+  for (const [weekday, isWorking] of rows) {
+    if (Number.isInteger(weekday) && weekday >= 0 && weekday < 7) {
+      weekdays[weekday] = Boolean(isWorking);
+    }
+  }
+  return weekdays;
+};
+
+export type DayOffReason = "weekend" | "holiday" | "time_off";
+
+type RulesCalendar = Pick<DayCalendar, "weekday" | "formatDay">;
+
+/**
+ * Why a day is not worked, or null for a working day. Time off only counts
+ * for the users listed; with none, only team-wide rules apply.
+ */
+export const dayOffReason = (
+  rules: WorkingCalendarRules,
+  calendar: RulesCalendar,
+  dayStart: number,
+  userIds: readonly string[] = []
+): DayOffReason | null => {
+  if (!rules.working_weekdays[calendar.weekday(dayStart)]) {
+    return "weekend";
+  }
+  const day = calendar.formatDay(dayStart);
+  if (rules.holidays.some((holiday) => holiday.day === day)) {
+    return "holiday";
+  }
+  // YYYY-MM-DD strings order like the dates they name.
+  if (
+    rules.time_off.some(
+      (entry) =>
+        userIds.includes(entry.user_id) && entry.start_day <= day && entry.end_day >= day
+    )
+  ) {
+    return "time_off";
+  }
+  return null;
+};
+
+/** Wall-clock arithmetic that skips non-working time; spans are in ms. */
+export type WorkingTime = {
+  isWorkingDay: (dayStart: number) => boolean;
+  /** Working time from one instant to another, negative when `to` is earlier. */
+  between: (from: number, to: number) => number;
+  /** The instant `span` of working time after `from`, or before it when negative. */
+  add: (from: number, span: number) => number;
+  /** `value` when it falls in working hours, else the next working period's start. */
+  nextWorkingStart: (value: number) => number;
+};
+
+// Ten years of days; far past any plan, and it bounds the loops below when
+// a calendar has almost no working days.
+const MAX_DAYS = 3660;
+
+export const buildWorkingTime = (input: {
+  rules: WorkingCalendarRules;
+  calendar: Pick<DayCalendar, "startOfDay" | "addDays" | "weekday" | "atHour" | "formatDay">;
+  workday: { startHour: number; endHour: number };
+  userIds?: readonly string[];
+}): WorkingTime => {
+  const { rules, calendar, workday, userIds = [] } = input;
+  const offDays = new Map<number, boolean>();
+  const isWorkingDay = (dayStart: number) => {
+    let off = offDays.get(dayStart);
+    if (off === undefined) {
+      off = dayOffReason(rules, calendar, dayStart, userIds) !== null;
+      offDays.set(dayStart, off);
+    }
+    return !off;
+  };
+  const windowOf = (dayStart: number) => ({
+    start: calendar.atHour(dayStart, workday.startHour),
+    end: calendar.atHour(dayStart, workday.endHour),
+  });
+  const hasWorkingWeekday = rules.working_weekdays.some(Boolean);
+
+  const between = (from: number, to: number): number => {
+    if (to < from) {
+      return -between(to, from);
+    }
+    if (!hasWorkingWeekday) {
+      return to - from;
+    }
+    let total = 0;
+    let day = calendar.startOfDay(from);
+    for (let index = 0; day < to && index < MAX_DAYS; index += 1) {
+      if (isWorkingDay(day)) {
+        const window = windowOf(day);
+        total += Math.max(0, Math.min(window.end, to) - Math.max(window.start, from));
+      }
+      day = calendar.addDays(day, 1);
+    }
+    return total;
+  };
+
+  const add = (from: number, span: number) => {
+    if (span === 0 || !hasWorkingWeekday) {
+      return from + span;
+    }
+    let remaining = Math.abs(span);
+    let day = calendar.startOfDay(from);
+    for (let index = 0; index < MAX_DAYS; index += 1) {
+      if (isWorkingDay(day)) {
+        const window = windowOf(day);
+        if (span > 0) {
+          const cursor = Math.max(from, window.start);
+          const available = window.end - cursor;
+          if (available > 0) {
+            if (remaining <= available) {
+              return cursor + remaining;
+            }
+            remaining -= available;
+          }
+        } else {
+          const cursor = Math.min(from, window.end);
+          const available = cursor - window.start;
+          if (available > 0) {
+            if (remaining <= available) {
+              return cursor - remaining;
+            }
+            remaining -= available;
+          }
+        }
+      }
+      day = calendar.addDays(day, span > 0 ? 1 : -1);
+    }
+    return from + span;
+  };
+
+  const nextWorkingStart = (value: number) => {
+    let day = calendar.startOfDay(value);
+    for (let index = 0; index < MAX_DAYS; index += 1) {
+      if (isWorkingDay(day)) {
+        const window = windowOf(day);
+        if (value < window.end) {
+          return Math.max(value, window.start);
+        }
+      }
+      day = calendar.addDays(day, 1);
+    }
+    return value;
+  };
+
+  return { isWorkingDay, between, add, nextWorkingStart };
+};
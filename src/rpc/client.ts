@@ -1,4 +1,4 @@
-import type { RpcRequest, RpcResponse } from "./types";
+import type { RpcEvent, RpcRequest, RpcResponse } from "./types";
 
 type Pending = {
   resolve: (value: any) => void;
@@ -8,10 +8,18 @@ type Pending = {
 export const createRpcClient = (worker: Worker) => {
   let nextId = 0;
   const pending = new Map<string, Pending>();
+  const eventListeners = new Set<(event: RpcEvent) => void>();
 
-  worker.addEventListener("message", (event: MessageEvent<RpcResponse>) => {
+  worker.addEventListener("message", (event: MessageEvent<RpcResponse | RpcEvent>) => {
     const message = event.data;
 
+    if (message?.kind === "event") {
+      for (const listener of eventListeners) {
+        listener(message);
+      }
+      return;
+    }
+
     if (!message || message.kind !== "response") {
       return;
     }
@@ -32,6 +40,12 @@ export const createRpcClient = (worker: Worker) => {
   });
 
   return {
+    onEvent(listener: (event: RpcEvent) => void) {
+      eventListeners.add(listener);
+      return () => {
+        eventListeners.delete(listener);
+      };
+    },
     request<T>(method: string, params?: unknown): Promise<T> {
       const id = String(++nextId);
       const message: RpcRequest = {
@@ -1,13 +1,38 @@
 import { createRpcClient } from "./client";
+import {
+  createTabCoordinator,
+  TAB_CHANNEL_NAME,
+  type WorkerConnection,
+} from "./tabCoordinator";
 import type { RpcErrorPayload } from "./types";
 
-const worker = new Worker(new URL("../db-worker/worker.ts", import.meta.url), {
-  type: "module",
+// Only the leader tab starts the worker; see tabCoordinator.ts.
+const connectWorker = (): WorkerConnection => {
+  const worker = new Worker(new URL("../db-worker/worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const rpc = createRpcClient(worker);
+  return {
+    request: rpc.request.bind(rpc),
+    onEvent: rpc.onEvent.bind(rpc),
+    terminate: () => worker.terminate(),
+  };
+};
+
+const tabs = createTabCoordinator({
+  connectWorker,
+  channel:
+    typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(TAB_CHANNEL_NAME),
+  locks: typeof navigator !== "undefined" && navigator.locks ? navigator.locks : null,
 });
 
-const rpc = createRpcClient(worker);
+if (typeof window !== "undefined") {
+  window.addEventListener("pagehide", () => tabs.resign());
+}
+
+export const request = tabs.request.bind(tabs);
 
-export const request = rpc.request.bind(rpc);
+export const onWorkerEvent = tabs.onEvent.bind(tabs);
 
 const toClientError = (
   error: string | RpcErrorPayload | undefined,
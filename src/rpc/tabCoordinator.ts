@@ -0,0 +1,376 @@
+import type { RpcEvent, RpcRequest, RpcResponse } from "./types";
+
+// Only one tab may open the OPFS database: the `opfs-sahpool` VFS holds
+// exclusive file handles, and two workers would also race on the outbox. The
+// tab holding the leader lock owns the DB worker; the others send their RPCs
+// to it over a BroadcastChannel and receive its events and invalidations.
+
+export type TabRole = "pending" | "leader" | "follower";
+
+// The parts of a worker RPC client the coordinator needs.
+export type WorkerConnection = {
+  request: <T>(method: string, params?: unknown) => Promise<T>;
+  onEvent: (listener: (event: RpcEvent) => void) => () => void;
+  terminate: () => void;
+};
+
+export type TabChannel = {
+  postMessage: (message: unknown) => void;
+  addEventListener: (type: "message", listener: (event: { data: unknown }) => void) => void;
+};
+
+export type TabLocks = {
+  request: (name: string, callback: () => Promise<void>) => Promise<unknown>;
+};
+
+type TabCoordinatorArgs = {
+  connectWorker: () => WorkerConnection;
+  /** null when BroadcastChannel is unavailable; the tab then always leads. */
+  channel: TabChannel | null;
+  /** null when Web Locks are unavailable; leadership is then negotiated on the channel. */
+  locks: TabLocks | null;
+  tabId?: string;
+  heartbeatMs?: number;
+  leaderTimeoutMs?: number;
+  claimWindowMs?: number;
+};
+
+type TabMessage =
+  | { type: "hello"; tab_id: string }
+  | { type: "leader"; tab_id: string }
+  | { type: "claim"; tab_id: string }
+  | { type: "resign"; tab_id: string }
+  | { type: "request"; tab_id: string; leader_id: string; request: RpcRequest }
+  | { type: "response"; tab_id: string; response: RpcResponse }
+  | { type: "event"; event: RpcEvent };
+
+type PendingRequest = {
+  request: RpcRequest;
+  resolve: (value: any) => void;
+  reject: (reason?: unknown) => void;
+  sent_to: string | null;
+};
+
+export const TAB_LOCK_NAME = "makewhen-db-leader";
+export const TAB_CHANNEL_NAME = "makewhen-db-tabs";
+
+// Local-only events emitted by the coordinator itself.
+export const TAB_ROLE_EVENT = "tab.role";
+export const TAB_INVALIDATE_EVENT = "tab.invalidate";
+
+const isTabMessage = (value: unknown): value is TabMessage =>
+  Boolean(value) &&
+  typeof value === "object" &&
+  typeof (value as { type?: unknown }).type === "string";
+
+const readInvalidate = (result: unknown): string[] => {
+  if (!result || typeof result !== "object") {
+    return [];
+  }
+  const record = result as { ok?: unknown; invalidate?: unknown };
+  if (record.ok !== true || !Array.isArray(record.invalidate)) {
+    return [];
+  }
+  return record.invalidate.filter((key): key is string => typeof key === "string");
+};
+
+export const createTabCoordinator = ({
+  connectWorker,
+  channel,
+  locks,
+  tabId = crypto.randomUUID(),
+  heartbeatMs = 1_000,
+  leaderTimeoutMs = 3_000,
+  claimWindowMs = 300,
+}: TabCoordinatorArgs) => {
+  let role: TabRole = "pending";
+  let leaderId: string | null = null;
+  let connection: WorkerConnection | null = null;
+  let nextId = 0;
+  const pending = new Map<string, PendingRequest>();
+  const eventListeners = new Set<(event: RpcEvent) => void>();
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let leaderWatchTimer: ReturnType<typeof setTimeout> | null = null;
+  let claimTimer: ReturnType<typeof setTimeout> | null = null;
+  let claimBlocked = false;
+
+  const emit = (event: RpcEvent) => {
+    for (const listener of Array.from(eventListeners)) {
+      listener(event);
+    }
+  };
+
+  const post = (message: TabMessage) => {
+    channel?.postMessage(message);
+  };
+
+  const setRole = (nextRole: TabRole, nextLeaderId: string | null) => {
+    if (role === nextRole && leaderId === nextLeaderId) {
+      return;
+    }
+    role = nextRole;
+    leaderId = nextLeaderId;
+    emit({ kind: "event", name: TAB_ROLE_EVENT, payload: { role, leader_id: leaderId } });
+  };
+
+  // Runs a request on this tab's worker and tells every other tab which
+  // query keys a successful mutation invalidated.
+  const runOnWorker = async (request: RpcRequest, originTabId: string) => {
+    if (!connection) {
+      throw new Error("This tab does not own the database.");
+    }
+    const result = await connection.request<unknown>(request.method, request.params);
+    if (request.method === "mutate") {
+      const invalidate = readInvalidate(result);
+      if (invalidate.length > 0) {
+        const event: RpcEvent = {
+          kind: "event",
+          name: TAB_INVALIDATE_EVENT,
+          payload: { invalidate, tab_id: originTabId },
+        };
+        post({ type: "event", event });
+        if (originTabId !== tabId) {
+          emit(event);
+        }
+      }
+    }
+    return result;
+  };
+
+  const dispatchPending = () => {
+    for (const [id, entry] of Array.from(pending.entries())) {
+      if (role === "pending" || !leaderId || entry.sent_to === leaderId) {
+        continue;
+      }
+      if (entry.sent_to !== null && entry.request.method === "mutate") {
+        // The old leader may or may not have applied it; resending could
+        // apply it twice.
+        pending.delete(id);
+        entry.reject(new Error("The tab that owned the database closed. Try again."));
+        continue;
+      }
+      if (role === "leader") {
+        pending.delete(id);
+        runOnWorker(entry.request, tabId).then(entry.resolve, entry.reject);
+        continue;
+      }
+      entry.sent_to = leaderId;
+      post({ type: "request", tab_id: tabId, leader_id: leaderId, request: entry.request });
+    }
+  };
+
+  const stopLeaderWatch = () => {
+    if (leaderWatchTimer !== null) {
+      clearTimeout(leaderWatchTimer);
+      leaderWatchTimer = null;
+    }
+  };
+
+  const becomeLeader = () => {
+    if (role === "leader") {
+      return;
+    }
+    stopLeaderWatch();
+    connection = connectWorker();
+    connection.onEvent((event) => {
+      post({ type: "event", event });
+      emit(event);
+    });
+    setRole("leader", tabId);
+    post({ type: "leader", tab_id: tabId });
+    if (!locks) {
+      heartbeatTimer = setInterval(() => post({ type: "leader", tab_id: tabId }), heartbeatMs);
+    }
+    dispatchPending();
+  };
+
+  const stepDown = (nextLeaderId: string) => {
+    if (heartbeatTimer !== null) {
+      clearInterval(heartbeatTimer);
+      heartbeatTimer = null;
+    }
+    connection?.terminate();
+    connection = null;
+    setRole("follower", nextLeaderId);
+  };
+
+  // Fallback election without Web Locks: a tab that has not heard from a
+  // leader for leaderTimeoutMs announces a claim, and takes over unless a
+  // leader or a claim from a smaller tab id shows up within claimWindowMs.
+  const startClaim = () => {
+    if (claimTimer !== null || role === "leader") {
+      return;
+    }
+    claimBlocked = false;
+    post({ type: "claim", tab_id: tabId });
+    claimTimer = setTimeout(() => {
+      claimTimer = null;
+      if (claimBlocked) {
+        watchLeader();
+        return;
+      }
+      becomeLeader();
+    }, claimWindowMs);
+  };
+
+  const watchLeader = (delayMs = leaderTimeoutMs) => {
+    if (locks || role === "leader") {
+      return;
+    }
+    stopLeaderWatch();
+    leaderWatchTimer = setTimeout(startClaim, delayMs);
+  };
+
+  const handleMessage = (message: TabMessage) => {
+    switch (message.type) {
+      case "hello": {
+        if (role === "leader") {
+          post({ type: "leader", tab_id: tabId });
+        }
+        return;
+      }
+      case "leader": {
+        if (message.tab_id === tabId) {
+          return;
+        }
+        if (role === "leader") {
+          // Only possible in the fallback election; the smaller id keeps it.
+          if (message.tab_id < tabId) {
+            stepDown(message.tab_id);
+            dispatchPending();
+          }
+          return;
+        }
+        claimBlocked = true;
+        setRole("follower", message.tab_id);
+        watchLeader();
+        dispatchPending();
+        return;
+      }
+      case "claim": {
+        if (role === "leader") {
+          post({ type: "leader", tab_id: tabId });
+        } else if (message.tab_id < tabId) {
+          claimBlocked = true;
+        }
+        return;
+      }
+      case "resign": {
+        if (message.tab_id === leaderId && role !== "leader") {
+          stopLeaderWatch();
+          startClaim();
+        }
+        return;
+      }
+      case "request": {
+        if (role !== "leader" || message.leader_id !== tabId) {
+          return;
+        }
+        const { request } = message;
+        runOnWorker(request, message.tab_id).then(
+          (result) =>
+            post({
+              type: "response",
+              tab_id: message.tab_id,
+              response: { id: request.id, kind: "response", ok: true, result },
+            }),
+          (error) =>
+            post({
+              type: "response",
+              tab_id: message.tab_id,
+              response: {
+                id: request.id,
+                kind: "response",
+                ok: false,
+                error: error instanceof Error ? error.message : String(error),
+              },
+            })
+        );
+        return;
+      }
+      case "response": {
+        if (message.tab_id !== tabId) {
+          return;
+        }
+        const entry = pending.get(message.response.id);
+        if (!entry) {
+          return;
+        }
+        pending.delete(message.response.id);
+        if (message.response.ok) {
+          entry.resolve(message.response.result);
+        } else {
+          entry.reject(new Error(message.response.error || "Unknown error"));
+        }
+        return;
+      }
+      case "event": {
+        if (role === "leader") {
+          return;
+        }
+        const { event } = message;
+        if (
+          event.name === TAB_INVALIDATE_EVENT &&
+          (event.payload as { tab_id?: unknown } | undefined)?.tab_id === tabId
+        ) {
+          return;
+        }
+        emit(event);
+        return;
+      }
+    }
+  };
+
+  if (!channel) {
+    becomeLeader();
+  } else {
+    channel.addEventListener("message", (event) => {
+      if (isTabMessage(event.data)) {
+        handleMessage(event.data);
+      }
+    });
+    if (locks) {
+      // The callback only runs once this tab holds the lock, and the lock is
+      // held until the tab goes away, so the next waiting tab takes over.
+      void locks.request(
+        TAB_LOCK_NAME,
+        () =>
+          new Promise<void>(() => {
+            becomeLeader();
+          })
+      );
+    }
+    post({ type: "hello", tab_id: tabId });
+    // A running leader answers hello right away, so the first tab need not
+    // wait out the full leader timeout.
+    watchLeader(claimWindowMs);
+  }
+
+  return {
+    tabId,
+    getRole: () => role,
+    onEvent(listener: (event: RpcEvent) => void) {
+      eventListeners.add(listener);
+      return () => {
+        eventListeners.delete(listener);
+      };
+    },
+    request<T>(method: string, params?: unknown): Promise<T> {
+      const id = `${tabId}:${++nextId}`;
+      const request: RpcRequest = { id, kind: "request", method, params };
+      if (role === "leader") {
+        return runOnWorker(request, tabId) as Promise<T>;
+      }
+      return new Promise<T>((resolve, reject) => {
+        pending.set(id, { request, resolve, reject, sent_to: null });
+        dispatchPending();
+      });
+    },
+    /** Lets the other tabs take over at once instead of after a timeout. */
+    resign() {
+      if (role === "leader" && !locks) {
+        post({ type: "resign", tab_id: tabId });
+      }
+    },
+  };
+};
@@ -13,11 +13,19 @@ export type RpcResponse = {
   error?: string;
 };
 
+// Unsolicited worker -> UI notifications, e.g. after a background sync.
+export type RpcEvent = {
+  kind: "event";
+  name: string;
+  payload?: unknown;
+};
+
 export type RpcErrorCode =
   | "NOT_SIGNED_IN"
   | "NOT_TEAM_MEMBER"
   | "INSUFFICIENT_ROLE"
-  | "CROSS_TEAM_ACCESS";
+  | "CROSS_TEAM_ACCESS"
+  | "NO_PROJECT_ACCESS";
 
 export type RpcErrorPayload = {
   code: RpcErrorCode | string;
@@ -26,6 +34,15 @@ export type RpcErrorPayload = {
 
 export type TeamRole = "owner" | "editor" | "viewer";
 
+// `restricted` is false while the project has no members of its own and is
+// open to the team; `role` is the signed-in user's, null without access.
+export type ProjectMembers = {
+  project_id: string;
+  restricted: boolean;
+  role: TeamRole | null;
+  members: Array<{ user_id: string; display_name: string; role: TeamRole }>;
+};
+
 export type AuthSession = {
   session_id: string;
   user_id: string;
@@ -39,6 +56,8 @@ export type AuthSessionCurrentResult = {
         user_id: string;
         display_name: string;
         avatar_url: string | null;
+        /** IANA zone; null means follow the device. */
+        time_zone?: string | null;
       }
     | null;
   team:
@@ -91,7 +110,7 @@ export type AuthLogoutResult = {
   session_id: string | null;
 };
 
-export type OpOutboxStatus = "queued" | "sending" | "acked" | "failed";
+export type OpOutboxStatus = "queued" | "sending" | "acked" | "failed" | "rejected" | "dead";
 
 export type OpEnvelope<TPayload = unknown> = {
   op_id: string;
@@ -100,11 +119,96 @@ export type OpEnvelope<TPayload = unknown> = {
   created_at: number;
   op_name: string;
   payload: TPayload;
+  // Hybrid logical clock stamp (see src/sync/hlc.ts); absent on ops queued
+  // before clients stamped them.
+  hlc?: string;
+  // Projects the op touches, for selective sync. Empty or absent means the
+  // op is team-wide and every device pulls it.
+  project_ids?: string[];
+};
+
+// A local change the sync server rejected, or one that no longer applied
+// once a rejected change it built on was rolled back.
+export type SyncDiscardedOp = {
+  op_id: string;
+  op_name: string;
+  created_at: number;
+  reason_code: string | null;
+  reason: string;
+  // The rejected op this one depended on; null for the rejected op itself.
+  caused_by_op_id: string | null;
+  // False when the change could not be undone and is still applied locally.
+  rolled_back: boolean;
+  discarded_at: number;
+};
+
+// A local change that kept failing to push, or hit a permanent error, and
+// waits for the user to retry, edit or discard it.
+export type SyncDeadLetterOp = {
+  op_id: string;
+  op_name: string;
+  created_at: number;
+  payload: Record<string, unknown>;
+  attempt_count: number;
+  last_error: string | null;
+  dead_lettered_at: number;
+};
+
+export type SyncDiagnostics = {
+  team_id: string;
+  sync_mode: string;
+  stream_state: string;
+  outbox: { by_status: Partial<Record<OpOutboxStatus, number>> };
+  errors: Array<{
+    op_id: string;
+    op_name: string;
+    status: OpOutboxStatus;
+    attempt_count: number;
+    last_error: string;
+    created_at: number;
+  }>;
+  applied: {
+    last_applied_seq: number;
+    snapshot_seq: number;
+    /** Empty when the device syncs every project; gaps are then not tracked. */
+    subscribed_project_ids: string[];
+    gaps: Array<{ from_seq: number; to_seq: number }>;
+    missing_count: number;
+  };
+  server: {
+    latest_seq: number | null;
+    behind_by: number | null;
+    snapshot_required: boolean;
+    error: string | null;
+  };
+  integrity: {
+    ok: boolean;
+    issues: Array<{ code: string; message: string; count: number | null }>;
+  };
+};
+
+export type SyncProjectSubscriptions = {
+  team_id: string;
+  mode: "all" | "selected";
+  projects: Array<{ project_id: string; title: string; subscribed: boolean }>;
+  backfilled_count?: number;
+  pruned_count?: number;
+};
+
+export type SyncRebuildResult = {
+  team_id: string;
+  sync_mode: string;
+  snapshot_seq: number | null;
+  applied_count: number;
+  latest_seq: number;
+  replayed_local_count: number;
+  failed_local_count: number;
 };
 
 export type SyncOutboxStatusResult = {
   queued_count: number;
   failed_count: number;
+  dead_count?: number;
   last_error?: string | null;
 };
 
@@ -0,0 +1,71 @@
+// Hybrid logical clock stamps, serialized so plain string comparison orders
+// them: wall-clock millis, then a counter for events within the same milli,
+// then the node id as a tie-breaker between clients.
+export type HlcTimestamp = {
+  wall: number;
+  counter: number;
+  node: string;
+};
+
+const WALL_WIDTH = 15;
+const COUNTER_WIDTH = 5;
+const HLC_PATTERN = /^(\d{15})-(\d{5})-(.+)$/;
+
+export const formatHlc = ({ wall, counter, node }: HlcTimestamp) =>
+  `${String(wall).padStart(WALL_WIDTH, "0")}-${String(counter).padStart(
+    COUNTER_WIDTH,
+    "0"
+  )}-${node}`;
+
+export const parseHlc = (value: unknown): HlcTimestamp | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const match = value.match(HLC_PATTERN);
+  if (!match) {
+    return null;
+  }
+  return { wall: Number(match[1]), counter: Number(match[2]), node: match[3] };
+};
+
+export const compareHlc = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * Advances the clock for a local event. `last` is the previous stamp this
+ * node issued or received; an unreadable one is treated as a fresh clock.
+ */
+export const tickHlc = (last: string | null, now: number, node: string) => {
+  const previous = parseHlc(last);
+  if (!previous || now > previous.wall) {
+    return formatHlc({ wall: now, counter: 0, node });
+  }
+  return formatHlc({ wall: previous.wall, counter: previous.counter + 1, node });
+};
+
+/**
+ * Merges a stamp received from another node so the next local stamp sorts
+ * after everything this node has seen.
+ */
+export const receiveHlc = (
+  last: string | null,
+  remote: string,
+  now: number,
+  node: string
+) => {
+  const local = parseHlc(last);
+  const incoming = parseHlc(remote);
+  if (!incoming) {
+    return tickHlc(last, now, node);
+  }
+  const localWall = local?.wall ?? 0;
+  const wall = Math.max(localWall, incoming.wall, now);
+  let counter = 0;
+  if (local && wall === localWall && wall === incoming.wall) {
+    counter = Math.max(local.counter, incoming.counter) + 1;
+  } else if (local && wall === localWall) {
+    counter = local.counter + 1;
+  } else if (wall === incoming.wall) {
+    counter = incoming.counter + 1;
+  }
+  return formatHlc({ wall, counter, node });
+};
@@ -0,0 +1,100 @@
+// What a local mutation sends to the sync server. UI callers pass whatever
+// args the worker handler reads; the pushed payload adds the ids the handler
+// generated and the keys the server's op validators require, so other
+// devices replay the same rows and the server can place the op.
+
+type MutationOutcome = {
+  ok: boolean;
+  result?: unknown;
+};
+
+/** `set_status` args both the worker (`id`) and the server (`item_id`) accept. */
+export const setStatusArgs = (
+  itemId: string,
+  status: string,
+  extra: { override?: boolean } = {}
+): Record<string, unknown> => ({ id: itemId, item_id: itemId, status, ...extra });
+
+export const deriveOutboxPayload = (
+  opName: string,
+  args: Record<string, unknown>,
+  outcome: MutationOutcome
+): Record<string, unknown> => {
+  const payload: Record<string, unknown> = { ...args };
+  if (opName === "set_status" && payload.item_id === undefined) {
+    payload.item_id = payload.id;
+  }
+  if (!outcome.ok || !outcome.result || typeof outcome.result !== "object") {
+    return payload;
+  }
+  const resultRecord = outcome.result as Record<string, unknown>;
+  const inject = (key: string) => {
+    if (
+      payload[key] === undefined &&
+      typeof resultRecord[key] === "string" &&
+      (resultRecord[key] as string).trim().length > 0
+    ) {
+      payload[key] = resultRecord[key];
+    }
+  };
+
+  switch (opName) {
+    case "create_item":
+      inject("id");
+      inject("project_id");
+      break;
+    case "set_status":
+      inject("next_occurrence_id");
+      inject("next_block_id");
+      break;
+    case "scheduled_block.create":
+    case "create_block":
+      inject("block_id");
+      break;
+    case "add_time_entry":
+    case "stop_timer":
+      inject("entry_id");
+      inject("user_id");
+      break;
+    case "time_entry.update":
+    case "time_entry.delete":
+      // The item id lets the server place the op in its project.
+      inject("item_id");
+      break;
+    case "time_entry.split":
+      inject("new_entry_id");
+      inject("item_id");
+      break;
+    case "add_blocker":
+      inject("blocker_id");
+      break;
+    case "user.create":
+      inject("user_id");
+      break;
+    case "saved_view.create":
+      inject("view_id");
+      inject("created_by");
+      break;
+    case "team.holiday.add":
+      inject("holiday_id");
+      break;
+    case "user.time_off.add":
+      inject("time_off_id");
+      break;
+    case "schedule.auto_plan":
+      if (Array.isArray(resultRecord.plan)) {
+        payload.plan = resultRecord.plan;
+      }
+      break;
+    case "import_ics":
+      inject("user_id");
+      if (Array.isArray(resultRecord.events)) {
+        delete payload.content;
+        payload.events = resultRecord.events;
+      }
+      break;
+    default:
+      break;
+  }
+  return payload;
+};
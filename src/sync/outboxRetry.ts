@@ -0,0 +1,39 @@
+// Retry schedule for outbox ops whose push failed in transport (network
+// errors, 5xx, rate limits). Ops the server answered with a per-op reject go
+// through the rebase path instead and never come back here. A device can be
+// offline for days, so transient failures back off but never give up.
+
+const RETRY_BASE_MS = 2_000;
+const RETRY_MAX_MS = 15 * 60_000;
+
+/** Delay before retry number `attempt` (1-based), with equal jitter. */
+export const outboxRetryDelayMs = (attempt: number, random: () => number = Math.random) => {
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
+
+export type OutboxFailureOutcome =
+  | { status: "failed"; attempt_count: number; next_retry_at: number }
+  | { status: "dead"; attempt_count: number };
+
+/**
+ * Where an op goes after a failed push: back to `failed` with a retry time,
+ * or to the dead-letter state when the server answered with an error no
+ * retry can fix.
+ */
+export const nextOutboxFailure = (
+  previousAttempts: number,
+  permanent: boolean,
+  now: number,
+  random: () => number = Math.random
+): OutboxFailureOutcome => {
+  const attemptCount = previousAttempts + 1;
+  if (permanent) {
+    return { status: "dead", attempt_count: attemptCount };
+  }
+  return {
+    status: "failed",
+    attempt_count: attemptCount,
+    next_retry_at: now + outboxRetryDelayMs(attemptCount, random),
+  };
+};
@@ -0,0 +1,7 @@
+// Settings are device-local except for the keys a team shares; only these
+// reach the outbox and snapshots. The sync server keeps the same list in
+// apps/sync-server/src/sync/sharedSettings.ts to validate `set_setting`.
+export const SHARED_SETTING_KEYS: ReadonlySet<string> = new Set(["list.saved_filters"]);
+
+export const isSharedSettingKey = (key: unknown): key is string =>
+  typeof key === "string" && SHARED_SETTING_KEYS.has(key);
@@ -0,0 +1,95 @@
+// Incremental parser for text/event-stream bodies read through fetch, so the
+// stream can carry the same Authorization header as push and pull (the
+// browser EventSource API cannot set headers).
+export type SseMessage = {
+  event: string;
+  data: string;
+  id: string | null;
+};
+
+export type SseParser = {
+  push: (chunk: string) => void;
+};
+
+export const createSseParser = (
+  onMessage: (message: SseMessage) => void,
+  onRetry?: (retryMs: number) => void
+): SseParser => {
+  let buffer = "";
+  let eventName = "";
+  let dataLines: string[] = [];
+  let lastEventId: string | null = null;
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onMessage({
+        event: eventName || "message",
+        data: dataLines.join("\n"),
+        id: lastEventId,
+      });
+    }
+    eventName = "";
+    dataLines = [];
+  };
+
+  const processLine = (line: string) => {
+    if (line === "") {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":")) {
+      return;
+    }
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+    if (field === "event") {
+      eventName = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    } else if (field === "id") {
+      lastEventId = value;
+    } else if (field === "retry" && /^\d+$/.test(value)) {
+      onRetry?.(Number(value));
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      buffer += chunk;
+      let start = 0;
+      for (let index = 0; index < buffer.length; index += 1) {
+        const char = buffer[index];
+        if (char !== "\n" && char !== "\r") {
+          continue;
+        }
+        // A trailing CR may be the first half of a CRLF split across chunks.
+        if (char === "\r" && index === buffer.length - 1) {
+          break;
+        }
+        processLine(buffer.slice(start, index));
+        if (char === "\r" && buffer[index + 1] === "\n") {
+          index += 1;
+        }
+        start = index + 1;
+      }
+      buffer = buffer.slice(start);
+    },
+  };
+};
+
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 30_000;
+
+/**
+ * Reconnect delay for the given failed attempt (0-based): exponential with
+ * "equal jitter", so a server restart does not bring every client back in
+ * the same second.
+ */
+export const reconnectDelayMs = (attempt: number, random: () => number = Math.random) => {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempt));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
@@ -14,6 +14,17 @@ export type SyncEngineAdapter = {
     serverSeq: number,
     op: OpEnvelope
   ) => Promise<boolean | void> | boolean | void;
+  /**
+   * Imports the team's newest server snapshot and returns its server_seq, or
+   * null when the server has none. Without it every bootstrap pulls the full
+   * log, which fails once the server has compacted it.
+   */
+  bootstrapFromSnapshot?: (teamId: string) => Promise<number | null> | number | null;
+  /**
+   * Stores how far the server scanned for this pull. Filtered pulls skip
+   * other projects' ops, so the last applied op can lag behind it.
+   */
+  recordPulledThrough?: (teamId: string, throughSeq: number) => Promise<void> | void;
 };
 
 export type SyncRunOnceArgs = {
@@ -50,11 +61,29 @@ export const runSyncOnce = async ({
 
   await adapter.applyPushResult(teamId, pushResponse);
 
-  const sinceSeq = await adapter.getLastAppliedSeq(teamId);
-  const pullResponse = await adapter.pull({
+  let sinceSeq = await adapter.getLastAppliedSeq(teamId);
+  if (sinceSeq === 0 && adapter.bootstrapFromSnapshot) {
+    sinceSeq = (await adapter.bootstrapFromSnapshot(teamId)) ?? sinceSeq;
+  }
+  let pullResponse = await adapter.pull({
     team_id: teamId,
     since_seq: sinceSeq,
   });
+  if (pullResponse.snapshot_required) {
+    const snapshotSeq = adapter.bootstrapFromSnapshot
+      ? await adapter.bootstrapFromSnapshot(teamId)
+      : null;
+    if (snapshotSeq === null || snapshotSeq <= sinceSeq) {
+      throw new Error(
+        `Server compacted ops past server_seq ${sinceSeq} and has no newer snapshot.`
+      );
+    }
+    sinceSeq = snapshotSeq;
+    pullResponse = await adapter.pull({
+      team_id: teamId,
+      since_seq: sinceSeq,
+    });
+  }
 
   const orderedIncoming = [...pullResponse.ops].sort(
     (a, b) => a.server_seq - b.server_seq
@@ -68,6 +97,10 @@ export const runSyncOnce = async ({
     }
   }
 
+  if (pullResponse.through_seq !== undefined && adapter.recordPulledThrough) {
+    await adapter.recordPulledThrough(teamId, pullResponse.through_seq);
+  }
+
   const latestSeq =
     orderedIncoming.length > 0
       ? orderedIncoming[orderedIncoming.length - 1].server_seq
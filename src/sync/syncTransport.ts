@@ -1,6 +1,15 @@
 import type { OpEnvelope } from "../rpc/types";
-import type { PullRequest, PullResponse, PushRequest, PushResponse } from "./syncTypes";
+import {
+  isOpRejectReasonCode,
+  type PublishSnapshotRequest,
+  type PullRequest,
+  type PullResponse,
+  type PushRequest,
+  type PushResponse,
+  type SyncSnapshot,
+} from "./syncTypes";
 import type { SyncMode } from "./syncConfig";
+import { createSseParser, reconnectDelayMs } from "./sse";
 
 type SyncErrorReporter = (message: string) => void;
 
@@ -13,12 +22,57 @@ type SyncTransportFactoryArgs = {
   onError?: SyncErrorReporter;
 };
 
+export type SyncStreamState = "connecting" | "open" | "polling" | "closed";
+
+export type SyncSubscribeArgs = {
+  teamId: string;
+  /** Called with the team's latest server_seq, or null for a polling tick. */
+  onRemoteChange: (latestSeq: number | null) => void;
+  onStateChange?: (state: SyncStreamState) => void;
+};
+
+export type SyncSubscription = {
+  close: () => void;
+};
+
 export type SyncTransport = {
   mode: SyncMode;
   push: (request: PushRequest) => Promise<PushResponse>;
   pull: (request: PullRequest) => Promise<PullResponse>;
+  subscribe: (args: SyncSubscribeArgs) => SyncSubscription;
+  /** Resolves null when the team has no snapshot yet. */
+  fetchSnapshot: (teamId: string) => Promise<SyncSnapshot | null>;
+  publishSnapshot: (request: PublishSnapshotRequest) => Promise<{ server_seq: number }>;
 };
 
+class SyncRequestError extends Error {
+  readonly status: number;
+  readonly code: string | null;
+
+  constructor(message: string, status: number, code: string | null) {
+    super(message);
+    this.name = "SyncRequestError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// Statuses a retry can fix: expired sessions, conflicts, timeouts and rate
+// limits. Any other 4xx means the request itself will never be accepted.
+const RETRYABLE_CLIENT_STATUSES = new Set([401, 408, 409, 425, 429]);
+
+/** True when retrying the same push cannot succeed. */
+export const isPermanentSyncError = (error: unknown) =>
+  error instanceof SyncRequestError &&
+  error.status >= 400 &&
+  error.status < 500 &&
+  !RETRYABLE_CLIENT_STATUSES.has(error.status);
+
+const STREAM_POLL_INTERVAL_MS = 15_000;
+// The server sends a heartbeat comment every 25s; twice that with no bytes
+// means the connection is stuck even if the socket never reported an error.
+const STREAM_IDLE_TIMEOUT_MS = 60_000;
+
 const ensureUrl = (baseUrl: string) => {
   const trimmed = baseUrl.trim();
   if (!trimmed) {
@@ -75,12 +129,14 @@ const normalizePushResponse = (payload: unknown): PushResponse => {
       if (!isRecord(entry) || typeof entry.op_id !== "string") {
         return null;
       }
+      const code = isRecord(entry.reason) ? entry.reason.code : null;
       return {
         op_id: entry.op_id,
         reason: normalizeRejectedReason(entry.reason),
+        code: isOpRejectReasonCode(code) ? code : null,
       };
     })
-    .filter((entry): entry is { op_id: string; reason: string } => entry !== null);
+    .filter((entry): entry is PushResponse["rejected"][number] => entry !== null);
 
   return { acked, rejected };
 };
@@ -126,6 +182,14 @@ const normalizePullResponse = (payload: unknown, sinceSeq: number): PullResponse
         created_at: createdAt,
         op_name: opValue.op_name,
         payload: payloadObject,
+        ...(typeof opValue.hlc === "string" ? { hlc: opValue.hlc } : {}),
+        ...(Array.isArray(opValue.project_ids)
+          ? {
+              project_ids: opValue.project_ids.filter(
+                (projectId): projectId is string => typeof projectId === "string"
+              ),
+            }
+          : {}),
       },
     });
   }
@@ -139,27 +203,58 @@ const normalizePullResponse = (payload: unknown, sinceSeq: number): PullResponse
       ? ops[ops.length - 1].server_seq
       : sinceSeq;
 
+  const throughSeqValue = Number(payload.through_seq);
+
   return {
     ops,
     latest_seq: latestSeq,
+    ...(Number.isFinite(throughSeqValue) ? { through_seq: throughSeqValue } : {}),
   };
 };
 
-const readErrorMessage = async (response: Response): Promise<string> => {
+const readErrorDetails = async (
+  response: Response
+): Promise<{ message: string; code: string | null }> => {
   try {
     const payload = (await response.json()) as unknown;
     if (isRecord(payload)) {
+      const code =
+        typeof payload.error === "string" && payload.error.trim().length > 0
+          ? payload.error
+          : null;
       if (typeof payload.message === "string" && payload.message.trim().length > 0) {
-        return payload.message;
+        return { message: payload.message, code };
       }
-      if (typeof payload.error === "string" && payload.error.trim().length > 0) {
-        return payload.error;
+      if (code) {
+        return { message: code, code };
       }
     }
   } catch {
     // ignore
   }
-  return `${response.status} ${response.statusText}`.trim();
+  return { message: `${response.status} ${response.statusText}`.trim(), code: null };
+};
+
+const readErrorMessage = async (response: Response): Promise<string> =>
+  (await readErrorDetails(response)).message;
+
+const normalizeSnapshot = (payload: unknown): SyncSnapshot | null => {
+  const value = isRecord(payload) ? payload.snapshot : null;
+  if (!isRecord(value) || typeof value.team_id !== "string" || !isRecord(value.payload)) {
+    return null;
+  }
+  const serverSeq = Number(value.server_seq);
+  const formatVersion = Number(value.format_version);
+  if (!Number.isFinite(serverSeq) || !Number.isFinite(formatVersion)) {
+    return null;
+  }
+  return {
+    team_id: value.team_id,
+    server_seq: serverSeq,
+    format_version: formatVersion,
+    created_at: typeof value.created_at === "string" ? value.created_at : "",
+    payload: value.payload,
+  };
 };
 
 const buildHeaders = (sessionToken?: string | null) => {
@@ -186,14 +281,145 @@ const createRemoteTransport = ({
       cache: "no-store",
     });
     if (!response.ok) {
-      const message = await readErrorMessage(response);
-      throw new Error(`Sync request failed: ${message}`);
+      const { message, code } = await readErrorDetails(response);
+      throw new SyncRequestError(`Sync request failed: ${message}`, response.status, code);
     }
     return (await response.json()) as unknown;
   };
 
+  const subscribe = ({
+    teamId,
+    onRemoteChange,
+    onStateChange,
+  }: SyncSubscribeArgs): SyncSubscription => {
+    const url = `${baseUrl}/sync/stream?${new URLSearchParams({ team_id: teamId }).toString()}`;
+    let closed = false;
+    let attempt = 0;
+    let serverRetryMs = 0;
+    let controller: AbortController | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let idleTimer: ReturnType<typeof setTimeout> | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+    const startPolling = () => {
+      if (pollTimer !== null) {
+        return;
+      }
+      pollTimer = setInterval(() => onRemoteChange(null), STREAM_POLL_INTERVAL_MS);
+      onStateChange?.("polling");
+    };
+
+    const stopPolling = () => {
+      if (pollTimer !== null) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    const armIdleTimer = () => {
+      if (idleTimer !== null) {
+        clearTimeout(idleTimer);
+      }
+      idleTimer = setTimeout(() => controller?.abort(), STREAM_IDLE_TIMEOUT_MS);
+    };
+
+    const connect = async () => {
+      reconnectTimer = null;
+      if (closed) {
+        return;
+      }
+      if (pollTimer === null) {
+        onStateChange?.("connecting");
+      }
+      const activeController = new AbortController();
+      controller = activeController;
+      try {
+        const response = await fetch(url, {
+          method: "GET",
+          headers: { ...buildHeaders(sessionToken), Accept: "text/event-stream" },
+          credentials: "include",
+          cache: "no-store",
+          signal: activeController.signal,
+        });
+        if (!response.ok || !response.body) {
+          const message = await readErrorMessage(response);
+          throw new Error(`Sync stream failed: ${message}`);
+        }
+
+        attempt = 0;
+        stopPolling();
+        onStateChange?.("open");
+        armIdleTimer();
+
+        const parser = createSseParser(
+          (message) => {
+            if (message.event !== "seq") {
+              return;
+            }
+            try {
+              const payload = JSON.parse(message.data) as unknown;
+              const latestSeq = isRecord(payload) ? Number(payload.latest_seq) : NaN;
+              onRemoteChange(Number.isFinite(latestSeq) ? latestSeq : null);
+            } catch {
+              onRemoteChange(null);
+            }
+          },
+          (retryMs) => {
+            serverRetryMs = retryMs;
+          }
+        );
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) {
+            break;
+          }
+          armIdleTimer();
+          parser.push(decoder.decode(value, { stream: true }));
+        }
+        throw new Error("Sync stream ended.");
+      } catch (error) {
+        if (closed) {
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        onError?.(`[sync][remote][stream] ${message}`);
+        if (idleTimer !== null) {
+          clearTimeout(idleTimer);
+          idleTimer = null;
+        }
+        startPolling();
+        const delay = Math.max(serverRetryMs, reconnectDelayMs(attempt));
+        attempt += 1;
+        reconnectTimer = setTimeout(() => void connect(), delay);
+      }
+    };
+
+    void connect();
+
+    return {
+      close: () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        controller?.abort();
+        stopPolling();
+        if (reconnectTimer !== null) {
+          clearTimeout(reconnectTimer);
+        }
+        if (idleTimer !== null) {
+          clearTimeout(idleTimer);
+        }
+        onStateChange?.("closed");
+      },
+    };
+  };
+
   return {
     mode: "remote",
+    subscribe,
     push: async (request) => {
       try {
         const payload = await requestJson(`${baseUrl}/sync/push`, {
@@ -213,6 +439,9 @@ const createRemoteTransport = ({
         team_id: request.team_id,
         since_seq: String(request.since_seq),
       });
+      if (request.project_ids && request.project_ids.length > 0) {
+        search.set("project_ids", request.project_ids.join(","));
+      }
       try {
         const payload = await requestJson(
           `${baseUrl}/sync/pull?${search.toString()}`,
@@ -223,11 +452,43 @@ const createRemoteTransport = ({
         );
         return normalizePullResponse(payload, request.since_seq);
       } catch (error) {
+        if (error instanceof SyncRequestError && error.code === "SNAPSHOT_REQUIRED") {
+          return { ops: [], latest_seq: request.since_seq, snapshot_required: true };
+        }
         const message = error instanceof Error ? error.message : String(error);
         onError?.(`[sync][remote][pull] ${message}`);
         throw error;
       }
     },
+    fetchSnapshot: async (teamId) => {
+      const search = new URLSearchParams({ team_id: teamId });
+      try {
+        const payload = await requestJson(`${baseUrl}/sync/snapshot?${search.toString()}`, {
+          method: "GET",
+          headers: buildHeaders(sessionToken),
+        });
+        return normalizeSnapshot(payload);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        onError?.(`[sync][remote][snapshot] ${message}`);
+        throw error;
+      }
+    },
+    publishSnapshot: async (request) => {
+      try {
+        const payload = await requestJson(`${baseUrl}/sync/snapshot`, {
+          method: "POST",
+          headers: buildHeaders(sessionToken),
+          body: JSON.stringify(request),
+        });
+        const serverSeq = isRecord(payload) ? Number(payload.server_seq) : NaN;
+        return { server_seq: Number.isFinite(serverSeq) ? serverSeq : request.server_seq };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        onError?.(`[sync][remote][snapshot] ${message}`);
+        throw error;
+      }
+    },
   };
 };
 
@@ -242,5 +503,12 @@ export const createSyncTransport = (
     mode: "mock",
     push: async (request) => args.mockPush(request),
     pull: async (request) => args.mockPull(request),
+    // The mock log lives in this database, so there is nothing to listen to.
+    subscribe: () => ({ close: () => {} }),
+    // The mock log is never compacted, so a full pull is always available.
+    fetchSnapshot: async () => null,
+    publishSnapshot: async () => {
+      throw new Error("Sync snapshots require remote sync mode.");
+    },
   };
 };
@@ -6,17 +6,65 @@ export type PushRequest = {
   ops: OpEnvelope[];
 };
 
+// Mirrors the sync server's reject reasons; `code` is null when a server
+// only sent a message.
+export type OpRejectReasonCode =
+  | "validation_failed"
+  | "cross_team_access"
+  | "unknown_op"
+  | "insufficient_role";
+
+export const isOpRejectReasonCode = (value: unknown): value is OpRejectReasonCode =>
+  value === "validation_failed" ||
+  value === "cross_team_access" ||
+  value === "unknown_op" ||
+  value === "insufficient_role";
+
+/**
+ * Rejects that mean the change conflicts with the team's state, so the client
+ * rolls it back. `validation_failed` and `unknown_op` (or no code at all)
+ * point to a client and server on different versions instead; rolling back
+ * would throw away work the server may accept once they match.
+ */
+export const isConflictRejectCode = (code: OpRejectReasonCode | null) =>
+  code === "cross_team_access" || code === "insufficient_role";
+
 export type PushResponse = {
   acked: Array<{ op_id: string; server_seq: number }>;
-  rejected: Array<{ op_id: string; reason: string }>;
+  rejected: Array<{ op_id: string; reason: string; code: OpRejectReasonCode | null }>;
 };
 
 export type PullRequest = {
   team_id: string;
   since_seq: number;
+  /** Only ops touching these projects (plus team-wide ops); all when absent. */
+  project_ids?: string[];
 };
 
 export type PullResponse = {
   ops: Array<{ server_seq: number; op: OpEnvelope }>;
   latest_seq: number;
+  /**
+   * The server looked at every op up to here. A filtered pull can return
+   * nothing yet still move this forward, so clients keep it as their cursor.
+   */
+  through_seq?: number;
+  /** Set when since_seq is older than the server's compacted log. */
+  snapshot_required?: boolean;
+};
+
+// A team's state as of `server_seq`, in the `export_data` shape.
+export type SyncSnapshot = {
+  team_id: string;
+  server_seq: number;
+  format_version: number;
+  created_at: string;
+  payload: Record<string, unknown>;
+};
+
+export type PublishSnapshotRequest = {
+  team_id: string;
+  server_seq: number;
+  format_version: number;
+  snapshot: Record<string, unknown>;
 };
@@ -8,12 +8,18 @@ import CalendarView from "./CalendarView";
 import DashboardView from "./DashboardView";
 import GanttView from "./GanttView";
 import KanbanView from "./KanbanView";
+import ReportsView from "./ReportsView";
+import TimesheetView from "./TimesheetView";
 import AddItemForm from "./AddItemForm";
 import RightSheet from "./RightSheet";
+import ItemHistoryTimeline from "./ItemHistoryTimeline";
+import ItemConflictsPanel from "./ItemConflictsPanel";
+import SyncDiscardedNotice from "./SyncDiscardedNotice";
 import CommandPalette from "./CommandPalette";
 import SettingsWindow from "./SettingsWindow";
-import { AppButton, AppSelect } from "./controls";
-import { mutate, query } from "../rpc/clientSingleton";
+import { AppButton, AppInput, AppSelect } from "./controls";
+import { mutate, onWorkerEvent, query } from "../rpc/clientSingleton";
+import { TAB_INVALIDATE_EVENT, TAB_ROLE_EVENT } from "../rpc/tabCoordinator";
 import {
   authProvider,
   getAuthRemoteBaseUrl,
@@ -21,6 +27,11 @@ import {
 } from "../auth/authProvider";
 import type { ListItem } from "../domain/listTypes";
 import type { Scope } from "../domain/scope";
+import {
+  DEFAULT_SAVED_VIEW_STATE,
+  type SavedView,
+  type SavedViewState,
+} from "../domain/savedViews";
 import {
   applySemanticColorVars,
   normalizeSemanticColorMap,
@@ -36,6 +47,7 @@ import {
   normalizeTypographySettings,
 } from "../domain/typographySettings";
 import { ScopeProvider } from "./ScopeContext";
+import { TimeZoneProvider } from "./TimeZoneContext";
 import type {
   AuthSessionCurrentResult,
   AuthSessionOptionsResult,
@@ -70,6 +82,17 @@ const parseInviteTokenFromLocation = () => {
   return decodeURIComponent(match[1]);
 };
 
+const parseItemIdFromLocation = () => {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const match = window.location.pathname.match(/^\/item\/([^/]+)$/);
+  if (!match?.[1]) {
+    return null;
+  }
+  return decodeURIComponent(match[1]);
+};
+
 const readCookie = (name: string) => {
   if (typeof document === "undefined") {
     return "";
@@ -99,6 +122,8 @@ const App = () => {
   const [error, setError] = useState<string | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [refreshToken, setRefreshToken] = useState(0);
+  // Bumped when a sync conflict is resolved so the open form reloads the item.
+  const [sheetRevision, setSheetRevision] = useState(0);
   const [sheetOpen, setSheetOpen] = useState(false);
   const [sheetType, setSheetType] = useState<"project" | "milestone" | "task">(
     "task"
@@ -108,7 +133,7 @@ const App = () => {
   const [sheetFocusTitle, setSheetFocusTitle] = useState(false);
   const [paletteOpen, setPaletteOpen] = useState(false);
   const [activeView, setActiveView] = useState<
-    "list" | "calendar" | "gantt" | "kanban" | "dashboard"
+    "list" | "calendar" | "gantt" | "kanban" | "dashboard" | "timesheet" | "reports"
   >("list");
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [authCurrent, setAuthCurrent] = useState<AuthSessionCurrentResult | null>(
@@ -126,6 +151,17 @@ const App = () => {
   const [pendingInviteToken, setPendingInviteToken] = useState<string | null>(
     () => parseInviteTokenFromLocation()
   );
+  const [pendingItemId, setPendingItemId] = useState<string | null>(() =>
+    parseItemIdFromLocation()
+  );
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [activeSavedViewId, setActiveSavedViewId] = useState<string | null>(null);
+  const [savedViewOpenCount, setSavedViewOpenCount] = useState(0);
+  const [savingViewName, setSavingViewName] = useState<string | null>(null);
+  const [savedViewError, setSavedViewError] = useState<string | null>(null);
+  const [listViewState, setListViewState] = useState<SavedViewState>(
+    DEFAULT_SAVED_VIEW_STATE
+  );
   const [inviteStatusMessage, setInviteStatusMessage] = useState<string | null>(
     null
   );
@@ -135,6 +171,7 @@ const App = () => {
 
   const activeSession = authCurrent?.session ?? null;
   const activeSessionId = activeSession?.session_id ?? null;
+  const activeTeamId = activeSession?.team_id ?? null;
 
   const refreshAuth = useCallback(async () => {
     const current = await authProvider.getSession();
@@ -212,6 +249,14 @@ const App = () => {
     setProjectTitleById(next);
   }, []);
 
+  const loadSavedViews = useCallback(async () => {
+    const data = await query<{ views: SavedView[] }>("saved_views_list", {});
+    setSavedViews(data.views);
+    setActiveSavedViewId((prev) =>
+      prev && data.views.some((view) => view.view_id === prev) ? prev : null
+    );
+  }, []);
+
   const loadUsers = useCallback(async () => {
     setUsersError(null);
     try {
@@ -277,6 +322,51 @@ const App = () => {
     };
   }, [refreshAuth]);
 
+  useEffect(() => {
+    if (!activeSessionId || !activeTeamId) {
+      return;
+    }
+    // Teammates' changes arrive through the worker's sync stream; reload the
+    // views whenever a background sync applied something.
+    const startStream = () => {
+      query("sync.stream.start", {}).catch((err) => {
+        console.warn("[sync] stream start failed", err);
+      });
+    };
+    const unsubscribe = onWorkerEvent((event) => {
+      if (event.name === "sync.applied") {
+        triggerRefresh();
+      }
+      // A tab that takes over the database starts a fresh worker, which has
+      // no stream until asked.
+      if (
+        event.name === TAB_ROLE_EVENT &&
+        (event.payload as { role?: string } | undefined)?.role === "leader"
+      ) {
+        startStream();
+      }
+    });
+    startStream();
+    return () => {
+      unsubscribe();
+      query("sync.stream.stop", {}).catch(() => {
+        // The worker drops the stream on logout anyway.
+      });
+    };
+  }, [activeSessionId, activeTeamId, triggerRefresh]);
+
+  useEffect(
+    () =>
+      // Mutations made in other tabs arrive as invalidations from the tab
+      // that owns the database.
+      onWorkerEvent((event) => {
+        if (event.name === TAB_INVALIDATE_EVENT) {
+          triggerRefresh();
+        }
+      }),
+    [triggerRefresh]
+  );
+
   useEffect(() => {
     if (!activeSessionId || !pendingInviteToken) {
       return;
@@ -338,6 +428,18 @@ const App = () => {
     });
   }, [activeSessionId, loadProjectTitleIndex, refreshToken]);
 
+  useEffect(() => {
+    if (!activeSessionId) {
+      setSavedViews([]);
+      setActiveSavedViewId(null);
+      return;
+    }
+    loadSavedViews().catch((err) => {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setSavedViewError(message);
+    });
+  }, [activeSessionId, loadSavedViews, refreshToken]);
+
   useEffect(() => {
     if (!activeSessionId) {
       setUsers([]);
@@ -408,6 +510,42 @@ const App = () => {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, [activeSessionId, sheetOpen]);
 
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.code !== "KeyZ" ||
+        !(event.metaKey || event.ctrlKey) ||
+        event.altKey ||
+        sheetOpen ||
+        !activeSessionId
+      ) {
+        return;
+      }
+      // Text fields keep their native undo.
+      const target = event.target;
+      if (
+        target instanceof Element &&
+        target.closest("input, textarea, select, [contenteditable='true']")
+      ) {
+        return;
+      }
+      event.preventDefault();
+      const opName = event.shiftKey ? "history.redo" : "history.undo";
+      mutate(opName, {})
+        .then(() => {
+          setError(null);
+          triggerRefresh();
+        })
+        .catch((err) => {
+          const message = err instanceof Error ? err.message : "Unknown error";
+          setError(message);
+          triggerRefresh();
+        });
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [activeSessionId, sheetOpen, triggerRefresh]);
+
   const selectedProject = useMemo(() => {
     if (selectedProjectId === UNGROUPED_PROJECT_ID) {
       return { id: UNGROUPED_PROJECT_ID, title: UNGROUPED_PROJECT_LABEL };
@@ -517,6 +655,10 @@ const App = () => {
         return "Kanban";
       case "gantt":
         return "Gantt";
+      case "timesheet":
+        return "Timesheet";
+      case "reports":
+        return "Reports";
       default:
         return "View";
     }
@@ -656,6 +798,7 @@ const App = () => {
       if (!projectId) {
         return;
       }
+      setActiveSavedViewId(null);
       setSelectedProjectId(projectId);
       setScope({ kind: "project", projectId });
     },
@@ -673,10 +816,96 @@ const App = () => {
   }, []);
 
   const handleSelectUser = useCallback((userId: string) => {
+    setActiveSavedViewId(null);
     setSelectedUserId(userId);
     setScope({ kind: "user", userId });
   }, []);
 
+  const activeSavedView = useMemo(
+    () => savedViews.find((view) => view.view_id === activeSavedViewId) ?? null,
+    [activeSavedViewId, savedViews]
+  );
+
+  const handleOpenSavedView = useCallback((view: SavedView) => {
+    setActiveView(view.view_type);
+    if (view.scope.kind === "user") {
+      setSelectedUserId(view.scope.userId);
+      setScope(view.scope);
+    } else {
+      const projectId = view.scope.projectId ?? UNGROUPED_PROJECT_ID;
+      setSelectedProjectId(projectId);
+      setScope({ kind: "project", projectId });
+    }
+    setSavedViews((prev) =>
+      prev.some((entry) => entry.view_id === view.view_id) ? prev : [...prev, view]
+    );
+    setActiveSavedViewId(view.view_id);
+    setSavedViewOpenCount((count) => count + 1);
+  }, []);
+
+  const currentViewState = useMemo(
+    () => (activeView === "list" ? listViewState : DEFAULT_SAVED_VIEW_STATE),
+    [activeView, listViewState]
+  );
+
+  const handleCreateSavedView = useCallback(async () => {
+    const name = savingViewName?.trim() ?? "";
+    if (!name) {
+      return;
+    }
+    setSavedViewError(null);
+    try {
+      const created = await mutate<{ view_id: string }>("saved_view.create", {
+        name,
+        view_type: activeView,
+        scope: activeScope,
+        state: currentViewState,
+      });
+      setSavingViewName(null);
+      setActiveSavedViewId(created.view_id);
+      await loadSavedViews();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setSavedViewError(message);
+    }
+  }, [activeScope, activeView, currentViewState, loadSavedViews, savingViewName]);
+
+  const handleUpdateSavedView = useCallback(async () => {
+    if (!activeSavedView) {
+      return;
+    }
+    setSavedViewError(null);
+    try {
+      await mutate("saved_view.update", {
+        view_id: activeSavedView.view_id,
+        view_type: activeView,
+        scope: activeScope,
+        state: currentViewState,
+      });
+      await loadSavedViews();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setSavedViewError(message);
+    }
+  }, [activeSavedView, activeScope, activeView, currentViewState, loadSavedViews]);
+
+  const handleDeleteSavedView = useCallback(
+    async (view: SavedView) => {
+      if (!confirm(`Delete saved view ${view.name}?`)) {
+        return;
+      }
+      setSavedViewError(null);
+      try {
+        await mutate("saved_view.delete", { view_id: view.view_id });
+        await loadSavedViews();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        setSavedViewError(message);
+      }
+    },
+    [loadSavedViews]
+  );
+
   const handleDeleteProjectById = useCallback(
     async (projectId: string, projectTitle: string) => {
       if (!projectId || projectId === UNGROUPED_PROJECT_ID) {
@@ -722,6 +951,15 @@ const App = () => {
     setSheetOpen(true);
   }, []);
 
+  useEffect(() => {
+    if (!activeSessionId || !pendingItemId) {
+      return;
+    }
+    openTaskEditor(pendingItemId);
+    setPendingItemId(null);
+    window.history.replaceState({}, "", "/");
+  }, [activeSessionId, openTaskEditor, pendingItemId]);
+
   const handleDashboardItemSelect = useCallback(
     (itemId: string, projectId: string | null) => {
       if (activeScope.kind !== "user") {
@@ -762,346 +1000,458 @@ const App = () => {
 
   return (
     <ScopeProvider scope={activeScope} setScope={setScope}>
-      <div className="app-root">
-        <div className="layout">
-          {activeSessionId ? (
-            <SidebarProjects
-              scope={activeScope}
-              selectedProjectId={selectedProjectId}
-              onSelect={handleSelectProject}
-              onSetProjectId={handleSetProjectId}
-              refreshToken={refreshToken}
-              onAddProject={() => openSheet("project")}
-              onDeleteProject={handleDeleteProjectById}
-              users={users}
-              usersError={usersError}
-              onSelectUser={handleSelectUser}
-              currentUserName={activeUserLabel}
-              onOpenSettings={() => setSettingsOpen(true)}
-            />
-          ) : (
-            <aside className="sidebar sidebar-signed-out">
-              <div className="sidebar-title">Workspace</div>
-              <div className="sidebar-empty">Sign in to view projects and team calendars.</div>
-            </aside>
-          )}
-          <main className="main">
-            <div className="top-strip">
-              <div className="top-strip-row">
-                <div className="top-strip-tabs">
-                  <Tabs.Root
-                    value={activeView}
-                    onValueChange={(value) =>
-                      setActiveView(value as typeof activeView)
-                    }
-                  >
-                    <Tabs.List className="top-tabs">
-                      <Tabs.Trigger value="dashboard">Dashboard</Tabs.Trigger>
-                      <Tabs.Trigger value="list">List</Tabs.Trigger>
-                      <Tabs.Trigger value="calendar">Calendar</Tabs.Trigger>
-                      <Tabs.Trigger value="kanban">Kanban</Tabs.Trigger>
-                      <Tabs.Trigger value="gantt">Gantt</Tabs.Trigger>
-                    </Tabs.List>
-                  </Tabs.Root>
+      <TimeZoneProvider userTimeZone={authCurrent?.user?.time_zone ?? null}>
+        <div className="app-root">
+          <div className="layout">
+            {activeSessionId ? (
+              <SidebarProjects
+                scope={activeScope}
+                selectedProjectId={selectedProjectId}
+                onSelect={handleSelectProject}
+                onSetProjectId={handleSetProjectId}
+                refreshToken={refreshToken}
+                onAddProject={() => openSheet("project")}
+                onDeleteProject={handleDeleteProjectById}
+                users={users}
+                usersError={usersError}
+                onSelectUser={handleSelectUser}
+                savedViews={savedViews}
+                activeSavedViewId={activeSavedViewId}
+                onOpenSavedView={handleOpenSavedView}
+                onDeleteSavedView={(view) => void handleDeleteSavedView(view)}
+                currentUserName={activeUserLabel}
+                onOpenSettings={() => setSettingsOpen(true)}
+              />
+            ) : (
+              <aside className="sidebar sidebar-signed-out">
+                <div className="sidebar-title">Workspace</div>
+                <div className="sidebar-empty">Sign in to view projects and team calendars.</div>
+              </aside>
+            )}
+            <main className="main">
+              <div className="top-strip">
+                <div className="top-strip-row">
+                  <div className="top-strip-tabs">
+                    <Tabs.Root
+                      value={activeView}
+                      onValueChange={(value) =>
+                        setActiveView(value as typeof activeView)
+                      }
+                    >
+                      <Tabs.List className="top-tabs">
+                        <Tabs.Trigger value="dashboard">Dashboard</Tabs.Trigger>
+                        <Tabs.Trigger value="list">List</Tabs.Trigger>
+                        <Tabs.Trigger value="calendar">Calendar</Tabs.Trigger>
+                        <Tabs.Trigger value="kanban">Kanban</Tabs.Trigger>
+                        <Tabs.Trigger value="gantt">Gantt</Tabs.Trigger>
+                        <Tabs.Trigger value="timesheet">Timesheet</Tabs.Trigger>
+                        <Tabs.Trigger value="reports">Reports</Tabs.Trigger>
+                      </Tabs.List>
+                    </Tabs.Root>
+                  </div>
+                  <div className="top-strip-right">
+                    <div className="account-control">
+                      <AppButton
+                        type="button"
+                        variant="surface"
+                        className="account-trigger"
+                        onClick={() => {
+                          if (activeSessionId) {
+                            setAccountOpen((open) => !open);
+                            return;
+                          }
+                          setAuthActionError(null);
+                          void authProvider
+                            .signIn()
+                            .then((result) => {
+                              if (
+                                result.status === "picker_required" &&
+                                authProvider.mode === "local"
+                              ) {
+                                setAccountOpen(true);
+                              }
+                            })
+                            .catch((err) => {
+                              const message =
+                                err instanceof Error ? err.message : "Unknown error";
+                              setAuthActionError(message);
+                            });
+                        }}
+                      >
+                        {activeSessionId
+                          ? `${activeUserLabel} · ${activeTeamLabel}`
+                          : "Account"}
+                      </AppButton>
+                      {accountOpen ? (
+                        <div className="account-menu">
+                          {isClerkMode ? (
+                            <>
+                              <div className="account-menu-label">User</div>
+                              <div>{activeUserLabel}</div>
+                            </>
+                          ) : (
+                            <>
+                              <div className="account-menu-label">User</div>
+                              <AppSelect
+                                value={accountUserId}
+                                onChange={setAccountUserId}
+                                options={authOptions.users.map((user) => ({
+                                  value: user.user_id,
+                                  label: user.display_name,
+                                }))}
+                                placeholder="Choose user"
+                              />
+                            </>
+                          )}
+                          <div className="account-menu-label">Team</div>
+                          <AppSelect
+                            value={accountTeamId}
+                            onChange={setAccountTeamId}
+                            options={accountTeamOptions.map((team) => ({
+                              value: team.team_id,
+                              label: team.name,
+                            }))}
+                            placeholder="Choose team"
+                          />
+                          <div className="account-menu-actions">
+                            <AppButton
+                              type="button"
+                              variant="surface"
+                              onClick={() => {
+                                void applySessionSelection();
+                              }}
+                              disabled={authBusy || !canApplySession || !accountTeamId}
+                            >
+                              {isClerkMode ? "Switch team" : "Switch"}
+                            </AppButton>
+                            <AppButton
+                              type="button"
+                              variant="surface"
+                              onClick={() => {
+                                void handleSignOut();
+                              }}
+                              disabled={!activeSessionId || authBusy}
+                            >
+                              Sign out
+                            </AppButton>
+                          </div>
+                          {authActionError ? (
+                            <div className="error">{authActionError}</div>
+                          ) : null}
+                        </div>
+                      ) : null}
+                    </div>
+                  </div>
                 </div>
-                <div className="top-strip-right">
-                  <div className="account-control">
+              </div>
+              <div className="main-content">
+                {authLoading ? (
+                  <div className="auth-state-message">Loading session...</div>
+                ) : null}
+                {authError ? <div className="error">{authError}</div> : null}
+                {!authLoading && !activeSessionId ? (
+                  <div className="signed-out-panel">
+                    <div className="signed-out-title">Signed out</div>
+                    <div className="signed-out-help">
+                      {isClerkMode
+                        ? "Sign in with Clerk to open your workspace."
+                        : "Choose a local user and team to start a dev session."}
+                    </div>
+                    {pendingInviteToken ? (
+                      <div className="signed-out-help">
+                        Invite detected. Sign in to accept it automatically.
+                      </div>
+                    ) : null}
+                    {isClerkMode ? null : (
+                      <>
+                        <div className="signed-out-field">
+                          <div className="account-menu-label">User</div>
+                          <AppSelect
+                            value={accountUserId}
+                            onChange={setAccountUserId}
+                            options={authOptions.users.map((user) => ({
+                              value: user.user_id,
+                              label: user.display_name,
+                            }))}
+                            placeholder="Choose user"
+                          />
+                        </div>
+                        <div className="signed-out-field">
+                          <div className="account-menu-label">Team</div>
+                          <AppSelect
+                            value={accountTeamId}
+                            onChange={setAccountTeamId}
+                            options={accountTeamOptions.map((team) => ({
+                              value: team.team_id,
+                              label: team.name,
+                            }))}
+                            placeholder="Choose team"
+                          />
+                        </div>
+                      </>
+                    )}
                     <AppButton
                       type="button"
                       variant="surface"
-                      className="account-trigger"
                       onClick={() => {
-                        if (activeSessionId) {
-                          setAccountOpen((open) => !open);
+                        if (isClerkMode) {
+                          setAuthActionError(null);
+                          setAuthBusy(true);
+                          void authProvider
+                            .signIn()
+                            .catch((err) => {
+                              const message =
+                                err instanceof Error ? err.message : "Unknown error";
+                              setAuthActionError(message);
+                            })
+                            .finally(() => setAuthBusy(false));
                           return;
                         }
-                        setAuthActionError(null);
-                        void authProvider
-                          .signIn()
-                          .then((result) => {
-                            if (
-                              result.status === "picker_required" &&
-                              authProvider.mode === "local"
-                            ) {
-                              setAccountOpen(true);
-                            }
-                          })
-                          .catch((err) => {
-                            const message =
-                              err instanceof Error ? err.message : "Unknown error";
-                            setAuthActionError(message);
-                          });
+                        void applySessionSelection();
                       }}
+                      disabled={
+                        authBusy ||
+                        (!isClerkMode && (!accountUserId || !accountTeamId))
+                      }
                     >
-                      {activeSessionId
-                        ? `${activeUserLabel} · ${activeTeamLabel}`
-                        : "Account"}
+                      {isClerkMode ? "Sign in with Clerk" : "Start session"}
                     </AppButton>
-                    {accountOpen ? (
-                      <div className="account-menu">
-                        {isClerkMode ? (
-                          <>
-                            <div className="account-menu-label">User</div>
-                            <div>{activeUserLabel}</div>
-                          </>
+                    {authActionError ? <div className="error">{authActionError}</div> : null}
+                  </div>
+                ) : null}
+                {activeSessionId ? (
+                  <>
+                    {inviteStatusMessage ? (
+                      <div className="auth-state-message">{inviteStatusMessage}</div>
+                    ) : null}
+                    {inviteStatusError ? <div className="error">{inviteStatusError}</div> : null}
+                    <div className="top-title-row">
+                      <div className="top-title">
+                        {activeSavedView ? `${activeSavedView.name} · ` : ""}
+                        {activeViewLabel} · {activeScopeLabel}
+                      </div>
+                      <div className="saved-view-actions">
+                        {savingViewName !== null ? (
+                          <form
+                            className="saved-view-form"
+                            onSubmit={(event) => {
+                              event.preventDefault();
+                              void handleCreateSavedView();
+                            }}
+                          >
+                            <AppInput
+                              autoFocus
+                              value={savingViewName}
+                              placeholder="View name"
+                              aria-label="Saved view name"
+                              onChange={(event) => setSavingViewName(event.target.value)}
+                            />
+                            <AppButton type="submit" variant="surface">
+                              Save
+                            </AppButton>
+                            <AppButton
+                              type="button"
+                              variant="ghost"
+                              onClick={() => setSavingViewName(null)}
+                            >
+                              Cancel
+                            </AppButton>
+                          </form>
                         ) : (
                           <>
-                            <div className="account-menu-label">User</div>
-                            <AppSelect
-                              value={accountUserId}
-                              onChange={setAccountUserId}
-                              options={authOptions.users.map((user) => ({
-                                value: user.user_id,
-                                label: user.display_name,
-                              }))}
-                              placeholder="Choose user"
-                            />
+                            {activeSavedView ? (
+                              <AppButton
+                                type="button"
+                                variant="ghost"
+                                onClick={() => void handleUpdateSavedView()}
+                              >
+                                Update view
+                              </AppButton>
+                            ) : null}
+                            <AppButton
+                              type="button"
+                              variant="ghost"
+                              onClick={() => setSavingViewName("")}
+                            >
+                              Save as view…
+                            </AppButton>
                           </>
                         )}
-                        <div className="account-menu-label">Team</div>
-                        <AppSelect
-                          value={accountTeamId}
-                          onChange={setAccountTeamId}
-                          options={accountTeamOptions.map((team) => ({
-                            value: team.team_id,
-                            label: team.name,
-                          }))}
-                          placeholder="Choose team"
-                        />
-                        <div className="account-menu-actions">
-                          <AppButton
-                            type="button"
-                            variant="surface"
-                            onClick={() => {
-                              void applySessionSelection();
-                            }}
-                            disabled={authBusy || !canApplySession || !accountTeamId}
-                          >
-                            {isClerkMode ? "Switch team" : "Switch"}
-                          </AppButton>
-                          <AppButton
-                            type="button"
-                            variant="surface"
-                            onClick={() => {
-                              void handleSignOut();
-                            }}
-                            disabled={!activeSessionId || authBusy}
-                          >
-                            Sign out
-                          </AppButton>
-                        </div>
-                        {authActionError ? (
-                          <div className="error">{authActionError}</div>
-                        ) : null}
                       </div>
-                    ) : null}
-                  </div>
-                </div>
-              </div>
-            </div>
-            <div className="main-content">
-              {authLoading ? (
-                <div className="auth-state-message">Loading session...</div>
-              ) : null}
-              {authError ? <div className="error">{authError}</div> : null}
-              {!authLoading && !activeSessionId ? (
-                <div className="signed-out-panel">
-                  <div className="signed-out-title">Signed out</div>
-                  <div className="signed-out-help">
-                    {isClerkMode
-                      ? "Sign in with Clerk to open your workspace."
-                      : "Choose a local user and team to start a dev session."}
-                  </div>
-                  {pendingInviteToken ? (
-                    <div className="signed-out-help">
-                      Invite detected. Sign in to accept it automatically.
                     </div>
-                  ) : null}
-                  {isClerkMode ? null : (
-                    <>
-                      <div className="signed-out-field">
-                        <div className="account-menu-label">User</div>
-                        <AppSelect
-                          value={accountUserId}
-                          onChange={setAccountUserId}
-                          options={authOptions.users.map((user) => ({
-                            value: user.user_id,
-                            label: user.display_name,
-                          }))}
-                          placeholder="Choose user"
-                        />
+                    {savedViewError ? <div className="error">{savedViewError}</div> : null}
+                    {activeScope.kind === "project" && activeView !== "dashboard" ? (
+                      <div className="title-actions">
+                        <AppButton
+                          type="button"
+                          variant="surface"
+                          onClick={() => openSheet("milestone")}
+                        >
+                          New Milestone
+                        </AppButton>
                       </div>
-                      <div className="signed-out-field">
-                        <div className="account-menu-label">Team</div>
-                        <AppSelect
-                          value={accountTeamId}
-                          onChange={setAccountTeamId}
-                          options={accountTeamOptions.map((team) => ({
-                            value: team.team_id,
-                            label: team.name,
-                          }))}
-                          placeholder="Choose team"
+                    ) : null}
+                    {deleteError ? <div className="error">{deleteError}</div> : null}
+                    {error ? <div className="error">{error}</div> : null}
+                    <SyncDiscardedNotice
+                      refreshToken={refreshToken}
+                      onDismissed={triggerRefresh}
+                    />
+                    <div className="view-stack">
+                      <section
+                        className={`view-panel${activeView === "dashboard" ? " is-active" : ""}`}
+                        aria-hidden={activeView !== "dashboard"}
+                      >
+                        <DashboardView
+                          scope={activeScope}
+                          refreshToken={refreshToken}
+                          onSelectItem={handleDashboardItemSelect}
                         />
-                      </div>
-                    </>
-                  )}
-                  <AppButton
-                    type="button"
-                    variant="surface"
-                    onClick={() => {
-                      if (isClerkMode) {
-                        setAuthActionError(null);
-                        setAuthBusy(true);
-                        void authProvider
-                          .signIn()
-                          .catch((err) => {
-                            const message =
-                              err instanceof Error ? err.message : "Unknown error";
-                            setAuthActionError(message);
-                          })
-                          .finally(() => setAuthBusy(false));
-                        return;
-                      }
-                      void applySessionSelection();
-                    }}
-                    disabled={
-                      authBusy ||
-                      (!isClerkMode && (!accountUserId || !accountTeamId))
-                    }
-                  >
-                    {isClerkMode ? "Sign in with Clerk" : "Start session"}
-                  </AppButton>
-                  {authActionError ? <div className="error">{authActionError}</div> : null}
-                </div>
-              ) : null}
-              {activeSessionId ? (
-                <>
-                  {inviteStatusMessage ? (
-                    <div className="auth-state-message">{inviteStatusMessage}</div>
-                  ) : null}
-                  {inviteStatusError ? <div className="error">{inviteStatusError}</div> : null}
-                  <div className="top-title-row">
-                    <div className="top-title">
-                      {activeViewLabel} · {activeScopeLabel}
-                    </div>
-                  </div>
-                  {activeScope.kind === "project" && activeView !== "dashboard" ? (
-                    <div className="title-actions">
-                      <AppButton
-                        type="button"
-                        variant="surface"
-                        onClick={() => openSheet("milestone")}
+                      </section>
+                      <section
+                        className={`view-panel${activeView === "list" ? " is-active" : ""}`}
+                        aria-hidden={activeView !== "list"}
                       >
-                        New Milestone
-                      </AppButton>
+                        <ListView
+                          scope={activeScope}
+                          refreshToken={refreshToken}
+                          onRefresh={triggerRefresh}
+                          onOpenItem={openTaskEditor}
+                          viewState={
+                            activeSavedView?.view_type === "list"
+                              ? activeSavedView.state
+                              : null
+                          }
+                          viewStateKey={
+                            activeSavedView?.view_type === "list"
+                              ? `${activeSavedView.view_id}:${savedViewOpenCount}`
+                              : null
+                          }
+                          onViewStateChange={setListViewState}
+                        />
+                      </section>
+                      <section
+                        className={`view-panel${activeView === "kanban" ? " is-active" : ""}`}
+                        aria-hidden={activeView !== "kanban"}
+                      >
+                        <KanbanView
+                          scope={activeScope}
+                          refreshToken={refreshToken}
+                          onRefresh={triggerRefresh}
+                          onOpenItem={openTaskEditor}
+                        />
+                      </section>
+                      <section
+                        className={`view-panel${activeView === "calendar" ? " is-active" : ""}`}
+                        aria-hidden={activeView !== "calendar"}
+                      >
+                        <CalendarView
+                          scope={activeScope}
+                          projectItems={projectItems}
+                          refreshToken={refreshToken}
+                          onRefresh={triggerRefresh}
+                          onOpenItem={openTaskEditor}
+                        />
+                      </section>
+                      <section
+                        className={`view-panel${activeView === "gantt" ? " is-active" : ""}`}
+                        aria-hidden={activeView !== "gantt"}
+                      >
+                        <GanttView
+                          scope={activeScope}
+                          refreshToken={refreshToken}
+                          onRefresh={triggerRefresh}
+                          onOpenItem={openTaskEditor}
+                        />
+                      </section>
+                      <section
+                        className={`view-panel${activeView === "timesheet" ? " is-active" : ""}`}
+                        aria-hidden={activeView !== "timesheet"}
+                      >
+                        <TimesheetView
+                          scope={activeScope}
+                          refreshToken={refreshToken}
+                          onRefresh={triggerRefresh}
+                          onOpenItem={openTaskEditor}
+                        />
+                      </section>
+                      <section
+                        className={`view-panel${activeView === "reports" ? " is-active" : ""}`}
+                        aria-hidden={activeView !== "reports"}
+                      >
+                        <ReportsView
+                          scope={activeScope}
+                          refreshToken={refreshToken}
+                          onOpenItem={openTaskEditor}
+                        />
+                      </section>
                     </div>
-                  ) : null}
-                  {deleteError ? <div className="error">{deleteError}</div> : null}
-                  {error ? <div className="error">{error}</div> : null}
-                  <div className="view-stack">
-                    <section
-                      className={`view-panel${activeView === "dashboard" ? " is-active" : ""}`}
-                      aria-hidden={activeView !== "dashboard"}
-                    >
-                      <DashboardView
-                        scope={activeScope}
-                        refreshToken={refreshToken}
-                        onSelectItem={handleDashboardItemSelect}
-                      />
-                    </section>
-                    <section
-                      className={`view-panel${activeView === "list" ? " is-active" : ""}`}
-                      aria-hidden={activeView !== "list"}
-                    >
-                      <ListView
-                        scope={activeScope}
-                        refreshToken={refreshToken}
-                        onRefresh={triggerRefresh}
-                        onOpenItem={openTaskEditor}
-                      />
-                    </section>
-                    <section
-                      className={`view-panel${activeView === "kanban" ? " is-active" : ""}`}
-                      aria-hidden={activeView !== "kanban"}
-                    >
-                      <KanbanView
-                        scope={activeScope}
-                        refreshToken={refreshToken}
-                        onRefresh={triggerRefresh}
-                        onOpenItem={openTaskEditor}
-                      />
-                    </section>
-                    <section
-                      className={`view-panel${activeView === "calendar" ? " is-active" : ""}`}
-                      aria-hidden={activeView !== "calendar"}
-                    >
-                      <CalendarView
-                        scope={activeScope}
-                        projectItems={projectItems}
-                        refreshToken={refreshToken}
-                        onRefresh={triggerRefresh}
-                        onOpenItem={openTaskEditor}
-                      />
-                    </section>
-                    <section
-                      className={`view-panel${activeView === "gantt" ? " is-active" : ""}`}
-                      aria-hidden={activeView !== "gantt"}
-                    >
-                      <GanttView
-                        scope={activeScope}
-                        refreshToken={refreshToken}
-                        onRefresh={triggerRefresh}
-                        onOpenItem={openTaskEditor}
-                      />
-                    </section>
-                  </div>
-                </>
-              ) : null}
-            </div>
-            <RightSheet
-              open={sheetOpen && !!activeSessionId}
-              onOpenChange={handleSheetOpenChange}
-              title={sheetMode === "edit" ? "Edit task" : `New ${sheetType}`}
-            >
-              <AddItemForm
-                key={`${sheetMode}-${sheetType}-${selectedProjectId ?? "none"}-${sheetItemId ?? "none"}`}
+                  </>
+                ) : null}
+              </div>
+              <RightSheet
+                open={sheetOpen && !!activeSessionId}
+                onOpenChange={handleSheetOpenChange}
+                title={sheetMode === "edit" ? "Edit task" : `New ${sheetType}`}
+              >
+                <AddItemForm
+                  key={`${sheetMode}-${sheetType}-${selectedProjectId ?? "none"}-${sheetItemId ?? "none"}-${sheetRevision}`}
+                  selectedProjectId={selectedProjectId}
+                  items={projectItems}
+                  onRefresh={triggerRefresh}
+                  initialType={sheetType}
+                  initialMode={sheetMode}
+                  initialItemId={sheetItemId}
+                  autoFocusTitle={sheetFocusTitle}
+                  onCreated={() => {
+                    handleSheetOpenChange(false);
+                  }}
+                  onDeleted={() => {
+                    handleSheetOpenChange(false);
+                  }}
+                />
+                {sheetMode === "edit" && sheetItemId ? (
+                  <>
+                    <ItemConflictsPanel
+                      itemId={sheetItemId}
+                      refreshToken={refreshToken}
+                      onResolved={() => {
+                        setSheetRevision((value) => value + 1);
+                        triggerRefresh();
+                      }}
+                    />
+                    <ItemHistoryTimeline
+                      itemId={sheetItemId}
+                      refreshToken={refreshToken}
+                    />
+                  </>
+                ) : null}
+              </RightSheet>
+              <CommandPalette
+                open={paletteOpen && !!activeSessionId}
+                onOpenChange={setPaletteOpen}
                 selectedProjectId={selectedProjectId}
-                items={projectItems}
-                onRefresh={triggerRefresh}
-                initialType={sheetType}
-                initialMode={sheetMode}
-                initialItemId={sheetItemId}
-                autoFocusTitle={sheetFocusTitle}
-                onCreated={() => {
-                  handleSheetOpenChange(false);
-                }}
-                onDeleted={() => {
-                  handleSheetOpenChange(false);
-                }}
+                onCreated={triggerRefresh}
+                onOpenProject={handleOpenProjectFromCommand}
+                onOpenView={setActiveView}
+                onOpenItem={openTaskEditor}
+                onOpenSavedView={handleOpenSavedView}
+              />
+              <SettingsWindow
+                open={settingsOpen && !!activeSessionId}
+                onOpenChange={setSettingsOpen}
+                onSettingsChanged={triggerRefresh}
+                onSeeded={handleSeededProject}
+                authMode={authProvider.mode}
+                activeSession={activeSession}
+                onAuthRefresh={refreshAuth}
+                pendingInviteToken={pendingInviteToken}
+                onInviteTokenHandled={() => setPendingInviteToken(null)}
               />
-            </RightSheet>
-            <CommandPalette
-              open={paletteOpen && !!activeSessionId}
-              onOpenChange={setPaletteOpen}
-              selectedProjectId={selectedProjectId}
-              onCreated={triggerRefresh}
-              onOpenProject={handleOpenProjectFromCommand}
-              onOpenView={setActiveView}
-            />
-            <SettingsWindow
-              open={settingsOpen && !!activeSessionId}
-              onOpenChange={setSettingsOpen}
-              onSettingsChanged={triggerRefresh}
-              onSeeded={handleSeededProject}
-              authMode={authProvider.mode}
-              activeSession={activeSession}
-              onAuthRefresh={refreshAuth}
-              pendingInviteToken={pendingInviteToken}
-              onInviteTokenHandled={() => setPendingInviteToken(null)}
-            />
-          </main>
+            </main>
+          </div>
         </div>
-      </div>
+      </TimeZoneProvider>
     </ScopeProvider>
   );
 };
@@ -5,6 +5,7 @@ import {
   useRef,
   useState,
   type FC,
+  type ChangeEvent as ReactChangeEvent,
   type DragEvent as ReactDragEvent,
   type KeyboardEvent as ReactKeyboardEvent,
   type MouseEvent as ReactMouseEvent,
@@ -24,8 +25,20 @@ import {
   normalizeUserColorMap,
   resolveUserColor,
 } from "../domain/userColors";
+import {
+  formatZoneLabel,
+  getSystemTimeZone,
+  isValidTimeZone,
+  listTimeZones,
+} from "../domain/timeZone";
+import {
+  dayOffReason,
+  EMPTY_WORKING_CALENDAR,
+  type DayOffReason,
+  type WorkingCalendarRules,
+} from "../domain/workingCalendar";
 import { addDays, startOfDay, startOfWeek } from "./dateWindow";
-import { AppButton, AppCheckbox } from "./controls";
+import { AppButton, AppCheckbox, AppSelect } from "./controls";
 
 type CalendarViewProps = {
   scope: Scope;
@@ -40,6 +53,9 @@ type CalendarBlock = {
   item_id: string;
   start_at: number;
   duration_minutes: number;
+  recurrence_rule?: string | null;
+  series_block_id?: string;
+  is_occurrence?: boolean;
 };
 
 type CalendarItem = {
@@ -52,11 +68,24 @@ type CalendarItem = {
   priority: number;
   assignee_id?: string | null;
   assignee_name?: string | null;
+  recurrence_rule?: string | null;
+  is_occurrence?: boolean;
+};
+
+type CalendarBusyBlock = {
+  busy_id: string;
+  user_id: string;
+  source_calendar: string;
+  title: string;
+  start_at: number;
+  duration_minutes: number;
+  all_day: boolean;
 };
 
 type CalendarRangeResult = {
   blocks: CalendarBlock[];
   items: CalendarItem[];
+  busy_blocks?: CalendarBusyBlock[];
 };
 
 type CalendarUserBlock = CalendarBlock & {
@@ -93,6 +122,13 @@ const TIME_LABEL = new Intl.DateTimeFormat(undefined, {
   minute: "2-digit",
   hour12: false,
 });
+const zoneTimeLabel = (value: Date, timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).format(value);
 const DUE_TIME_LABEL = new Intl.DateTimeFormat(undefined, {
   hour: "numeric",
   minute: "2-digit",
@@ -107,6 +143,17 @@ const dayKey = (value: Date) =>
     "0"
   )}-${String(value.getDate()).padStart(2, "0")}`;
 
+// The grid is laid out in the device's zone, so days off are matched there.
+const LOCAL_DAY_RULES = {
+  weekday: (value: number) => new Date(value).getDay(),
+  formatDay: (value: number) => dayKey(new Date(value)),
+};
+
+const DAY_OFF_CLASS: Record<DayOffReason, string> = {
+  weekend: "is-off",
+  holiday: "is-off is-holiday",
+  time_off: "is-off is-time-off",
+};
 
 const CalendarView: FC<CalendarViewProps> = ({
   scope,
@@ -117,6 +164,8 @@ const CalendarView: FC<CalendarViewProps> = ({
 }) => {
   const [blocks, setBlocks] = useState<CalendarBlock[]>([]);
   const [calendarItems, setCalendarItems] = useState<CalendarItem[]>([]);
+  const [busyBlocks, setBusyBlocks] = useState<CalendarBusyBlock[]>([]);
+  const icsInputRef = useRef<HTMLInputElement | null>(null);
   const [loading, setLoading] = useState(false);
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -195,7 +244,10 @@ const CalendarView: FC<CalendarViewProps> = ({
   const [workEndHour, setWorkEndHour] = useState(DEFAULT_WORKDAY_END_HOUR);
   const [showAssignedOnly, setShowAssignedOnly] = useState(false);
   const [showUserCalendars, setShowUserCalendars] = useState(false);
+  const [secondTimeZone, setSecondTimeZone] = useState<string | null>(null);
   const [userColorMap, setUserColorMap] = useState<Record<string, string>>({});
+  const [workingCalendar, setWorkingCalendar] =
+    useState<WorkingCalendarRules>(EMPTY_WORKING_CALENDAR);
   const [userCalendarBlocks, setUserCalendarBlocks] = useState<
     CalendarUserBlock[]
   >([]);
@@ -270,7 +322,12 @@ const CalendarView: FC<CalendarViewProps> = ({
     [projectAssignees]
   );
   const calendarItemMap = useMemo(
-    () => new Map(calendarItems.map((item) => [item.id, item])),
+    () =>
+      new Map(
+        calendarItems
+          .filter((item) => !item.is_occurrence)
+          .map((item) => [item.id, item])
+      ),
     [calendarItems]
   );
   const itemDueMap = useMemo(() => {
@@ -281,7 +338,9 @@ const CalendarView: FC<CalendarViewProps> = ({
       }
     }
     for (const item of calendarItems) {
-      map.set(item.id, item.due_at ?? null);
+      if (!item.is_occurrence) {
+        map.set(item.id, item.due_at ?? null);
+      }
     }
     return map;
   }, [calendarItems, projectItems, scope.kind]);
@@ -325,6 +384,29 @@ const CalendarView: FC<CalendarViewProps> = ({
 
   const scopeProjectId = scope.kind === "project" ? scope.projectId : null;
   const scopeUserId = scope.kind === "user" ? scope.userId : null;
+  // A member's own calendar also shades their time off.
+  const dayOffFor = useCallback(
+    (day: Date) => {
+      const reason = dayOffReason(
+        workingCalendar,
+        LOCAL_DAY_RULES,
+        day.getTime(),
+        scopeUserId ? [scopeUserId] : []
+      );
+      if (!reason) {
+        return null;
+      }
+      const label =
+        reason === "holiday"
+          ? workingCalendar.holidays.find((holiday) => holiday.day === dayKey(day))?.name ??
+            "Holiday"
+          : reason === "time_off"
+            ? "Time off"
+            : "Non-working day";
+      return { className: DAY_OFF_CLASS[reason], label, reason };
+    },
+    [scopeUserId, workingCalendar]
+  );
   const updateDueDraft = useCallback(
     (next: { itemId: string; due_at: number } | null) => {
       dueDraftRef.current = next;
@@ -389,6 +471,10 @@ const CalendarView: FC<CalendarViewProps> = ({
           const next = settings["ui.calendar_show_user_calendars"] === true;
           return prev === next ? prev : next;
         });
+        setSecondTimeZone(() => {
+          const next = settings["ui.calendar_second_time_zone"];
+          return isValidTimeZone(next) ? next : null;
+        });
         setUserColorMap((prev) => {
           const next = normalizeUserColorMap(settings["ui.user_colors"]);
           return JSON.stringify(prev) === JSON.stringify(next) ? prev : next;
@@ -402,6 +488,7 @@ const CalendarView: FC<CalendarViewProps> = ({
         setWorkEndHour(DEFAULT_WORKDAY_END_HOUR);
         setShowAssignedOnly(false);
         setShowUserCalendars(false);
+        setSecondTimeZone(null);
         setUserColorMap({});
       });
     return () => {
@@ -409,6 +496,24 @@ const CalendarView: FC<CalendarViewProps> = ({
     };
   }, [refreshToken]);
 
+  useEffect(() => {
+    let isMounted = true;
+    query<WorkingCalendarRules>("working_calendar", {})
+      .then((next) => {
+        if (isMounted) {
+          setWorkingCalendar(next);
+        }
+      })
+      .catch(() => {
+        if (isMounted) {
+          setWorkingCalendar(EMPTY_WORKING_CALENDAR);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [refreshToken]);
+
   const range = useMemo(() => {
     if (viewMode === "week") {
       const start = startOfWeek(focusDate);
@@ -429,12 +534,14 @@ const CalendarView: FC<CalendarViewProps> = ({
     if (scope.kind === "project" && !scopeProjectId) {
       setBlocks([]);
       setCalendarItems([]);
+      setBusyBlocks([]);
       setError(null);
       return;
     }
     if (scope.kind === "user" && !scopeUserId) {
       setBlocks([]);
       setCalendarItems([]);
+      setBusyBlocks([]);
       setError(null);
       return;
     }
@@ -463,6 +570,7 @@ const CalendarView: FC<CalendarViewProps> = ({
             : result.items;
           setBlocks(nextBlocks);
           setCalendarItems(nextItems);
+          setBusyBlocks(result.busy_blocks ?? []);
           setHasLoadedOnce(true);
         })
         .catch((err) => {
@@ -492,6 +600,7 @@ const CalendarView: FC<CalendarViewProps> = ({
         }
         setBlocks(result.blocks);
         setCalendarItems(result.items);
+        setBusyBlocks(result.busy_blocks ?? []);
         setHasLoadedOnce(true);
       })
       .catch((err) => {
@@ -592,6 +701,53 @@ const CalendarView: FC<CalendarViewProps> = ({
 
   const handleToday = () => setFocusDate(new Date());
 
+  const handleExportIcs = useCallback(async () => {
+    try {
+      const exported = await query<{ filename: string; content: string }>(
+        "export_ics",
+        {
+          scope,
+          time_min: range.start.getTime(),
+          time_max: range.end.getTime(),
+          base_url: window.location.origin,
+        }
+      );
+      const url = URL.createObjectURL(
+        new Blob([exported.content], { type: "text/calendar;charset=utf-8" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = exported.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Unknown error";
+      setError(message);
+    }
+  }, [range.end, range.start, scope]);
+
+  const handleImportIcs = useCallback(
+    async (event: ReactChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) {
+        return;
+      }
+      try {
+        await mutate("import_ics", {
+          calendar: file.name.replace(/\.ics$/i, ""),
+          content: await file.text(),
+          ...(scope.kind === "user" ? { user_id: scope.userId } : {}),
+        });
+        onRefresh();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        setError(message);
+      }
+    },
+    [onRefresh, scope]
+  );
+
   const displayBlocks = useMemo(() => {
     if (!dragPreview) {
       return blocks;
@@ -792,6 +948,31 @@ const CalendarView: FC<CalendarViewProps> = ({
     [scope.kind, showUserCalendars]
   );
 
+  const handleSecondTimeZoneChange = useCallback(
+    (value: string) => {
+      const previous = secondTimeZone;
+      const next = value ? value : null;
+      setSecondTimeZone(next);
+      mutate("set_setting", {
+        key: "ui.calendar_second_time_zone",
+        value: next,
+      }).catch((err) => {
+        setSecondTimeZone(previous);
+        const message = err instanceof Error ? err.message : "Unknown error";
+        setError(message);
+      });
+    },
+    [secondTimeZone]
+  );
+
+  const secondTimeZoneOptions = useMemo(
+    () => [
+      { value: "", label: "No second zone" },
+      ...listTimeZones().map((zone) => ({ value: zone, label: zone })),
+    ],
+    []
+  );
+
   const handleToggleDone = useCallback(
     async (itemId: string, checked: boolean) => {
       const nextStatus = checked ? "done" : "ready";
@@ -817,11 +998,21 @@ const CalendarView: FC<CalendarViewProps> = ({
     [itemStatusMap, scheduleRefresh]
   );
 
+  // A recurring block is one stored row, so deleting any of its occurrences
+  // removes the whole series; ask first.
   const handleDeleteBlock = useCallback(
-    async (blockId: string) => {
+    async (block: CalendarBlock) => {
+      if (
+        block.recurrence_rule &&
+        !confirm("Delete this recurring block? Every occurrence in the series is removed.")
+      ) {
+        return;
+      }
       setError(null);
       try {
-        await mutate("scheduled_block.delete", { block_id: blockId });
+        await mutate("scheduled_block.delete", {
+          block_id: block.series_block_id ?? block.block_id,
+        });
         scheduleRefresh();
       } catch (err) {
         const message = err instanceof Error ? err.message : "Unknown error";
@@ -1107,7 +1298,8 @@ const CalendarView: FC<CalendarViewProps> = ({
         event.ctrlKey ||
         event.metaKey ||
         event.altKey ||
-        dueDrag
+        dueDrag ||
+        block.is_occurrence
       ) {
         return;
       }
@@ -1160,6 +1352,10 @@ const CalendarView: FC<CalendarViewProps> = ({
         if (dragBlock || dueDrag) {
           return;
         }
+        // Virtual occurrences of a recurring block move with their series.
+        if (block.is_occurrence) {
+          return;
+        }
         event.preventDefault();
         const dayBody = (event.currentTarget as HTMLElement).closest(
           ".calendar-day-body"
@@ -1207,7 +1403,7 @@ const CalendarView: FC<CalendarViewProps> = ({
       if (event.altKey && !event.shiftKey && !event.ctrlKey && !event.metaKey) {
         event.preventDefault();
         event.stopPropagation();
-        void handleDeleteBlock(block.block_id);
+        void handleDeleteBlock(block);
         return;
       }
       if (event.ctrlKey || event.metaKey) {
@@ -1782,6 +1978,37 @@ const CalendarView: FC<CalendarViewProps> = ({
               Show user calendars
             </AppButton>
           ) : null}
+          {viewMode === "week" ? (
+            <div className="calendar-second-zone">
+              <AppSelect
+                value={secondTimeZone ?? ""}
+                onChange={handleSecondTimeZoneChange}
+                options={secondTimeZoneOptions}
+                aria-label="Second time zone"
+              />
+            </div>
+          ) : null}
+          <AppButton
+            type="button"
+            variant="surface"
+            onClick={() => void handleExportIcs()}
+          >
+            Export .ics
+          </AppButton>
+          <AppButton
+            type="button"
+            variant="surface"
+            onClick={() => icsInputRef.current?.click()}
+          >
+            Import busy time
+          </AppButton>
+          <input
+            ref={icsInputRef}
+            type="file"
+            accept=".ics,text/calendar"
+            hidden
+            onChange={(event) => void handleImportIcs(event)}
+          />
         </div>
       </div>
       {showInitialLoading ? (
@@ -1854,7 +2081,15 @@ const CalendarView: FC<CalendarViewProps> = ({
             </div>
           </aside>
           <div className="calendar-week">
-            <div className="calendar-time-col" style={{ paddingTop: 28 }}>
+            <div
+              className="calendar-time-col"
+              style={{ paddingTop: secondTimeZone ? 0 : 28 }}
+            >
+              {secondTimeZone ? (
+                <div className="calendar-time-zone" style={{ height: 28 }}>
+                  {formatZoneLabel(range.start.getTime(), getSystemTimeZone())}
+                </div>
+              ) : null}
               {Array.from({ length: hourCount + 1 }).map((_, idx) => {
                 const hour = workStartHour + idx;
                 const labelDate = new Date();
@@ -1870,6 +2105,32 @@ const CalendarView: FC<CalendarViewProps> = ({
                 );
               })}
             </div>
+            {secondTimeZone ? (
+              // The same rows read in another zone, offset as of the week's start.
+              <div className="calendar-time-col is-secondary">
+                <div
+                  className="calendar-time-zone"
+                  style={{ height: 28 }}
+                  title={secondTimeZone}
+                >
+                  {formatZoneLabel(range.start.getTime(), secondTimeZone)}
+                </div>
+                {Array.from({ length: hourCount + 1 }).map((_, idx) => {
+                  const hour = workStartHour + idx;
+                  const labelDate = new Date(range.start);
+                  labelDate.setHours(hour, 0, 0, 0);
+                  return (
+                    <div
+                      key={`zone-hour-${hour}`}
+                      className="calendar-time-slot"
+                      style={{ height: HOUR_HEIGHT }}
+                    >
+                      {zoneTimeLabel(labelDate, secondTimeZone)}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : null}
             <div className="calendar-week-days">
               {range.days.map((day) => {
                 const key = dayKey(day);
@@ -1880,13 +2141,29 @@ const CalendarView: FC<CalendarViewProps> = ({
                     : [];
                 const dayDue = dueByDay.get(key) ?? [];
                 const dayStart = startOfDay(day).getTime();
+                const dayEnd = addDays(startOfDay(day), 1).getTime();
+                const dayBusy = busyBlocks.filter(
+                  (block) =>
+                    block.start_at < dayEnd &&
+                    block.start_at + block.duration_minutes * 60000 > dayStart
+                );
                 const selectionForDay =
                   selection && selection.dayKey === key ? selection : null;
                 const hoverGuideForDay =
                   hoverGuide && hoverGuide.dayKey === key ? hoverGuide : null;
+                const dayOff = dayOffFor(day);
                 return (
-                  <div key={key} className="calendar-day-col">
-                    <div className="calendar-day-header">{DAY_LABEL.format(day)}</div>
+                  <div
+                    key={key}
+                    className={dayOff ? `calendar-day-col ${dayOff.className}` : "calendar-day-col"}
+                    title={dayOff?.label}
+                  >
+                    <div className="calendar-day-header">
+                      {DAY_LABEL.format(day)}
+                      {dayOff && dayOff.reason !== "weekend" ? (
+                        <span className="calendar-day-off-label">{dayOff.label}</span>
+                      ) : null}
+                    </div>
                     <div
                       className={
                         dropDayKey === key
@@ -1938,6 +2215,41 @@ const CalendarView: FC<CalendarViewProps> = ({
                           New task
                         </div>
                       ) : null}
+                      {dayBusy.map((block) => {
+                        const blockStartMinutes =
+                          (block.start_at - dayStart) / 60000;
+                        const visibleStart = Math.max(
+                          blockStartMinutes,
+                          workStartHour * 60
+                        );
+                        const visibleEnd = Math.min(
+                          blockStartMinutes + block.duration_minutes,
+                          workEndHour * 60
+                        );
+                        if (visibleEnd <= visibleStart) {
+                          return null;
+                        }
+                        return (
+                          <div
+                            key={`external-${block.busy_id}`}
+                            className="calendar-user-block calendar-external-busy"
+                            style={{
+                              top:
+                                (visibleStart - workStartHour * 60) *
+                                pxPerMinute,
+                              height: Math.max(
+                                18,
+                                (visibleEnd - visibleStart) * pxPerMinute
+                              ),
+                            }}
+                            title={`${block.source_calendar}: ${block.title}`}
+                          >
+                            <div className="calendar-user-block-label">
+                              {block.title}
+                            </div>
+                          </div>
+                        );
+                      })}
                       {dayUserBlocks.map((block) => {
                         const blockStartMinutes =
                           (block.start_at - dayStart) / 60000;
@@ -2012,7 +2324,7 @@ const CalendarView: FC<CalendarViewProps> = ({
                           .join(" ");
                         return (
                           <div
-                            key={`due-${item.id}`}
+                            key={`due-${item.id}-${item.due_at}`}
                             className={className}
                             style={{ top }}
                             title={item.title}
@@ -2169,9 +2481,9 @@ const CalendarView: FC<CalendarViewProps> = ({
                                 </ContextMenu.Item>
                                 <ContextMenu.Item
                                   className="context-menu-item"
-                                  onSelect={() => handleDeleteBlock(block.block_id)}
+                                  onSelect={() => handleDeleteBlock(block)}
                                 >
-                                  Delete block
+                                  {block.recurrence_rule ? "Delete series" : "Delete block"}
                                 </ContextMenu.Item>
                               </ContextMenu.Content>
                             </ContextMenu.Portal>
@@ -2196,21 +2508,28 @@ const CalendarView: FC<CalendarViewProps> = ({
                 : [];
             const dayDue = dueByDay.get(key) ?? [];
             const isCurrentMonth = day.getMonth() === focusDate.getMonth();
+            const dayOff = dayOffFor(day);
             return (
               <div
                 key={key}
-                className={
-                  isCurrentMonth
-                    ? "calendar-month-cell"
-                    : "calendar-month-cell is-outside"
-                }
+                className={[
+                  "calendar-month-cell",
+                  isCurrentMonth ? "" : "is-outside",
+                  dayOff?.className ?? "",
+                ]
+                  .filter(Boolean)
+                  .join(" ")}
+                title={dayOff?.label}
               >
                 <div className="calendar-day-number">
                   {DAY_NUMBER.format(day)}
+                  {dayOff && dayOff.reason !== "weekend" ? (
+                    <span className="calendar-day-off-label">{dayOff.label}</span>
+                  ) : null}
                 </div>
                 {dayDue.map((item) => (
                   <div
-                    key={`due-${item.id}`}
+                    key={`due-${item.id}-${item.due_at}`}
                     className={
                       item.due_at && item.due_at < nowMs && item.status !== "done" && item.status !== "canceled"
                         ? "calendar-month-due is-overdue"
@@ -2320,9 +2639,9 @@ const CalendarView: FC<CalendarViewProps> = ({
                           </ContextMenu.Item>
                           <ContextMenu.Item
                             className="context-menu-item"
-                            onSelect={() => handleDeleteBlock(block.block_id)}
+                            onSelect={() => handleDeleteBlock(block)}
                           >
-                            Delete block
+                            {block.recurrence_rule ? "Delete series" : "Delete block"}
                           </ContextMenu.Item>
                         </ContextMenu.Content>
                       </ContextMenu.Portal>
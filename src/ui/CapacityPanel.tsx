@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useState, type FC } from "react";
+import { Text } from "@radix-ui/themes";
+import { mutate, query } from "../rpc/clientSingleton";
+import { AppButton, AppInput } from "./controls";
+
+type CapacityUser = {
+  user_id: string;
+  display_name: string;
+  minutes_by_weekday: number[];
+  is_default: boolean;
+};
+
+// Stored Sunday first, shown Monday first.
+const WEEKDAYS = [
+  { index: 1, label: "Mon" },
+  { index: 2, label: "Tue" },
+  { index: 3, label: "Wed" },
+  { index: 4, label: "Thu" },
+  { index: 5, label: "Fri" },
+  { index: 6, label: "Sat" },
+  { index: 0, label: "Sun" },
+];
+
+const toHours = (minutes: number) => String(Math.round((minutes / 60) * 100) / 100);
+
+// Hours each member can work per weekday, which the workload heatmap
+// compares their booked work against.
+const CapacityPanel: FC = () => {
+  const [users, setUsers] = useState<CapacityUser[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const result = await query<{ users: CapacityUser[] }>("capacity.list", {});
+    setUsers(result.users);
+    setDrafts(
+      Object.fromEntries(
+        result.users.map((user) => [user.user_id, user.minutes_by_weekday.map(toHours)])
+      )
+    );
+  }, []);
+
+  useEffect(() => {
+    load().catch((err) => {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    });
+  }, [load]);
+
+  const handleSave = async (userId: string) => {
+    const hours = (drafts[userId] ?? []).map((value) => Number(value || 0));
+    if (hours.length !== 7 || hours.some((value) => !Number.isFinite(value) || value < 0 || value > 24)) {
+      setError("Hours must be between 0 and 24.");
+      return;
+    }
+    setBusyUserId(userId);
+    setError(null);
+    try {
+      await mutate("user.set_capacity", { user_id: userId, hours_by_weekday: hours });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  if (users.length === 0) {
+    return error ? (
+      <div className="error">{error}</div>
+    ) : (
+      <Text size="1" color="gray">
+        No team members yet.
+      </Text>
+    );
+  }
+
+  return (
+    <div className="capacity-panel">
+      <div className="capacity-row capacity-head">
+        <span />
+        {WEEKDAYS.map((day) => (
+          <span key={day.index}>{day.label}</span>
+        ))}
+        <span />
+      </div>
+      {users.map((user) => {
+        const draft = drafts[user.user_id] ?? [];
+        return (
+          <div key={user.user_id} className="capacity-row">
+            <Text size="2" title={user.is_default ? "Using the default 8h weekdays" : undefined}>
+              {user.display_name}
+            </Text>
+            {WEEKDAYS.map((day) => (
+              <AppInput
+                key={day.index}
+                value={draft[day.index] ?? ""}
+                inputMode="decimal"
+                aria-label={`${user.display_name} ${day.label} hours`}
+                onChange={(event) => {
+                  const next = [...draft];
+                  next[day.index] = event.target.value;
+                  setDrafts((prev) => ({ ...prev, [user.user_id]: next }));
+                }}
+              />
+            ))}
+            <AppButton
+              type="button"
+              size="1"
+              variant="surface"
+              disabled={busyUserId !== null}
+              onClick={() => void handleSave(user.user_id)}
+            >
+              Save
+            </AppButton>
+          </div>
+        );
+      })}
+      {error ? <div className="error">{error}</div> : null}
+    </div>
+  );
+};
+
+export default CapacityPanel;
@@ -4,7 +4,8 @@ import { Dialog } from "@radix-ui/themes";
 import { parseCommand } from "../cli/parseCommand";
 import { mutate, query } from "../rpc/clientSingleton";
 import { UNGROUPED_PROJECT_ID } from "./constants";
-import type { ItemLite } from "./ItemAutocomplete";
+import { SearchResultLabel, type ItemLite } from "./ItemAutocomplete";
+import type { SavedView } from "../domain/savedViews";
 import { AppButton, AppInput } from "./controls";
 
 type CommandPaletteProps = {
@@ -13,9 +14,16 @@ type CommandPaletteProps = {
   selectedProjectId: string | null;
   onCreated: () => void;
   onOpenProject?: (projectId: string) => void;
-  onOpenView?: (view: "list" | "calendar" | "kanban" | "gantt" | "dashboard") => void;
+  onOpenView?: (
+    view: "list" | "calendar" | "kanban" | "gantt" | "dashboard" | "timesheet" | "reports"
+  ) => void;
+  onOpenItem?: (itemId: string) => void;
+  onOpenSavedView?: (view: SavedView) => void;
 };
 
+// "? text" switches the palette from commands to full-text item search.
+const SEARCH_PREFIX = /^\?\s*/;
+
 
 const CommandPalette: FC<CommandPaletteProps> = ({
   open,
@@ -24,6 +32,8 @@ const CommandPalette: FC<CommandPaletteProps> = ({
   onCreated,
   onOpenProject,
   onOpenView,
+  onOpenItem,
+  onOpenSavedView,
 }) => {
   const [inputValue, setInputValue] = useState("");
   const [submitError, setSubmitError] = useState<string | null>(null);
@@ -177,6 +187,23 @@ const CommandPalette: FC<CommandPaletteProps> = ({
     return matches[0].id;
   };
 
+  // Projects win over saved views so existing `open "Project"` commands keep
+  // their meaning; a name that matches no project falls back to saved views.
+  const resolveSavedView = async (target: string) => {
+    const data = await query<{ views: SavedView[] }>("saved_views_list", {});
+    const matches = data.views.filter(
+      (view) =>
+        view.view_id === target || view.name.toLowerCase() === target.toLowerCase()
+    );
+    if (matches.length === 0) {
+      return null;
+    }
+    if (matches.length > 1) {
+      throw new Error(`Multiple saved views named "${target}"`);
+    }
+    return matches[0];
+  };
+
   useEffect(() => {
     if (!inProjectToken) {
       setAutoScopeId(null);
@@ -208,9 +235,47 @@ const CommandPalette: FC<CommandPaletteProps> = ({
       setAutoToken(null);
       return;
     }
-    const match = /(^|\s)(under|parent|dep|depends_on):([^\s]*)$/i.exec(
-      inputValue
-    );
+    const searchMode = SEARCH_PREFIX.test(inputValue);
+    const match = searchMode
+      ? null
+      : /(^|\s)(under|parent|dep|depends_on):([^\s]*)$/i.exec(inputValue);
+    if (searchMode) {
+      const searchText = inputValue.replace(SEARCH_PREFIX, "").trim();
+      setAutoToken(null);
+      if (!searchText) {
+        setAutoItems([]);
+        setAutoOpen(false);
+        setAutoIndex(-1);
+        return;
+      }
+      setAutoOpen(true);
+      if (autoTimeoutId.current) {
+        window.clearTimeout(autoTimeoutId.current);
+      }
+      const requestId = ++autoRequestId.current;
+      autoTimeoutId.current = window.setTimeout(() => {
+        query<{ items: ItemLite[] }>("searchItems", {
+          q: searchText,
+          limit: 12,
+          scopeId: selectedProjectId ?? undefined,
+        })
+          .then((data) => {
+            if (requestId !== autoRequestId.current) {
+              return;
+            }
+            setAutoItems(data.items ?? []);
+            setAutoIndex(data.items && data.items.length > 0 ? 0 : -1);
+          })
+          .catch(() => {
+            if (requestId !== autoRequestId.current) {
+              return;
+            }
+            setAutoItems([]);
+            setAutoIndex(-1);
+          });
+      }, 180);
+      return;
+    }
     if (!match) {
       setAutoItems([]);
       setAutoOpen(false);
@@ -270,6 +335,11 @@ const CommandPalette: FC<CommandPaletteProps> = ({
 
   const applyAutocompleteSelection = (item: ItemLite) => {
     if (!autoToken) {
+      if (SEARCH_PREFIX.test(inputValue)) {
+        setInputValue("");
+        onOpenChange(false);
+        onOpenItem?.(item.id);
+      }
       return;
     }
     const formatted = formatTokenValue(item.title);
@@ -337,8 +407,22 @@ const CommandPalette: FC<CommandPaletteProps> = ({
       const nextView = value.openView ?? "list";
       if (value.openProject) {
         try {
-          const projectId = await resolveProjectId(value.openProject);
-          onOpenProject?.(projectId);
+          const openTarget = value.openProject;
+          const resolved = await resolveProjectId(openTarget).catch(async (err) => {
+            const savedView = await resolveSavedView(openTarget);
+            if (!savedView) {
+              throw err;
+            }
+            return savedView;
+          });
+          if (typeof resolved !== "string") {
+            onOpenSavedView?.(resolved);
+            setSubmitError(null);
+            setInputValue("");
+            onOpenChange(false);
+            return;
+          }
+          onOpenProject?.(resolved);
         } catch (err) {
           const message = err instanceof Error ? err.message : "Unknown error";
           setSubmitError(message);
@@ -818,7 +902,7 @@ const CommandPalette: FC<CommandPaletteProps> = ({
                       applyAutocompleteSelection(item);
                     }}
                   >
-                    <span className="autocomplete-title">{item.title}</span>
+                    <SearchResultLabel item={item} />
                     <span className="autocomplete-meta">
                       {item.item_type}
                     </span>
@@ -990,12 +1074,13 @@ const COMMAND_HELP: Record<string, CommandHelpData> = {
   },
   open: {
     title: "open",
-    description: "Switch view and/or project scope.",
-    props: ["\"project name\" (optional)", "view (optional)"],
+    description: "Switch view and/or project scope, or open a saved view by name.",
+    props: ["\"project or saved view name\" (optional)", "view (optional)"],
     examples: [
       'open "Sample Project"',
       'open "calendar"',
       'open "Sample Project" "kanban"',
+      'open "My week"',
     ],
   },
   project: {
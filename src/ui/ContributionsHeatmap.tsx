@@ -2,7 +2,9 @@ import { useEffect, useMemo, useState, type FC } from "react";
 import type { Scope } from "../domain/scope";
 import { query } from "../rpc/clientSingleton";
 import { AppSelect } from "./controls";
+import { formatZonedDay } from "../domain/timeZone";
 import { addDays, startOfDay } from "./dateWindow";
+import { useTimeZone } from "./TimeZoneContext";
 
 type ContributionDay = {
   day: string;
@@ -21,13 +23,6 @@ type ContributionsHeatmapProps = {
 
 const RANGE_OPTIONS = [30, 90, 365] as const;
 
-const formatLocalDayString = (date: Date) => {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-};
-
 const parseLocalDayString = (value: string) => {
   const [year, month, day] = value.split("-").map((part) => Number(part));
   return new Date(year, month - 1, day);
@@ -48,6 +43,7 @@ const ContributionsHeatmap: FC<ContributionsHeatmapProps> = ({
   scope,
   refreshToken,
 }) => {
+  const { timeZone } = useTimeZone();
   const [dayCount, setDayCount] = useState<number>(90);
   const [data, setData] = useState<ContributionsResult>({
     days: [],
@@ -57,14 +53,16 @@ const ContributionsHeatmap: FC<ContributionsHeatmapProps> = ({
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const startDate = useMemo(() => {
-    const today = startOfDay(new Date());
-    return addDays(today, -(dayCount - 1));
-  }, [dayCount]);
+  // The first day as a date in the user's zone; the grid itself only needs
+  // its weekday, so it is read back as a device-local date.
+  const dayStartLocal = useMemo(() => {
+    const today = startOfDay(new Date(), timeZone);
+    return formatZonedDay(addDays(today, -(dayCount - 1), timeZone).getTime(), timeZone);
+  }, [dayCount, timeZone]);
 
-  const dayStartLocal = useMemo(
-    () => formatLocalDayString(startDate),
-    [startDate]
+  const startDate = useMemo(
+    () => parseLocalDayString(dayStartLocal),
+    [dayStartLocal]
   );
 
   useEffect(() => {
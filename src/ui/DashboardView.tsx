@@ -11,8 +11,14 @@ import {
 import type { Scope } from "../domain/scope";
 import { mutate, query } from "../rpc/clientSingleton";
 import { formatDate } from "../domain/formatters";
+import {
+  summarizeItemChange,
+  type ItemHistoryEntry,
+} from "../domain/itemHistory";
 import { getTodayRange, getWeekRange } from "./dateWindow";
+import { useTimeZone } from "./TimeZoneContext";
 import ContributionsHeatmap from "./ContributionsHeatmap";
+import WorkloadHeatmap from "./WorkloadHeatmap";
 import { setStatus } from "./itemActions";
 import { AppCheckbox } from "./controls";
 
@@ -152,6 +158,8 @@ const TIME_LABEL = new Intl.DateTimeFormat(undefined, {
   hour12: false,
 });
 
+const ACTIVITY_LIMIT = 20;
+
 const formatDays = (value: number) =>
   `${value < 0 ? "-" : ""}${Math.abs(value)}d`;
 
@@ -160,6 +168,7 @@ const DashboardView: FC<DashboardViewProps> = ({
   refreshToken,
   onSelectItem,
 }) => {
+  const { timeZone } = useTimeZone();
   const [windowMode, setWindowMode] = useState<"today" | "week">("today");
   const [execution, setExecution] = useState<ExecutionWindowResult>({
     scheduled: [],
@@ -176,20 +185,23 @@ const DashboardView: FC<DashboardViewProps> = ({
     overdue: [],
     projects: [],
   });
+  const [activity, setActivity] = useState<ItemHistoryEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [hasLoadedOnce, setHasLoadedOnce] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const windowRange = useMemo(() => {
     const now = new Date();
-    return windowMode === "today" ? getTodayRange(now) : getWeekRange(now);
-  }, [windowMode]);
+    return windowMode === "today"
+      ? getTodayRange(now, timeZone)
+      : getWeekRange(now, timeZone);
+  }, [timeZone, windowMode]);
 
   const loadWidgets = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const [executionData, blockedData, dueData] = await Promise.all([
+      const [executionData, blockedData, dueData, activityData] = await Promise.all([
         query<ExecutionWindowResult>("execution_window", {
           scope,
           time_min: windowRange.start.getTime(),
@@ -205,10 +217,14 @@ const DashboardView: FC<DashboardViewProps> = ({
           now_at: Date.now(),
           due_soon_days: 7,
         }),
+        query<{ entries: ItemHistoryEntry[] }>("activity_feed", {
+          limit: ACTIVITY_LIMIT,
+        }),
       ]);
       setExecution(executionData);
       setBlocked(blockedData);
       setDueOverdue(dueData);
+      setActivity(activityData.entries);
       setHasLoadedOnce(true);
     } catch (err) {
       const message = err instanceof Error ? err.message : "Unknown error";
@@ -276,6 +292,12 @@ const DashboardView: FC<DashboardViewProps> = ({
   return (
     <div className="dashboard-view">
       <ContributionsHeatmap scope={scope} refreshToken={refreshToken} />
+      <WorkloadHeatmap
+        scope={scope}
+        refreshToken={refreshToken}
+        onSelectItem={(itemId) => onSelectItem(itemId, null)}
+        onChanged={() => void loadWidgets()}
+      />
       <div className="dashboard-toolbar">
         <div className="dashboard-title">Dashboard</div>
         <SegmentedControl.Root
@@ -634,6 +656,46 @@ const DashboardView: FC<DashboardViewProps> = ({
             </div>
           ) : null}
         </section>
+
+        <section className="dashboard-card">
+          <h3>Activity</h3>
+          <div className="dashboard-section">
+            {activity.length === 0 ? (
+              <div className="dashboard-empty">No recent changes.</div>
+            ) : (
+              activity.map((entry) => (
+                <div
+                  key={`${entry.op_id}-${entry.item_id}`}
+                  className="dashboard-row dashboard-activity-row"
+                  onClick={
+                    entry.kind === "deleted"
+                      ? undefined
+                      : handleItemRowClick(entry.item_id, null)
+                  }
+                  onKeyDown={handleRowKeyDown(() => {
+                    if (entry.kind !== "deleted") {
+                      onSelectItem(entry.item_id, null);
+                    }
+                  })}
+                  role="button"
+                  tabIndex={0}
+                >
+                  <span className="dashboard-title-text">
+                    {entry.title || "Untitled"}
+                    <span className="dashboard-meta">
+                      {" "}
+                      {summarizeItemChange(entry)}
+                    </span>
+                  </span>
+                  <span className="dashboard-meta">
+                    {entry.actor_name ?? "Unknown user"}
+                  </span>
+                  <span className="dashboard-time">{formatDate(entry.ts)}</span>
+                </div>
+              ))
+            )}
+          </div>
+        </section>
       </div>
     </div>
   );
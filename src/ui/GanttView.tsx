@@ -17,7 +17,16 @@ import type {
   GanttRangeResult,
 } from "../domain/ganttTypes";
 import type { Scope } from "../domain/scope";
-import { AppButton, AppInput, AppSelect } from "./controls";
+import { getSystemTimeZone, zonedCalendar } from "../domain/timeZone";
+import { normalizeWorkdayHours } from "../domain/workHours";
+import {
+  buildWorkingTime,
+  dayOffReason,
+  EMPTY_WORKING_CALENDAR,
+  type DayOffReason,
+  type WorkingCalendarRules,
+} from "../domain/workingCalendar";
+import { AppButton, AppCheckbox, AppInput, AppSelect } from "./controls";
 
 type GanttViewProps = {
   scope: Scope;
@@ -135,6 +144,39 @@ const getBarRange = (item: GanttItem, hasChildren: boolean) => {
 
 const formatDayLabel = (value: Date) => DAY_LABEL.format(value);
 
+const DAY_OFF_CLASS: Record<DayOffReason, string> = {
+  weekend: "is-off",
+  holiday: "is-off is-holiday",
+  time_off: "is-off is-time-off",
+};
+
+const formatFloat = (minutes: number | null | undefined) => {
+  if (minutes === null || minutes === undefined) {
+    return "—";
+  }
+  if (Math.abs(minutes) >= 24 * 60) {
+    return `${Math.round((minutes / (24 * 60)) * 10) / 10}d`;
+  }
+  if (Math.abs(minutes) >= 60) {
+    return `${Math.round((minutes / 60) * 10) / 10}h`;
+  }
+  return `${minutes}m`;
+};
+
+const getBarTooltip = (item: GanttItem) => {
+  if (item.total_float_minutes === null || item.total_float_minutes === undefined) {
+    return item.title;
+  }
+  return [
+    item.title,
+    item.is_critical ? "On the critical path" : null,
+    `Total float: ${formatFloat(item.total_float_minutes)}`,
+    `Free float: ${formatFloat(item.free_float_minutes)}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
 const getSnapMinutesForView = (viewMode: ViewMode) => {
   if (viewMode === "week") {
     return 60;
@@ -173,6 +215,10 @@ const GanttView: FC<GanttViewProps> = ({
   const [connectionDrag, setConnectionDrag] = useState<ConnectionDrag | null>(null);
   const [barGesture, setBarGesture] = useState<BarGesture | null>(null);
   const [dragPreview, setDragPreview] = useState<DragPreview | null>(null);
+  const [highlightCritical, setHighlightCritical] = useState(false);
+  const [workingCalendar, setWorkingCalendar] =
+    useState<WorkingCalendarRules>(EMPTY_WORKING_CALENDAR);
+  const [workday, setWorkday] = useState(() => normalizeWorkdayHours(undefined, undefined));
   const headerScrollRef = useRef<HTMLDivElement | null>(null);
   const bodyScrollRef = useRef<HTMLDivElement | null>(null);
   const dragMovedRef = useRef(false);
@@ -219,6 +265,57 @@ const GanttView: FC<GanttViewProps> = ({
     void loadRange();
   }, [loadRange, refreshToken]);
 
+  useEffect(() => {
+    let isMounted = true;
+    Promise.all([
+      query<WorkingCalendarRules>("working_calendar", {}),
+      query<Record<string, unknown>>("getSettings", {}),
+    ])
+      .then(([rules, settings]) => {
+        if (!isMounted) {
+          return;
+        }
+        setWorkingCalendar(rules);
+        setWorkday(
+          normalizeWorkdayHours(
+            settings["ui.workday_start_hour"],
+            settings["ui.workday_end_hour"]
+          )
+        );
+      })
+      .catch(() => {
+        if (isMounted) {
+          setWorkingCalendar(EMPTY_WORKING_CALENDAR);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [refreshToken]);
+
+  // The same working time gantt_range measures floats in: the team calendar,
+  // plus the member's time off when scoped to one, on this device's clock.
+  const scopeUserIds = useMemo(
+    () => (scope.kind === "user" ? [scope.userId] : []),
+    [scope]
+  );
+  const deviceCalendar = useMemo(() => zonedCalendar(getSystemTimeZone()), []);
+  const workingTime = useMemo(
+    () =>
+      buildWorkingTime({
+        rules: workingCalendar,
+        calendar: deviceCalendar,
+        workday,
+        userIds: scopeUserIds,
+      }),
+    [deviceCalendar, scopeUserIds, workday, workingCalendar]
+  );
+  const dayOffFor = useCallback(
+    (day: Date): DayOffReason | null =>
+      dayOffReason(workingCalendar, deviceCalendar, day.getTime(), scopeUserIds),
+    [deviceCalendar, scopeUserIds, workingCalendar]
+  );
+
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (event.altKey) {
@@ -493,10 +590,16 @@ const GanttView: FC<GanttViewProps> = ({
       const deltaMs = snappedDeltaMinutes * 60_000;
       const minimumDurationMs = snapMinutes * 60_000;
       if (gesture.kind === "move") {
+        // Moved work starts on working time; a drop on a weekend or holiday
+        // slides forward to the next working morning.
+        const start =
+          deltaMs === 0
+            ? gesture.initialStart
+            : workingTime.nextWorkingStart(gesture.initialStart + deltaMs);
         return {
-          start: gesture.initialStart + deltaMs,
-          end: gesture.initialEnd + deltaMs,
-          deltaMinutes: snappedDeltaMinutes,
+          start,
+          end: gesture.initialEnd + (start - gesture.initialStart),
+          deltaMinutes: Math.round((start - gesture.initialStart) / 60_000),
         };
       }
       if (gesture.kind === "resize-start") {
@@ -518,7 +621,7 @@ const GanttView: FC<GanttViewProps> = ({
         deltaMinutes: snappedDeltaMinutes,
       };
     },
-    [dayWidth, snapMinutes]
+    [dayWidth, snapMinutes, workingTime]
   );
 
   const commitBarGesture = useCallback(
@@ -845,6 +948,7 @@ const GanttView: FC<GanttViewProps> = ({
       className={[
         "gantt-root",
         isAltPressed ? "is-alt-pressed" : "",
+        highlightCritical ? "is-critical-mode" : "",
         barGesture || connectionDrag ? "is-gesture-active" : "",
       ]
         .filter(Boolean)
@@ -860,6 +964,13 @@ const GanttView: FC<GanttViewProps> = ({
             <SegmentedControl.Item value="month">Month</SegmentedControl.Item>
             <SegmentedControl.Item value="quarter">Quarter</SegmentedControl.Item>
           </SegmentedControl.Root>
+          <label className="gantt-toolbar-toggle">
+            <AppCheckbox
+              checked={highlightCritical}
+              onCheckedChange={(checked) => setHighlightCritical(checked === true)}
+            />
+            Highlight critical path
+          </label>
         </div>
         <div className="gantt-toolbar-right">
           <span className="gantt-toolbar-tip">
@@ -893,15 +1004,27 @@ const GanttView: FC<GanttViewProps> = ({
             ref={headerScrollRef}
           >
             <div className="gantt-timeline-header" style={{ width: timelineWidth }}>
-              {timelineDays.map((day) => (
-                <div
-                  key={day.toISOString()}
-                  className="gantt-day"
-                  style={{ width: dayWidth }}
-                >
-                  {formatDayLabel(day)}
-                </div>
-              ))}
+              {timelineDays.map((day) => {
+                const reason = dayOffFor(day);
+                return (
+                  <div
+                    key={day.toISOString()}
+                    className={reason ? `gantt-day ${DAY_OFF_CLASS[reason]}` : "gantt-day"}
+                    style={{ width: dayWidth }}
+                    title={
+                      reason === "holiday"
+                        ? workingCalendar.holidays.find(
+                            (holiday) => holiday.day === deviceCalendar.formatDay(day.getTime())
+                          )?.name
+                        : reason === "time_off"
+                          ? "Time off"
+                          : undefined
+                    }
+                  >
+                    {formatDayLabel(day)}
+                  </div>
+                );
+              })}
             </div>
           </div>
         </div>
@@ -950,16 +1073,32 @@ const GanttView: FC<GanttViewProps> = ({
               className="gantt-timeline"
               style={{ width: timelineWidth, height: totalHeight }}
             >
+              {timelineDays.map((day) => {
+                const reason = dayOffFor(day);
+                return reason ? (
+                  <div
+                    key={`off-${day.toISOString()}`}
+                    className={`gantt-off-day ${DAY_OFF_CLASS[reason]}`}
+                    style={{ left: toX(day.getTime()), width: dayWidth }}
+                  />
+                ) : null;
+              })}
               <svg className="gantt-lines" width={timelineWidth} height={totalHeight}>
                 {edgeGeometries.map(({ edge, path, popoverX, popoverY }) => (
                   <g key={edge.edge_id}>
                     <path
                       d={path}
-                      className={
-                        edgeEditor?.edgeId === edge.edge_id
-                          ? "gantt-edge-line is-selected"
-                          : "gantt-edge-line"
-                      }
+                      className={[
+                        "gantt-edge-line",
+                        edgeEditor?.edgeId === edge.edge_id ? "is-selected" : "",
+                        highlightCritical &&
+                        itemMap.get(edge.predecessor_id)?.is_critical &&
+                        itemMap.get(edge.successor_id)?.is_critical
+                          ? "is-critical"
+                          : "",
+                      ]
+                        .filter(Boolean)
+                        .join(" ")}
                     />
                     <path
                       d={path}
@@ -1085,11 +1224,18 @@ const GanttView: FC<GanttViewProps> = ({
                     {start !== null && end !== null ? (
                       <button
                         type="button"
-                        className={isDragging ? "gantt-bar is-dragging" : "gantt-bar"}
+                        className={[
+                          "gantt-bar",
+                          isDragging ? "is-dragging" : "",
+                          highlightCritical && item.is_critical ? "is-critical" : "",
+                        ]
+                          .filter(Boolean)
+                          .join(" ")}
                         style={{
                           left: start,
                           width,
                         }}
+                        title={getBarTooltip(item)}
                         data-gantt-bar-item-id={item.id}
                         onPointerDown={(event) =>
                           startBarGesture(event, item, hasChildren, baseRange, "move")
@@ -8,6 +8,11 @@ import {
 import { query } from "../rpc/clientSingleton";
 import { AppButton, AppInput } from "./controls";
 
+export type SearchHighlightPart = {
+  text: string;
+  match: boolean;
+};
+
 export type ItemLite = {
   id: string;
   title: string;
@@ -15,6 +20,8 @@ export type ItemLite = {
   parent_id: string | null;
   due_at: number | null;
   completed_at: number | null;
+  title_highlight?: SearchHighlightPart[];
+  snippet?: SearchHighlightPart[] | null;
 };
 
 type ItemAutocompleteProps = {
@@ -29,6 +36,31 @@ type ItemAutocompleteProps = {
 const MIN_QUERY_LENGTH = 1;
 const DEBOUNCE_MS = 180;
 
+export const SearchHighlight: FC<{ parts: SearchHighlightPart[] }> = ({
+  parts,
+}) => (
+  <>
+    {parts.map((part, index) =>
+      part.match ? <mark key={index}>{part.text}</mark> : part.text
+    )}
+  </>
+);
+
+export const SearchResultLabel: FC<{ item: ItemLite }> = ({ item }) => (
+  <span className="autocomplete-title">
+    {item.title_highlight ? (
+      <SearchHighlight parts={item.title_highlight} />
+    ) : (
+      item.title
+    )}
+    {item.snippet ? (
+      <span className="autocomplete-snippet">
+        <SearchHighlight parts={item.snippet} />
+      </span>
+    ) : null}
+  </span>
+);
+
 export const ItemAutocomplete: FC<ItemAutocompleteProps> = ({
   scopeId,
   excludeIds,
@@ -174,7 +206,7 @@ export const ItemAutocomplete: FC<ItemAutocompleteProps> = ({
                   handleSelect(item);
                 }}
               >
-                <span className="autocomplete-title">{item.title}</span>
+                <SearchResultLabel item={item} />
                 <span className="autocomplete-meta">{item.item_type}</span>
               </AppButton>
             );
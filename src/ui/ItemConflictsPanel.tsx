@@ -0,0 +1,116 @@
+import { useEffect, useState, type FC } from "react";
+import { mutate, query } from "../rpc/clientSingleton";
+import { truncate } from "../domain/formatters";
+import {
+  formatItemHistoryValue,
+  getItemHistoryFieldLabel,
+} from "../domain/itemHistory";
+import type { ItemConflict, ItemConflictSide } from "../domain/itemConflicts";
+import { AppButton } from "./controls";
+
+type ItemConflictsPanelProps = {
+  itemId: string;
+  refreshToken: number;
+  onResolved: () => void;
+};
+
+const VALUE_MAX_LENGTH = 60;
+
+const formatValue = (field: string, value: unknown) =>
+  truncate(formatItemHistoryValue(field, value), VALUE_MAX_LENGTH);
+
+// Lists concurrent edits sync could not merge; renders nothing when clean.
+const ItemConflictsPanel: FC<ItemConflictsPanelProps> = ({
+  itemId,
+  refreshToken,
+  onResolved,
+}) => {
+  const [conflicts, setConflicts] = useState<ItemConflict[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    query<{ conflicts: ItemConflict[] }>("item_conflicts", { item_id: itemId })
+      .then((data) => {
+        if (mounted) {
+          setConflicts(data.conflicts);
+        }
+      })
+      .catch((err) => {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : "Unknown error");
+        }
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [itemId, refreshToken]);
+
+  const handleResolve = async (conflict: ItemConflict, keep: ItemConflictSide) => {
+    setResolvingId(conflict.conflict_id);
+    setError(null);
+    try {
+      await mutate("conflict.resolve", { conflict_id: conflict.conflict_id, keep });
+      setConflicts((prev) =>
+        prev.filter((entry) => entry.conflict_id !== conflict.conflict_id)
+      );
+      onResolved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (conflicts.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <section className="item-conflicts">
+      <div className="item-history-title">Sync conflicts</div>
+      {error ? <div className="error">{error}</div> : null}
+      {conflicts.map((conflict) => {
+        const label = getItemHistoryFieldLabel(conflict.field);
+        const busy = resolvingId === conflict.conflict_id;
+        return (
+          <div key={conflict.conflict_id} className="item-conflict">
+            <div className="item-history-meta">
+              <span className="item-history-field">{label}</span>
+              <span>edited on two devices at once</span>
+              <span>{new Date(conflict.created_at).toLocaleString()}</span>
+            </div>
+            {(["local", "remote"] as const).map((side) => (
+              <div key={side} className="item-conflict-option">
+                <span className="item-conflict-source">
+                  {side === "local"
+                    ? `Yours${conflict.local_actor_name ? ` (${conflict.local_actor_name})` : ""}`
+                    : conflict.remote_actor_name ?? "Teammate"}
+                  {conflict.winner === side ? " · current" : ""}
+                </span>
+                <span>
+                  {formatValue(
+                    conflict.field,
+                    side === "local" ? conflict.local_value : conflict.remote_value
+                  )}
+                </span>
+                <AppButton
+                  type="button"
+                  size="1"
+                  variant={conflict.winner === side ? "surface" : "ghost"}
+                  disabled={busy}
+                  onClick={() => void handleResolve(conflict, side)}
+                >
+                  Keep
+                </AppButton>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </section>
+  );
+};
+
+export default ItemConflictsPanel;
@@ -0,0 +1,97 @@
+import { useEffect, useState, type FC } from "react";
+import { query } from "../rpc/clientSingleton";
+import { truncate } from "../domain/formatters";
+import {
+  formatItemHistoryValue,
+  getItemHistoryFieldLabel,
+  type ItemHistoryEntry,
+} from "../domain/itemHistory";
+
+type ItemHistoryTimelineProps = {
+  itemId: string;
+  refreshToken: number;
+};
+
+const VALUE_MAX_LENGTH = 60;
+
+const formatValue = (field: string, value: unknown) =>
+  truncate(formatItemHistoryValue(field, value), VALUE_MAX_LENGTH);
+
+const ItemHistoryTimeline: FC<ItemHistoryTimelineProps> = ({
+  itemId,
+  refreshToken,
+}) => {
+  const [entries, setEntries] = useState<ItemHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    setError(null);
+    query<{ entries: ItemHistoryEntry[] }>("item_history", { item_id: itemId })
+      .then((data) => {
+        if (mounted) {
+          setEntries(data.entries);
+        }
+      })
+      .catch((err) => {
+        if (mounted) {
+          setError(err instanceof Error ? err.message : "Unknown error");
+        }
+      })
+      .finally(() => {
+        if (mounted) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [itemId, refreshToken]);
+
+  return (
+    <section className="item-history">
+      <div className="item-history-title">History</div>
+      {error ? <div className="error">{error}</div> : null}
+      {!error && entries.length === 0 ? (
+        <div className="list-empty">
+          {loading ? "Loading history…" : "No changes recorded yet."}
+        </div>
+      ) : null}
+      {entries.length > 0 ? (
+        <ol className="item-history-list">
+          {entries.map((entry) => (
+            <li key={`${entry.op_id}-${entry.item_id}`} className="item-history-entry">
+              <div className="item-history-meta">
+                <span>{entry.actor_name ?? "Unknown user"}</span>
+                <span>{new Date(entry.ts).toLocaleString()}</span>
+                {entry.source === "remote" ? <span>via sync</span> : null}
+              </div>
+              {entry.kind === "updated" ? (
+                entry.changes.map((change) => (
+                  <div key={change.field} className="item-history-change">
+                    <span className="item-history-field">
+                      {getItemHistoryFieldLabel(change.field)}
+                    </span>
+                    <span className="item-history-old">
+                      {formatValue(change.field, change.old_value)}
+                    </span>
+                    <span aria-hidden="true">→</span>
+                    <span>{formatValue(change.field, change.new_value)}</span>
+                  </div>
+                ))
+              ) : (
+                <div className="item-history-change">
+                  {entry.kind === "created" ? "Created" : "Deleted"}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      ) : null}
+    </section>
+  );
+};
+
+export default ItemHistoryTimeline;
@@ -9,6 +9,7 @@ import {
   type ReactNode,
 } from "react";
 import * as ContextMenu from "@radix-ui/react-context-menu";
+import { DropdownMenu } from "@radix-ui/themes";
 import { query, mutate } from "../rpc/clientSingleton";
 import { UNGROUPED_PROJECT_ID, UNGROUPED_PROJECT_LABEL } from "./constants";
 import { scopeKey } from "../domain/scope";
@@ -20,6 +21,7 @@ import type {
 } from "../domain/listTypes";
 import type { Scope } from "../domain/scope";
 import { buildListViewModel } from "../domain/listViewModel";
+import type { SavedViewSort, SavedViewState } from "../domain/savedViews";
 import {
   formatDate,
   formatEstimateMinutes,
@@ -60,7 +62,77 @@ type ListViewItem = ListItem & {
   slack_minutes: number | null;
 };
 
+type SavedListFilter = { name: string; query: string };
+
 const listViewCache = new Map<string, ListViewItem[]>();
+const SAVED_FILTERS_SETTING_KEY = "list.saved_filters";
+const FILTER_PLACEHOLDER = "Filter: status:ready,in_progress assignee:me due:<7d -tag:later";
+
+const GROUP_BY_OPTIONS = [
+  { value: "milestone", label: "Group: milestones" },
+  { value: "none", label: "Group: none" },
+];
+const SORTABLE_COLUMN_KEYS = new Set([
+  "title",
+  "status",
+  "priority",
+  "due_at",
+  "completed_on",
+  "slack_minutes",
+  "start_time",
+  "estimate_minutes",
+  "actual_minutes",
+  "health",
+]);
+
+const getSortValue = (item: ListViewItem, key: string) => {
+  if (key === "start_time") {
+    return item.scheduled_blocks.length > 0
+      ? Math.min(...item.scheduled_blocks.map((block) => block.start_at))
+      : null;
+  }
+  const value = (item as Record<string, unknown>)[key];
+  return typeof value === "number" || typeof value === "string" ? value : null;
+};
+
+// Empty values sort last in either direction; ties keep manual order.
+const compareBySort =
+  (sort: SavedViewSort[]) => (a: ListViewItem, b: ListViewItem) => {
+    for (const { key, dir } of sort) {
+      const aValue = getSortValue(a, key);
+      const bValue = getSortValue(b, key);
+      if (aValue === bValue) {
+        continue;
+      }
+      if (aValue === null) {
+        return 1;
+      }
+      if (bValue === null) {
+        return -1;
+      }
+      const diff =
+        typeof aValue === "number" && typeof bValue === "number"
+          ? aValue - bValue
+          : String(aValue).localeCompare(String(bValue));
+      if (diff !== 0) {
+        return dir === "desc" ? -diff : diff;
+      }
+    }
+    return a.sort_order - b.sort_order;
+  };
+
+const normalizeSavedFilters = (value: unknown): SavedListFilter[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(
+    (entry): entry is SavedListFilter =>
+      !!entry &&
+      typeof entry === "object" &&
+      typeof (entry as SavedListFilter).name === "string" &&
+      typeof (entry as SavedListFilter).query === "string"
+  );
+};
 const STATUS_OPTIONS = [
   { value: "backlog", label: "backlog" },
   { value: "ready", label: "ready" },
@@ -88,6 +160,10 @@ type ListViewProps = {
   refreshToken: number;
   onRefresh: () => void;
   onOpenItem?: (itemId: string) => void;
+  // Layout restored from a saved view; re-applied whenever the key changes.
+  viewState?: SavedViewState | null;
+  viewStateKey?: string | null;
+  onViewStateChange?: (state: SavedViewState) => void;
 };
 
 const ListView: FC<ListViewProps> = ({
@@ -95,6 +171,9 @@ const ListView: FC<ListViewProps> = ({
   refreshToken,
   onRefresh,
   onOpenItem,
+  viewState,
+  viewStateKey,
+  onViewStateChange,
 }) => {
   const [items, setItems] = useState<ListViewItem[]>([]);
   const [loading, setLoading] = useState(false);
@@ -136,6 +215,36 @@ const ListView: FC<ListViewProps> = ({
   } | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
   const [lastFocusedIndex, setLastFocusedIndex] = useState<number | null>(null);
+  const [filterDraft, setFilterDraft] = useState("");
+  const [activeFilter, setActiveFilter] = useState("");
+  const [savedFilters, setSavedFilters] = useState<SavedListFilter[]>([]);
+  const [savingFilterName, setSavingFilterName] = useState<string | null>(null);
+  const [sort, setSort] = useState<SavedViewSort[]>([]);
+  const [groupBy, setGroupBy] = useState("milestone");
+  const [visibleColumnKeys, setVisibleColumnKeys] = useState<string[] | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (!viewStateKey || !viewState) {
+      return;
+    }
+    setFilterDraft(viewState.filter);
+    setActiveFilter(viewState.filter);
+    setSort(viewState.sort);
+    setGroupBy(viewState.group_by === "none" ? "none" : "milestone");
+    setVisibleColumnKeys(viewState.columns);
+    // Only a newly opened view resets the layout, not its later echoes.
+  }, [viewStateKey]);
+
+  useEffect(() => {
+    onViewStateChange?.({
+      filter: activeFilter,
+      sort,
+      group_by: groupBy,
+      columns: visibleColumnKeys,
+    });
+  }, [activeFilter, groupBy, onViewStateChange, sort, visibleColumnKeys]);
 
   const getLastVisibleId = (groupItems: ListViewItem[]) => {
     if (groupItems.length === 0) {
@@ -150,8 +259,13 @@ const ListView: FC<ListViewProps> = ({
   };
 
   const isUserScope = scope.kind === "user";
+  const isFiltered = activeFilter !== "";
+  const isSorted = sort.length > 0;
+  const isFlat = isUserScope || isFiltered || groupBy === "none";
   const projectScopeId = scope.kind === "project" ? scope.projectId : null;
-  const cacheKey = scopeKey(scope);
+  const cacheKey = isFiltered
+    ? `${scopeKey(scope)}|${activeFilter}`
+    : scopeKey(scope);
 
   const loadItems = useCallback(async () => {
     if (scope.kind === "project" && !scope.projectId) {
@@ -166,6 +280,7 @@ const ListView: FC<ListViewProps> = ({
         includeCanceled: true,
         orderBy: "due_at",
         orderDir: "asc",
+        filter: activeFilter || undefined,
       }),
       query<ItemGanttModel[]>("list_view_complete", {
         scope,
@@ -174,6 +289,7 @@ const ListView: FC<ListViewProps> = ({
           : { scopeUserId: scope.userId }),
         includeUngrouped: false,
         includeCompleted: true,
+        filter: activeFilter || undefined,
       }),
     ]);
     const completeMap = new Map(
@@ -194,7 +310,7 @@ const ListView: FC<ListViewProps> = ({
       };
     });
     return merged;
-  }, [scope]);
+  }, [activeFilter, scope]);
 
   const loadArchivedItems = useCallback(async () => {
     if (scope.kind !== "project" || !scope.projectId) {
@@ -208,6 +324,7 @@ const ListView: FC<ListViewProps> = ({
         orderBy: "updated_at",
         orderDir: "desc",
         archiveFilter: "archived",
+        filter: activeFilter || undefined,
       }),
       query<ItemGanttModel[]>("list_view_complete", {
         scope,
@@ -215,6 +332,7 @@ const ListView: FC<ListViewProps> = ({
         includeUngrouped: false,
         includeCompleted: true,
         archiveFilter: "archived",
+        filter: activeFilter || undefined,
       }),
     ]);
     const completeMap = new Map(
@@ -234,7 +352,7 @@ const ListView: FC<ListViewProps> = ({
         slack_minutes: extra?.slack_minutes ?? null,
       };
     });
-  }, [scope]);
+  }, [activeFilter, scope]);
 
   const loadProjects = useCallback(async () => {
     setProjectsError(null);
@@ -302,6 +420,76 @@ const ListView: FC<ListViewProps> = ({
     void loadProjects();
   }, [loadProjects, refreshToken]);
 
+  useEffect(() => {
+    let isMounted = true;
+    query<Record<string, unknown>>("getSettings", {})
+      .then((settings) => {
+        if (!isMounted) {
+          return;
+        }
+        setSavedFilters(normalizeSavedFilters(settings[SAVED_FILTERS_SETTING_KEY]));
+      })
+      .catch(() => {
+        if (isMounted) {
+          setSavedFilters([]);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [refreshToken]);
+
+  const persistSavedFilters = useCallback(
+    async (next: SavedListFilter[]) => {
+      const previous = savedFilters;
+      setSavedFilters(next);
+      try {
+        await mutate("set_setting", {
+          key: SAVED_FILTERS_SETTING_KEY,
+          value: next,
+        });
+      } catch (err) {
+        setSavedFilters(previous);
+        const message = err instanceof Error ? err.message : "Unknown error";
+        setError(message);
+      }
+    },
+    [savedFilters]
+  );
+
+  const applyFilter = useCallback((value: string) => {
+    const trimmed = value.trim();
+    setFilterDraft(trimmed);
+    setActiveFilter(trimmed);
+  }, []);
+
+  const handleSaveFilter = useCallback(async () => {
+    const name = savingFilterName?.trim() ?? "";
+    const filterQuery = filterDraft.trim();
+    if (!name || !filterQuery) {
+      return;
+    }
+    const next = [
+      ...savedFilters.filter((entry) => entry.name !== name),
+      { name, query: filterQuery },
+    ].sort((a, b) => a.name.localeCompare(b.name));
+    setSavingFilterName(null);
+    setActiveFilter(filterQuery);
+    await persistSavedFilters(next);
+  }, [filterDraft, persistSavedFilters, savedFilters, savingFilterName]);
+
+  const activeSavedFilter =
+    savedFilters.find((entry) => entry.query === activeFilter) ?? null;
+
+  const handleDeleteSavedFilter = useCallback(async () => {
+    if (!activeSavedFilter) {
+      return;
+    }
+    await persistSavedFilters(
+      savedFilters.filter((entry) => entry.name !== activeSavedFilter.name)
+    );
+  }, [activeSavedFilter, persistSavedFilters, savedFilters]);
+
   useEffect(() => {
     if (scope.kind !== "project" || !scope.projectId) {
       setArchivedItems([]);
@@ -342,11 +530,33 @@ const ListView: FC<ListViewProps> = ({
         items,
         selectedProjectId: projectScopeId,
         ungroupedProjectId: UNGROUPED_PROJECT_ID,
-        mode: isUserScope ? "user" : "project",
+        // Filtered results render as a flat task list because matching tasks
+        // may sit under milestones the filter excluded.
+        mode: isFlat ? "user" : "project",
       }),
-    [isUserScope, items, projectScopeId]
+    [isFlat, items, projectScopeId]
   );
 
+  const sortedViewModel = useMemo(() => {
+    if (!isSorted) {
+      return viewModel;
+    }
+    const compare = compareBySort(sort);
+    const sortMap = <T,>(map: Map<string, ListViewItem[]>) =>
+      new Map(
+        Array.from(map.entries()).map(([key, list]) => [key, list.slice().sort(compare)])
+      ) as T;
+    return {
+      ...viewModel,
+      milestones: viewModel.milestones.slice().sort(compare),
+      ungroupedTasks: viewModel.ungroupedTasks.slice().sort(compare),
+      taskChildren: sortMap<typeof viewModel.taskChildren>(viewModel.taskChildren),
+      tasksUnderMilestone: sortMap<typeof viewModel.tasksUnderMilestone>(
+        viewModel.tasksUnderMilestone
+      ),
+    };
+  }, [isSorted, sort, viewModel]);
+
   const {
     parentTypeMap,
     itemById,
@@ -357,7 +567,7 @@ const ListView: FC<ListViewProps> = ({
     ungroupedTasks,
     ungroupedParentId,
     getAllTasksUnderMilestone,
-  } = viewModel;
+  } = sortedViewModel;
 
   const archivedItemById = useMemo(() => {
     const map = new Map<string, ListViewItem>();
@@ -905,7 +1115,7 @@ const ListView: FC<ListViewProps> = ({
     [archivedItemById, itemById]
   );
 
-  const columns = useMemo<Column[]>(
+  const allColumns = useMemo<Column[]>(
     () => [
       {
         key: "title",
@@ -1163,6 +1373,45 @@ const ListView: FC<ListViewProps> = ({
     ]
   );
 
+  // The title column always renders; saved layouts list the others in order.
+  const columns = useMemo(() => {
+    if (!visibleColumnKeys) {
+      return allColumns;
+    }
+    const byKey = new Map(allColumns.map((column) => [column.key, column]));
+    const ordered = visibleColumnKeys
+      .filter((key) => key !== "title")
+      .map((key) => byKey.get(key))
+      .filter((column): column is Column => !!column);
+    return [byKey.get("title")!, ...ordered];
+  }, [allColumns, visibleColumnKeys]);
+
+  const toggleColumn = useCallback(
+    (key: string, visible: boolean) => {
+      setVisibleColumnKeys((prev) => {
+        const current = prev ?? allColumns.map((column) => column.key);
+        if (visible) {
+          const next = new Set([...current, key]);
+          return allColumns
+            .map((column) => column.key)
+            .filter((columnKey) => next.has(columnKey));
+        }
+        return current.filter((columnKey) => columnKey !== key);
+      });
+    },
+    [allColumns]
+  );
+
+  const toggleSort = useCallback((key: string) => {
+    setSort((prev) => {
+      const current = prev[0]?.key === key ? prev[0].dir : null;
+      if (current === null) {
+        return [{ key, dir: "asc" }];
+      }
+      return current === "asc" ? [{ key, dir: "desc" }] : [];
+    });
+  }, []);
+
   const handleBulkArchive = useCallback(async () => {
     if (selectedIds.size === 0) {
       return;
@@ -2706,7 +2955,7 @@ const ListView: FC<ListViewProps> = ({
 
 
   const renderDragHandle = (itemId: string, groupKey: string) => {
-    if (isUserScope) {
+    if (isFlat || isSorted) {
       return null;
     }
     return (
@@ -2724,7 +2973,13 @@ const ListView: FC<ListViewProps> = ({
 
   const showLoading = loading && !hasLoadedOnce;
   const isRefreshing = loading && hasLoadedOnce;
-  const ungroupedLabel = isUserScope ? "Assigned tasks" : "Ungrouped";
+  const ungroupedLabel = isFiltered
+    ? "Matching tasks"
+    : isUserScope
+      ? "Assigned tasks"
+      : groupBy === "none"
+        ? "All tasks"
+        : "Ungrouped";
   const activeRowId =
     lastFocusedIndex !== null ? visibleRowIds[lastFocusedIndex] : null;
 
@@ -2756,6 +3011,125 @@ const ListView: FC<ListViewProps> = ({
           </div>
         </div>
       ) : null}
+      <div className="list-filter-bar">
+        <form
+          className="list-filter-form"
+          onSubmit={(event) => {
+            event.preventDefault();
+            applyFilter(filterDraft);
+          }}
+        >
+          <AppInput
+            value={filterDraft}
+            placeholder={FILTER_PLACEHOLDER}
+            aria-label="Filter expression"
+            onChange={(event) => setFilterDraft(event.target.value)}
+          />
+        </form>
+        {savedFilters.length > 0 ? (
+          <AppSelect
+            value={activeSavedFilter?.name ?? ""}
+            placeholder="Saved views"
+            onChange={(value) => {
+              const saved = savedFilters.find((entry) => entry.name === value);
+              applyFilter(saved?.query ?? "");
+            }}
+            options={[
+              { value: "", label: "All items" },
+              ...savedFilters.map((entry) => ({
+                value: entry.name,
+                label: entry.name,
+              })),
+            ]}
+          />
+        ) : null}
+        {isUserScope ? null : (
+          <AppSelect
+            value={groupBy}
+            onChange={setGroupBy}
+            options={GROUP_BY_OPTIONS}
+          />
+        )}
+        <DropdownMenu.Root>
+          <DropdownMenu.Trigger>
+            <AppButton type="button" variant="ghost">
+              Columns
+            </AppButton>
+          </DropdownMenu.Trigger>
+          <DropdownMenu.Content>
+            {allColumns
+              .filter((column) => column.key !== "title" && column.label)
+              .map((column) => (
+                <DropdownMenu.CheckboxItem
+                  key={column.key}
+                  checked={columns.some((entry) => entry.key === column.key)}
+                  onSelect={(event) => event.preventDefault()}
+                  onCheckedChange={(checked) =>
+                    toggleColumn(column.key, checked === true)
+                  }
+                >
+                  {column.label}
+                </DropdownMenu.CheckboxItem>
+              ))}
+            <DropdownMenu.Separator />
+            <DropdownMenu.Item onSelect={() => setVisibleColumnKeys(null)}>
+              Show all columns
+            </DropdownMenu.Item>
+          </DropdownMenu.Content>
+        </DropdownMenu.Root>
+        {savingFilterName !== null ? (
+          <form
+            className="list-filter-form"
+            onSubmit={(event) => {
+              event.preventDefault();
+              void handleSaveFilter();
+            }}
+          >
+            <AppInput
+              autoFocus
+              value={savingFilterName}
+              placeholder="View name"
+              aria-label="Saved view name"
+              onChange={(event) => setSavingFilterName(event.target.value)}
+            />
+            <AppButton type="submit" variant="surface">
+              Save
+            </AppButton>
+            <AppButton
+              type="button"
+              variant="ghost"
+              onClick={() => setSavingFilterName(null)}
+            >
+              Cancel
+            </AppButton>
+          </form>
+        ) : (
+          <>
+            <AppButton
+              type="button"
+              variant="ghost"
+              disabled={!filterDraft.trim()}
+              onClick={() => setSavingFilterName(activeSavedFilter?.name ?? "")}
+            >
+              Save view…
+            </AppButton>
+            {activeSavedFilter ? (
+              <AppButton
+                type="button"
+                variant="ghost"
+                onClick={() => void handleDeleteSavedFilter()}
+              >
+                Delete view
+              </AppButton>
+            ) : null}
+            {isFiltered ? (
+              <AppButton type="button" variant="ghost" onClick={() => applyFilter("")}>
+                Clear
+              </AppButton>
+            ) : null}
+          </>
+        )}
+      </div>
       {showLoading ? <div className="list-empty">Loading…</div> : null}
       {isRefreshing ? <div className="view-refreshing">Refreshing…</div> : null}
       {error ? <div className="error">{error}</div> : null}
@@ -2776,8 +3150,30 @@ const ListView: FC<ListViewProps> = ({
                   key={column.key}
                   style={{ width: column.minWidth }}
                   className={column.key === "title" ? "title-header" : undefined}
+                  aria-sort={
+                    sort[0]?.key === column.key
+                      ? sort[0].dir === "asc"
+                        ? "ascending"
+                        : "descending"
+                      : undefined
+                  }
                 >
-                  {column.label}
+                  {SORTABLE_COLUMN_KEYS.has(column.key) ? (
+                    <button
+                      type="button"
+                      className="list-sort-toggle"
+                      onClick={() => toggleSort(column.key)}
+                    >
+                      {column.label}
+                      {sort[0]?.key === column.key
+                        ? sort[0].dir === "asc"
+                          ? " ▲"
+                          : " ▼"
+                        : null}
+                    </button>
+                  ) : (
+                    column.label
+                  )}
                 </th>
               ))}
             </tr>
@@ -2786,7 +3182,7 @@ const ListView: FC<ListViewProps> = ({
             {!showLoading && milestones.length === 0 && ungroupedTasks.length === 0 ? (
               <tr>
                   <td colSpan={columns.length} className="list-empty">
-                    No items yet
+                    {isFiltered ? "No matching items" : "No items yet"}
                   </td>
                 </tr>
               ) : (
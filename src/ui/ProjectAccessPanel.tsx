@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useState, type FC } from "react";
+import { Flex, Text } from "@radix-ui/themes";
+import { mutate, query } from "../rpc/clientSingleton";
+import type { ProjectMembers, TeamRole } from "../rpc/types";
+import { AppButton, AppSelect } from "./controls";
+
+type ProjectOption = { id: string; title: string; type: string; parent_id: string | null };
+type TeamMemberOption = { user_id: string; display_name: string };
+
+const ROLE_OPTIONS = [
+  { value: "editor", label: "Editor" },
+  { value: "viewer", label: "Viewer" },
+  { value: "owner", label: "Owner" },
+];
+
+const asRole = (value: string): TeamRole =>
+  value === "owner" || value === "viewer" ? value : "editor";
+
+// Who can see and edit one project. Adding the first member restricts the
+// project to its members; team owners always keep access.
+const ProjectAccessPanel: FC = () => {
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [teamMembers, setTeamMembers] = useState<TeamMemberOption[]>([]);
+  const [projectId, setProjectId] = useState("");
+  const [access, setAccess] = useState<ProjectMembers | null>(null);
+  const [newUserId, setNewUserId] = useState("");
+  const [newRole, setNewRole] = useState<TeamRole>("editor");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      query<{ items: ProjectOption[] }>("listItems", { includeDone: true, includeCanceled: true }),
+      query<{ members: TeamMemberOption[] }>("team.current", {}),
+    ])
+      .then(([items, team]) => {
+        const roots = items.items.filter((item) => item.type === "project" && !item.parent_id);
+        setProjects(roots);
+        setTeamMembers(team.members);
+        setProjectId((current) => current || roots[0]?.id || "");
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      });
+  }, []);
+
+  const load = useCallback(async (id: string) => {
+    setAccess(id ? await query<ProjectMembers>("project.members", { project_id: id }) : null);
+  }, []);
+
+  useEffect(() => {
+    load(projectId).catch((err) => {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    });
+  }, [load, projectId]);
+
+  const run = async (opName: string, args: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await mutate(opName, { project_id: projectId, ...args });
+      await load(projectId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (projects.length === 0) {
+    return error ? (
+      <div className="error">{error}</div>
+    ) : (
+      <Text size="1" color="gray">
+        No projects yet.
+      </Text>
+    );
+  }
+
+  const canManage = access?.role === "owner";
+  const listedIds = new Set(access?.members.map((member) => member.user_id) ?? []);
+  const candidates = teamMembers.filter((member) => !listedIds.has(member.user_id));
+
+  return (
+    <div className="project-access">
+      <AppSelect
+        value={projectId}
+        onChange={setProjectId}
+        options={projects.map((project) => ({ value: project.id, label: project.title }))}
+      />
+      {access ? (
+        <Text size="1" color="gray">
+          {access.restricted
+            ? `Only listed members and team owners can open this project. Your role: ${access.role ?? "no access"}.`
+            : `Open to the whole team at their team roles. Your role: ${access.role ?? "no access"}.`}
+        </Text>
+      ) : null}
+      {access?.members.map((member) => (
+        <Flex key={member.user_id} align="center" justify="between" gap="3" className="project-access-row">
+          <Text size="2">{member.display_name}</Text>
+          <Flex align="center" gap="2">
+            <AppSelect
+              value={member.role}
+              disabled={!canManage || busy}
+              onChange={(value) =>
+                void run("project.member.set_role", { user_id: member.user_id, role: asRole(value) })
+              }
+              options={ROLE_OPTIONS}
+            />
+            <AppButton
+              type="button"
+              size="1"
+              variant="ghost"
+              disabled={!canManage || busy}
+              onClick={() => void run("project.member.remove", { user_id: member.user_id })}
+            >
+              Remove
+            </AppButton>
+          </Flex>
+        </Flex>
+      ))}
+      {canManage && candidates.length > 0 ? (
+        <Flex align="center" gap="2" wrap="wrap">
+          <AppSelect
+            value={newUserId}
+            placeholder="Add a team member"
+            onChange={setNewUserId}
+            options={candidates.map((member) => ({
+              value: member.user_id,
+              label: member.display_name,
+            }))}
+          />
+          <AppSelect
+            value={newRole}
+            onChange={(value) => setNewRole(asRole(value))}
+            options={ROLE_OPTIONS}
+          />
+          <AppButton
+            type="button"
+            size="1"
+            variant="surface"
+            disabled={!newUserId || busy}
+            onClick={() => {
+              const userId = newUserId;
+              setNewUserId("");
+              void run("project.member.set_role", { user_id: userId, role: newRole });
+            }}
+          >
+            Add
+          </AppButton>
+        </Flex>
+      ) : null}
+      {error ? <div className="error">{error}</div> : null}
+    </div>
+  );
+};
+
+export default ProjectAccessPanel;
@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useState, type FC } from "react";
+import { query } from "../rpc/clientSingleton";
+import type { Scope } from "../domain/scope";
+import { formatEstimateMinutes } from "../domain/formatters";
+import { formatZonedDay, parseZonedDay } from "../domain/timeZone";
+import { addDays, startOfDay } from "./dateWindow";
+import { useTimeZone } from "./TimeZoneContext";
+import { AppButton, AppInput, AppSelect } from "./controls";
+
+type ReportGroupBy = "project" | "milestone" | "assignee" | "tag" | "week" | "month";
+
+type ReportTotals = {
+  logged_minutes: number;
+  completed_count: number;
+  estimate_minutes: number;
+  actual_minutes: number;
+  accuracy_ratio: number | null;
+  over_count: number;
+  under_count: number;
+  unestimated_count: number;
+};
+
+type ReportGroup = ReportTotals & { key: string; label: string };
+
+type ReportTask = {
+  item_id: string;
+  title: string;
+  completed_at: number;
+  estimate_minutes: number;
+  actual_minutes: number;
+  accuracy_ratio: number | null;
+  error_minutes: number;
+  groups: string[];
+};
+
+type UnestimatedTask = Omit<ReportTask, "accuracy_ratio" | "error_minutes">;
+
+type TimeReport = {
+  group_by: ReportGroupBy;
+  groups: ReportGroup[];
+  totals: ReportTotals;
+  tasks: ReportTask[];
+  unestimated: UnestimatedTask[];
+};
+
+type ReportsViewProps = {
+  scope: Scope;
+  refreshToken: number;
+  onOpenItem: (itemId: string) => void;
+};
+
+const GROUP_OPTIONS = [
+  { value: "project", label: "Project" },
+  { value: "milestone", label: "Milestone" },
+  { value: "assignee", label: "Assignee" },
+  { value: "tag", label: "Tag" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+];
+
+const MISSED_TASK_LIMIT = 10;
+
+// Date inputs hold calendar days in the user's zone.
+const fromDateInput = (value: string, timeZone: string) =>
+  new Date(parseZonedDay(value, timeZone) ?? startOfDay(new Date(), timeZone).getTime());
+
+const formatRatio = (ratio: number | null) => (ratio === null ? "—" : `${ratio.toFixed(2)}×`);
+
+const ReportsView: FC<ReportsViewProps> = ({ scope, refreshToken, onOpenItem }) => {
+  const { timeZone } = useTimeZone();
+  const [fromDay, setFromDay] = useState(() =>
+    formatZonedDay(
+      addDays(startOfDay(new Date(), timeZone), -27, timeZone).getTime(),
+      timeZone
+    )
+  );
+  const [toDay, setToDay] = useState(() => formatZonedDay(Date.now(), timeZone));
+  const [groupBy, setGroupBy] = useState<ReportGroupBy>("project");
+  const [report, setReport] = useState<TimeReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // The end day is inclusive in the picker and exclusive in the query.
+  const rangeArgs = useCallback(
+    () => ({
+      scope,
+      group_by: groupBy,
+      time_min: fromDateInput(fromDay, timeZone).getTime(),
+      time_max: addDays(fromDateInput(toDay, timeZone), 1, timeZone).getTime(),
+    }),
+    [fromDay, groupBy, scope, timeZone, toDay]
+  );
+
+  useEffect(() => {
+    setError(null);
+    query<TimeReport>("time_report", rangeArgs())
+      .then(setReport)
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      });
+  }, [rangeArgs, refreshToken]);
+
+  const handleExport = async () => {
+    try {
+      const exported = await query<{ filename: string; content: string }>(
+        "export_time_report",
+        rangeArgs()
+      );
+      const url = URL.createObjectURL(
+        new Blob([exported.content], { type: "text/csv;charset=utf-8" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = exported.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const chartMax = Math.max(
+    1,
+    ...(report?.groups ?? []).flatMap((group) => [
+      group.logged_minutes,
+      group.estimate_minutes,
+      group.actual_minutes,
+    ])
+  );
+  const barWidth = (minutes: number) => `${(minutes / chartMax) * 100}%`;
+
+  return (
+    <div className="report-root">
+      <div className="report-toolbar">
+        <label>
+          From
+          <AppInput type="date" value={fromDay} onChange={(event) => setFromDay(event.target.value)} />
+        </label>
+        <label>
+          To
+          <AppInput type="date" value={toDay} onChange={(event) => setToDay(event.target.value)} />
+        </label>
+        <label>
+          Group by
+          <AppSelect
+            value={groupBy}
+            onChange={(value) => setGroupBy(value as ReportGroupBy)}
+            options={GROUP_OPTIONS}
+          />
+        </label>
+        <AppButton type="button" size="1" variant="surface" onClick={() => void handleExport()}>
+          Export CSV
+        </AppButton>
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {report ? (
+        <>
+          <div className="report-summary">
+            <span>Logged {formatEstimateMinutes(report.totals.logged_minutes)}</span>
+            <span>
+              {report.totals.completed_count - report.totals.unestimated_count} estimated tasks
+              done: planned {formatEstimateMinutes(report.totals.estimate_minutes)}, took{" "}
+              {formatEstimateMinutes(report.totals.actual_minutes)} (
+              {formatRatio(report.totals.accuracy_ratio)})
+            </span>
+            <span>
+              {report.totals.over_count} over, {report.totals.under_count} under estimate
+            </span>
+            {report.totals.unestimated_count > 0 ? (
+              <span>{report.totals.unestimated_count} done without an estimate</span>
+            ) : null}
+          </div>
+
+          <div className="report-legend">
+            <span className="report-swatch is-logged" /> Logged in range
+            <span className="report-swatch is-estimate" /> Estimate (done tasks)
+            <span className="report-swatch is-actual" /> Actual (done tasks)
+          </div>
+          <div className="report-chart">
+            {report.groups.length === 0 ? (
+              <div className="report-empty">No time logged or tasks finished in this range.</div>
+            ) : (
+              report.groups.map((group) => (
+                <div key={group.key} className="report-chart-row">
+                  <div className="report-chart-label" title={group.label}>
+                    {group.label}
+                  </div>
+                  <div className="report-chart-bars">
+                    <div
+                      className="report-bar is-logged"
+                      style={{ width: barWidth(group.logged_minutes) }}
+                    />
+                    <div
+                      className="report-bar is-estimate"
+                      style={{ width: barWidth(group.estimate_minutes) }}
+                    />
+                    <div
+                      className="report-bar is-actual"
+                      style={{ width: barWidth(group.actual_minutes) }}
+                    />
+                  </div>
+                  <div className="report-chart-ratio">{formatRatio(group.accuracy_ratio)}</div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {report.tasks.length > 0 ? (
+            <table className="report-table">
+              <thead>
+                <tr>
+                  <th>Biggest misses</th>
+                  <th>Estimate</th>
+                  <th>Actual</th>
+                  <th>Ratio</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.tasks.slice(0, MISSED_TASK_LIMIT).map((task) => (
+                  <tr key={task.item_id}>
+                    <td>
+                      <button
+                        type="button"
+                        className="report-task-link"
+                        onClick={() => onOpenItem(task.item_id)}
+                      >
+                        {task.title}
+                      </button>
+                    </td>
+                    <td>{formatEstimateMinutes(task.estimate_minutes)}</td>
+                    <td>{formatEstimateMinutes(task.actual_minutes)}</td>
+                    <td>{formatRatio(task.accuracy_ratio)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : null}
+
+          {report.unestimated.length > 0 ? (
+            <table className="report-table">
+              <thead>
+                <tr>
+                  <th>Unestimated</th>
+                  <th>Actual</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.unestimated.slice(0, MISSED_TASK_LIMIT).map((task) => (
+                  <tr key={task.item_id}>
+                    <td>
+                      <button
+                        type="button"
+                        className="report-task-link"
+                        onClick={() => onOpenItem(task.item_id)}
+                      >
+                        {task.title}
+                      </button>
+                    </td>
+                    <td>{formatEstimateMinutes(task.actual_minutes)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+};
+
+export default ReportsView;
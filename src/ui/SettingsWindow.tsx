@@ -75,6 +75,13 @@ import { loadTheme, setTheme, type ThemeName } from "../theme/themeStore";
 import type { AuthMode } from "../auth/authConfig";
 import { getAuthRemoteBaseUrl } from "../auth/authProvider";
 import SampleDataPanel from "./SampleDataPanel";
+import SyncDeadLetterPanel from "./SyncDeadLetterPanel";
+import ProjectAccessPanel from "./ProjectAccessPanel";
+import CapacityPanel from "./CapacityPanel";
+import TimeZonePanel from "./TimeZonePanel";
+import WorkingCalendarPanel from "./WorkingCalendarPanel";
+import SyncDiagnosticsPanel from "./SyncDiagnosticsPanel";
+import SyncProjectsPanel from "./SyncProjectsPanel";
 import { AppButton, AppIconButton, AppInput, AppSelect } from "./controls";
 import type { AuthSession, TeamRole } from "../rpc/types";
 
@@ -1517,49 +1524,63 @@ const SettingsWindow: FC<SettingsWindowProps> = ({
             ) : null}
 
             {activeSection === "scheduling" ? (
-              <Card size="2">
-                <Flex direction="column" gap="3">
-                  <Heading size="3">Work Hours</Heading>
-                  <Text size="2" color="gray">
-                    Set the calendar scheduling range for your day.
-                  </Text>
-                  <Flex align="end" gap="3" wrap="wrap">
-                    <label style={{ display: "grid", gap: 6, minWidth: 120 }}>
-                      <Text size="1" color="gray">
-                        Start
-                      </Text>
-                      <AppSelect
-                        value={String(workStartHour)}
-                        onChange={handleWorkStartChange}
-                        options={startHourOptions}
-                      />
-                    </label>
-                    <label style={{ display: "grid", gap: 6, minWidth: 120 }}>
-                      <Text size="1" color="gray">
-                        End
+              <Flex direction="column" gap="4">
+                <Card size="2">
+                  <Flex direction="column" gap="3">
+                    <Heading size="3">Work Hours</Heading>
+                    <Text size="2" color="gray">
+                      Set the calendar scheduling range for your day.
+                    </Text>
+                    <Flex align="end" gap="3" wrap="wrap">
+                      <label style={{ display: "grid", gap: 6, minWidth: 120 }}>
+                        <Text size="1" color="gray">
+                          Start
+                        </Text>
+                        <AppSelect
+                          value={String(workStartHour)}
+                          onChange={handleWorkStartChange}
+                          options={startHourOptions}
+                        />
+                      </label>
+                      <label style={{ display: "grid", gap: 6, minWidth: 120 }}>
+                        <Text size="1" color="gray">
+                          End
+                        </Text>
+                        <AppSelect
+                          value={String(workEndHour)}
+                          onChange={handleWorkEndChange}
+                          options={endHourOptions}
+                        />
+                      </label>
+                      <AppButton
+                        type="button"
+                        variant="surface"
+                        onClick={() => void handleSaveWorkHours()}
+                        disabled={savingWorkHours}
+                      >
+                        {savingWorkHours ? "Saving..." : "Save hours"}
+                      </AppButton>
+                    </Flex>
+                    {workHoursError ? (
+                      <Text size="1" color="red">
+                        {workHoursError}
                       </Text>
-                      <AppSelect
-                        value={String(workEndHour)}
-                        onChange={handleWorkEndChange}
-                        options={endHourOptions}
-                      />
-                    </label>
-                    <AppButton
-                      type="button"
-                      variant="surface"
-                      onClick={() => void handleSaveWorkHours()}
-                      disabled={savingWorkHours}
-                    >
-                      {savingWorkHours ? "Saving..." : "Save hours"}
-                    </AppButton>
+                    ) : null}
                   </Flex>
-                  {workHoursError ? (
-                    <Text size="1" color="red">
-                      {workHoursError}
-                    </Text>
-                  ) : null}
-                </Flex>
-              </Card>
+                </Card>
+                <Card size="2">
+                  <Flex direction="column" gap="3">
+                    <Heading size="3">Time Zone</Heading>
+                    <TimeZonePanel
+                      userId={activeSession?.user_id ?? null}
+                      onSaved={async () => {
+                        await onAuthRefresh?.();
+                        onSettingsChanged?.();
+                      }}
+                    />
+                  </Flex>
+                </Card>
+              </Flex>
             ) : null}
 
             {activeSection === "behavior" ? (
@@ -1729,6 +1750,27 @@ const SettingsWindow: FC<SettingsWindowProps> = ({
                   </Flex>
                 </Card>
 
+                <Card size="2">
+                  <Flex direction="column" gap="3">
+                    <Heading size="3">Project Access</Heading>
+                    <ProjectAccessPanel />
+                  </Flex>
+                </Card>
+
+                <Card size="2">
+                  <Flex direction="column" gap="3">
+                    <Heading size="3">Capacity</Heading>
+                    <CapacityPanel />
+                  </Flex>
+                </Card>
+
+                <Card size="2">
+                  <Flex direction="column" gap="3">
+                    <Heading size="3">Working Calendar</Heading>
+                    <WorkingCalendarPanel />
+                  </Flex>
+                </Card>
+
                 <Card size="2">
                   <Flex direction="column" gap="3">
                     <Heading size="3">Invites</Heading>
@@ -1777,19 +1819,55 @@ const SettingsWindow: FC<SettingsWindowProps> = ({
             ) : null}
 
             {activeSection === "data" ? (
-              <Card size="2">
-                <Flex direction="column" gap="3">
-                  <Heading size="3">Sample Data</Heading>
-                  <Text size="2" color="gray">
-                    Seed a complete sample project with milestones, tasks, and
-                    scheduled blocks.
-                  </Text>
-                  <SampleDataPanel
-                    onSeeded={onSeeded}
-                    onRefresh={() => onSettingsChanged?.()}
-                  />
-                </Flex>
-              </Card>
+              <Flex direction="column" gap="4">
+                <Card size="2">
+                  <Flex direction="column" gap="3">
+                    <Heading size="3">Sample Data</Heading>
+                    <Text size="2" color="gray">
+                      Seed a complete sample project with milestones, tasks, and
+                      scheduled blocks.
+                    </Text>
+                    <SampleDataPanel
+                      onSeeded={onSeeded}
+                      onRefresh={() => onSettingsChanged?.()}
+                    />
+                  </Flex>
+                </Card>
+
+                <Card size="2">
+                  <Flex direction="column" gap="3">
+                    <Heading size="3">Unsent Changes</Heading>
+                    <Text size="2" color="gray">
+                      Changes sync stopped retrying after repeated or permanent
+                      errors. Retry them, fix their payload, or discard them.
+                    </Text>
+                    <SyncDeadLetterPanel onChanged={() => onSettingsChanged?.()} />
+                  </Flex>
+                </Card>
+
+                <Card size="2">
+                  <Flex direction="column" gap="3">
+                    <Heading size="3">Synced Projects</Heading>
+                    <Text size="2" color="gray">
+                      Pull only the projects you work in. Everything else stays
+                      listed but empty on this device.
+                    </Text>
+                    <SyncProjectsPanel onChanged={() => onSettingsChanged?.()} />
+                  </Flex>
+                </Card>
+
+                <Card size="2">
+                  <Flex direction="column" gap="3">
+                    <Heading size="3">Sync Diagnostics</Heading>
+                    <Text size="2" color="gray">
+                      How this device compares with the server. Rebuilding
+                      replaces the local copy with the server&apos;s and keeps
+                      changes not yet sent.
+                    </Text>
+                    <SyncDiagnosticsPanel onChanged={() => onSettingsChanged?.()} />
+                  </Flex>
+                </Card>
+              </Flex>
             ) : null}
           </section>
         </div>
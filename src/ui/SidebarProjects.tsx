@@ -4,6 +4,7 @@ import { PlusIcon } from "@radix-ui/react-icons";
 import { query } from "../rpc/clientSingleton";
 import { UNGROUPED_PROJECT_ID, UNGROUPED_PROJECT_LABEL } from "./constants";
 import type { Scope } from "../domain/scope";
+import type { SavedView } from "../domain/savedViews";
 import { AppButton, AppIconButton } from "./controls";
 type Project = {
   id: string;
@@ -27,6 +28,10 @@ type SidebarProjectsProps = {
   users: UserLite[];
   usersError: string | null;
   onSelectUser: (userId: string) => void;
+  savedViews: SavedView[];
+  activeSavedViewId: string | null;
+  onOpenSavedView: (view: SavedView) => void;
+  onDeleteSavedView: (view: SavedView) => void;
   currentUserName: string;
   onOpenSettings: () => void;
 };
@@ -42,6 +47,10 @@ const SidebarProjects: FC<SidebarProjectsProps> = ({
   users,
   usersError,
   onSelectUser,
+  savedViews,
+  activeSavedViewId,
+  onOpenSavedView,
+  onDeleteSavedView,
   currentUserName,
   onOpenSettings,
 }) => {
@@ -201,6 +210,44 @@ const SidebarProjects: FC<SidebarProjectsProps> = ({
           )}
         </div>
       </div>
+      <div className="sidebar-section">
+        <div className="sidebar-title">Views</div>
+        <div className="sidebar-list">
+          {savedViews.length === 0 ? (
+            <div className="sidebar-empty">No saved views yet</div>
+          ) : (
+            savedViews.map((view) => (
+              <ContextMenu.Root key={view.view_id}>
+                <ContextMenu.Trigger asChild>
+                  <AppButton
+                    className={
+                      view.view_id === activeSavedViewId
+                        ? "sidebar-item is-active"
+                        : "sidebar-item"
+                    }
+                    type="button"
+                    variant="ghost"
+                    title={`${view.name} (${view.view_type})`}
+                    onClick={() => onOpenSavedView(view)}
+                  >
+                    {view.name}
+                  </AppButton>
+                </ContextMenu.Trigger>
+                <ContextMenu.Portal>
+                  <ContextMenu.Content className="context-menu-content">
+                    <ContextMenu.Item
+                      className="context-menu-item"
+                      onSelect={() => onDeleteSavedView(view)}
+                    >
+                      Delete view…
+                    </ContextMenu.Item>
+                  </ContextMenu.Content>
+                </ContextMenu.Portal>
+              </ContextMenu.Root>
+            ))
+          )}
+        </div>
+      </div>
       <div className="sidebar-section">
         <div className="sidebar-title">Team</div>
         <div className="sidebar-list">
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState, type FC } from "react";
+import { Text } from "@radix-ui/themes";
+import { mutate, query } from "../rpc/clientSingleton";
+import type { SyncDeadLetterOp } from "../rpc/types";
+import { AppButton, AppTextArea } from "./controls";
+
+type SyncDeadLetterPanelProps = {
+  onChanged: () => void;
+};
+
+// Local changes sync gave up on. Retrying requeues them as they are; editing
+// rolls the original back and applies the corrected payload as a new change.
+const SyncDeadLetterPanel: FC<SyncDeadLetterPanelProps> = ({ onChanged }) => {
+  const [ops, setOps] = useState<SyncDeadLetterOp[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const data = await query<{ ops: SyncDeadLetterOp[] }>("sync.dead_letter_ops", {});
+    setOps(data.ops);
+  }, []);
+
+  useEffect(() => {
+    load().catch((err) => {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    });
+  }, [load]);
+
+  const run = async (opId: string, action: () => Promise<unknown>) => {
+    setBusyId(opId);
+    setError(null);
+    try {
+      await action();
+      setEditingId(null);
+      await load();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSaveEdit = (op: SyncDeadLetterOp) => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(draft);
+    } catch {
+      setError("Payload must be valid JSON.");
+      return;
+    }
+    void run(op.op_id, () =>
+      mutate("sync.dead_letter.edit", { op_id: op.op_id, payload })
+    );
+  };
+
+  if (ops.length === 0) {
+    return error ? (
+      <div className="error">{error}</div>
+    ) : (
+      <Text size="1" color="gray">
+        No unsent changes.
+      </Text>
+    );
+  }
+
+  return (
+    <div className="sync-dead-letter">
+      <div className="sync-dead-letter-actions">
+        <AppButton
+          type="button"
+          size="1"
+          variant="surface"
+          disabled={busyId !== null}
+          onClick={() => void run("*", () => mutate("sync.dead_letter.retry", {}))}
+        >
+          Retry all
+        </AppButton>
+      </div>
+      {ops.map((op) => {
+        const busy = busyId === op.op_id || busyId === "*";
+        return (
+          <div key={op.op_id} className="sync-dead-letter-op">
+            <div className="sync-dead-letter-meta">
+              <code>{op.op_name}</code>
+              <span>{new Date(op.created_at).toLocaleString()}</span>
+              <span>
+                {op.attempt_count} {op.attempt_count === 1 ? "attempt" : "attempts"}
+              </span>
+            </div>
+            {op.last_error ? <div className="sync-dead-letter-error">{op.last_error}</div> : null}
+            {editingId === op.op_id ? (
+              <>
+                <AppTextArea
+                  value={draft}
+                  rows={6}
+                  onChange={(event) => setDraft(event.target.value)}
+                />
+                <div className="sync-dead-letter-actions">
+                  <AppButton
+                    type="button"
+                    size="1"
+                    disabled={busy}
+                    onClick={() => handleSaveEdit(op)}
+                  >
+                    Save and resend
+                  </AppButton>
+                  <AppButton
+                    type="button"
+                    size="1"
+                    variant="ghost"
+                    disabled={busy}
+                    onClick={() => setEditingId(null)}
+                  >
+                    Cancel
+                  </AppButton>
+                </div>
+              </>
+            ) : (
+              <div className="sync-dead-letter-actions">
+                <AppButton
+                  type="button"
+                  size="1"
+                  variant="surface"
+                  disabled={busy}
+                  onClick={() =>
+                    void run(op.op_id, () =>
+                      mutate("sync.dead_letter.retry", { op_ids: [op.op_id] })
+                    )
+                  }
+                >
+                  Retry
+                </AppButton>
+                <AppButton
+                  type="button"
+                  size="1"
+                  variant="ghost"
+                  disabled={busy}
+                  onClick={() => {
+                    setEditingId(op.op_id);
+                    setDraft(JSON.stringify(op.payload, null, 2));
+                  }}
+                >
+                  Edit
+                </AppButton>
+                <AppButton
+                  type="button"
+                  size="1"
+                  variant="ghost"
+                  disabled={busy}
+                  onClick={() =>
+                    void run(op.op_id, () =>
+                      mutate("sync.dead_letter.discard", { op_ids: [op.op_id] })
+                    )
+                  }
+                >
+                  Discard
+                </AppButton>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {error ? <div className="error">{error}</div> : null}
+    </div>
+  );
+};
+
+export default SyncDeadLetterPanel;
@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useState, type FC } from "react";
+import { Text } from "@radix-ui/themes";
+import { query } from "../rpc/clientSingleton";
+import type { SyncDiagnostics, SyncRebuildResult } from "../rpc/types";
+import { AppButton } from "./controls";
+
+type SyncDiagnosticsPanelProps = {
+  onChanged: () => void;
+};
+
+const formatGap = (gap: { from_seq: number; to_seq: number }) =>
+  gap.from_seq === gap.to_seq ? `${gap.from_seq}` : `${gap.from_seq}–${gap.to_seq}`;
+
+// Read-only view of this device's sync state, plus the last-resort rebuild
+// that replaces the local copy with the server's.
+const SyncDiagnosticsPanel: FC<SyncDiagnosticsPanelProps> = ({ onChanged }) => {
+  const [diagnostics, setDiagnostics] = useState<SyncDiagnostics | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setDiagnostics(await query<SyncDiagnostics>("sync.diagnostics", {}));
+  }, []);
+
+  useEffect(() => {
+    load().catch((err) => {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    });
+  }, [load]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRebuild = () => {
+    if (
+      !confirm(
+        "Rebuild from server? This deletes the local copy of this team and downloads it again. Changes not yet sent are kept."
+      )
+    ) {
+      return;
+    }
+    void run(async () => {
+      const rebuilt = await query<SyncRebuildResult>("sync.rebuild", {});
+      const failed =
+        rebuilt.failed_local_count > 0
+          ? ` ${rebuilt.failed_local_count} local changes could not be reapplied.`
+          : "";
+      setNotice(
+        `Rebuilt through seq ${rebuilt.latest_seq}: ${rebuilt.applied_count} server changes, ${rebuilt.replayed_local_count} local changes reapplied.${failed}`
+      );
+      await load();
+      onChanged();
+    });
+  };
+
+  const statuses = diagnostics ? Object.entries(diagnostics.outbox.by_status) : [];
+
+  return (
+    <div className="sync-diagnostics">
+      {diagnostics ? (
+        <dl className="sync-diagnostics-grid">
+          <dt>Outbox</dt>
+          <dd>
+            {statuses.length > 0
+              ? statuses.map(([status, count]) => `${status} ${count}`).join(", ")
+              : "empty"}
+          </dd>
+          <dt>Last applied seq</dt>
+          <dd>
+            {diagnostics.applied.last_applied_seq}
+            {diagnostics.applied.snapshot_seq > 0
+              ? ` (snapshot at ${diagnostics.applied.snapshot_seq})`
+              : null}
+          </dd>
+          <dt>Server latest seq</dt>
+          <dd>
+            {diagnostics.server.error
+              ? diagnostics.server.error
+              : `${diagnostics.server.latest_seq ?? "?"}${
+                  diagnostics.server.behind_by
+                    ? ` (${diagnostics.server.behind_by} behind)`
+                    : ""
+                }${diagnostics.server.snapshot_required ? ", snapshot required" : ""}`}
+          </dd>
+          <dt>Gaps</dt>
+          <dd>
+            {diagnostics.applied.subscribed_project_ids.length > 0
+              ? "not tracked while syncing selected projects"
+              : diagnostics.applied.missing_count === 0
+              ? "none"
+              : `${diagnostics.applied.missing_count} missing: ${diagnostics.applied.gaps
+                  .map(formatGap)
+                  .join(", ")}`}
+          </dd>
+          <dt>Integrity</dt>
+          <dd>
+            {diagnostics.integrity.ok
+              ? "ok"
+              : diagnostics.integrity.issues
+                  .map((issue) =>
+                    issue.count === null ? issue.code : `${issue.code} ${issue.count}`
+                  )
+                  .join(", ")}
+          </dd>
+        </dl>
+      ) : null}
+      {diagnostics && diagnostics.errors.length > 0 ? (
+        <div className="sync-diagnostics-errors">
+          {diagnostics.errors.map((entry) => (
+            <div key={entry.op_id} className="sync-dead-letter-op">
+              <div className="sync-dead-letter-meta">
+                <code>{entry.op_name}</code>
+                <span>{entry.status}</span>
+                <span>{new Date(entry.created_at).toLocaleString()}</span>
+              </div>
+              <div className="sync-dead-letter-error">{entry.last_error}</div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+      <div className="sync-dead-letter-actions">
+        <AppButton
+          type="button"
+          size="1"
+          variant="surface"
+          disabled={busy}
+          onClick={() => void run(load)}
+        >
+          Refresh
+        </AppButton>
+        <AppButton
+          type="button"
+          size="1"
+          variant="surface"
+          color="red"
+          disabled={busy}
+          onClick={handleRebuild}
+        >
+          Rebuild from server
+        </AppButton>
+      </div>
+      {notice ? (
+        <Text size="1" color="gray">
+          {notice}
+        </Text>
+      ) : null}
+      {error ? <div className="error">{error}</div> : null}
+    </div>
+  );
+};
+
+export default SyncDiagnosticsPanel;
@@ -0,0 +1,81 @@
+import { useEffect, useState, type FC } from "react";
+import { mutate, query } from "../rpc/clientSingleton";
+import type { SyncDiscardedOp } from "../rpc/types";
+import { AppButton } from "./controls";
+
+type SyncDiscardedNoticeProps = {
+  refreshToken: number;
+  onDismissed: () => void;
+};
+
+const describeOp = (op: SyncDiscardedOp) => {
+  const reason = op.reason_code ? `${op.reason_code}: ${op.reason}` : op.reason;
+  return op.rolled_back ? reason : `${reason} (still applied on this device)`;
+};
+
+// Lists local changes the sync server rejected, plus the ones rolled back
+// with them, until the user dismisses the notice.
+const SyncDiscardedNotice: FC<SyncDiscardedNoticeProps> = ({
+  refreshToken,
+  onDismissed,
+}) => {
+  const [ops, setOps] = useState<SyncDiscardedOp[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    query<{ ops: SyncDiscardedOp[] }>("sync.discarded_ops", {})
+      .then((data) => {
+        if (mounted) {
+          setOps(data.ops);
+        }
+      })
+      .catch(() => {
+        // No session yet; the notice stays hidden.
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [refreshToken]);
+
+  const handleDismiss = async () => {
+    setError(null);
+    try {
+      await mutate("sync.dismiss_discarded", { op_ids: ops.map((op) => op.op_id) });
+      setOps([]);
+      onDismissed();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  if (ops.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="sync-discarded" role="status">
+      <div className="sync-discarded-header">
+        <strong>
+          {ops.length === 1
+            ? "1 change was discarded by sync"
+            : `${ops.length} changes were discarded by sync`}
+        </strong>
+        <AppButton type="button" size="1" variant="ghost" onClick={() => void handleDismiss()}>
+          Dismiss
+        </AppButton>
+      </div>
+      <ul className="sync-discarded-list">
+        {ops.map((op) => (
+          <li key={op.op_id}>
+            <code>{op.op_name}</code> {new Date(op.created_at).toLocaleString()} —{" "}
+            {describeOp(op)}
+          </li>
+        ))}
+      </ul>
+      {error ? <div className="error">{error}</div> : null}
+    </div>
+  );
+};
+
+export default SyncDiscardedNotice;
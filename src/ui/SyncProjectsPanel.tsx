@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState, type FC } from "react";
+import { Text } from "@radix-ui/themes";
+import { query } from "../rpc/clientSingleton";
+import type { SyncProjectSubscriptions } from "../rpc/types";
+import { AppCheckbox } from "./controls";
+
+type SyncProjectsPanelProps = {
+  onChanged: () => void;
+};
+
+// Which projects this device pulls. Checking a project downloads its history;
+// unchecking one removes its contents here but keeps it listed.
+const SyncProjectsPanel: FC<SyncProjectsPanelProps> = ({ onChanged }) => {
+  const [state, setState] = useState<SyncProjectSubscriptions | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setState(await query<SyncProjectSubscriptions>("sync.projects", {}));
+  }, []);
+
+  useEffect(() => {
+    load().catch((err) => {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    });
+  }, [load]);
+
+  const handleToggle = async (projectId: string, subscribe: boolean) => {
+    setBusyId(projectId);
+    setError(null);
+    try {
+      setState(
+        await query<SyncProjectSubscriptions>(
+          subscribe ? "sync.projects.subscribe" : "sync.projects.unsubscribe",
+          { project_id: projectId }
+        )
+      );
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!state) {
+    return error ? <div className="error">{error}</div> : null;
+  }
+
+  return (
+    <div className="sync-projects">
+      <Text size="1" color="gray">
+        {state.mode === "all"
+          ? "Syncing every project."
+          : `Syncing ${state.projects.filter((project) => project.subscribed).length} of ${state.projects.length} projects.`}
+      </Text>
+      {state.projects.map((project) => (
+        <label key={project.project_id} className="sync-projects-row">
+          <AppCheckbox
+            checked={project.subscribed}
+            disabled={busyId !== null}
+            onCheckedChange={(checked) =>
+              void handleToggle(project.project_id, checked === true)
+            }
+          />
+          {project.title}
+        </label>
+      ))}
+      {error ? <div className="error">{error}</div> : null}
+    </div>
+  );
+};
+
+export default SyncProjectsPanel;
@@ -0,0 +1,33 @@
+import { createContext, useContext, type FC, type ReactNode } from "react";
+import { getSystemTimeZone, isValidTimeZone } from "../domain/timeZone";
+
+type TimeZoneContextValue = {
+  /** The zone views compute days in. */
+  timeZone: string;
+  /** The signed-in user's saved zone, or null when they follow the device. */
+  userTimeZone: string | null;
+};
+
+const TimeZoneContext = createContext<TimeZoneContextValue | null>(null);
+
+export const TimeZoneProvider: FC<{
+  userTimeZone: string | null;
+  children: ReactNode;
+}> = ({ userTimeZone, children }) => {
+  const saved = isValidTimeZone(userTimeZone) ? userTimeZone : null;
+  return (
+    <TimeZoneContext.Provider
+      value={{ timeZone: saved ?? getSystemTimeZone(), userTimeZone: saved }}
+    >
+      {children}
+    </TimeZoneContext.Provider>
+  );
+};
+
+export const useTimeZone = () => {
+  const ctx = useContext(TimeZoneContext);
+  if (!ctx) {
+    throw new Error("useTimeZone must be used within a TimeZoneProvider");
+  }
+  return ctx;
+};
@@ -0,0 +1,102 @@
+import { useEffect, useMemo, useState, type FC } from "react";
+import { Flex, Text } from "@radix-ui/themes";
+import { mutate } from "../rpc/clientSingleton";
+import {
+  formatZoneLabel,
+  getSystemTimeZone,
+  isValidTimeZone,
+  listTimeZones,
+} from "../domain/timeZone";
+import { AppButton, AppInput } from "./controls";
+import { useTimeZone } from "./TimeZoneContext";
+
+type TimeZonePanelProps = {
+  userId: string | null;
+  onSaved?: () => Promise<void> | void;
+};
+
+// The signed-in user's zone, which sets where their days start for
+// dashboards, timesheets, reports and auto-planning.
+const TimeZonePanel: FC<TimeZonePanelProps> = ({ userId, onSaved }) => {
+  const { timeZone, userTimeZone } = useTimeZone();
+  const [draft, setDraft] = useState(userTimeZone ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const zones = useMemo(() => listTimeZones(), []);
+  const deviceZone = getSystemTimeZone();
+
+  useEffect(() => {
+    setDraft(userTimeZone ?? "");
+  }, [userTimeZone]);
+
+  const save = async (next: string | null) => {
+    if (!userId) {
+      return;
+    }
+    if (next !== null && !isValidTimeZone(next)) {
+      setError(`Unknown time zone "${next}".`);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await mutate("user.set_time_zone", { user_id: userId, time_zone: next });
+      await onSaved?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Flex direction="column" gap="3">
+      <Text size="2" color="gray">
+        {userTimeZone
+          ? `Days start at midnight in ${timeZone} (${formatZoneLabel(Date.now(), timeZone)}).`
+          : `Following this device: ${deviceZone} (${formatZoneLabel(Date.now(), deviceZone)}).`}
+      </Text>
+      <Flex align="end" gap="3" wrap="wrap">
+        <label style={{ display: "grid", gap: 6, minWidth: 240 }}>
+          <Text size="1" color="gray">
+            IANA zone
+          </Text>
+          <AppInput
+            value={draft}
+            placeholder={deviceZone}
+            list="time-zone-options"
+            onChange={(event) => setDraft(event.target.value)}
+          />
+          <datalist id="time-zone-options">
+            {zones.map((zone) => (
+              <option key={zone} value={zone} />
+            ))}
+          </datalist>
+        </label>
+        <AppButton
+          type="button"
+          variant="surface"
+          disabled={saving || !userId || draft.trim() === ""}
+          onClick={() => void save(draft.trim())}
+        >
+          {saving ? "Saving..." : "Save zone"}
+        </AppButton>
+        <AppButton
+          type="button"
+          variant="ghost"
+          disabled={saving || !userId || userTimeZone === null}
+          onClick={() => void save(null)}
+        >
+          Use device zone
+        </AppButton>
+      </Flex>
+      {error ? (
+        <Text size="1" color="red">
+          {error}
+        </Text>
+      ) : null}
+    </Flex>
+  );
+};
+
+export default TimeZonePanel;
@@ -0,0 +1,428 @@
+import { useCallback, useEffect, useMemo, useState, type FC } from "react";
+import { mutate, query } from "../rpc/clientSingleton";
+import { scopeKey, type Scope } from "../domain/scope";
+import { formatZonedDay, getZonedParts, zonedTimeToMs } from "../domain/timeZone";
+import { addDays, startOfWeek } from "./dateWindow";
+import { AppButton, AppInput } from "./controls";
+import { ItemAutocomplete } from "./ItemAutocomplete";
+import { useTimeZone } from "./TimeZoneContext";
+import UserSelect from "./UserSelect";
+
+type TimesheetEntry = {
+  entry_id: string;
+  item_id: string;
+  start_at: number;
+  end_at: number;
+  duration_minutes: number;
+  note: string | null;
+  source: string;
+  day_index: number;
+};
+
+type TimesheetRow = {
+  item_id: string;
+  title: string;
+  project_title: string | null;
+  minutes: number[];
+  total_minutes: number;
+  entries: TimesheetEntry[];
+};
+
+type Timesheet = {
+  user_id: string;
+  time_zone: string;
+  week_start: number;
+  week_end: number;
+  day_starts: number[];
+  rows: TimesheetRow[];
+  day_totals: number[];
+  total_minutes: number;
+};
+
+type TimesheetViewProps = {
+  scope: Scope;
+  refreshToken: number;
+  onRefresh: () => void;
+  onOpenItem: (itemId: string) => void;
+};
+
+type EntryDraft = { start: string; end: string; note: string };
+
+// New entries start here when the cell has none yet.
+const DEFAULT_START_HOUR = 9;
+
+const formatHours = (minutes: number) =>
+  minutes === 0 ? "" : (minutes / 60).toFixed(2).replace(/\.?0+$/, "");
+
+// Times read and write as wall clock in the timesheet owner's zone.
+const toTimeInput = (value: number, timeZone: string) => {
+  const parts = getZonedParts(value, timeZone);
+  return `${String(parts.hour).padStart(2, "0")}:${String(parts.minute).padStart(2, "0")}`;
+};
+
+const fromTimeInput = (dayStart: number, value: string, timeZone: string) => {
+  const [hours, minutes] = value.split(":").map(Number);
+  const day = getZonedParts(dayStart, timeZone);
+  return zonedTimeToMs(day.year, day.month, day.day, hours || 0, minutes || 0, timeZone);
+};
+
+const draftFor = (entry: TimesheetEntry, timeZone: string): EntryDraft => ({
+  start: toTimeInput(entry.start_at, timeZone),
+  end: toTimeInput(entry.end_at, timeZone),
+  note: entry.note ?? "",
+});
+
+const TimesheetView: FC<TimesheetViewProps> = ({
+  scope,
+  refreshToken,
+  onRefresh,
+  onOpenItem,
+}) => {
+  const { timeZone } = useTimeZone();
+  const [weekStart, setWeekStart] = useState(() =>
+    startOfWeek(new Date(), timeZone).getTime()
+  );
+  const [userId, setUserId] = useState<string | null>(null);
+  const [extraItemIds, setExtraItemIds] = useState<string[]>([]);
+  const [sheet, setSheet] = useState<Timesheet | null>(null);
+  const [selected, setSelected] = useState<{ itemId: string; dayIndex: number } | null>(
+    null
+  );
+  const [drafts, setDrafts] = useState<Record<string, EntryDraft>>({});
+  const [logHours, setLogHours] = useState("");
+  const [logNote, setLogNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scopeUserId = scope.kind === "user" ? scope.userId : null;
+  const effectiveUserId = scopeUserId ?? userId;
+  const currentScopeKey = scopeKey(scope);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      setSheet(
+        await query<Timesheet>("timesheet", {
+          scope,
+          // Sent as a date so a member in another zone sees the same week.
+          week_start_local: formatZonedDay(weekStart, timeZone),
+          user_id: effectiveUserId ?? undefined,
+          item_ids: extraItemIds,
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }, [effectiveUserId, extraItemIds, scope, timeZone, weekStart]);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshToken]);
+
+  useEffect(() => {
+    setSelected(null);
+  }, [currentScopeKey, effectiveUserId, weekStart]);
+
+  const selectedRow = useMemo(
+    () => sheet?.rows.find((row) => row.item_id === selected?.itemId) ?? null,
+    [selected, sheet]
+  );
+  const selectedEntries = useMemo(
+    () =>
+      selectedRow?.entries.filter((entry) => entry.day_index === selected?.dayIndex) ?? [],
+    [selected, selectedRow]
+  );
+
+  const sheetZone = sheet?.time_zone ?? timeZone;
+
+  useEffect(() => {
+    setDrafts(
+      Object.fromEntries(
+        selectedEntries.map((entry) => [entry.entry_id, draftFor(entry, sheetZone)])
+      )
+    );
+  }, [selectedEntries, sheetZone]);
+
+  const run = async (opName: string, args: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await mutate(opName, args);
+      await load();
+      onRefresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (entry: TimesheetEntry) => {
+    const draft = drafts[entry.entry_id];
+    if (!draft || !sheet) {
+      return;
+    }
+    const dayStart = sheet.day_starts[entry.day_index];
+    const startAt = fromTimeInput(dayStart, draft.start, sheetZone);
+    let endAt = fromTimeInput(dayStart, draft.end, sheetZone);
+    // An end at or before the start means the entry ran past midnight.
+    if (endAt <= startAt) {
+      endAt = fromTimeInput(
+        addDays(new Date(dayStart), 1, sheetZone).getTime(),
+        draft.end,
+        sheetZone
+      );
+    }
+    void run("time_entry.update", {
+      entry_id: entry.entry_id,
+      start_at: startAt,
+      end_at: endAt,
+      note: draft.note.trim() ? draft.note : null,
+    });
+  };
+
+  const handleLog = () => {
+    if (!sheet || !selected) {
+      return;
+    }
+    const minutes = Math.round(Number(logHours) * 60);
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      setError("Enter the hours to log.");
+      return;
+    }
+    // Append after the cell's last entry so the new one cannot overlap it.
+    const dayStart = sheet.day_starts[selected.dayIndex];
+    const startAt = selectedEntries.reduce(
+      (latest, entry) => Math.max(latest, entry.end_at),
+      fromTimeInput(dayStart, `${DEFAULT_START_HOUR}:00`, sheetZone)
+    );
+    setLogHours("");
+    setLogNote("");
+    void run("add_time_entry", {
+      item_id: selected.itemId,
+      start_at: startAt,
+      end_at: startAt + minutes * 60 * 1000,
+      duration_minutes: minutes,
+      note: logNote.trim() ? logNote : null,
+      user_id: sheet.user_id,
+    });
+  };
+
+  const dayLabels = (sheet?.day_starts ?? []).map((dayStart) =>
+    new Date(dayStart).toLocaleDateString(undefined, {
+      timeZone: sheetZone,
+      weekday: "short",
+      month: "numeric",
+      day: "numeric",
+    })
+  );
+
+  return (
+    <div className="timesheet-root">
+      <div className="timesheet-toolbar">
+        <div className="timesheet-toolbar-left">
+          <AppButton
+            type="button"
+            size="1"
+            variant="surface"
+            onClick={() => setWeekStart(addDays(new Date(weekStart), -7, timeZone).getTime())}
+          >
+            ‹
+          </AppButton>
+          <AppButton
+            type="button"
+            size="1"
+            variant="surface"
+            onClick={() => setWeekStart(startOfWeek(new Date(), timeZone).getTime())}
+          >
+            This week
+          </AppButton>
+          <AppButton
+            type="button"
+            size="1"
+            variant="surface"
+            onClick={() => setWeekStart(addDays(new Date(weekStart), 7, timeZone).getTime())}
+          >
+            ›
+          </AppButton>
+          <span className="timesheet-week">
+            Week of {new Date(weekStart).toLocaleDateString(undefined, { timeZone })}
+          </span>
+        </div>
+        {scopeUserId ? null : (
+          <div className="timesheet-user">
+            <UserSelect
+              value={sheet?.user_id ?? null}
+              onChange={(value) => setUserId(value)}
+              refreshToken={refreshToken}
+            />
+          </div>
+        )}
+      </div>
+
+      {error ? <div className="error">{error}</div> : null}
+
+      {sheet ? (
+        <table className="timesheet-grid">
+          <thead>
+            <tr>
+              <th>Item</th>
+              {dayLabels.map((label) => (
+                <th key={label}>{label}</th>
+              ))}
+              <th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.rows.map((row) => (
+              <tr key={row.item_id}>
+                <td className="timesheet-item">
+                  <button
+                    type="button"
+                    className="timesheet-item-link"
+                    onClick={() => onOpenItem(row.item_id)}
+                  >
+                    {row.title}
+                  </button>
+                  {row.project_title ? (
+                    <span className="timesheet-project">{row.project_title}</span>
+                  ) : null}
+                </td>
+                {row.minutes.map((minutes, dayIndex) => (
+                  <td key={dayIndex}>
+                    <button
+                      type="button"
+                      className={`timesheet-cell${
+                        selected?.itemId === row.item_id && selected.dayIndex === dayIndex
+                          ? " is-selected"
+                          : ""
+                      }`}
+                      onClick={() => setSelected({ itemId: row.item_id, dayIndex })}
+                    >
+                      {formatHours(minutes)}
+                    </button>
+                  </td>
+                ))}
+                <td className="timesheet-total">{formatHours(row.total_minutes)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td>Total</td>
+              {sheet.day_totals.map((minutes, dayIndex) => (
+                <td key={dayIndex} className="timesheet-total">
+                  {formatHours(minutes)}
+                </td>
+              ))}
+              <td className="timesheet-total">{formatHours(sheet.total_minutes) || "0"}</td>
+            </tr>
+          </tfoot>
+        </table>
+      ) : null}
+
+      <div className="timesheet-add-row">
+        <ItemAutocomplete
+          scopeId={scope.kind === "project" ? scope.projectId : null}
+          excludeIds={sheet?.rows.map((row) => row.item_id) ?? []}
+          placeholder="Add an item to log time on"
+          onSelect={(item) =>
+            setExtraItemIds((prev) => (prev.includes(item.id) ? prev : [...prev, item.id]))
+          }
+        />
+      </div>
+
+      {selected && selectedRow && sheet ? (
+        <div className="timesheet-editor">
+          <div className="timesheet-editor-title">
+            {selectedRow.title} · {dayLabels[selected.dayIndex]}
+          </div>
+          {selectedEntries.map((entry) => {
+            const draft = drafts[entry.entry_id] ?? draftFor(entry, sheetZone);
+            const setDraft = (patch: Partial<EntryDraft>) =>
+              setDrafts((prev) => ({ ...prev, [entry.entry_id]: { ...draft, ...patch } }));
+            return (
+              <div key={entry.entry_id} className="timesheet-entry">
+                <AppInput
+                  type="time"
+                  value={draft.start}
+                  onChange={(event) => setDraft({ start: event.target.value })}
+                />
+                <AppInput
+                  type="time"
+                  value={draft.end}
+                  onChange={(event) => setDraft({ end: event.target.value })}
+                />
+                <AppInput
+                  value={draft.note}
+                  placeholder="Note"
+                  onChange={(event) => setDraft({ note: event.target.value })}
+                />
+                <span className="timesheet-entry-minutes">{entry.duration_minutes}m</span>
+                <AppButton
+                  type="button"
+                  size="1"
+                  variant="surface"
+                  disabled={busy}
+                  onClick={() => handleSave(entry)}
+                >
+                  Save
+                </AppButton>
+                <AppButton
+                  type="button"
+                  size="1"
+                  variant="ghost"
+                  disabled={busy || entry.end_at - entry.start_at < 2 * 60 * 1000}
+                  onClick={() =>
+                    void run("time_entry.split", {
+                      entry_id: entry.entry_id,
+                      split_at:
+                        entry.start_at +
+                        Math.round((entry.end_at - entry.start_at) / 2 / 60000) * 60000,
+                    })
+                  }
+                >
+                  Split
+                </AppButton>
+                <AppButton
+                  type="button"
+                  size="1"
+                  variant="ghost"
+                  color="red"
+                  disabled={busy}
+                  onClick={() => void run("time_entry.delete", { entry_id: entry.entry_id })}
+                >
+                  Delete
+                </AppButton>
+              </div>
+            );
+          })}
+          <div className="timesheet-entry">
+            <AppInput
+              value={logHours}
+              placeholder="Hours"
+              inputMode="decimal"
+              onChange={(event) => setLogHours(event.target.value)}
+            />
+            <AppInput
+              value={logNote}
+              placeholder="Note"
+              onChange={(event) => setLogNote(event.target.value)}
+            />
+            <AppButton
+              type="button"
+              size="1"
+              variant="surface"
+              disabled={busy || !logHours.trim()}
+              onClick={handleLog}
+            >
+              Log time
+            </AppButton>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default TimesheetView;
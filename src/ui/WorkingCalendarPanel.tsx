@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useState, type FC } from "react";
+import { Flex, Text } from "@radix-ui/themes";
+import { mutate, query } from "../rpc/clientSingleton";
+import type { Holiday, TimeOff } from "../domain/workingCalendar";
+import { AppButton, AppCheckbox, AppInput } from "./controls";
+import UserSelect from "./UserSelect";
+
+type WorkingCalendarResult = {
+  working_weekdays: boolean[];
+  holidays: Holiday[];
+  time_off: Array<TimeOff & { display_name: string }>;
+};
+
+// Stored Sunday first, shown Monday first.
+const WEEKDAYS = [
+  { index: 1, label: "Mon" },
+  { index: 2, label: "Tue" },
+  { index: 3, label: "Wed" },
+  { index: 4, label: "Thu" },
+  { index: 5, label: "Fri" },
+  { index: 6, label: "Sat" },
+  { index: 0, label: "Sun" },
+];
+
+const formatRange = (entry: TimeOff) =>
+  entry.start_day === entry.end_day ? entry.start_day : `${entry.start_day} – ${entry.end_day}`;
+
+// The team's working weekdays, holidays and each member's time off, which
+// slack, the critical path, capacity and auto-planning all skip over.
+const WorkingCalendarPanel: FC = () => {
+  const [calendar, setCalendar] = useState<WorkingCalendarResult | null>(null);
+  const [holidayDay, setHolidayDay] = useState("");
+  const [holidayName, setHolidayName] = useState("");
+  const [timeOffUserId, setTimeOffUserId] = useState<string | null>(null);
+  const [timeOffStart, setTimeOffStart] = useState("");
+  const [timeOffEnd, setTimeOffEnd] = useState("");
+  const [timeOffNote, setTimeOffNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setCalendar(await query<WorkingCalendarResult>("working_calendar", {}));
+  }, []);
+
+  useEffect(() => {
+    load().catch((err) => {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    });
+  }, [load]);
+
+  const run = async (name: string, args: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await mutate(name, args);
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggleWeekday = (weekday: number, isWorking: boolean) => {
+    if (!calendar) {
+      return;
+    }
+    const next = [...calendar.working_weekdays];
+    next[weekday] = isWorking;
+    void run("team.set_working_days", { working_weekdays: next });
+  };
+
+  const handleAddHoliday = async () => {
+    if (!holidayDay || !holidayName.trim()) {
+      setError("A holiday needs a date and a name.");
+      return;
+    }
+    const added = await run("team.holiday.add", {
+      holiday_id: crypto.randomUUID(),
+      day: holidayDay,
+      name: holidayName.trim(),
+    });
+    if (added) {
+      setHolidayDay("");
+      setHolidayName("");
+    }
+  };
+
+  const handleAddTimeOff = async () => {
+    if (!timeOffUserId || !timeOffStart) {
+      setError("Time off needs a member and a first day.");
+      return;
+    }
+    const endDay = timeOffEnd || timeOffStart;
+    if (endDay < timeOffStart) {
+      setError("The last day off cannot be before the first.");
+      return;
+    }
+    const added = await run("user.time_off.add", {
+      time_off_id: crypto.randomUUID(),
+      user_id: timeOffUserId,
+      start_day: timeOffStart,
+      end_day: endDay,
+      note: timeOffNote.trim() || null,
+    });
+    if (added) {
+      setTimeOffStart("");
+      setTimeOffEnd("");
+      setTimeOffNote("");
+    }
+  };
+
+  if (!calendar) {
+    return error ? <div className="error">{error}</div> : null;
+  }
+
+  return (
+    <Flex direction="column" gap="4" className="working-calendar-panel">
+      <Flex direction="column" gap="2">
+        <Text size="2" weight="bold">
+          Working days
+        </Text>
+        <Flex gap="3" wrap="wrap">
+          {WEEKDAYS.map((day) => (
+            <label key={day.index} className="working-calendar-weekday">
+              <AppCheckbox
+                checked={calendar.working_weekdays[day.index] ?? false}
+                disabled={busy}
+                onCheckedChange={(checked) => handleToggleWeekday(day.index, checked === true)}
+              />
+              {day.label}
+            </label>
+          ))}
+        </Flex>
+      </Flex>
+
+      <Flex direction="column" gap="2">
+        <Text size="2" weight="bold">
+          Holidays
+        </Text>
+        {calendar.holidays.length === 0 ? (
+          <Text size="1" color="gray">
+            No team holidays.
+          </Text>
+        ) : (
+          calendar.holidays.map((holiday) => (
+            <div key={holiday.holiday_id} className="working-calendar-row">
+              <span className="working-calendar-day">{holiday.day}</span>
+              <span>{holiday.name}</span>
+              <AppButton
+                type="button"
+                size="1"
+                variant="ghost"
+                disabled={busy}
+                onClick={() => void run("team.holiday.remove", { holiday_id: holiday.holiday_id })}
+              >
+                Remove
+              </AppButton>
+            </div>
+          ))
+        )}
+        <Flex gap="2" align="center" wrap="wrap">
+          <AppInput
+            type="date"
+            value={holidayDay}
+            aria-label="Holiday date"
+            onChange={(event) => setHolidayDay(event.target.value)}
+          />
+          <AppInput
+            value={holidayName}
+            placeholder="Name"
+            aria-label="Holiday name"
+            onChange={(event) => setHolidayName(event.target.value)}
+          />
+          <AppButton
+            type="button"
+            size="1"
+            variant="surface"
+            disabled={busy}
+            onClick={() => void handleAddHoliday()}
+          >
+            Add holiday
+          </AppButton>
+        </Flex>
+      </Flex>
+
+      <Flex direction="column" gap="2">
+        <Text size="2" weight="bold">
+          Time off
+        </Text>
+        {calendar.time_off.length === 0 ? (
+          <Text size="1" color="gray">
+            No time off booked.
+          </Text>
+        ) : (
+          calendar.time_off.map((entry) => (
+            <div key={entry.time_off_id} className="working-calendar-row">
+              <span className="working-calendar-day">{formatRange(entry)}</span>
+              <span>
+                {entry.display_name}
+                {entry.note ? <span className="working-calendar-note"> · {entry.note}</span> : null}
+              </span>
+              <AppButton
+                type="button"
+                size="1"
+                variant="ghost"
+                disabled={busy}
+                onClick={() =>
+                  void run("user.time_off.remove", { time_off_id: entry.time_off_id })
+                }
+              >
+                Remove
+              </AppButton>
+            </div>
+          ))
+        )}
+        <Flex gap="2" align="center" wrap="wrap">
+          <UserSelect
+            value={timeOffUserId}
+            onChange={setTimeOffUserId}
+            placeholder="Member"
+          />
+          <AppInput
+            type="date"
+            value={timeOffStart}
+            aria-label="First day off"
+            onChange={(event) => setTimeOffStart(event.target.value)}
+          />
+          <AppInput
+            type="date"
+            value={timeOffEnd}
+            aria-label="Last day off"
+            onChange={(event) => setTimeOffEnd(event.target.value)}
+          />
+          <AppInput
+            value={timeOffNote}
+            placeholder="Note"
+            aria-label="Time off note"
+            onChange={(event) => setTimeOffNote(event.target.value)}
+          />
+          <AppButton
+            type="button"
+            size="1"
+            variant="surface"
+            disabled={busy}
+            onClick={() => void handleAddTimeOff()}
+          >
+            Add time off
+          </AppButton>
+        </Flex>
+      </Flex>
+
+      {error ? <div className="error">{error}</div> : null}
+    </Flex>
+  );
+};
+
+export default WorkingCalendarPanel;
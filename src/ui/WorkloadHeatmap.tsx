@@ -0,0 +1,282 @@
+import { useCallback, useEffect, useMemo, useState, type FC } from "react";
+import type { Scope } from "../domain/scope";
+import { mutate, query } from "../rpc/clientSingleton";
+import { formatEstimateMinutes } from "../domain/formatters";
+import { AppSelect } from "./controls";
+import { formatZonedDay } from "../domain/timeZone";
+import { startOfWeek } from "./dateWindow";
+import { useTimeZone } from "./TimeZoneContext";
+import UserSelect from "./UserSelect";
+
+type WorkloadTotals = {
+  capacity_minutes: number;
+  scheduled_minutes: number;
+  estimated_minutes: number;
+  load_minutes: number;
+  over_minutes: number;
+};
+
+type WorkloadDay = WorkloadTotals & {
+  day_start: number;
+  items: Array<{
+    item_id: string;
+    title: string;
+    scheduled_minutes: number;
+    estimated_minutes: number;
+  }>;
+};
+
+type WorkloadUser = {
+  user_id: string;
+  display_name: string;
+  days: WorkloadDay[];
+  weeks: Array<WorkloadTotals & { week_start: number }>;
+  undated_minutes: number;
+  over_day_count: number;
+};
+
+type CapacityRangeResult = {
+  time_zone: string;
+  day_starts: number[];
+  users: WorkloadUser[];
+};
+
+type WorkloadHeatmapProps = {
+  scope: Scope;
+  refreshToken: number;
+  onSelectItem: (itemId: string) => void;
+  onChanged?: () => void;
+};
+
+const WEEK_OPTIONS = [2, 4, 8] as const;
+
+const dayLabel = (value: number, timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, {
+    timeZone,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  }).format(new Date(value));
+
+const formatHours = (minutes: number) =>
+  minutes === 0 ? "" : (minutes / 60).toFixed(1).replace(/\.0$/, "");
+
+// Over capacity is its own color; below it, shade by how full the day is.
+const loadClass = (totals: WorkloadTotals) => {
+  if (totals.over_minutes > 0) {
+    return "is-over";
+  }
+  if (totals.load_minutes === 0) {
+    return "";
+  }
+  const ratio = totals.load_minutes / totals.capacity_minutes;
+  if (ratio <= 0.5) return "workload-level-1";
+  if (ratio <= 0.85) return "workload-level-2";
+  return "workload-level-3";
+};
+
+const describe = (totals: WorkloadTotals) =>
+  `${formatEstimateMinutes(totals.load_minutes)} booked of ${formatEstimateMinutes(
+    totals.capacity_minutes
+  )} (${formatEstimateMinutes(totals.scheduled_minutes)} scheduled, ${formatEstimateMinutes(
+    totals.estimated_minutes
+  )} estimated)`;
+
+const WorkloadHeatmap: FC<WorkloadHeatmapProps> = ({
+  scope,
+  refreshToken,
+  onSelectItem,
+  onChanged,
+}) => {
+  const { timeZone } = useTimeZone();
+  const [weekCount, setWeekCount] = useState<number>(2);
+  const [data, setData] = useState<CapacityRangeResult | null>(null);
+  const [selected, setSelected] = useState<{ userId: string; dayIndex: number } | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const dayStartLocal = useMemo(
+    () => formatZonedDay(startOfWeek(new Date(), timeZone).getTime(), timeZone),
+    [timeZone]
+  );
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      setData(
+        await query<CapacityRangeResult>("capacity_range", {
+          scope,
+          day_start_local: dayStartLocal,
+          day_count: weekCount * 7,
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  }, [dayStartLocal, scope, weekCount]);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshToken]);
+
+  const selectedUser = data?.users.find((user) => user.user_id === selected?.userId) ?? null;
+  const selectedDay = selected && selectedUser ? selectedUser.days[selected.dayIndex] : null;
+
+  const handleReassign = async (itemId: string, userId: string | null) => {
+    if (!userId || userId === selected?.userId) {
+      return;
+    }
+    setError(null);
+    try {
+      await mutate("item.set_assignee", { item_id: itemId, user_id: userId });
+      await load();
+      onChanged?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  // Day starts come back in the zone the range was bucketed in, which is the
+  // scoped member's when the dashboard is scoped to one.
+  const dataZone = data?.time_zone ?? timeZone;
+  const today = formatZonedDay(Date.now(), dataZone);
+
+  return (
+    <div className="workload">
+      <div className="heatmap-header">
+        <div className="heatmap-title">Workload</div>
+        <label className="heatmap-range">
+          Range
+          <AppSelect
+            value={String(weekCount)}
+            onChange={(value) => {
+              setSelected(null);
+              setWeekCount(Number(value));
+            }}
+            options={WEEK_OPTIONS.map((value) => ({
+              value: String(value),
+              label: `${value} weeks`,
+            }))}
+          />
+        </label>
+      </div>
+      {error ? <div className="error">{error}</div> : null}
+      {data ? (
+        <div className="workload-grid-wrap">
+          <table className="workload-grid">
+            <thead>
+              <tr>
+                <th />
+                {data.day_starts.map((dayStart, dayIndex) => {
+                  const day = formatZonedDay(dayStart, dataZone);
+                  return [
+                    <th
+                      key={dayStart}
+                      className={day === today ? "is-today" : undefined}
+                      title={dayLabel(dayStart, dataZone)}
+                    >
+                      {Number(day.slice(8))}
+                    </th>,
+                    dayIndex % 7 === 6 ? (
+                      <th key={`week-${dayStart}`} className="workload-week">
+                        Week
+                      </th>
+                    ) : null,
+                  ];
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {data.users.map((user) => (
+                <tr key={user.user_id}>
+                  <th className="workload-user" scope="row">
+                    {user.display_name}
+                    {user.undated_minutes > 0 ? (
+                      <span
+                        className="workload-undated"
+                        title="Estimated work with no due date, not placed on any day"
+                      >
+                        +{formatEstimateMinutes(user.undated_minutes)} undated
+                      </span>
+                    ) : null}
+                  </th>
+                  {user.days.map((day, dayIndex) => {
+                    const week = user.weeks[Math.floor(dayIndex / 7)];
+                    const isSelected =
+                      selected?.userId === user.user_id && selected.dayIndex === dayIndex;
+                    return [
+                      <td key={day.day_start}>
+                        <button
+                          type="button"
+                          className={`workload-cell ${loadClass(day)}${
+                            day.capacity_minutes === 0 ? " is-off" : ""
+                          }${isSelected ? " is-selected" : ""}`}
+                          title={`${dayLabel(day.day_start, dataZone)}: ${describe(day)}`}
+                          onClick={() =>
+                            setSelected(isSelected ? null : { userId: user.user_id, dayIndex })
+                          }
+                        >
+                          {formatHours(day.load_minutes)}
+                        </button>
+                      </td>,
+                      dayIndex % 7 === 6 && week ? (
+                        <td
+                          key={`week-${day.day_start}`}
+                          className={`workload-week ${loadClass(week)}`}
+                          title={describe(week)}
+                        >
+                          {formatHours(week.load_minutes) || "0"}/
+                          {formatHours(week.capacity_minutes) || "0"}
+                        </td>
+                      ) : null,
+                    ];
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {selectedUser && selectedDay ? (
+        <div className="workload-detail">
+          <div className="workload-detail-title">
+            {selectedUser.display_name} · {dayLabel(selectedDay.day_start, dataZone)}:{" "}
+            {describe(selectedDay)}
+          </div>
+          {selectedDay.items.length === 0 ? (
+            <div className="workload-empty">Nothing booked on this day.</div>
+          ) : (
+            selectedDay.items.map((item) => (
+              <div key={item.item_id} className="workload-item">
+                <button
+                  type="button"
+                  className="workload-item-link"
+                  onClick={() => onSelectItem(item.item_id)}
+                >
+                  {item.title}
+                </button>
+                <span className="workload-item-minutes">
+                  {item.scheduled_minutes > 0
+                    ? `${formatEstimateMinutes(item.scheduled_minutes)} scheduled`
+                    : `${formatEstimateMinutes(item.estimated_minutes)} estimated`}
+                </span>
+                <div className="workload-item-assignee">
+                  <UserSelect
+                    value={selectedUser.user_id}
+                    onChange={(userId) => void handleReassign(item.item_id, userId)}
+                    placeholder="Reassign"
+                    refreshToken={refreshToken}
+                  />
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default WorkloadHeatmap;
@@ -1,16 +1,29 @@
-export const startOfDay = (value: Date) => {
+import { addZonedDays, startOfZonedDay, startOfZonedWeek } from "../domain/timeZone";
+
+// Each helper works in the device's zone unless given an IANA `timeZone`.
+
+export const startOfDay = (value: Date, timeZone?: string) => {
+  if (timeZone) {
+    return new Date(startOfZonedDay(value.getTime(), timeZone));
+  }
   const next = new Date(value);
   next.setHours(0, 0, 0, 0);
   return next;
 };
 
-export const addDays = (value: Date, days: number) => {
+export const addDays = (value: Date, days: number, timeZone?: string) => {
+  if (timeZone) {
+    return new Date(addZonedDays(value.getTime(), days, timeZone));
+  }
   const next = new Date(value);
   next.setDate(next.getDate() + days);
   return next;
 };
 
-export const startOfWeek = (value: Date) => {
+export const startOfWeek = (value: Date, timeZone?: string) => {
+  if (timeZone) {
+    return new Date(startOfZonedWeek(value.getTime(), timeZone));
+  }
   const next = startOfDay(value);
   const day = next.getDay();
   const diff = day === 0 ? -6 : 1 - day;
@@ -18,12 +31,12 @@ export const startOfWeek = (value: Date) => {
   return next;
 };
 
-export const getTodayRange = (now = new Date()) => {
-  const start = startOfDay(now);
-  return { start, end: addDays(start, 1) };
+export const getTodayRange = (now = new Date(), timeZone?: string) => {
+  const start = startOfDay(now, timeZone);
+  return { start, end: addDays(start, 1, timeZone) };
 };
 
-export const getWeekRange = (now = new Date()) => {
-  const start = startOfWeek(now);
-  return { start, end: addDays(start, 7) };
+export const getWeekRange = (now = new Date(), timeZone?: string) => {
+  const start = startOfWeek(now, timeZone);
+  return { start, end: addDays(start, 7, timeZone) };
 };